@@ -0,0 +1,173 @@
+/**
+ * Integration tests for the streaming (SSE) mode of analyze-ticket
+ */
+
+import { describe, test, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest'
+import { POST } from '../../app/api/analyze-ticket/route'
+import { defaultQAProfile } from '../../lib/schemas/QAProfile'
+
+vi.mock('../../lib/ai/providerFailover', () => ({
+  generateTextWithFailover: vi.fn(),
+  getProviderHealthStatus: vi.fn().mockReturnValue({})
+}))
+
+import { generateTextWithFailover } from '../../lib/ai/providerFailover'
+
+const sectionResponses = {
+  summary: {
+    problem: 'Users cannot reset their password',
+    solution: 'Add a reset password flow',
+    context: 'Part of the authentication module'
+  },
+  criteria: [
+    {
+      id: 'ac-1',
+      title: 'Reset email is sent',
+      description: 'A reset email is sent to registered users',
+      priority: 'must',
+      category: 'functional',
+      testable: true
+    }
+  ],
+  testCases: [
+    {
+      format: 'steps',
+      id: 'tc-1',
+      category: 'functional',
+      priority: 'high',
+      testCase: {
+        title: 'Request password reset',
+        objective: 'Verify reset email is sent',
+        steps: [{ action: 'Submit reset form', expectedResult: 'Email is sent' }]
+      }
+    }
+  ],
+  warnings: [
+    {
+      type: 'recommendation',
+      title: 'Limited description',
+      message: 'The description is short',
+      recommendation: 'Add more detail',
+      severity: 'low'
+    }
+  ]
+}
+
+function mockSectionGenerators() {
+  (generateTextWithFailover as unknown as ReturnType<typeof vi.fn>).mockImplementation(async (prompt: string) => {
+    if (prompt.includes('ONLY the ticket summary')) return { text: JSON.stringify(sectionResponses.summary) }
+    if (prompt.includes('ONLY acceptance criteria')) return { text: JSON.stringify(sectionResponses.criteria) }
+    if (prompt.includes('ONLY test cases')) return { text: JSON.stringify(sectionResponses.testCases) }
+    return { text: JSON.stringify(sectionResponses.warnings) }
+  })
+}
+
+function parseEvents(body: string): Array<{ event: string; data: any }> {
+  return body
+    .split('\n\n')
+    .filter(frame => frame.trim().length > 0)
+    .map(frame => {
+      const lines = frame.split('\n')
+      const event = lines.find(line => line.startsWith('event: '))!.slice('event: '.length)
+      const data = lines
+        .filter(line => line.startsWith('data: '))
+        .map(line => line.slice('data: '.length))
+        .join('\n')
+      return { event, data: JSON.parse(data) }
+    })
+}
+
+describe('Analyze Ticket API - streaming mode', () => {
+  const validPayload = {
+    qaProfile: defaultQAProfile,
+    ticketJson: {
+      issueKey: 'TEST-123',
+      summary: 'Password reset',
+      description: 'Short description',
+      status: 'In Progress',
+      priority: 'Priority: High',
+      issueType: 'Story',
+      reporter: 'Reporter',
+      comments: [],
+      attachments: [],
+      components: [],
+      customFields: {},
+      scrapedAt: new Date().toISOString()
+    }
+  }
+
+  const createRequest = (payload: unknown, accept = 'text/event-stream') => ({
+    method: 'POST',
+    headers: new Headers({ accept }),
+    json: vi.fn().mockResolvedValue(payload)
+  })
+
+  beforeAll(() => {
+    process.env.OPENAI_API_KEY = 'test-key'
+  })
+
+  afterAll(() => {
+    delete process.env.OPENAI_API_KEY
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockSectionGenerators()
+  })
+
+  test('should stream each section followed by a complete event', async () => {
+    const res = await POST(createRequest(validPayload) as any)
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('content-type')).toContain('text/event-stream')
+
+    const events = parseEvents(await res.text())
+    const names = events.map(e => e.event)
+
+    expect(names[0]).toBe('progress')
+    expect(names).toContain('images')
+    expect(names[names.length - 1]).toBe('complete')
+
+    const sections = events.filter(e => e.event === 'section')
+    expect(sections.map(e => e.data.section).sort()).toEqual(
+      ['acceptanceCriteria', 'configurationWarnings', 'testCases', 'ticketSummary']
+    )
+    expect(sections.find(e => e.data.section === 'ticketSummary')!.data.data).toEqual(sectionResponses.summary)
+    sections.forEach(e => expect(typeof e.data.duration).toBe('number'))
+
+    const complete = events[events.length - 1].data
+    expect(complete.metadata.ticketId).toBe('TEST-123')
+    expect(complete.metadata.wordCount).toBeGreaterThan(0)
+    expect(complete.timings.total).toBeGreaterThanOrEqual(0)
+  })
+
+  test('should emit an error event when a section generator fails', async () => {
+    (generateTextWithFailover as unknown as ReturnType<typeof vi.fn>).mockRejectedValue(new Error('Rate limit exceeded'))
+
+    const res = await POST(createRequest(validPayload) as any)
+    const events = parseEvents(await res.text())
+    const errorEvent = events.find(e => e.event === 'error')
+
+    expect(errorEvent).toBeDefined()
+    expect(errorEvent!.data.status).toBe(429)
+    expect(errorEvent!.data.error).toBe('RATE_LIMIT_EXCEEDED')
+    expect(events.some(e => e.event === 'complete')).toBe(false)
+  })
+
+  test('should return a JSON validation error before streaming starts', async () => {
+    const res = await POST(createRequest({ ticketJson: {} }) as any)
+
+    expect(res.status).toBe(400)
+    const data = await res.json()
+    expect(data.error).toBe('VALIDATION_ERROR')
+  })
+
+  test('should keep returning a single JSON document without the event-stream Accept header', async () => {
+    const res = await POST(createRequest(validPayload, 'application/json') as any)
+
+    expect(res.status).toBe(200)
+    const data = await res.json()
+    expect(data.ticketSummary).toEqual(sectionResponses.summary)
+    expect(data.metadata.ticketId).toBe('TEST-123')
+  })
+})
@@ -0,0 +1,154 @@
+/**
+ * Integration tests for Playwright / Cypress skeleton generation with AI selector proposals
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { POST } from '../../app/api/automation-tests/route'
+import { createMinimalQACanvasDocument } from '../../lib/schemas/QACanvasDocument'
+import { defaultQAProfile } from '../../lib/schemas/QAProfile'
+
+vi.mock('../../lib/ai/providerFailover', () => ({
+  generateTextWithImagesFailover: vi.fn()
+}))
+
+import { generateTextWithImagesFailover } from '../../lib/ai/providerFailover'
+import { getProviderRoutingPolicy } from '../../lib/ai/providerRegistry'
+
+describe('Automation Tests API', () => {
+  const document = {
+    ...createMinimalQACanvasDocument('SHOP-7', defaultQAProfile),
+    testCases: [
+      {
+        format: 'steps' as const,
+        id: 'tc-1',
+        category: 'functional',
+        priority: 'high' as const,
+        testCase: {
+          title: 'Apply a coupon',
+          objective: 'The discount is applied',
+          preconditions: [],
+          steps: [
+            { stepNumber: 1, action: 'Enter "SAVE10" in the coupon field', expectedResult: 'The coupon is accepted' },
+            { stepNumber: 2, action: 'Click Apply', expectedResult: 'The total is reduced' }
+          ],
+          postconditions: []
+        }
+      }
+    ]
+  }
+  const ticketJson = {
+    issueKey: 'SHOP-7',
+    summary: 'Coupons at checkout',
+    description: 'See the mockup.',
+    status: 'To Do',
+    priority: 'Medium',
+    issueType: 'Story',
+    reporter: 'PO',
+    comments: [],
+    attachments: [{ data: 'data:image/png;base64,iVBORw0KGgo=', mime: 'image/png', name: 'checkout.png', size: 8, tooBig: false, url: 'blob:checkout' }],
+    components: [],
+    customFields: {},
+    scrapedAt: '2025-01-01T00:00:00.000Z'
+  }
+
+  const createRequest = (payload: unknown) => new NextRequest('http://localhost/api/automation-tests', {
+    method: 'POST',
+    body: JSON.stringify(payload)
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  test('should return a Playwright skeleton without calling the AI by default', async () => {
+    const res = await POST(createRequest({ document }))
+    const data = await res.json()
+
+    expect(res.status).toBe(200)
+    expect(data).toMatchObject({ ticketId: 'SHOP-7', framework: 'playwright', fileName: 'SHOP-7.spec.ts', proposedSelectors: [], warnings: [] })
+    expect(data.content).toContain("await page.locator('TODO').fill('SAVE10')")
+    expect(generateTextWithImagesFailover).not.toHaveBeenCalled()
+  })
+
+  test('should fill in the selectors proposed from the ticket screenshots', async () => {
+    vi.mocked(generateTextWithImagesFailover).mockResolvedValue({
+      text: '```json\n[{"testCaseId":"tc-1","step":1,"selector":"#coupon"},{"testCaseId":"tc-1","step":2,"selector":"button[name=apply]"},{"testCaseId":"tc-9","step":1,"selector":"#unknown"},{"step":"x"}]\n```'
+    } as any)
+
+    const res = await POST(createRequest({
+      document,
+      framework: 'cypress',
+      proposeSelectors: true,
+      ticketJson,
+      options: { selectors: [{ testCaseId: 'tc-1', step: 2, selector: '[data-testid="apply"]' }] }
+    }))
+    const data = await res.json()
+
+    expect(res.status).toBe(200)
+    expect(data.fileName).toBe('SHOP-7.cy.ts')
+    expect(data.proposedSelectors).toEqual([
+      { testCaseId: 'tc-1', step: 1, selector: '#coupon' },
+      { testCaseId: 'tc-1', step: 2, selector: 'button[name=apply]' }
+    ])
+    expect(data.content).toContain("cy.get('#coupon').clear().type('SAVE10')")
+    expect(data.content).toContain("cy.get('[data-testid=\"apply\"]').click()")
+
+    const [, images] = vi.mocked(generateTextWithImagesFailover).mock.calls[0]
+    expect(images).toEqual([{ data: 'data:image/png;base64,iVBORw0KGgo=', mimeType: 'image/png' }])
+  })
+
+  test('should still return the skeleton when the selector proposal fails', async () => {
+    vi.mocked(generateTextWithImagesFailover).mockRejectedValue(new Error('All providers failed'))
+
+    const res = await POST(createRequest({ document, proposeSelectors: true, ticketJson }))
+    const data = await res.json()
+
+    expect(res.status).toBe(200)
+    expect(data.content).toContain("page.locator('TODO')")
+    expect(data.warnings).toEqual(['Selector proposal failed; locators are left as TODO (All providers failed)'])
+  })
+
+  test('should warn when there are no screenshots to read selectors from', async () => {
+    const res = await POST(createRequest({ document, proposeSelectors: true, ticketJson: { ...ticketJson, attachments: [] } }))
+    const data = await res.json()
+
+    expect(data.warnings).toEqual(['No screenshots attached to the ticket; locators are left as TODO'])
+    expect(generateTextWithImagesFailover).not.toHaveBeenCalled()
+  })
+
+  test('should not send screenshots given as URLs', async () => {
+    const attachments = [{ ...ticketJson.attachments[0], data: 'http://169.254.169.254/latest/meta-data' }]
+
+    const res = await POST(createRequest({ document, proposeSelectors: true, ticketJson: { ...ticketJson, attachments } }))
+    const data = await res.json()
+
+    expect(data.warnings).toEqual(['No screenshots attached to the ticket; locators are left as TODO'])
+    expect(generateTextWithImagesFailover).not.toHaveBeenCalled()
+  })
+
+  test('should restrict screenshots of on-prem tickets to on-prem providers', async () => {
+    vi.stubEnv('ON_PREM_TICKET_PATTERNS', 'SHOP-*')
+    let onPremOnly: boolean | undefined
+    vi.mocked(generateTextWithImagesFailover).mockImplementation(async () => {
+      onPremOnly = getProviderRoutingPolicy().onPremOnly
+      return { text: '[]' } as any
+    })
+
+    const res = await POST(createRequest({ document, proposeSelectors: true, ticketJson }))
+
+    expect(res.status).toBe(200)
+    expect(onPremOnly).toBe(true)
+  })
+
+  test('should reject unknown frameworks', async () => {
+    const res = await POST(createRequest({ document, framework: 'selenium' }))
+
+    expect(res.status).toBe(400)
+    expect((await res.json()).error).toBe('VALIDATION_ERROR')
+  })
+})
@@ -0,0 +1,111 @@
+/**
+ * Integration tests for boundary value test generation and the update-canvas "add-boundary-tests" action
+ */
+
+import { describe, test, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { POST } from '../../app/api/boundary-tests/route'
+import { POST as updateCanvasPOST } from '../../app/api/update-canvas/route'
+import { createMinimalQACanvasDocument } from '../../lib/schemas/QACanvasDocument'
+import { defaultQAProfile } from '../../lib/schemas/QAProfile'
+
+vi.mock('../../lib/ai/providerFailover', () => ({
+  generateTextWithFailover: vi.fn()
+}))
+
+import { generateTextWithFailover } from '../../lib/ai/providerFailover'
+
+describe('Boundary Tests API', () => {
+  const document = {
+    ...createMinimalQACanvasDocument('SHOP-7', defaultQAProfile),
+    acceptanceCriteria: [
+      { id: 'ac-1', title: 'Quantity limits', description: 'Quantity must be between 1 and 10', priority: 'must' as const, category: 'functional' as const, testable: true },
+      { id: 'ac-2', title: 'Confirmation', description: 'A confirmation email is sent', priority: 'should' as const, category: 'functional' as const, testable: true }
+    ]
+  }
+  const ticketJson = {
+    issueKey: 'SHOP-7',
+    summary: 'Cart quantity limits',
+    description: 'Gift message is limited to 200 characters.',
+    status: 'To Do',
+    priority: 'Medium',
+    issueType: 'Story',
+    reporter: 'PO',
+    comments: [],
+    attachments: [],
+    components: [],
+    customFields: {},
+    scrapedAt: '2025-01-01T00:00:00.000Z'
+  }
+
+  const createRequest = (url: string, payload: unknown) => new NextRequest(url, {
+    method: 'POST',
+    body: JSON.stringify(payload)
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('POST /api/boundary-tests', () => {
+    test('should return the constrained inputs and their test cases', async () => {
+      const res = await POST(createRequest('http://localhost/api/boundary-tests', { document, ticketJson }))
+      const data = await res.json()
+
+      expect(res.status).toBe(200)
+      expect(data.constraints.map((constraint: { field: string }) => constraint.field)).toEqual(['Quantity', 'Gift message'])
+      expect(data.testCases).toHaveLength(2)
+      expect(data.testCases[0]).toMatchObject({ format: 'table', id: 'tc-bv-1', coversCriteria: ['ac-1'] })
+      expect(generateTextWithFailover).not.toHaveBeenCalled()
+    })
+
+    test('should reject invalid documents', async () => {
+      const res = await POST(createRequest('http://localhost/api/boundary-tests', { document: { acceptanceCriteria: [] } }))
+
+      expect(res.status).toBe(400)
+      expect((await res.json()).error).toBe('VALIDATION_ERROR')
+    })
+  })
+
+  describe('POST /api/update-canvas with action add-boundary-tests', () => {
+    test('should append the test cases to the canvas without AI calls', async () => {
+      const res = await updateCanvasPOST(createRequest('http://localhost/api/update-canvas', {
+        action: 'add-boundary-tests',
+        currentDocument: document
+      }))
+      const data = await res.json()
+
+      expect(res.status).toBe(200)
+      expect(data.changedSections).toEqual(['testCases'])
+      expect(data.patch).toEqual([{ op: 'add', path: '/testCases/-', value: expect.objectContaining({ id: 'tc-bv-1' }) }])
+      expect(data.updatedDocument.testCases).toHaveLength(1)
+      expect(data.changesSummary).toBe('Added 1 boundary value test case for Quantity')
+      expect(generateTextWithFailover).not.toHaveBeenCalled()
+    })
+
+    test('should not add the same test cases twice', async () => {
+      const first = await (await updateCanvasPOST(createRequest('http://localhost/api/update-canvas', {
+        action: 'add-boundary-tests',
+        currentDocument: document
+      }))).json()
+
+      const res = await updateCanvasPOST(createRequest('http://localhost/api/update-canvas', {
+        action: 'add-boundary-tests',
+        currentDocument: first.updatedDocument
+      }))
+      const data = await res.json()
+
+      expect(data.patch).toEqual([])
+      expect(data.updatedDocument.testCases).toHaveLength(1)
+      expect(data.changesSummary).toBe('The boundary value test cases for Quantity are already on the canvas')
+    })
+
+    test('should require the current document', async () => {
+      const res = await updateCanvasPOST(createRequest('http://localhost/api/update-canvas', { action: 'add-boundary-tests' }))
+      const data = await res.json()
+
+      expect(res.status).toBe(400)
+      expect(data.error).toBe('VALIDATION_ERROR')
+    })
+  })
+})
@@ -0,0 +1,105 @@
+/**
+ * Integration tests for pairwise / n-wise combinatorial test generation
+ */
+
+import { describe, test, expect } from 'vitest'
+import { NextRequest } from 'next/server'
+import { POST } from '../../app/api/combinatorial-tests/route'
+import { createMinimalQACanvasDocument } from '../../lib/schemas/QACanvasDocument'
+import { defaultQAProfile } from '../../lib/schemas/QAProfile'
+
+describe('Combinatorial Tests API', () => {
+  const createRequest = (payload: unknown) => new NextRequest('http://localhost/api/combinatorial-tests', {
+    method: 'POST',
+    body: JSON.stringify(payload)
+  })
+
+  test('should cover every pair of the supplied parameters', async () => {
+    const res = await POST(createRequest({
+      parameters: [
+        { name: 'Role', values: ['Admin', 'Viewer'] },
+        { name: 'Browser', values: ['Chrome', 'Firefox', 'Safari'] },
+        { name: 'Locale', values: ['en', 'de'] }
+      ],
+      constraints: [{ when: { Browser: 'Safari' }, then: { Locale: 'en' } }],
+      expectedOutcome: 'The dashboard loads with translated labels'
+    }))
+    const data = await res.json()
+
+    expect(res.status).toBe(200)
+    expect(data.testCase).toMatchObject({ format: 'table', id: 'tc-combo-1' })
+    expect(data.testCase.testCase.expectedOutcome).toBe('The dashboard loads with translated labels')
+    expect(data.testCase.testCase.testData.some((row: Record<string, string>) => row.Browser === 'Safari' && row.Locale === 'de')).toBe(false)
+    expect(data.coverage).toMatchObject({ strength: 2, parameters: 3, exhaustiveCombinations: 12, excludedTuples: 1, coveragePercent: 100 })
+    expect(data.coverage.rows).toBe(data.testCase.testCase.testData.length)
+  })
+
+  test('should extract the parameters from the document and ticket', async () => {
+    const document = {
+      ...createMinimalQACanvasDocument('APP-3', defaultQAProfile),
+      acceptanceCriteria: [
+        { id: 'ac-1', title: 'Plans', description: 'Plan must be one of Free, Pro or Team', priority: 'must' as const, category: 'functional' as const, testable: true }
+      ]
+    }
+    const ticketJson = {
+      issueKey: 'APP-3',
+      summary: 'Billing page',
+      description: 'Browsers: Chrome, Edge',
+      status: 'To Do',
+      priority: 'Medium',
+      issueType: 'Story',
+      reporter: 'PO',
+      comments: [],
+      attachments: [],
+      components: [],
+      customFields: {},
+      scrapedAt: '2025-01-01T00:00:00.000Z'
+    }
+
+    const res = await POST(createRequest({ document, ticketJson }))
+    const data = await res.json()
+
+    expect(res.status).toBe(200)
+    expect(data.ticketId).toBe('APP-3')
+    expect(data.parameters.map((parameter: { name: string }) => parameter.name)).toEqual(['Plan', 'Browsers'])
+    expect(data.testCase.coversCriteria).toEqual(['ac-1'])
+    expect(data.coverage.rows).toBe(6)
+  })
+
+  test('should reject constraints on unknown values', async () => {
+    const res = await POST(createRequest({
+      parameters: [
+        { name: 'Role', values: ['Admin', 'Viewer'] },
+        { name: 'Browser', values: ['Chrome', 'Firefox'] }
+      ],
+      constraints: [{ when: { Browser: 'Opera' } }]
+    }))
+    const data = await res.json()
+
+    expect(res.status).toBe(400)
+    expect(data.error).toBe('VALIDATION_ERROR')
+    expect(data.details.issues[0].message).toBe('Constraint 0 refers to unknown value "Opera" of "Browser"')
+  })
+
+  test('should require parameters or a source to extract them from', async () => {
+    const res = await POST(createRequest({ strength: 2 }))
+
+    expect(res.status).toBe(400)
+    expect((await res.json()).error).toBe('VALIDATION_ERROR')
+  })
+
+  test('should limit the number of parameters and values', async () => {
+    const tooManyParameters = await POST(createRequest({
+      parameters: Array.from({ length: 51 }, (_, index) => ({ name: `P${index}`, values: ['on'] }))
+    }))
+    const tooManyValues = await POST(createRequest({
+      parameters: [
+        { name: 'Role', values: Array.from({ length: 51 }, (_, index) => `Role ${index}`) },
+        { name: 'Locale', values: ['en', 'de'] }
+      ]
+    }))
+
+    expect(tooManyParameters.status).toBe(400)
+    expect(tooManyValues.status).toBe(400)
+  })
+})
@@ -0,0 +1,170 @@
+/**
+ * Integration tests for the epic test plan API endpoint
+ */
+
+import { describe, test, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest'
+
+vi.mock('../../lib/ai/providerFailover', () => ({
+  generateTextWithFailover: vi.fn(),
+  getProviderHealthStatus: vi.fn().mockReturnValue({})
+}))
+
+import { POST } from '../../app/api/epic-test-plan/route'
+import { generateTextWithFailover } from '../../lib/ai/providerFailover'
+import { getProviderRoutingPolicy } from '../../lib/ai/providerRegistry'
+import { createMinimalQACanvasDocument } from '../../lib/schemas/QACanvasDocument'
+import { defaultQAProfile } from '../../lib/schemas/QAProfile'
+
+const mockedGenerate = generateTextWithFailover as unknown as ReturnType<typeof vi.fn>
+
+const buildTicket = (issueKey: string, issueType = 'Story', description = '') => ({
+  ticketJson: {
+    issueKey,
+    summary: `Summary of ${issueKey}`,
+    description,
+    status: 'To Do',
+    priority: 'Priority: Medium',
+    issueType,
+    reporter: 'Reporter',
+    comments: [],
+    attachments: [],
+    components: ['Checkout'],
+    customFields: {},
+    scrapedAt: '2025-01-01T00:00:00.000Z'
+  },
+  document: {
+    ...createMinimalQACanvasDocument(issueKey, defaultQAProfile),
+    acceptanceCriteria: [
+      { id: 'ac-1', title: `${issueKey} works`, description: 'It works', priority: 'must', category: 'functional', testable: true }
+    ],
+    testCases: [
+      {
+        format: 'steps',
+        id: 'tc-1',
+        category: 'functional',
+        priority: 'high',
+        coversCriteria: ['ac-1'],
+        testCase: {
+          title: `Check ${issueKey}`,
+          objective: 'Verify it works',
+          preconditions: [],
+          steps: [{ stepNumber: 1, action: 'Use it', expectedResult: 'It works' }],
+          postconditions: []
+        }
+      }
+    ]
+  }
+})
+
+const endToEndResponse = {
+  scenarios: [
+    {
+      format: 'steps',
+      id: 'e2e-1',
+      category: 'functional',
+      priority: 'high',
+      spansTickets: ['SHOP-2', 'SHOP-3'],
+      coversCriteria: ['SHOP-2:ac-1', 'SHOP-3:ac-1'],
+      testCase: {
+        title: 'Customer completes checkout',
+        objective: 'Verify the cart and payment work together',
+        steps: [{ action: 'Add an item and pay', expectedResult: 'Order is placed' }]
+      }
+    },
+    {
+      format: 'steps',
+      id: 'e2e-2',
+      category: 'functional',
+      priority: 'low',
+      spansTickets: ['SHOP-2'],
+      testCase: { title: 'Single ticket flow', objective: 'Not end-to-end', steps: [] }
+    }
+  ],
+  integrationRisks: [
+    { tickets: ['SHOP-2', 'SHOP-3'], risk: 'Cart totals change during payment', severity: 'high', mitigation: 'Lock the cart at checkout' }
+  ]
+}
+
+const createRequest = (payload: unknown, headers: Record<string, string> = {}) => ({
+  method: 'POST',
+  headers: new Headers(headers),
+  json: vi.fn().mockResolvedValue(payload)
+})
+
+describe('/api/epic-test-plan', () => {
+  beforeAll(() => {
+    process.env.OPENAI_API_KEY = 'test-key'
+  })
+
+  afterAll(() => {
+    delete process.env.OPENAI_API_KEY
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockedGenerate.mockResolvedValue({ text: JSON.stringify(endToEndResponse) })
+  })
+
+  test('should build a release-level test plan from the epic and its stories', async () => {
+    const response = await POST(createRequest({
+      tickets: [
+        buildTicket('SHOP-1', 'Epic'),
+        buildTicket('SHOP-2'),
+        buildTicket('SHOP-3', 'Story', 'Depends on SHOP-2')
+      ]
+    }, { 'x-team-id': 'qa' }) as any)
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(mockedGenerate).toHaveBeenCalledTimes(1)
+    const [prompt] = mockedGenerate.mock.calls[0]
+    expect(prompt).toContain('SHOP-2:ac-1 (must): SHOP-2 works')
+    expect(prompt).toContain('- Check SHOP-3')
+
+    const { testPlan } = data
+    expect(testPlan.epicKey).toBe('SHOP-1')
+    expect(testPlan.scenarios).toHaveLength(1)
+    expect(testPlan.scenarios[0]).toMatchObject({ id: 'e2e-1', spansTickets: ['SHOP-2', 'SHOP-3'] })
+    expect(testPlan.integrationRisks.map((risk: any) => risk.source)).toContain('ai')
+    expect(testPlan.integrationRisks.some((risk: any) => risk.risk === 'SHOP-3 depends on SHOP-2')).toBe(true)
+    expect(testPlan.executionOrder.map((step: any) => step.id)).toEqual(['SHOP-2', 'SHOP-3', 'e2e-1', 'SHOP-1'])
+    expect(data.budgetWarnings).toBeUndefined()
+  })
+
+  test('should use on-prem providers only when any story matches ON_PREM_TICKET_PATTERNS', async () => {
+    vi.stubEnv('ON_PREM_TICKET_PATTERNS', 'SEC-*')
+    let onPremOnly: boolean | undefined
+    mockedGenerate.mockImplementation(async () => {
+      onPremOnly = getProviderRoutingPolicy().onPremOnly
+      return { text: JSON.stringify(endToEndResponse) }
+    })
+
+    const response = await POST(createRequest({
+      tickets: [buildTicket('SHOP-1', 'Epic'), buildTicket('SHOP-2'), buildTicket('SEC-3')]
+    }) as any)
+    vi.unstubAllEnvs()
+
+    expect(response.status).toBe(200)
+    expect(onPremOnly).toBe(true)
+  })
+
+  test('should reject plans with fewer than two tickets or mismatched documents', async () => {
+    const single = await POST(createRequest({ tickets: [buildTicket('SHOP-2')] }) as any)
+    const mismatched = await POST(createRequest({
+      tickets: [buildTicket('SHOP-2'), { ...buildTicket('SHOP-3'), document: buildTicket('SHOP-4').document }]
+    }) as any)
+
+    expect(single.status).toBe(400)
+    expect(mismatched.status).toBe(400)
+    expect(mockedGenerate).not.toHaveBeenCalled()
+  })
+
+  test('should return an AI error when the scenarios cannot be parsed', async () => {
+    mockedGenerate.mockResolvedValue({ text: 'not json' })
+
+    const response = await POST(createRequest({ tickets: [buildTicket('SHOP-2'), buildTicket('SHOP-3')] }) as any)
+
+    expect(response.status).toBe(500)
+    expect((await response.json()).requestId).toBeDefined()
+  })
+})
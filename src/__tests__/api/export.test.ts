@@ -0,0 +1,140 @@
+/**
+ * Integration tests for export API endpoint
+ */
+
+import { describe, test, expect, vi } from 'vitest'
+import { POST } from '../../app/api/export/route'
+import { createMinimalQACanvasDocument } from '../../lib/schemas/QACanvasDocument'
+import { defaultQAProfile } from '../../lib/schemas/QAProfile'
+
+describe('Export API', () => {
+  const document = createMinimalQACanvasDocument('TEST-123', defaultQAProfile)
+  document.ticketSummary = {
+    problem: 'Users cannot reset their password',
+    solution: 'Add a password reset flow',
+    context: 'Authentication module'
+  }
+  document.acceptanceCriteria = [
+    {
+      id: 'ac-1',
+      title: 'Reset email sent',
+      description: 'A reset email is sent to registered users',
+      priority: 'must',
+      category: 'functional',
+      testable: true
+    }
+  ]
+  document.testCases = [
+    {
+      format: 'gherkin',
+      id: 'tc-1',
+      category: 'functional',
+      priority: 'high',
+      testCase: {
+        scenario: 'Reset email is sent',
+        given: ['the user has an account'],
+        when: ['the user requests a reset'],
+        then: ['a reset email is sent'],
+        tags: []
+      }
+    }
+  ]
+
+  const createRequest = (payload: unknown) => ({
+    method: 'POST',
+    json: vi.fn().mockResolvedValue(payload)
+  })
+
+  test('should export a gherkin feature file', async () => {
+    const res = await POST(createRequest({ document, target: 'gherkin' }) as any)
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('content-type')).toContain('text/plain')
+    expect(res.headers.get('content-disposition')).toContain('TEST-123.feature')
+
+    const feature = await res.text()
+    expect(feature).toContain('Feature: TEST-123 - Add a password reset flow')
+    expect(feature).toContain('@TEST-123 @tc-1 @priority-high @functional @ac-1')
+    expect(feature).toContain('Scenario: Reset email is sent')
+  })
+
+  test('should export a TestRail CSV', async () => {
+    const res = await POST(createRequest({ document, target: 'testrail' }) as any)
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('content-type')).toContain('text/csv')
+    expect(res.headers.get('content-disposition')).toContain('TEST-123-testrail.csv')
+
+    const csv = await res.text()
+    expect(csv.split('\r\n')[1]).toContain('Reset email is sent,TEST-123,Test Case (Steps),Functional,High')
+  })
+
+  test('should export Xray JSON with export options', async () => {
+    const res = await POST(createRequest({
+      document,
+      target: 'xray',
+      options: { projectKey: 'QA', cucumberForGherkin: false }
+    }) as any)
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('content-type')).toContain('application/json')
+
+    const tests = await res.json()
+    expect(tests).toHaveLength(1)
+    expect(tests[0].testtype).toBe('Manual')
+    expect(tests[0].fields.project.key).toBe('QA')
+    expect(tests[0].update.issuelinks[0].add.outwardIssue.key).toBe('TEST-123')
+  })
+
+  test('should export a Zephyr Scale CSV', async () => {
+    const res = await POST(createRequest({ document, target: 'zephyr' }) as any)
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('content-disposition')).toContain('TEST-123-zephyr.csv')
+    expect(await res.text()).toContain('Coverage (Issues)')
+  })
+
+  test('should export a Playwright spec with the given selectors', async () => {
+    const res = await POST(createRequest({
+      document,
+      target: 'playwright',
+      options: { selectors: [{ testCaseId: document.testCases[0].id, step: 1, selector: '#reset', expectedSelector: '#reset-confirmation' }] }
+    }) as any)
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('content-disposition')).toContain('TEST-123.spec.ts')
+    expect(await res.text()).toContain("await expect(page.locator('#reset-confirmation')).toBeVisible()")
+  })
+
+  test('should export API test cases as a Postman collection', async () => {
+    const res = await POST(createRequest({
+      document: {
+        ...document,
+        testCases: [{ ...document.testCases[0], category: 'api' }]
+      },
+      target: 'postman',
+      options: { baseUrl: 'https://api.example.test' }
+    }) as any)
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('content-disposition')).toContain('TEST-123.postman_collection.json')
+
+    const collection = await res.json()
+    expect(collection.variable[0].value).toBe('https://api.example.test')
+    expect(collection.item[0].item[0].name).toBe('tc-1: Reset email is sent')
+  })
+
+  test('should reject unknown export targets', async () => {
+    const res = await POST(createRequest({ document, target: 'pdf' }) as any)
+
+    expect(res.status).toBe(400)
+    const data = await res.json()
+    expect(data.error).toBe('VALIDATION_ERROR')
+  })
+
+  test('should reject invalid documents', async () => {
+    const res = await POST(createRequest({ document: { testCases: [] }, target: 'gherkin' }) as any)
+
+    expect(res.status).toBe(400)
+  })
+})
@@ -0,0 +1,99 @@
+/**
+ * Integration tests for document history API endpoints
+ */
+
+import { describe, test, expect, vi, beforeAll } from 'vitest'
+import { GET as listVersions } from '../../app/api/history/[ticketId]/route'
+import { GET as getVersion } from '../../app/api/history/[ticketId]/[version]/route'
+import { GET as diffVersions } from '../../app/api/history/[ticketId]/diff/route'
+import { POST as restoreVersion } from '../../app/api/history/[ticketId]/restore/route'
+import { documentHistory } from '../../lib/history/documentHistory'
+import { createMinimalQACanvasDocument } from '../../lib/schemas/QACanvasDocument'
+import { defaultQAProfile } from '../../lib/schemas/QAProfile'
+
+describe('Document History API', () => {
+  const ticketId = 'HIST-1'
+
+  beforeAll(async () => {
+    const first = createMinimalQACanvasDocument(ticketId, defaultQAProfile)
+    const second = createMinimalQACanvasDocument(ticketId, defaultQAProfile)
+    second.ticketSummary.problem = 'Updated problem statement'
+
+    await documentHistory.recordVersion(first, 'analyze-ticket')
+    await documentHistory.recordVersion(second, 'update-canvas')
+  })
+
+  const context = <T extends Record<string, string>>(params: T) => ({ params: Promise.resolve(params) })
+
+  test('should list stored versions', async () => {
+    const res = await listVersions({} as any, context({ ticketId }))
+
+    expect(res.status).toBe(200)
+    const data = await res.json()
+    expect(data.head).toBe(2)
+    expect(data.versions.map((v: any) => v.source)).toEqual(['analyze-ticket', 'update-canvas'])
+  })
+
+  test('should return an empty list for unknown tickets', async () => {
+    const res = await listVersions({} as any, context({ ticketId: 'NOPE-1' }))
+
+    const data = await res.json()
+    expect(data.head).toBeNull()
+    expect(data.versions).toEqual([])
+  })
+
+  test('should fetch a single version and the latest version', async () => {
+    const res = await getVersion({} as any, context({ ticketId, version: '1' }))
+    expect(res.status).toBe(200)
+    expect((await res.json()).document.metadata.ticketId).toBe(ticketId)
+
+    const latest = await getVersion({} as any, context({ ticketId, version: 'latest' }))
+    expect((await latest.json()).version).toBeGreaterThanOrEqual(2)
+  })
+
+  test('should return 404 for missing versions and 400 for invalid ones', async () => {
+    const missing = await getVersion({} as any, context({ ticketId, version: '99' }))
+    expect(missing.status).toBe(404)
+    expect((await missing.json()).error).toBe('VERSION_NOT_FOUND')
+
+    const invalid = await getVersion({} as any, context({ ticketId, version: 'abc' }))
+    expect(invalid.status).toBe(400)
+  })
+
+  test('should diff two versions', async () => {
+    const req = { url: `http://localhost/api/history/${ticketId}/diff?from=1&to=2` }
+    const res = await diffVersions(req as any, context({ ticketId }))
+
+    expect(res.status).toBe(200)
+    const data = await res.json()
+    expect(data.changes).toContainEqual(expect.objectContaining({
+      section: 'ticketSummary',
+      changeType: 'modified'
+    }))
+  })
+
+  test('should require both diff versions', async () => {
+    const req = { url: `http://localhost/api/history/${ticketId}/diff?from=1` }
+    const res = await diffVersions(req as any, context({ ticketId }))
+
+    expect(res.status).toBe(400)
+  })
+
+  test('should restore an older version as the new head', async () => {
+    const req = { method: 'POST', json: vi.fn().mockResolvedValue({ version: 1 }) }
+    const res = await restoreVersion(req as any, context({ ticketId }))
+
+    expect(res.status).toBe(200)
+    const data = await res.json()
+    expect(data.source).toBe('restore')
+    expect(data.restoredFrom).toBe(1)
+    expect(data.version).toBe(3)
+    expect(data.document.ticketSummary.problem).toBe('')
+
+    const missing = await restoreVersion(
+      { method: 'POST', json: vi.fn().mockResolvedValue({ version: 50 }) } as any,
+      context({ ticketId })
+    )
+    expect(missing.status).toBe(404)
+  })
+})
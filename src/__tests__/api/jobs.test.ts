@@ -0,0 +1,152 @@
+/**
+ * Integration tests for the batch analysis job API endpoints
+ */
+
+import { describe, test, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest'
+
+vi.mock('../../lib/ai/providerFailover', () => ({
+  generateTextWithFailover: vi.fn(),
+  getProviderHealthStatus: vi.fn().mockReturnValue({})
+}))
+
+import { POST as submitJob, GET as listJobs } from '../../app/api/jobs/route'
+import { GET as getJob } from '../../app/api/jobs/[jobId]/route'
+import { POST as cancelJob } from '../../app/api/jobs/[jobId]/cancel/route'
+import { GET as getResult } from '../../app/api/jobs/results/[ticketKey]/route'
+import { analysisJobQueue } from '../../lib/jobs/jobQueue'
+import { documentHistory } from '../../lib/history/documentHistory'
+import { generateTextWithFailover } from '../../lib/ai/providerFailover'
+import { defaultQAProfile } from '../../lib/schemas/QAProfile'
+
+const mockedGenerate = generateTextWithFailover as unknown as ReturnType<typeof vi.fn>
+
+const sectionResponses = {
+  summary: { problem: 'Users cannot reset passwords', solution: 'Add a reset flow', context: 'Authentication' },
+  criteria: [
+    { id: 'ac-1', title: 'Reset email is sent', description: 'Registered users get an email', priority: 'must', category: 'functional', testable: true }
+  ],
+  testCases: [
+    {
+      format: 'steps',
+      id: 'tc-1',
+      category: 'functional',
+      priority: 'high',
+      testCase: {
+        title: 'Request password reset',
+        objective: 'Verify the reset email',
+        steps: [{ action: 'Submit reset form', expectedResult: 'Email is sent' }]
+      }
+    }
+  ],
+  warnings: []
+}
+
+const buildTicket = (issueKey: string) => ({
+  qaProfile: defaultQAProfile,
+  ticketJson: {
+    issueKey,
+    summary: 'Password reset',
+    description: 'Users can reset their password by email',
+    status: 'To Do',
+    priority: 'Priority: High',
+    issueType: 'Story',
+    reporter: 'Reporter',
+    comments: [],
+    attachments: [],
+    components: [],
+    customFields: {},
+    scrapedAt: '2025-01-01T00:00:00.000Z'
+  }
+})
+
+const createRequest = (payload?: unknown, headers: Record<string, string> = {}) => ({
+  method: payload === undefined ? 'GET' : 'POST',
+  headers: new Headers(headers),
+  json: vi.fn().mockResolvedValue(payload)
+})
+
+const withParams = <T extends Record<string, string>>(params: T) => ({ params: Promise.resolve(params) })
+
+describe('/api/jobs', () => {
+  beforeAll(() => {
+    process.env.OPENAI_API_KEY = 'test-key'
+  })
+
+  afterAll(() => {
+    delete process.env.OPENAI_API_KEY
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockedGenerate.mockImplementation(async (prompt: string) => {
+      if (prompt.includes('ONLY the ticket summary')) return { text: JSON.stringify(sectionResponses.summary) }
+      if (prompt.includes('ONLY acceptance criteria')) return { text: JSON.stringify(sectionResponses.criteria) }
+      if (prompt.includes('ONLY test cases')) return { text: JSON.stringify(sectionResponses.testCases) }
+      return { text: JSON.stringify(sectionResponses.warnings) }
+    })
+  })
+
+  test('should analyze every ticket of a submitted job and persist results per ticket key', async () => {
+    const response = await submitJob(createRequest(
+      { tickets: [buildTicket('JOB-1'), buildTicket('JOB-2')] },
+      { 'x-team-id': 'qa' }
+    ) as any)
+    const submitted = await response.json()
+
+    expect(response.status).toBe(202)
+    expect(submitted.progress.total).toBe(2)
+    expect(submitted.tickets.map((ticket: any) => ticket.ticketKey)).toEqual(['JOB-1', 'JOB-2'])
+
+    await analysisJobQueue.waitForJob(submitted.id)
+
+    const status = await (await getJob(createRequest() as any, withParams({ jobId: submitted.id }))).json()
+    expect(status.status).toBe('completed')
+    expect(status.progress).toMatchObject({ succeeded: 2, failed: 0, percent: 100 })
+    expect(mockedGenerate).toHaveBeenCalledTimes(8)
+
+    const resultResponse = await getResult(createRequest() as any, withParams({ ticketKey: 'JOB-2' }))
+    const result = await resultResponse.json()
+    expect(resultResponse.status).toBe(200)
+    expect(result.jobId).toBe(submitted.id)
+    expect(result.document.metadata.ticketId).toBe('JOB-2')
+    expect(result.document.acceptanceCriteria).toHaveLength(1)
+
+    const versions = await documentHistory.listVersions('JOB-2')
+    expect(versions[versions.length - 1].source).toBe('jobs')
+
+    const list = await (await listJobs()).json()
+    expect(list.jobs[0]).toMatchObject({ id: submitted.id, status: 'completed' })
+    expect(list.jobs[0].tickets).toBeUndefined()
+  })
+
+  test('should reject empty jobs and duplicate tickets', async () => {
+    const empty = await submitJob(createRequest({ tickets: [] }) as any)
+    const duplicate = await submitJob(createRequest({ tickets: [buildTicket('JOB-3'), buildTicket('JOB-3')] }) as any)
+
+    expect(empty.status).toBe(400)
+    expect(duplicate.status).toBe(400)
+    expect(mockedGenerate).not.toHaveBeenCalled()
+  })
+
+  test('should return 404 for unknown jobs and tickets without results', async () => {
+    const job = await getJob(createRequest() as any, withParams({ jobId: 'missing' }))
+    const cancel = await cancelJob(createRequest({}) as any, withParams({ jobId: 'missing' }))
+    const result = await getResult(createRequest() as any, withParams({ ticketKey: 'JOB-404' }))
+
+    expect(job.status).toBe(404)
+    expect((await job.json()).error).toBe('JOB_NOT_FOUND')
+    expect(cancel.status).toBe(404)
+    expect(result.status).toBe(404)
+    expect((await result.json()).error).toBe('RESULT_NOT_FOUND')
+  })
+
+  test('should return finished jobs unchanged when cancelled', async () => {
+    const submitted = await (await submitJob(createRequest({ tickets: [buildTicket('JOB-4')] }) as any)).json()
+    await analysisJobQueue.waitForJob(submitted.id)
+
+    const response = await cancelJob(createRequest({}) as any, withParams({ jobId: submitted.id }))
+
+    expect(response.status).toBe(200)
+    expect((await response.json()).status).toBe('completed')
+  })
+})
@@ -0,0 +1,52 @@
+/**
+ * Integration tests for criteria lint API endpoint
+ */
+
+import { describe, test, expect, vi } from 'vitest'
+import { POST } from '../../app/api/lint-criteria/route'
+import { createMinimalQACanvasDocument } from '../../lib/schemas/QACanvasDocument'
+import { defaultQAProfile } from '../../lib/schemas/QAProfile'
+
+describe('Criteria Lint API', () => {
+  const acceptanceCriteria = [
+    { id: 'ac-1', title: 'Reset email sent', description: 'The system sends a reset email within 60 seconds', priority: 'must' as const, category: 'functional' as const, testable: true },
+    { id: 'ac-2', title: 'Easy reset', description: 'Resetting the password is easy', priority: 'should' as const, category: 'ux' as const, testable: true }
+  ]
+
+  const createRequest = (payload: unknown) => ({
+    method: 'POST',
+    json: vi.fn().mockResolvedValue(payload)
+  })
+
+  test('should lint the criteria of a document', async () => {
+    const document = { ...createMinimalQACanvasDocument('TEST-123', defaultQAProfile), acceptanceCriteria }
+
+    const res = await POST(createRequest({ document }) as any)
+    const report = await res.json()
+
+    expect(res.status).toBe(200)
+    expect(report.criteria[1]).toMatchObject({
+      criterionId: 'ac-2',
+      score: 70,
+      findings: [{ rule: 'untestable_term', severity: 'high', excerpt: 'easy' }],
+      suggestedRewrite: 'Resetting the password is <observable result>'
+    })
+    expect(report.summary.criteriaWithFindings).toEqual(['ac-2'])
+  })
+
+  test('should lint criteria sent without a document', async () => {
+    const res = await POST(createRequest({ acceptanceCriteria: acceptanceCriteria.slice(0, 1) }) as any)
+    const report = await res.json()
+
+    expect(res.status).toBe(200)
+    expect(report.summary).toMatchObject({ totalCriteria: 1, averageScore: 100 })
+  })
+
+  test('should reject payloads without criteria', async () => {
+    const res = await POST(createRequest({}) as any)
+    const data = await res.json()
+
+    expect(res.status).toBe(400)
+    expect(data.error).toBe('VALIDATION_ERROR')
+  })
+})
@@ -0,0 +1,67 @@
+/**
+ * Integration tests for publishing QA plans to Jira, against a local stand-in of the Jira comment API
+ */
+
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest'
+import { POST } from '../../app/api/publish-jira/route'
+import { createMinimalQACanvasDocument } from '../../lib/schemas/QACanvasDocument'
+import { defaultQAProfile } from '../../lib/schemas/QAProfile'
+import { startJiraStandIn, type JiraStandIn } from '../mocks/jiraServer'
+
+describe('Publish Jira API', () => {
+  const document = createMinimalQACanvasDocument('TEST-123', defaultQAProfile)
+  let jira: JiraStandIn
+
+  const createRequest = (payload: unknown) => ({
+    method: 'POST',
+    json: vi.fn().mockResolvedValue(payload)
+  })
+
+  beforeEach(async () => {
+    jira = await startJiraStandIn({ issues: ['TEST-123'] })
+    vi.stubEnv('JIRA_BASE_URL', jira.url)
+    vi.stubEnv('JIRA_ACCESS_TOKEN', 'pat')
+  })
+
+  afterEach(async () => {
+    vi.unstubAllEnvs()
+    await jira.close()
+  })
+
+  test('should post the plan and update it on the next publish', async () => {
+    const first = await POST(createRequest({ document }) as any)
+    const second = await POST(createRequest({ document }) as any)
+
+    expect(first.status).toBe(200)
+    expect(await first.json()).toMatchObject({ issueKey: 'TEST-123', commentId: '10000', action: 'created' })
+    expect(await second.json()).toMatchObject({ commentId: '10000', action: 'updated' })
+    expect(jira.comments.get('TEST-123')).toHaveLength(1)
+    expect(jira.requests[0].authorization).toBe('Bearer pat')
+  })
+
+  test('should return the ADF body without calling Jira on a dry run', async () => {
+    const res = await POST(createRequest({ document, dryRun: true, issueKey: 'QA-1' }) as any)
+    const data = await res.json()
+
+    expect(res.status).toBe(200)
+    expect(data.issueKey).toBe('QA-1')
+    expect(data.body).toMatchObject({ version: 1, type: 'doc' })
+    expect(jira.requests).toHaveLength(0)
+  })
+
+  test('should return 502 when Jira rejects the comment', async () => {
+    const res = await POST(createRequest({ document, issueKey: 'NOPE-1' }) as any)
+    const data = await res.json()
+
+    expect(res.status).toBe(502)
+    expect(data).toMatchObject({ error: 'JIRA_PUBLISH_ERROR', jiraStatus: 404 })
+  })
+
+  test('should return 503 when Jira is not configured', async () => {
+    vi.stubEnv('JIRA_BASE_URL', '')
+    const res = await POST(createRequest({ document }) as any)
+
+    expect(res.status).toBe(503)
+    expect((await res.json()).error).toBe('JIRA_NOT_CONFIGURED')
+  })
+})
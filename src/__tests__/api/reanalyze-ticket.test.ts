@@ -0,0 +1,168 @@
+/**
+ * Integration tests for the reanalyze-ticket API endpoint
+ */
+
+import { describe, test, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest'
+
+vi.mock('../../lib/ai/providerFailover', () => ({
+  generateTextWithFailover: vi.fn(),
+  getProviderHealthStatus: vi.fn().mockReturnValue({})
+}))
+
+import { POST as analyzeTicket } from '../../app/api/analyze-ticket/route'
+import { POST as reanalyzeTicket, OPTIONS } from '../../app/api/reanalyze-ticket/route'
+import { generateTextWithFailover } from '../../lib/ai/providerFailover'
+import { defaultQAProfile } from '../../lib/schemas/QAProfile'
+
+const mockedGenerate = generateTextWithFailover as unknown as ReturnType<typeof vi.fn>
+
+const sectionResponses = {
+  summary: { problem: 'Users cannot reset passwords', solution: 'Add a reset flow', context: 'Authentication' },
+  criteria: [
+    { id: 'ac-1', title: 'Reset email is sent', description: 'Registered users get an email', priority: 'must', category: 'functional', testable: true }
+  ],
+  testCases: [
+    {
+      format: 'steps',
+      id: 'tc-1',
+      category: 'functional',
+      priority: 'high',
+      coversCriteria: ['ac-1'],
+      testCase: {
+        title: 'Request password reset',
+        objective: 'Verify the reset email',
+        steps: [{ action: 'Submit reset form', expectedResult: 'Email is sent' }]
+      }
+    }
+  ],
+  warnings: [
+    { type: 'recommendation', title: 'Limited description', message: 'The description is short', recommendation: 'Add detail', severity: 'low' }
+  ]
+}
+
+const ticketJson = {
+  issueKey: 'REAN-1',
+  summary: 'Password reset',
+  description: 'Users can reset their password by email',
+  status: 'In Progress',
+  priority: 'Priority: High',
+  issueType: 'Story',
+  reporter: 'Reporter',
+  comments: [],
+  attachments: [],
+  components: [],
+  customFields: {},
+  scrapedAt: '2025-01-01T00:00:00.000Z'
+}
+
+const createRequest = (payload: unknown) => ({
+  method: 'POST',
+  headers: new Headers(),
+  json: vi.fn().mockResolvedValue(payload)
+})
+
+const testCasesPrompt = () => mockedGenerate.mock.calls.map(([prompt]) => prompt as string).find(prompt => prompt.includes('ONLY test cases'))
+
+const calledSections = () => mockedGenerate.mock.calls.map(([prompt]) => {
+  if (prompt.includes('ONLY the ticket summary')) return 'ticketSummary'
+  if (prompt.includes('ONLY acceptance criteria')) return 'acceptanceCriteria'
+  if (prompt.includes('ONLY test cases')) return 'testCases'
+  return 'configurationWarnings'
+}).sort()
+
+describe('/api/reanalyze-ticket', () => {
+  let currentDocument: any
+
+  beforeAll(() => {
+    process.env.OPENAI_API_KEY = 'test-key'
+  })
+
+  afterAll(() => {
+    delete process.env.OPENAI_API_KEY
+  })
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    mockedGenerate.mockImplementation(async (prompt: string) => {
+      if (prompt.includes('ONLY the ticket summary')) return { text: JSON.stringify(sectionResponses.summary) }
+      if (prompt.includes('ONLY acceptance criteria')) return { text: JSON.stringify(sectionResponses.criteria) }
+      if (prompt.includes('ONLY test cases')) return { text: JSON.stringify(sectionResponses.testCases) }
+      return { text: JSON.stringify(sectionResponses.warnings) }
+    })
+
+    currentDocument = await (await analyzeTicket(createRequest({ qaProfile: defaultQAProfile, ticketJson }) as any)).json()
+    mockedGenerate.mockClear()
+  })
+
+  test('should handle OPTIONS preflight request', async () => {
+    const response = await OPTIONS()
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Access-Control-Allow-Methods')).toBe('POST, OPTIONS')
+  })
+
+  test('should return the document unchanged without AI calls when nothing relevant changed', async () => {
+    const response = await reanalyzeTicket(createRequest({
+      previousTicket: ticketJson,
+      currentTicket: { ...ticketJson, status: 'Done', scrapedAt: '2025-01-02T00:00:00.000Z' },
+      currentDocument
+    }) as any)
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(mockedGenerate).not.toHaveBeenCalled()
+    expect(data.document).toEqual(currentDocument)
+    expect(data.changeReport.regeneratedSections).toEqual([])
+    expect(data.changeReport.ignoredChanges).toEqual([
+      expect.objectContaining({ type: 'status_changed', description: 'Status changed from "In Progress" to "Done"' })
+    ])
+  })
+
+  test('should regenerate only the sections affected by a new comment', async () => {
+    const currentTicket = {
+      ...ticketJson,
+      comments: [{ author: 'QA', date: '2025-01-02', body: 'Locked accounts must not get reset emails', images: [], links: [] }],
+      scrapedAt: '2025-01-02T00:00:00.000Z'
+    }
+    const response = await reanalyzeTicket(createRequest({ previousTicket: ticketJson, currentTicket, currentDocument }) as any)
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(calledSections()).toEqual(['acceptanceCriteria', 'testCases'])
+    expect(data.changeReport.regeneratedSections).toEqual(['acceptanceCriteria', 'testCases'])
+    expect(data.changeReport.changes).toEqual([expect.objectContaining({ type: 'comment_added' })])
+
+    const sections = Object.fromEntries(data.changeReport.sections.map((impact: any) => [impact.section, impact]))
+    expect(sections.ticketSummary.action).toBe('keep')
+    expect(sections.testCases.reasons[0]).toMatch(/^Depends on acceptanceCriteria/)
+
+    expect(data.document.ticketSummary).toEqual(currentDocument.ticketSummary)
+    expect(data.document.testCases[0].coversCriteria).toEqual(['ac-1'])
+    expect(data.document.metadata.regenerationReason).toContain('acceptanceCriteria, testCases')
+  })
+
+  test('should link regenerated test cases to the existing criteria for a priority change', async () => {
+    const response = await reanalyzeTicket(createRequest({
+      previousTicket: ticketJson,
+      currentTicket: { ...ticketJson, priority: 'Priority: Low' },
+      currentDocument
+    }) as any)
+    const data = await response.json()
+
+    expect(calledSections()).toEqual(['testCases'])
+    expect(data.document.acceptanceCriteria).toEqual(currentDocument.acceptanceCriteria)
+    expect(testCasesPrompt()).toContain('- ac-1 (must): Reset email is sent')
+    expect(data.document.testCases[0].coversCriteria).toEqual(['ac-1'])
+  })
+
+  test('should reject snapshots of different tickets', async () => {
+    const response = await reanalyzeTicket(createRequest({
+      previousTicket: ticketJson,
+      currentTicket: { ...ticketJson, issueKey: 'REAN-2' },
+      currentDocument
+    }) as any)
+
+    expect(response.status).toBe(400)
+    expect(mockedGenerate).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,73 @@
+/**
+ * Integration tests for report API endpoint
+ */
+
+import { describe, test, expect, vi } from 'vitest'
+import { POST } from '../../app/api/report/route'
+import { createMinimalQACanvasDocument } from '../../lib/schemas/QACanvasDocument'
+import { defaultQAProfile } from '../../lib/schemas/QAProfile'
+
+describe('Report API', () => {
+  const document = createMinimalQACanvasDocument('TEST-123', defaultQAProfile)
+  document.ticketSummary = {
+    problem: 'Users cannot reset their password',
+    solution: 'Add a password reset flow',
+    context: 'Authentication module'
+  }
+  document.acceptanceCriteria = [
+    { id: 'ac-1', title: 'Reset email sent', description: 'A reset email is sent', priority: 'must', category: 'functional', testable: true }
+  ]
+  document.testCases = [
+    {
+      format: 'steps',
+      id: 'tc-1',
+      category: 'functional',
+      priority: 'high',
+      testCase: {
+        title: 'Request a reset',
+        objective: 'A reset email is sent',
+        preconditions: [],
+        steps: [{ stepNumber: 1, action: 'Request a reset', expectedResult: 'A reset email is sent' }],
+        postconditions: []
+      }
+    }
+  ]
+
+  const createRequest = (payload: unknown) => ({
+    method: 'POST',
+    json: vi.fn().mockResolvedValue(payload)
+  })
+
+  test('should render a Markdown report by default', async () => {
+    const res = await POST(createRequest({ document }) as any)
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('content-type')).toContain('text/markdown')
+    expect(res.headers.get('content-disposition')).toContain('TEST-123-qa-report.md')
+    expect(await res.text()).toContain('# QA Plan: TEST-123 - Add a password reset flow')
+  })
+
+  test('should render a Confluence storage format report', async () => {
+    const res = await POST(createRequest({ document, format: 'confluence', options: { ticketBaseUrl: 'https://acme.atlassian.net/browse/' } }) as any)
+    const content = await res.text()
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('content-disposition')).toContain('TEST-123-qa-report.xhtml')
+    expect(content).toContain('<a href="https://acme.atlassian.net/browse/TEST-123">TEST-123</a>')
+    expect(content).toContain('<ac:parameter ac:name="title">Steps (1)</ac:parameter>')
+  })
+
+  test('should reject unknown formats', async () => {
+    const res = await POST(createRequest({ document, format: 'pdf' }) as any)
+
+    expect(res.status).toBe(400)
+    expect((await res.json()).error).toBe('VALIDATION_ERROR')
+  })
+
+  test('should reject ticket base URLs that are not http(s)', async () => {
+    const res = await POST(createRequest({ document, options: { ticketBaseUrl: 'javascript:alert(1)//' } }) as any)
+
+    expect(res.status).toBe(400)
+    expect((await res.json()).error).toBe('VALIDATION_ERROR')
+  })
+})
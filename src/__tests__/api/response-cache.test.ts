@@ -0,0 +1,179 @@
+/**
+ * Integration tests for response caching in analyze-ticket and generate-suggestions
+ */
+
+import { describe, test, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest'
+
+// The cache is off under tests unless a store is configured before the routes load
+vi.hoisted(() => {
+  process.env.RESPONSE_CACHE_STORE = 'memory'
+})
+
+vi.mock('../../lib/ai/providerFailover', () => ({
+  generateTextWithFailover: vi.fn(),
+  getProviderHealthStatus: vi.fn().mockReturnValue({})
+}))
+
+import { POST as analyzeTicket } from '../../app/api/analyze-ticket/route'
+import { POST as generateSuggestions } from '../../app/api/generate-suggestions/route'
+import { generateTextWithFailover } from '../../lib/ai/providerFailover'
+import { defaultQAProfile } from '../../lib/schemas/QAProfile'
+
+const mockedGenerate = generateTextWithFailover as unknown as ReturnType<typeof vi.fn>
+
+const sectionResponses = {
+  summary: { problem: 'Users cannot reset passwords', solution: 'Add a reset flow', context: 'Authentication' },
+  criteria: [
+    { id: 'ac-1', title: 'Reset email is sent', description: 'Registered users get an email', priority: 'must', category: 'functional', testable: true }
+  ],
+  testCases: [
+    {
+      format: 'steps',
+      id: 'tc-1',
+      category: 'functional',
+      priority: 'high',
+      testCase: {
+        title: 'Request password reset',
+        objective: 'Verify the reset email',
+        steps: [{ action: 'Submit reset form', expectedResult: 'Email is sent' }]
+      }
+    }
+  ],
+  warnings: [
+    { type: 'recommendation', title: 'Limited description', message: 'The description is short', recommendation: 'Add detail', severity: 'low' }
+  ]
+}
+
+const suggestionCall = {
+  toolCalls: [{
+    toolName: 'qaSuggestionTool',
+    args: {
+      suggestionType: 'edge_case',
+      title: 'Expired reset links',
+      description: 'Cover links used after expiry',
+      targetSection: 'Test Cases',
+      priority: 'high',
+      reasoning: 'Expiry is not covered'
+    }
+  }]
+}
+
+const ticketJson = {
+  issueKey: 'CACHE-1',
+  summary: 'Password reset',
+  description: 'Short description',
+  status: 'In Progress',
+  priority: 'Priority: High',
+  issueType: 'Story',
+  reporter: 'Reporter',
+  comments: [],
+  attachments: [],
+  components: [],
+  customFields: {},
+  scrapedAt: '2025-01-01T00:00:00.000Z'
+}
+
+const createRequest = (payload: unknown, headers: Record<string, string> = {}) => ({
+  method: 'POST',
+  headers: new Headers(headers),
+  json: vi.fn().mockResolvedValue(payload)
+})
+
+describe('Response cache', () => {
+  beforeAll(() => {
+    process.env.OPENAI_API_KEY = 'test-key'
+  })
+
+  afterAll(() => {
+    delete process.env.OPENAI_API_KEY
+    delete process.env.RESPONSE_CACHE_STORE
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockedGenerate.mockImplementation(async (prompt: string) => {
+      if (prompt.includes('ONLY the ticket summary')) return { text: JSON.stringify(sectionResponses.summary) }
+      if (prompt.includes('ONLY acceptance criteria')) return { text: JSON.stringify(sectionResponses.criteria) }
+      if (prompt.includes('ONLY test cases')) return { text: JSON.stringify(sectionResponses.testCases) }
+      if (prompt.includes('GENERATE SUGGESTION')) return suggestionCall
+      return { text: JSON.stringify(sectionResponses.warnings) }
+    })
+  })
+
+  test('should serve sections of an unchanged ticket from the cache', async () => {
+    const payload = { qaProfile: defaultQAProfile, ticketJson }
+
+    const first = await (await analyzeTicket(createRequest(payload) as any)).json()
+    expect(mockedGenerate).toHaveBeenCalledTimes(4)
+    expect(first.metadata.cache).toMatchObject({ hit: false, bypassed: false })
+    expect(Object.keys(first.metadata.cache.sections).sort()).toEqual(
+      ['acceptanceCriteria', 'configurationWarnings', 'testCases', 'ticketSummary']
+    )
+
+    // A rescrape of the same ticket only differs in its timestamp
+    const rescraped = { qaProfile: defaultQAProfile, ticketJson: { ...ticketJson, scrapedAt: '2025-01-02T00:00:00.000Z' } }
+    const second = await (await analyzeTicket(createRequest(rescraped) as any)).json()
+
+    expect(mockedGenerate).toHaveBeenCalledTimes(4)
+    expect(second.metadata.cache.hit).toBe(true)
+    expect(second.metadata.usage).toBeUndefined()
+    expect(second.ticketSummary).toEqual(first.ticketSummary)
+    expect(second.testCases).toEqual(first.testCases)
+  })
+
+  test('should regenerate when the QA profile changes or the client sends no-cache', async () => {
+    const payload = { qaProfile: defaultQAProfile, ticketJson: { ...ticketJson, issueKey: 'CACHE-2' } }
+    await analyzeTicket(createRequest(payload) as any)
+    mockedGenerate.mockClear()
+
+    const otherProfile = { qaProfile: { ...defaultQAProfile, testCaseFormat: 'gherkin' }, ticketJson: payload.ticketJson }
+    const changed = await (await analyzeTicket(createRequest(otherProfile) as any)).json()
+    expect(changed.metadata.cache.hit).toBe(false)
+    expect(mockedGenerate).toHaveBeenCalledTimes(4)
+
+    mockedGenerate.mockClear()
+    const bypassed = await (await analyzeTicket(createRequest(payload, { 'cache-control': 'no-cache' }) as any)).json()
+    expect(bypassed.metadata.cache).toMatchObject({ hit: false, bypassed: true })
+    expect(mockedGenerate).toHaveBeenCalledTimes(4)
+  })
+
+  test('should fall back to the ticket criteria without caching them when criteria generation fails', async () => {
+    const authored = { ...ticketJson, issueKey: 'CACHE-3', description: '## Acceptance Criteria\n- Reset email is sent within a minute' }
+    mockedGenerate.mockImplementation(async (prompt: string) => {
+      if (prompt.includes('ONLY acceptance criteria')) throw new Error('All providers failed')
+      if (prompt.includes('ONLY the ticket summary')) return { text: JSON.stringify(sectionResponses.summary) }
+      if (prompt.includes('ONLY test cases')) return { text: JSON.stringify(sectionResponses.testCases) }
+      return { text: JSON.stringify(sectionResponses.warnings) }
+    })
+
+    const first = await (await analyzeTicket(createRequest({ qaProfile: defaultQAProfile, ticketJson: authored }) as any)).json()
+    expect(first.acceptanceCriteria).toEqual([
+      expect.objectContaining({ id: 'ac-1', description: 'Reset email is sent within a minute', source: 'ticket' })
+    ])
+
+    mockedGenerate.mockClear()
+    await analyzeTicket(createRequest({ qaProfile: defaultQAProfile, ticketJson: authored }) as any)
+    expect(mockedGenerate.mock.calls.map(([prompt]) => prompt).filter((prompt: string) => prompt.includes('ONLY acceptance criteria'))).toHaveLength(1)
+  })
+
+  test('should cache suggestions for the same document', async () => {
+    const analyzed = await (await analyzeTicket(createRequest({ qaProfile: defaultQAProfile, ticketJson: { ...ticketJson, issueKey: 'CACHE-3' } }) as any)).json()
+    mockedGenerate.mockClear()
+
+    const payload = { currentDocument: analyzed, maxSuggestions: 1 }
+    const first = await (await generateSuggestions(createRequest(payload) as any)).json()
+    const second = await (await generateSuggestions(createRequest({
+      ...payload,
+      currentDocument: { ...analyzed, metadata: { ...analyzed.metadata, generatedAt: new Date().toISOString() } }
+    }) as any)).json()
+
+    expect(mockedGenerate).toHaveBeenCalledTimes(1)
+    expect(first.cache).toMatchObject({ hit: false })
+    expect(second.cache).toMatchObject({ hit: true, key: first.cache.key })
+    expect(second.suggestions).toEqual(first.suggestions)
+
+    const refreshed = await (await generateSuggestions(createRequest(payload, { 'cache-control': 'no-cache' }) as any)).json()
+    expect(refreshed.cache).toMatchObject({ hit: false, bypassed: true })
+    expect(mockedGenerate).toHaveBeenCalledTimes(2)
+  })
+})
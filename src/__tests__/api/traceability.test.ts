@@ -0,0 +1,65 @@
+/**
+ * Integration tests for traceability API endpoint
+ */
+
+import { describe, test, expect, vi } from 'vitest'
+import { POST } from '../../app/api/traceability/route'
+import { POST as exportPOST } from '../../app/api/export/route'
+import { createMinimalQACanvasDocument } from '../../lib/schemas/QACanvasDocument'
+import { defaultQAProfile } from '../../lib/schemas/QAProfile'
+
+describe('Traceability API', () => {
+  const document = createMinimalQACanvasDocument('TEST-123', defaultQAProfile)
+  document.acceptanceCriteria = [
+    { id: 'ac-1', title: 'Reset email sent', description: 'A reset email is sent', priority: 'must', category: 'functional', testable: true },
+    { id: 'ac-2', title: 'Link expires', description: 'Reset links expire after 1 hour', priority: 'must', category: 'security', testable: true }
+  ]
+  document.testCases = [
+    {
+      format: 'steps',
+      id: 'tc-1',
+      category: 'functional',
+      priority: 'high',
+      coversCriteria: ['ac-1'],
+      testCase: {
+        title: 'Request a password reset',
+        objective: 'Verify the email is delivered',
+        preconditions: [],
+        steps: [{ stepNumber: 1, action: 'Request a reset', expectedResult: 'Email arrives' }],
+        postconditions: []
+      }
+    }
+  ]
+
+  const createRequest = (payload: unknown) => ({
+    method: 'POST',
+    json: vi.fn().mockResolvedValue(payload)
+  })
+
+  test('should return the matrix with coverage summary', async () => {
+    const res = await POST(createRequest({ document }) as any)
+    const matrix = await res.json()
+
+    expect(res.status).toBe(200)
+    expect(matrix.ticketId).toBe('TEST-123')
+    expect(matrix.criteria[0]).toMatchObject({ criterionId: 'ac-1', status: 'covered', testCaseIds: ['tc-1'] })
+    expect(matrix.summary.uncoveredMustCriteria).toEqual(['ac-2'])
+  })
+
+  test('should reject invalid documents', async () => {
+    const res = await POST(createRequest({ document: { testCases: [] } }) as any)
+    const data = await res.json()
+
+    expect(res.status).toBe(400)
+    expect(data.error).toBe('VALIDATION_ERROR')
+  })
+
+  test('should download the matrix through the export endpoint', async () => {
+    const res = await exportPOST(createRequest({ document, target: 'traceability-csv' }) as any)
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('content-type')).toContain('text/csv')
+    expect(res.headers.get('content-disposition')).toContain('TEST-123-traceability.csv')
+    expect(await res.text()).toContain('ac-2,Link expires,must,security,Yes,uncovered')
+  })
+})
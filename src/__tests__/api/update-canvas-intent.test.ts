@@ -7,6 +7,7 @@ import { POST } from '../../app/api/update-canvas/route'
 import { NextRequest } from 'next/server'
 import type { QACanvasDocument } from '../../lib/schemas/QACanvasDocument'
 import type { JiraTicket } from '../../lib/schemas/JiraTicket'
+import { documentHistory } from '../../lib/history/documentHistory'
 
 // Mock the AI components
 vi.mock('../../lib/ai/intent', () => ({
@@ -27,7 +28,16 @@ vi.mock('../../lib/ai/intent', () => ({
   })),
   conversationStateManager: {
     updateState: vi.fn(),
-    getState: vi.fn()
+    getState: vi.fn(),
+    loadSession: vi.fn().mockResolvedValue(null),
+    initializeSession: vi.fn().mockImplementation((sessionId: string) => ({
+      sessionId,
+      currentPhase: 'initial',
+      pendingClarifications: [],
+      awaitingResponse: false,
+      contextHistory: []
+    })),
+    flush: vi.fn().mockResolvedValue(undefined)
   },
   generateSessionId: vi.fn().mockReturnValue('test-session-id')
 }))
@@ -162,7 +172,9 @@ describe('/api/update-canvas with Intent Analysis', () => {
 
       vi.mocked(generateTextWithFailover).mockResolvedValue({
         text: JSON.stringify({
-          updatedDocument: mockCanvas,
+          patch: [
+            { op: 'replace', path: '/acceptanceCriteria/0/description', value: 'Login fails after 5 invalid attempts' }
+          ],
           changesSummary: 'Updated acceptance criteria as requested'
         }),
         toolCalls: [],
@@ -189,6 +201,15 @@ describe('/api/update-canvas with Intent Analysis', () => {
       expect(response.status).toBe(200)
       expect(data.updatedDocument).toBeDefined()
       expect(data.changesSummary).toContain('Updated acceptance criteria')
+      expect(data.patch).toHaveLength(1)
+      expect(data.changedSections).toEqual(['acceptanceCriteria'])
+      expect(data.updatedDocument.acceptanceCriteria[0].description).toBe('Login fails after 5 invalid attempts')
+      expect(data.updatedDocument.testCases).toEqual(mockCanvas.testCases)
+
+      // The updated document is recorded in the version history
+      const versions = await documentHistory.listVersions('TEST-123')
+      expect(versions[versions.length - 1].source).toBe('update-canvas')
+      expect(data.updatedDocument.metadata.documentVersion).toBe(versions[versions.length - 1].documentVersion)
     })
 
     it('should handle ask_clarification intent', async () => {
@@ -220,7 +241,7 @@ describe('/api/update-canvas with Intent Analysis', () => {
 
       vi.mocked(generateTextWithFailover).mockResolvedValue({
         text: JSON.stringify({
-          updatedDocument: mockCanvas,
+          patch: [],
           changesSummary: 'Processed with fallback logic'
         }),
         toolCalls: [],
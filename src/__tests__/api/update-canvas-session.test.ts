@@ -0,0 +1,211 @@
+/**
+ * Integration tests for multi-turn clarification sessions in /api/update-canvas
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { POST } from '../../app/api/update-canvas/route'
+import { conversationStateManager } from '../../lib/ai/intent'
+import type { IntentAnalysisResult } from '../../lib/ai/intent'
+import { createMinimalQACanvasDocument } from '../../lib/schemas/QACanvasDocument'
+import { defaultQAProfile } from '../../lib/schemas/QAProfile'
+
+const mocks = vi.hoisted(() => ({
+  analyzeIntent: vi.fn(),
+  generateClarificationQuestions: vi.fn(),
+  generateContextualResponse: vi.fn()
+}))
+
+// Keep the real conversation state manager; only the AI-backed components are mocked
+vi.mock('../../lib/ai/intent', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../lib/ai/intent')>()
+  return {
+    ...actual,
+    IntentAnalyzer: vi.fn().mockImplementation(() => ({ analyzeIntent: mocks.analyzeIntent })),
+    ClarificationGenerator: vi.fn().mockImplementation(() => ({
+      generateClarificationQuestions: mocks.generateClarificationQuestions
+    })),
+    ContextualResponseGenerator: vi.fn().mockImplementation(() => ({
+      generateContextualResponse: mocks.generateContextualResponse
+    })),
+    DependencyAnalyzer: vi.fn().mockImplementation(() => ({
+      analyzeDependencies: vi.fn().mockResolvedValue({
+        affectedSections: [],
+        dependencies: [],
+        cascadeRequired: false,
+        impactAssessment: 'Low impact',
+        conflictRisk: 'low'
+      })
+    }))
+  }
+})
+
+vi.mock('../../lib/ai/providerFailover', () => ({
+  generateTextWithFailover: vi.fn()
+}))
+
+import { generateTextWithFailover } from '../../lib/ai/providerFailover'
+
+describe('/api/update-canvas conversation sessions', () => {
+  const currentDocument = createMinimalQACanvasDocument('SESSION-1', defaultQAProfile)
+
+  const intent = (overrides: Partial<IntentAnalysisResult>): IntentAnalysisResult => ({
+    intent: 'modify_canvas',
+    confidence: 0.9,
+    targetSections: ['acceptanceCriteria'],
+    context: {
+      hasCanvas: true,
+      canvasComplexity: 'simple',
+      conversationLength: 1,
+      availableSections: ['ticketSummary', 'acceptanceCriteria', 'testCases']
+    },
+    reasoning: 'User wants to add lockout criteria',
+    keywords: [],
+    shouldModifyCanvas: true,
+    requiresClarification: false,
+    ...overrides
+  })
+
+  const createRequest = (content: string, sessionId?: string) => ({
+    method: 'POST',
+    json: vi.fn().mockResolvedValue({
+      messages: [{ id: '1', role: 'user', content }],
+      currentDocument,
+      sessionId
+    })
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+
+    mocks.generateClarificationQuestions.mockResolvedValue({
+      questions: [{
+        question: 'How many failed attempts should lock the account?',
+        category: 'specification',
+        targetSection: 'testCases',
+        priority: 'high'
+      }],
+      context: 'Lockout threshold is not specified.',
+      suggestedActions: []
+    })
+    mocks.generateContextualResponse.mockResolvedValue({
+      response: 'Lockout protects accounts from brute force attacks.',
+      relevantSections: [],
+      citations: [],
+      suggestedFollowUps: []
+    })
+    vi.mocked(generateTextWithFailover).mockResolvedValue({
+      text: JSON.stringify({
+        patch: [{
+          op: 'add',
+          path: '/acceptanceCriteria/-',
+          value: {
+            id: 'ac-lockout',
+            title: 'Account lockout',
+            description: 'Account locks after 5 failed attempts',
+            priority: 'must',
+            category: 'security',
+            testable: true
+          }
+        }],
+        changesSummary: 'Added a lockout criterion after 5 attempts'
+      })
+    } as any)
+  })
+
+  const askForClarification = async () => {
+    mocks.analyzeIntent.mockResolvedValueOnce(intent({
+      intent: 'ask_clarification',
+      requiresClarification: true,
+      shouldModifyCanvas: false
+    }))
+
+    const response = await POST(createRequest('Add account lockout') as any)
+    const data = await response.json()
+    return { response, data, sessionId: response.headers.get('X-Session-Id')! }
+  }
+
+  it('should return the session id with clarification questions', async () => {
+    const { data, sessionId } = await askForClarification()
+
+    expect(data.type).toBe('clarification')
+    expect(data.sessionId).toBe(sessionId)
+    expect(conversationStateManager.getPendingClarifications(sessionId)).toHaveLength(1)
+  })
+
+  it('should resume the pending modification when the user answers', async () => {
+    const { sessionId } = await askForClarification()
+
+    // The answer is not classified as a modification on its own
+    mocks.analyzeIntent.mockResolvedValueOnce(intent({ intent: 'provide_information', targetSections: [] }))
+
+    const response = await POST(createRequest('Lock after 5 attempts', sessionId) as any)
+    const data = await response.json()
+
+    expect(response.headers.get('X-Session-Id')).toBe(sessionId)
+    expect(data.changesSummary).toContain('5 attempts')
+    expect(mocks.generateContextualResponse).not.toHaveBeenCalled()
+
+    const prompt = vi.mocked(generateTextWithFailover).mock.calls[0][0] as string
+    expect(prompt).toContain('How many failed attempts should lock the account?')
+    expect(prompt).toContain('Lock after 5 attempts')
+
+    const state = conversationStateManager.getState(sessionId)
+    expect(state?.pendingClarifications).toEqual([])
+    expect(state?.awaitingResponse).toBe(false)
+    expect(state?.lastIntent.targetSections).toEqual(['acceptanceCriteria', 'testCases'])
+  })
+
+  it('should keep questions pending when the user asks for an explanation instead', async () => {
+    const { sessionId } = await askForClarification()
+
+    mocks.analyzeIntent.mockResolvedValueOnce(intent({ intent: 'request_explanation' }))
+
+    const response = await POST(createRequest('Why is lockout needed?', sessionId) as any)
+    const data = await response.json()
+
+    expect(data.type).toBe('information')
+    expect(generateTextWithFailover).not.toHaveBeenCalled()
+    expect(conversationStateManager.getPendingClarifications(sessionId)).toHaveLength(1)
+  })
+
+  it('should not resume clarifications from a different session', async () => {
+    await askForClarification()
+
+    mocks.analyzeIntent.mockResolvedValueOnce(intent({ intent: 'provide_information' }))
+
+    const response = await POST(createRequest('Lock after 5 attempts') as any)
+    const data = await response.json()
+
+    expect(data.type).toBe('information')
+    expect(generateTextWithFailover).not.toHaveBeenCalled()
+  })
+
+  it('should reject patches outside the target sections', async () => {
+    mocks.analyzeIntent.mockResolvedValueOnce(intent({}))
+    vi.mocked(generateTextWithFailover).mockResolvedValueOnce({
+      text: JSON.stringify({
+        patch: [{ op: 'replace', path: '/ticketSummary/problem', value: 'Rewritten' }],
+        changesSummary: 'Rewrote the summary'
+      })
+    } as any)
+
+    const response = await POST(createRequest('Tighten the acceptance criteria') as any)
+    const data = await response.json()
+
+    expect(response.status).toBe(500)
+    expect(data.error).toBe('AI_PATCH_ERROR')
+    expect(data.details[0]).toContain('ticketSummary')
+
+    const prompt = vi.mocked(generateTextWithFailover).mock.calls[0][0] as string
+    expect(prompt).toContain('You may only change these sections: acceptanceCriteria')
+  })
+
+  it('should start a session under a client-provided id', async () => {
+    mocks.analyzeIntent.mockResolvedValueOnce(intent({ intent: 'off_topic' }))
+
+    const response = await POST(createRequest('What is the weather?', 'client-session-1') as any)
+
+    expect(response.headers.get('X-Session-Id')).toBe('client-session-1')
+    expect(conversationStateManager.isSessionActive('client-session-1')).toBe(true)
+  })
+})
@@ -0,0 +1,45 @@
+/**
+ * Integration tests for the usage report endpoint
+ */
+
+import { describe, test, expect, beforeAll } from 'vitest'
+import { GET as getUsage } from '../../app/api/usage/route'
+import { usageTracker, withUsageTracking, attributeUsage } from '../../lib/usage/usageTracker'
+
+describe('Usage API', () => {
+  beforeAll(async () => {
+    await withUsageTracking('analyze-ticket', async () => {
+      attributeUsage({ requestId: 'req-usage-1', ticketId: 'USAGE-1' })
+      usageTracker.record({ operation: 'generateText', provider: 'openai', model: 'gpt-4o-mini', usage: { promptTokens: 1000, completionTokens: 500, totalTokens: 1500 } })
+    })
+    await withUsageTracking('update-canvas', async () => {
+      attributeUsage({ requestId: 'req-usage-2', ticketId: 'USAGE-2' })
+      usageTracker.record({ operation: 'generateText', provider: 'local-llm', model: 'llama3.1:8b', usage: { promptTokens: 200, completionTokens: 100, totalTokens: 300 } })
+    })
+  })
+
+  const request = (query: string) => ({ url: `http://localhost/api/usage${query}` }) as any
+
+  test('should aggregate usage by ticket', async () => {
+    const res = await getUsage(request('?groupBy=ticket'))
+
+    expect(res.status).toBe(200)
+    const report = await res.json()
+    expect(report.groupBy).toBe('ticket')
+    expect(report.totals).toMatchObject({ calls: 2, totalTokens: 1800, unpricedCalls: 1 })
+    expect(report.groups.map((group: any) => group.key)).toEqual(['USAGE-1', 'USAGE-2'])
+  })
+
+  test('should default to daily totals and filter by endpoint', async () => {
+    const res = await getUsage(request('?endpoint=update-canvas'))
+
+    const report = await res.json()
+    expect(report.groupBy).toBe('day')
+    expect(report.groups).toEqual([expect.objectContaining({ key: new Date().toISOString().slice(0, 10), calls: 1, totalTokens: 300 })])
+  })
+
+  test('should reject unknown groupings and malformed dates', async () => {
+    expect((await getUsage(request('?groupBy=user'))).status).toBe(400)
+    expect((await getUsage(request('?from=yesterday'))).status).toBe(400)
+  })
+})
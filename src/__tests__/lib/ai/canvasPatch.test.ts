@@ -0,0 +1,123 @@
+/**
+ * Tests for JSON Patch application and the canvas patch service
+ */
+
+import { describe, it, expect } from 'vitest'
+import { applyPatch, JsonPatchError, parsePointer } from '../../../lib/utils/jsonPatch'
+import {
+  applyCanvasPatch,
+  resolvePatchableSections,
+  CanvasPatchError,
+  PATCHABLE_SECTIONS
+} from '../../../lib/ai/canvasPatch'
+import { createMinimalQACanvasDocument, type QACanvasDocument } from '../../../lib/schemas/QACanvasDocument'
+import { defaultQAProfile } from '../../../lib/schemas/QAProfile'
+
+describe('jsonPatch', () => {
+  it('should parse escaped pointer tokens', () => {
+    expect(parsePointer('')).toEqual([])
+    expect(parsePointer('/a~1b/c~0d/0')).toEqual(['a/b', 'c~d', '0'])
+    expect(() => parsePointer('a/b')).toThrow()
+    expect(() => parsePointer('/__proto__/polluted')).toThrow()
+  })
+
+  it('should apply all RFC 6902 operations without mutating the input', () => {
+    const document = { list: [1, 2, 3], nested: { keep: true, drop: 'x' } }
+
+    const result = applyPatch(document, [
+      { op: 'add', path: '/list/1', value: 9 },
+      { op: 'add', path: '/list/-', value: 4 },
+      { op: 'remove', path: '/nested/drop' },
+      { op: 'replace', path: '/nested/keep', value: false },
+      { op: 'copy', from: '/list/0', path: '/first' },
+      { op: 'move', from: '/first', path: '/nested/first' },
+      { op: 'test', path: '/list', value: [1, 9, 2, 3, 4] }
+    ])
+
+    expect(result).toEqual({ list: [1, 9, 2, 3, 4], nested: { keep: false, first: 1 } })
+    expect(document).toEqual({ list: [1, 2, 3], nested: { keep: true, drop: 'x' } })
+  })
+
+  it('should reject operations on missing paths with the failing index', () => {
+    const patch = [
+      { op: 'add' as const, path: '/a', value: 1 },
+      { op: 'replace' as const, path: '/missing', value: 2 }
+    ]
+
+    try {
+      applyPatch({}, patch)
+      expect.fail('applyPatch should have thrown')
+    } catch (error) {
+      expect(error).toBeInstanceOf(JsonPatchError)
+      expect((error as JsonPatchError).index).toBe(1)
+    }
+
+    expect(() => applyPatch({ list: [1] }, [{ op: 'add', path: '/list/5', value: 2 }])).toThrow(JsonPatchError)
+    expect(() => applyPatch({ a: 1 }, [{ op: 'test', path: '/a', value: 2 }])).toThrow(JsonPatchError)
+    expect(() => applyPatch({ a: { b: 1 } }, [{ op: 'move', from: '/a', path: '/a/b/c' }])).toThrow(JsonPatchError)
+  })
+})
+
+describe('canvasPatch', () => {
+  const createDocument = (): QACanvasDocument => ({
+    ...createMinimalQACanvasDocument('PATCH-1', defaultQAProfile),
+    acceptanceCriteria: [{
+      id: 'ac-1',
+      title: 'Valid login',
+      description: 'User can log in with valid credentials',
+      priority: 'must',
+      category: 'functional',
+      testable: true
+    }]
+  })
+
+  it('should return the applied document, patch and changed sections', () => {
+    const document = createDocument()
+
+    const result = applyCanvasPatch(document, [
+      { op: 'replace', path: '/acceptanceCriteria/0/title', value: 'Valid login with MFA' }
+    ], ['acceptanceCriteria'])
+
+    expect(result.document.acceptanceCriteria[0].title).toBe('Valid login with MFA')
+    expect(result.document.metadata).toEqual(document.metadata)
+    expect(result.patch).toHaveLength(1)
+    expect(result.changedSections).toEqual(['acceptanceCriteria'])
+  })
+
+  it('should reject operations outside the allowed sections', () => {
+    expect(() => applyCanvasPatch(createDocument(), [
+      { op: 'replace', path: '/ticketSummary/problem', value: 'Rewritten' }
+    ], ['acceptanceCriteria'])).toThrow(CanvasPatchError)
+
+    expect(() => applyCanvasPatch(createDocument(), [
+      { op: 'replace', path: '/metadata/ticketId', value: 'OTHER-1' }
+    ])).toThrow(/outside the requested scope/)
+
+    expect(() => applyCanvasPatch(createDocument(), [
+      { op: 'move', from: '/acceptanceCriteria/0', path: '/testCases/-' }
+    ], ['testCases'])).toThrow(CanvasPatchError)
+  })
+
+  it('should reject patches that produce an invalid document', () => {
+    try {
+      applyCanvasPatch(createDocument(), [
+        { op: 'add', path: '/acceptanceCriteria/-', value: { id: 'ac-2', title: 'Missing fields' } }
+      ])
+      expect.fail('applyCanvasPatch should have thrown')
+    } catch (error) {
+      expect(error).toBeInstanceOf(CanvasPatchError)
+      expect((error as CanvasPatchError).issues.every(issue => issue.startsWith('acceptanceCriteria.1'))).toBe(true)
+    }
+  })
+
+  it('should reject malformed patch documents', () => {
+    expect(() => applyCanvasPatch(createDocument(), { op: 'add' })).toThrow(/not a valid JSON Patch/)
+    expect(() => applyCanvasPatch(createDocument(), [{ op: 'merge', path: '/testCases' }])).toThrow(CanvasPatchError)
+  })
+
+  it('should resolve patchable sections from intent targets', () => {
+    expect(resolvePatchableSections(['testCases'], ['acceptanceCriteria', 'metadata'])).toEqual(['acceptanceCriteria', 'testCases'])
+    expect(resolvePatchableSections(['metadata'])).toEqual([...PATCHABLE_SECTIONS])
+    expect(resolvePatchableSections(undefined)).toEqual([...PATCHABLE_SECTIONS])
+  })
+})
@@ -0,0 +1,192 @@
+/**
+ * Tests for Conversation State Stores
+ * Covers memory, file and Redis backends plus manager persistence across instances
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, rm, readdir } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { ConversationStateManager } from '../../../../lib/ai/intent/conversationStateManager'
+import {
+  FileConversationStateStore,
+  MemoryConversationStateStore,
+  RedisConversationStateStore,
+  type ConversationStateStore
+} from '../../../../lib/ai/intent/conversationStateStore'
+import { RespClient, parseRedisUrl } from '../../../../lib/utils/respClient'
+import type { ClarificationQuestion } from '../../../../lib/ai/intent/types'
+import { startRedisStandIn, type RedisStandIn } from '../../../mocks/redisServer'
+
+const question: ClarificationQuestion = {
+  question: 'How many failed login attempts should lock the account?',
+  category: 'specification',
+  targetSection: 'acceptanceCriteria',
+  priority: 'high'
+}
+
+/**
+ * Shared contract every store must satisfy
+ */
+function describeStoreContract(name: string, createStore: () => Promise<ConversationStateStore>) {
+  describe(`${name} contract`, () => {
+    let store: ConversationStateStore
+    let manager: ConversationStateManager
+
+    beforeEach(async () => {
+      store = await createStore()
+      manager = new ConversationStateManager()
+    })
+
+    afterEach(() => {
+      manager.destroy()
+    })
+
+    it('should save, load and delete state', async () => {
+      const state = manager.initializeSession('session-a')
+
+      await store.save(state, 60_000)
+      expect(await store.load('session-a')).toEqual(state)
+
+      await store.delete('session-a')
+      expect(await store.load('session-a')).toBeNull()
+    })
+
+    it('should return null for unknown sessions', async () => {
+      expect(await store.load('missing')).toBeNull()
+      await expect(store.delete('missing')).resolves.toBeUndefined()
+    })
+
+    it('should expire state after the TTL', async () => {
+      const state = manager.initializeSession('session-b')
+
+      await store.save(state, 1)
+      await new Promise(resolve => setTimeout(resolve, 10))
+
+      expect(await store.load('session-b')).toBeNull()
+    })
+  })
+}
+
+describe('Conversation State Stores', () => {
+  let baseDir: string
+  let redis: RedisStandIn
+  const clients: RespClient[] = []
+
+  beforeEach(async () => {
+    baseDir = await mkdtemp(path.join(tmpdir(), 'qa-conversations-'))
+    redis = await startRedisStandIn({ password: 'secret' })
+  })
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map(client => client.quit()))
+    await redis.close()
+    await rm(baseDir, { recursive: true, force: true })
+  })
+
+  const createRedisStore = async () => {
+    const client = new RespClient(parseRedisUrl(`redis://:secret@127.0.0.1:${redis.port}/2`))
+    clients.push(client)
+    return new RedisConversationStateStore(client)
+  }
+
+  describeStoreContract('MemoryConversationStateStore', async () => new MemoryConversationStateStore())
+  describeStoreContract('FileConversationStateStore', async () => new FileConversationStateStore(baseDir))
+  describeStoreContract('RedisConversationStateStore', createRedisStore)
+
+  describe('FileConversationStateStore', () => {
+    it('should keep session files inside the base directory', async () => {
+      const store = new FileConversationStateStore(baseDir)
+      const manager = new ConversationStateManager()
+
+      await store.save(manager.initializeSession('../escape'), 60_000)
+      manager.destroy()
+
+      expect(await readdir(baseDir)).toEqual(['%2E%2E%2Fescape.json'])
+    })
+  })
+
+  describe('RedisConversationStateStore', () => {
+    it('should authenticate, select the database and set server-side expiry', async () => {
+      const store = await createRedisStore()
+      const manager = new ConversationStateManager()
+
+      await store.save(manager.initializeSession('session-r'), 60_000)
+      manager.destroy()
+
+      expect(redis.commands[0]).toEqual(['AUTH', 'secret'])
+      expect(redis.commands[1]).toEqual(['SELECT', '2'])
+      expect(redis.commands[2].slice(0, 2)).toEqual(['SET', 'qa-canvas:conversation:session-r'])
+      expect(redis.commands[2].slice(3)).toEqual(['PX', '60000'])
+      expect(redis.data.get('qa-canvas:conversation:session-r')?.expiresAt).toBeGreaterThan(Date.now())
+    })
+  })
+
+  describe('ConversationStateManager persistence', () => {
+    it('should resume pending clarifications on another instance with the file store', async () => {
+      const first = new ConversationStateManager(new FileConversationStateStore(baseDir))
+      const second = new ConversationStateManager(new FileConversationStateStore(baseDir))
+
+      first.initializeSession('shared')
+      first.addPendingClarifications('shared', [question])
+      await first.flush('shared')
+
+      const resumed = await second.loadSession('shared')
+
+      expect(resumed?.currentPhase).toBe('awaiting_clarification')
+      expect(resumed?.pendingClarifications).toEqual([question])
+      expect(second.isAwaitingResponse('shared')).toBe(true)
+
+      first.destroy()
+      second.destroy()
+    })
+
+    it('should resume pending clarifications on another instance with the Redis store', async () => {
+      const first = new ConversationStateManager(await createRedisStore())
+      const second = new ConversationStateManager(await createRedisStore())
+
+      first.initializeSession('shared')
+      first.addPendingClarifications('shared', [question])
+      await first.flush()
+
+      expect((await second.loadSession('shared'))?.pendingClarifications).toEqual([question])
+
+      // Answering on the second instance is visible to the first
+      second.clearPendingClarifications('shared')
+      await second.flush('shared')
+
+      expect((await first.loadSession('shared'))?.pendingClarifications).toEqual([])
+    })
+
+    it('should keep the newer local state when the stored copy is stale', async () => {
+      const store = new MemoryConversationStateStore()
+      const manager = new ConversationStateManager(store)
+
+      const stale = manager.initializeSession('session-s')
+      await manager.flush()
+      await new Promise(resolve => setTimeout(resolve, 5))
+      manager.addPendingClarifications('session-s', [question])
+
+      // Simulate a late write of an older state from another instance
+      await store.save(stale, 60_000)
+
+      expect((await manager.loadSession('session-s'))?.pendingClarifications).toEqual([question])
+      manager.destroy()
+    })
+
+    it('should keep working in memory when the store fails', async () => {
+      const failingStore: ConversationStateStore = {
+        load: async () => { throw new Error('store down') },
+        save: async () => { throw new Error('store down') },
+        delete: async () => { throw new Error('store down') }
+      }
+      const manager = new ConversationStateManager(failingStore)
+
+      manager.initializeSession('session-f')
+      await manager.flush()
+
+      expect((await manager.loadSession('session-f'))?.sessionId).toBe('session-f')
+      manager.destroy()
+    })
+  })
+})
@@ -0,0 +1,118 @@
+/**
+ * Tests for the offline mock language model and its fixture store
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { generateObject, generateText, tool } from 'ai'
+import { z } from 'zod'
+import { MockLanguageModel, createMockLanguageModel, withFixtureRecording } from '../../../../lib/ai/mock/mockLanguageModel'
+import { sampleFromJsonSchema } from '../../../../lib/ai/mock/schemaSampler'
+
+describe('MockLanguageModel', () => {
+  const directories: string[] = []
+  const createDirectory = () => {
+    const directory = mkdtempSync(path.join(tmpdir(), 'mock-fixtures-'))
+    directories.push(directory)
+    return directory
+  }
+
+  afterEach(() => {
+    directories.splice(0).forEach(directory => rmSync(directory, { recursive: true, force: true }))
+    vi.restoreAllMocks()
+  })
+
+  it('should synthesize schema-valid objects for schemas without a fixture', async () => {
+    const schema = z.object({
+      verdict: z.enum(['pass', 'fail']),
+      score: z.number().min(0).max(10),
+      reasons: z.array(z.string()).min(2),
+      reviewer: z.object({ email: z.string().email() }).optional()
+    })
+
+    const { object } = await generateObject({ model: new MockLanguageModel(), schema, prompt: 'Review this' })
+
+    expect(object).toEqual({ verdict: 'pass', score: 9, reasons: ['Mock reasons', 'Mock reasons'] })
+  })
+
+  it('should call the requested tool with arguments that satisfy its parameters', async () => {
+    const execute = vi.fn().mockResolvedValue('done')
+
+    await generateText({
+      model: new MockLanguageModel(),
+      prompt: 'Estimate the effort',
+      tools: {
+        estimateEffort: tool({
+          description: 'Estimate effort',
+          parameters: z.object({ hours: z.number().int().positive(), confidence: z.number().min(0).max(1) }),
+          execute
+        })
+      },
+      toolChoice: 'required'
+    })
+
+    expect(execute).toHaveBeenCalledWith({ hours: 1, confidence: 0.9 }, expect.anything())
+  })
+
+  it('should return the same response for the same prompt', async () => {
+    const model = new MockLanguageModel()
+    const prompt = 'Analyze ticket PROJ-1'
+
+    const [first, second] = await Promise.all([
+      generateText({ model, prompt }),
+      generateText({ model, prompt })
+    ])
+
+    expect(first.text).toBe(second.text)
+  })
+
+  it('should prefer recorded fixtures from MOCK_AI_FIXTURES_DIR', async () => {
+    const directory = createDirectory()
+    writeFileSync(path.join(directory, 'summary.json'), JSON.stringify({
+      name: 'summary',
+      match: { promptIncludes: ['PROJ-7'] },
+      response: { text: 'Recorded answer' }
+    }))
+    writeFileSync(path.join(directory, 'broken.json'), JSON.stringify({ name: 'broken', match: {}, response: { text: 'x' } }))
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    const model = createMockLanguageModel({ MOCK_AI_FIXTURES_DIR: directory, MOCK_AI_MODEL: 'recorded' })
+
+    expect(model.modelId).toBe('recorded')
+    expect((await generateText({ model, prompt: 'Summarize PROJ-7' })).text).toBe('Recorded answer')
+    expect((await generateText({ model, prompt: 'Summarize PROJ-8' })).text).not.toBe('Recorded answer')
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('broken.json'), expect.anything())
+  })
+
+  it('should record responses that replay through the mock model', async () => {
+    const directory = createDirectory()
+    const source = new MockLanguageModel({
+      fixtures: [{ name: 'real', matches: () => true, respond: () => ({ text: 'Answer from a real provider' }) }]
+    })
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+
+    await generateText({ model: withFixtureRecording(source, directory), prompt: 'Explain PROJ-9' })
+
+    expect(readdirSync(directory)).toHaveLength(1)
+    const replay = createMockLanguageModel({ MOCK_AI_FIXTURES_DIR: directory })
+    expect((await generateText({ model: replay, prompt: 'Explain PROJ-9' })).text).toBe('Answer from a real provider')
+  })
+})
+
+describe('sampleFromJsonSchema', () => {
+  it('should prefer defaults, constants and non-null variants', () => {
+    expect(sampleFromJsonSchema({
+      type: 'object',
+      properties: {
+        mode: { type: 'string', default: 'fast' },
+        kind: { const: 'fixed' },
+        note: { anyOf: [{ type: 'null' }, { type: 'string' }] },
+        tags: { type: 'array', items: { type: 'string' } },
+        optionalFlag: { type: 'boolean' }
+      },
+      required: ['mode', 'kind', 'note']
+    })).toEqual({ mode: 'fast', kind: 'fixed', note: 'Mock note', tags: ['Mock tags'] })
+  })
+})
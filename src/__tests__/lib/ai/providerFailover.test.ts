@@ -8,6 +8,7 @@ import {
   resetCircuitBreaker,
   generateObjectWithFailover,
   generateTextWithFailover,
+  generateTextWithImagesFailover,
   streamTextWithFailover
 } from '../../../lib/ai/providerFailover';
 import { describe, test, expect, beforeEach, vi, afterEach } from 'vitest';
@@ -265,6 +266,51 @@ describe('Provider Failover Logic', () => {
       expect(result).toEqual('anthropic success text');
     });
     
+    test('should abort calls after the provider timeout', async () => {
+      (generateText as unknown as ReturnType<typeof vi.fn>).mockResolvedValueOnce('success text');
+
+      await generateTextWithFailover('test prompt');
+
+      expect(generateText).toHaveBeenCalledWith(expect.objectContaining({
+        abortSignal: expect.any(AbortSignal)
+      }));
+    });
+
+    test('should fail over when a provider times out', async () => {
+      (generateText as unknown as ReturnType<typeof vi.fn>)
+        .mockRejectedValueOnce(new DOMException('The operation was aborted due to timeout', 'TimeoutError'))
+        .mockResolvedValueOnce('anthropic success text');
+
+      const result = await generateTextWithFailover('test prompt');
+
+      expect(generateText).toHaveBeenCalledTimes(2);
+      expect(generateText).toHaveBeenNthCalledWith(2, expect.objectContaining({
+        model: expect.objectContaining({ name: 'anthropic' })
+      }));
+      expect(result).toEqual('anthropic success text');
+    });
+
+    test('should keep the caller abort signal alongside the provider timeout', async () => {
+      (generateText as unknown as ReturnType<typeof vi.fn>).mockResolvedValueOnce('success text');
+      const controller = new AbortController();
+
+      await generateTextWithFailover('test prompt', { abortSignal: controller.signal });
+      const { abortSignal } = (generateText as unknown as ReturnType<typeof vi.fn>).mock.calls[0][0];
+
+      expect(abortSignal).not.toBe(controller.signal);
+      expect(abortSignal.aborted).toBe(false);
+      controller.abort();
+      expect(abortSignal.aborted).toBe(true);
+    });
+
+    test('should not fail over a call the caller aborted', async () => {
+      (generateText as unknown as ReturnType<typeof vi.fn>)
+        .mockRejectedValueOnce(new DOMException('This operation was aborted', 'AbortError'));
+
+      await expect(generateTextWithFailover('test prompt')).rejects.toThrow('This operation was aborted');
+      expect(generateText).toHaveBeenCalledTimes(1);
+    });
+
     test('should pass tools to provider', async () => {
       // Mock successful response
       (generateText as unknown as ReturnType<typeof vi.fn>).mockResolvedValueOnce('success text');
@@ -291,6 +337,31 @@ describe('Provider Failover Logic', () => {
     });
   });
   
+  describe('generateTextWithImagesFailover', () => {
+    test('should send base64 images without their data URL prefix', async () => {
+      (generateText as unknown as ReturnType<typeof vi.fn>).mockResolvedValueOnce('success text');
+
+      await generateTextWithImagesFailover('describe the screen', [{ data: 'data:image/png;base64,iVBORw0KGgo=', mimeType: 'image/png' }]);
+
+      expect(generateText).toHaveBeenCalledWith(expect.objectContaining({
+        messages: [{
+          role: 'user',
+          content: [
+            { type: 'text', text: 'describe the screen' },
+            { type: 'image', image: 'iVBORw0KGgo=', mimeType: 'image/png' }
+          ]
+        }]
+      }));
+    });
+
+    test('should refuse images given as URLs without calling a provider', async () => {
+      await expect(generateTextWithImagesFailover('describe the screen', [{ data: 'http://169.254.169.254/latest/meta-data', mimeType: 'image/png' }]))
+        .rejects.toThrow('Image 1 is not base64 image data');
+
+      expect(generateText).not.toHaveBeenCalled();
+    });
+  });
+  
   describe('streamTextWithFailover', () => {
     test('should use OpenAI as primary provider', async () => {
       // Mock successful response
@@ -0,0 +1,207 @@
+/**
+ * Tests for the provider registry and on-prem request routing
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  loadProviderConfigs,
+  createCustomProviderConfig,
+  customProviderSchema,
+  withProviderRouting,
+  applyTicketRoutingPolicy,
+  getProviderRoutingPolicy,
+  filterProvidersForPolicy
+} from '../../../lib/ai/providerRegistry'
+
+const localProvider = {
+  name: 'local-llm',
+  baseURL: 'http://localhost:11434/v1',
+  model: 'llama3.1:8b',
+  onPrem: true
+}
+
+describe('providerRegistry', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  describe('loadProviderConfigs', () => {
+    it('should keep the built-in providers when nothing is configured', () => {
+      const providers = loadProviderConfigs({ PRIMARY_PROVIDER: 'anthropic' })
+
+      expect(providers.map(provider => provider.name)).toEqual(['openai', 'anthropic'])
+      expect(providers.find(provider => provider.name === 'anthropic')?.weight).toBe(10)
+      expect(providers.every(provider => !provider.onPrem)).toBe(true)
+    })
+
+    it('should add OpenAI-compatible providers from AI_PROVIDERS', () => {
+      const providers = loadProviderConfigs({
+        AI_PROVIDERS: JSON.stringify([localProvider, { ...localProvider, name: 'vllm', weight: 7, timeout: 120000 }])
+      })
+
+      expect(providers.map(provider => provider.name)).toEqual(['openai', 'anthropic', 'local-llm', 'vllm'])
+      expect(providers[2]).toMatchObject({ kind: 'openai-compatible', model: 'llama3.1:8b', timeout: 60000, weight: 5, onPrem: true })
+      expect(providers[3]).toMatchObject({ timeout: 120000, weight: 7 })
+    })
+
+    it('should rank a custom PRIMARY_PROVIDER above the built-ins', () => {
+      const providers = loadProviderConfigs({ PRIMARY_PROVIDER: 'local-llm', AI_PROVIDERS: JSON.stringify([localProvider]) })
+
+      expect(providers.find(provider => provider.name === 'local-llm')?.weight).toBe(10)
+      expect(providers.find(provider => provider.name === 'openai')?.weight).toBe(5)
+    })
+
+    it('should skip invalid, disabled and clashing entries', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+      const providers = loadProviderConfigs({
+        AI_PROVIDERS: JSON.stringify([
+          { name: 'no-url', model: 'x' },
+          { ...localProvider, name: 'openai' },
+          { ...localProvider, name: 'off', enabled: false },
+          localProvider
+        ])
+      })
+
+      expect(providers.map(provider => provider.name)).toEqual(['openai', 'anthropic', 'local-llm'])
+      expect(loadProviderConfigs({ AI_PROVIDERS: '{not json' })).toHaveLength(2)
+      expect(customProviderSchema.safeParse({ ...localProvider, name: 'has space' }).success).toBe(false)
+    })
+  })
+
+  describe('createCustomProviderConfig', () => {
+    it('should call the endpoint with configured headers, key and query parameters', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+        id: 'chatcmpl-1',
+        created: 0,
+        model: 'gpt-4o',
+        choices: [{ index: 0, message: { role: 'assistant', content: 'ok' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 1, completion_tokens: 1 }
+      }), { status: 200, headers: { 'Content-Type': 'application/json' } }))
+      vi.stubGlobal('fetch', fetchMock)
+
+      const config = createCustomProviderConfig(customProviderSchema.parse({
+        name: 'azure',
+        baseURL: 'https://example.openai.azure.com/openai/deployments/gpt-4o',
+        model: 'gpt-4o',
+        apiKeyEnv: 'AZURE_KEY',
+        headers: { 'api-key': 'secret' },
+        queryParams: { 'api-version': '2024-06-01' }
+      }), { AZURE_KEY: 'from-env' })
+
+      const result = await config.createModel().doGenerate({
+        inputFormat: 'prompt',
+        mode: { type: 'regular' },
+        prompt: [{ role: 'user', content: [{ type: 'text', text: 'Hi' }] }]
+      })
+
+      const [url, init] = fetchMock.mock.calls[0]
+      expect(String(url)).toBe('https://example.openai.azure.com/openai/deployments/gpt-4o/chat/completions?api-version=2024-06-01')
+      expect(init.headers).toMatchObject({ Authorization: 'Bearer from-env', 'api-key': 'secret' })
+      expect(result.text).toBe('ok')
+    })
+  })
+
+  describe('routing', () => {
+    const providers = [{ name: 'openai', onPrem: false }, { name: 'local-llm', onPrem: true }]
+
+    it('should restrict tickets matching ON_PREM_TICKET_PATTERNS to on-prem providers', async () => {
+      vi.stubEnv('ON_PREM_TICKET_PATTERNS', 'SEC-*, HR-42')
+      vi.spyOn(console, 'log').mockImplementation(() => {})
+
+      await withProviderRouting(async () => {
+        expect(applyTicketRoutingPolicy('sec-101')).toBe(true)
+        expect(getProviderRoutingPolicy().onPremOnly).toBe(true)
+        expect(filterProvidersForPolicy(providers).map(provider => provider.name)).toEqual(['local-llm'])
+      })
+
+      await withProviderRouting(async () => {
+        expect(applyTicketRoutingPolicy('HR-421')).toBe(false)
+        expect(applyTicketRoutingPolicy('PROJ-1')).toBe(false)
+        expect(filterProvidersForPolicy(providers)).toHaveLength(2)
+      })
+    })
+
+    it('should keep policies isolated between concurrent requests', async () => {
+      vi.stubEnv('ON_PREM_TICKET_PATTERNS', 'SEC-*')
+      vi.spyOn(console, 'log').mockImplementation(() => {})
+
+      const [restricted, unrestricted] = await Promise.all([
+        withProviderRouting(async () => {
+          applyTicketRoutingPolicy('SEC-1')
+          await new Promise(resolve => setTimeout(resolve, 5))
+          return getProviderRoutingPolicy().onPremOnly
+        }),
+        withProviderRouting(async () => {
+          await new Promise(resolve => setTimeout(resolve, 5))
+          return getProviderRoutingPolicy().onPremOnly
+        })
+      ])
+
+      expect(restricted).toBe(true)
+      expect(unrestricted).toBe(false)
+      expect(getProviderRoutingPolicy().onPremOnly).toBe(false)
+    })
+
+    it('should refuse a matching ticket outside a routing scope', () => {
+      vi.stubEnv('ON_PREM_TICKET_PATTERNS', 'SEC-*')
+
+      expect(() => applyTicketRoutingPolicy('SEC-1')).toThrow(/no routing scope/)
+      expect(applyTicketRoutingPolicy('PROJ-1')).toBe(false)
+    })
+  })
+
+  describe('failover integration', () => {
+    const loadFailover = async (env: Record<string, string>) => {
+      vi.resetModules()
+      Object.entries(env).forEach(([key, value]) => vi.stubEnv(key, value))
+      vi.doMock('ai', () => ({
+        generateObject: vi.fn(),
+        generateText: vi.fn().mockResolvedValue({ text: 'ok' }),
+        streamText: vi.fn()
+      }))
+
+      const failover = await import('../../../lib/ai/providerFailover')
+      const registry = await import('../../../lib/ai/providerRegistry')
+      const { generateText } = await import('ai')
+      return { ...failover, ...registry, generateText: vi.mocked(generateText) }
+    }
+
+    afterEach(() => {
+      vi.doUnmock('ai')
+    })
+
+    it('should track circuit breaker status for custom providers and use them for on-prem tickets', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {})
+      const modules = await loadFailover({
+        AI_PROVIDERS: JSON.stringify([localProvider]),
+        ON_PREM_TICKET_PATTERNS: 'SEC-*'
+      })
+
+      expect(modules.getProviderHealthStatus()).toHaveProperty('local-llm')
+
+      await modules.withProviderRouting(async () => {
+        modules.applyTicketRoutingPolicy('SEC-7')
+        await modules.generateTextWithFailover('Analyze')
+      })
+
+      const model = modules.generateText.mock.calls[0][0].model as { provider: string; modelId: string }
+      expect(model.provider).toBe('local-llm.chat')
+      expect(model.modelId).toBe('llama3.1:8b')
+    })
+
+    it('should fail instead of using an external provider when no on-prem provider exists', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {})
+      const modules = await loadFailover({ ON_PREM_TICKET_PATTERNS: 'SEC-*' })
+
+      await expect(modules.withProviderRouting(async () => {
+        modules.applyTicketRoutingPolicy('SEC-7')
+        return modules.generateTextWithFailover('Analyze')
+      })).rejects.toThrow(/No eligible AI providers/)
+      expect(modules.generateText).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,130 @@
+import { applyCriteriaProvenance, extractAcceptanceCriteria, toAcceptanceCriterion } from '@/lib/analysis/acceptanceCriteriaExtractor'
+import { describe, it, expect } from 'vitest'
+
+describe('Acceptance Criteria Extractor', () => {
+  describe('extractAcceptanceCriteria', () => {
+    it('should read the list under an acceptance criteria heading until the next heading', () => {
+      const criteria = extractAcceptanceCriteria({
+        description: [
+          'Customers reuse a saved card at checkout.',
+          '- This bullet is context, not a criterion',
+          '',
+          '## Acceptance Criteria',
+          '- Saved cards are listed with brand and last four digits',
+          '- CVV is required for cards older',
+          '  than 90 days',
+          '1. Expired cards are hidden',
+          '',
+          '## Notes',
+          '- Design is in Figma'
+        ].join('\n'),
+        customFields: {}
+      })
+
+      expect(criteria).toEqual([
+        { text: 'Saved cards are listed with brand and last four digits', format: 'list', location: 'description' },
+        { text: 'CVV is required for cards older than 90 days', format: 'list', location: 'description' },
+        { text: 'Expired cards are hidden', format: 'list', location: 'description' }
+      ])
+    })
+
+    it('should accept wiki and bold headings and inline criteria', () => {
+      expect(extractAcceptanceCriteria({ description: 'h3. Acceptance criteria\n* Refund is issued\n\nh3. Out of scope\n* Partial refunds', customFields: {} }))
+        .toEqual([{ text: 'Refund is issued', format: 'list', location: 'description' }])
+      expect(extractAcceptanceCriteria({ description: '*AC:* The export contains every order', customFields: {} }))
+        .toEqual([{ text: 'The export contains every order', format: 'text', location: 'description' }])
+    })
+
+    it('should extract Given/When/Then scenarios anywhere in the description', () => {
+      const criteria = extractAcceptanceCriteria({
+        description: [
+          'Background text.',
+          'Scenario: Expired coupon',
+          'Given a coupon that expired yesterday',
+          'When the customer applies it',
+          '  at checkout',
+          'Then an "expired" error is shown',
+          'And the total is unchanged',
+          '',
+          'Given only a precondition without an outcome'
+        ].join('\n'),
+        customFields: {}
+      })
+
+      expect(criteria).toEqual([{
+        text: 'Given a coupon that expired yesterday When the customer applies it at checkout Then an "expired" error is shown And the total is unchanged',
+        title: 'Expired coupon',
+        format: 'gherkin',
+        location: 'description'
+      }])
+    })
+
+    it('should read checklists anywhere and criteria custom fields whole', () => {
+      const criteria = extractAcceptanceCriteria({
+        description: 'Checklist:\n- [x] API returns 201\n- [ ] Email is sent',
+        customFields: {
+          'Acceptance Criteria': '- [x] Saved cards are listed\n- [ ] Expired cards are hidden',
+          'Definition of Done': 'Documentation is updated',
+          'Story Points': '5'
+        }
+      })
+
+      expect(criteria).toEqual([
+        { text: 'Saved cards are listed', format: 'checklist', location: 'customFields.Acceptance Criteria', checked: true },
+        { text: 'Expired cards are hidden', format: 'checklist', location: 'customFields.Acceptance Criteria', checked: false },
+        { text: 'Documentation is updated', format: 'text', location: 'customFields.Definition of Done' },
+        { text: 'API returns 201', format: 'checklist', location: 'description', checked: true },
+        { text: 'Email is sent', format: 'checklist', location: 'description', checked: false }
+      ])
+    })
+
+    it('should drop duplicates and return nothing for tickets without criteria', () => {
+      expect(extractAcceptanceCriteria({
+        description: 'Acceptance Criteria:\n- Refund is issued',
+        customFields: { AC: '- Refund is issued.' }
+      })).toHaveLength(1)
+      expect(extractAcceptanceCriteria({ description: 'Fix the typo on the landing page.\n- It says "Welcom"', customFields: {} })).toEqual([])
+    })
+  })
+
+  describe('applyCriteriaProvenance', () => {
+    const extracted = extractAcceptanceCriteria({
+      description: 'Acceptance Criteria:\n- Saved cards are listed with brand and last four digits\n- Invalid CVV shows an error message',
+      customFields: {}
+    })
+    const criterion = (id: string, title: string, description: string) => ({ id, title, description, priority: 'must' as const, category: 'functional', testable: true })
+
+    it('should mark restated criteria as ticket and the rest as ai', () => {
+      const criteria = applyCriteriaProvenance([
+        criterion('ac-1', 'Saved cards listed', 'Saved cards are listed showing the card brand and last four digits'),
+        criterion('ac-2', 'Invalid CVV', 'Entering an invalid CVV shows an error message'),
+        criterion('ac-3', 'Default card', 'The most recently used card is preselected')
+      ], extracted)
+
+      expect(criteria.map(item => [item.id, item.source])).toEqual([['ac-1', 'ticket'], ['ac-2', 'ticket'], ['ac-3', 'ai']])
+    })
+
+    it('should append author-written criteria the AI left out', () => {
+      const criteria = applyCriteriaProvenance([criterion('ac-1', 'Default card', 'The most recently used card is preselected')], extracted)
+
+      expect(criteria).toHaveLength(3)
+      expect(criteria[1]).toEqual({
+        id: 'ac-2',
+        title: 'Saved cards are listed with brand and last four digits',
+        description: 'Saved cards are listed with brand and last four digits',
+        priority: 'must',
+        category: 'functional',
+        testable: true,
+        source: 'ticket'
+      })
+      expect(criteria[2]).toMatchObject({ id: 'ac-3', category: 'negative', source: 'ticket' })
+    })
+  })
+
+  describe('toAcceptanceCriterion', () => {
+    it('should use the scenario name as title and categorize by keywords', () => {
+      expect(toAcceptanceCriterion({ text: 'Given a locked account When the user logs in Then access is denied', title: 'Locked account', format: 'gherkin', location: 'description' }, 'ac-1'))
+        .toMatchObject({ title: 'Locked account', category: 'security', priority: 'must', source: 'ticket' })
+    })
+  })
+})
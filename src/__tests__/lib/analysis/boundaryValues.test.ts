@@ -0,0 +1,177 @@
+import { extractInputConstraints, generateBoundaryTestCases } from '@/lib/analysis/boundaryValues'
+import type { AcceptanceCriterion } from '@/lib/schemas/QACanvasDocument'
+import { describe, it, expect } from 'vitest'
+
+describe('Boundary Values', () => {
+  const criterion = (id: string, description: string, priority: AcceptanceCriterion['priority'] = 'must'): AcceptanceCriterion => ({
+    id,
+    title: id,
+    description,
+    priority,
+    category: 'functional',
+    testable: true
+  })
+
+  describe('extractInputConstraints', () => {
+    it('should extract numeric ranges, counts and exclusive bounds', () => {
+      const constraints = extractInputConstraints([
+        criterion('ac-1', 'Quantity must be between 1 and 99'),
+        criterion('ac-2', 'Users can add up to 5 items to the wishlist'),
+        criterion('ac-3', 'The transfer amount must be less than 1000.50 EUR')
+      ])
+
+      expect(constraints).toMatchObject([
+        { field: 'Quantity', kind: 'range', min: 1, max: 99, criteriaIds: ['ac-1'] },
+        { field: 'Items', kind: 'range', max: 5 },
+        { field: 'Transfer amount', kind: 'range', max: 1000.49, step: 0.01, unit: 'eur' }
+      ])
+    })
+
+    it('should merge length limits stated in different criteria', () => {
+      const constraints = extractInputConstraints([
+        criterion('ac-1', 'Password must be at least 8 characters.'),
+        criterion('ac-2', 'The password must not exceed 64 characters'),
+        criterion('ac-3', 'Username length: 3-20 characters')
+      ])
+
+      expect(constraints).toMatchObject([
+        { field: 'Password', kind: 'length', min: 8, max: 64, criteriaIds: ['ac-1', 'ac-2'] },
+        { field: 'Username', kind: 'length', min: 3, max: 20 }
+      ])
+    })
+
+    it('should extract absolute and relative dates', () => {
+      const constraints = extractInputConstraints([
+        criterion('ac-1', 'The delivery date must be in the future'),
+        criterion('ac-2', 'Promotions run between 2025-03-01 and 2025-03-31'),
+        criterion('ac-3', 'Birth date must be before 2007-01-01')
+      ])
+
+      expect(constraints).toMatchObject([
+        { field: 'Delivery date', kind: 'date', minDate: { offsetDays: 1 } },
+        { field: 'Promotions run', kind: 'date', minDate: { date: '2025-03-01' }, maxDate: { date: '2025-03-31' } },
+        { field: 'Birth date', kind: 'date', maxDate: { date: '2006-12-31' } }
+      ])
+    })
+
+    it('should skip dates that do not exist', () => {
+      const constraints = extractInputConstraints([
+        criterion('ac-1', 'The start date must be after 2024-13-45'),
+        criterion('ac-2', 'Bookings run between 2025-02-30 and 2025-03-31'),
+        criterion('ac-3', 'The end date must be before 2025-06-01')
+      ])
+
+      expect(constraints).toMatchObject([
+        { field: 'End date', kind: 'date', maxDate: { date: '2025-05-31' } }
+      ])
+      expect(constraints).toHaveLength(1)
+    })
+
+    it('should extract enumerations and required fields', () => {
+      const constraints = extractInputConstraints([
+        criterion('ac-1', 'Shipping method must be one of Standard, Express or Pickup'),
+        criterion('ac-2', 'Supported formats are PNG, JPG and "GIF".'),
+        criterion('ac-3', 'Name and email are required; the phone number cannot be empty')
+      ])
+
+      expect(constraints).toMatchObject([
+        { field: 'Shipping method', kind: 'enum', values: ['Standard', 'Express', 'Pickup'] },
+        { field: 'Formats', kind: 'enum', values: ['PNG', 'JPG', 'GIF'] },
+        { field: 'Name', kind: 'required' },
+        { field: 'Email', kind: 'required' },
+        { field: 'Phone number', kind: 'required' }
+      ])
+    })
+
+    it('should read the ticket text and skip identifiers and plain dates', () => {
+      const constraints = extractInputConstraints([], {
+        summary: 'SHOP-42 Coupon limits',
+        description: 'Released on 2025-01-15.\nCoupon code is required.',
+        customFields: { Notes: 'Discount of at least 5%' }
+      })
+
+      expect(constraints).toMatchObject([
+        { field: 'Coupon code', kind: 'required', criteriaIds: [] },
+        { field: 'Discount', kind: 'range', min: 5, unit: '%' }
+      ])
+    })
+  })
+
+  describe('generateBoundaryTestCases', () => {
+    it('should emit one table test case per input with boundary rows', () => {
+      const { testCases } = generateBoundaryTestCases({
+        acceptanceCriteria: [criterion('ac-1', 'Quantity must be between 1 and 99')],
+        testCases: []
+      })
+
+      expect(testCases).toHaveLength(1)
+      expect(testCases[0]).toMatchObject({ format: 'table', id: 'tc-bv-1', category: 'negative', priority: 'high', coversCriteria: ['ac-1'] })
+      if (testCases[0].format !== 'table') throw new Error('Expected a table test case')
+      expect(testCases[0].testCase.title).toBe('Quantity: boundary values and equivalence classes')
+      expect(testCases[0].testCase.testData.map(row => [row.Quantity, row.Partition, row.Expected])).toEqual([
+        ['0', 'Below minimum', 'Rejected'],
+        ['1', 'Minimum', 'Accepted'],
+        ['2', 'Just above minimum', 'Accepted'],
+        ['50', 'Within range', 'Accepted'],
+        ['98', 'Just below maximum', 'Accepted'],
+        ['99', 'Maximum', 'Accepted'],
+        ['100', 'Above maximum', 'Rejected']
+      ])
+    })
+
+    it('should combine the constraints of a field and add a length column', () => {
+      const { testCases } = generateBoundaryTestCases({
+        acceptanceCriteria: [criterion('ac-1', 'Username is required and must be 3-5 characters', 'should')],
+        testCases: [{ format: 'table', id: 'tc-bv-1', category: 'functional', priority: 'low', testCase: { title: 'Existing', description: '', testData: [], expectedOutcome: '', notes: '' } }]
+      })
+
+      expect(testCases).toHaveLength(1)
+      expect(testCases[0]).toMatchObject({ id: 'tc-bv-2', priority: 'medium' })
+      if (testCases[0].format !== 'table') throw new Error('Expected a table test case')
+      expect(testCases[0].testCase.testData).toEqual([
+        { Username: 'aa', Length: '2', Partition: 'Below minimum', Technique: 'Boundary value', Expected: 'Rejected' },
+        { Username: 'aaa', Length: '3', Partition: 'Minimum', Technique: 'Boundary value', Expected: 'Accepted' },
+        { Username: 'aaaa', Length: '4', Partition: 'Just above minimum', Technique: 'Boundary value', Expected: 'Accepted' },
+        { Username: 'aaaaa', Length: '5', Partition: 'Maximum', Technique: 'Boundary value', Expected: 'Accepted' },
+        { Username: 'aaaaaa', Length: '6', Partition: 'Above maximum', Technique: 'Boundary value', Expected: 'Rejected' },
+        { Username: 'Sample username', Length: '15', Partition: 'Value provided', Technique: 'Equivalence class', Expected: 'Accepted' },
+        { Username: '', Length: '0', Partition: 'Empty', Technique: 'Boundary value', Expected: 'Rejected' },
+        { Username: '   ', Length: '3', Partition: 'Whitespace only', Technique: 'Equivalence class', Expected: 'Rejected' }
+      ])
+    })
+
+    it('should describe long length samples instead of writing them out', () => {
+      const { testCases } = generateBoundaryTestCases({
+        acceptanceCriteria: [criterion('ac-1', 'Bio must be at most 20000000 characters')],
+        testCases: []
+      })
+
+      if (testCases[0].format !== 'table') throw new Error('Expected a table test case')
+      expect(testCases[0].testCase.testData.map(row => [row.Bio, row.Length])).toEqual([
+        ['"a" × 10000000', '10000000'],
+        ['"a" × 19999999', '19999999'],
+        ['"a" × 20000000', '20000000'],
+        ['"a" × 20000001', '20000001']
+      ])
+    })
+
+    it('should generate date and enumeration partitions', () => {
+      const { testCases } = generateBoundaryTestCases({
+        acceptanceCriteria: [
+          criterion('ac-1', 'The delivery date must be in the future'),
+          criterion('ac-2', 'Role must be either Admin or Viewer')
+        ],
+        testCases: []
+      })
+
+      const rows = testCases.map(testCase => testCase.format === 'table' ? testCase.testCase.testData : [])
+      expect(rows[0].map(row => [row['Delivery date'], row.Expected])).toEqual([['today', 'Rejected'], ['tomorrow', 'Accepted'], ['today + 2 days', 'Accepted']])
+      expect(rows[1].map(row => [row.Role, row.Expected])).toEqual([['Admin', 'Accepted'], ['Viewer', 'Accepted'], ['Admin-invalid', 'Rejected']])
+    })
+
+    it('should return no test cases without constrained inputs', () => {
+      expect(generateBoundaryTestCases({ acceptanceCriteria: [criterion('ac-1', 'The order confirmation email is sent')], testCases: [] }))
+        .toEqual({ constraints: [], testCases: [] })
+    })
+  })
+})
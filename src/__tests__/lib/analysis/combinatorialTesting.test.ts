@@ -0,0 +1,173 @@
+import {
+  CombinationInputError,
+  extractCombinationParameters,
+  generateCombinations,
+  generateCombinatorialTestCase,
+  type CombinationParameter
+} from '@/lib/analysis/combinatorialTesting'
+import type { AcceptanceCriterion } from '@/lib/schemas/QACanvasDocument'
+import { describe, it, expect } from 'vitest'
+
+describe('Combinatorial Testing', () => {
+  const parameters: CombinationParameter[] = [
+    { name: 'Role', values: ['Admin', 'Editor', 'Viewer'] },
+    { name: 'Browser', values: ['Chrome', 'Firefox', 'Safari'] },
+    { name: 'Locale', values: ['en', 'de', 'fr'] },
+    { name: 'Dark mode', values: ['on', 'off'] }
+  ]
+
+  // Every t-way value combination that appears in at least one row
+  const coveredTuples = (rows: Array<Record<string, string>>, names: string[][]) => new Set(
+    names.flatMap(set => rows.map(row => set.map(name => `${name}=${row[name]}`).join('&')))
+  )
+
+  describe('generateCombinations', () => {
+    it('should cover every pair in far fewer rows than exhaustive testing', () => {
+      const { rows, coverage } = generateCombinations(parameters)
+
+      const pairs = [['Role', 'Browser'], ['Role', 'Locale'], ['Role', 'Dark mode'], ['Browser', 'Locale'], ['Browser', 'Dark mode'], ['Locale', 'Dark mode']]
+      expect(coveredTuples(rows, pairs).size).toBe(9 + 9 + 6 + 9 + 6 + 6)
+      expect(rows.length).toBeGreaterThanOrEqual(9)
+      expect(rows.length).toBeLessThanOrEqual(12)
+      expect(coverage).toMatchObject({
+        strength: 2,
+        parameters: 4,
+        rows: rows.length,
+        exhaustiveCombinations: 54,
+        totalTuples: 45,
+        coveredTuples: 45,
+        excludedTuples: 0,
+        coveragePercent: 100
+      })
+      expect(coverage.reductionPercent).toBeGreaterThan(75)
+    })
+
+    it('should cover every triple with strength 3', () => {
+      const { rows, coverage } = generateCombinations(parameters.slice(0, 3), { strength: 3 })
+
+      expect(rows).toHaveLength(27)
+      expect(coverage).toMatchObject({ totalTuples: 27, coveredTuples: 27, reductionPercent: 0 })
+    })
+
+    it('should respect exclusions and conditional constraints', () => {
+      const { rows, coverage } = generateCombinations(parameters, {
+        constraints: [
+          { when: { Browser: 'Safari', Locale: 'fr' } },
+          { when: { Role: 'Viewer' }, then: { 'Dark mode': 'off' } }
+        ]
+      })
+
+      expect(rows.some(row => row.Browser === 'Safari' && row.Locale === 'fr')).toBe(false)
+      expect(rows.filter(row => row.Role === 'Viewer').every(row => row['Dark mode'] === 'off')).toBe(true)
+      expect(coverage.excludedTuples).toBe(2)
+      expect(coverage.coveredTuples).toBe(coverage.totalTuples)
+      expect(coverage.coveragePercent).toBe(100)
+    })
+
+    it('should exclude combinations that no allowed row can contain', () => {
+      const { rows, coverage } = generateCombinations([
+        { name: 'OS', values: ['Windows', 'macOS'] },
+        { name: 'Browser', values: ['Edge', 'Safari'] },
+        { name: 'Theme', values: ['light', 'dark'] }
+      ], {
+        constraints: [
+          { when: { OS: 'Windows' }, then: { Browser: 'Edge' } },
+          { when: { Browser: 'Edge' }, then: { Theme: 'light' } },
+          { when: { OS: 'Windows', Theme: 'light' } }
+        ]
+      })
+
+      expect(rows.every(row => row.OS === 'macOS')).toBe(true)
+      expect(coverage.coveredTuples).toBe(coverage.totalTuples)
+      expect(coverage.excludedTuples).toBeGreaterThan(0)
+    })
+
+    it('should try other values when the greedy choice cannot be completed', () => {
+      const { rows, coverage } = generateCombinations([
+        { name: 'Role', values: ['Admin', 'Viewer'] },
+        { name: 'Browser', values: ['Chrome', 'Firefox'] },
+        { name: 'Plan', values: ['Legacy', 'Pro'] },
+        { name: 'Region', values: ['EU', 'US'] }
+      ], {
+        // The legacy plan is available in no region, but it is the first candidate for every row
+        constraints: [{ when: { Plan: 'Legacy', Region: 'EU' } }, { when: { Plan: 'Legacy', Region: 'US' } }]
+      })
+
+      expect(rows.every(row => row.Plan === 'Pro')).toBe(true)
+      expect(new Set(rows.map(row => `${row.Role}/${row.Browser}`)).size).toBe(4)
+      expect(coverage.excludedTuples).toBe(6)
+      expect(coverage.coveredTuples).toBe(coverage.totalTuples)
+    })
+
+    it('should reject unknown names and invalid strengths', () => {
+      expect(() => generateCombinations(parameters, { constraints: [{ when: { Region: 'EU' } }] })).toThrow(CombinationInputError)
+      expect(() => generateCombinations(parameters, { strength: 5 })).toThrow(CombinationInputError)
+
+      const error = (() => {
+        try {
+          generateCombinations([parameters[0]], { constraints: [{ when: { Role: 'Owner' } }] })
+        } catch (caught) {
+          return caught as CombinationInputError
+        }
+      })()
+      expect(error?.issues).toEqual([
+        'At least two parameters are required',
+        'Constraint 0 refers to unknown value "Owner" of "Role"'
+      ])
+    })
+
+    it('should refuse inputs with too many combinations before enumerating them', () => {
+      const many = Array.from({ length: 100 }, (_, index) => ({ name: `P${index}`, values: ['on'] }))
+
+      expect(() => generateCombinations(many, { strength: 6 })).toThrow('Too many combinations to cover')
+      expect(() => generateCombinations(many.slice(0, 20), { strength: 2 })).not.toThrow()
+    })
+  })
+
+  describe('extractCombinationParameters', () => {
+    it('should find value lists and feature flags in the criteria and ticket', () => {
+      const criteria: AcceptanceCriterion[] = [{
+        id: 'ac-1',
+        title: 'Roles',
+        description: 'Role must be one of Admin, Editor or Viewer',
+        priority: 'must',
+        category: 'functional',
+        testable: true
+      }]
+
+      const extracted = extractCombinationParameters(criteria, {
+        summary: 'Checkout redesign',
+        description: 'Supported browsers: Chrome, Firefox, Safari\n- Locales: en-US / de-DE\nSee https://example.com/spec\nBehind feature flag `new-checkout`.',
+        customFields: {}
+      })
+
+      expect(extracted).toEqual([
+        { name: 'Role', values: ['Admin', 'Editor', 'Viewer'], criteriaIds: ['ac-1'] },
+        { name: 'Browsers', values: ['Chrome', 'Firefox', 'Safari'], criteriaIds: [] },
+        { name: 'Locales', values: ['en-US', 'de-DE'], criteriaIds: [] },
+        { name: 'new-checkout', values: ['on', 'off'], criteriaIds: [] }
+      ])
+    })
+  })
+
+  describe('generateCombinatorialTestCase', () => {
+    it('should build a table test case with a case column and the next free id', () => {
+      const { testCase, coverage } = generateCombinatorialTestCase({
+        parameters: parameters.slice(0, 2),
+        constraints: [{ when: { Role: 'Viewer', Browser: 'Safari' } }],
+        document: {
+          acceptanceCriteria: [],
+          testCases: [{ format: 'table', id: 'tc-combo-1', category: 'functional', priority: 'low', testCase: { title: 'Existing', description: '', testData: [], expectedOutcome: '', notes: '' } }]
+        }
+      })
+
+      expect(testCase).toMatchObject({ format: 'table', id: 'tc-combo-2', category: 'functional', priority: 'medium' })
+      if (testCase.format !== 'table') throw new Error('Expected a table test case')
+      expect(testCase.testCase.title).toBe('Role × Browser: pairwise combinations')
+      expect(testCase.testCase.description).toBe('Covers every 2-way combination of Role, Browser in 8 rows instead of 9 exhaustive combinations')
+      expect(testCase.testCase.testData[0]).toEqual({ Case: '1', Role: 'Admin', Browser: 'Chrome' })
+      expect(testCase.testCase.notes).toBe('Constraints: not Role = Viewer and Browser = Safari')
+      expect(coverage.rows).toBe(8)
+    })
+  })
+})
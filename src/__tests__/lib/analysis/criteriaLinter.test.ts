@@ -0,0 +1,83 @@
+import { lintAcceptanceCriteria, lintCriterion } from '@/lib/analysis/criteriaLinter'
+import type { AcceptanceCriterion } from '@/lib/schemas/QACanvasDocument'
+import { describe, it, expect } from 'vitest'
+
+describe('Criteria Linter', () => {
+  const criterion = (description: string, changes: Partial<AcceptanceCriterion> = {}): AcceptanceCriterion => ({
+    id: 'ac-1',
+    title: 'Criterion',
+    description,
+    priority: 'must',
+    category: 'functional',
+    testable: true,
+    ...changes
+  })
+
+  describe('lintCriterion', () => {
+    it('should give a precise criterion a perfect score', () => {
+      const result = lintCriterion(criterion('The system sends a reset email within 60 seconds of the request'))
+
+      expect(result).toEqual({ criterionId: 'ac-1', title: 'Criterion', score: 100, findings: [], suggestedRewrite: undefined })
+    })
+
+    it('should flag untestable and vague terms and replace them in the rewrite', () => {
+      const result = lintCriterion(criterion('The checkout shows an intuitive summary and loads fast'))
+
+      expect(result.findings.map(finding => [finding.rule, finding.severity, finding.excerpt])).toEqual([
+        ['untestable_term', 'high', 'intuitive'],
+        ['vague_term', 'medium', 'fast']
+      ])
+      expect(result.score).toBe(55)
+      expect(result.suggestedRewrite).toBe('The checkout shows an <observable result> summary and loads within <N> seconds')
+    })
+
+    it('should match vague terms as whole words only', () => {
+      expect(lintCriterion(criterion('The system shows something for the company')).findings).toEqual([])
+      expect(lintCriterion(criterion('The user can try at most 5 times')).findings).toEqual([])
+    })
+
+    it('should require a measurable value for performance and limit criteria', () => {
+      expect(lintCriterion(criterion('The search responds quickly under load', { category: 'performance' })).findings)
+        .toMatchObject([{ rule: 'missing_threshold', severity: 'medium' }])
+      expect(lintCriterion(criterion('The upload size is limited')).findings.map(finding => finding.rule))
+        .toEqual(['missing_threshold', 'passive_without_actor'])
+      expect(lintCriterion(criterion('Response time stays under 200 ms', { category: 'performance' })).findings).toEqual([])
+    })
+
+    it('should suggest splitting compound criteria', () => {
+      const result = lintCriterion(criterion('The API returns 201 and the order appears in the admin list; an email is sent by the mailer'))
+
+      expect(result.findings).toMatchObject([{ rule: 'compound', severity: 'low' }])
+      expect(result.suggestedRewrite).toBe('- The API returns 201\n- The order appears in the admin list\n- An email is sent by the mailer')
+    })
+
+    it('should flag "and/or" but not lists of objects', () => {
+      expect(lintCriterion(criterion('The user can pay by card and/or voucher')).findings).toMatchObject([{ rule: 'compound', severity: 'medium', excerpt: 'and/or' }])
+      expect(lintCriterion(criterion('The user can search by name or email')).findings).toEqual([])
+    })
+
+    it('should flag passive voice without an actor', () => {
+      expect(lintCriterion(criterion('An error message must be displayed')).findings)
+        .toMatchObject([{ rule: 'passive_without_actor', severity: 'low', excerpt: 'be displayed' }])
+      expect(lintCriterion(criterion('The order is approved by the store manager')).findings).toEqual([])
+    })
+  })
+
+  describe('lintAcceptanceCriteria', () => {
+    it('should summarize scores and findings per severity', () => {
+      const report = lintAcceptanceCriteria([
+        criterion('The system sends a reset email within 60 seconds'),
+        criterion('The form is user-friendly', { id: 'ac-2' })
+      ])
+
+      expect(report.criteria).toHaveLength(2)
+      expect(report.summary).toEqual({
+        totalCriteria: 2,
+        averageScore: 85,
+        criteriaWithFindings: ['ac-2'],
+        findings: { high: 1, medium: 0, low: 0 }
+      })
+      expect(lintAcceptanceCriteria([]).summary.averageScore).toBe(100)
+    })
+  })
+})
@@ -0,0 +1,209 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildEpicTestPlan,
+  deduplicateScenarios,
+  detectIntegrationRisks,
+  findDuplicateTestCases,
+  findSharedTestData,
+  findTicketDependencies,
+  suggestExecutionOrder,
+  type EpicTicket
+} from '@/lib/analysis/epicTestPlan'
+import { createMinimalQACanvasDocument, type AcceptanceCriterion, type TestCase } from '@/lib/schemas/QACanvasDocument'
+import { defaultQAProfile } from '@/lib/schemas/QAProfile'
+import type { JiraTicket } from '@/lib/schemas/JiraTicket'
+
+describe('Epic Test Plan', () => {
+  const criterion = (id: string, title: string, category: AcceptanceCriterion['category'] = 'functional'): AcceptanceCriterion => ({
+    id,
+    title,
+    description: title,
+    priority: 'must',
+    category,
+    testable: true
+  })
+
+  const testCase = (id: string, title: string, coversCriteria: string[] = []): TestCase => ({
+    format: 'steps',
+    id,
+    category: 'functional',
+    priority: 'high',
+    coversCriteria,
+    testCase: {
+      title,
+      objective: title,
+      preconditions: [],
+      steps: [{ stepNumber: 1, action: title, expectedResult: 'Works' }],
+      postconditions: []
+    }
+  })
+
+  const buildTicket = (
+    issueKey: string,
+    overrides: Partial<JiraTicket> = {},
+    criteria: AcceptanceCriterion[] = [],
+    testCases: TestCase[] = []
+  ): EpicTicket => ({
+    ticketJson: {
+      issueKey,
+      summary: `Summary of ${issueKey}`,
+      description: '',
+      status: 'To Do',
+      priority: 'Priority: Medium',
+      issueType: 'Story',
+      reporter: 'Reporter',
+      comments: [],
+      attachments: [],
+      components: [],
+      customFields: {},
+      scrapedAt: '2025-01-01T00:00:00.000Z',
+      ...overrides
+    },
+    document: {
+      ...createMinimalQACanvasDocument(issueKey, defaultQAProfile),
+      acceptanceCriteria: criteria,
+      testCases
+    }
+  })
+
+  const cart = buildTicket('SHOP-2', {
+    summary: 'Add items to the cart',
+    components: ['Checkout'],
+    priority: 'Priority: High',
+    customFields: { Environment: 'Staging' }
+  }, [criterion('ac-1', 'Customers can add items to the cart', 'api')], [
+    testCase('tc-1', 'Login with valid credentials'),
+    testCase('tc-2', 'Add an item to the cart', ['ac-1'])
+  ])
+  const payment = buildTicket('SHOP-3', {
+    summary: 'Pay for the cart',
+    description: 'Depends on SHOP-2 for the cart contents. See SHOP-4 for receipts.',
+    components: ['Checkout'],
+    customFields: { Environment: 'Staging' }
+  }, [criterion('ac-1', 'Customers pay with a credit card', 'api')], [
+    testCase('tc-1', 'Login with valid credentials'),
+    testCase('tc-2', 'Pay with a credit card', ['ac-1'])
+  ])
+  const receipt = buildTicket('SHOP-4', {
+    summary: 'Email the receipt',
+    comments: [{ author: 'Dev', body: 'Blocked by SHOP-3', date: '2025-01-01', images: [], links: [] }]
+  }, [criterion('ac-1', 'Customers receive the receipt by email')], [
+    testCase('tc-1', 'Receipt email is sent', ['ac-1'])
+  ])
+  const epic = buildTicket('SHOP-1', { summary: 'Checkout', issueType: 'Epic' })
+
+  const scenario = (title: string, spansTickets: string[], priority: 'high' | 'medium' | 'low' = 'high') => ({
+    format: 'steps' as const,
+    id: 'tc-1',
+    category: 'functional',
+    priority,
+    spansTickets,
+    coversCriteria: spansTickets.map(key => `${key}:ac-1`),
+    testCase: {
+      title,
+      objective: title,
+      preconditions: [],
+      steps: [{ stepNumber: 1, action: title, expectedResult: 'Works' }],
+      postconditions: []
+    }
+  })
+
+  it('should detect dependencies and references between tickets', () => {
+    const dependencies = findTicketDependencies([epic, cart, payment, receipt])
+
+    expect(dependencies.get('SHOP-3')).toEqual({ dependsOn: ['SHOP-2'], references: ['SHOP-4'] })
+    expect(dependencies.get('SHOP-4')).toEqual({ dependsOn: ['SHOP-3'], references: [] })
+    expect(dependencies.get('SHOP-2')).toEqual({ dependsOn: [], references: [] })
+  })
+
+  it('should keep scenarios spanning several known tickets and merge similar ones', () => {
+    const scenarios = deduplicateScenarios([
+      scenario('Customer buys an item and receives the receipt', ['SHOP-2', 'SHOP-3', 'SHOP-4']),
+      scenario('Customer buys item and receives receipt', ['SHOP-3', 'SHOP-9']),
+      scenario('Receipt resend', ['SHOP-4', 'OTHER-1']),
+      scenario('Cart survives a failed payment', ['SHOP-2', 'SHOP-3'], 'medium')
+    ], ['SHOP-1', 'SHOP-2', 'SHOP-3', 'SHOP-4'])
+
+    expect(scenarios.map(item => [item.id, item.spansTickets])).toEqual([
+      ['e2e-1', ['SHOP-2', 'SHOP-3', 'SHOP-4']],
+      ['e2e-2', ['SHOP-2', 'SHOP-3']]
+    ])
+  })
+
+  it('should group duplicate test cases across tickets', () => {
+    const duplicates = findDuplicateTestCases([cart, payment, receipt])
+
+    expect(duplicates).toHaveLength(1)
+    expect(duplicates[0].testCases).toEqual([
+      { ticketKey: 'SHOP-2', testCaseId: 'tc-1', title: 'Login with valid credentials' },
+      { ticketKey: 'SHOP-3', testCaseId: 'tc-1', title: 'Login with valid credentials' }
+    ])
+    expect(duplicates[0].recommendation).toContain('SHOP-2, SHOP-3')
+  })
+
+  it('should report shared components, dependencies and layers as integration risks', () => {
+    const tickets = [cart, payment, receipt]
+    const risks = detectIntegrationRisks(tickets, findTicketDependencies(tickets), [
+      { tickets: ['SHOP-2', 'SHOP-3'], risk: 'SHOP-2, SHOP-3 all change the Checkout component', severity: 'low', mitigation: 'Repeat' },
+      { tickets: ['SHOP-3', 'SHOP-4'], risk: 'Receipt totals differ from charged amount', severity: 'high', mitigation: 'Compare totals' }
+    ])
+
+    expect(risks.map(risk => [risk.id, risk.risk, risk.severity, risk.source])).toEqual([
+      ['risk-1', 'SHOP-2, SHOP-3 all change the Checkout component', 'medium', 'analysis'],
+      ['risk-2', 'SHOP-3 depends on SHOP-2', 'high', 'analysis'],
+      ['risk-3', 'SHOP-3 refers to SHOP-4', 'medium', 'analysis'],
+      ['risk-4', 'SHOP-4 depends on SHOP-3', 'high', 'analysis'],
+      ['risk-5', 'SHOP-2, SHOP-3 all have api acceptance criteria', 'medium', 'analysis'],
+      ['risk-6', 'Receipt totals differ from charged amount', 'high', 'ai']
+    ])
+  })
+
+  it('should find test data needed by several tickets', () => {
+    const needs = findSharedTestData([cart, payment, receipt])
+
+    expect(needs.find(need => need.need === 'User accounts for every role under test')?.tickets).toEqual(['SHOP-2', 'SHOP-3', 'SHOP-4'])
+    expect(needs.find(need => need.need === 'Data matching Environment: Staging')?.tickets).toEqual(['SHOP-2', 'SHOP-3'])
+    expect(needs.some(need => need.need === 'Payment methods and test cards')).toBe(false)
+  })
+
+  it('should order tickets by dependency, then scenarios, then the epic', () => {
+    const tickets = [epic, receipt, payment, cart]
+    const scenarios = deduplicateScenarios([
+      scenario('Cart survives a failed payment', ['SHOP-2', 'SHOP-3'], 'low'),
+      scenario('Customer buys an item and receives the receipt', ['SHOP-2', 'SHOP-3', 'SHOP-4'])
+    ], tickets.map(ticket => ticket.ticketJson.issueKey))
+
+    const order = suggestExecutionOrder(tickets, findTicketDependencies(tickets), scenarios, 'SHOP-1')
+
+    expect(order.map(step => step.id)).toEqual(['SHOP-2', 'SHOP-3', 'SHOP-4', 'e2e-2', 'e2e-1', 'SHOP-1'])
+    expect(order[0]).toMatchObject({ order: 1, reason: 'SHOP-3 depend on it' })
+    expect(order[1]).toMatchObject({ dependsOn: ['SHOP-2'], reason: 'Runs after SHOP-2' })
+  })
+
+  it('should still order tickets with circular dependencies', () => {
+    const first = buildTicket('LOOP-1', { description: 'Blocked by LOOP-2' })
+    const second = buildTicket('LOOP-2', { description: 'Depends on LOOP-1' })
+
+    const order = suggestExecutionOrder([first, second], findTicketDependencies([first, second]), [])
+
+    expect(order.map(step => step.id)).toEqual(['LOOP-1', 'LOOP-2'])
+    expect(order[0].reason).toBe('Circular dependency with LOOP-2')
+  })
+
+  it('should assemble the plan with per-ticket and release coverage', () => {
+    const plan = buildEpicTestPlan([epic, cart, payment, receipt], {
+      scenarios: [scenario('Customer buys an item and receives the receipt', ['SHOP-2', 'SHOP-3', 'SHOP-4'])],
+      integrationRisks: []
+    })
+
+    expect(plan.epicKey).toBe('SHOP-1')
+    expect(plan.tickets.map(ticket => ticket.testCaseCount)).toEqual([0, 2, 2, 1])
+    expect(plan.scenarios).toHaveLength(1)
+    expect(plan.executionOrder[plan.executionOrder.length - 1].id).toBe('SHOP-1')
+    expect(plan.coverage.tickets.map(ticket => ticket.ticketKey)).toEqual(['SHOP-1', 'SHOP-2', 'SHOP-3', 'SHOP-4'])
+    expect(plan.coverage.coveredAreas).toContain('functional_testing')
+    expect(plan.coverage.coveragePercentage).toBeGreaterThanOrEqual(
+      Math.max(...plan.coverage.tickets.map(ticket => ticket.coveragePercentage))
+    )
+  })
+})
@@ -0,0 +1,133 @@
+import { diffTickets, planReanalysis } from '@/lib/analysis/ticketDiff'
+import type { JiraTicket } from '@/lib/schemas/JiraTicket'
+import { describe, it, expect } from 'vitest'
+
+describe('Ticket Diff', () => {
+  const baseTicket: JiraTicket = {
+    issueKey: 'DIFF-1',
+    summary: 'Password reset',
+    description: 'Users can reset their password by email.',
+    status: 'In Progress',
+    priority: 'Priority: High',
+    issueType: 'Story',
+    assignee: 'Dev',
+    reporter: 'Reporter',
+    comments: [
+      { author: 'PO', date: '2025-01-01', created: '2025-01-01T10:00:00.000Z', body: 'Links expire after 24 hours', images: [], links: [] }
+    ],
+    attachments: [
+      { name: 'spec.pdf', data: 'JVBERi0=', mime: 'application/pdf', size: 1200, url: 'blob:one', tooBig: false }
+    ],
+    components: ['Auth'],
+    customFields: { 'Story Points': '3' },
+    processingComplete: true,
+    scrapedAt: '2025-01-01T12:00:00.000Z'
+  }
+
+  const rescrape = (changes: Partial<JiraTicket>): JiraTicket => ({
+    ...baseTicket,
+    scrapedAt: '2025-01-02T12:00:00.000Z',
+    ...changes
+  })
+
+  describe('diffTickets', () => {
+    it('should report no changes for a rescrape with reflowed text and new blob URLs', () => {
+      const diff = diffTickets(baseTicket, rescrape({
+        description: 'Users can reset their\n  password by email. ',
+        attachments: [{ ...baseTicket.attachments[0], url: 'blob:two' }]
+      }))
+
+      expect(diff.hasChanges).toBe(false)
+      expect(diff.changes).toEqual([])
+      expect(diff.previousScrapedAt).toBe(baseTicket.scrapedAt)
+      expect(diff.currentScrapedAt).toBe('2025-01-02T12:00:00.000Z')
+    })
+
+    it('should detect field, comment and attachment changes', () => {
+      const diff = diffTickets(baseTicket, rescrape({
+        description: 'Users can reset their password by email or SMS.',
+        status: 'Done',
+        priority: 'Priority: Low',
+        comments: [
+          { ...baseTicket.comments[0], body: 'Links expire after 1 hour' },
+          { author: 'QA', date: '2025-01-02', body: 'What about locked accounts?', images: [], links: [] }
+        ],
+        attachments: [{ name: 'flow.png', data: 'iVBORw0=', mime: 'image/png', size: 800, url: 'blob:three', tooBig: false }],
+        components: ['Auth', 'Notifications']
+      }))
+
+      expect(diff.changes.map(change => change.type)).toEqual([
+        'description_edited',
+        'status_changed',
+        'priority_changed',
+        'components_changed',
+        'comment_edited',
+        'comment_added',
+        'attachment_added',
+        'attachment_removed'
+      ])
+      expect(diff.changes.find(change => change.type === 'status_changed')?.description)
+        .toBe('Status changed from "In Progress" to "Done"')
+      expect(diff.changes.find(change => change.type === 'components_changed')?.description)
+        .toBe('Components changed (added Notifications)')
+    })
+
+    it('should detect removed comments and changed custom fields', () => {
+      const diff = diffTickets(baseTicket, rescrape({ comments: [], customFields: { 'Story Points': '5' } }))
+
+      expect(diff.changes).toEqual([
+        expect.objectContaining({ type: 'custom_field_changed', field: 'customFields.Story Points', before: '3', after: '5' }),
+        expect.objectContaining({ type: 'comment_removed', description: 'Comment by PO was removed' })
+      ])
+    })
+  })
+
+  describe('planReanalysis', () => {
+    it('should keep every section when the ticket did not change', () => {
+      const plan = planReanalysis(diffTickets(baseTicket, rescrape({})))
+
+      expect(plan.regenerate).toEqual([])
+      expect(plan.sections.every(impact => impact.action === 'keep')).toBe(true)
+    })
+
+    it('should regenerate criteria and the test cases derived from them for a new comment', () => {
+      const plan = planReanalysis(diffTickets(baseTicket, rescrape({
+        comments: [...baseTicket.comments, { author: 'QA', date: '2025-01-02', body: 'Locked accounts too', images: [], links: [] }]
+      })))
+
+      expect(plan.regenerate).toEqual(['acceptanceCriteria', 'testCases'])
+      const testCases = plan.sections.find(impact => impact.section === 'testCases')!
+      expect(testCases.reasons[0]).toMatch(/^Depends on acceptanceCriteria:/)
+      expect(testCases.triggeredBy).toEqual(['comment_added'])
+      expect(plan.sections.find(impact => impact.section === 'ticketSummary')?.action).toBe('keep')
+    })
+
+    it('should only regenerate test cases for a priority change', () => {
+      const plan = planReanalysis(diffTickets(baseTicket, rescrape({ priority: 'Priority: Low' })))
+
+      expect(plan.regenerate).toEqual(['testCases'])
+    })
+
+    it('should report status changes and non-image attachments as ignored', () => {
+      const plan = planReanalysis(diffTickets(baseTicket, rescrape({ status: 'Done', attachments: [] })), { includeImages: true })
+
+      expect(plan.regenerate).toEqual([])
+      expect(plan.ignoredChanges.map(change => change.type)).toEqual(['status_changed', 'attachment_removed'])
+    })
+
+    it('should only regenerate for new images when the profile includes images', () => {
+      const diff = diffTickets(baseTicket, rescrape({
+        attachments: [...baseTicket.attachments, { name: 'flow.png', data: 'iVBORw0=', mime: 'image/png', size: 800, url: 'blob:three', tooBig: false }]
+      }))
+
+      expect(planReanalysis(diff, { includeImages: false }).regenerate).toEqual([])
+      expect(planReanalysis(diff, { includeImages: true }).regenerate).toEqual(['testCases'])
+    })
+
+    it('should regenerate configuration warnings when the assumptions changed', () => {
+      const plan = planReanalysis(diffTickets(baseTicket, rescrape({})), { assumptionsChanged: true })
+
+      expect(plan.regenerate).toEqual(['configurationWarnings'])
+    })
+  })
+})
@@ -0,0 +1,103 @@
+/**
+ * Tests for the traceability matrix builder and exporters
+ */
+
+import { describe, it, expect } from 'vitest'
+import { buildTraceabilityMatrix, linkTestCasesToCriteria } from '../../../lib/analysis/traceabilityMatrix'
+import { exportTraceabilityCsv, exportTraceabilityMarkdown } from '../../../lib/export/traceabilityExporter'
+import { findCriteriaForTestCase } from '../../../lib/ai/suggestionAlgorithms'
+import { createMinimalQACanvasDocument, type QACanvasDocument, type TestCase } from '../../../lib/schemas/QACanvasDocument'
+import { defaultQAProfile } from '../../../lib/schemas/QAProfile'
+
+const gherkinTest = (id: string, scenario: string, coversCriteria?: string[]): TestCase => ({
+  format: 'gherkin',
+  id,
+  category: 'functional',
+  priority: 'high',
+  coversCriteria,
+  testCase: { scenario, given: ['a registered user'], when: ['they act'], then: ['it works'], tags: [] }
+})
+
+function createDocument(): QACanvasDocument {
+  const document = createMinimalQACanvasDocument('AUTH-7', defaultQAProfile)
+  document.acceptanceCriteria = [
+    { id: 'ac-1', title: 'Login with password', description: 'Valid credentials log in', priority: 'must', category: 'functional', testable: true },
+    { id: 'ac-2', title: 'Account lockout', description: 'Lock after 5 attempts', priority: 'must', category: 'security', testable: true },
+    { id: 'ac-3', title: 'Friendly tone', description: 'Messages feel friendly', priority: 'could', category: 'ux', testable: false }
+  ]
+  document.testCases = [
+    gherkinTest('tc-1', 'Successful sign in', ['ac-1']),
+    gherkinTest('tc-2', 'Password login | remember me'),
+    gherkinTest('tc-3', 'Audit trail entry', ['ac-9'])
+  ]
+  return document
+}
+
+describe('traceabilityMatrix', () => {
+  it('should prefer explicit coversCriteria links over keyword matching', () => {
+    const criteria = createDocument().acceptanceCriteria
+
+    // "Successful sign in" shares no keywords with ac-1, but the explicit link wins
+    expect(findCriteriaForTestCase(gherkinTest('tc', 'Successful sign in', ['ac-1']), criteria).map(c => c.id)).toEqual(['ac-1'])
+    // "Password login" mentions ac-1 keywords, but an explicit link to ac-2 replaces the heuristic
+    expect(findCriteriaForTestCase(gherkinTest('tc', 'Password login', ['ac-2']), criteria).map(c => c.id)).toEqual(['ac-2'])
+    expect(findCriteriaForTestCase(gherkinTest('tc', 'Password login'), criteria).map(c => c.id)).toEqual(['ac-1'])
+  })
+
+  it('should build criterion rows with coverage status', () => {
+    const matrix = buildTraceabilityMatrix(createDocument())
+
+    expect(matrix.criteria.map(row => [row.criterionId, row.status, row.testCaseIds])).toEqual([
+      ['ac-1', 'covered', ['tc-1', 'tc-2']],
+      ['ac-2', 'uncovered', []],
+      ['ac-3', 'not_testable', []]
+    ])
+    expect(matrix.testCases.map(column => [column.testCaseId, column.linkSource])).toEqual([
+      ['tc-1', 'explicit'],
+      ['tc-2', 'inferred'],
+      ['tc-3', 'explicit']
+    ])
+    expect(matrix.testCases[2].unknownCriteriaIds).toEqual(['ac-9'])
+  })
+
+  it('should summarize coverage and uncovered must criteria', () => {
+    const { summary } = buildTraceabilityMatrix(createDocument())
+
+    expect(summary).toEqual({
+      totalCriteria: 3,
+      coveredCriteria: 1,
+      uncoveredCriteria: 1,
+      notTestableCriteria: 1,
+      coveragePercent: 50,
+      uncoveredMustCriteria: ['ac-2'],
+      testCasesWithoutCriteria: ['tc-3']
+    })
+  })
+
+  it('should link unlinked test cases and drop unknown criteria ids', () => {
+    const document = createDocument()
+    const linked = linkTestCasesToCriteria(document.testCases, document.acceptanceCriteria)
+
+    expect(linked.map(testCase => testCase.coversCriteria)).toEqual([['ac-1'], ['ac-1'], []])
+    expect(document.testCases[1].coversCriteria).toBeUndefined()
+  })
+
+  it('should export CSV with one mark column per test case', () => {
+    const lines = exportTraceabilityCsv(createDocument()).trim().split('\r\n')
+
+    expect(lines[0]).toBe('Criterion ID,Criterion,Priority,Category,Testable,Status,Test Cases,tc-1,tc-2,tc-3')
+    expect(lines[1]).toBe('ac-1,Login with password,must,functional,Yes,covered,"tc-1, tc-2",X,X,')
+    expect(lines[2]).toBe('ac-2,Account lockout,must,security,Yes,uncovered,,,,')
+  })
+
+  it('should export a Markdown report highlighting gaps', () => {
+    const markdown = exportTraceabilityMarkdown(createDocument())
+
+    expect(markdown).toContain('# Traceability Matrix: AUTH-7')
+    expect(markdown).toContain('- **Coverage:** 1/2 testable criteria covered (50%)')
+    expect(markdown).toContain('- **Uncovered must criteria:** ac-2')
+    expect(markdown).toContain('| ac-2: Account lockout | must | **uncovered** |  |  |  |')
+    expect(markdown).toContain('## Links To Unknown Criteria')
+    expect(markdown).toContain('- **tc-3**: ac-9')
+  })
+})
@@ -0,0 +1,215 @@
+/**
+ * Tests for the content-addressed response cache
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { mkdtemp, readdir, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import {
+  ResponseCache,
+  getCacheDirectives,
+  hashCacheKey,
+  loadCacheTtls,
+  normalizeTicketForCache,
+  stableStringify,
+  summarizeSectionCache
+} from '../../../lib/cache/responseCache'
+import {
+  FileResponseCacheStore,
+  InMemoryResponseCacheStore,
+  SqliteResponseCacheStore,
+  type ResponseCacheStore
+} from '../../../lib/cache/responseCacheStore'
+
+const ticket = {
+  issueKey: 'TEST-1',
+  summary: 'Password reset',
+  description: 'Users reset their password',
+  attachments: [{ name: 'a.png', mime: 'image/png', data: 'abc', size: 3, tooBig: false, url: 'blob:one' }],
+  customFields: {},
+  processingComplete: true,
+  scrapedAt: '2025-01-01T00:00:00.000Z'
+}
+
+const entry = (value: unknown, ttlMs: number) => ({
+  value,
+  createdAt: new Date().toISOString(),
+  expiresAt: new Date(Date.now() + ttlMs).toISOString()
+})
+
+describe('responseCache', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  describe('cache keys', () => {
+    it('should not depend on object key order', () => {
+      expect(stableStringify({ b: 1, a: { d: [1, { f: 2, e: 3 }], c: undefined } }))
+        .toBe('{"a":{"d":[1,{"e":3,"f":2}]},"b":1}')
+      expect(hashCacheKey('section', { a: 1, b: 2 })).toBe(hashCacheKey('section', { b: 2, a: 1 }))
+      expect(hashCacheKey('section', { a: 1 })).not.toBe(hashCacheKey('suggestions', { a: 1 }))
+      expect(hashCacheKey('section', { a: 1 })).toMatch(/^section:[0-9a-f]{64}$/)
+    })
+
+    it('should ignore scrape timestamps and attachment blob URLs', () => {
+      const rescraped = {
+        ...ticket,
+        scrapedAt: '2025-02-01T00:00:00.000Z',
+        processingComplete: false,
+        attachments: [{ ...ticket.attachments[0], url: 'blob:two' }]
+      }
+
+      expect(hashCacheKey('section', normalizeTicketForCache(rescraped))).toBe(hashCacheKey('section', normalizeTicketForCache(ticket)))
+      expect(hashCacheKey('section', normalizeTicketForCache({ ...ticket, description: 'Changed' })))
+        .not.toBe(hashCacheKey('section', normalizeTicketForCache(ticket)))
+    })
+  })
+
+  describe('getCacheDirectives', () => {
+    it('should read Cache-Control and Pragma', () => {
+      expect(getCacheDirectives(new Headers())).toEqual({ bypass: false, store: true })
+      expect(getCacheDirectives(undefined)).toEqual({ bypass: false, store: true })
+      expect(getCacheDirectives(new Headers({ 'cache-control': 'max-age=0, No-Cache' }))).toEqual({ bypass: true, store: true })
+      expect(getCacheDirectives(new Headers({ pragma: 'no-cache' }))).toEqual({ bypass: true, store: true })
+      expect(getCacheDirectives(new Headers({ 'cache-control': 'no-store' }))).toEqual({ bypass: true, store: false })
+    })
+  })
+
+  describe('loadCacheTtls', () => {
+    it('should use valid overrides and keep defaults otherwise', () => {
+      expect(loadCacheTtls({ RESPONSE_CACHE_TTL_SECONDS: '60', RESPONSE_CACHE_SUGGESTIONS_TTL_SECONDS: 'soon' }))
+        .toEqual({ section: 60, suggestions: 3600 })
+    })
+  })
+
+  describe('ResponseCache', () => {
+    it('should serve repeated inputs from the cache', async () => {
+      const cache = new ResponseCache(new InMemoryResponseCacheStore())
+      const compute = vi.fn().mockResolvedValue({ answer: 42 })
+
+      const first = await cache.getOrCompute('section', { ticket }, compute)
+      const second = await cache.getOrCompute('section', { ticket }, compute)
+
+      expect(compute).toHaveBeenCalledTimes(1)
+      expect(first.cache).toMatchObject({ hit: false, bypassed: false })
+      expect(second).toEqual({ value: { answer: 42 }, cache: { ...first.cache, hit: true } })
+    })
+
+    it('should regenerate on bypass and only store when allowed', async () => {
+      const cache = new ResponseCache(new InMemoryResponseCacheStore())
+      const compute = vi.fn()
+        .mockResolvedValueOnce('first')
+        .mockResolvedValueOnce('refreshed')
+        .mockResolvedValueOnce('not stored')
+
+      await cache.getOrCompute('section', 'input', compute)
+      const refreshed = await cache.getOrCompute('section', 'input', compute, { bypass: true })
+      const uncached = await cache.getOrCompute('section', 'input', compute, { bypass: true, store: false })
+
+      expect(refreshed.cache).toMatchObject({ hit: false, bypassed: true })
+      expect(uncached.value).toBe('not stored')
+      expect((await cache.getOrCompute('section', 'input', compute)).value).toBe('refreshed')
+    })
+
+    it('should skip values rejected by shouldCache', async () => {
+      const cache = new ResponseCache(new InMemoryResponseCacheStore())
+      const compute = vi.fn(async (): Promise<string[]> => [])
+
+      await cache.getOrCompute('suggestions', 'input', compute, { shouldCache: value => value.length > 0 })
+      await cache.getOrCompute('suggestions', 'input', compute, { shouldCache: value => value.length > 0 })
+
+      expect(compute).toHaveBeenCalledTimes(2)
+    })
+
+    it('should expire entries after the namespace TTL', async () => {
+      vi.useFakeTimers({ now: new Date('2025-03-20T12:00:00.000Z'), toFake: ['Date'] })
+      const cache = new ResponseCache(new InMemoryResponseCacheStore(), { section: 60, suggestions: 10 })
+      const compute = vi.fn().mockResolvedValue('value')
+
+      const first = await cache.getOrCompute('section', 'input', compute)
+      expect(first.cache?.expiresAt).toBe('2025-03-20T12:01:00.000Z')
+
+      vi.setSystemTime(new Date('2025-03-20T12:00:59.000Z'))
+      expect((await cache.getOrCompute('section', 'input', compute)).cache?.hit).toBe(true)
+
+      vi.setSystemTime(new Date('2025-03-20T12:01:00.000Z'))
+      expect((await cache.getOrCompute('section', 'input', compute)).cache?.hit).toBe(false)
+      expect(compute).toHaveBeenCalledTimes(2)
+    })
+
+    it('should treat storage failures as misses', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const brokenStore: ResponseCacheStore = {
+        get: vi.fn().mockRejectedValue(new Error('disk full')),
+        set: vi.fn().mockRejectedValue(new Error('disk full')),
+        delete: vi.fn()
+      }
+      const cache = new ResponseCache(brokenStore)
+
+      const result = await cache.getOrCompute('section', 'input', async () => 'value')
+
+      expect(result).toMatchObject({ value: 'value', cache: { hit: false } })
+    })
+
+    it('should compute without lookups when disabled', async () => {
+      const cache = new ResponseCache(null)
+
+      expect(cache.enabled).toBe(false)
+      expect(await cache.getOrCompute('section', 'input', async () => 'value')).toEqual({ value: 'value' })
+    })
+  })
+
+  describe('summarizeSectionCache', () => {
+    it('should report a hit only when every section was cached', () => {
+      const hit = { hit: true, bypassed: false, key: 'section:a' }
+      const miss = { hit: false, bypassed: false, key: 'section:b' }
+      const directives = { bypass: false, store: true }
+
+      expect(summarizeSectionCache({ ticketSummary: hit, testCases: miss }, directives))
+        .toEqual({ hit: false, bypassed: false, sections: { ticketSummary: hit, testCases: miss } })
+      expect(summarizeSectionCache({ ticketSummary: hit }, directives)?.hit).toBe(true)
+      expect(summarizeSectionCache({ ticketSummary: undefined }, directives)).toBeUndefined()
+    })
+  })
+
+  describe('stores', () => {
+    it('should evict the least recently used memory entry', async () => {
+      const store = new InMemoryResponseCacheStore(2)
+      await store.set('a', entry('a', 60_000))
+      await store.set('b', entry('b', 60_000))
+      await store.get('a')
+      await store.set('c', entry('c', 60_000))
+
+      expect(await store.get('b')).toBeNull()
+      expect((await store.get('a'))?.value).toBe('a')
+      expect((await store.get('c'))?.value).toBe('c')
+    })
+
+    it('should persist entries as files and drop expired ones', async () => {
+      const baseDir = await mkdtemp(path.join(tmpdir(), 'response-cache-'))
+      try {
+        const store = new FileResponseCacheStore(baseDir)
+        await store.set('section:abc', entry({ ok: true }, 60_000))
+        await store.set('section:old', entry({ ok: false }, -1))
+
+        expect((await new FileResponseCacheStore(baseDir).get('section:abc'))?.value).toEqual({ ok: true })
+        expect(await store.get('section:old')).toBeNull()
+        expect(await readdir(baseDir)).toEqual(['section%3Aabc.json'])
+      } finally {
+        await rm(baseDir, { recursive: true, force: true })
+      }
+    })
+
+    it.skipIf(!process.getBuiltinModule?.('node:sqlite'))('should persist entries in SQLite', async () => {
+      const store = new SqliteResponseCacheStore(':memory:')
+      await store.set('section:abc', entry({ ok: true }, 60_000))
+      await store.set('section:old', entry({ ok: false }, -1))
+
+      expect((await store.get('section:abc'))?.value).toEqual({ ok: true })
+      expect(await store.get('section:old')).toBeNull()
+      await store.close()
+    })
+  })
+})
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest'
+import { documentToAdf, QA_PLAN_COMMENT_MARKER } from '@/lib/export/adfFormatter'
+import { adfToPlainText } from '@/lib/ingestion/adf'
+import type { AdfNode } from '@/lib/schemas/JiraRestIssue'
+import { createMinimalQACanvasDocument, type QACanvasDocument } from '@/lib/schemas/QACanvasDocument'
+import { defaultQAProfile } from '@/lib/schemas/QAProfile'
+
+describe('ADF Formatter', () => {
+  const buildDocument = (): QACanvasDocument => {
+    const document = createMinimalQACanvasDocument('SHOP-12', defaultQAProfile)
+    document.metadata.generatedAt = '2025-01-01T00:00:00.000Z'
+    document.ticketSummary = { problem: '', solution: 'Add a wishlist to the product page.', context: '' }
+    document.acceptanceCriteria = [
+      { id: 'ac-1', title: 'Add to wishlist', description: 'A heart icon adds the product', priority: 'must', category: 'functional', testable: true },
+      { id: 'ac-2', title: 'Delightful', description: '', priority: 'could', category: 'ux', testable: false }
+    ]
+    document.testCases = [
+      {
+        format: 'steps',
+        id: 'tc-1',
+        category: 'functional',
+        priority: 'high',
+        coversCriteria: ['ac-1'],
+        testCase: {
+          title: 'Add a product',
+          objective: '',
+          preconditions: ['User is logged in'],
+          steps: [
+            { stepNumber: 2, action: 'Open the wishlist', expectedResult: 'The product is listed' },
+            { stepNumber: 1, action: 'Click the heart icon', expectedResult: '' }
+          ],
+          postconditions: []
+        }
+      },
+      {
+        format: 'gherkin',
+        id: 'tc-2',
+        category: 'functional',
+        priority: 'medium',
+        coversCriteria: ['ac-1'],
+        testCase: { scenario: 'Heart icon', given: ['a product page'], when: ['the user clicks the heart'], then: ['the heart is filled'], tags: ['smoke'] }
+      },
+      {
+        format: 'table',
+        id: 'tc-3',
+        category: 'negative',
+        priority: 'low',
+        testCase: { title: 'Limits', description: 'Wishlist sizes', testData: [{ Items: '50', Expected: 'Accepted' }], expectedOutcome: 'Only 50 items are stored', notes: '' }
+      }
+    ]
+    return document
+  }
+
+  const findAll = (node: AdfNode, type: string): AdfNode[] => [
+    ...(node.type === type ? [node] : []),
+    ...(node.content ?? []).flatMap(child => findAll(child, type))
+  ]
+
+  it('should render a version 1 document with headings for each section and test case', () => {
+    const adf = documentToAdf(buildDocument())
+
+    expect(adf).toMatchObject({ version: 1, type: 'doc' })
+    expect(findAll(adf, 'heading').map(node => [node.attrs?.level, node.content?.[0].text])).toEqual([
+      [2, 'QA plan: SHOP-12'],
+      [3, 'Summary'],
+      [3, 'Acceptance criteria'],
+      [3, 'Test cases'],
+      [4, 'tc-1: Add a product'],
+      [4, 'tc-2: Heart icon'],
+      [4, 'tc-3: Limits']
+    ])
+  })
+
+  it('should list acceptance criteria as open tasks with priority lozenges', () => {
+    const [taskList] = findAll(documentToAdf(buildDocument()), 'taskList')
+
+    expect(taskList.content).toEqual([
+      {
+        type: 'taskItem',
+        attrs: { localId: 'qa-canvas-ac-1', state: 'TODO' },
+        content: [
+          { type: 'text', text: 'ac-1: Add to wishlist', marks: [{ type: 'strong' }] },
+          { type: 'text', text: ' ' },
+          { type: 'status', attrs: { text: 'MUST', color: 'red' } },
+          { type: 'text', text: ' A heart icon adds the product' }
+        ]
+      },
+      {
+        type: 'taskItem',
+        attrs: { localId: 'qa-canvas-ac-2', state: 'TODO' },
+        content: [
+          { type: 'text', text: 'ac-2: Delightful', marks: [{ type: 'strong' }] },
+          { type: 'text', text: ' ' },
+          { type: 'status', attrs: { text: 'COULD', color: 'blue' } },
+          { type: 'text', text: ' (not testable)', marks: [{ type: 'em' }] }
+        ]
+      }
+    ])
+  })
+
+  it('should render steps and table test cases as tables and gherkin as code blocks', () => {
+    const adf = documentToAdf(buildDocument())
+    const [steps, data] = findAll(adf, 'table')
+
+    expect(steps.content?.map(row => row.content?.map(cell => cell.content?.[0].content?.[0]?.text ?? ''))).toEqual([
+      ['#', 'Action', 'Expected result'],
+      ['1', 'Click the heart icon', ''],
+      ['2', 'Open the wishlist', 'The product is listed']
+    ])
+    expect(steps.content?.[0].content?.[0].type).toBe('tableHeader')
+    // Empty cells hold an empty paragraph; ADF rejects empty text nodes
+    expect(steps.content?.[1].content?.[2].content).toEqual([{ type: 'paragraph' }])
+    expect(data.content).toHaveLength(2)
+
+    expect(findAll(adf, 'codeBlock')).toEqual([{
+      type: 'codeBlock',
+      attrs: { language: 'gherkin' },
+      content: [{ type: 'text', text: '@smoke\nScenario: Heart icon\n  Given a product page\n  When the user clicks the heart\n  Then the heart is filled' }]
+    }])
+  })
+
+  it('should end with the marker that identifies published plans', () => {
+    const text = adfToPlainText(documentToAdf(buildDocument()))
+
+    expect(text).toContain('Covers: ac-1')
+    expect(text.trim().endsWith(`${QA_PLAN_COMMENT_MARKER} · generated 2025-01-01T00:00:00.000Z`)).toBe(true)
+  })
+})
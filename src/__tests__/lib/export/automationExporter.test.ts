@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest'
+import { exportToCypress, exportToPlaywright, getAutomationFileName } from '@/lib/export/automationExporter'
+import { createMinimalQACanvasDocument, type QACanvasDocument } from '@/lib/schemas/QACanvasDocument'
+import { defaultQAProfile } from '@/lib/schemas/QAProfile'
+
+describe('Automation Exporter', () => {
+  const buildDocument = (): QACanvasDocument => {
+    const document = createMinimalQACanvasDocument('SHOP-7', defaultQAProfile)
+    document.ticketSummary = { problem: '', solution: 'Customers can apply coupons at checkout. More details follow.', context: '' }
+    document.acceptanceCriteria = [
+      { id: 'ac-1', title: 'Coupon discount', description: 'A valid coupon reduces the total', priority: 'must', category: 'functional', testable: true }
+    ]
+    document.testCases = [
+      {
+        format: 'steps',
+        id: 'tc-1',
+        category: 'functional',
+        priority: 'high',
+        coversCriteria: ['ac-1'],
+        testCase: {
+          title: 'Apply a valid coupon',
+          objective: 'The discount is applied',
+          preconditions: ['User is logged in'],
+          steps: [
+            { stepNumber: 1, action: 'Navigate to /checkout', expectedResult: 'The checkout page is shown' },
+            { stepNumber: 2, action: 'Enter "SAVE10" in the coupon field', expectedResult: 'The coupon is accepted' },
+            { stepNumber: 3, action: "Click the user's Apply button", expectedResult: 'The total shows "10% off"' }
+          ],
+          postconditions: []
+        }
+      },
+      {
+        format: 'gherkin',
+        id: 'tc-2',
+        category: 'negative',
+        priority: 'medium',
+        testCase: {
+          scenario: 'Expired coupon',
+          given: ['the user is on the checkout page'],
+          when: ['the user selects the "Expired" coupon'],
+          then: ['an error "Coupon expired" is shown'],
+          tags: ['@coupons']
+        }
+      },
+      {
+        format: 'table',
+        id: 'tc-3',
+        category: 'functional',
+        priority: 'low',
+        testCase: { title: 'Coupon codes', description: 'Codes', testData: [{ Code: 'A' }], expectedOutcome: 'Accepted', notes: '' }
+      }
+    ]
+    return document
+  }
+
+  describe('exportToPlaywright', () => {
+    it('should render one test per steps and gherkin test case with test.step blocks', () => {
+      const spec = exportToPlaywright(buildDocument(), { ticketBaseUrl: 'https://acme.atlassian.net/browse' })
+
+      expect(spec).toContain(' * Playwright tests for SHOP-7 - Customers can apply coupons at checkout\n * Ticket: https://acme.atlassian.net/browse/SHOP-7')
+      expect(spec).toContain('Table test cases not included (automate them as data-driven tests): tc-3')
+      expect(spec).toContain("import { test, expect } from '@playwright/test'")
+      expect(spec).toContain("test.describe('SHOP-7 - Customers can apply coupons at checkout', () => {")
+      expect(spec).toContain("  test('tc-1: Apply a valid coupon', { tag: ['@functional', '@priority-high', '@ac-1'] }, async ({ page }) => {")
+      expect(spec).toContain("  test('tc-2: Expired coupon', { tag: ['@negative', '@priority-medium', '@ac-1', '@coupons'] }, async ({ page }) => {")
+      expect(spec.match(/^ {2}test\(/gm)).toHaveLength(2)
+      expect(spec).toContain('    // Precondition: User is logged in')
+    })
+
+    it('should map step verbs to actions and quoted text to assertions', () => {
+      const spec = exportToPlaywright(buildDocument())
+
+      expect(spec).toContain([
+        "    await test.step('2. Enter \"SAVE10\" in the coupon field', async () => {",
+        '      // TODO: locator for: Enter "SAVE10" in the coupon field',
+        "      await page.locator('TODO').fill('SAVE10')",
+        '      // Expected: The coupon is accepted',
+        '      // TODO: locator for the expected result',
+        "      await expect(page.locator('TODO')).toBeVisible()",
+        '    })'
+      ].join('\n'))
+      expect(spec).toContain("      await page.goto('/checkout')")
+      expect(spec).toContain("    await test.step('3. Click the user\\'s Apply button', async () => {")
+      expect(spec).toContain("      await expect(page.getByText('10% off')).toBeVisible()")
+      expect(spec).toContain("      await page.locator('TODO').selectOption('Expired')")
+    })
+
+    it('should mark missing input values as TODO instead of typing a placeholder', () => {
+      const document = buildDocument()
+      document.testCases = [{
+        format: 'steps',
+        id: 'tc-4',
+        category: 'functional',
+        priority: 'high',
+        testCase: {
+          title: 'Enter a coupon',
+          objective: 'Enter a coupon',
+          preconditions: [],
+          steps: [{ stepNumber: 1, action: 'Enter a coupon code', expectedResult: 'The code is shown' }],
+          postconditions: []
+        }
+      }]
+
+      const spec = exportToPlaywright(document)
+
+      expect(spec).toContain([
+        '      // TODO: locator for: Enter a coupon code',
+        '      // TODO: value for: Enter a coupon code',
+        "      await page.locator('TODO').fill('<TODO: value>')"
+      ].join('\n'))
+      expect(exportToCypress(document)).toContain("    cy.get('TODO').clear().type('<TODO: value>')")
+    })
+
+    it('should use proposed selectors and visit the base URL before each test', () => {
+      const spec = exportToPlaywright(buildDocument(), {
+        baseUrl: 'https://shop.test',
+        selectors: [{ testCaseId: 'tc-1', step: 2, selector: '[data-testid="coupon"]', expectedSelector: '.coupon-accepted' }]
+      })
+
+      expect(spec).toContain("  test.beforeEach(async ({ page }) => {\n    await page.goto('https://shop.test')\n  })")
+      expect(spec).toContain("      await page.locator('[data-testid=\"coupon\"]').fill('SAVE10')\n      // Expected: The coupon is accepted\n      await expect(page.locator('.coupon-accepted')).toBeVisible()")
+    })
+  })
+
+  describe('exportToCypress', () => {
+    it('should render it blocks with cy commands and grep tags', () => {
+      const spec = exportToCypress(buildDocument())
+
+      expect(spec).toContain('/// <reference types="cypress" />')
+      expect(spec).toContain("  it('tc-1: Apply a valid coupon', { tags: ['@functional', '@priority-high', '@ac-1'] }, () => {")
+      expect(spec).toContain("    cy.log('1. Navigate to /checkout')\n    cy.visit('/checkout')")
+      expect(spec).toContain("    cy.get('TODO').clear().type('SAVE10')")
+      expect(spec).toContain("    cy.contains('10% off').should('be.visible')")
+      expect(spec).not.toContain('test.step')
+    })
+  })
+
+  describe('getAutomationFileName', () => {
+    it('should use the framework file suffix', () => {
+      expect(getAutomationFileName(buildDocument(), 'playwright')).toBe('SHOP-7.spec.ts')
+      expect(getAutomationFileName(buildDocument(), 'cypress')).toBe('SHOP-7.cy.ts')
+    })
+  })
+})
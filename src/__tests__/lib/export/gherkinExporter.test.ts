@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest'
+import {
+  exportToGherkin,
+  getFeatureFileName,
+  testCaseToScenario
+} from '@/lib/export/gherkinExporter'
+import { createMinimalQACanvasDocument, type QACanvasDocument } from '@/lib/schemas/QACanvasDocument'
+import { defaultQAProfile } from '@/lib/schemas/QAProfile'
+
+describe('Gherkin Exporter', () => {
+  const buildDocument = (): QACanvasDocument => {
+    const document = createMinimalQACanvasDocument('EN-8775', defaultQAProfile)
+    document.ticketSummary = {
+      problem: 'Users cannot reset their password.',
+      solution: 'Add a password reset flow via email. Links expire after 24 hours.',
+      context: 'Part of the authentication module'
+    }
+    document.acceptanceCriteria = [
+      {
+        id: 'ac-1',
+        title: 'Password reset email',
+        description: 'A reset email is sent to registered users',
+        priority: 'must',
+        category: 'functional',
+        testable: true
+      },
+      {
+        id: 'ac-2',
+        title: 'Invalid credentials rejected',
+        description: 'Invalid credentials show an error',
+        priority: 'should',
+        category: 'negative',
+        testable: true
+      }
+    ]
+    document.testCases = [
+      {
+        format: 'gherkin',
+        id: 'tc-1',
+        category: 'functional',
+        priority: 'high',
+        testCase: {
+          scenario: 'Request password reset email',
+          given: ['Given the user is on the login page', 'the user has an account'],
+          when: ['the user requests a password reset'],
+          then: ['a reset email is sent', 'a confirmation message is displayed'],
+          tags: ['@smoke', 'regression']
+        }
+      },
+      {
+        format: 'steps',
+        id: 'tc-2',
+        category: 'negative',
+        priority: 'medium',
+        testCase: {
+          title: 'Login validation with wrong password',
+          objective: 'Ensure invalid credentials are rejected',
+          preconditions: ['the user is on the login page', 'the user has an account'],
+          steps: [
+            { stepNumber: 2, action: 'Click the login button', expectedResult: 'An error is displayed' },
+            { stepNumber: 1, action: 'Enter a wrong password', expectedResult: 'The password is masked' }
+          ],
+          postconditions: ['the user remains logged out']
+        }
+      },
+      {
+        format: 'table',
+        id: 'tc-3',
+        category: 'functional',
+        priority: 'low',
+        testCase: {
+          title: 'Email format validation',
+          description: 'the user submits the reset form',
+          testData: [
+            { email: 'user@example.com', expected: 'Email sent' },
+            { email: 'invalid|email', expected: 'Error shown' }
+          ],
+          expectedOutcome: 'the form validates the email',
+          notes: ''
+        }
+      }
+    ]
+    return document
+  }
+
+  it('should build a feature header from the ticket summary', () => {
+    const feature = exportToGherkin(buildDocument())
+    const lines = feature.split('\n')
+
+    expect(lines[0]).toBe('@EN-8775')
+    expect(lines[1]).toBe('Feature: EN-8775 - Add a password reset flow via email')
+    expect(feature).toContain('  Problem: Users cannot reset their password.')
+    expect(feature).toContain('  Context: Part of the authentication module')
+  })
+
+  it('should allow overriding the feature name', () => {
+    const feature = exportToGherkin(buildDocument(), { featureName: 'Password reset' })
+    expect(feature).toContain('Feature: Password reset\n')
+  })
+
+  it('should not extract a background when scenarios do not share leading givens', () => {
+    const feature = exportToGherkin(buildDocument())
+    expect(feature).not.toContain('Background:')
+  })
+
+  it('should move shared leading givens into a Background', () => {
+    const document = buildDocument()
+    document.testCases = document.testCases.slice(0, 2)
+
+    const feature = exportToGherkin(document)
+
+    expect(feature).toContain('  Background:\n    Given the user is on the login page\n    And the user has an account')
+    expect(feature).toContain('    When the user requests a password reset')
+    expect(feature.match(/the user is on the login page/g)).toHaveLength(1)
+  })
+
+  it('should keep givens in scenarios when background is disabled', () => {
+    const document = buildDocument()
+    document.testCases = document.testCases.slice(0, 2)
+
+    const feature = exportToGherkin(document, { includeBackground: false })
+
+    expect(feature).not.toContain('Background:')
+    expect(feature.match(/the user is on the login page/g)).toHaveLength(2)
+  })
+
+  it('should tag scenarios with ticket key, priority, category and criteria ids', () => {
+    const document = buildDocument()
+    const scenario = testCaseToScenario(document.testCases[0], document)
+
+    expect(scenario.tags).toEqual(expect.arrayContaining([
+      '@EN-8775', '@tc-1', '@priority-high', '@functional', '@ac-1', '@smoke', '@regression'
+    ]))
+    expect(scenario.tags).not.toContain('@ac-2')
+  })
+
+  it('should strip keywords that are already part of the step text', () => {
+    const document = buildDocument()
+    const scenario = testCaseToScenario(document.testCases[0], document)
+
+    expect(scenario.steps[0]).toEqual({ type: 'given', text: 'the user is on the login page' })
+  })
+
+  it('should convert steps test cases into ordered When/Then pairs', () => {
+    const document = buildDocument()
+    const scenario = testCaseToScenario(document.testCases[1], document)
+
+    expect(scenario.description).toBe('Ensure invalid credentials are rejected')
+    expect(scenario.steps.map(s => `${s.type}:${s.text}`)).toEqual([
+      'given:the user is on the login page',
+      'given:the user has an account',
+      'when:Enter a wrong password',
+      'then:The password is masked',
+      'when:Click the login button',
+      'then:An error is displayed',
+      'then:the user remains logged out'
+    ])
+  })
+
+  it('should convert table test cases into a Scenario Outline with Examples', () => {
+    const feature = exportToGherkin(buildDocument())
+
+    expect(feature).toContain('  Scenario Outline: Email format validation')
+    expect(feature).toContain('    Given the email is "<email>"')
+    expect(feature).toContain('    When the user submits the reset form')
+    expect(feature).toContain('    Then the result should be "<expected>"')
+    expect(feature).toContain('    And the form validates the email')
+    expect(feature).toContain('      | email | expected |')
+    expect(feature).toContain('      | user@example.com | Email sent |')
+    expect(feature).toContain('      | invalid\\|email | Error shown |')
+  })
+
+  it('should render And for consecutive steps of the same type', () => {
+    const feature = exportToGherkin(buildDocument())
+
+    expect(feature).toContain('    Then a reset email is sent\n    And a confirmation message is displayed')
+  })
+
+  it('should derive the file name from the ticket id', () => {
+    expect(getFeatureFileName(buildDocument())).toBe('EN-8775.feature')
+  })
+})
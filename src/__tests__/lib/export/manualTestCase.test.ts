@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest'
+import {
+  normalizeTestCase,
+  parseEstimatedMinutes
+} from '@/lib/export/manualTestCase'
+import { createMinimalQACanvasDocument, type QACanvasDocument } from '@/lib/schemas/QACanvasDocument'
+import { defaultQAProfile } from '@/lib/schemas/QAProfile'
+
+describe('Manual Test Case Normalizer', () => {
+  const buildDocument = (): QACanvasDocument => {
+    const document = createMinimalQACanvasDocument('EN-8775', defaultQAProfile)
+    document.acceptanceCriteria = [
+      {
+        id: 'ac-1',
+        title: 'Password reset email',
+        description: 'A reset email is sent to registered users',
+        priority: 'must',
+        category: 'functional',
+        testable: true
+      }
+    ]
+    document.testCases = [
+      {
+        format: 'gherkin',
+        id: 'tc-1',
+        category: 'functional',
+        priority: 'high',
+        estimatedTime: '1 hour 30 minutes',
+        testCase: {
+          scenario: 'Request password reset email',
+          given: ['Given the user has an account'],
+          when: ['the user opens the reset page', 'the user requests a password reset'],
+          then: ['the form is shown', 'a reset email is sent', 'a confirmation is displayed'],
+          tags: ['@smoke']
+        }
+      },
+      {
+        format: 'steps',
+        id: 'tc-2',
+        category: 'negative',
+        priority: 'medium',
+        testCase: {
+          title: 'Wrong password',
+          objective: 'Ensure invalid credentials are rejected',
+          preconditions: ['the user is on the login page'],
+          steps: [
+            { stepNumber: 2, action: 'Click login', expectedResult: 'An error is displayed' },
+            { stepNumber: 1, action: 'Enter a wrong password', expectedResult: 'The password is masked', notes: 'password: nope' }
+          ],
+          postconditions: ['the user remains logged out']
+        }
+      },
+      {
+        format: 'table',
+        id: 'tc-3',
+        category: 'functional',
+        priority: 'low',
+        testCase: {
+          title: 'Email format validation',
+          description: 'Submit the reset form',
+          testData: [
+            { email: 'user@example.com', expected: 'Email sent' },
+            { email: 'invalid' }
+          ],
+          expectedOutcome: 'Validation error shown',
+          notes: 'Covers common typos'
+        }
+      }
+    ]
+    return document
+  }
+
+  it('should pair gherkin when/then steps and attach extra results to the last step', () => {
+    const document = buildDocument()
+    const manual = normalizeTestCase(document.testCases[0], document)
+
+    expect(manual.title).toBe('Request password reset email')
+    expect(manual.preconditions).toEqual(['the user has an account'])
+    expect(manual.steps).toEqual([
+      { action: 'the user opens the reset page', expectedResult: 'the form is shown' },
+      { action: 'the user requests a password reset', expectedResult: 'a reset email is sent\na confirmation is displayed' }
+    ])
+    expect(manual.labels).toEqual(['functional', 'ac-1', 'smoke'])
+  })
+
+  it('should link test cases to the ticket and covered criteria', () => {
+    const document = buildDocument()
+    const manual = normalizeTestCase(document.testCases[0], document)
+
+    expect(manual.ticketId).toBe('EN-8775')
+    expect(manual.criteriaIds).toEqual(['ac-1'])
+    expect(manual.estimatedMinutes).toBe(90)
+  })
+
+  it('should sort steps, keep notes as data and append postconditions', () => {
+    const document = buildDocument()
+    const manual = normalizeTestCase(document.testCases[1], document)
+
+    expect(manual.objective).toBe('Ensure invalid credentials are rejected')
+    expect(manual.steps).toEqual([
+      { action: 'Enter a wrong password', data: 'password: nope', expectedResult: 'The password is masked' },
+      { action: 'Click login', data: undefined, expectedResult: 'An error is displayed\nthe user remains logged out' }
+    ])
+  })
+
+  it('should turn each table row into a step with its own data', () => {
+    const document = buildDocument()
+    const manual = normalizeTestCase(document.testCases[2], document)
+
+    expect(manual.objective).toBe('Submit the reset form\nCovers common typos')
+    expect(manual.steps).toEqual([
+      { action: 'Submit the reset form', data: 'email: user@example.com', expectedResult: 'Email sent' },
+      { action: 'Submit the reset form', data: 'email: invalid', expectedResult: 'Validation error shown' }
+    ])
+  })
+
+  it('should parse free-form time estimates into minutes', () => {
+    expect(parseEstimatedMinutes('5 minutes')).toBe(5)
+    expect(parseEstimatedMinutes('1h 30m')).toBe(90)
+    expect(parseEstimatedMinutes('2 hours')).toBe(120)
+    expect(parseEstimatedMinutes('15')).toBe(15)
+    expect(parseEstimatedMinutes('a while')).toBeUndefined()
+    expect(parseEstimatedMinutes(undefined)).toBeUndefined()
+  })
+})
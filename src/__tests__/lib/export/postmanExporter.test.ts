@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest'
+import { buildApiRequestPlan, exportToHttpFile, exportToPostman, getPostmanFileName } from '@/lib/export/postmanExporter'
+import { createMinimalQACanvasDocument, type QACanvasDocument } from '@/lib/schemas/QACanvasDocument'
+import { defaultQAProfile } from '@/lib/schemas/QAProfile'
+
+describe('Postman Exporter', () => {
+  const buildDocument = (): QACanvasDocument => {
+    const document = createMinimalQACanvasDocument('SHOP-9', defaultQAProfile)
+    document.ticketSummary = { problem: '', solution: 'Expose an orders API for partners.', context: '' }
+    document.acceptanceCriteria = [
+      { id: 'ac-1', title: 'Create orders', description: 'Partners can create orders', priority: 'must', category: 'api', testable: true },
+      { id: 'ac-2', title: 'Order lookup', description: 'GET /api/orders/{id} returns the order or 404 when it does not exist', priority: 'should', category: 'api', testable: true },
+      { id: 'ac-3', title: 'Order page', description: 'The order page shows the total', priority: 'must', category: 'ui', testable: true }
+    ]
+    document.testCases = [
+      {
+        format: 'steps',
+        id: 'tc-1',
+        category: 'api',
+        priority: 'high',
+        coversCriteria: ['ac-1'],
+        testCase: {
+          title: 'Create an order',
+          objective: 'A valid order is stored',
+          preconditions: ['A partner API key exists'],
+          steps: [
+            { stepNumber: 1, action: 'Send POST /api/orders with {"sku": "A-1", "quantity": 2}', expectedResult: 'Returns 201 Created and `id` in the body' },
+            { stepNumber: 2, action: 'Request GET /api/orders/{id}', expectedResult: 'The `status` is "pending"' }
+          ],
+          postconditions: []
+        }
+      },
+      {
+        format: 'gherkin',
+        id: 'tc-2',
+        category: 'api',
+        priority: 'medium',
+        coversCriteria: ['ac-1'],
+        testCase: {
+          scenario: 'Reject an order without a SKU',
+          given: ['a partner API key'],
+          when: ['the partner creates an order without a SKU'],
+          then: ['the response is a validation error', 'the "errors" field lists sku'],
+          tags: []
+        }
+      },
+      {
+        format: 'steps',
+        id: 'tc-3',
+        category: 'functional',
+        priority: 'low',
+        coversCriteria: ['ac-3'],
+        testCase: { title: 'Order page total', objective: '', preconditions: [], steps: [{ stepNumber: 1, action: 'Open the order page', expectedResult: 'The total is shown' }], postconditions: [] }
+      }
+    ]
+    return document
+  }
+
+  describe('buildApiRequestPlan', () => {
+    it('should group API test cases by criterion and infer requests and assertions', () => {
+      const folders = buildApiRequestPlan(buildDocument())
+
+      expect(folders.map(folder => folder.name)).toEqual(['ac-1: Create orders', 'ac-2: Order lookup'])
+      expect(folders[0].requests).toMatchObject([
+        {
+          name: 'tc-1: Create an order (step 1)',
+          method: 'POST',
+          path: '/api/orders',
+          body: '{\n  "sku": "A-1",\n  "quantity": 2\n}',
+          expectedStatus: 201,
+          expectedFields: [{ path: 'id' }]
+        },
+        {
+          name: 'tc-1: Create an order (step 2)',
+          method: 'GET',
+          path: '/api/orders/:id',
+          body: undefined,
+          expectedStatus: '2xx',
+          expectedFields: [{ path: 'status', value: 'pending' }]
+        },
+        {
+          name: 'tc-2: Reject an order without a SKU',
+          method: 'POST',
+          path: '/api/orders',
+          body: '{}',
+          expectedStatus: 400,
+          expectedFields: [{ path: 'errors' }]
+        }
+      ])
+    })
+
+    it('should add a stub for API criteria without API test cases', () => {
+      const [, lookup] = buildApiRequestPlan(buildDocument())
+
+      expect(lookup.requests).toEqual([{
+        name: 'ac-2: Order lookup (stub)',
+        description: 'GET /api/orders/{id} returns the order or 404 when it does not exist',
+        method: 'GET',
+        path: '/api/orders/:id',
+        body: undefined,
+        expectedStatus: '2xx',
+        expectedFields: [],
+        expectations: ['GET /api/orders/{id} returns the order or 404 when it does not exist']
+      }])
+    })
+
+    it('should return no folders without API test cases or criteria', () => {
+      const document = buildDocument()
+      document.acceptanceCriteria = document.acceptanceCriteria.filter(criterion => criterion.category !== 'api')
+      document.testCases = document.testCases.filter(testCase => testCase.category !== 'api')
+
+      expect(buildApiRequestPlan(document)).toEqual([])
+    })
+  })
+
+  describe('exportToPostman', () => {
+    it('should export a v2.1 collection with folders, requests and test scripts', () => {
+      const collection = JSON.parse(exportToPostman(buildDocument(), { baseUrl: 'https://api.shop.test' }))
+
+      expect(collection.info).toMatchObject({
+        name: 'SHOP-9 - Expose an orders API for partners (API)',
+        schema: 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json'
+      })
+      expect(collection.variable).toEqual([{ key: 'baseUrl', value: 'https://api.shop.test', type: 'string' }])
+      expect(collection.item[0].name).toBe('ac-1: Create orders')
+
+      const [create, lookup] = collection.item[0].item
+      expect(create.request).toMatchObject({
+        method: 'POST',
+        header: [{ key: 'Content-Type', value: 'application/json' }],
+        url: { raw: '{{baseUrl}}/api/orders', host: ['{{baseUrl}}'], path: ['api', 'orders'] },
+        body: { mode: 'raw', options: { raw: { language: 'json' } } }
+      })
+      expect(create.event[0]).toMatchObject({ listen: 'test', script: { type: 'text/javascript' } })
+      expect(create.event[0].script.exec).toEqual([
+        '// Expected: Returns 201 Created and `id` in the body',
+        'pm.test("Status code is 201", function () {',
+        '    pm.response.to.have.status(201);',
+        '});',
+        'pm.test("Response has id", function () {',
+        '    pm.expect(pm.response.json()).to.have.nested.property("id");',
+        '});'
+      ])
+      expect(lookup.request.url).toMatchObject({ path: ['api', 'orders', ':id'], variable: [{ key: 'id', value: '' }] })
+      expect(lookup.event[0].script.exec).toContain('    pm.expect(pm.response.code).to.be.within(200, 299);')
+    })
+  })
+
+  describe('exportToHttpFile', () => {
+    it('should export requests with response handler scripts', () => {
+      const http = exportToHttpFile(buildDocument())
+
+      expect(http).toContain('@baseUrl = http://localhost:3000')
+      expect(http).toContain([
+        '### tc-1: Create an order (step 2)',
+        '# ac-1: Create orders',
+        '# Expected: The `status` is "pending"',
+        'GET {{baseUrl}}/api/orders/{{id}}',
+        '',
+        '> {%',
+        '  client.test("Status code is 2xx", function () {',
+        '    client.assert(response.status >= 200 && response.status < 300, "Expected a 2xx status");',
+        '  });',
+        '  client.test("Response has status", function () {',
+        '    client.assert(String(response.body?.["status"]) === "pending", "Expected status in the response");',
+        '  });',
+        '%}'
+      ].join('\n'))
+      expect(http).toContain('POST {{baseUrl}}/api/orders\nContent-Type: application/json\n\n{\n  "sku": "A-1",\n  "quantity": 2\n}')
+    })
+  })
+
+  describe('getPostmanFileName', () => {
+    it('should name collections and .http files after the ticket', () => {
+      expect(getPostmanFileName(buildDocument(), 'postman')).toBe('SHOP-9.postman_collection.json')
+      expect(getPostmanFileName(buildDocument(), 'http')).toBe('SHOP-9.http')
+    })
+  })
+})
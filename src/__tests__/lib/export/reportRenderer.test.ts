@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getReportFileName,
+  renderConfluenceReport,
+  renderHtmlReport,
+  renderMarkdownReport,
+  renderReport
+} from '@/lib/export/reportRenderer'
+import { createMinimalQACanvasDocument, type QACanvasDocument } from '@/lib/schemas/QACanvasDocument'
+import { defaultQAProfile } from '@/lib/schemas/QAProfile'
+
+describe('Report Renderer', () => {
+  const buildDocument = (): QACanvasDocument => {
+    const document = createMinimalQACanvasDocument('SHOP-12', defaultQAProfile)
+    document.metadata.generatedAt = '2025-01-01T00:00:00.000Z'
+    document.ticketSummary = {
+      problem: 'Customers cannot save items for later.',
+      solution: 'Add a wishlist to the product page. Items persist across sessions.',
+      context: 'Part of the <Checkout> & retention work'
+    }
+    document.configurationWarnings = [
+      {
+        type: 'missing_capability',
+        title: 'Mobile testing disabled',
+        message: 'The ticket mentions the mobile app.',
+        recommendation: 'Enable mobile testing in the QA profile.',
+        severity: 'high'
+      }
+    ]
+    document.acceptanceCriteria = [
+      { id: 'ac-1', title: 'Add to wishlist', description: 'A heart icon adds the product | variant', priority: 'must', category: 'functional', testable: true },
+      { id: 'ac-2', title: 'Wishlist limit', description: 'At most 50 items', priority: 'should', category: 'negative', testable: true },
+      { id: 'ac-3', title: 'Delightful', description: 'Customers love it', priority: 'could', category: 'ux', testable: false }
+    ]
+    document.testCases = [
+      {
+        format: 'steps',
+        id: 'tc-1',
+        category: 'functional',
+        priority: 'high',
+        estimatedTime: '5 min',
+        coversCriteria: ['ac-1'],
+        testCase: {
+          title: 'Add a product to the wishlist',
+          objective: 'The product appears in the wishlist',
+          preconditions: ['User is logged in'],
+          steps: [
+            { stepNumber: 2, action: 'Open the wishlist', expectedResult: 'The product is listed', notes: 'Check the "Saved" badge' },
+            { stepNumber: 1, action: 'Click the heart icon', expectedResult: 'The icon is filled' }
+          ],
+          postconditions: ['Remove the product']
+        }
+      },
+      {
+        format: 'gherkin',
+        id: 'tc-2',
+        category: 'negative',
+        priority: 'medium',
+        coversCriteria: ['ac-2'],
+        testCase: {
+          scenario: 'Wishlist is full',
+          given: ['the wishlist has 50 items'],
+          when: ['the user adds another product'],
+          then: ['an error "Wishlist is full" is shown', 'the wishlist still has 50 items'],
+          tags: ['@limits']
+        }
+      },
+      {
+        format: 'table',
+        id: 'tc-3',
+        category: 'negative',
+        priority: 'low',
+        coversCriteria: ['ac-2'],
+        testCase: {
+          title: 'Wishlist size boundaries',
+          description: 'Add items up to and over the limit',
+          testData: [{ Items: '49', Expected: 'Accepted' }, { Items: '51', Expected: 'Rejected <error>' }],
+          expectedOutcome: 'Only 50 items are stored',
+          notes: ''
+        }
+      }
+    ]
+    return document
+  }
+
+  describe('renderMarkdownReport', () => {
+    it('should render a GitHub-flavored Markdown report', () => {
+      expect(renderMarkdownReport(buildDocument(), { ticketBaseUrl: 'https://acme.atlassian.net/browse' })).toMatchSnapshot()
+    })
+
+    it('should escape table cells and omit empty sections', () => {
+      const document = buildDocument()
+      document.configurationWarnings = []
+      document.ticketSummary = { problem: '', solution: '', context: '' }
+      const markdown = renderMarkdownReport(document)
+
+      expect(markdown).toContain('# QA Plan: SHOP-12\n')
+      expect(markdown).toContain('| ac-1 | **Add to wishlist** A heart icon adds the product \\| variant | must | functional | Yes | covered |')
+      expect(markdown).toContain('| ac-3 | **Delightful** Customers love it | could | ux | No | not testable |')
+      expect(markdown).not.toContain('## Summary')
+      expect(markdown).not.toContain('## Configuration Warnings')
+      expect(renderMarkdownReport(buildDocument())).toContain('**Context:** Part of the &lt;Checkout> & retention work')
+    })
+
+    it('should encode the ticket ID in the ticket link', () => {
+      const document = buildDocument()
+      document.metadata.ticketId = 'SHOP-12?x=1'
+
+      expect(renderMarkdownReport(document, { ticketBaseUrl: 'https://acme.atlassian.net/browse' }))
+        .toContain('(https://acme.atlassian.net/browse/SHOP-12%3Fx%3D1)')
+    })
+  })
+
+  describe('renderHtmlReport', () => {
+    it('should render a standalone HTML page with print styles', () => {
+      expect(renderHtmlReport(buildDocument())).toMatchSnapshot()
+    })
+
+    it('should escape document text', () => {
+      const html = renderHtmlReport(buildDocument())
+
+      expect(html).toContain('Part of the &lt;Checkout&gt; &amp; retention work')
+      expect(html).toContain('<td>Rejected &lt;error&gt;</td>')
+      expect(html).not.toContain('<Checkout>')
+    })
+  })
+
+  describe('renderConfluenceReport', () => {
+    it('should render Confluence storage format with status and expand macros', () => {
+      expect(renderConfluenceReport(buildDocument())).toMatchSnapshot()
+    })
+
+    it('should keep CDATA sections intact', () => {
+      const document = buildDocument()
+      document.testCases = [{
+        format: 'gherkin',
+        id: 'tc-1',
+        category: 'functional',
+        priority: 'high',
+        testCase: { scenario: 'Brackets', given: ['the text is "a]]>b"'], when: ['it is rendered'], then: ['it is kept'], tags: [] }
+      }]
+
+      expect(renderConfluenceReport(document)).toContain('<![CDATA[Scenario: Brackets\n  Given the text is "a]]]]><![CDATA[>b"')
+    })
+  })
+
+  describe('renderReport', () => {
+    it('should pick the content type and file name for the format', () => {
+      expect(renderReport(buildDocument(), 'confluence')).toMatchObject({
+        contentType: 'application/xhtml+xml; charset=utf-8',
+        fileName: 'SHOP-12-qa-report.xhtml'
+      })
+      expect(getReportFileName(buildDocument(), 'md')).toBe('SHOP-12-qa-report.md')
+    })
+  })
+})
@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest'
+import { exportToTestRail, TESTRAIL_COLUMNS } from '@/lib/export/testRailExporter'
+import { exportToZephyr, ZEPHYR_COLUMNS } from '@/lib/export/zephyrExporter'
+import { exportToXray } from '@/lib/export/xrayExporter'
+import { escapeCsvValue } from '@/lib/export/csv'
+import { createMinimalQACanvasDocument, type QACanvasDocument } from '@/lib/schemas/QACanvasDocument'
+import { defaultQAProfile } from '@/lib/schemas/QAProfile'
+
+describe('Test Management Exporters', () => {
+  const buildDocument = (): QACanvasDocument => {
+    const document = createMinimalQACanvasDocument('EN-8775', defaultQAProfile)
+    document.acceptanceCriteria = [
+      {
+        id: 'ac-1',
+        title: 'Password reset email',
+        description: 'A reset email is sent to registered users',
+        priority: 'must',
+        category: 'functional',
+        testable: true
+      }
+    ]
+    document.testCases = [
+      {
+        format: 'gherkin',
+        id: 'tc-1',
+        category: 'functional',
+        priority: 'high',
+        estimatedTime: '90 minutes',
+        testCase: {
+          scenario: 'Request password reset email',
+          given: ['the user has an account'],
+          when: ['the user requests a password reset'],
+          then: ['a reset email is sent'],
+          tags: []
+        }
+      },
+      {
+        format: 'steps',
+        id: 'tc-2',
+        category: 'negative',
+        priority: 'medium',
+        estimatedTime: '5 min',
+        testCase: {
+          title: 'Wrong password, "quoted"',
+          objective: 'Ensure invalid credentials are rejected',
+          preconditions: ['the user is on the login page'],
+          steps: [
+            { stepNumber: 1, action: 'Enter a wrong password', expectedResult: 'The password is masked' },
+            { stepNumber: 2, action: 'Click login', expectedResult: 'An error is displayed' }
+          ],
+          postconditions: []
+        }
+      }
+    ]
+    return document
+  }
+
+  const parseRows = (csv: string) => csv.split('\r\n').filter(Boolean)
+
+  describe('CSV escaping', () => {
+    it('should quote values with separators, quotes and newlines', () => {
+      expect(escapeCsvValue('plain')).toBe('plain')
+      expect(escapeCsvValue('a,b')).toBe('"a,b"')
+      expect(escapeCsvValue('say "hi"')).toBe('"say ""hi"""')
+      expect(escapeCsvValue('line 1\nline 2')).toBe('"line 1\nline 2"')
+      expect(escapeCsvValue(undefined)).toBe('')
+    })
+  })
+
+  describe('TestRail', () => {
+    it('should write the header and one row per step', () => {
+      const rows = parseRows(exportToTestRail(buildDocument()))
+
+      expect(rows[0]).toBe(TESTRAIL_COLUMNS.join(','))
+      // tc-1 has one step, tc-2 has two
+      expect(rows).toHaveLength(4)
+    })
+
+    it('should map priority, type, estimate, references and criteria', () => {
+      const rows = parseRows(exportToTestRail(buildDocument()))
+
+      expect(rows[1]).toBe(
+        'Request password reset email,EN-8775,Test Case (Steps),Functional,High,1h 30m,EN-8775,ac-1,' +
+        'the user has an account,the user requests a password reset,a reset email is sent'
+      )
+      expect(rows[2]).toContain('"Wrong password, ""quoted""",EN-8775,Test Case (Steps),Destructive,Medium,5m,EN-8775,')
+      expect(rows[3]).toBe(',,,,,,,,,Click login,An error is displayed')
+    })
+
+    it('should allow overriding the section', () => {
+      const csv = exportToTestRail(buildDocument(), { section: 'Auth / Reset' })
+      expect(parseRows(csv)[1]).toContain(',Auth / Reset,')
+    })
+  })
+
+  describe('Zephyr Scale', () => {
+    it('should map fields and continue steps on follow-up rows', () => {
+      const rows = parseRows(exportToZephyr(buildDocument()))
+
+      expect(rows[0]).toBe(ZEPHYR_COLUMNS.map(escapeCsvValue).join(','))
+      expect(rows[1]).toBe(
+        'Request password reset email,Request password reset email,the user has an account,/EN-8775,Draft,High,' +
+        'functional,"functional,ac-1",01:30,EN-8775,the user requests a password reset,,a reset email is sent'
+      )
+      expect(rows[2]).toContain(',/EN-8775,Draft,Normal,negative,')
+      expect(rows[3]).toBe(',,,,,,,,,,Click login,,An error is displayed')
+    })
+
+    it('should allow overriding folder and status', () => {
+      const csv = exportToZephyr(buildDocument(), { folder: '/Auth', status: 'Approved' })
+      expect(parseRows(csv)[1]).toContain(',/Auth,Approved,')
+    })
+  })
+
+  describe('Xray', () => {
+    it('should export gherkin test cases as Cucumber tests', () => {
+      const [cucumber] = exportToXray(buildDocument())
+
+      expect(cucumber.testtype).toBe('Cucumber')
+      expect(cucumber.gherkin_def).toBe(
+        'Given the user has an account\nWhen the user requests a password reset\nThen a reset email is sent'
+      )
+      expect(cucumber.steps).toBeUndefined()
+      expect(cucumber.fields.project.key).toBe('EN')
+      expect(cucumber.fields.priority.name).toBe('High')
+      expect(cucumber.fields.timetracking).toEqual({ originalEstimate: '90m' })
+      expect(cucumber.fields.labels).toEqual(['functional', 'ac-1'])
+      expect(cucumber.update.issuelinks[0].add.outwardIssue.key).toBe('EN-8775')
+    })
+
+    it('should export other test cases as Manual tests with steps', () => {
+      const [, manual] = exportToXray(buildDocument())
+
+      expect(manual.testtype).toBe('Manual')
+      expect(manual.steps).toEqual([
+        { action: 'Enter a wrong password', data: '', result: 'The password is masked' },
+        { action: 'Click login', data: '', result: 'An error is displayed' }
+      ])
+      expect(manual.fields.description).toContain('Preconditions:\n* the user is on the login page')
+    })
+
+    it('should export gherkin as Manual tests when Cucumber is disabled', () => {
+      const [test] = exportToXray(buildDocument(), { cucumberForGherkin: false, projectKey: 'QA' })
+
+      expect(test.testtype).toBe('Manual')
+      expect(test.fields.project.key).toBe('QA')
+      expect(test.steps).toEqual([
+        { action: 'the user requests a password reset', data: '', result: 'a reset email is sent' }
+      ])
+    })
+  })
+})
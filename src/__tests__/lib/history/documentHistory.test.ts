@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, rm, readdir } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { DocumentHistory } from '@/lib/history/documentHistory'
+import {
+  FileDocumentHistoryStore,
+  InMemoryDocumentHistoryStore
+} from '@/lib/history/documentHistoryStore'
+import { createMinimalQACanvasDocument, type QACanvasDocument } from '@/lib/schemas/QACanvasDocument'
+import { defaultQAProfile } from '@/lib/schemas/QAProfile'
+
+describe('Document History', () => {
+  const buildDocument = (ticketId = 'EN-8775', testCaseCount = 0): QACanvasDocument => {
+    const document = createMinimalQACanvasDocument(ticketId, defaultQAProfile)
+    document.ticketSummary = {
+      problem: 'Users cannot reset their password',
+      solution: 'Add a password reset flow',
+      context: 'Authentication module'
+    }
+    document.testCases = Array.from({ length: testCaseCount }, (_, index) => ({
+      format: 'gherkin' as const,
+      id: `tc-${index + 1}`,
+      category: 'functional',
+      priority: 'high' as const,
+      testCase: {
+        scenario: `Scenario ${index + 1}`,
+        given: ['a user'],
+        when: ['they act'],
+        then: ['it works'],
+        tags: []
+      }
+    }))
+    return document
+  }
+
+  describe('with the in-memory store', () => {
+    let history: DocumentHistory
+
+    beforeEach(() => {
+      history = new DocumentHistory(new InMemoryDocumentHistoryStore())
+    })
+
+    it('should number versions per ticket and bump the document version', async () => {
+      const first = await history.recordVersion(buildDocument(), 'analyze-ticket')
+      const second = await history.recordVersion(buildDocument(), 'update-canvas')
+      const other = await history.recordVersion(buildDocument('EN-1'), 'analyze-ticket')
+
+      expect(first.version).toBe(1)
+      expect(first.documentVersion).toBe('1.0')
+      expect(second.version).toBe(2)
+      expect(second.documentVersion).toBe('1.1')
+      expect(second.document.metadata.previousVersion).toBe('1.0')
+      expect(other.version).toBe(1)
+    })
+
+    it('should assign unique versions to concurrent writes', async () => {
+      const records = await Promise.all([
+        history.recordVersion(buildDocument(), 'update-canvas'),
+        history.recordVersion(buildDocument(), 'update-canvas'),
+        history.recordVersion(buildDocument(), 'update-canvas')
+      ])
+
+      expect(records.map(record => record.version).sort()).toEqual([1, 2, 3])
+    })
+
+    it('should list version summaries without document bodies', async () => {
+      await history.recordVersion(buildDocument('EN-8775', 1), 'analyze-ticket', { requestId: 'req-1' })
+      await history.recordVersion(buildDocument('EN-8775', 3), 'update-canvas')
+
+      const versions = await history.listVersions('EN-8775')
+
+      expect(versions).toHaveLength(2)
+      expect(versions[0]).toMatchObject({ version: 1, source: 'analyze-ticket', requestId: 'req-1', testCaseCount: 1 })
+      expect(versions[1]).toMatchObject({ version: 2, source: 'update-canvas', testCaseCount: 3 })
+      expect(versions[0]).not.toHaveProperty('document')
+    })
+
+    it('should return the latest version when none is given', async () => {
+      await history.recordVersion(buildDocument(), 'analyze-ticket')
+      await history.recordVersion(buildDocument(), 'update-canvas')
+
+      expect((await history.getVersion('EN-8775'))?.version).toBe(2)
+      expect((await history.getVersion('EN-8775', 1))?.version).toBe(1)
+      expect(await history.getVersion('EN-8775', 9)).toBeNull()
+      expect(await history.getVersion('UNKNOWN-1')).toBeNull()
+    })
+
+    it('should diff two versions with the document change tracker', async () => {
+      await history.recordVersion(buildDocument('EN-8775', 1), 'analyze-ticket')
+      await history.recordVersion(buildDocument('EN-8775', 2), 'update-canvas')
+
+      const diff = await history.diffVersions('EN-8775', 1, 2)
+
+      expect(diff?.from.version).toBe(1)
+      expect(diff?.to.version).toBe(2)
+      expect(diff?.changes).toContainEqual(expect.objectContaining({
+        section: 'testCases',
+        changeType: 'added',
+        description: 'Test cases count changed from 1 to 2'
+      }))
+      expect(diff?.changes).toContainEqual(expect.objectContaining({
+        section: 'ticketSummary',
+        changeType: 'preserved'
+      }))
+      expect(await history.diffVersions('EN-8775', 1, 5)).toBeNull()
+    })
+
+    it('should restore an older version as the new head', async () => {
+      await history.recordVersion(buildDocument('EN-8775', 1), 'analyze-ticket')
+      await history.recordVersion(buildDocument('EN-8775', 4), 'update-canvas')
+
+      const restored = await history.restoreVersion('EN-8775', 1, 'req-restore')
+
+      expect(restored?.version).toBe(3)
+      expect(restored?.source).toBe('restore')
+      expect(restored?.restoredFrom).toBe(1)
+      expect(restored?.documentVersion).toBe('1.2')
+      expect(restored?.document.testCases).toHaveLength(1)
+      expect(restored?.document.metadata.regenerationReason).toBe('Restored from version 1')
+      expect(await history.restoreVersion('EN-8775', 42)).toBeNull()
+    })
+
+    it('should skip invalid documents when recording safely', async () => {
+      const record = await history.tryRecordVersion({ ticketSummary: {} }, 'update-canvas', { requestId: 'req-1' })
+
+      expect(record).toBeNull()
+      expect(await history.listVersions('EN-8775')).toEqual([])
+    })
+  })
+
+  describe('with the file store', () => {
+    let baseDir: string
+    let history: DocumentHistory
+
+    beforeEach(async () => {
+      baseDir = await mkdtemp(path.join(tmpdir(), 'qa-history-'))
+      history = new DocumentHistory(new FileDocumentHistoryStore(baseDir))
+    })
+
+    afterEach(async () => {
+      await rm(baseDir, { recursive: true, force: true })
+    })
+
+    it('should persist versions across service instances', async () => {
+      await history.recordVersion(buildDocument('EN-8775', 1), 'analyze-ticket')
+      await history.recordVersion(buildDocument('EN-8775', 2), 'update-canvas')
+
+      const reopened = new DocumentHistory(new FileDocumentHistoryStore(baseDir))
+      const versions = await reopened.listVersions('EN-8775')
+
+      expect(versions.map(version => version.version)).toEqual([1, 2])
+      expect((await reopened.getVersion('EN-8775', 2))?.document.testCases).toHaveLength(2)
+      expect(await reopened.listVersions('EN-9999')).toEqual([])
+    })
+
+    it('should keep ticket directories inside the base directory', async () => {
+      await history.recordVersion(buildDocument('..'), 'analyze-ticket')
+
+      expect(await readdir(baseDir)).toEqual(['%2E%2E'])
+      expect(await history.listVersions('..')).toHaveLength(1)
+    })
+  })
+})
@@ -0,0 +1,224 @@
+import { adfToPlainText, collectAdfLinks } from '@/lib/ingestion/adf'
+import { ticketInputSchema } from '@/lib/ingestion'
+import { isJiraRestIssue, normalizeJiraRestIssue } from '@/lib/ingestion/jiraRestIssue'
+import { jiraRestIssueSchema, type AdfNode } from '@/lib/schemas/JiraRestIssue'
+import { validateTicketAnalysisPayload } from '@/lib/schemas/TicketAnalysisPayload'
+import { defaultQAProfile } from '@/lib/schemas/QAProfile'
+import { describe, it, expect } from 'vitest'
+
+const text = (value: string, marks?: AdfNode['marks']): AdfNode => ({ type: 'text', text: value, ...(marks ? { marks } : {}) })
+const paragraph = (...content: AdfNode[]): AdfNode => ({ type: 'paragraph', content })
+const listItem = (...content: AdfNode[]): AdfNode => ({ type: 'listItem', content })
+const doc = (...content: AdfNode[]): AdfNode => ({ type: 'doc', version: 1, content } as AdfNode)
+
+describe('Jira REST Ingestion', () => {
+  const restIssue = {
+    id: '10042',
+    key: 'SHOP-42',
+    self: 'https://example.atlassian.net/rest/api/3/issue/10042',
+    names: {
+      customfield_10016: 'Story point estimate',
+      customfield_10020: 'Sprint',
+      customfield_10050: 'Acceptance Criteria'
+    },
+    fields: {
+      summary: 'Pay with saved card',
+      description: doc(
+        { type: 'heading', attrs: { level: 2 }, content: [text('Context')] },
+        paragraph(text('Customers reuse a card saved in their '), text('wallet', [{ type: 'link', attrs: { href: 'https://wiki.example.com/wallet' } }]), text('.')),
+        { type: 'bulletList', content: [
+          listItem(paragraph(text('Card is preselected'))),
+          listItem(paragraph(text('CVV is required')), { type: 'orderedList', content: [listItem(paragraph(text('Except for trusted devices')))] })
+        ] }
+      ),
+      status: { name: 'In Progress', id: '3', statusCategory: { key: 'indeterminate', name: 'In Progress' } },
+      priority: { name: 'High', id: '2' },
+      issuetype: { name: 'Story', subtask: false, id: '10001' },
+      assignee: { displayName: 'Dana Dev', accountId: 'acc-1' },
+      reporter: { displayName: 'Pat Product', accountId: 'acc-2', emailAddress: 'pat@example.com' },
+      components: [{ id: '1', name: 'Checkout' }, { id: '2', name: 'Payments' }],
+      labels: ['payments', 'q3'],
+      customfield_10016: 5,
+      customfield_10020: [{ id: 7, name: 'Sprint 12', state: 'active' }],
+      customfield_10050: doc({ type: 'taskList', attrs: { localId: 't' }, content: [
+        { type: 'taskItem', attrs: { state: 'DONE' }, content: [text('Saved cards are listed')] },
+        { type: 'taskItem', attrs: { state: 'TODO' }, content: [text('Expired cards are hidden')] }
+      ] }),
+      customfield_10060: null,
+      customfield_10070: { value: 'Web', child: { value: 'Desktop' } },
+      comment: {
+        comments: [
+          {
+            author: { displayName: 'Quinn QA', accountId: 'acc-3' },
+            body: doc(paragraph(
+              { type: 'mention', attrs: { id: 'acc-1', text: '@Dana Dev' } },
+              text(' see '),
+              { type: 'inlineCard', attrs: { url: 'https://example.atlassian.net/browse/SHOP-7' } }
+            )),
+            created: '2025-03-01T10:00:00.000+0000',
+            updated: '2025-03-01T11:00:00.000+0000'
+          }
+        ],
+        total: 1
+      },
+      attachment: [
+        { id: '900', filename: 'flow.png', mimeType: 'image/png', size: 2048, content: 'https://example.atlassian.net/rest/api/3/attachment/content/900' }
+      ],
+      issuelinks: [
+        { type: { name: 'Blocks', inward: 'is blocked by', outward: 'blocks' }, inwardIssue: { key: 'SHOP-7', fields: { summary: 'Store cards in wallet', status: { name: 'Done' } } } },
+        { type: { name: 'Relates', inward: 'relates to', outward: 'relates to' }, outwardIssue: { key: 'SHOP-9', fields: { summary: 'Refund to saved card' } } }
+      ],
+      subtasks: [
+        { key: 'SHOP-43', fields: { summary: 'API endpoint', status: { name: 'To Do' }, issuetype: { name: 'Sub-task', subtask: true } } }
+      ],
+      parent: { key: 'SHOP-1', fields: { summary: 'Wallet epic' } }
+    }
+  }
+
+  describe('adfToPlainText', () => {
+    it('should render headings, paragraphs and nested lists as plain text', () => {
+      expect(adfToPlainText(restIssue.fields.description)).toBe([
+        'Context',
+        '',
+        'Customers reuse a card saved in their wallet (https://wiki.example.com/wallet).',
+        '',
+        '- Card is preselected',
+        '- CVV is required',
+        '  1. Except for trusted devices'
+      ].join('\n'))
+    })
+
+    it('should render task lists as checkboxes and tables as rows', () => {
+      expect(adfToPlainText(restIssue.fields.customfield_10050)).toBe('- [x] Saved cards are listed\n- [ ] Expired cards are hidden')
+      expect(adfToPlainText(doc({ type: 'table', content: [
+        { type: 'tableRow', content: [{ type: 'tableHeader', content: [paragraph(text('Input'))] }, { type: 'tableHeader', content: [paragraph(text('Result'))] }] },
+        { type: 'tableRow', content: [{ type: 'tableCell', content: [paragraph(text('4242'))] }, { type: 'tableCell', content: [paragraph(text('Accepted'))] }] }
+      ] }))).toBe('Input | Result\n4242 | Accepted')
+    })
+
+    it('should render date nodes and keep timestamps that are not numbers as given', () => {
+      const date = (timestamp: unknown): AdfNode => ({ type: 'date', attrs: { timestamp } })
+
+      expect(adfToPlainText(doc(paragraph(text('Due '), date('1735689600000'))))).toBe('Due 2025-01-01')
+      expect(adfToPlainText(doc(paragraph(text('Due '), date('next sprint'))))).toBe('Due next sprint')
+      expect(adfToPlainText(doc(paragraph(text('Due '), date(1e20))))).toBe('Due 100000000000000000000')
+    })
+
+    it('should keep wiki markup strings and treat missing bodies as empty', () => {
+      expect(adfToPlainText('h2. Context\n* item ')).toBe('h2. Context\n* item')
+      expect(adfToPlainText(null)).toBe('')
+    })
+  })
+
+  describe('collectAdfLinks', () => {
+    it('should collect link marks and smart links once each', () => {
+      expect(collectAdfLinks(doc(
+        paragraph(text('a', [{ type: 'link', attrs: { href: 'https://a.example.com' } }])),
+        paragraph({ type: 'inlineCard', attrs: { url: 'https://b.example.com' } }, text('a', [{ type: 'link', attrs: { href: 'https://a.example.com' } }]))
+      ))).toEqual(['https://a.example.com', 'https://b.example.com'])
+      expect(collectAdfLinks('See [spec|https://c.example.com/spec] and https://d.example.com')).toEqual(['https://c.example.com/spec', 'https://d.example.com'])
+    })
+  })
+
+  describe('normalizeJiraRestIssue', () => {
+    const ticket = normalizeJiraRestIssue(jiraRestIssueSchema.parse(restIssue), { fetchedAt: '2025-03-02T00:00:00.000Z' })
+
+    it('should map system fields to the scraped ticket shape', () => {
+      expect(ticket).toMatchObject({
+        issueKey: 'SHOP-42',
+        summary: 'Pay with saved card',
+        status: 'In Progress',
+        priority: 'High',
+        issueType: 'Story',
+        assignee: 'Dana Dev',
+        reporter: 'Pat Product',
+        components: ['Checkout', 'Payments'],
+        scrapedAt: '2025-03-02T00:00:00.000Z'
+      })
+      expect(ticket.description).toContain('- CVV is required')
+    })
+
+    it('should convert comment bodies and collect their links', () => {
+      expect(ticket.comments).toEqual([{
+        author: 'Quinn QA',
+        body: '@Dana Dev see https://example.atlassian.net/browse/SHOP-7',
+        created: '2025-03-01T10:00:00.000+0000',
+        updated: '2025-03-01T11:00:00.000+0000',
+        images: [],
+        links: ['https://example.atlassian.net/browse/SHOP-7']
+      }])
+    })
+
+    it('should label custom fields with their display names and flatten their values', () => {
+      expect(ticket.customFields).toEqual({
+        'Story point estimate': '5',
+        Sprint: 'Sprint 12',
+        'Acceptance Criteria': '- [x] Saved cards are listed\n- [ ] Expired cards are hidden',
+        customfield_10070: 'Web - Desktop',
+        Labels: 'payments, q3',
+        Parent: 'SHOP-1: Wallet epic'
+      })
+    })
+
+    it('should keep attachment metadata without data so it is not processed as an image', () => {
+      expect(ticket.attachments).toEqual([{
+        data: '',
+        mime: 'image/png',
+        name: 'flow.png',
+        size: 2048,
+        tooBig: false,
+        url: 'https://example.atlassian.net/rest/api/3/attachment/content/900'
+      }])
+    })
+
+    it('should map issue links from this ticket\'s side and list subtasks', () => {
+      expect(ticket.issueLinks).toEqual([
+        { type: 'is blocked by', issueKey: 'SHOP-7', summary: 'Store cards in wallet', status: 'Done' },
+        { type: 'relates to', issueKey: 'SHOP-9', summary: 'Refund to saved card', status: undefined }
+      ])
+      expect(ticket.subtasks).toEqual([{ issueKey: 'SHOP-43', summary: 'API endpoint', status: 'To Do' }])
+    })
+
+    it('should fall back for unassigned issues without priority', () => {
+      const minimal = normalizeJiraRestIssue(jiraRestIssueSchema.parse({
+        key: 'SHOP-50',
+        fields: { summary: 'Minimal', status: { name: 'To Do' }, issuetype: { name: 'Task' }, assignee: null, priority: null, description: null }
+      }))
+
+      expect(minimal).toMatchObject({ description: '', priority: 'None', assignee: undefined, reporter: 'Unknown', comments: [], attachments: [], customFields: {} })
+    })
+  })
+
+  describe('ticketInputSchema', () => {
+    it('should tell REST issues from scraped tickets', () => {
+      expect(isJiraRestIssue(restIssue)).toBe(true)
+      expect(isJiraRestIssue({ issueKey: 'SHOP-42', summary: 'Scraped' })).toBe(false)
+    })
+
+    it('should accept a REST issue as ticketJson of the analysis payload', () => {
+      const result = validateTicketAnalysisPayload({ qaProfile: defaultQAProfile, ticketJson: restIssue })
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.ticketJson.issueKey).toBe('SHOP-42')
+        expect(result.data.ticketJson.customFields.Sprint).toBe('Sprint 12')
+      }
+    })
+
+    it('should accept REST issues whose date nodes hold malformed timestamps', () => {
+      const description = doc(paragraph(text('Due '), { type: 'date', attrs: { timestamp: 'soon' } }))
+      const result = ticketInputSchema.safeParse({ ...restIssue, fields: { ...restIssue.fields, description } })
+
+      expect(result.success).toBe(true)
+    })
+
+    it('should report invalid REST issues against their own fields', () => {
+      const result = ticketInputSchema.safeParse({ key: 'SHOP-42', fields: { summary: 'No status', issuetype: { name: 'Story' } } })
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error.issues.map(issue => issue.path.join('.'))).toEqual(['fields.status'])
+      }
+    })
+  })
+})
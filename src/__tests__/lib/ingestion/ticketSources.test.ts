@@ -0,0 +1,206 @@
+import {
+  detectTicketSource,
+  htmlToPlainText,
+  normalizeTicket,
+  ticketInputSchema
+} from '@/lib/ingestion'
+import { jiraTicketSchema } from '@/lib/schemas/JiraTicket'
+import { validateTicketAnalysisPayload } from '@/lib/schemas/TicketAnalysisPayload'
+import { defaultQAProfile } from '@/lib/schemas/QAProfile'
+import githubIssue from '../../fixtures/ticketSources/github-issue.json'
+import azureDevOpsWorkItem from '../../fixtures/ticketSources/azure-devops-work-item.json'
+import linearIssue from '../../fixtures/ticketSources/linear-issue.json'
+import { describe, it, expect } from 'vitest'
+
+describe('Ticket Sources', () => {
+  const fetchedAt = '2025-06-02T00:00:00.000Z'
+
+  describe('detectTicketSource', () => {
+    it('should detect each tracker from its fixture', () => {
+      expect(detectTicketSource(githubIssue)).toBe('github')
+      expect(detectTicketSource(azureDevOpsWorkItem)).toBe('azure-devops')
+      expect(detectTicketSource(linearIssue)).toBe('linear')
+      expect(detectTicketSource({ key: 'SHOP-1', fields: { summary: 'Jira' } })).toBe('jira')
+    })
+
+    it('should leave scraped tickets and unknown payloads alone', () => {
+      expect(detectTicketSource({ issueKey: 'SHOP-1', key: 'SHOP-1', fields: {} })).toBeUndefined()
+      expect(detectTicketSource({ title: 'Unknown' })).toBeUndefined()
+      expect(detectTicketSource(null)).toBeUndefined()
+    })
+  })
+
+  describe('GitHub issues', () => {
+    const ticket = normalizeTicket(githubIssue, 'github', { fetchedAt })
+
+    it('should map the issue into a valid ticket', () => {
+      expect(jiraTicketSchema.safeParse(ticket).success).toBe(true)
+      expect(ticket).toMatchObject({
+        issueKey: 'storefront-128',
+        summary: 'Coupon code is accepted after it expired',
+        status: 'Open',
+        priority: 'High',
+        issueType: 'Bug',
+        assignee: 'dev-dana',
+        reporter: 'octo-reporter',
+        components: ['checkout'],
+        customFields: { Repository: 'acme/storefront', Labels: 'bug, regression', Milestone: 'v2.3' },
+        source: 'github',
+        scrapedAt: fetchedAt
+      })
+      expect(ticket.description).toContain('Apply coupon `SPRING24`')
+    })
+
+    it('should include comments when the comment list replaces the count', () => {
+      expect(ticket.comments).toEqual([{
+        author: 'qa-quinn',
+        body: 'Reproduced on staging, see https://staging.acme.dev/cart?coupon=SPRING24',
+        created: '2025-04-02T09:15:00Z',
+        updated: '2025-04-02T09:20:00Z',
+        images: [],
+        links: ['https://staging.acme.dev/cart?coupon=SPRING24']
+      }])
+      expect(normalizeTicket({ ...githubIssue, comments: 3 }, 'github').comments).toEqual([])
+    })
+
+    it('should report closed issues and P-labels', () => {
+      const closed = normalizeTicket({ ...githubIssue, state: 'closed', state_reason: 'not_planned', labels: ['P1'] }, 'github')
+
+      expect(closed).toMatchObject({ status: 'Closed (not planned)', priority: 'P1', issueType: 'Issue', components: [] })
+    })
+  })
+
+  describe('Azure DevOps work items', () => {
+    const ticket = normalizeTicket(azureDevOpsWorkItem, 'azure-devops', { fetchedAt })
+
+    it('should map the work item into a valid ticket', () => {
+      expect(jiraTicketSchema.safeParse(ticket).success).toBe(true)
+      expect(ticket).toMatchObject({
+        issueKey: 'ADO-4512',
+        summary: 'Refund fails for partially shipped orders',
+        status: 'Active',
+        priority: 'High',
+        issueType: 'Bug',
+        assignee: 'Dana Dev',
+        reporter: 'Pat Product',
+        components: ['Payments'],
+        source: 'azure-devops'
+      })
+    })
+
+    it('should convert the HTML description and append the repro steps', () => {
+      expect(ticket.description).toBe([
+        'Refunds for orders with some items shipped return an error.',
+        '',
+        'Affects card & PayPal payments.',
+        '',
+        'Repro steps:',
+        '- Place an order with two items',
+        '- Ship one item',
+        '- Request a refund for the order',
+        '',
+        'Result: 500 Internal Server Error'
+      ].join('\n'))
+    })
+
+    it('should copy well-known and custom fields', () => {
+      expect(ticket.customFields).toEqual({
+        Area: 'Storefront\\Checkout\\Payments',
+        Iteration: 'Storefront\\Sprint 31',
+        Severity: '2 - High',
+        'Acceptance Criteria': '- Unshipped items are refunded\n- Shipped items need a return first',
+        Tags: 'payments; refunds',
+        Customer: 'Contoso'
+      })
+    })
+
+    it('should map comments, attached files and work item relations', () => {
+      expect(ticket.comments).toEqual([{
+        author: 'Quinn QA',
+        body: 'Logs are in the dashboard (https://logs.acme.dev/q/refund-500).',
+        created: '2025-05-10T09:00:00.000Z',
+        updated: '2025-05-10T09:01:00.000Z',
+        images: [],
+        links: ['https://logs.acme.dev/q/refund-500']
+      }])
+      expect(ticket.attachments).toEqual([{
+        data: '',
+        mime: 'image/png',
+        name: 'error.png',
+        size: 48213,
+        tooBig: false,
+        url: 'https://dev.azure.com/acme/_apis/wit/attachments/7f1e?fileName=error.png'
+      }])
+      expect(ticket.issueLinks).toEqual([
+        { type: 'child of', issueKey: 'ADO-4400' },
+        { type: 'relates to', issueKey: 'ADO-4498' }
+      ])
+    })
+  })
+
+  describe('Linear issues', () => {
+    const ticket = normalizeTicket(linearIssue, 'linear', { fetchedAt })
+
+    it('should map the issue into a valid ticket', () => {
+      expect(jiraTicketSchema.safeParse(ticket).success).toBe(true)
+      expect(ticket).toMatchObject({
+        issueKey: 'PAY-214',
+        summary: 'Show saved cards at checkout',
+        status: 'In Progress',
+        priority: 'High',
+        issueType: 'Feature',
+        assignee: 'dana',
+        reporter: 'pat',
+        components: ['Payments'],
+        customFields: {
+          Labels: 'web',
+          Project: 'Wallet',
+          Cycle: 'Cycle 18',
+          Estimate: '3',
+          'Due date': '2025-06-30',
+          Parent: 'PAY-200: Wallet'
+        },
+        source: 'linear'
+      })
+      expect(ticket.description).toContain('- Expired cards are hidden')
+    })
+
+    it('should unwrap GraphQL connections into comments, attachments, sub-issues and relations', () => {
+      expect(ticket.comments).toMatchObject([{ author: 'quinn', links: ['https://figma.com/file/abc/saved-cards'] }])
+      expect(ticket.attachments).toMatchObject([{ name: 'checkout-mock.png', mime: 'image/png', data: '' }])
+      expect(ticket.subtasks).toEqual([{ issueKey: 'PAY-215', summary: 'Saved cards API', status: 'Done' }])
+      expect(ticket.issueLinks).toEqual([{ type: 'blocks', issueKey: 'PAY-220', summary: 'One-click checkout', status: undefined }])
+    })
+
+    it('should accept webhook payloads with plain arrays and numeric priorities only', () => {
+      const webhookIssue = { ...linearIssue, labels: [{ name: 'Bug' }], comments: undefined, attachments: undefined, children: undefined, relations: undefined, priorityLabel: undefined, priority: 1 }
+
+      expect(normalizeTicket(webhookIssue, 'linear')).toMatchObject({ issueType: 'Bug', priority: 'Urgent', comments: [], attachments: [] })
+    })
+  })
+
+  describe('ticketInputSchema', () => {
+    it('should accept every fixture as ticketJson of the analysis payload', () => {
+      [githubIssue, azureDevOpsWorkItem, linearIssue].forEach(fixture => {
+        const result = validateTicketAnalysisPayload({ qaProfile: defaultQAProfile, ticketJson: fixture })
+        expect(result.success).toBe(true)
+      })
+    })
+
+    it('should report invalid work items against their own fields', () => {
+      const result = ticketInputSchema.safeParse({ ...azureDevOpsWorkItem, fields: { 'System.Title': 'No state', 'System.WorkItemType': 'Bug' } })
+
+      expect(result.success).toBe(false)
+      if (!result.success) {
+        expect(result.error.issues.map(issue => issue.path.join('.'))).toEqual(['fields.System.State'])
+      }
+    })
+  })
+
+  describe('htmlToPlainText', () => {
+    it('should render tables, images and entities', () => {
+      expect(htmlToPlainText('<table><tr><th>Card</th><th>Result</th></tr><tr><td>4242&#32;4242</td><td>OK</td></tr></table><img src="x.png" alt="Error dialog">'))
+        .toBe('Card | Result\n4242 4242 | OK\n\n[Image: Error dialog]')
+    })
+  })
+})
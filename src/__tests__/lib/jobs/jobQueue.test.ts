@@ -0,0 +1,203 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { mkdtemp, rm, readdir } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { AnalysisJobQueue, loadJobQueueOptions, type TicketAnalyzer } from '@/lib/jobs/jobQueue'
+import { FileJobStore, InMemoryJobStore, type AnalysisJob } from '@/lib/jobs/jobStore'
+import { BudgetExceededError } from '@/lib/usage/budgets'
+import { createMinimalQACanvasDocument } from '@/lib/schemas/QACanvasDocument'
+import { defaultQAProfile } from '@/lib/schemas/QAProfile'
+import type { TicketAnalysisPayload } from '@/lib/schemas/TicketAnalysisPayload'
+
+describe('Analysis Job Queue', () => {
+  const buildPayload = (issueKey: string): TicketAnalysisPayload => ({
+    qaProfile: defaultQAProfile,
+    ticketJson: {
+      issueKey,
+      summary: `Summary of ${issueKey}`,
+      description: 'Description',
+      status: 'To Do',
+      priority: 'Priority: Medium',
+      issueType: 'Story',
+      reporter: 'Reporter',
+      comments: [],
+      attachments: [],
+      components: [],
+      customFields: {},
+      scrapedAt: '2025-01-01T00:00:00.000Z'
+    }
+  })
+
+  const analyzeInstantly: TicketAnalyzer = async payload =>
+    createMinimalQACanvasDocument(payload.ticketJson.issueKey, payload.qaProfile)
+
+  const createQueue = (analyze: TicketAnalyzer, options: Partial<ConstructorParameters<typeof AnalysisJobQueue>[2]> = {}) => {
+    const store = new InMemoryJobStore()
+    const queue = new AnalysisJobQueue(store, analyze, {
+      concurrency: 2,
+      maxRetries: 2,
+      retryDelayMs: 0,
+      circuitPollMs: 5,
+      providersAvailable: () => true,
+      ...options
+    })
+    return { store, queue }
+  }
+
+  it('should analyze every ticket with bounded concurrency and store results per ticket key', async () => {
+    let inFlight = 0
+    let maxInFlight = 0
+    const { store, queue } = createQueue(async (payload, context) => {
+      inFlight++
+      maxInFlight = Math.max(maxInFlight, inFlight)
+      await new Promise(resolve => setTimeout(resolve, 5))
+      inFlight--
+      return analyzeInstantly(payload, context)
+    })
+
+    const submitted = await queue.submit(['SPR-1', 'SPR-2', 'SPR-3', 'SPR-4', 'SPR-5'].map(buildPayload), { team: 'qa' })
+    // The first tickets start as soon as the job is queued
+    expect(submitted.status).toBe('running')
+    expect(submitted.progress).toMatchObject({ total: 5, queued: 3, running: 2, percent: 0 })
+
+    const job = (await queue.waitForJob(submitted.id))!
+    expect(maxInFlight).toBe(2)
+    expect(job.status).toBe('completed')
+    expect(job.team).toBe('qa')
+    expect(job.progress).toMatchObject({ total: 5, succeeded: 5, failed: 0, percent: 100 })
+    expect(job.tickets.every(ticket => ticket.attempts === 1 && ticket.documentVersion === '1.0')).toBe(true)
+
+    const result = await queue.getResult('SPR-3')
+    expect(result).toMatchObject({ ticketKey: 'SPR-3', jobId: job.id, attempts: 1 })
+    expect(result?.document.metadata.ticketId).toBe('SPR-3')
+    expect(await store.getJob(job.id)).toMatchObject({ status: 'completed', finishedAt: job.finishedAt })
+  })
+
+  it('should retry failed tickets and report tickets that keep failing', async () => {
+    const attempts = new Map<string, number>()
+    const { queue } = createQueue(async (payload, context) => {
+      const key = payload.ticketJson.issueKey
+      attempts.set(key, (attempts.get(key) || 0) + 1)
+      if (key === 'SPR-2' || attempts.get(key) === 1) {
+        throw new Error(`Provider timeout for ${key}`)
+      }
+      return analyzeInstantly(payload, context)
+    })
+
+    const submitted = await queue.submit([buildPayload('SPR-1'), buildPayload('SPR-2')], { maxRetries: 1 })
+    const job = (await queue.waitForJob(submitted.id))!
+
+    expect(job.status).toBe('completed')
+    expect(job.progress).toMatchObject({ succeeded: 1, failed: 1 })
+    expect(job.tickets[0]).toMatchObject({ ticketKey: 'SPR-1', status: 'succeeded', attempts: 2 })
+    expect(job.tickets[0].error).toBeUndefined()
+    expect(job.tickets[1]).toMatchObject({ ticketKey: 'SPR-2', status: 'failed', attempts: 2, error: 'Provider timeout for SPR-2' })
+    expect(await queue.getResult('SPR-2')).toBeNull()
+  })
+
+  it('should not retry budget stops and fail the job when no ticket succeeded', async () => {
+    const { queue } = createQueue(async () => {
+      throw new BudgetExceededError('qa', 'daily', 5, 5.2, new Date('2025-01-02T00:00:00.000Z'))
+    })
+
+    const job = (await queue.waitForJob((await queue.submit([buildPayload('SPR-1')])).id))!
+
+    expect(job.status).toBe('failed')
+    expect(job.tickets[0]).toMatchObject({ status: 'failed', attempts: 1 })
+    expect(job.tickets[0].error).toContain('AI budget exceeded')
+  })
+
+  it('should cancel queued tickets and let running ones finish', async () => {
+    let release: () => void = () => {}
+    const started: string[] = []
+    const { queue } = createQueue(async (payload, context) => {
+      started.push(payload.ticketJson.issueKey)
+      await new Promise<void>(resolve => { release = resolve })
+      return analyzeInstantly(payload, context)
+    }, { concurrency: 1 })
+
+    const submitted = await queue.submit(['SPR-1', 'SPR-2', 'SPR-3'].map(buildPayload))
+    await new Promise(resolve => setTimeout(resolve, 0))
+
+    const cancelled = (await queue.cancel(submitted.id))!
+    expect(cancelled.status).toBe('cancelled')
+    expect(cancelled.tickets.map(ticket => ticket.status)).toEqual(['running', 'cancelled', 'cancelled'])
+
+    release()
+    const job = (await queue.waitForJob(submitted.id))!
+    expect(started).toEqual(['SPR-1'])
+    expect(job.status).toBe('cancelled')
+    expect(job.progress).toMatchObject({ succeeded: 1, cancelled: 2, percent: 100 })
+    expect(await queue.getResult('SPR-1')).not.toBeNull()
+  })
+
+  it('should hold queued tickets while every provider circuit is open', async () => {
+    let available = false
+    const started: string[] = []
+    const { queue } = createQueue(async (payload, context) => {
+      started.push(payload.ticketJson.issueKey)
+      return analyzeInstantly(payload, context)
+    }, { providersAvailable: () => available })
+
+    const submitted = await queue.submit([buildPayload('SPR-1')])
+    await new Promise(resolve => setTimeout(resolve, 10))
+
+    expect(started).toEqual([])
+    expect(await queue.getJob(submitted.id)).toMatchObject({ status: 'queued', waitingForProviders: true })
+
+    available = true
+    const job = (await queue.waitForJob(submitted.id))!
+    expect(job).toMatchObject({ status: 'completed', waitingForProviders: false })
+  })
+
+  it('should list jobs newest first and return null for unknown jobs', async () => {
+    const { queue } = createQueue(analyzeInstantly)
+    const first = await queue.submit([buildPayload('SPR-1')])
+    await new Promise(resolve => setTimeout(resolve, 2))
+    const second = await queue.submit([buildPayload('SPR-2')])
+
+    expect((await queue.listJobs()).map(job => job.id)).toEqual([second.id, first.id])
+    expect(await queue.getJob('missing')).toBeNull()
+    expect(await queue.cancel('missing')).toBeNull()
+  })
+
+  it('should read tuning from the environment', () => {
+    expect(loadJobQueueOptions({})).toEqual({ concurrency: 3, maxRetries: 2, retryDelayMs: 5000, circuitPollMs: 5000 })
+    expect(loadJobQueueOptions({ JOB_CONCURRENCY: '8', JOB_MAX_RETRIES: '0', JOB_RETRY_DELAY_MS: 'soon' }))
+      .toMatchObject({ concurrency: 8, maxRetries: 0, retryDelayMs: 5000 })
+  })
+
+  describe('FileJobStore', () => {
+    let baseDir: string
+
+    afterEach(async () => {
+      if (baseDir) await rm(baseDir, { recursive: true, force: true })
+    })
+
+    it('should persist jobs and results across store instances', async () => {
+      baseDir = await mkdtemp(path.join(tmpdir(), 'qa-jobs-'))
+      const { queue } = createQueue(analyzeInstantly)
+      const job: AnalysisJob = {
+        ...(await queue.submit([buildPayload('../SPR-1')])),
+        status: 'completed'
+      }
+
+      const store = new FileJobStore(baseDir)
+      await store.saveJob(job)
+      await store.saveResult({
+        ticketKey: '../SPR-1',
+        jobId: job.id,
+        attempts: 1,
+        completedAt: '2025-01-01T00:00:00.000Z',
+        document: createMinimalQACanvasDocument('../SPR-1', defaultQAProfile)
+      })
+
+      const reopened = new FileJobStore(baseDir)
+      expect(await reopened.getJob(job.id)).toEqual(job)
+      expect(await reopened.listJobs()).toEqual([job])
+      expect((await reopened.getResult('../SPR-1'))?.document.metadata.ticketId).toBe('../SPR-1')
+      expect(await reopened.getResult('SPR-404')).toBeNull()
+      expect(await readdir(path.join(baseDir, 'results'))).toEqual(['%2E%2E%2FSPR-1.json'])
+    })
+  })
+})
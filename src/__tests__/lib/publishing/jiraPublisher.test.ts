@@ -0,0 +1,119 @@
+/**
+ * Jira publisher tests against a local stand-in of the Jira comment API
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { JiraPublisher, JiraPublishError, loadJiraPublisherConfig } from '@/lib/publishing/jiraPublisher'
+import { createMinimalQACanvasDocument, type QACanvasDocument } from '@/lib/schemas/QACanvasDocument'
+import { defaultQAProfile } from '@/lib/schemas/QAProfile'
+import { startJiraStandIn, type JiraStandIn } from '../../mocks/jiraServer'
+
+describe('Jira Publisher', () => {
+  let jira: JiraStandIn
+  let publisher: JiraPublisher
+
+  const buildDocument = (ticketId = 'SHOP-12'): QACanvasDocument => {
+    const document = createMinimalQACanvasDocument(ticketId, defaultQAProfile)
+    document.acceptanceCriteria = [
+      { id: 'ac-1', title: 'Add to wishlist', description: 'A heart icon adds the product', priority: 'must', category: 'functional', testable: true }
+    ]
+    return document
+  }
+
+  const addComment = (issueKey: string, text: string) => {
+    const comments = jira.comments.get(issueKey)!
+    comments.push({
+      id: `9${comments.length}`,
+      body: { version: 1, type: 'doc', content: [{ type: 'paragraph', content: [{ type: 'text', text }] }] },
+      created: '2025-01-01T00:00:00.000Z',
+      updated: '2025-01-01T00:00:00.000Z'
+    })
+  }
+
+  beforeEach(async () => {
+    jira = await startJiraStandIn({ issues: ['SHOP-12', 'SHOP-13'], pageSize: 2 })
+    publisher = new JiraPublisher({ baseUrl: jira.url, email: 'qa@acme.test', apiToken: 'token', timeoutMs: 5000 })
+  })
+
+  afterEach(async () => {
+    await jira.close()
+  })
+
+  it('should post the plan as a new ADF comment', async () => {
+    const result = await publisher.publishPlan(buildDocument())
+
+    expect(result).toEqual({
+      issueKey: 'SHOP-12',
+      commentId: '10000',
+      action: 'created',
+      url: `${jira.url}/browse/SHOP-12?focusedCommentId=10000`
+    })
+    expect(jira.comments.get('SHOP-12')).toHaveLength(1)
+    expect(jira.comments.get('SHOP-12')![0].body).toMatchObject({ version: 1, type: 'doc' })
+
+    const post = jira.requests.find(request => request.method === 'POST')!
+    expect(post.path).toBe('/rest/api/3/issue/SHOP-12/comment')
+    expect(post.authorization).toBe(`Basic ${Buffer.from('qa@acme.test:token').toString('base64')}`)
+  })
+
+  it('should update the previously posted plan instead of adding another comment', async () => {
+    addComment('SHOP-12', 'Looks good')
+    await publisher.publishPlan(buildDocument())
+    addComment('SHOP-12', 'Please add a test for guests')
+    addComment('SHOP-12', 'Done')
+
+    const document = buildDocument()
+    document.acceptanceCriteria[0].title = 'Add to wishlist from the product page'
+    const result = await publisher.publishPlan(document)
+
+    expect(result).toMatchObject({ commentId: '10000', action: 'updated' })
+    expect(jira.comments.get('SHOP-12')).toHaveLength(4)
+    expect(JSON.stringify(jira.comments.get('SHOP-12')![1].body)).toContain('Add to wishlist from the product page')
+    // The plan is on the second page of newest-first comments
+    expect(jira.requests.filter(request => request.method === 'GET').slice(-2).map(request => request.path)).toEqual([
+      '/rest/api/3/issue/SHOP-12/comment?startAt=0&maxResults=100&orderBy=-created',
+      '/rest/api/3/issue/SHOP-12/comment?startAt=2&maxResults=100&orderBy=-created'
+    ])
+    expect(jira.requests.at(-1)).toMatchObject({ method: 'PUT', path: '/rest/api/3/issue/SHOP-12/comment/10000' })
+  })
+
+  it('should update a given comment or add a new one when asked', async () => {
+    addComment('SHOP-13', 'Old plan')
+
+    await expect(publisher.publishPlan(buildDocument(), { issueKey: 'SHOP-13', commentId: '90' }))
+      .resolves.toMatchObject({ issueKey: 'SHOP-13', commentId: '90', action: 'updated' })
+
+    await publisher.publishPlan(buildDocument())
+    await expect(publisher.publishPlan(buildDocument(), { updateExisting: false }))
+      .resolves.toMatchObject({ commentId: '10001', action: 'created' })
+    expect(jira.comments.get('SHOP-12')).toHaveLength(2)
+  })
+
+  it('should report Jira errors with their status and messages', async () => {
+    const error = await publisher.publishPlan(buildDocument('SHOP-404')).catch(caught => caught)
+
+    expect(error).toBeInstanceOf(JiraPublishError)
+    expect(error.status).toBe(404)
+    expect(error.message).toBe('Jira responded 404 to GET /rest/api/3/issue/SHOP-404/comment?startAt=0&maxResults=100&orderBy=-created: Issue does not exist or you do not have permission to see it.')
+  })
+
+  it('should report unreachable servers', async () => {
+    await jira.close()
+
+    await expect(publisher.publishPlan(buildDocument(), { updateExisting: false })).rejects.toThrow(JiraPublishError)
+    jira = await startJiraStandIn({ issues: [] })
+  })
+
+  describe('loadJiraPublisherConfig', () => {
+    it('should read the connection settings from the environment', () => {
+      expect(loadJiraPublisherConfig({})).toBeNull()
+      expect(loadJiraPublisherConfig({ JIRA_BASE_URL: 'https://acme.atlassian.net/', JIRA_ACCESS_TOKEN: 'pat', JIRA_TIMEOUT_MS: 'soon' })).toEqual({
+        baseUrl: 'https://acme.atlassian.net',
+        email: undefined,
+        apiToken: undefined,
+        accessToken: 'pat',
+        timeoutMs: 10000
+      })
+    })
+  })
+})
@@ -0,0 +1,171 @@
+/**
+ * Tests for per-team AI spend budgets
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  BudgetGuard,
+  BudgetExceededError,
+  loadBudgets,
+  getBudgetWarnings,
+  type TeamBudget
+} from '../../../lib/usage/budgets'
+import { UsageTracker, withUsageTracking, attributeUsage } from '../../../lib/usage/usageTracker'
+import { InMemoryUsageStore } from '../../../lib/usage/usageStore'
+import { handleAIError, AIErrorType } from '../../../lib/ai/errorHandler'
+
+const budget = (overrides: Partial<TeamBudget>): TeamBudget => ({ team: 'qa', apiKeys: [], warnAt: 0.8, ...overrides })
+
+// gpt-4o costs $10 per million output tokens, so 100k completion tokens cost $1
+const spendDollars = (tracker: UsageTracker, dollars: number) => tracker.record({
+  operation: 'generateText',
+  provider: 'openai',
+  model: 'gpt-4o',
+  usage: { promptTokens: 0, completionTokens: dollars * 100_000, totalTokens: dollars * 100_000 }
+})
+
+const asTeam = <T>(team: string | undefined, handler: () => Promise<T>) =>
+  withUsageTracking('analyze-ticket', async () => {
+    attributeUsage({ team })
+    return handler()
+  })
+
+const headers = (values: Record<string, string>) => new Headers(values)
+
+describe('budgets', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  describe('loadBudgets', () => {
+    it('should read valid budgets and skip invalid ones', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      const budgets = loadBudgets({
+        AI_BUDGETS: JSON.stringify([
+          { team: 'qa', daily: 5 },
+          { team: 'no-limit' },
+          { team: 'platform', monthly: 100, apiKeys: ['key-1'], warnAt: 0.5 }
+        ])
+      })
+
+      expect(budgets).toEqual([
+        { team: 'qa', daily: 5, apiKeys: [], warnAt: 0.8 },
+        { team: 'platform', monthly: 100, apiKeys: ['key-1'], warnAt: 0.5 }
+      ])
+      expect(loadBudgets({ AI_BUDGETS: 'nope' })).toEqual([])
+      expect(loadBudgets({})).toEqual([])
+    })
+  })
+
+  describe('resolveTeam', () => {
+    const guard = new BudgetGuard(new UsageTracker(new InMemoryUsageStore()), [
+      budget({ team: 'platform', apiKeys: ['secret-key'], daily: 10 }),
+      budget({ team: 'qa', daily: 5 }),
+      budget({ team: 'default', daily: 1 })
+    ])
+
+    it('should identify teams by API key, bearer token or team header', () => {
+      expect(guard.resolveTeam(headers({ 'x-api-key': 'secret-key' }))).toBe('platform')
+      expect(guard.resolveTeam(headers({ authorization: 'Bearer secret-key' }))).toBe('platform')
+      expect(guard.resolveTeam(headers({ 'x-team-id': 'qa' }))).toBe('qa')
+    })
+
+    it('should not let a bare header claim a key-protected team', () => {
+      expect(guard.resolveTeam(headers({ 'x-team-id': 'platform' }))).toBe('default')
+      expect(guard.resolveTeam(headers({ 'x-api-key': 'wrong' }))).toBe('default')
+      expect(guard.resolveTeam(undefined)).toBe('default')
+    })
+
+    it('should not attribute teams when no budgets are configured', () => {
+      expect(new BudgetGuard(new UsageTracker(new InMemoryUsageStore()), []).resolveTeam(headers({ 'x-team-id': 'qa' }))).toBeUndefined()
+    })
+  })
+
+  describe('enforce', () => {
+    it('should warn past the soft threshold and stop at the hard limit', async () => {
+      const tracker = new UsageTracker(new InMemoryUsageStore())
+      const guard = new BudgetGuard(tracker, [budget({ daily: 5 })])
+
+      await asTeam('qa', async () => {
+        await guard.enforce()
+        spendDollars(tracker, 3)
+        await guard.enforce()
+        expect(getBudgetWarnings()).toBeUndefined()
+      })
+
+      const warnings = await asTeam('qa', async () => {
+        spendDollars(tracker, 1)
+        await guard.enforce()
+        return getBudgetWarnings()
+      })
+      expect(warnings).toEqual([expect.objectContaining({ type: 'recommendation', title: 'AI daily budget 80% used', severity: 'medium' })])
+
+      await asTeam('qa', async () => {
+        spendDollars(tracker, 1)
+        await expect(guard.enforce()).rejects.toBeInstanceOf(BudgetExceededError)
+      })
+
+      // Other teams are unaffected
+      await expect(asTeam('platform', () => guard.enforce())).resolves.toBeUndefined()
+    })
+
+    it('should load spend recorded earlier in the month', async () => {
+      vi.useFakeTimers({ now: new Date('2025-03-20T12:00:00.000Z'), toFake: ['Date'] })
+      const store = new InMemoryUsageStore()
+      const record = { operation: 'generateText' as const, provider: 'openai', model: 'gpt-4o', promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+      await store.append({ ...record, timestamp: '2025-02-28T12:00:00.000Z', team: 'qa', cost: 50 })
+      await store.append({ ...record, timestamp: '2025-03-02T12:00:00.000Z', team: 'qa', cost: 30 })
+      await store.append({ ...record, timestamp: '2025-03-20T08:00:00.000Z', team: 'qa', cost: 2 })
+      await store.append({ ...record, timestamp: '2025-03-20T09:00:00.000Z', team: 'other', cost: 100 })
+
+      const guard = new BudgetGuard(new UsageTracker(store), [budget({ daily: 10, monthly: 40 })])
+
+      expect(await guard.getTeamSpend('qa')).toEqual({ daily: 2, monthly: 32 })
+      const error = await asTeam('qa', () => guard.enforce()).catch(caught => caught)
+      expect(error).toBeUndefined()
+
+      await store.append({ ...record, timestamp: '2025-03-20T10:00:00.000Z', team: 'qa', cost: 0 })
+      const fresh = new BudgetGuard(new UsageTracker(store), [budget({ monthly: 30 })])
+      const exceeded = await asTeam('qa', () => fresh.enforce()).catch(caught => caught)
+      expect(exceeded).toMatchObject({ period: 'monthly', limit: 30, spent: 32 })
+      expect(exceeded.resetAt.toISOString()).toBe('2025-04-01T00:00:00.000Z')
+    })
+
+    it('should reset daily spend at midnight UTC', async () => {
+      vi.useFakeTimers({ now: new Date('2025-03-20T23:59:00.000Z'), toFake: ['Date'] })
+      const tracker = new UsageTracker(new InMemoryUsageStore())
+      const guard = new BudgetGuard(tracker, [budget({ daily: 1 })])
+
+      await asTeam('qa', async () => {
+        await guard.enforce()
+        spendDollars(tracker, 2)
+      })
+      await expect(asTeam('qa', () => guard.enforce())).rejects.toThrow(/daily limit/)
+
+      vi.setSystemTime(new Date('2025-03-21T00:01:00.000Z'))
+      await expect(asTeam('qa', () => guard.enforce())).resolves.toBeUndefined()
+      expect(await guard.getTeamSpend('qa')).toEqual({ daily: 0, monthly: 2 })
+    })
+  })
+
+  describe('handleAIError', () => {
+    it('should report BUDGET_EXCEEDED with the reset time', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      const resetAt = new Date(Date.now() + 3600_000)
+
+      const response = handleAIError(new BudgetExceededError('qa', 'daily', 5, 5.2, resetAt), 'req-1')
+      const body = await response.json()
+
+      expect(response.status).toBe(429)
+      expect(body).toMatchObject({
+        error: AIErrorType.BUDGET_EXCEEDED,
+        errorCode: 'BUDGET_EXCEEDED',
+        details: { team: 'qa', period: 'daily', limit: 5, spent: 5.2, resetAt: resetAt.toISOString() },
+        requestId: 'req-1'
+      })
+      expect(body.retryAfter).toBeGreaterThan(3590)
+    })
+  })
+})
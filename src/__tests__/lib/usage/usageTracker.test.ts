@@ -0,0 +1,175 @@
+/**
+ * Tests for token usage attribution, cost estimation and usage reports
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import {
+  UsageTracker,
+  withUsageTracking,
+  withUsageSection,
+  attributeUsage,
+  summarizeUsage
+} from '../../../lib/usage/usageTracker'
+import { FileUsageStore, InMemoryUsageStore, type UsageRecord } from '../../../lib/usage/usageStore'
+import { estimateCost, getModelPrice, loadModelPrices } from '../../../lib/usage/modelPricing'
+
+const call = (promptTokens: number, completionTokens: number, model = 'gpt-4o-mini') => ({
+  operation: 'generateText' as const,
+  provider: 'openai',
+  model,
+  usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+})
+
+const record = (overrides: Partial<UsageRecord>): UsageRecord => ({
+  timestamp: '2025-01-10T10:00:00.000Z',
+  operation: 'generateText',
+  provider: 'openai',
+  model: 'gpt-4o-mini',
+  promptTokens: 100,
+  completionTokens: 50,
+  totalTokens: 150,
+  cost: 0.000045,
+  ...overrides
+})
+
+describe('modelPricing', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should price dated snapshots by the longest matching model id', () => {
+    expect(getModelPrice('gpt-4o-mini-2024-07-18')).toEqual({ inputPerMillion: 0.15, outputPerMillion: 0.6 })
+    expect(getModelPrice('gpt-4o-2024-08-06')).toEqual({ inputPerMillion: 2.5, outputPerMillion: 10 })
+    expect(estimateCost('claude-3-5-haiku-20241022', 1_000_000, 1_000_000)).toBe(4.8)
+    expect(estimateCost('llama3.1:8b', 1000, 1000)).toBeNull()
+  })
+
+  it('should merge MODEL_PRICING overrides and ignore invalid ones', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    const prices = loadModelPrices({ MODEL_PRICING: JSON.stringify({ 'llama3.1': { inputPerMillion: 0.1, outputPerMillion: 0.1 } }) })
+    expect(estimateCost('llama3.1:8b', 1_000_000, 0, prices)).toBe(0.1)
+    expect(loadModelPrices({ MODEL_PRICING: '{"x": {"inputPerMillion": -1}}' })).not.toHaveProperty('x')
+  })
+})
+
+describe('UsageTracker', () => {
+  it('should attribute calls to the request, ticket and section', async () => {
+    const store = new InMemoryUsageStore()
+    const tracker = new UsageTracker(store)
+
+    const summary = await withUsageTracking('analyze-ticket', async () => {
+      attributeUsage({ requestId: 'req-1', ticketId: 'PROJ-1' })
+
+      // Parallel generators keep their own section
+      await Promise.all([
+        withUsageSection('ticketSummary', async () => tracker.record(call(1000, 200))),
+        withUsageSection('testCases', async () => {
+          await new Promise(resolve => setTimeout(resolve, 5))
+          tracker.record(call(2000, 1000))
+          tracker.record(call(500, 500))
+        })
+      ])
+
+      return tracker.getRequestSummary()
+    })
+
+    expect(summary).toMatchObject({ calls: 3, promptTokens: 3500, completionTokens: 1700, totalTokens: 5200, unpricedCalls: 0, currency: 'USD' })
+    expect(summary?.estimatedCost).toBeCloseTo((3500 * 0.15 + 1700 * 0.6) / 1_000_000, 6)
+    expect(summary?.breakdown).toEqual([
+      expect.objectContaining({ section: 'ticketSummary', calls: 1, totalTokens: 1200 }),
+      expect.objectContaining({ section: 'testCases', calls: 2, totalTokens: 4000 })
+    ])
+
+    const stored = await store.list()
+    expect(stored.every(item => item.requestId === 'req-1' && item.ticketId === 'PROJ-1' && item.endpoint === 'analyze-ticket')).toBe(true)
+  })
+
+  it('should record streamed usage once it resolves and skip calls without usage', async () => {
+    const store = new InMemoryUsageStore()
+    const tracker = new UsageTracker(store)
+
+    tracker.record({ ...call(0, 0), operation: 'streamText', usage: Promise.resolve({ promptTokens: 10, completionTokens: 5, totalTokens: 15 }) })
+    tracker.record({ ...call(0, 0), operation: 'streamText', usage: Promise.reject(new Error('stream failed')) })
+    tracker.record({ ...call(0, 0), usage: undefined })
+    await new Promise(resolve => setTimeout(resolve, 0))
+
+    const stored = await store.list()
+    expect(stored).toHaveLength(1)
+    expect(stored[0]).toMatchObject({ operation: 'streamText', totalTokens: 15 })
+    expect(tracker.getRequestSummary()).toBeUndefined()
+  })
+
+  it('should treat unreported token counts as zero', async () => {
+    const store = new InMemoryUsageStore()
+    new UsageTracker(store).record({ ...call(0, 0), usage: { promptTokens: NaN, completionTokens: NaN, totalTokens: NaN } })
+
+    expect((await store.list())[0]).toMatchObject({ promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 })
+  })
+
+  it('should mark unpriced models in the summary', () => {
+    const summary = summarizeUsage([record({}), record({ provider: 'local-llm', model: 'llama3.1:8b', cost: null })])
+
+    expect(summary.unpricedCalls).toBe(1)
+    expect(summary.estimatedCost).toBe(0.000045)
+    expect(summary.breakdown.find(entry => entry.provider === 'local-llm')?.cost).toBeNull()
+  })
+
+  it('should group reports by day, ticket, endpoint, model and section', async () => {
+    const store = new InMemoryUsageStore()
+    await store.append(record({ timestamp: '2025-01-11T09:00:00.000Z', ticketId: 'PROJ-2', endpoint: 'update-canvas' }))
+    await store.append(record({ ticketId: 'PROJ-1', endpoint: 'analyze-ticket', section: 'testCases', cost: 0.01 }))
+    await store.append(record({ ticketId: 'PROJ-1', endpoint: 'analyze-ticket', model: 'gpt-4o', section: 'ticketSummary' }))
+    const tracker = new UsageTracker(store)
+
+    const byDay = await tracker.getReport({ groupBy: 'day' })
+    expect(byDay.groups.map(group => [group.key, group.calls])).toEqual([['2025-01-10', 2], ['2025-01-11', 1]])
+    expect(byDay.totals).toMatchObject({ calls: 3, totalTokens: 450, estimatedCost: 0.01009 })
+
+    const byTicket = await tracker.getReport({ groupBy: 'ticket' })
+    expect(byTicket.groups[0]).toMatchObject({ key: 'PROJ-1', calls: 2 })
+
+    const byModel = await tracker.getReport({ groupBy: 'model', endpoint: 'analyze-ticket' })
+    expect(byModel.groups.map(group => group.key)).toEqual(['openai/gpt-4o-mini', 'openai/gpt-4o'])
+
+    const bySection = await tracker.getReport({ groupBy: 'section', from: '2025-01-11' })
+    expect(bySection.groups).toEqual([expect.objectContaining({ key: 'unknown', calls: 1 })])
+
+    const byEndpoint = await tracker.getReport({ groupBy: 'endpoint', to: '2025-01-10', ticketId: 'PROJ-1' })
+    expect(byEndpoint.groups).toEqual([expect.objectContaining({ key: 'analyze-ticket', calls: 2 })])
+  })
+})
+
+describe('FileUsageStore', () => {
+  const directory = mkdtempSync(path.join(tmpdir(), 'usage-store-'))
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true })
+    vi.restoreAllMocks()
+  })
+
+  it('should append records to daily files and read them back by range', async () => {
+    const store = new FileUsageStore(directory)
+    await store.append(record({ timestamp: '2025-01-10T23:59:00.000Z' }))
+    await store.append(record({ timestamp: '2025-01-11T00:01:00.000Z' }))
+    await store.append(record({ timestamp: '2025-01-11T12:00:00.000Z' }))
+
+    expect(await store.list()).toHaveLength(3)
+    expect(await store.list({ from: '2025-01-11' })).toHaveLength(2)
+    expect(await store.list({ to: '2025-01-10' })).toHaveLength(1)
+    expect(await store.list({ from: '2025-01-11T06:00:00.000Z', to: '2025-01-11' })).toHaveLength(1)
+  })
+
+  it('should skip truncated lines and missing directories', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const store = new FileUsageStore(directory)
+    await store.append(record({}))
+    writeFileSync(path.join(directory, '2025-01-10.jsonl'), `${JSON.stringify(record({}))}\n{"timestamp": "2025-`, { flag: 'w' })
+
+    expect(await store.list()).toHaveLength(1)
+    expect(await new FileUsageStore(path.join(directory, 'missing')).list()).toEqual([])
+  })
+})
@@ -0,0 +1,73 @@
+/**
+ * Tests for the RESP client
+ * Covers replies, malformed replies and command timeouts against the local Redis stand-in
+ */
+
+import { describe, it, expect, afterEach } from 'vitest'
+import { RespClient, RespError, encodeCommand, parseReply, parseRedisUrl } from '../../../lib/utils/respClient'
+import { startRedisStandIn, type RedisStandIn } from '../../mocks/redisServer'
+
+describe('RespClient', () => {
+  let redis: RedisStandIn | undefined
+  let client: RespClient | undefined
+
+  afterEach(async () => {
+    await client?.quit()
+    await redis?.close()
+    client = undefined
+    redis = undefined
+  })
+
+  const connect = async (
+    reply?: (args: string[]) => string | null | undefined,
+    options: { commandTimeout?: number } = {}
+  ) => {
+    redis = await startRedisStandIn({ reply })
+    client = new RespClient({ ...parseRedisUrl(redis.url), ...options })
+    return client
+  }
+
+  it('should encode commands and parse nested replies', () => {
+    expect(encodeCommand(['SET', 'key', 1]).toString()).toBe('*3\r\n$3\r\nSET\r\n$3\r\nkey\r\n$1\r\n1\r\n')
+    expect(parseReply(Buffer.from('*2\r\n$1\r\na\r\n:2\r\n'), 0)).toEqual({ value: ['a', 2], offset: 15 })
+    expect(parseReply(Buffer.from('$5\r\nhel'), 0)).toBeNull()
+  })
+
+  it('should resolve replies in order and reject error replies', async () => {
+    const resp = await connect()
+
+    const [set, get, unknown] = await Promise.allSettled([
+      resp.command(['SET', 'key', 'value']),
+      resp.command(['GET', 'key']),
+      resp.command(['NOPE'])
+    ])
+
+    expect(set).toEqual({ status: 'fulfilled', value: 'OK' })
+    expect(get).toEqual({ status: 'fulfilled', value: 'value' })
+    expect(unknown.status).toBe('rejected')
+    expect((unknown as PromiseRejectedResult).reason).toBeInstanceOf(RespError)
+  })
+
+  it('should reject pending commands and reconnect after a malformed reply', async () => {
+    let malformed = true
+    const resp = await connect(([command]) => command === 'GET' && malformed ? '?garbage\r\n' : undefined)
+
+    const results = await Promise.allSettled([
+      resp.command(['GET', 'key']),
+      resp.command(['PING'])
+    ])
+
+    expect(results.map(result => result.status)).toEqual(['rejected', 'rejected'])
+    expect((results[0] as PromiseRejectedResult).reason.message).toBe('Unexpected RESP reply type "?"')
+
+    malformed = false
+    expect(await resp.command(['GET', 'key'])).toBeNull()
+  })
+
+  it('should time out commands the server never answers', async () => {
+    const resp = await connect(([command]) => command === 'GET' ? null : undefined, { commandTimeout: 50 })
+
+    await expect(resp.command(['GET', 'key'])).rejects.toThrow('Redis command GET timed out after 50ms')
+    expect(await resp.command(['PING'])).toBe('PONG')
+  })
+})
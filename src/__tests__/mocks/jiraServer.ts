@@ -0,0 +1,103 @@
+/**
+ * Local Jira stand-in serving the REST API v3 comment endpoints over HTTP
+ * Implements listing (paginated), adding and updating issue comments for publisher tests
+ */
+
+import http from 'http'
+import type { AddressInfo } from 'net'
+
+export interface JiraStandInComment {
+  id: string
+  body: unknown
+  created: string
+  updated: string
+}
+
+export interface JiraStandInRequest {
+  method: string
+  path: string
+  authorization?: string
+  body?: unknown
+}
+
+export interface JiraStandIn {
+  url: string
+  comments: Map<string, JiraStandInComment[]>
+  requests: JiraStandInRequest[]
+  close: () => Promise<void>
+}
+
+/**
+ * Start a stand-in server on a random local port
+ * Issues listed in `issues` exist; any other key answers 404 like Jira does
+ */
+export async function startJiraStandIn(options: { issues: string[]; pageSize?: number }): Promise<JiraStandIn> {
+  const comments = new Map<string, JiraStandInComment[]>(options.issues.map(key => [key, []]))
+  const requests: JiraStandInRequest[] = []
+  let nextId = 10000
+
+  const send = (res: http.ServerResponse, status: number, payload: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify(payload))
+  }
+
+  const server = http.createServer((req, res) => {
+    let raw = ''
+    req.on('data', chunk => { raw += chunk })
+    req.on('end', () => {
+      const url = new URL(req.url || '/', 'http://127.0.0.1')
+      const body = raw ? JSON.parse(raw) : undefined
+      requests.push({ method: req.method || 'GET', path: `${url.pathname}${url.search}`, authorization: req.headers.authorization, body })
+
+      const match = url.pathname.match(/^\/rest\/api\/3\/issue\/([^/]+)\/comment(?:\/([^/]+))?$/)
+      const issueComments = match ? comments.get(decodeURIComponent(match[1])) : undefined
+      if (!match || !issueComments) {
+        return send(res, 404, { errorMessages: ['Issue does not exist or you do not have permission to see it.'], errors: {} })
+      }
+
+      const commentId = match[2] && decodeURIComponent(match[2])
+      const now = new Date().toISOString()
+
+      if (req.method === 'GET' && !commentId) {
+        const startAt = Number(url.searchParams.get('startAt')) || 0
+        const maxResults = Math.min(Number(url.searchParams.get('maxResults')) || 50, options.pageSize ?? 50)
+        const ordered = url.searchParams.get('orderBy') === '-created' ? issueComments.slice().reverse() : issueComments
+        return send(res, 200, { startAt, maxResults, total: ordered.length, comments: ordered.slice(startAt, startAt + maxResults) })
+      }
+
+      if (req.method === 'POST' && !commentId) {
+        if (!body?.body || body.body.type !== 'doc') {
+          return send(res, 400, { errorMessages: [], errors: { comment: 'Comment body can not be empty!' } })
+        }
+        const comment = { id: String(nextId++), body: body.body, created: now, updated: now }
+        issueComments.push(comment)
+        return send(res, 201, comment)
+      }
+
+      if (req.method === 'PUT' && commentId) {
+        const comment = issueComments.find(existing => existing.id === commentId)
+        if (!comment) {
+          return send(res, 404, { errorMessages: [`Can not find a comment for the id: ${commentId}.`], errors: {} })
+        }
+        comment.body = body?.body
+        comment.updated = now
+        return send(res, 200, comment)
+      }
+
+      send(res, 405, { errorMessages: ['Method not allowed'], errors: {} })
+    })
+  })
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const port = (server.address() as AddressInfo).port
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    comments,
+    requests,
+    close: () => new Promise<void>(resolve => {
+      server.closeAllConnections()
+      server.close(() => resolve())
+    })
+  }
+}
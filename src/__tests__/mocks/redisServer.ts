@@ -0,0 +1,148 @@
+/**
+ * Local Redis stand-in speaking RESP2 over TCP
+ * Implements PING, AUTH, SELECT, GET, SET (with PX/EX) and DEL for adapter tests
+ * A reply override can send raw data for a command, or null to never answer it
+ */
+
+import net from 'net'
+
+export interface RedisStandIn {
+  port: number
+  url: string
+  data: Map<string, { value: string; expiresAt?: number }>
+  commands: string[][]
+  close: () => Promise<void>
+}
+
+/**
+ * Start a stand-in server on a random local port
+ */
+export async function startRedisStandIn(options: {
+  password?: string
+  reply?: (args: string[]) => string | null | undefined
+} = {}): Promise<RedisStandIn> {
+  const data = new Map<string, { value: string; expiresAt?: number }>()
+  const commands: string[][] = []
+  const sockets = new Set<net.Socket>()
+
+  const getLive = (key: string) => {
+    const entry = data.get(key)
+    if (entry?.expiresAt && Date.now() > entry.expiresAt) {
+      data.delete(key)
+      return undefined
+    }
+    return entry
+  }
+
+  const execute = (args: string[], session: { authenticated: boolean }): string | null => {
+    const [name, ...rest] = args
+    const command = name.toUpperCase()
+    commands.push([command, ...rest])
+
+    const override = options.reply?.([command, ...rest])
+    if (override !== undefined) return override
+
+    if (options.password && !session.authenticated && command !== 'AUTH') {
+      return '-NOAUTH Authentication required.\r\n'
+    }
+
+    switch (command) {
+      case 'PING':
+        return '+PONG\r\n'
+      case 'AUTH': {
+        const password = rest[rest.length - 1]
+        if (password !== options.password) return '-WRONGPASS invalid password\r\n'
+        session.authenticated = true
+        return '+OK\r\n'
+      }
+      case 'SELECT':
+        return '+OK\r\n'
+      case 'GET': {
+        const entry = getLive(rest[0])
+        return entry ? bulk(entry.value) : '$-1\r\n'
+      }
+      case 'SET': {
+        const [key, value, ...flags] = rest
+        let expiresAt: number | undefined
+        for (let i = 0; i < flags.length; i += 2) {
+          const flag = flags[i].toUpperCase()
+          if (flag === 'PX') expiresAt = Date.now() + Number(flags[i + 1])
+          if (flag === 'EX') expiresAt = Date.now() + Number(flags[i + 1]) * 1000
+        }
+        data.set(key, { value, expiresAt })
+        return '+OK\r\n'
+      }
+      case 'DEL': {
+        const removed = rest.filter(key => getLive(key) && data.delete(key)).length
+        return `:${removed}\r\n`
+      }
+      default:
+        return `-ERR unknown command '${name}'\r\n`
+    }
+  }
+
+  const server = net.createServer(socket => {
+    sockets.add(socket)
+    socket.on('close', () => sockets.delete(socket))
+
+    const session = { authenticated: false }
+    let buffer = Buffer.alloc(0)
+
+    socket.on('data', chunk => {
+      buffer = Buffer.concat([buffer, chunk])
+      let parsed = parseCommand(buffer)
+      while (parsed) {
+        buffer = buffer.subarray(parsed.offset)
+        const reply = execute(parsed.args, session)
+        if (reply !== null) socket.write(reply)
+        parsed = parseCommand(buffer)
+      }
+    })
+  })
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const port = (server.address() as net.AddressInfo).port
+
+  return {
+    port,
+    url: `redis://127.0.0.1:${port}`,
+    data,
+    commands,
+    close: () => new Promise<void>(resolve => {
+      sockets.forEach(socket => socket.destroy())
+      server.close(() => resolve())
+    })
+  }
+}
+
+function bulk(value: string): string {
+  return `$${Buffer.byteLength(value)}\r\n${value}\r\n`
+}
+
+/**
+ * Parse one RESP array of bulk strings; returns null when more data is needed
+ */
+function parseCommand(buffer: Buffer): { args: string[]; offset: number } | null {
+  if (buffer.length === 0 || buffer[0] !== 0x2a) return null
+
+  let lineEnd = buffer.indexOf('\r\n')
+  if (lineEnd === -1) return null
+
+  const count = Number(buffer.toString('utf-8', 1, lineEnd))
+  let offset = lineEnd + 2
+  const args: string[] = []
+
+  for (let i = 0; i < count; i++) {
+    lineEnd = buffer.indexOf('\r\n', offset)
+    if (lineEnd === -1) return null
+
+    const length = Number(buffer.toString('utf-8', offset + 1, lineEnd))
+    const start = lineEnd + 2
+    if (buffer.length < start + length + 2) return null
+
+    args.push(buffer.toString('utf-8', start, start + length))
+    offset = start + length + 2
+  }
+
+  return { args, offset }
+}
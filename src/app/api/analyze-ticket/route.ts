@@ -4,19 +4,38 @@ import {
   type TicketAnalysisPayload
 } from '@/lib/schemas/TicketAnalysisPayload'
 import {
-  type QACanvasDocument
+  type DocumentCacheInfo,
+  type ResponseCacheLookup
 } from '@/lib/schemas/QACanvasDocument'
 import { handleValidationError, handleAIError } from '@/lib/ai/errorHandler'
-import {
-  UncertaintyType
-} from '@/lib/ai/uncertaintyHandler'
+import { collectAssumptions } from '@/lib/analysis/ticketAnalyzer'
 import { v4 as uuidv4 } from 'uuid'
 import {
   processAndUploadImages,
   prepareAttachmentImages,
   prepareCommentImages
 } from '@/lib/utils/imageProcessor'
-import { generateQADocumentBySections } from '@/lib/ai/sectionGenerators'
+import {
+  assembleQADocument,
+  generateQADocumentBySections,
+  type SectionGenerationCallbacks
+} from '@/lib/ai/sectionGenerators'
+import { withProviderRouting, applyTicketRoutingPolicy } from '@/lib/ai/providerRegistry'
+import { documentHistory } from '@/lib/history/documentHistory'
+import { withUsageTracking, attributeUsage } from '@/lib/usage/usageTracker'
+import { budgetGuard } from '@/lib/usage/budgets'
+import {
+  responseCache,
+  getCacheDirectives,
+  summarizeSectionCache,
+  type CacheDirectives
+} from '@/lib/cache/responseCache'
+import {
+  acceptsEventStream,
+  createSSEStream,
+  SSE_HEADERS,
+  type SSESend
+} from '@/lib/utils/serverSentEvents'
 
 /**
  * Handle CORS preflight requests
@@ -27,7 +46,7 @@ export async function OPTIONS() {
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, Accept, Cache-Control, X-API-Key, X-Team-Id',
       'Access-Control-Max-Age': '86400',
     },
   })
@@ -38,8 +57,22 @@ export async function OPTIONS() {
  * 
  * Analyzes a Jira ticket and generates comprehensive QA documentation
  * using AI-powered analysis with structured output.
+ *
+ * Clients sending `Accept: text/event-stream` receive each section as an
+ * SSE event as soon as its generator resolves, followed by `complete`.
+ *
+ * Tickets matching ON_PREM_TICKET_PATTERNS are only sent to on-prem providers.
+ * Token usage and estimated cost are reported in `metadata.usage`; teams over their
+ * AI budget get BUDGET_EXCEEDED and teams close to it get `metadata.budgetWarnings`.
+ *
+ * Sections of unchanged tickets are served from the response cache (see `metadata.cache`);
+ * `Cache-Control: no-cache` regenerates them.
  */
 export async function POST(request: NextRequest) {
+  return withUsageTracking('analyze-ticket', () => withProviderRouting(() => analyzeTicket(request)))
+}
+
+async function analyzeTicket(request: NextRequest) {
   // Generate a unique request ID for tracking and debugging
   const requestId = uuidv4()
   const requestStartTime = Date.now()
@@ -78,49 +111,26 @@ export async function POST(request: NextRequest) {
     }
 
     const { qaProfile, ticketJson }: TicketAnalysisPayload = validationResult.data
+    applyTicketRoutingPolicy(ticketJson.issueKey, requestId)
+    attributeUsage({ requestId, ticketId: ticketJson.issueKey, team: budgetGuard.resolveTeam(request.headers) })
+    await budgetGuard.enforce()
 
     // Document any assumptions we need to make based on the input data
     const assumptionsStartTime = Date.now()
-    const assumptions = []
-
-    // Check for potential configuration issues
-    if (!qaProfile.testCaseFormat) {
-      assumptions.push({
-        type: UncertaintyType.MISSING_CONTEXT,
-        description: 'No test case format specified, defaulting to Gherkin format',
-        alternatives: ['Step-by-step', 'Table format'],
-        confidence: 0.7,
-        impact: 'medium'
-      })
-    }
+    const assumptions = collectAssumptions(qaProfile, ticketJson)
+    const assumptionsTime = Date.now() - assumptionsStartTime
+    console.log(`🔍 [${requestId}] Assumptions analysis completed in ${assumptionsTime}ms (${assumptions.length} assumptions)`)
 
-    // Check for minimal ticket information
-    if (!ticketJson.description || ticketJson.description.trim().length < 50) {
-      assumptions.push({
-        type: UncertaintyType.MISSING_CONTEXT,
-        description: 'Limited ticket description provided, may affect quality of generated test cases',
-        confidence: 0.9,
-        impact: 'high'
-      })
-    }
+    const cacheDirectives = getCacheDirectives(request.headers)
 
-    // Check for potential conflicts in QA categories
-    const activeCategories = Object.entries(qaProfile.qaCategories)
-      .filter(([, active]) => active)
-      .map(([category]) => category)
-
-    if (activeCategories.includes('api') && !ticketJson.description.toLowerCase().includes('api')) {
-      assumptions.push({
-        type: UncertaintyType.CONFLICTING_REQUIREMENTS,
-        description: 'API testing category is enabled but ticket may not involve API functionality',
-        confidence: 0.6,
-        impact: 'medium'
-      })
+    if (acceptsEventStream(request)) {
+      console.log(`📡 [${requestId}] Client requested event stream, switching to streaming mode`)
+      return new Response(
+        createSSEStream(send => streamTicketAnalysis(send, qaProfile, ticketJson, assumptions, cacheDirectives, requestId, requestStartTime)),
+        { status: 200, headers: SSE_HEADERS }
+      )
     }
 
-    const assumptionsTime = Date.now() - assumptionsStartTime
-    console.log(`🔍 [${requestId}] Assumptions analysis completed in ${assumptionsTime}ms (${assumptions.length} assumptions)`)
-
     // Build comprehensive system prompt for QA analysis
     const promptStartTime = Date.now()
     const systemPrompt = `You are a world-class QA analyst tasked with creating comprehensive test documentation. 
@@ -138,70 +148,7 @@ Always follow these principles:
 - Ensure all requirements are testable and measurable`
 
     // Process and upload images if includeImages is enabled
-    let uploadedImages: any[] = []
-    let imageAttachments: any[] = []
-    let commentImages: any[] = []
-
-    const imageProcessingStartTime = Date.now()
-    if (qaProfile.includeImages) {
-      console.log(`🖼️ [${requestId}] Processing images (includeImages = true)...`)
-
-      // Prepare images for upload
-      const attachmentImages = prepareAttachmentImages(ticketJson.attachments)
-      const commentImageData = prepareCommentImages(ticketJson.comments)
-
-      console.log(`📎 Prepared ${attachmentImages.length} attachment images`)
-      console.log(`💬 Prepared ${commentImageData.length} comment images`)
-
-      // Upload images internally and get URLs
-      const allImages = [...attachmentImages, ...commentImageData]
-
-      if (allImages.length > 0) {
-        console.log(`🚀 Processing ${allImages.length} images internally...`)
-
-        try {
-          const imageUploadStartTime = Date.now()
-          uploadedImages = await processAndUploadImages(allImages)
-          const imageUploadTime = Date.now() - imageUploadStartTime
-          console.log(`✅ [${requestId}] Successfully processed ${uploadedImages.length} images in ${imageUploadTime}ms`)
-
-          // Log processed image details
-          uploadedImages.forEach((img: any, i: number) => {
-            console.log(`   ${i + 1}. ${img.originalName} -> ${img.url}`)
-            console.log(`       📏 Size: ${(img.size / 1024).toFixed(1)}KB (was ${(img.originalSize / 1024).toFixed(1)}KB)`)
-            console.log(`       📐 Dimensions: ${img.dimensions.width}x${img.dimensions.height}`)
-            console.log(`       🔧 Processed: ${img.processed ? 'Yes' : 'No'}`)
-            if (img.processingInfo) {
-              console.log(`       ⚙️ Processing: Quality=${img.processingInfo.qualityApplied}%, Resized=${img.processingInfo.resized}, Compressed=${img.processingInfo.compressed}`)
-            }
-            console.log(`       🌐 URL: ${img.absoluteUrl}`)
-          })
-
-          // Separate uploaded images by source
-          imageAttachments = uploadedImages.filter(img => img.source === 'attachment')
-          commentImages = uploadedImages.filter(img => img.source === 'comment')
-
-          console.log(`📊 Final counts: ${imageAttachments.length} attachments, ${commentImages.length} comments`)
-        } catch (uploadError) {
-          const imageUploadTime = Date.now() - imageProcessingStartTime
-          console.error(`❌ [${requestId}] Failed to process images after ${imageUploadTime}ms:`, uploadError)
-          // Continue without images
-          imageAttachments = []
-          commentImages = []
-        }
-      } else {
-        console.log(`ℹ️ [${requestId}] No images to process`)
-      }
-    } else {
-      // Just get image info without uploading
-      imageAttachments = ticketJson.attachments.filter(attachment =>
-        attachment.mime.startsWith('image/') && !attachment.tooBig
-      )
-      commentImages = ticketJson.comments.flatMap(comment => comment.images || [])
-    }
-
-    const imageProcessingTime = Date.now() - imageProcessingStartTime
-    console.log(`🖼️ [${requestId}] Image processing phase completed in ${imageProcessingTime}ms`)
+    const { imageProcessingTime } = await processTicketImages(qaProfile, ticketJson, requestId)
 
     const promptTime = Date.now() - promptStartTime
     console.log(`📝 [${requestId}] Prompt construction completed in ${promptTime}ms`)
@@ -213,38 +160,23 @@ Always follow these principles:
     try {
       // Use parallel section generation for improved performance
       console.log(`🚀 [${requestId}] Using parallel section generation...`)
+      const cacheLookups: Record<string, ResponseCacheLookup | undefined> = {}
       const generatedDocumentBase = await generateQADocumentBySections(
         ticketJson,
         qaProfile,
         assumptions,
-        requestId
+        requestId,
+        collectCacheLookups(cacheLookups),
+        { cache: responseCache, ...cacheDirectives }
       )
       
       const generationTime = Date.now() - aiGenerationStartTime
       console.log(`🤖 [${requestId}] AI document generation completed in ${generationTime}ms`)
 
       // Add metadata to complete the document structure (wordCount calculated after)
-      const generatedDocument: QACanvasDocument = {
-        ...generatedDocumentBase,
-        metadata: {
-          generatedAt: new Date().toISOString(),
-          qaProfile,
-          ticketId: ticketJson.issueKey,
-          documentVersion: '1.0',
-          aiModel: (() => {
-            const primaryProvider = process.env.PRIMARY_PROVIDER || 'openai';
-            return primaryProvider === 'openai'
-              ? (process.env.OPENAI_MODEL || 'gpt-4o-mini')
-              : (process.env.ANTHROPIC_MODEL || 'claude-3-5-haiku-20241022');
-          })(),
-          generationTime,
-          wordCount: 0, // Will be calculated below
-          regenerationReason: assumptions.length > 0 ? `Generated with ${assumptions.length} assumptions` : undefined
-        }
-      }
-      
-      // Calculate word count now that we have the complete document
-      generatedDocument.metadata.wordCount = estimateWordCount(generatedDocument)
+      const cacheInfo = summarizeSectionCache(cacheLookups, cacheDirectives)
+      logCacheInfo(cacheInfo, requestId)
+      const generatedDocument = assembleQADocument(generatedDocumentBase, qaProfile, ticketJson, assumptions, generationTime, cacheInfo)
 
       // Debug: Log the generated document structure
       console.log('Generated document structure:', JSON.stringify(generatedDocument, null, 2))
@@ -278,13 +210,19 @@ Always follow these principles:
 
       // Document enhancement (metadata already added above)
       const enhancementStartTime = Date.now()
-      const enhancedDocument = generatedDocument
+
+      // Record the version; the stored copy carries the bumped version when the ticket was analyzed before
+      const historyRecord = await documentHistory.tryRecordVersion(generatedDocument, 'analyze-ticket', { requestId })
+      const enhancedDocument = historyRecord?.document || generatedDocument
 
       const enhancementTime = Date.now() - enhancementStartTime
       const totalRequestTime = Date.now() - requestStartTime
 
       console.log(`✅ [${requestId}] Document enhancement completed in ${enhancementTime}ms`)
       console.log(`🎯 [${requestId}] TOTAL REQUEST TIME: ${totalRequestTime}ms`)
+      if (enhancedDocument.metadata.usage) {
+        console.log(`💰 [${requestId}] Token usage: ${enhancedDocument.metadata.usage.totalTokens} tokens in ${enhancedDocument.metadata.usage.calls} calls, ~$${enhancedDocument.metadata.usage.estimatedCost}`)
+      }
       console.log(`📊 [${requestId}] Timing breakdown:`)
       console.log(`   - Parsing: ${parseTime}ms`)
       console.log(`   - Validation: ${validationTime}ms`)
@@ -318,56 +256,170 @@ Always follow these principles:
 }
 
 /**
- * Helper function to estimate word count in the generated document
+ * Process ticket images according to the QA profile
+ * Uploads images when includeImages is enabled, otherwise only collects their info
  */
-function estimateWordCount(document: QACanvasDocument): number {
-  let wordCount = 0
-
-  // Count words in ticket summary
-  wordCount += countWords(document.ticketSummary.problem)
-  wordCount += countWords(document.ticketSummary.solution)
-  wordCount += countWords(document.ticketSummary.context)
-
-  // Count words in configuration warnings
-  document.configurationWarnings.forEach(warning => {
-    wordCount += countWords(warning.message)
-    wordCount += countWords(warning.recommendation)
-  })
+async function processTicketImages(
+  qaProfile: TicketAnalysisPayload['qaProfile'],
+  ticketJson: TicketAnalysisPayload['ticketJson'],
+  requestId: string
+): Promise<{
+  uploadedImages: any[]
+  imageAttachments: any[]
+  commentImages: any[]
+  imageProcessingTime: number
+}> {
+  let uploadedImages: any[] = []
+  let imageAttachments: any[] = []
+  let commentImages: any[] = []
+
+  const imageProcessingStartTime = Date.now()
+  if (qaProfile.includeImages) {
+    console.log(`🖼️ [${requestId}] Processing images (includeImages = true)...`)
+
+    // Prepare images for upload
+    const attachmentImages = prepareAttachmentImages(ticketJson.attachments)
+    const commentImageData = prepareCommentImages(ticketJson.comments)
+
+    console.log(`📎 Prepared ${attachmentImages.length} attachment images`)
+    console.log(`💬 Prepared ${commentImageData.length} comment images`)
+
+    // Upload images internally and get URLs
+    const allImages = [...attachmentImages, ...commentImageData]
+
+    if (allImages.length > 0) {
+      console.log(`🚀 Processing ${allImages.length} images internally...`)
+
+      try {
+        const imageUploadStartTime = Date.now()
+        uploadedImages = await processAndUploadImages(allImages)
+        const imageUploadTime = Date.now() - imageUploadStartTime
+        console.log(`✅ [${requestId}] Successfully processed ${uploadedImages.length} images in ${imageUploadTime}ms`)
+
+        // Log processed image details
+        uploadedImages.forEach((img: any, i: number) => {
+          console.log(`   ${i + 1}. ${img.originalName} -> ${img.url}`)
+          console.log(`       📏 Size: ${(img.size / 1024).toFixed(1)}KB (was ${(img.originalSize / 1024).toFixed(1)}KB)`)
+          console.log(`       📐 Dimensions: ${img.dimensions.width}x${img.dimensions.height}`)
+          console.log(`       🔧 Processed: ${img.processed ? 'Yes' : 'No'}`)
+          if (img.processingInfo) {
+            console.log(`       ⚙️ Processing: Quality=${img.processingInfo.qualityApplied}%, Resized=${img.processingInfo.resized}, Compressed=${img.processingInfo.compressed}`)
+          }
+          console.log(`       🌐 URL: ${img.absoluteUrl}`)
+        })
+
+        // Separate uploaded images by source
+        imageAttachments = uploadedImages.filter(img => img.source === 'attachment')
+        commentImages = uploadedImages.filter(img => img.source === 'comment')
+
+        console.log(`📊 Final counts: ${imageAttachments.length} attachments, ${commentImages.length} comments`)
+      } catch (uploadError) {
+        const imageUploadTime = Date.now() - imageProcessingStartTime
+        console.error(`❌ [${requestId}] Failed to process images after ${imageUploadTime}ms:`, uploadError)
+        // Continue without images
+        imageAttachments = []
+        commentImages = []
+      }
+    } else {
+      console.log(`ℹ️ [${requestId}] No images to process`)
+    }
+  } else {
+    // Just get image info without uploading
+    imageAttachments = ticketJson.attachments.filter(attachment =>
+      attachment.mime.startsWith('image/') && !attachment.tooBig
+    )
+    commentImages = ticketJson.comments.flatMap(comment => comment.images || [])
+  }
 
-  // Count words in acceptance criteria
-  document.acceptanceCriteria.forEach(criterion => {
-    wordCount += countWords(criterion.title)
-    wordCount += countWords(criterion.description)
-  })
+  const imageProcessingTime = Date.now() - imageProcessingStartTime
+  console.log(`🖼️ [${requestId}] Image processing phase completed in ${imageProcessingTime}ms`)
 
-  // Count words in test cases
-  document.testCases.forEach(testCase => {
-    if (testCase.format === 'gherkin') {
-      wordCount += countWords(testCase.testCase.scenario)
-      testCase.testCase.given.forEach(given => wordCount += countWords(given))
-      testCase.testCase.when.forEach(when => wordCount += countWords(when))
-      testCase.testCase.then.forEach(then => wordCount += countWords(then))
-    } else if (testCase.format === 'steps') {
-      wordCount += countWords(testCase.testCase.title)
-      wordCount += countWords(testCase.testCase.objective)
-      testCase.testCase.steps.forEach(step => {
-        wordCount += countWords(step.action)
-        wordCount += countWords(step.expectedResult)
-      })
-    } else if (testCase.format === 'table') {
-      wordCount += countWords(testCase.testCase.title)
-      wordCount += countWords(testCase.testCase.description)
-      wordCount += countWords(testCase.testCase.expectedOutcome)
+  return { uploadedImages, imageAttachments, commentImages, imageProcessingTime }
+}
+
+/**
+ * Section callbacks recording each section's response cache lookup
+ */
+function collectCacheLookups(lookups: Record<string, ResponseCacheLookup | undefined>): SectionGenerationCallbacks {
+  return {
+    onSectionComplete: (section, _data, _duration, cache) => {
+      lookups[section] = cache
     }
-  })
+  }
+}
+
+function logCacheInfo(cacheInfo: DocumentCacheInfo | undefined, requestId: string): void {
+  if (!cacheInfo) return
 
-  return wordCount
+  const cached = Object.entries(cacheInfo.sections).filter(([, lookup]) => lookup.hit).map(([section]) => section)
+  console.log(`🗄️ [${requestId}] Response cache: ${cached.length}/${Object.keys(cacheInfo.sections).length} sections cached${cacheInfo.bypassed ? ' (bypassed by Cache-Control)' : ''}${cached.length ? ` (${cached.join(', ')})` : ''}`)
 }
 
 /**
- * Helper function to count words in a string
+ * Run the analysis pipeline emitting SSE events as each stage finishes
+ *
+ * Events: progress, images, section (one per generator), complete, error
  */
-function countWords(text: string | undefined | null): number {
-  if (!text) return 0
-  return text.trim().split(/\s+/).filter(word => word.length > 0).length
-}
\ No newline at end of file
+async function streamTicketAnalysis(
+  send: SSESend,
+  qaProfile: TicketAnalysisPayload['qaProfile'],
+  ticketJson: TicketAnalysisPayload['ticketJson'],
+  assumptions: any[],
+  cacheDirectives: CacheDirectives,
+  requestId: string,
+  requestStartTime: number
+): Promise<void> {
+  const timings: Record<string, number> = {}
+
+  try {
+    send('progress', { requestId, stage: 'validated', elapsed: Date.now() - requestStartTime })
+
+    send('progress', { requestId, stage: 'processing_images', elapsed: Date.now() - requestStartTime })
+    const { uploadedImages, imageAttachments, commentImages, imageProcessingTime } =
+      await processTicketImages(qaProfile, ticketJson, requestId)
+    timings.imageProcessing = imageProcessingTime
+
+    send('images', {
+      includeImages: qaProfile.includeImages,
+      processed: uploadedImages.length,
+      attachments: imageAttachments.length,
+      comments: commentImages.length,
+      images: uploadedImages.map(img => ({
+        originalName: img.originalName,
+        url: img.url,
+        source: img.source,
+        size: img.size
+      })),
+      duration: imageProcessingTime
+    })
+
+    send('progress', { requestId, stage: 'generating_sections', elapsed: Date.now() - requestStartTime })
+    const aiGenerationStartTime = Date.now()
+
+    const cacheLookups: Record<string, ResponseCacheLookup | undefined> = {}
+    const sections = await generateQADocumentBySections(ticketJson, qaProfile, assumptions, requestId, {
+      onSectionComplete: (section, data, duration, cache) => {
+        timings[section] = duration
+        cacheLookups[section] = cache
+        send('section', { section, data, duration, cached: cache?.hit ?? false })
+      }
+    }, { cache: responseCache, ...cacheDirectives })
+
+    const generationTime = Date.now() - aiGenerationStartTime
+    timings.aiGeneration = generationTime
+
+    const cacheInfo = summarizeSectionCache(cacheLookups, cacheDirectives)
+    logCacheInfo(cacheInfo, requestId)
+    const generatedDocument = assembleQADocument(sections, qaProfile, ticketJson, assumptions, generationTime, cacheInfo)
+    const historyRecord = await documentHistory.tryRecordVersion(generatedDocument, 'analyze-ticket', { requestId })
+    const document = historyRecord?.document || generatedDocument
+    timings.total = Date.now() - requestStartTime
+
+    console.log(`🎯 [${requestId}] STREAMED REQUEST TIME: ${timings.total}ms`)
+    send('complete', { requestId, metadata: document.metadata, timings })
+  } catch (error) {
+    console.error(`❌ [${requestId}] Error while streaming /api/analyze-ticket after ${Date.now() - requestStartTime}ms:`, error)
+    const errorResponse = handleAIError(error, requestId)
+    send('error', { status: errorResponse.status, ...(await errorResponse.json()) })
+  }
+}
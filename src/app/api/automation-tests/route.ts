@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { v4 as uuidv4 } from 'uuid'
+import { qaCanvasDocumentSchema } from '@/lib/schemas/QACanvasDocument'
+import { ticketInputSchema } from '@/lib/ingestion'
+import { handleValidationError, handleAIError } from '@/lib/ai/errorHandler'
+import { exportDocument } from '@/lib/export'
+import { collectScreenshots, proposeSelectors, selectorProposalSchema } from '@/lib/ai/selectorProposer'
+import { withProviderRouting, applyTicketRoutingPolicy } from '@/lib/ai/providerRegistry'
+import { withUsageTracking, attributeUsage } from '@/lib/usage/usageTracker'
+import { budgetGuard, BudgetExceededError } from '@/lib/usage/budgets'
+
+/**
+ * Schema for automation test request payload
+ */
+const automationTestsPayloadSchema = z.object({
+  document: qaCanvasDocumentSchema,
+  framework: z.enum(['playwright', 'cypress']).default('playwright'),
+  options: z.object({
+    baseUrl: z.string().optional(),
+    ticketBaseUrl: z.string().optional(),
+    selectors: z.array(selectorProposalSchema).optional()
+  }).default({}),
+  proposeSelectors: z.boolean().default(false).describe('Ask the AI for selectors based on the ticket screenshots'),
+  ticketJson: ticketInputSchema.optional()
+})
+
+/**
+ * Handle CORS preflight requests
+ */
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key, X-Team-Id',
+      'Access-Control-Max-Age': '86400',
+    },
+  })
+}
+
+/**
+ * POST /api/automation-tests
+ * Generates a Playwright or Cypress spec skeleton from the steps and gherkin test cases
+ * With proposeSelectors, the AI fills in locators it can see on the ticket's screenshots; the skeleton is returned even when that fails
+ */
+export async function POST(request: NextRequest) {
+  return withUsageTracking('automation-tests', () => withProviderRouting(() => createAutomationTests(request)))
+}
+
+async function createAutomationTests(request: NextRequest) {
+  const requestId = uuidv4()
+
+  try {
+    const body = await request.json()
+    const validationResult = automationTestsPayloadSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return handleValidationError(validationResult.error.issues, requestId)
+    }
+
+    const { document, framework, options, ticketJson } = validationResult.data
+    const warnings: string[] = []
+    let proposedSelectors: z.infer<typeof selectorProposalSchema>[] = []
+
+    if (validationResult.data.proposeSelectors) {
+      const screenshots = ticketJson ? collectScreenshots(ticketJson) : []
+      if (screenshots.length === 0) {
+        warnings.push('No screenshots attached to the ticket; locators are left as TODO')
+      } else {
+        // Screenshots leave the server here, so the ticket's routing policy and the team budget apply
+        applyTicketRoutingPolicy(document.metadata.ticketId, requestId)
+        if (ticketJson) {
+          applyTicketRoutingPolicy(ticketJson.issueKey, requestId)
+        }
+        attributeUsage({ requestId, ticketId: document.metadata.ticketId, team: budgetGuard.resolveTeam(request.headers) })
+        await budgetGuard.enforce()
+
+        try {
+          proposedSelectors = await proposeSelectors(document, screenshots, requestId)
+        } catch (selectorError) {
+          warnings.push(`Selector proposal failed; locators are left as TODO (${selectorError instanceof Error ? selectorError.message : String(selectorError)})`)
+        }
+      }
+    }
+
+    // Selectors sent by the caller take precedence over proposed ones for the same step
+    const selectors = [
+      ...(options.selectors || []),
+      ...proposedSelectors.filter(proposal => !(options.selectors || []).some(item => item.testCaseId === proposal.testCaseId && item.step === proposal.step))
+    ]
+    const { content, fileName } = exportDocument(document, framework, { ...options, selectors })
+    const skippedTestCases = document.testCases.filter(testCase => testCase.format === 'table').map(testCase => testCase.id)
+    console.log(`🤖 [${requestId}] ${framework} skeleton for ${document.metadata.ticketId}: ${document.testCases.length - skippedTestCases.length} tests, ${proposedSelectors.length} proposed selectors`)
+
+    return NextResponse.json({
+      ticketId: document.metadata.ticketId,
+      framework,
+      fileName,
+      content,
+      proposedSelectors,
+      skippedTestCases,
+      warnings
+    }, {
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      }
+    })
+  } catch (error) {
+    console.error(`❌ [${requestId}] Error in /api/automation-tests:`, error)
+    if (error instanceof BudgetExceededError) {
+      return handleAIError(error, requestId)
+    }
+    return NextResponse.json(
+      {
+        error: 'AUTOMATION_TESTS_ERROR',
+        message: 'Failed to generate automation tests',
+        details: error instanceof Error ? error.message : String(error),
+        requestId
+      },
+      {
+        status: 500,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'POST, OPTIONS',
+          'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        }
+      }
+    )
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { v4 as uuidv4 } from 'uuid'
+import { qaCanvasDocumentSchema } from '@/lib/schemas/QACanvasDocument'
+import { ticketInputSchema } from '@/lib/ingestion'
+import { handleValidationError } from '@/lib/ai/errorHandler'
+import { generateBoundaryTestCases } from '@/lib/analysis/boundaryValues'
+
+/**
+ * Schema for boundary test request payload
+ */
+const boundaryTestsPayloadSchema = z.object({
+  document: qaCanvasDocumentSchema,
+  ticketJson: ticketInputSchema.optional()
+})
+
+/**
+ * Handle CORS preflight requests
+ */
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Max-Age': '86400',
+    },
+  })
+}
+
+/**
+ * POST /api/boundary-tests
+ * Derives boundary value and equivalence class test cases from the constrained inputs in the criteria and ticket
+ * The test cases are not added to the document; send action "add-boundary-tests" to /api/update-canvas for that
+ */
+export async function POST(request: NextRequest) {
+  const requestId = uuidv4()
+
+  try {
+    const body = await request.json()
+    const validationResult = boundaryTestsPayloadSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return handleValidationError(validationResult.error.issues, requestId)
+    }
+
+    const { document, ticketJson } = validationResult.data
+    const { constraints, testCases } = generateBoundaryTestCases(document, ticketJson)
+    console.log(`🎯 [${requestId}] Boundary tests for ${document.metadata.ticketId}: ${constraints.length} constrained inputs, ${testCases.length} test cases`)
+
+    return NextResponse.json({ ticketId: document.metadata.ticketId, constraints, testCases }, {
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      }
+    })
+  } catch (error) {
+    console.error(`❌ [${requestId}] Error in /api/boundary-tests:`, error)
+    return NextResponse.json(
+      {
+        error: 'BOUNDARY_TESTS_ERROR',
+        message: 'Failed to generate boundary value test cases',
+        details: error instanceof Error ? error.message : String(error),
+        requestId
+      },
+      {
+        status: 500,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'POST, OPTIONS',
+          'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        }
+      }
+    )
+  }
+}
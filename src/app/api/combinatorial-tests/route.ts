@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { v4 as uuidv4 } from 'uuid'
+import { qaCanvasDocumentSchema } from '@/lib/schemas/QACanvasDocument'
+import { ticketInputSchema } from '@/lib/ingestion'
+import { handleValidationError } from '@/lib/ai/errorHandler'
+import { CombinationInputError, generateCombinatorialTestCase } from '@/lib/analysis/combinatorialTesting'
+
+const conditionSchema = z.record(z.union([z.string(), z.array(z.string()).min(1)]))
+
+/**
+ * Schema for combinatorial test request payload
+ */
+const combinatorialTestsPayloadSchema = z.object({
+  parameters: z.array(z.object({
+    name: z.string().min(1),
+    values: z.array(z.string()).min(1).max(50, 'A parameter has at most 50 values')
+  })).max(50, 'At most 50 parameters can be combined').optional(),
+  constraints: z.array(z.object({
+    when: conditionSchema,
+    then: conditionSchema.optional()
+  })).default([]),
+  strength: z.number().int().min(2).max(6).default(2),
+  document: qaCanvasDocumentSchema.optional(),
+  ticketJson: ticketInputSchema.optional(),
+  title: z.string().optional(),
+  expectedOutcome: z.string().optional()
+}).refine(
+  payload => (payload.parameters && payload.parameters.length > 0) || payload.document || payload.ticketJson,
+  { message: 'Provide parameters, or a document or ticketJson to extract them from', path: ['parameters'] }
+)
+
+/**
+ * Handle CORS preflight requests
+ */
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Max-Age': '86400',
+    },
+  })
+}
+
+/**
+ * POST /api/combinatorial-tests
+ * Builds a pairwise (or n-wise) table test case covering every combination of parameter values
+ * Parameters are supplied by the caller or extracted from the document criteria and ticket
+ */
+export async function POST(request: NextRequest) {
+  const requestId = uuidv4()
+
+  try {
+    const body = await request.json()
+    const validationResult = combinatorialTestsPayloadSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return handleValidationError(validationResult.error.issues, requestId)
+    }
+
+    const { document, ticketJson, ...input } = validationResult.data
+    let result: ReturnType<typeof generateCombinatorialTestCase>
+    try {
+      result = generateCombinatorialTestCase({ ...input, document, ticket: ticketJson })
+    } catch (inputError) {
+      if (!(inputError instanceof CombinationInputError)) throw inputError
+      return handleValidationError(
+        inputError.issues.map(message => ({ path: ['parameters'], message, code: 'custom' })),
+        requestId
+      )
+    }
+
+    const { parameters, testCase, coverage } = result
+    console.log(`🧮 [${requestId}] Combinatorial tests: ${parameters.length} parameters, ${coverage.rows} rows of ${coverage.exhaustiveCombinations} exhaustive combinations`)
+
+    return NextResponse.json({ ticketId: document?.metadata.ticketId ?? ticketJson?.issueKey, parameters, testCase, coverage }, {
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      }
+    })
+  } catch (error) {
+    console.error(`❌ [${requestId}] Error in /api/combinatorial-tests:`, error)
+    return NextResponse.json(
+      {
+        error: 'COMBINATORIAL_TESTS_ERROR',
+        message: 'Failed to generate combinatorial test cases',
+        details: error instanceof Error ? error.message : String(error),
+        requestId
+      },
+      {
+        status: 500,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'POST, OPTIONS',
+          'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        }
+      }
+    )
+  }
+}
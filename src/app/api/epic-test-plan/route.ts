@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { v4 as uuidv4 } from 'uuid'
+import { ticketInputSchema } from '@/lib/ingestion'
+import { qaProfileSchema } from '@/lib/schemas/QAProfile'
+import { qaCanvasDocumentSchema } from '@/lib/schemas/QACanvasDocument'
+import { handleValidationError, handleAIError } from '@/lib/ai/errorHandler'
+import { generateEndToEndScenarios } from '@/lib/ai/sectionGenerators'
+import { withProviderRouting, applyTicketRoutingPolicy } from '@/lib/ai/providerRegistry'
+import { buildEpicTestPlan } from '@/lib/analysis/epicTestPlan'
+import { withUsageTracking, attributeUsage, usageTracker } from '@/lib/usage/usageTracker'
+import { budgetGuard, getBudgetWarnings } from '@/lib/usage/budgets'
+
+/**
+ * Schema for epic test plan request payload
+ */
+const epicTestPlanPayloadSchema = z.object({
+  epicKey: z.string().optional().describe('Defaults to the ticket whose issue type is Epic'),
+  tickets: z.array(z.object({
+    ticketJson: ticketInputSchema,
+    document: qaCanvasDocumentSchema
+  })).min(2, 'A test plan needs at least two tickets').max(30, 'A test plan covers at most 30 tickets'),
+  qaProfile: qaProfileSchema.optional().describe('Defaults to the profile stored in the first document')
+}).refine(payload => new Set(payload.tickets.map(ticket => ticket.ticketJson.issueKey)).size === payload.tickets.length, {
+  message: 'Each ticket can only be included once',
+  path: ['tickets']
+}).refine(payload => payload.tickets.every(ticket => ticket.document.metadata.ticketId === ticket.ticketJson.issueKey), {
+  message: 'Each document must belong to its ticket',
+  path: ['tickets']
+})
+
+/**
+ * Handle CORS preflight requests
+ */
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key, X-Team-Id',
+      'Access-Control-Max-Age': '86400',
+    },
+  })
+}
+
+/**
+ * POST /api/epic-test-plan
+ * Consolidates the QA documents of an epic and its stories into a release-level test plan:
+ * deduplicated end-to-end scenarios, integration risks, shared test data and a suggested execution order
+ */
+export async function POST(request: NextRequest) {
+  return withUsageTracking('epic-test-plan', () => withProviderRouting(() => createEpicTestPlan(request)))
+}
+
+async function createEpicTestPlan(request: NextRequest) {
+  const requestId = uuidv4()
+  const requestStartTime = Date.now()
+
+  try {
+    const body = await request.json()
+    const validationResult = epicTestPlanPayloadSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return handleValidationError(validationResult.error.issues, requestId)
+    }
+
+    const { tickets } = validationResult.data
+    const qaProfile = validationResult.data.qaProfile || tickets[0].document.metadata.qaProfile
+    const epicKey = validationResult.data.epicKey
+      ?? tickets.find(ticket => ticket.ticketJson.issueType.toLowerCase() === 'epic')?.ticketJson.issueKey
+    const usageTicketId = epicKey ?? tickets[0].ticketJson.issueKey
+
+    // Every story's ticket and document goes to the AI, so one on-prem ticket restricts the whole plan
+    applyTicketRoutingPolicy(epicKey, requestId)
+    tickets.forEach(ticket => applyTicketRoutingPolicy(ticket.ticketJson.issueKey, requestId))
+    attributeUsage({ requestId, ticketId: usageTicketId, team: budgetGuard.resolveTeam(request.headers) })
+    await budgetGuard.enforce()
+
+    console.log(`📦 [${requestId}] Building test plan for ${epicKey || 'release'} across ${tickets.length} tickets`)
+
+    const generated = await generateEndToEndScenarios(tickets, qaProfile, requestId)
+    const testPlan = buildEpicTestPlan(tickets, generated, epicKey)
+
+    console.log(`🎯 [${requestId}] Epic test plan completed in ${Date.now() - requestStartTime}ms (${testPlan.scenarios.length} scenarios, ${testPlan.integrationRisks.length} risks)`)
+
+    return NextResponse.json({
+      testPlan,
+      usage: usageTracker.getRequestSummary(),
+      budgetWarnings: getBudgetWarnings(),
+      requestId
+    }, {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      }
+    })
+  } catch (error) {
+    console.error(`❌ [${requestId}] Error in /api/epic-test-plan after ${Date.now() - requestStartTime}ms:`, error)
+    return handleAIError(error, requestId)
+  }
+}
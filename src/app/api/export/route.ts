@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { v4 as uuidv4 } from 'uuid'
+import { qaCanvasDocumentSchema } from '@/lib/schemas/QACanvasDocument'
+import { handleValidationError } from '@/lib/ai/errorHandler'
+import { exportDocument, EXPORT_TARGETS } from '@/lib/export'
+import { selectorProposalSchema } from '@/lib/ai/selectorProposer'
+
+/**
+ * Schema for export request payload
+ */
+const exportPayloadSchema = z.object({
+  document: qaCanvasDocumentSchema,
+  target: z.enum(EXPORT_TARGETS).describe('Export target format'),
+  options: z.object({
+    // gherkin
+    featureName: z.string().optional(),
+    includeBackground: z.boolean().optional(),
+    includeCriteriaTags: z.boolean().optional(),
+    // testrail
+    section: z.string().optional(),
+    // xray
+    projectKey: z.string().optional(),
+    cucumberForGherkin: z.boolean().optional(),
+    // zephyr
+    folder: z.string().optional(),
+    status: z.string().optional(),
+    // playwright, cypress, postman, http
+    baseUrl: z.string().optional(),
+    // playwright, cypress
+    ticketBaseUrl: z.string().optional(),
+    selectors: z.array(selectorProposalSchema).optional()
+  }).default({})
+})
+
+type ExportPayload = z.infer<typeof exportPayloadSchema>
+
+/**
+ * Handle CORS preflight requests
+ */
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Max-Age': '86400',
+    },
+  })
+}
+
+/**
+ * POST /api/export
+ * Converts a QA Canvas document into a downloadable file for external tools
+ */
+export async function POST(request: NextRequest) {
+  const requestId = uuidv4()
+
+  try {
+    const body = await request.json()
+    const validationResult = exportPayloadSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return handleValidationError(validationResult.error.issues, requestId)
+    }
+
+    const { document, target, options }: ExportPayload = validationResult.data
+
+    const result = exportDocument(document, target, options)
+    console.log(`📤 [${requestId}] Exported ${document.testCases.length} test cases as ${target}`)
+
+    return new NextResponse(result.content, {
+      status: 200,
+      headers: {
+        'Content-Type': result.contentType,
+        'Content-Disposition': `attachment; filename="${result.fileName}"`,
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      }
+    })
+  } catch (error) {
+    console.error(`❌ [${requestId}] Error in /api/export:`, error)
+    return NextResponse.json(
+      {
+        error: 'EXPORT_ERROR',
+        message: 'Failed to export document',
+        details: error instanceof Error ? error.message : String(error),
+        requestId
+      },
+      {
+        status: 500,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'POST, OPTIONS',
+          'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        }
+      }
+    )
+  }
+}
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { generateTextWithFailover } from '@/lib/ai/providerFailover'
+import { withProviderRouting, applyTicketRoutingPolicy } from '@/lib/ai/providerRegistry'
+import { withUsageTracking, attributeUsage } from '@/lib/usage/usageTracker'
+import { budgetGuard, getBudgetWarnings } from '@/lib/usage/budgets'
+import { responseCache, getCacheDirectives } from '@/lib/cache/responseCache'
 import { z } from 'zod'
 import { handleAIError, handleValidationError } from '../../../lib/ai/errorHandler'
 import {
@@ -66,6 +70,12 @@ const generateSuggestionsPayloadSchema = z.object({
 
 type GenerateSuggestionsPayload = z.infer<typeof generateSuggestionsPayloadSchema>
 
+/**
+ * Version of the suggestion prompts, part of the response cache key
+ * Bump when the prompts or suggestion handling change so cached suggestions are regenerated
+ */
+const SUGGESTION_PROMPT_VERSION = 1
+
 /**
  * Handle CORS preflight requests
  */
@@ -75,7 +85,7 @@ export async function OPTIONS(request: NextRequest) {
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, Cache-Control, X-API-Key, X-Team-Id',
       'Access-Control-Max-Age': '86400',
     },
   })
@@ -84,14 +94,20 @@ export async function OPTIONS(request: NextRequest) {
 /**
  * POST /api/generate-suggestions
  * Generates contextual QA suggestions based on current document content
+ * Tickets matching ON_PREM_TICKET_PATTERNS are only sent to on-prem providers
+ * Identical requests are served from the response cache unless sent with `Cache-Control: no-cache`
  */
 export async function POST(request: NextRequest) {
+  return withUsageTracking('generate-suggestions', () => withProviderRouting(() => generateSuggestions(request)))
+}
+
+async function generateSuggestions(request: NextRequest) {
   // Generate a unique request ID for tracking and debugging
   const requestId = uuidv4()
 
   try {
-    // Check for API key configuration
-    if (!process.env.OPENAI_API_KEY) {
+    // Check for API key configuration (the offline mock provider needs none)
+    if (!process.env.OPENAI_API_KEY && process.env.PRIMARY_PROVIDER !== 'mock') {
       return NextResponse.json(
         {
           error: 'CONFIGURATION_ERROR',
@@ -117,178 +133,21 @@ export async function POST(request: NextRequest) {
       return handleValidationError(validationResult.error.issues, requestId)
     }
 
-    const {
-      currentDocument,
-      maxSuggestions,
-      focusAreas,
-      excludeTypes,
-      userContext,
-      conversationHistory
-    }: GenerateSuggestionsPayload = validationResult.data
-
-    // Initialize intent analysis components for contextual awareness
-    let intentAnalysisResult: IntentAnalysisResult | null = null
-    let targetSections: CanvasSection[] = []
-    let suggestionPriorities: string[] = []
-
-    try {
-      // Perform intent analysis if user context is provided
-      if (userContext) {
-        const intentAnalyzer = new IntentAnalyzer()
-        const sectionTargetDetector = new SectionTargetDetector()
-
-        // Analyze user intent for targeted suggestions
-        const uiMessages = (conversationHistory || []).map((msg, index) => ({
-          id: `msg-${index}`,
-          role: msg.role,
-          content: msg.content,
-          createdAt: msg.timestamp ? new Date(msg.timestamp) : new Date()
-        })) as any
-        
-        intentAnalysisResult = await intentAnalyzer.analyzeIntent(
-          userContext,
-          uiMessages,
-          currentDocument as any
-        )
-
-        // Detect target sections for focused suggestions
-        const sectionTargetResult = await sectionTargetDetector.detectTargetSections(
-          userContext,
-          currentDocument as any
-        )
-
-        targetSections = sectionTargetResult.primaryTargets
-        
-        // Adjust suggestion priorities based on intent
-        suggestionPriorities = mapIntentToSuggestionPriorities(intentAnalysisResult)
-
-        console.log(`🎯 Intent analysis: ${intentAnalysisResult.intent} (confidence: ${intentAnalysisResult.confidence})`)
-        console.log(`🎯 Target sections: ${targetSections.join(', ')}`)
-      }
-    } catch (intentError) {
-      console.warn('Intent analysis failed, proceeding with standard suggestions:', intentError)
-      // Continue with standard suggestion generation
-    }
-
-    // Build context-aware prompt for suggestion generation
-    const suggestionPrompt = buildEnhancedSuggestionPrompt(
-      currentDocument as QACanvasDocument,
-      maxSuggestions,
-      focusAreas,
-      excludeTypes,
-      intentAnalysisResult,
-      targetSections,
-      userContext
+    const { currentDocument }: GenerateSuggestionsPayload = validationResult.data
+    applyTicketRoutingPolicy(currentDocument.metadata.ticketId, requestId)
+    attributeUsage({ requestId, ticketId: currentDocument.metadata.ticketId, team: budgetGuard.resolveTeam(request.headers) })
+    // Fail fast: the suggestion generators fall back on AI errors instead of surfacing them
+    await budgetGuard.enforce()
+
+    const cacheDirectives = getCacheDirectives(request.headers)
+    const { value: suggestions, cache } = await responseCache.getOrCompute(
+      'suggestions',
+      buildSuggestionsCacheInput(validationResult.data),
+      () => generateSuggestionList(validationResult.data),
+      { ...cacheDirectives, shouldCache: generated => generated.length > 0 }
     )
-
-    // Check for potential ambiguities in the request
-    const requestContext = {
-      currentDocument: currentDocument as QACanvasDocument,
-      userPreferences: {
-        focusAreas,
-        excludeTypes,
-        maxSuggestions
-      },
-      intentContext: intentAnalysisResult
-    }
-
-    // Document any assumptions we need to make
-    documentAssumptions(['Processing QA suggestions request with intent analysis'])
-
-    // Generate suggestions using efficient parallel approach
-    const suggestions: QASuggestion[] = []
-    const generatedSuggestions = new Set<string>() // Track titles to avoid duplicates
-
-    console.log(`🤖 Generating ${maxSuggestions} AI suggestions efficiently...`)
-
-    // Create array of promises for parallel generation
-    const suggestionPromises = Array.from({ length: maxSuggestions }, async (_, index) => {
-      try {
-        const suggestionNumber = index + 1
-        const previousTitles = Array.from(generatedSuggestions).join(', ')
-        
-        const contextualPrompt = `${suggestionPrompt}\n\n**GENERATE SUGGESTION ${suggestionNumber} of ${maxSuggestions}**\n\nMake this suggestion unique and different from any previous suggestions.${previousTitles ? `\n\nPrevious suggestions to avoid duplicating: ${previousTitles}` : ''}\n\nFocus on a different aspect of QA improvement.`
-
-        const aiResponse = await generateTextWithFailover(
-          contextualPrompt,
-          {
-            system: getSuggestionSystemPrompt(),
-            tools: { qaSuggestionTool },
-            temperature: 0.4 + (index * 0.1), // Increase temperature for variety
-            maxTokens: 1000,
-            toolChoice: 'required'
-          }
-        )
-
-        // Validate AI response format
-        if (typeof aiResponse === 'string' || !aiResponse || !aiResponse.toolCalls) {
-          console.warn(`Invalid AI response format for suggestion ${suggestionNumber}:`, aiResponse)
-          return null
-        }
-
-        const { toolCalls } = aiResponse
-        if (toolCalls && toolCalls.length > 0) {
-          const toolCall = toolCalls[0]
-          if (toolCall.toolName === 'qaSuggestionTool') {
-            const suggestionData = toolCall.args
-
-            // Apply focus areas and exclude types filtering
-            if (focusAreas && focusAreas.length > 0 && !focusAreas.includes(suggestionData.suggestionType)) {
-              console.log(`🔍 Skipping suggestion ${suggestionNumber} - not in focus areas: ${suggestionData.suggestionType}`)
-              return null
-            }
-
-            if (excludeTypes && excludeTypes.length > 0 && excludeTypes.includes(suggestionData.suggestionType)) {
-              console.log(`🚫 Skipping suggestion ${suggestionNumber} - in exclude types: ${suggestionData.suggestionType}`)
-              return null
-            }
-
-            // Check for duplicate titles
-            if (generatedSuggestions.has(suggestionData.title)) {
-              console.log(`🔄 Skipping suggestion ${suggestionNumber} - duplicate title: ${suggestionData.title}`)
-              return null
-            }
-
-            generatedSuggestions.add(suggestionData.title)
-
-            const suggestion = createQASuggestion({
-              suggestionType: suggestionData.suggestionType,
-              title: suggestionData.title,
-              description: suggestionData.description,
-              targetSection: suggestionData.targetSection,
-              priority: suggestionData.priority || 'medium',
-              reasoning: suggestionData.reasoning,
-              implementationHint: suggestionData.implementationHint || 'No specific implementation hint',
-              relatedRequirements: [], // Could be enhanced to extract from document
-              estimatedEffort: suggestionData.estimatedEffort || 'medium',
-              tags: suggestionData.tags || []
-            })
-
-            console.log(`✅ Generated suggestion ${suggestionNumber}: ${suggestion.title}`)
-            return suggestion
-          }
-        }
-        return null
-      } catch (error) {
-        console.warn(`❌ Failed to generate suggestion ${index + 1}:`, error)
-        return null
-      }
-    })
-
-    // Execute all promises in parallel for speed
-    try {
-      const results = await Promise.all(suggestionPromises)
-      
-      // Filter out null results and add to suggestions array
-      results.forEach(suggestion => {
-        if (suggestion) {
-          suggestions.push(suggestion)
-        }
-      })
-      
-      console.log(`🎯 Successfully generated ${suggestions.length} out of ${maxSuggestions} requested suggestions`)
-    } catch (error) {
-      console.error('❌ Failed to generate suggestions in parallel:', error)
+    if (cache?.hit) {
+      console.log(`🗄️ [${requestId}] Serving ${suggestions.length} suggestions from the response cache`)
     }
 
     // If no suggestions were generated, return an error
@@ -323,7 +182,9 @@ export async function POST(request: NextRequest) {
       suggestions,
       totalCount: suggestions.length,
       generatedAt: new Date().toISOString(),
-      contextSummary: buildContextSummary(currentDocument as QACanvasDocument)
+      contextSummary: buildContextSummary(currentDocument as QACanvasDocument),
+      budgetWarnings: getBudgetWarnings(),
+      cache
     }
 
     return NextResponse.json(response, {
@@ -343,6 +204,203 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * Generate suggestions in parallel, one AI call per requested suggestion
+ * Failed or filtered calls are dropped, so fewer than maxSuggestions may be returned
+ */
+async function generateSuggestionList({
+  currentDocument,
+  maxSuggestions,
+  focusAreas,
+  excludeTypes,
+  userContext,
+  conversationHistory
+}: GenerateSuggestionsPayload): Promise<QASuggestion[]> {
+  // Initialize intent analysis components for contextual awareness
+  let intentAnalysisResult: IntentAnalysisResult | null = null
+  let targetSections: CanvasSection[] = []
+  let suggestionPriorities: string[] = []
+
+  try {
+    // Perform intent analysis if user context is provided
+    if (userContext) {
+      const intentAnalyzer = new IntentAnalyzer()
+      const sectionTargetDetector = new SectionTargetDetector()
+
+      // Analyze user intent for targeted suggestions
+      const uiMessages = (conversationHistory || []).map((msg, index) => ({
+        id: `msg-${index}`,
+        role: msg.role,
+        content: msg.content,
+        createdAt: msg.timestamp ? new Date(msg.timestamp) : new Date()
+      })) as any
+      
+      intentAnalysisResult = await intentAnalyzer.analyzeIntent(
+        userContext,
+        uiMessages,
+        currentDocument as any
+      )
+
+      // Detect target sections for focused suggestions
+      const sectionTargetResult = await sectionTargetDetector.detectTargetSections(
+        userContext,
+        currentDocument as any
+      )
+
+      targetSections = sectionTargetResult.primaryTargets
+      
+      // Adjust suggestion priorities based on intent
+      suggestionPriorities = mapIntentToSuggestionPriorities(intentAnalysisResult)
+
+      console.log(`🎯 Intent analysis: ${intentAnalysisResult.intent} (confidence: ${intentAnalysisResult.confidence})`)
+      console.log(`🎯 Target sections: ${targetSections.join(', ')}`)
+    }
+  } catch (intentError) {
+    console.warn('Intent analysis failed, proceeding with standard suggestions:', intentError)
+    // Continue with standard suggestion generation
+  }
+
+  // Build context-aware prompt for suggestion generation
+  const suggestionPrompt = buildEnhancedSuggestionPrompt(
+    currentDocument as QACanvasDocument,
+    maxSuggestions,
+    focusAreas,
+    excludeTypes,
+    intentAnalysisResult,
+    targetSections,
+    userContext
+  )
+
+  // Check for potential ambiguities in the request
+  const requestContext = {
+    currentDocument: currentDocument as QACanvasDocument,
+    userPreferences: {
+      focusAreas,
+      excludeTypes,
+      maxSuggestions
+    },
+    intentContext: intentAnalysisResult
+  }
+
+  // Document any assumptions we need to make
+  documentAssumptions(['Processing QA suggestions request with intent analysis'])
+
+  // Generate suggestions using efficient parallel approach
+  const suggestions: QASuggestion[] = []
+  const generatedSuggestions = new Set<string>() // Track titles to avoid duplicates
+
+  console.log(`🤖 Generating ${maxSuggestions} AI suggestions efficiently...`)
+
+  // Create array of promises for parallel generation
+  const suggestionPromises = Array.from({ length: maxSuggestions }, async (_, index) => {
+    try {
+      const suggestionNumber = index + 1
+      const previousTitles = Array.from(generatedSuggestions).join(', ')
+      
+      const contextualPrompt = `${suggestionPrompt}\n\n**GENERATE SUGGESTION ${suggestionNumber} of ${maxSuggestions}**\n\nMake this suggestion unique and different from any previous suggestions.${previousTitles ? `\n\nPrevious suggestions to avoid duplicating: ${previousTitles}` : ''}\n\nFocus on a different aspect of QA improvement.`
+
+      const aiResponse = await generateTextWithFailover(
+        contextualPrompt,
+        {
+          system: getSuggestionSystemPrompt(),
+          tools: { qaSuggestionTool },
+          temperature: 0.4 + (index * 0.1), // Increase temperature for variety
+          maxTokens: 1000,
+          toolChoice: 'required'
+        }
+      )
+
+      // Validate AI response format
+      if (typeof aiResponse === 'string' || !aiResponse || !aiResponse.toolCalls) {
+        console.warn(`Invalid AI response format for suggestion ${suggestionNumber}:`, aiResponse)
+        return null
+      }
+
+      const { toolCalls } = aiResponse
+      if (toolCalls && toolCalls.length > 0) {
+        const toolCall = toolCalls[0]
+        if (toolCall.toolName === 'qaSuggestionTool') {
+          const suggestionData = toolCall.args
+
+          // Apply focus areas and exclude types filtering
+          if (focusAreas && focusAreas.length > 0 && !focusAreas.includes(suggestionData.suggestionType)) {
+            console.log(`🔍 Skipping suggestion ${suggestionNumber} - not in focus areas: ${suggestionData.suggestionType}`)
+            return null
+          }
+
+          if (excludeTypes && excludeTypes.length > 0 && excludeTypes.includes(suggestionData.suggestionType)) {
+            console.log(`🚫 Skipping suggestion ${suggestionNumber} - in exclude types: ${suggestionData.suggestionType}`)
+            return null
+          }
+
+          // Check for duplicate titles
+          if (generatedSuggestions.has(suggestionData.title)) {
+            console.log(`🔄 Skipping suggestion ${suggestionNumber} - duplicate title: ${suggestionData.title}`)
+            return null
+          }
+
+          generatedSuggestions.add(suggestionData.title)
+
+          const suggestion = createQASuggestion({
+            suggestionType: suggestionData.suggestionType,
+            title: suggestionData.title,
+            description: suggestionData.description,
+            targetSection: suggestionData.targetSection,
+            priority: suggestionData.priority || 'medium',
+            reasoning: suggestionData.reasoning,
+            implementationHint: suggestionData.implementationHint || 'No specific implementation hint',
+            relatedRequirements: [], // Could be enhanced to extract from document
+            estimatedEffort: suggestionData.estimatedEffort || 'medium',
+            tags: suggestionData.tags || []
+          })
+
+          console.log(`✅ Generated suggestion ${suggestionNumber}: ${suggestion.title}`)
+          return suggestion
+        }
+      }
+      return null
+    } catch (error) {
+      console.warn(`❌ Failed to generate suggestion ${index + 1}:`, error)
+      return null
+    }
+  })
+
+  // Execute all promises in parallel for speed
+  try {
+    const results = await Promise.all(suggestionPromises)
+    
+    // Filter out null results and add to suggestions array
+    results.forEach(suggestion => {
+      if (suggestion) {
+        suggestions.push(suggestion)
+      }
+    })
+    
+    console.log(`🎯 Successfully generated ${suggestions.length} out of ${maxSuggestions} requested suggestions`)
+  } catch (error) {
+    console.error('❌ Failed to generate suggestions in parallel:', error)
+  }
+
+  return suggestions
+}
+
+/**
+ * Response cache input for a suggestions request
+ * generatedAt is left out so re-analyzing an unchanged ticket still hits the cache
+ */
+function buildSuggestionsCacheInput(payload: GenerateSuggestionsPayload): Record<string, unknown> {
+  const { metadata, ...sections } = payload.currentDocument
+  return {
+    promptVersion: SUGGESTION_PROMPT_VERSION,
+    document: { ...sections, ticketId: metadata.ticketId, qaProfile: metadata.qaProfile },
+    maxSuggestions: payload.maxSuggestions,
+    focusAreas: payload.focusAreas,
+    excludeTypes: payload.excludeTypes,
+    userContext: payload.userContext,
+    conversationHistory: payload.conversationHistory
+  }
+}
+
 /**
  * Build suggestion generation prompt with document context
  */
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { v4 as uuidv4 } from 'uuid'
+import { documentHistory } from '@/lib/history/documentHistory'
+import { handleValidationError } from '@/lib/ai/errorHandler'
+
+/**
+ * Version path segment: a version number or "latest"
+ */
+const versionParamSchema = z.union([
+  z.literal('latest'),
+  z.coerce.number().int().positive()
+])
+
+/**
+ * Handle CORS preflight requests
+ */
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Max-Age': '86400',
+    },
+  })
+}
+
+/**
+ * GET /api/history/:ticketId/:version
+ * Returns a stored document version, or the head when version is "latest"
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ ticketId: string; version: string }> }
+) {
+  const requestId = uuidv4()
+
+  try {
+    const { ticketId, version } = await params
+    const validationResult = versionParamSchema.safeParse(version)
+
+    if (!validationResult.success) {
+      return handleValidationError(
+        validationResult.error.issues.map(issue => ({ ...issue, path: ['version', ...issue.path] })),
+        requestId
+      )
+    }
+
+    const requestedVersion = validationResult.data === 'latest' ? undefined : validationResult.data
+    const record = await documentHistory.getVersion(ticketId, requestedVersion)
+
+    if (!record) {
+      return NextResponse.json(
+        {
+          error: 'VERSION_NOT_FOUND',
+          message: `Version ${version} of ${ticketId} was not found`,
+          requestId
+        },
+        {
+          status: 404,
+          headers: {
+            'Access-Control-Allow-Origin': '*',
+            'Access-Control-Allow-Methods': 'GET, OPTIONS',
+            'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+          }
+        }
+      )
+    }
+
+    return NextResponse.json(record, {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      }
+    })
+  } catch (error) {
+    console.error(`❌ [${requestId}] Error in /api/history version lookup:`, error)
+    return NextResponse.json(
+      {
+        error: 'HISTORY_ERROR',
+        message: 'Failed to load document version',
+        details: error instanceof Error ? error.message : String(error),
+        requestId
+      },
+      {
+        status: 500,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'GET, OPTIONS',
+          'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        }
+      }
+    )
+  }
+}
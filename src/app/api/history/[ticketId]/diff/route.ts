@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { v4 as uuidv4 } from 'uuid'
+import { documentHistory } from '@/lib/history/documentHistory'
+import { handleValidationError } from '@/lib/ai/errorHandler'
+
+/**
+ * Schema for diff query parameters
+ */
+const diffQuerySchema = z.object({
+  from: z.coerce.number().int().positive().describe('Older version number'),
+  to: z.coerce.number().int().positive().describe('Newer version number')
+})
+
+/**
+ * Handle CORS preflight requests
+ */
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Max-Age': '86400',
+    },
+  })
+}
+
+/**
+ * GET /api/history/:ticketId/diff?from=1&to=2
+ * Compares two stored versions section by section
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ ticketId: string }> }
+) {
+  const requestId = uuidv4()
+
+  try {
+    const { ticketId } = await params
+    const searchParams = new URL(request.url).searchParams
+    const validationResult = diffQuerySchema.safeParse({
+      from: searchParams.get('from') ?? undefined,
+      to: searchParams.get('to') ?? undefined
+    })
+
+    if (!validationResult.success) {
+      return handleValidationError(validationResult.error.issues, requestId)
+    }
+
+    const { from, to } = validationResult.data
+    const diff = await documentHistory.diffVersions(ticketId, from, to)
+
+    if (!diff) {
+      return NextResponse.json(
+        {
+          error: 'VERSION_NOT_FOUND',
+          message: `Versions ${from} and ${to} of ${ticketId} must both exist`,
+          requestId
+        },
+        {
+          status: 404,
+          headers: {
+            'Access-Control-Allow-Origin': '*',
+            'Access-Control-Allow-Methods': 'GET, OPTIONS',
+            'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+          }
+        }
+      )
+    }
+
+    return NextResponse.json(diff, {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      }
+    })
+  } catch (error) {
+    console.error(`❌ [${requestId}] Error in /api/history diff:`, error)
+    return NextResponse.json(
+      {
+        error: 'HISTORY_ERROR',
+        message: 'Failed to diff document versions',
+        details: error instanceof Error ? error.message : String(error),
+        requestId
+      },
+      {
+        status: 500,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'GET, OPTIONS',
+          'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        }
+      }
+    )
+  }
+}
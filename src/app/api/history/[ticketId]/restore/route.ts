@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { v4 as uuidv4 } from 'uuid'
+import { documentHistory } from '@/lib/history/documentHistory'
+import { handleValidationError } from '@/lib/ai/errorHandler'
+
+/**
+ * Schema for restore request payload
+ */
+const restorePayloadSchema = z.object({
+  version: z.number().int().positive().describe('Version number to restore as the new head')
+})
+
+/**
+ * Handle CORS preflight requests
+ */
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Max-Age': '86400',
+    },
+  })
+}
+
+/**
+ * POST /api/history/:ticketId/restore
+ * Restores an older version by storing a copy of it as the new head
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ ticketId: string }> }
+) {
+  const requestId = uuidv4()
+
+  try {
+    const { ticketId } = await params
+    const body = await request.json()
+    const validationResult = restorePayloadSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return handleValidationError(validationResult.error.issues, requestId)
+    }
+
+    const { version } = validationResult.data
+    const record = await documentHistory.restoreVersion(ticketId, version, requestId)
+
+    if (!record) {
+      return NextResponse.json(
+        {
+          error: 'VERSION_NOT_FOUND',
+          message: `Version ${version} of ${ticketId} was not found`,
+          requestId
+        },
+        {
+          status: 404,
+          headers: {
+            'Access-Control-Allow-Origin': '*',
+            'Access-Control-Allow-Methods': 'POST, OPTIONS',
+            'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+          }
+        }
+      )
+    }
+
+    console.log(`♻️ [${requestId}] Restored ${ticketId} version ${version} as version ${record.version}`)
+
+    return NextResponse.json(record, {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      }
+    })
+  } catch (error) {
+    console.error(`❌ [${requestId}] Error in /api/history restore:`, error)
+    return NextResponse.json(
+      {
+        error: 'HISTORY_ERROR',
+        message: 'Failed to restore document version',
+        details: error instanceof Error ? error.message : String(error),
+        requestId
+      },
+      {
+        status: 500,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'POST, OPTIONS',
+          'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        }
+      }
+    )
+  }
+}
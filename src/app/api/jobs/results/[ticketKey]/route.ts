@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { v4 as uuidv4 } from 'uuid'
+import { analysisJobQueue } from '@/lib/jobs/jobQueue'
+
+/**
+ * Handle CORS preflight requests
+ */
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Max-Age': '86400',
+    },
+  })
+}
+
+/**
+ * GET /api/jobs/results/:ticketKey
+ * Returns the latest document a job generated for the ticket, with the job ID and attempt count
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ ticketKey: string }> }
+) {
+  const requestId = uuidv4()
+
+  try {
+    const { ticketKey } = await params
+    const result = await analysisJobQueue.getResult(ticketKey)
+
+    if (!result) {
+      return NextResponse.json(
+        {
+          error: 'RESULT_NOT_FOUND',
+          message: `No job has analyzed ${ticketKey} yet`,
+          requestId
+        },
+        {
+          status: 404,
+          headers: {
+            'Access-Control-Allow-Origin': '*',
+            'Access-Control-Allow-Methods': 'GET, OPTIONS',
+            'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+          }
+        }
+      )
+    }
+
+    return NextResponse.json(result, {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      }
+    })
+  } catch (error) {
+    console.error(`❌ [${requestId}] Error in /api/jobs results:`, error)
+    return NextResponse.json(
+      {
+        error: 'JOB_ERROR',
+        message: 'Failed to load job result',
+        details: error instanceof Error ? error.message : String(error),
+        requestId
+      },
+      {
+        status: 500,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'GET, OPTIONS',
+          'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        }
+      }
+    )
+  }
+}
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { v4 as uuidv4 } from 'uuid'
+import { ticketAnalysisPayloadSchema } from '@/lib/schemas/TicketAnalysisPayload'
+import { handleValidationError } from '@/lib/ai/errorHandler'
+import { analysisJobQueue } from '@/lib/jobs/jobQueue'
+import { budgetGuard } from '@/lib/usage/budgets'
+
+/**
+ * Most tickets accepted in one job
+ */
+const MAX_TICKETS_PER_JOB = 100
+
+/**
+ * Schema for job submission payload
+ */
+const submitJobPayloadSchema = z.object({
+  tickets: z.array(ticketAnalysisPayloadSchema)
+    .min(1)
+    .max(MAX_TICKETS_PER_JOB)
+    .describe('One analyze-ticket payload per ticket'),
+  maxRetries: z.number().int().min(0).max(5).optional().describe('Retries per ticket, defaults to JOB_MAX_RETRIES')
+}).refine(payload => new Set(payload.tickets.map(ticket => ticket.ticketJson.issueKey)).size === payload.tickets.length, {
+  message: 'Each ticket may only appear once per job',
+  path: ['tickets']
+})
+
+/**
+ * Handle CORS preflight requests
+ */
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key, X-Team-Id',
+      'Access-Control-Max-Age': '86400',
+    },
+  })
+}
+
+/**
+ * POST /api/jobs
+ * Queues a batch analysis job and returns it immediately with status 202
+ * Poll GET /api/jobs/:jobId for progress and GET /api/jobs/results/:ticketKey for documents
+ */
+export async function POST(request: NextRequest) {
+  const requestId = uuidv4()
+
+  try {
+    const body = await request.json()
+    const validationResult = submitJobPayloadSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return handleValidationError(validationResult.error.issues, requestId)
+    }
+
+    const { tickets, maxRetries } = validationResult.data
+    const job = await analysisJobQueue.submit(tickets, { team: budgetGuard.resolveTeam(request.headers), maxRetries })
+    console.log(`📦 [${requestId}] Submitted job ${job.id} for ${tickets.length} tickets`)
+
+    return NextResponse.json({ ...job, requestId }, {
+      status: 202,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      }
+    })
+  } catch (error) {
+    console.error(`❌ [${requestId}] Error in /api/jobs:`, error)
+    return NextResponse.json(
+      {
+        error: 'JOB_ERROR',
+        message: 'Failed to submit analysis job',
+        details: error instanceof Error ? error.message : String(error),
+        requestId
+      },
+      {
+        status: 500,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+          'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        }
+      }
+    )
+  }
+}
+
+/**
+ * GET /api/jobs
+ * Lists jobs newest first, without their per-ticket details
+ */
+export async function GET() {
+  const requestId = uuidv4()
+
+  try {
+    const jobs = await analysisJobQueue.listJobs()
+
+    return NextResponse.json({
+      jobs: jobs.map(job => ({ ...job, tickets: undefined }))
+    }, {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      }
+    })
+  } catch (error) {
+    console.error(`❌ [${requestId}] Error in /api/jobs:`, error)
+    return NextResponse.json(
+      {
+        error: 'JOB_ERROR',
+        message: 'Failed to list analysis jobs',
+        details: error instanceof Error ? error.message : String(error),
+        requestId
+      },
+      {
+        status: 500,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+          'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        }
+      }
+    )
+  }
+}
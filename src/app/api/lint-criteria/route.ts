@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { v4 as uuidv4 } from 'uuid'
+import { acceptanceCriterionSchema, qaCanvasDocumentSchema } from '@/lib/schemas/QACanvasDocument'
+import { handleValidationError } from '@/lib/ai/errorHandler'
+import { lintAcceptanceCriteria } from '@/lib/analysis/criteriaLinter'
+
+/**
+ * Schema for lint request payload: a whole document or just its acceptance criteria
+ */
+const lintCriteriaPayloadSchema = z.object({
+  document: qaCanvasDocumentSchema.optional(),
+  acceptanceCriteria: z.array(acceptanceCriterionSchema).optional()
+}).refine(payload => payload.document || payload.acceptanceCriteria, {
+  message: 'Either document or acceptanceCriteria is required',
+  path: ['acceptanceCriteria']
+})
+
+/**
+ * Handle CORS preflight requests
+ */
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Max-Age': '86400',
+    },
+  })
+}
+
+/**
+ * POST /api/lint-criteria
+ * Scores acceptance criteria against testability rules and returns per-criterion findings with suggested rewrites
+ */
+export async function POST(request: NextRequest) {
+  const requestId = uuidv4()
+
+  try {
+    const body = await request.json()
+    const validationResult = lintCriteriaPayloadSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return handleValidationError(validationResult.error.issues, requestId)
+    }
+
+    const { document, acceptanceCriteria } = validationResult.data
+    const report = lintAcceptanceCriteria(acceptanceCriteria || document?.acceptanceCriteria || [])
+    console.log(`🧹 [${requestId}] Criteria lint: average score ${report.summary.averageScore}, ${report.summary.criteriaWithFindings.length}/${report.summary.totalCriteria} criteria with findings`)
+
+    return NextResponse.json(report, {
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      }
+    })
+  } catch (error) {
+    console.error(`❌ [${requestId}] Error in /api/lint-criteria:`, error)
+    return NextResponse.json(
+      {
+        error: 'CRITERIA_LINT_ERROR',
+        message: 'Failed to lint acceptance criteria',
+        details: error instanceof Error ? error.message : String(error),
+        requestId
+      },
+      {
+        status: 500,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'POST, OPTIONS',
+          'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        }
+      }
+    )
+  }
+}
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { v4 as uuidv4 } from 'uuid'
+import { qaCanvasDocumentSchema } from '@/lib/schemas/QACanvasDocument'
+import { handleValidationError } from '@/lib/ai/errorHandler'
+import { documentToAdf } from '@/lib/export/adfFormatter'
+import { JiraPublisher, JiraPublishError, loadJiraPublisherConfig } from '@/lib/publishing/jiraPublisher'
+
+/**
+ * Schema for publish request payload
+ */
+const publishPayloadSchema = z.object({
+  document: qaCanvasDocumentSchema,
+  issueKey: z.string().min(1).optional().describe('Ticket to comment on (default: the document ticket)'),
+  commentId: z.string().min(1).optional().describe('Comment to update instead of the previously posted plan'),
+  updateExisting: z.boolean().default(true).describe('Update the previously posted plan comment instead of adding a new one'),
+  dryRun: z.boolean().default(false).describe('Return the ADF comment body without calling Jira')
+})
+
+type PublishPayload = z.infer<typeof publishPayloadSchema>
+
+/**
+ * Handle CORS preflight requests
+ */
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Max-Age': '86400',
+    },
+  })
+}
+
+/**
+ * POST /api/publish-jira
+ * Posts a QA Canvas document to its Jira ticket as a comment, updating the plan posted before
+ */
+export async function POST(request: NextRequest) {
+  const requestId = uuidv4()
+
+  try {
+    const body = await request.json()
+    const validationResult = publishPayloadSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return handleValidationError(validationResult.error.issues, requestId)
+    }
+
+    const { document, issueKey, commentId, updateExisting, dryRun }: PublishPayload = validationResult.data
+
+    if (dryRun) {
+      return NextResponse.json(
+        { issueKey: issueKey || document.metadata.ticketId, body: documentToAdf(document), requestId },
+        {
+          status: 200,
+          headers: {
+            'Access-Control-Allow-Origin': '*',
+            'Access-Control-Allow-Methods': 'POST, OPTIONS',
+            'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+          }
+        }
+      )
+    }
+
+    const config = loadJiraPublisherConfig()
+    if (!config) {
+      return NextResponse.json(
+        {
+          error: 'JIRA_NOT_CONFIGURED',
+          message: 'Set JIRA_BASE_URL to publish to Jira',
+          requestId
+        },
+        {
+          status: 503,
+          headers: {
+            'Access-Control-Allow-Origin': '*',
+            'Access-Control-Allow-Methods': 'POST, OPTIONS',
+            'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+          }
+        }
+      )
+    }
+
+    const result = await new JiraPublisher(config).publishPlan(document, { issueKey, commentId, updateExisting })
+    console.log(`📝 [${requestId}] ${result.action === 'created' ? 'Posted' : 'Updated'} QA plan comment ${result.commentId} on ${result.issueKey}`)
+
+    return NextResponse.json({ ...result, requestId }, {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      }
+    })
+  } catch (error) {
+    if (error instanceof JiraPublishError) {
+      console.error(`❌ [${requestId}] Jira publish failed:`, error.message)
+      return NextResponse.json(
+        {
+          error: 'JIRA_PUBLISH_ERROR',
+          message: 'Failed to publish QA plan to Jira',
+          details: error.message,
+          jiraStatus: error.status,
+          requestId
+        },
+        {
+          status: 502,
+          headers: {
+            'Access-Control-Allow-Origin': '*',
+            'Access-Control-Allow-Methods': 'POST, OPTIONS',
+            'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+          }
+        }
+      )
+    }
+
+    console.error(`❌ [${requestId}] Error in /api/publish-jira:`, error)
+    return NextResponse.json(
+      {
+        error: 'PUBLISH_ERROR',
+        message: 'Failed to publish QA plan',
+        details: error instanceof Error ? error.message : String(error),
+        requestId
+      },
+      {
+        status: 500,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'POST, OPTIONS',
+          'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        }
+      }
+    )
+  }
+}
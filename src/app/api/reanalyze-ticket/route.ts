@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { v4 as uuidv4 } from 'uuid'
+import { ticketInputSchema } from '@/lib/ingestion'
+import { qaProfileSchema } from '@/lib/schemas/QAProfile'
+import {
+  estimateWordCount,
+  qaCanvasDocumentSchema,
+  type QACanvasDocument,
+  type ResponseCacheLookup
+} from '@/lib/schemas/QACanvasDocument'
+import { handleValidationError, handleAIError } from '@/lib/ai/errorHandler'
+import { regenerateSections } from '@/lib/ai/sectionGenerators'
+import { withProviderRouting, applyTicketRoutingPolicy } from '@/lib/ai/providerRegistry'
+import { collectAssumptions } from '@/lib/analysis/ticketAnalyzer'
+import { diffTickets, planReanalysis } from '@/lib/analysis/ticketDiff'
+import { lintAcceptanceCriteria } from '@/lib/analysis/criteriaLinter'
+import { documentHistory } from '@/lib/history/documentHistory'
+import { withUsageTracking, attributeUsage, usageTracker } from '@/lib/usage/usageTracker'
+import { budgetGuard, getBudgetWarnings } from '@/lib/usage/budgets'
+import { responseCache, getCacheDirectives, summarizeSectionCache } from '@/lib/cache/responseCache'
+
+/**
+ * Schema for re-analysis request payload
+ */
+const reanalyzeTicketPayloadSchema = z.object({
+  previousTicket: ticketInputSchema.describe('Ticket snapshot the current document was generated from'),
+  currentTicket: ticketInputSchema.describe('Freshly scraped ticket snapshot'),
+  currentDocument: qaCanvasDocumentSchema,
+  qaProfile: qaProfileSchema.optional().describe('Defaults to the profile stored in the document metadata')
+}).refine(payload => payload.previousTicket.issueKey === payload.currentTicket.issueKey, {
+  message: 'Both snapshots must belong to the same ticket',
+  path: ['currentTicket', 'issueKey']
+}).refine(payload => payload.currentDocument.metadata.ticketId === payload.currentTicket.issueKey, {
+  message: 'The document must belong to the re-scraped ticket',
+  path: ['currentDocument', 'metadata', 'ticketId']
+})
+
+/**
+ * Handle CORS preflight requests
+ */
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, Cache-Control, X-API-Key, X-Team-Id',
+      'Access-Control-Max-Age': '86400',
+    },
+  })
+}
+
+/**
+ * POST /api/reanalyze-ticket
+ * Diffs two snapshots of a ticket and regenerates only the document sections the changes affect
+ * Returns the updated document and a change report explaining why each section was regenerated or kept
+ */
+export async function POST(request: NextRequest) {
+  return withUsageTracking('reanalyze-ticket', () => withProviderRouting(() => reanalyzeTicket(request)))
+}
+
+async function reanalyzeTicket(request: NextRequest) {
+  const requestId = uuidv4()
+  const requestStartTime = Date.now()
+
+  try {
+    const body = await request.json()
+    const validationResult = reanalyzeTicketPayloadSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return handleValidationError(validationResult.error.issues, requestId)
+    }
+
+    const { previousTicket, currentTicket, currentDocument } = validationResult.data
+    const qaProfile = validationResult.data.qaProfile || currentDocument.metadata.qaProfile
+    applyTicketRoutingPolicy(currentTicket.issueKey, requestId)
+    attributeUsage({ requestId, ticketId: currentTicket.issueKey, team: budgetGuard.resolveTeam(request.headers) })
+
+    const diff = diffTickets(previousTicket, currentTicket)
+    const previousAssumptions = collectAssumptions(currentDocument.metadata.qaProfile, previousTicket)
+    const assumptions = collectAssumptions(qaProfile, currentTicket)
+    const plan = planReanalysis(diff, {
+      includeImages: qaProfile.includeImages,
+      assumptionsChanged: JSON.stringify(previousAssumptions) !== JSON.stringify(assumptions)
+    })
+    console.log(`🔍 [${requestId}] ${currentTicket.issueKey}: ${diff.changes.length} ticket changes, regenerating ${plan.regenerate.join(', ') || 'nothing'}`)
+
+    let document: QACanvasDocument = currentDocument
+    if (plan.regenerate.length > 0) {
+      await budgetGuard.enforce()
+
+      const cacheDirectives = getCacheDirectives(request.headers)
+      const cacheLookups: Record<string, ResponseCacheLookup | undefined> = {}
+      const generationStartTime = Date.now()
+      const sections = await regenerateSections(
+        plan.regenerate,
+        currentTicket,
+        qaProfile,
+        assumptions,
+        currentDocument.acceptanceCriteria,
+        requestId,
+        { onSectionComplete: (section, _data, _duration, cache) => { cacheLookups[section] = cache } },
+        { cache: responseCache, ...cacheDirectives }
+      )
+
+      document = {
+        ...currentDocument,
+        ...sections,
+        metadata: {
+          ...currentDocument.metadata,
+          qaProfile,
+          regenerationReason: `Re-analyzed after ticket changes: ${plan.sections
+            .filter(impact => impact.action === 'regenerate')
+            .map(impact => impact.section)
+            .join(', ')} regenerated`,
+          regenerationTime: Date.now() - generationStartTime,
+          usage: usageTracker.getRequestSummary(),
+          budgetWarnings: getBudgetWarnings(),
+          cache: summarizeSectionCache(cacheLookups, cacheDirectives)
+        }
+      }
+      document.metadata.wordCount = estimateWordCount(document)
+      document.metadata.criteriaLint = lintAcceptanceCriteria(document.acceptanceCriteria).summary
+
+      const historyRecord = await documentHistory.tryRecordVersion(document, 'reanalyze-ticket', { requestId })
+      document = historyRecord?.document || document
+    }
+
+    console.log(`🎯 [${requestId}] Re-analysis completed in ${Date.now() - requestStartTime}ms`)
+
+    return NextResponse.json({
+      document,
+      changeReport: {
+        ticketId: diff.ticketId,
+        previousScrapedAt: diff.previousScrapedAt,
+        currentScrapedAt: diff.currentScrapedAt,
+        hasChanges: diff.hasChanges,
+        changes: diff.changes,
+        sections: plan.sections,
+        regeneratedSections: plan.regenerate,
+        ignoredChanges: plan.ignoredChanges
+      },
+      requestId
+    }, {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      }
+    })
+  } catch (error) {
+    console.error(`❌ [${requestId}] Error in /api/reanalyze-ticket after ${Date.now() - requestStartTime}ms:`, error)
+    return handleAIError(error, requestId)
+  }
+}
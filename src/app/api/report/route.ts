@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { v4 as uuidv4 } from 'uuid'
+import { qaCanvasDocumentSchema } from '@/lib/schemas/QACanvasDocument'
+import { handleValidationError } from '@/lib/ai/errorHandler'
+import { renderReport, REPORT_FORMATS } from '@/lib/export/reportRenderer'
+
+/**
+ * Schema for report request payload
+ */
+const reportPayloadSchema = z.object({
+  document: qaCanvasDocumentSchema,
+  format: z.enum(REPORT_FORMATS).default('markdown').describe('Report format'),
+  options: z.object({
+    // Rendered into links, so only web URLs are accepted
+    ticketBaseUrl: z.string().url()
+      .refine(url => ['http:', 'https:'].includes(new URL(url).protocol), 'Ticket base URL must use http or https')
+      .optional()
+  }).default({})
+})
+
+type ReportPayload = z.infer<typeof reportPayloadSchema>
+
+/**
+ * Handle CORS preflight requests
+ */
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Max-Age': '86400',
+    },
+  })
+}
+
+/**
+ * POST /api/report
+ * Renders a QA Canvas document as a Markdown, HTML or Confluence storage format report
+ */
+export async function POST(request: NextRequest) {
+  const requestId = uuidv4()
+
+  try {
+    const body = await request.json()
+    const validationResult = reportPayloadSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return handleValidationError(validationResult.error.issues, requestId)
+    }
+
+    const { document, format, options }: ReportPayload = validationResult.data
+
+    const report = renderReport(document, format, options)
+    console.log(`📄 [${requestId}] Rendered ${format} report for ${document.metadata.ticketId}`)
+
+    return new NextResponse(report.content, {
+      status: 200,
+      headers: {
+        'Content-Type': report.contentType,
+        'Content-Disposition': `attachment; filename="${report.fileName}"`,
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      }
+    })
+  } catch (error) {
+    console.error(`❌ [${requestId}] Error in /api/report:`, error)
+    return NextResponse.json(
+      {
+        error: 'REPORT_ERROR',
+        message: 'Failed to render report',
+        details: error instanceof Error ? error.message : String(error),
+        requestId
+      },
+      {
+        status: 500,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'POST, OPTIONS',
+          'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        }
+      }
+    )
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { v4 as uuidv4 } from 'uuid'
+import { qaCanvasDocumentSchema } from '@/lib/schemas/QACanvasDocument'
+import { handleValidationError } from '@/lib/ai/errorHandler'
+import { buildTraceabilityMatrix } from '@/lib/analysis/traceabilityMatrix'
+
+/**
+ * Schema for traceability request payload
+ */
+const traceabilityPayloadSchema = z.object({
+  document: qaCanvasDocumentSchema
+})
+
+/**
+ * Handle CORS preflight requests
+ */
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Max-Age': '86400',
+    },
+  })
+}
+
+/**
+ * POST /api/traceability
+ * Builds the acceptance criteria × test case matrix with coverage status
+ * Downloadable CSV/Markdown versions are available through /api/export
+ */
+export async function POST(request: NextRequest) {
+  const requestId = uuidv4()
+
+  try {
+    const body = await request.json()
+    const validationResult = traceabilityPayloadSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return handleValidationError(validationResult.error.issues, requestId)
+    }
+
+    const matrix = buildTraceabilityMatrix(validationResult.data.document)
+    console.log(`🔗 [${requestId}] Traceability for ${matrix.ticketId}: ${matrix.summary.coveredCriteria}/${matrix.summary.totalCriteria} criteria covered`)
+
+    return NextResponse.json(matrix, {
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      }
+    })
+  } catch (error) {
+    console.error(`❌ [${requestId}] Error in /api/traceability:`, error)
+    return NextResponse.json(
+      {
+        error: 'TRACEABILITY_ERROR',
+        message: 'Failed to build traceability matrix',
+        details: error instanceof Error ? error.message : String(error),
+        requestId
+      },
+      {
+        status: 500,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'POST, OPTIONS',
+          'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        }
+      }
+    )
+  }
+}
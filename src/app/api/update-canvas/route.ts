@@ -14,6 +14,21 @@ import {
   documentAssumptionsDetailed
 } from '../../../lib/ai/uncertaintyHandler'
 import { v4 as uuidv4 } from 'uuid'
+import { documentHistory } from '../../../lib/history/documentHistory'
+import {
+  applyCanvasPatch,
+  resolvePatchableSections,
+  CanvasPatchError,
+  PATCHABLE_SECTIONS,
+  type PatchableSection
+} from '../../../lib/ai/canvasPatch'
+import { createMinimalQACanvasDocument, type QACanvasDocument } from '../../../lib/schemas/QACanvasDocument'
+import { defaultQAProfile } from '../../../lib/schemas/QAProfile'
+import { getTestCaseTitle, linkTestCasesToCriteria } from '../../../lib/analysis/traceabilityMatrix'
+import { generateBoundaryTestCases } from '../../../lib/analysis/boundaryValues'
+import { withProviderRouting, applyTicketRoutingPolicy } from '../../../lib/ai/providerRegistry'
+import { withUsageTracking, attributeUsage } from '../../../lib/usage/usageTracker'
+import { budgetGuard, getBudgetWarnings } from '../../../lib/usage/budgets'
 import {
   IntentAnalyzer,
   DependencyAnalyzer,
@@ -21,7 +36,8 @@ import {
   ContextualResponseGenerator,
   conversationStateManager,
   generateSessionId,
-  type IntentAnalysisResult
+  type IntentAnalysisResult,
+  type ConversationState
 } from '../../../lib/ai/intent'
 
 /**
@@ -33,7 +49,7 @@ const updateCanvasPayloadSchema = z.object({
     role: z.enum(['user', 'assistant', 'system']),
     content: z.string(),
     createdAt: z.string().optional()
-  })).min(1, 'At least one message is required'),
+  })).default([]),
   currentDocument: z.object({
     ticketSummary: z.object({
       problem: z.string(),
@@ -63,7 +79,16 @@ const updateCanvasPayloadSchema = z.object({
     components: z.array(z.string()).default([]),
     customFields: z.record(z.string(), z.any()).default({}),
     scrapedAt: z.string()
-  }).optional().describe('Original Jira ticket data for context and reference')
+  }).optional().describe('Original Jira ticket data for context and reference'),
+  sessionId: z.string().min(1).max(200).optional().describe('Conversation session ID returned by a previous response'),
+  action: z.enum(['add-boundary-tests']).optional().describe('Deterministic change applied without AI instead of answering the messages')
+}).superRefine((payload, ctx) => {
+  if (!payload.action && payload.messages.length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.too_small, minimum: 1, type: 'array', inclusive: true, path: ['messages'], message: 'At least one message is required' })
+  }
+  if (payload.action && !payload.currentDocument) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['currentDocument'], message: `currentDocument is required for action "${payload.action}"` })
+  }
 })
 
 type UpdateCanvasPayload = z.infer<typeof updateCanvasPayloadSchema>
@@ -77,7 +102,8 @@ export async function OPTIONS(request: NextRequest) {
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-API-Key, X-Team-Id',
+      'Access-Control-Expose-Headers': 'X-Session-Id',
       'Access-Control-Max-Age': '86400',
     },
   })
@@ -86,8 +112,13 @@ export async function OPTIONS(request: NextRequest) {
 /**
  * POST /api/update-canvas
  * Handles conversational refinement of QA documentation through streaming responses with intent analysis
+ * Tickets matching ON_PREM_TICKET_PATTERNS are only sent to on-prem providers
  */
 export async function POST(request: NextRequest) {
+  return withUsageTracking('update-canvas', () => withProviderRouting(() => updateCanvas(request)))
+}
+
+async function updateCanvas(request: NextRequest) {
   // Generate a unique request ID for tracking and debugging
   const requestId = uuidv4()
 
@@ -100,7 +131,20 @@ export async function POST(request: NextRequest) {
       return handleValidationError(validationResult.error.issues, requestId)
     }
 
-    const { messages, currentDocument, originalTicketData }: UpdateCanvasPayload = validationResult.data
+    const { messages, currentDocument, originalTicketData, sessionId: clientSessionId, action }: UpdateCanvasPayload = validationResult.data
+    applyTicketRoutingPolicy(originalTicketData?.issueKey || currentDocument?.metadata.ticketId, requestId)
+    attributeUsage({
+      requestId,
+      ticketId: originalTicketData?.issueKey || currentDocument?.metadata.ticketId,
+      team: budgetGuard.resolveTeam(request.headers)
+    })
+
+    // Actions make no AI calls, so they are neither budget-checked nor part of a conversation
+    if (action === 'add-boundary-tests') {
+      return await handleBoundaryTestsAction(currentDocument!, originalTicketData, requestId)
+    }
+    // Fail fast: intent analysis falls back on AI errors instead of surfacing them
+    await budgetGuard.enforce()
 
     // Validate message format
     if (!validateMessageFormat(messages)) {
@@ -125,89 +169,202 @@ export async function POST(request: NextRequest) {
       }], requestId)
     }
 
-    // Initialize intent analysis components
-    const intentAnalyzer = new IntentAnalyzer()
-    const clarificationGenerator = new ClarificationGenerator()
-    const contextualResponseGenerator = new ContextualResponseGenerator()
-    
-    // Generate or retrieve session ID for conversation state management
-    const sessionId = generateSessionId()
-    
-    try {
-      // Convert messages to AI SDK format for intent analysis
-      const aiSdkMessages = sanitizedMessages.map(msg => ({
-        id: msg.id,
-        role: msg.role,
-        content: msg.content,
-        createdAt: typeof msg.createdAt === 'string' ? new Date(msg.createdAt) : msg.createdAt
-      })) as any
-      
-      // Perform intent analysis
-      const intentResult = await intentAnalyzer.analyzeIntent(
-        latestUserMessage.content,
-        aiSdkMessages,
-        currentDocument as any
-      )
-
-      // Handle different intent types with appropriate responses
-      switch (intentResult.intent) {
-        case 'ask_clarification':
-          return await handleClarificationIntent(
-            intentResult,
-            latestUserMessage.content,
-            currentDocument,
-            clarificationGenerator,
-            sessionId,
-            requestId
-          )
-
-        case 'provide_information':
-        case 'request_explanation':
-          return await handleInformationIntent(
-            intentResult,
-            latestUserMessage.content,
-            currentDocument,
-            originalTicketData,
-            contextualResponseGenerator,
-            requestId
-          )
-
-        case 'off_topic':
-          return await handleOffTopicIntent(requestId)
-
-        case 'modify_canvas':
-          // Continue with canvas modification logic
-          return await handleCanvasModificationIntent(
-            intentResult,
-            sanitizedMessages,
-            currentDocument,
-            originalTicketData,
-            requestId
-          )
-
-        default:
-          // Fallback to original logic for unknown intents
-          console.warn(`Unknown intent type: ${intentResult.intent}, falling back to original logic`)
-          break
-      }
-    } catch (intentError) {
-      console.error('Intent analysis failed:', intentError)
-      // Fall back to original logic if intent analysis fails
-    }
+    // Resume the client's conversation session so pending clarifications carry over between turns
+    const sessionId = clientSessionId || generateSessionId()
+    const sessionState = await conversationStateManager.loadSession(sessionId)
+      ?? conversationStateManager.initializeSession(sessionId)
 
-    // Original logic as fallback (existing implementation)
-    return await handleOriginalLogic(
+    const response = await processConversationTurn(
       sanitizedMessages,
+      latestUserMessage,
       currentDocument,
       originalTicketData,
+      sessionState,
       requestId
     )
 
+    // The next turn may be served by another instance, so persist state before responding
+    await conversationStateManager.flush(sessionId)
+    response.headers.set('X-Session-Id', sessionId)
+    response.headers.set('Access-Control-Expose-Headers', 'X-Session-Id')
+    return response
+
   } catch (error) {
     return handleAIError(error, requestId)
   }
 }
 
+/**
+ * Analyze the latest message and dispatch it to the matching intent handler
+ */
+async function processConversationTurn(
+  sanitizedMessages: UIMessage[],
+  latestUserMessage: UIMessage,
+  currentDocument: UpdateCanvasPayload['currentDocument'],
+  originalTicketData: UpdateCanvasPayload['originalTicketData'],
+  sessionState: ConversationState,
+  requestId: string
+): Promise<NextResponse> {
+  // Initialize intent analysis components
+  const intentAnalyzer = new IntentAnalyzer()
+  const clarificationGenerator = new ClarificationGenerator()
+  const contextualResponseGenerator = new ContextualResponseGenerator()
+  
+  const { sessionId } = sessionState
+
+  try {
+    // Convert messages to AI SDK format for intent analysis
+    const aiSdkMessages = sanitizedMessages.map(msg => ({
+      id: msg.id,
+      role: msg.role,
+      content: msg.content,
+      createdAt: typeof msg.createdAt === 'string' ? new Date(msg.createdAt) : msg.createdAt
+    })) as any
+    
+    // Perform intent analysis
+    const intentResult = await intentAnalyzer.analyzeIntent(
+      latestUserMessage.content,
+      aiSdkMessages,
+      currentDocument as any
+    )
+
+    // Answers to pending clarification questions resume the interrupted modification
+    if (isClarificationAnswer(sessionState, intentResult)) {
+      return await handleClarificationAnswer(
+        sessionState,
+        sanitizedMessages,
+        currentDocument,
+        originalTicketData,
+        requestId
+      )
+    }
+
+    // Handle different intent types with appropriate responses
+    switch (intentResult.intent) {
+      case 'ask_clarification':
+        return await handleClarificationIntent(
+          intentResult,
+          latestUserMessage.content,
+          currentDocument,
+          clarificationGenerator,
+          sessionId,
+          requestId
+        )
+
+      case 'provide_information':
+      case 'request_explanation':
+        return await handleInformationIntent(
+          intentResult,
+          latestUserMessage.content,
+          currentDocument,
+          originalTicketData,
+          contextualResponseGenerator,
+          requestId
+        )
+
+      case 'off_topic':
+        return await handleOffTopicIntent(requestId)
+
+      case 'modify_canvas':
+        // Continue with canvas modification logic
+        conversationStateManager.updateState(sessionId, {
+          currentPhase: 'processing_modification',
+          lastIntent: intentResult
+        })
+        return await handleCanvasModificationIntent(
+          intentResult,
+          sanitizedMessages,
+          currentDocument,
+          originalTicketData,
+          requestId
+        )
+
+      default:
+        // Fallback to original logic for unknown intents
+        console.warn(`Unknown intent type: ${intentResult.intent}, falling back to original logic`)
+        break
+    }
+  } catch (intentError) {
+    console.error('Intent analysis failed:', intentError)
+    // Fall back to original logic if intent analysis fails
+  }
+
+  // Original logic as fallback (existing implementation)
+  return await handleOriginalLogic(
+    sanitizedMessages,
+    currentDocument,
+    originalTicketData,
+    requestId
+  )
+}
+
+/**
+ * Whether the latest message answers clarification questions from the previous turn
+ * Explanations and off-topic messages leave the questions pending
+ */
+function isClarificationAnswer(sessionState: ConversationState, intentResult: IntentAnalysisResult): boolean {
+  return sessionState.awaitingResponse &&
+    sessionState.pendingClarifications.length > 0 &&
+    intentResult.intent !== 'off_topic' &&
+    intentResult.intent !== 'request_explanation'
+}
+
+/**
+ * Resume the modification that triggered the clarification questions, using the user's answers
+ */
+async function handleClarificationAnswer(
+  sessionState: ConversationState,
+  sanitizedMessages: UIMessage[],
+  currentDocument: UpdateCanvasPayload['currentDocument'],
+  originalTicketData: UpdateCanvasPayload['originalTicketData'],
+  requestId: string
+): Promise<NextResponse> {
+  const { sessionId, pendingClarifications, lastIntent } = sessionState
+  console.log(`🔁 [${requestId}] Resuming session ${sessionId} with answers to ${pendingClarifications.length} clarification questions`)
+
+  const resumedIntent: IntentAnalysisResult = {
+    ...lastIntent,
+    intent: 'modify_canvas',
+    targetSections: Array.from(new Set([
+      ...lastIntent.targetSections,
+      ...pendingClarifications.map(question => question.targetSection)
+    ])),
+    reasoning: `Resuming the previous request with the user's answers to clarification questions. ${lastIntent.reasoning}`,
+    shouldModifyCanvas: true,
+    requiresClarification: false
+  }
+
+  // Put the questions right before the answer so the update prompt reads them together
+  const clarificationMessage: UIMessage = {
+    id: `clarification-${sessionId}`,
+    role: 'assistant',
+    content: `Clarification questions asked before the user's answer:\n${pendingClarifications
+      .map((question, index) => `${index + 1}. ${question.question}`)
+      .join('\n')}`
+  }
+  const answerIndex = sanitizedMessages.map(msg => msg.role).lastIndexOf('user')
+  const messagesWithQuestions = [
+    ...sanitizedMessages.slice(0, answerIndex),
+    clarificationMessage,
+    ...sanitizedMessages.slice(answerIndex)
+  ]
+
+  conversationStateManager.updateState(sessionId, {
+    currentPhase: 'processing_modification',
+    pendingClarifications: [],
+    awaitingResponse: false,
+    lastIntent: resumedIntent
+  })
+
+  return handleCanvasModificationIntent(
+    resumedIntent,
+    messagesWithQuestions,
+    currentDocument,
+    originalTicketData,
+    requestId
+  )
+}
+
 /**
  * Handle clarification intent - generate clarification questions
  */
@@ -240,7 +397,8 @@ async function handleClarificationIntent(
       context: clarificationResult.context,
       suggestedActions: clarificationResult.suggestedActions,
       sessionId,
-      changesSummary: `I need some clarification to better understand your request. ${clarificationResult.context}`
+      changesSummary: `I need some clarification to better understand your request. ${clarificationResult.context}`,
+      budgetWarnings: getBudgetWarnings()
     }, {
       headers: {
         'Access-Control-Allow-Origin': '*',
@@ -278,7 +436,8 @@ async function handleInformationIntent(
       relevantSections: contextualResponse.relevantSections,
       citations: contextualResponse.citations,
       suggestedFollowUps: contextualResponse.suggestedFollowUps,
-      changesSummary: contextualResponse.response
+      changesSummary: contextualResponse.response,
+      budgetWarnings: getBudgetWarnings()
     }, {
       headers: {
         'Access-Control-Allow-Origin': '*',
@@ -456,13 +615,17 @@ I'll ensure all related sections remain consistent with your changes.
 ` : ''}
 `
 
-  // Generate updated QA document with structured output using the enhanced prompt
+  // Generate a patch for the target sections (plus any sections affected by a dependency cascade)
   return await generateCanvasUpdate(
     intentEnhancedPrompt,
     modelMessages,
     currentDocument,
     originalTicketData,
-    requestId
+    requestId,
+    resolvePatchableSections(
+      intentResult.targetSections,
+      dependencyResult.cascadeRequired ? dependencyResult.affectedSections : undefined
+    )
   )
 }
 
@@ -500,7 +663,7 @@ async function handleOriginalLogic(
     createdAt: typeof msg.createdAt === 'string' ? new Date(msg.createdAt) : msg.createdAt
   }))
 
-  // Generate updated QA document with structured output
+  // Generate a patch with structured output; without intent analysis any content section may change
   return await generateCanvasUpdate(
     systemPrompt,
     modelMessages,
@@ -512,14 +675,20 @@ async function handleOriginalLogic(
 
 /**
  * Generate canvas update with AI
+ * The model returns JSON Patch operations limited to allowedSections instead of re-emitting the whole document
  */
 async function generateCanvasUpdate(
   systemPrompt: string,
   modelMessages: any[],
   currentDocument: UpdateCanvasPayload['currentDocument'],
   originalTicketData: UpdateCanvasPayload['originalTicketData'],
-  requestId: string
+  requestId: string,
+  allowedSections: PatchableSection[] = [...PATCHABLE_SECTIONS]
 ): Promise<NextResponse> {
+  // Without a canvas the patch is applied to an empty document for the ticket
+  const baseDocument = (currentDocument as QACanvasDocument | undefined) ||
+    createMinimalQACanvasDocument(originalTicketData?.issueKey || 'UNKNOWN', defaultQAProfile)
+
   // Check for ambiguities in the latest user message
   const latestUserMessage = modelMessages.filter(msg => msg.role === 'user').pop()
 
@@ -598,7 +767,7 @@ ${originalTicketData.attachments.length > 0 ?
 ` : 'No original ticket data provided'}
 
 CURRENT DOCUMENT:
-${currentDocument ? JSON.stringify(currentDocument, null, 2) : 'No current document provided'}
+${JSON.stringify(baseDocument, null, 2)}
 
 CONVERSATION HISTORY:
 ${modelMessages.map(msg => `${msg.role.toUpperCase()}: ${msg.content}`).join('\n')}
@@ -635,51 +804,26 @@ Ensure your updated document reflects:
 - The specific deliverables mentioned in recent communications
 - Appropriate test strategies for what's actually being built
 
+**PATCH INSTRUCTIONS**:
+Do NOT re-emit the document. Describe your changes as RFC 6902 JSON Patch operations against CURRENT DOCUMENT.
+- You may only change these sections: ${allowedSections.join(', ')}
+- Never touch "metadata" and leave every other section exactly as it is
+- Paths are JSON Pointers, e.g. "/acceptanceCriteria/-" appends a criterion, "/testCases/2/testCase/then/0" addresses a single step
+- Operations are applied in order, so array indexes must account for earlier operations in the patch
+- Prefer small, targeted operations ("add", "remove", "replace", "move") over replacing a whole section
+- New acceptance criteria need: id, title, description, priority (must|should|could), category, testable
+- New test cases must follow the format used by the existing test cases and include "coversCriteria" with the ids of the acceptance criteria they verify
+
 Generate a JSON response with this EXACT structure:
 {
-  "updatedDocument": {
-    "ticketSummary": {
-      "problem": "string",
-      "solution": "string", 
-      "context": "string"
-    },
-    "configurationWarnings": [],
-    "acceptanceCriteria": [
-      {
-        "id": "string",
-        "title": "string",
-        "description": "string",
-        "priority": "must|should|could",
-        "category": "functional|ui|ux|performance|security|accessibility|api|database|negative|mobile",
-        "testable": true
-      }
-    ],
-    "testCases": [
-      {
-        "format": "gherkin",
-        "id": "string",
-        "category": "string",
-        "priority": "high|medium|low",
-        "estimatedTime": "string",
-        "testCase": {
-          "scenario": "string",
-          "given": ["string"],
-          "when": ["string"],
-          "then": ["string"],
-          "tags": ["string"]
-        }
-      }
-    ],
-    "metadata": {
-      "ticketId": "string",
-      "qaProfile": {},
-      "generatedAt": "string"
-    }
-  },
+  "patch": [
+    { "op": "replace", "path": "/acceptanceCriteria/0/description", "value": "string" },
+    { "op": "add", "path": "/testCases/-", "value": { "format": "gherkin", "id": "string", "category": "string", "priority": "high|medium|low", "coversCriteria": ["string"], "testCase": { "scenario": "string", "given": ["string"], "when": ["string"], "then": ["string"], "tags": ["string"] } } }
+  ],
   "changesSummary": "Direct response to user explaining what you understood from their message and what you corrected"
 }
 
-Return ONLY the JSON object with the updated document structure.`
+Return ONLY the JSON object with the patch.`
 
   const result = await generateTextWithFailover(updatePrompt, {
     temperature: 0.1,
@@ -705,8 +849,8 @@ Return ONLY the JSON object with the updated document structure.`
     parsedResult = JSON.parse(cleanedText)
 
     // Ensure we have the expected structure
-    if (!parsedResult.updatedDocument) {
-      throw new Error('Missing updatedDocument in response')
+    if (!Array.isArray(parsedResult.patch)) {
+      throw new Error('Missing patch in response')
     }
 
   } catch (parseError) {
@@ -730,8 +874,118 @@ Return ONLY the JSON object with the updated document structure.`
     )
   }
 
-  // Return the structured response
-  return NextResponse.json(parsedResult, {
+  let patchResult
+  try {
+    patchResult = applyCanvasPatch(baseDocument, parsedResult.patch, allowedSections)
+  } catch (patchError) {
+    if (!(patchError instanceof CanvasPatchError)) throw patchError
+
+    console.error(`❌ [${requestId}] Rejected canvas patch: ${patchError.message}`, patchError.issues)
+
+    return NextResponse.json(
+      {
+        error: 'AI_PATCH_ERROR',
+        message: patchError.message,
+        details: patchError.issues,
+        requestId
+      },
+      {
+        status: 500,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'POST, OPTIONS',
+          'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        }
+      }
+    )
+  }
+
+  console.log(`🩹 [${requestId}] Applied ${patchResult.patch.length} patch operations to ${patchResult.changedSections.join(', ') || 'no sections'}`)
+
+  // Link test cases that came back without coversCriteria
+  let updatedDocument = patchResult.document
+  if (patchResult.changedSections.includes('testCases')) {
+    updatedDocument = {
+      ...updatedDocument,
+      testCases: linkTestCasesToCriteria(updatedDocument.testCases, updatedDocument.acceptanceCriteria)
+    }
+  }
+
+  // Record the new version
+  if (currentDocument) {
+    const historyRecord = await documentHistory.tryRecordVersion({
+      ...updatedDocument,
+      metadata: {
+        ...updatedDocument.metadata,
+        generatedAt: new Date().toISOString()
+      }
+    }, 'update-canvas', { requestId })
+
+    if (historyRecord) {
+      updatedDocument = historyRecord.document
+    }
+  }
+
+  // Return the applied document alongside the patch so clients can highlight just the changed items
+  return NextResponse.json({
+    updatedDocument,
+    patch: patchResult.patch,
+    changedSections: patchResult.changedSections,
+    changesSummary: parsedResult.changesSummary,
+    budgetWarnings: getBudgetWarnings()
+  }, {
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    }
+  })
+}
+
+/**
+ * Add boundary value and equivalence class test cases derived from the constrained inputs, without AI
+ * Test cases whose title is already on the canvas are skipped, so repeating the action adds nothing new
+ */
+async function handleBoundaryTestsAction(
+  currentDocument: NonNullable<UpdateCanvasPayload['currentDocument']>,
+  originalTicketData: UpdateCanvasPayload['originalTicketData'],
+  requestId: string
+): Promise<NextResponse> {
+  const document = currentDocument as QACanvasDocument
+  const existingTitles = new Set(document.testCases.map(getTestCaseTitle))
+  const { constraints, testCases } = generateBoundaryTestCases(document, originalTicketData)
+  const newTestCases = testCases.filter(testCase => !existingTitles.has(getTestCaseTitle(testCase)))
+
+  const patchResult = applyCanvasPatch(document, newTestCases.map(value => ({ op: 'add', path: '/testCases/-', value })), ['testCases'])
+  console.log(`🎯 [${requestId}] Added ${newTestCases.length} boundary test cases for ${constraints.length} constrained inputs`)
+
+  let updatedDocument = patchResult.document
+  if (newTestCases.length > 0) {
+    const historyRecord = await documentHistory.tryRecordVersion({
+      ...updatedDocument,
+      metadata: {
+        ...updatedDocument.metadata,
+        generatedAt: new Date().toISOString()
+      }
+    }, 'update-canvas', { requestId })
+
+    if (historyRecord) {
+      updatedDocument = historyRecord.document
+    }
+  }
+
+  const fields = Array.from(new Set(constraints.map(constraint => constraint.field)))
+  return NextResponse.json({
+    updatedDocument,
+    patch: patchResult.patch,
+    changedSections: patchResult.changedSections,
+    changesSummary: newTestCases.length > 0
+      ? `Added ${newTestCases.length} boundary value test case${newTestCases.length === 1 ? '' : 's'} for ${fields.join(', ')}`
+      : fields.length > 0
+        ? `The boundary value test cases for ${fields.join(', ')} are already on the canvas`
+        : 'No constrained inputs (ranges, lengths, dates, allowed values or required fields) were found in the acceptance criteria or ticket',
+    budgetWarnings: getBudgetWarnings()
+  }, {
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'POST, OPTIONS',
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { v4 as uuidv4 } from 'uuid'
+import { handleValidationError } from '@/lib/ai/errorHandler'
+import { usageTracker, USAGE_REPORT_GROUPS } from '@/lib/usage/usageTracker'
+
+const isoDate = z.string().refine(
+  value => /^\d{4}-\d{2}-\d{2}(T.*)?$/.test(value) && !Number.isNaN(Date.parse(value)),
+  'Expected an ISO date (YYYY-MM-DD) or timestamp'
+)
+
+/**
+ * Schema for usage report query parameters
+ */
+const usageQuerySchema = z.object({
+  groupBy: z.enum(USAGE_REPORT_GROUPS).default('day').describe('Dimension to aggregate by'),
+  from: isoDate.optional().describe('Inclusive start date or timestamp'),
+  to: isoDate.optional().describe('Inclusive end date or timestamp'),
+  ticketId: z.string().optional().describe('Only include calls for this ticket'),
+  team: z.string().optional().describe('Only include calls attributed to this budget team'),
+  endpoint: z.string().optional().describe('Only include calls made by this endpoint')
+})
+
+/**
+ * Handle CORS preflight requests
+ */
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Max-Age': '86400',
+    },
+  })
+}
+
+/**
+ * GET /api/usage?groupBy=day|ticket|team|endpoint|model|section&from=2025-01-01&to=2025-01-31
+ * Aggregates recorded token usage and estimated cost of AI calls
+ */
+export async function GET(request: NextRequest) {
+  const requestId = uuidv4()
+
+  try {
+    const searchParams = new URL(request.url).searchParams
+    const validationResult = usageQuerySchema.safeParse({
+      groupBy: searchParams.get('groupBy') ?? undefined,
+      from: searchParams.get('from') ?? undefined,
+      to: searchParams.get('to') ?? undefined,
+      ticketId: searchParams.get('ticketId') ?? undefined,
+      team: searchParams.get('team') ?? undefined,
+      endpoint: searchParams.get('endpoint') ?? undefined
+    })
+
+    if (!validationResult.success) {
+      return handleValidationError(validationResult.error.issues, requestId)
+    }
+
+    const report = await usageTracker.getReport(validationResult.data)
+    console.log(`💰 [${requestId}] Usage report by ${report.groupBy}: ${report.totals.calls} calls, ~$${report.totals.estimatedCost}`)
+
+    return NextResponse.json(report, {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      }
+    })
+  } catch (error) {
+    console.error(`❌ [${requestId}] Error in /api/usage:`, error)
+    return NextResponse.json(
+      {
+        error: 'USAGE_REPORT_ERROR',
+        message: 'Failed to build usage report',
+        details: error instanceof Error ? error.message : String(error),
+        requestId
+      },
+      {
+        status: 500,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Access-Control-Allow-Methods': 'GET, OPTIONS',
+          'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+        }
+      }
+    )
+  }
+}
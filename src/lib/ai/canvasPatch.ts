@@ -0,0 +1,120 @@
+/**
+ * Canvas Patch Service
+ * Applies AI-generated JSON Patch operations to a QA canvas, restricted to the sections being modified
+ */
+
+import { QACanvasDocument, qaCanvasDocumentSchema } from '../schemas/QACanvasDocument'
+import { applyPatch, jsonPatchSchema, JsonPatchError, parsePointer, type JsonPatch } from '../utils/jsonPatch'
+import type { CanvasSection } from './intent/types'
+
+/**
+ * Document sections the AI may patch; metadata is always managed by the server
+ */
+export const PATCHABLE_SECTIONS = ['ticketSummary', 'configurationWarnings', 'acceptanceCriteria', 'testCases'] as const
+
+export type PatchableSection = typeof PATCHABLE_SECTIONS[number]
+
+/**
+ * Raised when a patch is malformed, touches a section it may not, or produces an invalid document
+ */
+export class CanvasPatchError extends Error {
+  constructor(message: string, public issues: string[]) {
+    super(message)
+    this.name = 'CanvasPatchError'
+  }
+}
+
+/**
+ * Result of applying a canvas patch
+ */
+export interface CanvasPatchResult {
+  document: QACanvasDocument
+  patch: JsonPatch
+  changedSections: PatchableSection[]
+}
+
+/**
+ * Resolve which sections a patch may touch from the intent's target sections
+ * Falls back to every content section when no patchable target is known
+ */
+export function resolvePatchableSections(...sectionLists: Array<CanvasSection[] | undefined>): PatchableSection[] {
+  const sections = PATCHABLE_SECTIONS.filter(section =>
+    sectionLists.some(list => list?.includes(section))
+  )
+  return sections.length > 0 ? sections : [...PATCHABLE_SECTIONS]
+}
+
+/**
+ * Validate and apply a patch to the document
+ */
+export function applyCanvasPatch(
+  document: QACanvasDocument,
+  rawPatch: unknown,
+  allowedSections: readonly PatchableSection[] = PATCHABLE_SECTIONS
+): CanvasPatchResult {
+  const parsed = jsonPatchSchema.safeParse(rawPatch)
+  if (!parsed.success) {
+    throw new CanvasPatchError(
+      'Patch is not a valid JSON Patch document',
+      parsed.error.issues.map(issue => `${issue.path.join('.') || 'patch'}: ${issue.message}`)
+    )
+  }
+
+  const patch = parsed.data
+  const changedSections = new Set<PatchableSection>()
+  const issues: string[] = []
+
+  patch.forEach((operation, index) => {
+    // move removes its source, so both ends must be inside the allowed sections
+    const pointers = operation.op === 'move' ? [operation.path, operation.from] : [operation.path]
+
+    pointers.forEach(pointer => {
+      const section = getSection(pointer)
+      if (!section || !allowedSections.includes(section as PatchableSection)) {
+        issues.push(`Operation ${index} (${operation.op} ${pointer}) targets "${section || '/'}", allowed sections: ${allowedSections.join(', ')}`)
+      } else if (operation.op !== 'test') {
+        changedSections.add(section as PatchableSection)
+      }
+    })
+  })
+
+  if (issues.length > 0) {
+    throw new CanvasPatchError('Patch modifies sections outside the requested scope', issues)
+  }
+
+  let patched: QACanvasDocument
+  try {
+    patched = applyPatch(document, patch)
+  } catch (error) {
+    if (error instanceof JsonPatchError) {
+      throw new CanvasPatchError('Patch could not be applied to the current document', [error.message])
+    }
+    throw error
+  }
+
+  // Only report problems in sections the patch changed; pre-existing issues elsewhere are not the patch's fault
+  const validation = qaCanvasDocumentSchema.safeParse(patched)
+  if (!validation.success) {
+    const sectionIssues = validation.error.issues
+      .filter(issue => changedSections.has(issue.path[0] as PatchableSection))
+      .map(issue => `${issue.path.join('.')}: ${issue.message}`)
+
+    if (sectionIssues.length > 0) {
+      throw new CanvasPatchError('Patched document does not match the QA canvas schema', sectionIssues)
+    }
+  }
+
+  return {
+    document: patched,
+    patch,
+    changedSections: PATCHABLE_SECTIONS.filter(section => changedSections.has(section))
+  }
+}
+
+function getSection(pointer: string): string | undefined {
+  try {
+    return parsePointer(pointer)[0]
+  } catch {
+    return undefined
+  }
+}
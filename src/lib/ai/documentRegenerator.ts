@@ -4,7 +4,7 @@
  */
 
 import { generateObject } from 'ai'
-import { openai } from '@ai-sdk/openai'
+import { resolveLanguageModel } from './providerRegistry'
 import { QACanvasDocument, qaCanvasDocumentSchema } from '../schemas/QACanvasDocument'
 import { JiraTicket } from '../schemas/JiraTicket'
 import { QAProfile } from '../schemas/QAProfile'
@@ -80,7 +80,7 @@ export async function regenerateDocument(
     
     // Generate new document using AI
     const { object: regeneratedDocument } = await generateObject({
-      model: openai(mergedOptions.model!),
+      model: resolveLanguageModel(mergedOptions.model!),
       schema: qaCanvasDocumentSchema,
       system: getRegenerationSystemPrompt(),
       prompt: regenerationPrompt,
@@ -362,7 +362,7 @@ function categorizeChanges(changes: DocumentChange[]): {
 /**
  * Increment document version
  */
-function incrementVersion(currentVersion: string): string {
+export function incrementVersion(currentVersion: string): string {
   const parts = currentVersion.split('.')
   const major = parseInt(parts[0] || '1')
   const minor = parseInt(parts[1] || '0')
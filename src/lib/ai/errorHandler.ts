@@ -5,6 +5,7 @@
 
 import { NextResponse } from 'next/server'
 import { getProviderHealthStatus } from './providerFailover'
+import { BudgetExceededError } from '../usage/budgets'
 
 /**
  * CORS headers for API responses
@@ -32,7 +33,8 @@ export enum AIErrorType {
   CONTEXT_LIMIT_ERROR = 'CONTEXT_LIMIT_ERROR',
   CONTENT_FILTER_ERROR = 'CONTENT_FILTER_ERROR',
   CIRCUIT_OPEN_ERROR = 'CIRCUIT_OPEN_ERROR',
-  FAILOVER_ERROR = 'FAILOVER_ERROR'
+  FAILOVER_ERROR = 'FAILOVER_ERROR',
+  BUDGET_EXCEEDED = 'BUDGET_EXCEEDED'
 }
 
 /**
@@ -58,6 +60,34 @@ export interface ErrorResponse {
 export function handleAIError(error: unknown, requestId?: string): NextResponse<ErrorResponse> {
   console.error('AI Error:', error)
 
+  // Budget stops are ours, not the provider's, so they are reported regardless of provider configuration
+  if (error instanceof BudgetExceededError) {
+    return NextResponse.json(
+      {
+        error: AIErrorType.BUDGET_EXCEEDED,
+        message: `The ${error.period} AI budget for team ${error.team} has been used up`,
+        details: {
+          team: error.team,
+          period: error.period,
+          limit: error.limit,
+          spent: error.spent,
+          currency: 'USD',
+          resetAt: error.resetAt.toISOString()
+        },
+        retryAfter: Math.max(1, Math.ceil((error.resetAt.getTime() - Date.now()) / 1000)),
+        requestId,
+        errorCode: 'BUDGET_EXCEEDED',
+        retryable: false,
+        suggestions: [
+          `Wait until the budget resets at ${error.resetAt.toISOString()}`,
+          'Ask an administrator to raise the team budget in AI_BUDGETS',
+          'Check for clients refreshing or retrying in a loop'
+        ]
+      },
+      { status: 429, headers: CORS_HEADERS }
+    )
+  }
+
   // Check for missing API key first
   if (!process.env.OPENAI_API_KEY) {
     return NextResponse.json(
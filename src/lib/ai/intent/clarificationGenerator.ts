@@ -4,7 +4,7 @@
  */
 
 import { generateText, tool } from 'ai'
-import { openai } from '@ai-sdk/openai'
+import { resolveLanguageModel } from '../providerRegistry'
 import { z } from 'zod'
 import type { 
   ClarificationResult, 
@@ -39,7 +39,10 @@ const clarificationGenerationTool = tool({
  * ClarificationGenerator class for generating targeted questions
  */
 export class ClarificationGenerator {
-  private readonly model = openai('gpt-4o-mini')
+  // Resolved per call so PRIMARY_PROVIDER=mock and on-prem routing apply
+  private get model() {
+    return resolveLanguageModel('gpt-4o-mini')
+  }
 
   /**
    * Generate clarification questions for ambiguous user requests
@@ -4,7 +4,7 @@
  */
 
 import { generateText, tool } from 'ai'
-import { openai } from '@ai-sdk/openai'
+import { resolveLanguageModel } from '../providerRegistry'
 import { z } from 'zod'
 import type { 
   ContextualResponse, 
@@ -37,7 +37,10 @@ const contextualResponseTool = tool({
  * ContextualResponseGenerator class for generating informative responses
  */
 export class ContextualResponseGenerator {
-  private readonly model = openai('gpt-4o-mini')
+  // Resolved per call so PRIMARY_PROVIDER=mock and on-prem routing apply
+  private get model() {
+    return resolveLanguageModel('gpt-4o-mini')
+  }
 
   /**
    * Generate contextual response for information requests
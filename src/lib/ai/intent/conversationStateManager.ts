@@ -11,10 +11,15 @@ import type {
   ContextSnapshot
 } from './types'
 import { CONVERSATION_LIMITS } from './constants'
+import {
+  createConversationStateStore,
+  CONVERSATION_STATE_TTL,
+  type ConversationStateStore
+} from './conversationStateStore'
 
 /**
- * In-memory conversation state storage
- * In production, this would be replaced with Redis or database storage
+ * In-memory conversation state cache
+ * Serves the synchronous manager API; a ConversationStateStore persists it across requests and instances
  */
 class ConversationStateStorage {
   private states = new Map<string, ConversationState>()
@@ -93,9 +98,48 @@ class ConversationStateStorage {
  */
 export class ConversationStateManager {
   private storage: ConversationStateStorage
+  private store: ConversationStateStore | null
+  // Pending writes per session, chained so the store sees them in order
+  private pendingWrites = new Map<string, Promise<void>>()
 
-  constructor() {
+  constructor(store: ConversationStateStore | null = null) {
     this.storage = new ConversationStateStorage()
+    this.store = store
+  }
+
+  /**
+   * Load a session from the persistent store into memory
+   * Returns the active state, or null when the session is unknown or expired
+   */
+  async loadSession(sessionId: string): Promise<ConversationState | null> {
+    if (this.store) {
+      await this.flush(sessionId)
+
+      try {
+        const stored = await this.store.load(sessionId)
+        const local = this.storage.get(sessionId)
+
+        // Another instance may have handled the previous turn; keep whichever state is newer
+        if (stored && (!local || stored.lastActivity >= local.lastActivity)) {
+          this.storage.set(sessionId, stored)
+        }
+      } catch (error) {
+        console.error(`Failed to load conversation state for ${sessionId}:`, error)
+      }
+    }
+
+    return this.getState(sessionId)
+  }
+
+  /**
+   * Wait until pending writes for a session (or all sessions) reach the persistent store
+   */
+  async flush(sessionId?: string): Promise<void> {
+    const pending = sessionId
+      ? [this.pendingWrites.get(sessionId)]
+      : Array.from(this.pendingWrites.values())
+
+    await Promise.all(pending)
   }
 
   /**
@@ -129,7 +173,7 @@ export class ConversationStateManager {
       lastActivity: now
     }
 
-    this.storage.set(sessionId, initialState)
+    this.writeState(initialState)
     return initialState
   }
 
@@ -146,7 +190,7 @@ export class ConversationStateManager {
     const now = Date.now()
     const lastActivity = new Date(state.lastActivity).getTime()
     if (now - lastActivity > CONVERSATION_LIMITS.SESSION_TIMEOUT) {
-      this.storage.delete(sessionId)
+      this.removeState(sessionId)
       return null
     }
 
@@ -168,7 +212,7 @@ export class ConversationStateManager {
       lastActivity: new Date().toISOString()
     }
 
-    this.storage.set(sessionId, updatedState)
+    this.writeState(updatedState)
     return updatedState
   }
 
@@ -363,6 +407,40 @@ export class ConversationStateManager {
    */
   destroy(): void {
     this.storage.destroy()
+    this.store?.close?.().catch(error => console.error('Failed to close conversation state store:', error))
+  }
+
+  /**
+   * Store state in memory and queue a write to the persistent store
+   */
+  private writeState(state: ConversationState): void {
+    this.storage.set(state.sessionId, state)
+    this.queueWrite(state.sessionId, store => store.save(state, CONVERSATION_STATE_TTL))
+  }
+
+  /**
+   * Remove state from memory and the persistent store
+   */
+  private removeState(sessionId: string): void {
+    this.storage.delete(sessionId)
+    this.queueWrite(sessionId, store => store.delete(sessionId))
+  }
+
+  private queueWrite(sessionId: string, write: (store: ConversationStateStore) => Promise<void>): void {
+    const store = this.store
+    if (!store) return
+
+    const previous = this.pendingWrites.get(sessionId) || Promise.resolve()
+    const next = previous
+      .then(() => write(store))
+      .catch(error => console.error(`Failed to persist conversation state for ${sessionId}:`, error))
+      .finally(() => {
+        if (this.pendingWrites.get(sessionId) === next) {
+          this.pendingWrites.delete(sessionId)
+        }
+      })
+
+    this.pendingWrites.set(sessionId, next)
   }
 
   /**
@@ -381,8 +459,8 @@ export class ConversationStateManager {
   }
 }
 
-// Singleton instance for global use
-export const conversationStateManager = new ConversationStateManager()
+// Singleton instance for global use, persisted through CONVERSATION_STATE_STORE
+export const conversationStateManager = new ConversationStateManager(createConversationStateStore())
 
 /**
  * Utility functions for conversation state management
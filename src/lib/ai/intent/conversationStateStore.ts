@@ -0,0 +1,161 @@
+/**
+ * Conversation State Stores
+ * Persistent backends for conversation state so clarification flows survive across requests and instances
+ */
+
+import { mkdir, readFile, rename, unlink, writeFile } from 'fs/promises'
+import path from 'path'
+import type { ConversationState } from './types'
+import { CONVERSATION_LIMITS } from './constants'
+import { RespClient, parseRedisUrl } from '../../utils/respClient'
+
+/**
+ * Storage backend for conversation state
+ * Implementations must drop states older than the TTL passed to save()
+ */
+export interface ConversationStateStore {
+  load(sessionId: string): Promise<ConversationState | null>
+  save(state: ConversationState, ttlMs: number): Promise<void>
+  delete(sessionId: string): Promise<void>
+  close?(): Promise<void>
+}
+
+/**
+ * In-memory store; state is lost on restart and not shared between instances
+ */
+export class MemoryConversationStateStore implements ConversationStateStore {
+  private states = new Map<string, { state: ConversationState; expiresAt: number }>()
+
+  async load(sessionId: string): Promise<ConversationState | null> {
+    const entry = this.states.get(sessionId)
+    if (!entry) return null
+
+    if (Date.now() > entry.expiresAt) {
+      this.states.delete(sessionId)
+      return null
+    }
+    return structuredClone(entry.state)
+  }
+
+  async save(state: ConversationState, ttlMs: number): Promise<void> {
+    this.states.set(state.sessionId, { state: structuredClone(state), expiresAt: Date.now() + ttlMs })
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.states.delete(sessionId)
+  }
+}
+
+/**
+ * File-based store writing one JSON file per session
+ * Shared by all processes on the same host (e.g. PM2 cluster instances)
+ */
+export class FileConversationStateStore implements ConversationStateStore {
+  constructor(private baseDir: string) {}
+
+  async load(sessionId: string): Promise<ConversationState | null> {
+    let content: string
+    try {
+      content = await readFile(this.getFilePath(sessionId), 'utf-8')
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw error
+    }
+
+    const entry: { state: ConversationState; expiresAt: number } = JSON.parse(content)
+    if (Date.now() > entry.expiresAt) {
+      await this.delete(sessionId)
+      return null
+    }
+    return entry.state
+  }
+
+  async save(state: ConversationState, ttlMs: number): Promise<void> {
+    await mkdir(this.baseDir, { recursive: true })
+
+    // Write to a temporary file first so concurrent readers never see a partial state
+    const filePath = this.getFilePath(state.sessionId)
+    const tempPath = `${filePath}.${process.pid}.tmp`
+    await writeFile(tempPath, JSON.stringify({ state, expiresAt: Date.now() + ttlMs }), 'utf-8')
+    await rename(tempPath, filePath)
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    try {
+      await unlink(this.getFilePath(sessionId))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+    }
+  }
+
+  private getFilePath(sessionId: string): string {
+    // Session IDs come from clients; encode dots too so they cannot leave the base directory
+    return path.join(this.baseDir, `${encodeURIComponent(sessionId).replace(/\./g, '%2E')}.json`)
+  }
+}
+
+/**
+ * Redis store using SET with PX so expiry is enforced by the server
+ */
+export class RedisConversationStateStore implements ConversationStateStore {
+  constructor(
+    private client: RespClient,
+    private keyPrefix: string = 'qa-canvas:conversation:'
+  ) {}
+
+  async load(sessionId: string): Promise<ConversationState | null> {
+    const value = await this.client.command(['GET', this.getKey(sessionId)])
+    return typeof value === 'string' ? JSON.parse(value) : null
+  }
+
+  async save(state: ConversationState, ttlMs: number): Promise<void> {
+    await this.client.command(['SET', this.getKey(state.sessionId), JSON.stringify(state), 'PX', Math.max(1, Math.round(ttlMs))])
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await this.client.command(['DEL', this.getKey(sessionId)])
+  }
+
+  async close(): Promise<void> {
+    await this.client.quit()
+  }
+
+  private getKey(sessionId: string): string {
+    return `${this.keyPrefix}${sessionId}`
+  }
+}
+
+/**
+ * Create the store configured through CONVERSATION_STATE_STORE ("memory", "file" or "redis")
+ * Returns null for "memory" (the default) since the manager already keeps state in memory
+ */
+export function createConversationStateStore(): ConversationStateStore | null {
+  const storeType = process.env.CONVERSATION_STATE_STORE || 'memory'
+
+  switch (storeType) {
+    case 'memory':
+      return null
+
+    case 'file':
+      return new FileConversationStateStore(
+        process.env.CONVERSATION_STATE_DIR || path.join(process.cwd(), '.data', 'conversations')
+      )
+
+    case 'redis': {
+      const url = process.env.REDIS_URL || 'redis://127.0.0.1:6379'
+      return new RedisConversationStateStore(
+        new RespClient(parseRedisUrl(url)),
+        process.env.CONVERSATION_STATE_KEY_PREFIX
+      )
+    }
+
+    default:
+      console.warn(`⚠️ Unknown CONVERSATION_STATE_STORE "${storeType}", keeping conversation state in memory`)
+      return null
+  }
+}
+
+/**
+ * Default TTL for persisted sessions
+ */
+export const CONVERSATION_STATE_TTL = CONVERSATION_LIMITS.SESSION_TIMEOUT
@@ -4,7 +4,7 @@
  */
 
 import { generateText, tool } from 'ai'
-import { openai } from '@ai-sdk/openai'
+import { resolveLanguageModel } from '../providerRegistry'
 import { z } from 'zod'
 import type { 
   DependencyAnalysisResult, 
@@ -66,7 +66,10 @@ const conflictDetectionTool = tool({
  * DependencyAnalyzer class for analyzing section dependencies
  */
 export class DependencyAnalyzer {
-  private readonly model = openai('gpt-4o-mini')
+  // Resolved per call so PRIMARY_PROVIDER=mock and on-prem routing apply
+  private get model() {
+    return resolveLanguageModel('gpt-4o-mini')
+  }
 
   /**
    * Analyze dependencies for target sections and proposed changes
@@ -17,6 +17,13 @@ export {
   isCompletedPhase,
   getPhaseDescription
 } from './conversationStateManager'
+export {
+  MemoryConversationStateStore,
+  FileConversationStateStore,
+  RedisConversationStateStore,
+  createConversationStateStore,
+  type ConversationStateStore
+} from './conversationStateStore'
 
 // Types and interfaces
 export type {
@@ -4,7 +4,7 @@
  */
 
 import { generateObject } from 'ai'
-import { openai } from '@ai-sdk/openai'
+import { resolveLanguageModel } from '../providerRegistry'
 import { z } from 'zod'
 import { REJECTION_TEMPLATES } from './constants'
 import type { QACanvasDocument } from '../../schemas/QACanvasDocument'
@@ -291,7 +291,7 @@ Messages should be considered OFF-TOPIC if they relate to:
 `
 
       const result = await generateObject({
-        model: openai('gpt-4o-mini'),
+        model: resolveLanguageModel('gpt-4o-mini'),
         prompt,
         schema: offTopicDetectionTool,
         temperature: 0.1
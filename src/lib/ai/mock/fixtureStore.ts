@@ -0,0 +1,105 @@
+/**
+ * Recorded Fixture Store
+ * Loads fixtures recorded from real provider runs and records new ones
+ */
+
+import { createHash } from 'crypto'
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from 'fs'
+import path from 'path'
+import { z } from 'zod'
+import type { MockFixture, MockRequest, MockResponse } from './fixtures'
+
+/**
+ * Schema for a fixture file
+ * A fixture matches by exact request key, by tool name and/or by prompt fragments
+ */
+export const recordedFixtureSchema = z.object({
+  name: z.string(),
+  match: z.object({
+    key: z.string().optional(),
+    tool: z.string().optional(),
+    promptIncludes: z.array(z.string()).optional()
+  }).refine(match => match.key || match.tool || match.promptIncludes?.length, 'A fixture needs at least one matcher'),
+  response: z.union([
+    z.object({ text: z.string() }),
+    z.object({ toolCall: z.object({ toolName: z.string(), args: z.unknown() }) })
+  ])
+})
+
+export type RecordedFixture = z.infer<typeof recordedFixtureSchema>
+
+/**
+ * Stable key for a request; identical prompts, tools and schemas produce the same key
+ */
+export function getFixtureKey(request: MockRequest): string {
+  return createHash('sha256')
+    .update(JSON.stringify([request.system, request.prompt, request.tools.map(tool => tool.name), request.toolChoice || null, request.objectSchema || null]))
+    .digest('hex')
+    .slice(0, 16)
+}
+
+/**
+ * Load recorded fixtures from a directory of JSON files (one fixture or an array per file)
+ * Exact key matches are checked before the looser tool/prompt matchers
+ */
+export function loadRecordedFixtures(directory: string): MockFixture[] {
+  if (!existsSync(directory)) {
+    console.warn(`⚠️ Mock fixture directory not found: ${directory}`)
+    return []
+  }
+
+  const fixtures = readdirSync(directory)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .flatMap(file => {
+      try {
+        const content: unknown = JSON.parse(readFileSync(path.join(directory, file), 'utf-8'))
+        return (Array.isArray(content) ? content : [content]).flatMap(entry => {
+          const result = recordedFixtureSchema.safeParse(entry)
+          if (!result.success) {
+            console.error(`❌ Ignoring invalid mock fixture in ${file}:`, result.error.issues.map(issue => issue.message))
+            return []
+          }
+          return [result.data]
+        })
+      } catch (error) {
+        console.error(`❌ Failed to read mock fixture ${file}:`, error)
+        return []
+      }
+    })
+
+  return [
+    ...fixtures.filter(fixture => fixture.match.key),
+    ...fixtures.filter(fixture => !fixture.match.key)
+  ].map(toMockFixture)
+}
+
+/**
+ * Write a fixture for a real provider response so later mock runs can replay it
+ */
+export function recordFixture(directory: string, request: MockRequest, response: MockResponse): string {
+  const key = getFixtureKey(request)
+  const fixture: RecordedFixture = {
+    name: `${'toolCall' in response ? response.toolCall.toolName : 'text'}-${key}`,
+    match: { key },
+    response
+  }
+
+  mkdirSync(directory, { recursive: true })
+  const filePath = path.join(directory, `${fixture.name}.json`)
+  writeFileSync(filePath, `${JSON.stringify(fixture, null, 2)}\n`, 'utf-8')
+  return filePath
+}
+
+function toMockFixture(fixture: RecordedFixture): MockFixture {
+  return {
+    name: fixture.name,
+    matches: request => {
+      const { key, tool, promptIncludes } = fixture.match
+      if (key && key !== getFixtureKey(request)) return false
+      if (tool && !request.tools.some(candidate => candidate.name === tool)) return false
+      return (promptIncludes || []).every(fragment => request.prompt.includes(fragment) || request.system.includes(fragment))
+    },
+    respond: () => fixture.response as MockResponse
+  }
+}
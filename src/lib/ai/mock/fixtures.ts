@@ -0,0 +1,597 @@
+/**
+ * Mock AI Fixtures
+ * Deterministic, schema-valid responses for every prompt the QA pipeline sends to a model
+ */
+
+import type { LanguageModelV1CallOptions } from '@ai-sdk/provider'
+import { sampleFromJsonSchema, type JsonSchema } from './schemaSampler'
+import { acceptanceCriterionSchema } from '../../schemas/QACanvasDocument'
+import type {
+  AcceptanceCriterion,
+  ConfigurationWarning,
+  QACanvasDocument,
+  TestCase
+} from '../../schemas/QACanvasDocument'
+import type { JsonPatchOperation } from '../../utils/jsonPatch'
+import type { CanvasSection } from '../intent/types'
+
+/**
+ * Normalized view of a model call used to pick a fixture
+ */
+export interface MockRequest {
+  system: string
+  prompt: string
+  tools: Array<{ name: string; parameters: JsonSchema }>
+  toolChoice?: string
+  objectSchema?: JsonSchema
+}
+
+/**
+ * Fixture output: plain text (JSON for object generation) or a single tool call
+ */
+export type MockResponse =
+  | { text: string }
+  | { toolCall: { toolName: string; args: unknown } }
+
+/**
+ * A canned response for a family of prompts
+ */
+export interface MockFixture {
+  name: string
+  matches: (request: MockRequest) => boolean
+  respond: (request: MockRequest) => MockResponse
+}
+
+/**
+ * Convert AI SDK call options into a mock request
+ */
+export function toMockRequest(options: LanguageModelV1CallOptions): MockRequest {
+  const system: string[] = []
+  const prompt: string[] = []
+
+  options.prompt.forEach(message => {
+    if (message.role === 'system') {
+      system.push(message.content)
+    } else if (message.role === 'user' || message.role === 'assistant') {
+      message.content.forEach(part => {
+        if (part.type === 'text') prompt.push(part.text)
+      })
+    }
+  })
+
+  const request: MockRequest = { system: system.join('\n'), prompt: prompt.join('\n'), tools: [] }
+  const { mode } = options
+
+  if (mode.type === 'regular' && mode.toolChoice?.type !== 'none') {
+    request.tools = (mode.tools || []).flatMap(tool =>
+      tool.type === 'function' ? [{ name: tool.name, parameters: tool.parameters as JsonSchema }] : []
+    )
+    if (mode.toolChoice?.type === 'tool') request.toolChoice = mode.toolChoice.toolName
+  } else if (mode.type === 'object-json') {
+    request.objectSchema = mode.schema as JsonSchema | undefined
+  } else if (mode.type === 'object-tool') {
+    request.tools = [{ name: mode.tool.name, parameters: mode.tool.parameters as JsonSchema }]
+    request.toolChoice = mode.tool.name
+  }
+
+  return request
+}
+
+/**
+ * Respond from the built-in fixtures, falling back to values synthesized from the request schema
+ */
+export function createBuiltInResponse(request: MockRequest): MockResponse {
+  const fixture = BUILT_IN_FIXTURES.find(candidate => candidate.matches(request))
+  return fixture ? fixture.respond(request) : synthesizeResponse(request)
+}
+
+/**
+ * Build a response purely from the tool parameters or object schema of the request
+ */
+export function synthesizeResponse(request: MockRequest): MockResponse {
+  const tool = selectTool(request)
+  if (tool) {
+    return { toolCall: { toolName: tool.name, args: sampleFromJsonSchema(tool.parameters) } }
+  }
+  if (request.objectSchema) {
+    return { text: JSON.stringify(sampleFromJsonSchema(request.objectSchema)) }
+  }
+  return { text: `Mock response to: ${request.prompt.trim().split('\n')[0].slice(0, 120)}` }
+}
+
+/**
+ * Tool the model is expected to call, if any
+ */
+export function selectTool(request: MockRequest): MockRequest['tools'][number] | undefined {
+  return request.tools.find(tool => tool.name === request.toolChoice) ?? request.tools[0]
+}
+
+// ============================================================================
+// Message heuristics
+// ============================================================================
+
+type MessageIntent = 'modify_canvas' | 'ask_clarification' | 'request_explanation' | 'off_topic'
+
+const SECTION_KEYWORDS: Array<[CanvasSection, RegExp]> = [
+  ['ticketSummary', /\b(summary|resumen|problem|problema|solution|soluci[oó]n|context|contexto)/i],
+  ['acceptanceCriteria', /\b(acceptance|criteri[ao]|criterion|ac-\d+|requirement|requisito)/i],
+  ['testCases', /\b(test|tests|testing|scenario|escenario|caso|casos|prueba|pruebas)\b/i],
+  ['configurationWarnings', /\b(warning|advertencia|configuration|configuraci[oó]n)/i]
+]
+
+const OFF_TOPIC_PATTERN = /\b(weather|football|soccer|movie|music|recipe|vacation|holiday|clima|f[uú]tbol|pel[ií]cula|m[uú]sica|receta|vacaciones)/i
+const QUESTION_PATTERN = /^\s*(¿|what\b|why\b|how\b|which\b|who\b|explain\b|describe\b|qu[eé]\s|por qu[eé]|c[oó]mo\s|cu[aá]l|explica)|\?\s*$/i
+const SPANISH_PATTERN = /[¿¡ñáéíóú]|\b(el|la|los|las|del|que|por|para|una|agrega|añade|cambia)\b/i
+
+function detectSections(message: string): CanvasSection[] {
+  return SECTION_KEYWORDS.filter(([, pattern]) => pattern.test(message)).map(([section]) => section)
+}
+
+function detectLanguage(message: string): string {
+  return SPANISH_PATTERN.test(message) ? 'spanish' : 'english'
+}
+
+function classifyMessage(message: string): { intent: MessageIntent; sections: CanvasSection[] } {
+  const sections = detectSections(message)
+
+  if (sections.length === 0 && OFF_TOPIC_PATTERN.test(message)) {
+    return { intent: 'off_topic', sections }
+  }
+  if (QUESTION_PATTERN.test(message)) {
+    return { intent: 'request_explanation', sections }
+  }
+  if (sections.length === 0 && message.trim().split(/\s+/).length < 4) {
+    return { intent: 'ask_clarification', sections }
+  }
+  return { intent: 'modify_canvas', sections: sections.length > 0 ? sections : ['acceptanceCriteria', 'testCases'] }
+}
+
+function withDependents(sections: CanvasSection[]): CanvasSection[] {
+  // Test cases validate the acceptance criteria, so criteria changes cascade to them
+  return sections.includes('acceptanceCriteria') && !sections.includes('testCases')
+    ? [...sections, 'testCases']
+    : sections
+}
+
+// ============================================================================
+// Prompt parsing
+// ============================================================================
+
+function extractQuoted(prompt: string, label: string): string {
+  const match = prompt.match(new RegExp(`${escapeRegExp(label)}\\s*"([\\s\\S]*?)"\\s*(?:\\n|$)`))
+  return match ? match[1].trim() : ''
+}
+
+function extractBetween(prompt: string, start: string, end: string): string {
+  const startIndex = prompt.indexOf(start)
+  if (startIndex === -1) return ''
+  const endIndex = prompt.indexOf(end, startIndex + start.length)
+  return prompt.slice(startIndex + start.length, endIndex === -1 ? undefined : endIndex).trim()
+}
+
+function extractList(prompt: string, label: string): string[] {
+  const match = prompt.match(new RegExp(`${escapeRegExp(label)}\\s*([^\\n]*)`))
+  return match ? match[1].split(',').map(item => item.trim()).filter(Boolean) : []
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function truncate(text: string, length: number): string {
+  const singleLine = text.replace(/\s+/g, ' ').replace(/[.!?]$/, '').trim()
+  if (singleLine.length <= length) return singleLine
+  // Cut at a word boundary so titles stay readable
+  const cut = singleLine.slice(0, length - 3)
+  return `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : cut.length)}...`
+}
+
+function toCanvasSections(values: string[]): CanvasSection[] {
+  return values.filter((value): value is CanvasSection =>
+    SECTION_KEYWORDS.some(([section]) => section === value) || value === 'metadata'
+  )
+}
+
+interface TicketContext {
+  issueKey: string
+  summary: string
+  description: string
+  testCaseFormat: TestCase['format']
+  categories: string[]
+}
+
+function parseTicketContext(prompt: string): TicketContext {
+  const issue = prompt.match(/^- Issue: (\S+) - (.*)$/m)
+  const format = prompt.match(/^- Format: (\w+)/m)?.[1]
+
+  return {
+    issueKey: issue?.[1] || 'MOCK-1',
+    summary: issue?.[2]?.trim() || 'the requested change',
+    description: extractBetween(prompt, '**DESCRIPTION:**', '**KEY RECENT COMMENTS:**'),
+    testCaseFormat: format === 'steps' || format === 'table' ? format : 'gherkin',
+    categories: extractList(prompt, '- Active Categories:')
+  }
+}
+
+const CRITERION_CATEGORIES = acceptanceCriterionSchema.shape.category.options
+
+function criterionCategory(categories: string[], index: number): AcceptanceCriterion['category'] {
+  const valid = categories.filter((category): category is AcceptanceCriterion['category'] =>
+    (CRITERION_CATEGORIES as readonly string[]).includes(category)
+  )
+  return valid.length > 0 ? valid[index % valid.length] : 'functional'
+}
+
+// ============================================================================
+// Document builders
+// ============================================================================
+
+function buildTicketSummary(ticket: TicketContext): QACanvasDocument['ticketSummary'] {
+  const firstSentence = splitSentences(ticket.description)[0]
+  return {
+    problem: firstSentence || `${ticket.issueKey} reports that ${ticket.summary} does not work as expected.`,
+    solution: `Implement and verify: ${ticket.summary}.`,
+    context: `Mock analysis of ${ticket.issueKey}; generated offline without calling an AI provider.`
+  }
+}
+
+function buildAcceptanceCriteria(ticket: TicketContext): AcceptanceCriterion[] {
+  const statements = [
+    ...splitSentences(ticket.description),
+    `${ticket.summary} works as described in ${ticket.issueKey}`,
+    'Invalid input is rejected with a clear error message',
+    'Existing behaviour outside the change is not affected'
+  ].slice(0, 3)
+  const priorities: AcceptanceCriterion['priority'][] = ['must', 'should', 'could']
+
+  return statements.map((statement, index) => ({
+    id: `ac-${index + 1}`,
+    title: truncate(statement, 60),
+    description: statement,
+    priority: priorities[index],
+    category: criterionCategory(ticket.categories, index),
+    testable: true
+  }))
+}
+
+function buildTestCase(
+  format: TestCase['format'],
+  id: string,
+  criterion: Pick<AcceptanceCriterion, 'id' | 'title' | 'priority' | 'category'>,
+  issueKey: string
+): TestCase {
+  const base = {
+    id,
+    category: criterion.category,
+    priority: criterion.priority === 'must' ? 'high' as const : criterion.priority === 'should' ? 'medium' as const : 'low' as const,
+    estimatedTime: '10 minutes',
+    coversCriteria: [criterion.id]
+  }
+
+  switch (format) {
+    case 'steps':
+      return {
+        ...base,
+        format,
+        testCase: {
+          title: `Verify ${criterion.title}`,
+          objective: `Confirm that ${criterion.title}`,
+          preconditions: [`The changes for ${issueKey} are deployed`],
+          steps: [
+            { stepNumber: 1, action: `Exercise the behaviour described by "${criterion.title}"`, expectedResult: 'The system responds without errors' },
+            { stepNumber: 2, action: 'Check the outcome', expectedResult: `${criterion.title} is satisfied` }
+          ],
+          postconditions: []
+        }
+      }
+    case 'table':
+      return {
+        ...base,
+        format,
+        testCase: {
+          title: `Verify ${criterion.title}`,
+          description: `Data-driven check for "${criterion.title}"`,
+          testData: [{ input: 'valid value', expected: 'accepted' }, { input: 'invalid value', expected: 'rejected' }],
+          expectedOutcome: `${criterion.title} is satisfied for every row`,
+          notes: ''
+        }
+      }
+    case 'gherkin':
+    default:
+      return {
+        ...base,
+        format: 'gherkin',
+        testCase: {
+          scenario: `Verify ${criterion.title}`,
+          given: [`the changes for ${issueKey} are deployed`],
+          when: [`the user exercises "${criterion.title}"`],
+          then: [`${criterion.title} is satisfied`],
+          tags: ['@mock', `@${criterion.category}`]
+        }
+      }
+  }
+}
+
+function buildTestCases(prompt: string, ticket: TicketContext): TestCase[] {
+  const format = prompt.match(/Generate ONLY test cases \([^)]*\) in (\w+) format/)?.[1]
+  const testCaseFormat: TestCase['format'] = format === 'steps' || format === 'table' ? format : ticket.testCaseFormat
+
+  const listed = Array.from(prompt.matchAll(/^- (\S+) \((must|should|could)\): (.+)$/gm)).map((match, index) => ({
+    id: match[1],
+    priority: match[2] as AcceptanceCriterion['priority'],
+    title: match[3].trim(),
+    category: criterionCategory(ticket.categories, index)
+  }))
+  const criteria = listed.length > 0 ? listed : buildAcceptanceCriteria(ticket)
+
+  return criteria.map((criterion, index) => buildTestCase(testCaseFormat, `tc-${index + 1}`, criterion, ticket.issueKey))
+}
+
+function buildConfigurationWarnings(prompt: string): ConfigurationWarning[] {
+  const assumptions = extractBetween(prompt, '**DETECTED ASSUMPTIONS:**', '**ANALYSIS REQUIREMENTS:**')
+
+  return Array.from(assumptions.matchAll(/^- (.+) \(confidence: [^,]+, impact: (\w+)\)$/gm)).map(match => ({
+    type: 'recommendation',
+    title: `Assumption: ${truncate(match[1], 60)}`,
+    message: match[1],
+    recommendation: 'Confirm this assumption with the ticket owner before executing the test plan',
+    severity: match[2] === 'high' || match[2] === 'low' ? match[2] : 'medium'
+  }))
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.replace(/^[\s*•-]+/, '').replace(/\.\.\.$/, '').trim())
+    .filter(sentence => sentence.length > 12 && !sentence.startsWith('**'))
+}
+
+// ============================================================================
+// Canvas update
+// ============================================================================
+
+function buildCanvasUpdate(prompt: string): { patch: JsonPatchOperation[]; changesSummary: string } {
+  let document: QACanvasDocument | null = null
+  try {
+    document = JSON.parse(extractBetween(prompt, 'CURRENT DOCUMENT:', '\nCONVERSATION HISTORY:'))
+  } catch {
+    document = null
+  }
+
+  const history = extractBetween(prompt, 'CONVERSATION HISTORY:', '\n\n')
+  const userLines = history.split('\n').filter(line => line.startsWith('USER: '))
+  const message = userLines.length > 0 ? userLines[userLines.length - 1].slice('USER: '.length).trim() : 'Refine the document'
+  const allowed = new Set(extractList(prompt, 'You may only change these sections:'))
+
+  const patch: JsonPatchOperation[] = []
+  const changes: string[] = []
+  const criteria = document?.acceptanceCriteria || []
+  const testCases = document?.testCases || []
+  let coveredCriterion: AcceptanceCriterion | undefined = criteria[criteria.length - 1]
+
+  if (allowed.has('acceptanceCriteria') && (!allowed.has('testCases') || detectSections(message).includes('acceptanceCriteria') || criteria.length === 0)) {
+    coveredCriterion = {
+      id: nextId(criteria.map(criterion => criterion.id), 'ac'),
+      title: truncate(message, 60),
+      description: message,
+      priority: 'should',
+      category: 'functional',
+      testable: true
+    }
+    patch.push({ op: 'add', path: '/acceptanceCriteria/-', value: coveredCriterion })
+    changes.push(`added acceptance criterion ${coveredCriterion.id}`)
+  }
+
+  if (allowed.has('testCases') && coveredCriterion) {
+    const format = testCases[0]?.format || document?.metadata?.qaProfile?.testCaseFormat || 'gherkin'
+    const testCase = buildTestCase(format, nextId(testCases.map(item => item.id), 'tc'), coveredCriterion, document?.metadata?.ticketId || 'the ticket')
+    patch.push({ op: 'add', path: '/testCases/-', value: testCase })
+    changes.push(`added test case ${testCase.id} covering ${coveredCriterion.id}`)
+  }
+
+  if (patch.length === 0 && allowed.has('ticketSummary')) {
+    const context = document?.ticketSummary?.context || ''
+    patch.push({ op: 'replace', path: '/ticketSummary/context', value: `${context} Note: ${message}`.trim() })
+    changes.push('updated the ticket summary context')
+  }
+
+  if (patch.length === 0 && allowed.has('configurationWarnings')) {
+    const warning: ConfigurationWarning = {
+      type: 'recommendation',
+      title: truncate(message, 60),
+      message,
+      recommendation: 'Review this note before executing the test plan',
+      severity: 'low'
+    }
+    patch.push({ op: 'add', path: '/configurationWarnings/-', value: warning })
+    changes.push('added a configuration warning')
+  }
+
+  return {
+    patch,
+    changesSummary: changes.length > 0
+      ? `Understood "${truncate(message, 80)}": ${changes.join(', ')}.`
+      : `Understood "${truncate(message, 80)}", but no section could be changed.`
+  }
+}
+
+function nextId(existingIds: string[], prefix: string): string {
+  const numbers = existingIds.map(id => Number(id.match(/(\d+)$/)?.[1] ?? 0))
+  return `${prefix}-${Math.max(0, ...numbers) + 1}`
+}
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+function textFixture(name: string, marker: string, build: (request: MockRequest) => unknown): MockFixture {
+  return {
+    name,
+    matches: request => selectTool(request) === undefined && request.prompt.includes(marker),
+    respond: request => ({ text: JSON.stringify(build(request), null, 2) })
+  }
+}
+
+function toolFixture(toolName: string, build: (request: MockRequest, sample: Record<string, unknown>) => Record<string, unknown>): MockFixture {
+  return {
+    name: toolName,
+    matches: request => selectTool(request)?.name === toolName,
+    respond: request => {
+      const sample = sampleFromJsonSchema(selectTool(request)?.parameters) as Record<string, unknown>
+      // Start from the schema sample so fields added to the tool later still get a value
+      return { toolCall: { toolName, args: { ...sample, ...build(request, sample) } } }
+    }
+  }
+}
+
+/**
+ * Built-in fixtures, checked in order
+ */
+export const BUILT_IN_FIXTURES: MockFixture[] = [
+  textFixture('ticketSummary', '**TASK:** Generate ONLY the ticket summary section.', request =>
+    buildTicketSummary(parseTicketContext(request.prompt))
+  ),
+  textFixture('acceptanceCriteria', '**TASK:** Generate ONLY acceptance criteria', request =>
+    buildAcceptanceCriteria(parseTicketContext(request.prompt))
+  ),
+  textFixture('testCases', '**TASK:** Generate ONLY test cases', request =>
+    buildTestCases(request.prompt, parseTicketContext(request.prompt))
+  ),
+  textFixture('configurationWarnings', '**TASK:** Generate configuration warnings', request =>
+    buildConfigurationWarnings(request.prompt)
+  ),
+  textFixture('canvasUpdate', 'RFC 6902 JSON Patch operations against CURRENT DOCUMENT', request =>
+    buildCanvasUpdate(request.prompt)
+  ),
+
+  toolFixture('intentClassification', request => {
+    const message = extractQuoted(request.prompt, 'USER MESSAGE:')
+    const { intent, sections } = classifyMessage(message)
+    return {
+      intent,
+      confidence: 0.9,
+      targetSections: sections,
+      reasoning: `Mock classification of "${truncate(message, 80)}" as ${intent}`,
+      detectedLanguage: detectLanguage(message),
+      shouldModifyCanvas: intent === 'modify_canvas',
+      requiresClarification: intent === 'ask_clarification',
+      urgencyLevel: 'medium',
+      contextualHints: sections
+    }
+  }),
+
+  toolFixture('sectionTargetDetection', request => {
+    const message = extractQuoted(request.prompt, 'USER MESSAGE:')
+    const detected = detectSections(message)
+    const primaryTargets = detected.length > 0 ? detected : ['acceptanceCriteria', 'testCases'] as CanvasSection[]
+    return {
+      primaryTargets,
+      secondaryTargets: withDependents(primaryTargets).filter(section => !primaryTargets.includes(section)),
+      confidence: 0.9,
+      reasoning: `Mock detection for "${truncate(message, 80)}"`,
+      detectedLanguage: detectLanguage(message),
+      contextualHints: detected,
+      dependencyAnalysis: 'Test cases depend on acceptance criteria',
+      urgencyLevel: 'medium'
+    }
+  }),
+
+  toolFixture('dependencyAnalysis', request => {
+    const targets = toCanvasSections(extractList(request.prompt, 'Secciones objetivo:'))
+    const affectedSections = withDependents(targets)
+    const cascadeRequired = affectedSections.length > targets.length
+    return {
+      affectedSections,
+      dependencies: cascadeRequired
+        ? [{ from: 'acceptanceCriteria', to: 'testCases', relationship: 'validates', strength: 'strong' }]
+        : [],
+      cascadeRequired,
+      impactAssessment: cascadeRequired
+        ? 'Acceptance criteria changes require matching test case updates'
+        : 'Changes are limited to the targeted sections',
+      conflictRisk: 'low'
+    }
+  }),
+
+  toolFixture('conflictDetection', () => ({
+    conflicts: [],
+    validationScore: 95,
+    warnings: []
+  })),
+
+  toolFixture('clarificationGeneration', request => {
+    const message = extractQuoted(request.prompt, 'Mensaje del usuario:')
+    const targets = toCanvasSections(extractList(request.prompt, 'Secciones objetivo detectadas:'))
+    const sections = targets.length > 0 ? targets : ['acceptanceCriteria', 'testCases'] as CanvasSection[]
+    return {
+      questions: sections.map(section => ({
+        question: `What exactly should change in ${section} for "${truncate(message, 60)}"?`,
+        category: 'specification',
+        targetSection: section,
+        examples: ['Add a new item', 'Update an existing item', 'Remove an item'],
+        priority: 'high'
+      })),
+      context: `The request "${truncate(message, 80)}" does not say which content should change`,
+      suggestedActions: ['Name the section to change', 'Describe the expected result'],
+      estimatedTime: 2
+    }
+  }),
+
+  toolFixture('contextualResponse', request => {
+    const question = extractQuoted(request.prompt, 'Pregunta del usuario:')
+    const criteriaCount = request.prompt.match(/Criterios de aceptación \((\d+) items\)/)?.[1] || '0'
+    const testCaseCount = request.prompt.match(/Casos de prueba \((\d+) items\)/)?.[1] || '0'
+    const sections = detectSections(question)
+    return {
+      response: `The canvas currently has ${criteriaCount} acceptance criteria and ${testCaseCount} test cases. This is a mock answer to "${truncate(question, 80)}".`,
+      relevantSections: sections.length > 0 ? sections : ['acceptanceCriteria', 'testCases'],
+      citations: [],
+      suggestedFollowUps: ['Add a negative test case', 'Review acceptance criteria priorities'],
+      confidence: 0.9
+    }
+  }),
+
+  toolFixture('qaSuggestionTool', request => {
+    const number = Number(request.prompt.match(/GENERATE SUGGESTION (\d+) of \d+/)?.[1] || 1)
+    const ticketId = request.prompt.match(/- Ticket ID: (\S+)/)?.[1] || 'the ticket'
+    const focus = extractList(request.prompt, '- Focus on these areas:')
+    const excluded = extractList(request.prompt, '- Exclude these suggestion types:')
+    // Read the types from the tool itself; importing QASuggestion would load the 'ai' tool helper eagerly
+    const suggestionTypes = (selectTool(request)?.parameters.properties?.suggestionType?.enum || []) as string[]
+    const focused = suggestionTypes.filter(type => focus.includes(type))
+    const candidates = (focused.length > 0 ? focused : suggestionTypes).filter(type => !excluded.includes(type))
+    const suggestionType = candidates[(number - 1) % candidates.length] || 'functional_test'
+    const label = suggestionType.replace(/_/g, ' ')
+    const round = Math.floor((number - 1) / candidates.length)
+
+    return {
+      suggestionType,
+      title: `Add ${label} coverage for ${ticketId}${round > 0 ? ` (${round + 1})` : ''}`,
+      description: `Extend the test plan for ${ticketId} with a ${label} scenario.`,
+      targetSection: suggestionType === 'clarification_question' ? 'Acceptance Criteria' : 'Test Cases',
+      priority: number === 1 ? 'high' : 'medium',
+      reasoning: `The current document does not include a dedicated ${label} scenario.`,
+      implementationHint: `Add one ${label} test case linked to the most relevant acceptance criterion.`,
+      estimatedEffort: 'low',
+      tags: ['mock', suggestionType]
+    }
+  }),
+
+  {
+    name: 'offTopicDetection',
+    matches: request => !!request.objectSchema?.properties?.isOffTopic,
+    respond: request => {
+      const message = extractQuoted(request.prompt, 'User Message:')
+      const isOffTopic = classifyMessage(message).intent === 'off_topic'
+      return {
+        text: JSON.stringify({
+          isOffTopic,
+          category: isOffTopic ? 'other' : null,
+          confidence: 0.9,
+          reasoning: isOffTopic ? 'Mock detection found no QA-related content' : 'Mock detection treats the message as QA-related',
+          keywords: []
+        })
+      }
+    }
+  }
+]
@@ -0,0 +1,150 @@
+/**
+ * Mock Language Model
+ * Offline LanguageModelV1 that answers every pipeline prompt from fixtures
+ */
+
+import { wrapLanguageModel } from 'ai'
+import type {
+  LanguageModelV1,
+  LanguageModelV1CallOptions,
+  LanguageModelV1StreamPart
+} from '@ai-sdk/provider'
+import { createBuiltInResponse, toMockRequest, type MockFixture, type MockResponse } from './fixtures'
+import { loadRecordedFixtures, recordFixture } from './fixtureStore'
+
+type GenerateResult = Awaited<ReturnType<LanguageModelV1['doGenerate']>>
+
+/**
+ * Options for the mock model
+ */
+export interface MockLanguageModelOptions {
+  modelId?: string
+  fixtures?: MockFixture[] // Checked before the built-in fixtures
+  latencyMs?: number
+}
+
+/**
+ * Deterministic model used when PRIMARY_PROVIDER=mock
+ */
+export class MockLanguageModel implements LanguageModelV1 {
+  readonly specificationVersion = 'v1' as const
+  readonly provider = 'mock'
+  readonly modelId: string
+  readonly defaultObjectGenerationMode = 'json' as const
+  readonly supportsImageUrls = false
+
+  private readonly fixtures: MockFixture[]
+  private readonly latencyMs: number
+
+  constructor(options: MockLanguageModelOptions = {}) {
+    this.modelId = options.modelId || 'mock-qa-model'
+    this.fixtures = options.fixtures || []
+    this.latencyMs = options.latencyMs || 0
+  }
+
+  /**
+   * Resolve the fixture response for a call
+   */
+  respond(options: LanguageModelV1CallOptions): MockResponse {
+    const request = toMockRequest(options)
+    const fixture = this.fixtures.find(candidate => candidate.matches(request))
+    return fixture ? fixture.respond(request) : createBuiltInResponse(request)
+  }
+
+  async doGenerate(options: LanguageModelV1CallOptions): Promise<GenerateResult> {
+    const response = this.respond(options)
+    if (this.latencyMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.latencyMs))
+    }
+
+    const text = 'text' in response ? response.text : undefined
+    return {
+      text,
+      toolCalls: 'toolCall' in response
+        ? [{
+          toolCallType: 'function',
+          toolCallId: 'mock-call-1',
+          toolName: response.toolCall.toolName,
+          args: JSON.stringify(response.toolCall.args)
+        }]
+        : undefined,
+      finishReason: 'toolCall' in response ? 'tool-calls' : 'stop',
+      usage: {
+        promptTokens: estimateTokens(JSON.stringify(options.prompt)),
+        completionTokens: estimateTokens(text ?? JSON.stringify('toolCall' in response ? response.toolCall.args : ''))
+      },
+      rawCall: { rawPrompt: options.prompt, rawSettings: {} }
+    }
+  }
+
+  async doStream(options: LanguageModelV1CallOptions) {
+    const result = await this.doGenerate(options)
+
+    const parts: LanguageModelV1StreamPart[] = [
+      ...(result.text ? chunkText(result.text).map(textDelta => ({ type: 'text-delta' as const, textDelta })) : []),
+      ...(result.toolCalls || []).map(toolCall => ({ type: 'tool-call' as const, ...toolCall })),
+      { type: 'finish', finishReason: result.finishReason, usage: result.usage }
+    ]
+
+    return {
+      stream: new ReadableStream<LanguageModelV1StreamPart>({
+        start(controller) {
+          parts.forEach(part => controller.enqueue(part))
+          controller.close()
+        }
+      }),
+      rawCall: result.rawCall
+    }
+  }
+}
+
+/**
+ * Create the mock model from the environment
+ * MOCK_AI_FIXTURES_DIR points at recorded fixtures that take precedence over the built-ins
+ */
+export function createMockLanguageModel(env: Record<string, string | undefined> = process.env): MockLanguageModel {
+  return new MockLanguageModel({
+    modelId: env.MOCK_AI_MODEL,
+    fixtures: env.MOCK_AI_FIXTURES_DIR ? loadRecordedFixtures(env.MOCK_AI_FIXTURES_DIR) : [],
+    latencyMs: Number(env.MOCK_AI_LATENCY_MS) || 0
+  })
+}
+
+/**
+ * Wrap a real model so every generated response is saved as a replayable fixture
+ */
+export function withFixtureRecording(model: LanguageModelV1, directory: string): LanguageModelV1 {
+  return wrapLanguageModel({
+    model,
+    middleware: {
+      wrapGenerate: async ({ doGenerate, params }) => {
+        const result = await doGenerate()
+        const toolCall = result.toolCalls?.[0]
+
+        try {
+          const filePath = recordFixture(directory, toMockRequest(params), toolCall
+            ? { toolCall: { toolName: toolCall.toolName, args: JSON.parse(toolCall.args) } }
+            : { text: result.text ?? '' })
+          console.log(`📼 Recorded mock fixture ${filePath}`)
+        } catch (error) {
+          // Recording must never break a real request
+          console.warn('⚠️ Failed to record mock fixture:', error)
+        }
+
+        return result
+      }
+    }
+  })
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+function chunkText(text: string, size = 64): string[] {
+  const chunks: string[] = []
+  for (let index = 0; index < text.length; index += size) {
+    chunks.push(text.slice(index, index + size))
+  }
+  return chunks
+}
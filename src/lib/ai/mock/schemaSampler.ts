@@ -0,0 +1,128 @@
+/**
+ * JSON Schema Sampler
+ * Synthesizes deterministic, schema-valid values for tool parameters and generateObject schemas
+ */
+
+/**
+ * Subset of JSON Schema produced by zod-to-json-schema for tool parameters and object schemas
+ */
+export interface JsonSchema {
+  type?: string | string[]
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  items?: JsonSchema | JsonSchema[]
+  enum?: unknown[]
+  const?: unknown
+  default?: unknown
+  anyOf?: JsonSchema[]
+  oneOf?: JsonSchema[]
+  allOf?: JsonSchema[]
+  minItems?: number
+  minimum?: number
+  maximum?: number
+  exclusiveMinimum?: number
+  exclusiveMaximum?: number
+  minLength?: number
+  maxLength?: number
+  format?: string
+}
+
+/**
+ * Build a value that satisfies the schema
+ * Values are derived from property names so the same schema always yields the same sample
+ */
+export function sampleFromJsonSchema(schema: JsonSchema | undefined, path: string[] = []): unknown {
+  if (!schema || typeof schema !== 'object') {
+    return null
+  }
+
+  if (schema.default !== undefined) return schema.default
+  if (schema.const !== undefined) return schema.const
+  if (schema.enum?.length) return schema.enum[0]
+
+  const variants = schema.anyOf || schema.oneOf
+  if (variants?.length) {
+    // Prefer a non-null variant so nullable fields still carry a value
+    const variant = variants.find(option => option.type !== 'null') ?? variants[0]
+    return sampleFromJsonSchema(variant, path)
+  }
+
+  if (schema.allOf?.length) {
+    return sampleFromJsonSchema(Object.assign({}, ...schema.allOf), path)
+  }
+
+  switch (getSchemaType(schema)) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {})
+          .filter(([key]) => !schema.required || schema.required.includes(key) || isArraySchema(schema.properties?.[key]))
+          .map(([key, propertySchema]) => [key, sampleFromJsonSchema(propertySchema, [...path, key])])
+      )
+    case 'array': {
+      const itemSchema = Array.isArray(schema.items) ? schema.items[0] : schema.items
+      const length = Math.max(schema.minItems ?? 1, 1)
+      return Array.from({ length }, (_, index) => sampleFromJsonSchema(itemSchema, [...path, String(index)]))
+    }
+    case 'number':
+    case 'integer':
+      return sampleNumber(schema)
+    case 'boolean':
+      return false
+    case 'null':
+      return null
+    case 'string':
+    default:
+      return sampleString(schema, path)
+  }
+}
+
+function getSchemaType(schema: JsonSchema): string | undefined {
+  if (Array.isArray(schema.type)) {
+    return schema.type.find(type => type !== 'null') ?? schema.type[0]
+  }
+  if (schema.type) return schema.type
+  if (schema.properties) return 'object'
+  if (schema.items) return 'array'
+  return undefined
+}
+
+function isArraySchema(schema: JsonSchema | undefined): boolean {
+  return !!schema && getSchemaType(schema) === 'array'
+}
+
+function sampleNumber(schema: JsonSchema): number {
+  const minimum = schema.minimum ?? (schema.exclusiveMinimum !== undefined ? schema.exclusiveMinimum + 1 : undefined)
+  const maximum = schema.maximum ?? (schema.exclusiveMaximum !== undefined ? schema.exclusiveMaximum - 1 : undefined)
+
+  let value: number
+  if (minimum !== undefined && maximum !== undefined) {
+    // Upper part of the range: confidences and scores read as "confident" rather than borderline
+    value = minimum + (maximum - minimum) * 0.9
+  } else {
+    value = minimum ?? (maximum !== undefined ? Math.min(maximum, 1) : 1)
+  }
+
+  return schema.type === 'integer' ? Math.round(value) : Number(value.toFixed(2))
+}
+
+function sampleString(schema: JsonSchema, path: string[]): string {
+  switch (schema.format) {
+    case 'date-time':
+      return '2024-01-01T00:00:00.000Z'
+    case 'date':
+      return '2024-01-01'
+    case 'email':
+      return 'qa@example.com'
+    case 'uri':
+    case 'url':
+      return 'https://example.com'
+    case 'uuid':
+      return '00000000-0000-4000-8000-000000000000'
+  }
+
+  const name = [...path].reverse().find(segment => !/^\d+$/.test(segment)) || 'value'
+  const text = `Mock ${name.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase()}`
+  const minLength = schema.minLength ?? 0
+  const padded = text.length >= minLength ? text : text.padEnd(minLength, '.')
+  return schema.maxLength !== undefined ? padded.slice(0, schema.maxLength) : padded
+}
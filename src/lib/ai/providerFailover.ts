@@ -3,14 +3,21 @@
  * Implements circuit breaker pattern and failover between AI providers
  */
 
-import { openai } from '@ai-sdk/openai';
-import { anthropic } from '@ai-sdk/anthropic';
-import { createModelWithHelicone, logHeliconeEvent } from './heliconeWrapper';
+import { logHeliconeEvent } from './heliconeWrapper';
 import { logHeliconeEvent as logEvent, isHeliconeEnabled } from './heliconeMiddleware';
 import { generateObject, generateText, streamText } from 'ai';
 import { z } from 'zod';
 import { zodToJsonSchema } from 'zod-to-json-schema';
 import type { GenerateTextResult, StreamTextResult, LanguageModelV1 } from 'ai';
+import {
+    loadProviderConfigs,
+    filterProvidersForPolicy,
+    getProviderRoutingPolicy,
+    type ProviderConfig
+} from './providerRegistry';
+import { usageTracker, type UsageCall, type UsageOperation } from '../usage/usageTracker';
+import { budgetGuard } from '../usage/budgets';
+import { extractBase64ImageData } from '../utils/imageProcessor';
 
 // Define types for options based on the AI SDK
 type GenerateObjectOptions = {
@@ -52,9 +59,6 @@ type StreamTextOptions = {
 // Define a placeholder for tool sets
 type ToolSet = Record<string, any>;
 
-// Define our own provider type to match what we need
-type AIProvider = (model: string) => LanguageModelV1;
-
 // Provider status tracking
 interface ProviderStatus {
     name: string;
@@ -79,36 +83,22 @@ interface RetryConfig {
     backoffFactor: number;
 }
 
-// Provider configuration
-interface ProviderConfig {
-    provider: AIProvider;
-    name: string; // Explicit name for provider status tracking
-    model: string;
-    timeout: number;
-    weight: number; // Priority weight (higher = more preferred)
-}
+// Provider configurations
+// Built-in OpenAI/Anthropic plus any OpenAI-compatible endpoints declared in AI_PROVIDERS
+const providers: ProviderConfig[] = loadProviderConfigs();
 
-// Global provider status tracking
-const providerStatus: Record<string, ProviderStatus> = {
-    openai: {
-        name: 'openai',
+// Global provider status tracking, one circuit breaker per registered provider
+const providerStatus: Record<string, ProviderStatus> = Object.fromEntries(
+    providers.map(provider => [provider.name, {
+        name: provider.name,
         available: true,
         failureCount: 0,
         lastFailure: null,
         lastSuccess: null,
         circuitOpen: false,
         circuitOpenTime: null
-    },
-    anthropic: {
-        name: 'anthropic',
-        available: true,
-        failureCount: 0,
-        lastFailure: null,
-        lastSuccess: null,
-        circuitOpen: false,
-        circuitOpenTime: null
-    }
-};
+    }])
+);
 
 // Default configurations
 const defaultCircuitBreakerConfig: CircuitBreakerConfig = {
@@ -122,26 +112,6 @@ const defaultRetryConfig: RetryConfig = {
     backoffFactor: 2 // Exponential backoff factor
 };
 
-// Provider configurations
-// Using dynamic provider priority based on PRIMARY_PROVIDER environment variable
-const primaryProvider = process.env.PRIMARY_PROVIDER || 'openai';
-const providers: ProviderConfig[] = [
-    {
-        provider: openai,
-        name: 'openai', // Explicit name for provider status tracking
-        model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
-        timeout: Number(process.env.OPENAI_TIMEOUT) || 60000,
-        weight: primaryProvider === 'openai' ? 10 : 5 // Dynamic weight based on PRIMARY_PROVIDER
-    },
-    {
-        provider: anthropic,
-        name: 'anthropic', // Explicit name for provider status tracking
-        model: process.env.ANTHROPIC_MODEL || 'claude-3-5-haiku-20241022',
-        timeout: Number(process.env.ANTHROPIC_TIMEOUT) || 60000,
-        weight: primaryProvider === 'anthropic' ? 10 : 5 // Dynamic weight based on PRIMARY_PROVIDER
-    }
-];
-
 /**
  * Check if circuit breaker should be reset
  */
@@ -207,6 +177,21 @@ function recordSuccess(providerName: string): void {
     }
 }
 
+/**
+ * Get the providers the current request may use, before circuit breaker checks
+ */
+function getEligibleProviders(): ProviderConfig[] {
+    const policy = getProviderRoutingPolicy();
+    const eligible = filterProvidersForPolicy(providers, policy);
+
+    // Never fall back to an external provider when the request is restricted to on-prem
+    if (eligible.length === 0) {
+        throw new Error(`No eligible AI providers: ${policy.reason || 'routing policy'} but no on-prem provider is configured`);
+    }
+
+    return eligible;
+}
+
 /**
  * Get available providers sorted by priority
  */
@@ -215,7 +200,7 @@ function getAvailableProviders(): ProviderConfig[] {
     Object.keys(providerStatus).forEach(checkCircuitReset);
 
     // Filter available providers
-    return providers.filter(p => {
+    return getEligibleProviders().filter(p => {
         const status = providerStatus[p.name];
         return status && !status.circuitOpen;
     }).sort((a, b) => b.weight - a.weight); // Sort by weight (highest first)
@@ -235,6 +220,51 @@ function calculateRetryDelay(attempt: number, config: RetryConfig): number {
     return config.initialDelay * Math.pow(config.backoffFactor, attempt);
 }
 
+/**
+ * Abort signal that ends a provider call once the provider's configured timeout has passed
+ * The caller's own signal, if any, still aborts the call
+ */
+function providerAbortSignal(provider: ProviderConfig, signal?: AbortSignal): AbortSignal {
+    const timeout = AbortSignal.timeout(provider.timeout);
+    return signal ? AbortSignal.any([signal, timeout]) : timeout;
+}
+
+/**
+ * Check whether a call was aborted by the caller rather than by the provider timeout
+ */
+function isCallerAbort(error: unknown): boolean {
+    return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * Normalize a provider failure; a call aborted by its timeout is reported as such and retried like any other failure
+ */
+function toProviderError(error: unknown, provider: ProviderConfig): Error {
+    if (error instanceof Error && error.name === 'TimeoutError') {
+        return new Error(`Provider ${provider.name} timed out after ${provider.timeout}ms`);
+    }
+    return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Record token usage of a call for cost accounting
+ * The reported model id is preferred so dated snapshots are priced correctly
+ */
+function recordCallUsage(
+    operation: UsageOperation,
+    provider: ProviderConfig,
+    result: { usage?: unknown; response?: unknown } | undefined
+): void {
+    // Streams expose the response as a promise; their configured model is used instead
+    const response = result?.response as { modelId?: string } | undefined;
+    usageTracker.record({
+        operation,
+        provider: provider.name,
+        model: response?.modelId || provider.model,
+        usage: result?.usage as UsageCall['usage']
+    });
+}
+
 /**
  * Execute with retry and failover
  */
@@ -245,6 +275,9 @@ async function executeWithRetryAndFailover<T>(
     let lastError: Error | null = null;
     let attempt = 0;
 
+    // Refuse the call once the team's budget is spent; never retried or failed over
+    await budgetGuard.enforce();
+
     // Check if failover is disabled
     const disableFailover = process.env.DISABLE_FAILOVER === 'true';
     const maxAttempts = Number(process.env.MAX_ATTEMPTS) || retryConfig.maxRetries;
@@ -256,10 +289,10 @@ async function executeWithRetryAndFailover<T>(
         typeof (global as any).vi !== 'undefined';
 
     if (isTestEnvironment) {
-        console.log('Executing in test environment with provider:', providers[0].name);
+        // Just use the first eligible provider for simplicity in tests
+        const mockProvider = getEligibleProviders()[0];
+        console.log('Executing in test environment with provider:', mockProvider.name);
         try {
-            // Just use the first provider for simplicity in tests
-            const mockProvider = providers[0];
             const result = await operation(mockProvider);
 
             // Record success in test environment too
@@ -271,8 +304,8 @@ async function executeWithRetryAndFailover<T>(
             console.error('Test environment error:', error);
 
             // Record failure in test environment too
-            console.log('Recording failure for provider:', providers[0].name);
-            recordFailure(providers[0].name);
+            console.log('Recording failure for provider:', mockProvider.name);
+            recordFailure(mockProvider.name);
 
             // In test environment, we want to propagate the error for proper testing
             throw error;
@@ -284,18 +317,17 @@ async function executeWithRetryAndFailover<T>(
         const primaryProviderName = process.env.PRIMARY_PROVIDER || 'openai';
         console.log(`Failover disabled. Using only primary provider (${primaryProviderName})`);
         try {
-            const primaryProviderConfig = providers.find(p => p.name === primaryProviderName);
+            // A restricted request uses its highest-weight eligible provider instead of the primary
+            const eligibleProviders = getEligibleProviders();
+            const primaryProviderConfig = getProviderRoutingPolicy().onPremOnly
+                ? [...eligibleProviders].sort((a, b) => b.weight - a.weight)[0]
+                : eligibleProviders.find(p => p.name === primaryProviderName);
             if (!primaryProviderConfig) {
                 throw new Error(`Primary provider (${primaryProviderName}) not found`);
             }
 
             console.log(`Using provider ${primaryProviderConfig.name} with model ${primaryProviderConfig.model}`);
             
-            const modelInstance = createModelWithHelicone(
-                primaryProviderConfig.name as 'openai' | 'anthropic',
-                primaryProviderConfig.model
-            );
-            
             // Log Helicone event for provider selection
             if (isHeliconeEnabled()) {
                 await logEvent('provider_selected', {
@@ -363,12 +395,15 @@ async function executeWithRetryAndFailover<T>(
 
                 return result;
             } catch (error) {
+                // A call the caller aborted is not a provider failure and is not retried
+                if (isCallerAbort(error)) throw error;
+
                 console.error(`Error with provider ${provider.name}:`, error);
 
                 // Record failure
                 recordFailure(provider.name);
 
-                lastError = error instanceof Error ? error : new Error(String(error));
+                lastError = toProviderError(error, provider);
             }
         }
 
@@ -395,10 +430,8 @@ export async function generateObjectWithFailover<T>(
     options?: Partial<GenerateObjectOptions>
 ): Promise<T> {
     return executeWithRetryAndFailover(async (provider) => {
-        // Create the model using the provider function with Helicone integration
-        const modelInstance: LanguageModelV1 = provider.name === 'openai'
-            ? createModelWithHelicone('openai', provider.model)
-            : createModelWithHelicone('anthropic', provider.model);
+        // Create the model from the registry entry (Helicone integration for built-in providers)
+        const modelInstance: LanguageModelV1 = provider.createModel();
 
         const result = await generateObject({
             // @ts-ignore - TypeScript incorrectly infers string | LanguageModelV1 despite explicit casting
@@ -407,9 +440,11 @@ export async function generateObjectWithFailover<T>(
             prompt,
             maxTokens: options?.maxTokens || 4000,
             temperature: options?.temperature || 0.7,
-            ...options
+            ...options,
+            abortSignal: providerAbortSignal(provider, options?.abortSignal)
         });
 
+        recordCallUsage('generateObject', provider, result);
         return result.object as T;
     });
 }
@@ -422,10 +457,8 @@ export async function generateTextWithFailover(
     options?: Partial<GenerateTextOptions>
 ): Promise<GenerateTextResult<ToolSet, any>> {
     return executeWithRetryAndFailover(async (provider) => {
-        // Create the model using the provider function with Helicone integration
-        const modelInstance: LanguageModelV1 = provider.name === 'openai'
-            ? createModelWithHelicone('openai', provider.model)
-            : createModelWithHelicone('anthropic', provider.model);
+        // Create the model from the registry entry (Helicone integration for built-in providers)
+        const modelInstance: LanguageModelV1 = provider.createModel();
 
         const result = await generateText({
             // @ts-ignore - TypeScript incorrectly infers string | LanguageModelV1 despite explicit casting
@@ -433,9 +466,52 @@ export async function generateTextWithFailover(
             prompt,
             maxTokens: options?.maxTokens || 2000,
             temperature: options?.temperature || 0.7,
-            ...options
+            ...options,
+            abortSignal: providerAbortSignal(provider, options?.abortSignal)
+        });
+
+        recordCallUsage('generateText', provider, result);
+        return result;
+    });
+}
+
+/**
+ * Generate text with failover from a prompt followed by images
+ * Images must be base64 data (with or without a data URL prefix); URLs are rejected so providers never fetch caller-chosen addresses
+ */
+export async function generateTextWithImagesFailover(
+    prompt: string,
+    images: Array<{ data: string; mimeType?: string }>,
+    options?: Partial<GenerateTextOptions>
+): Promise<GenerateTextResult<ToolSet, any>> {
+    const imageParts = images.map((image, index) => {
+        const data = extractBase64ImageData(image.data);
+        if (!data) {
+            throw new Error(`Image ${index + 1} is not base64 image data`);
+        }
+        return { type: 'image' as const, image: data, mimeType: image.mimeType };
+    });
+
+    return executeWithRetryAndFailover(async (provider) => {
+        const modelInstance: LanguageModelV1 = provider.createModel();
+
+        const result = await generateText({
+            // @ts-ignore - TypeScript incorrectly infers string | LanguageModelV1 despite explicit casting
+            model: modelInstance,
+            messages: [{
+                role: 'user',
+                content: [
+                    { type: 'text', text: prompt },
+                    ...imageParts
+                ]
+            }],
+            maxTokens: options?.maxTokens || 2000,
+            temperature: options?.temperature || 0.7,
+            ...options,
+            abortSignal: providerAbortSignal(provider, options?.abortSignal)
         });
 
+        recordCallUsage('generateText', provider, result);
         return result;
     });
 }
@@ -452,7 +528,7 @@ export async function generateQADocumentWithFailover<T>(
     return executeWithRetryAndFailover(async (provider) => {
         console.log(`Attempting with provider ${provider.name}`);
 
-        const modelInstance = createModelWithHelicone(provider.name as 'openai' | 'anthropic', provider.model);
+        const modelInstance = provider.createModel();
 
         // Provide the exact schema structure expected
         const enhancedPrompt = prompt + `\n\nGenerate a QA document with this EXACT JSON structure. Follow the schema precisely:\n\n{
@@ -522,8 +598,10 @@ export async function generateQADocumentWithFailover<T>(
             prompt: enhancedPrompt,
             maxTokens: 4000,
             temperature: 0.1,
+            abortSignal: providerAbortSignal(provider, options?.abortSignal)
         });
 
+        recordCallUsage('generateText', provider, result);
         console.log('Raw AI response:', result.text.substring(0, 500) + '...');
 
         // Clean and parse the response
@@ -605,10 +683,8 @@ export async function streamTextWithFailover(
     options?: Partial<StreamTextOptions>
 ): Promise<StreamTextResult<ToolSet, any>> {
     return executeWithRetryAndFailover(async (provider) => {
-        // Create the model using the provider function with Helicone integration
-        const modelInstance: LanguageModelV1 = provider.name === 'openai'
-            ? createModelWithHelicone('openai', provider.model)
-            : createModelWithHelicone('anthropic', provider.model);
+        // Create the model from the registry entry (Helicone integration for built-in providers)
+        const modelInstance: LanguageModelV1 = provider.createModel();
 
         const result = streamText({
             // @ts-ignore - TypeScript incorrectly infers string | LanguageModelV1 despite explicit casting
@@ -616,9 +692,12 @@ export async function streamTextWithFailover(
             prompt,
             maxTokens: options?.maxTokens || 2000,
             temperature: options?.temperature || 0.7,
-            ...options
+            ...options,
+            abortSignal: providerAbortSignal(provider, options?.abortSignal)
         });
 
+        // Usage is only known once the stream finishes; it is recorded then
+        recordCallUsage('streamText', provider, result);
         return result;
     });
 }
@@ -677,7 +756,7 @@ export async function generateQADocumentWithImages<T>(
     return executeWithRetryAndFailover(async (provider) => {
         console.log(`Attempting with provider ${provider.name} (with images)`);
 
-        const modelInstance = createModelWithHelicone(provider.name as 'openai' | 'anthropic', provider.model);
+        const modelInstance = provider.createModel();
 
         // Prepare messages with images
         const messages = [];
@@ -766,8 +845,10 @@ export async function generateQADocumentWithImages<T>(
             messages: messages as any,
             maxTokens: options?.maxTokens || 4000,
             temperature: options?.temperature || 0.1,
+            abortSignal: providerAbortSignal(provider, options?.abortSignal)
         });
 
+        recordCallUsage('generateText', provider, result);
         console.log('Raw AI response with images:', result.text.substring(0, 500) + '...');
 
         // Clean and parse the response (same logic as original function)
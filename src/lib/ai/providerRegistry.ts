@@ -0,0 +1,295 @@
+/**
+ * Provider Registry
+ * Declares the AI providers used by failover, including self-hosted OpenAI-compatible endpoints
+ */
+
+import { AsyncLocalStorage } from 'async_hooks'
+import { readFileSync } from 'fs'
+import { createOpenAI, openai } from '@ai-sdk/openai'
+import { z } from 'zod'
+import type { LanguageModelV1 } from 'ai'
+import { createModelWithHelicone } from './heliconeWrapper'
+import { createMockLanguageModel, withFixtureRecording } from './mock/mockLanguageModel'
+
+/**
+ * Provider implementations the registry can build
+ */
+export type ProviderKind = 'openai' | 'anthropic' | 'openai-compatible' | 'mock'
+
+/**
+ * Provider entry used by failover
+ */
+export interface ProviderConfig {
+  name: string
+  kind: ProviderKind
+  model: string
+  timeout: number
+  weight: number // Priority weight (higher = more preferred)
+  onPrem: boolean // Requests stay inside our network
+  createModel: () => LanguageModelV1
+}
+
+/**
+ * Schema for a configured OpenAI-compatible endpoint (Ollama, vLLM, LM Studio, Azure-style deployments)
+ */
+export const customProviderSchema = z.object({
+  name: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/i, 'Provider names may only contain letters, digits, "-" and "_"'),
+  baseURL: z.string().url().describe('OpenAI-compatible API root, e.g. http://localhost:11434/v1'),
+  model: z.string().min(1),
+  apiKey: z.string().optional(),
+  apiKeyEnv: z.string().optional().describe('Environment variable holding the API key'),
+  headers: z.record(z.string(), z.string()).optional(),
+  queryParams: z.record(z.string(), z.string()).optional().describe('Appended to every request, e.g. api-version for Azure'),
+  timeout: z.number().positive().default(60000),
+  weight: z.number().default(5),
+  onPrem: z.boolean().default(false),
+  enabled: z.boolean().default(true)
+})
+
+export type CustomProviderDefinition = z.infer<typeof customProviderSchema>
+
+/**
+ * Environment variables read by the registry
+ */
+export type ProviderEnvironment = Record<string, string | undefined>
+
+/**
+ * Build the provider list from the environment
+ * Built-in providers come first; custom providers are read from AI_PROVIDERS (JSON array) or AI_PROVIDERS_FILE
+ * PRIMARY_PROVIDER=mock replaces every provider with the offline mock model
+ */
+export function loadProviderConfigs(env: ProviderEnvironment = process.env): ProviderConfig[] {
+  const primaryProvider = env.PRIMARY_PROVIDER || 'openai'
+
+  if (primaryProvider === 'mock') {
+    // Never fail over to a real provider: mock runs must stay offline
+    return [createMockProviderConfig(env)]
+  }
+
+  const builtIns: ProviderConfig[] = [
+    {
+      name: 'openai',
+      kind: 'openai',
+      model: env.OPENAI_MODEL || 'gpt-4o-mini',
+      timeout: Number(env.OPENAI_TIMEOUT) || 60000,
+      weight: primaryProvider === 'openai' ? 10 : 5, // Dynamic weight based on PRIMARY_PROVIDER
+      onPrem: false,
+      createModel: () => createModelWithHelicone('openai', env.OPENAI_MODEL || 'gpt-4o-mini')
+    },
+    {
+      name: 'anthropic',
+      kind: 'anthropic',
+      model: env.ANTHROPIC_MODEL || 'claude-3-5-haiku-20241022',
+      timeout: Number(env.ANTHROPIC_TIMEOUT) || 60000,
+      weight: primaryProvider === 'anthropic' ? 10 : 5, // Dynamic weight based on PRIMARY_PROVIDER
+      onPrem: false,
+      createModel: () => createModelWithHelicone('anthropic', env.ANTHROPIC_MODEL || 'claude-3-5-haiku-20241022')
+    }
+  ]
+
+  const custom = readCustomProviders(env)
+    .filter(definition => {
+      if (builtIns.some(provider => provider.name === definition.name)) {
+        console.warn(`⚠️ Custom provider "${definition.name}" clashes with a built-in provider and was ignored`)
+        return false
+      }
+      return definition.enabled
+    })
+    .map(definition => {
+      const config = createCustomProviderConfig(definition, env)
+      // PRIMARY_PROVIDER may name a custom provider; it then outranks the built-ins
+      return definition.name === primaryProvider ? { ...config, weight: Math.max(config.weight, 10) } : config
+    })
+
+  const providers = [...builtIns, ...custom]
+  const recordDir = env.MOCK_AI_RECORD_DIR
+  return recordDir
+    ? providers.map(provider => ({ ...provider, createModel: () => withFixtureRecording(provider.createModel(), recordDir) }))
+    : providers
+}
+
+/**
+ * Create the offline mock provider entry
+ */
+export function createMockProviderConfig(env: ProviderEnvironment = process.env): ProviderConfig {
+  const model = createMockLanguageModel(env)
+  return {
+    name: 'mock',
+    kind: 'mock',
+    model: model.modelId,
+    timeout: 60000,
+    weight: 10,
+    onPrem: true, // Nothing leaves the machine
+    createModel: () => model
+  }
+}
+
+let registeredProviders: ProviderConfig[] | null = null
+
+/**
+ * Model for generators that call the AI SDK directly instead of going through failover
+ * Honours PRIMARY_PROVIDER=mock and the on-prem routing policy of the current request
+ */
+export function resolveLanguageModel(modelId: string): LanguageModelV1 {
+  const policy = getProviderRoutingPolicy()
+
+  if (process.env.PRIMARY_PROVIDER === 'mock' || policy.onPremOnly) {
+    registeredProviders = registeredProviders || loadProviderConfigs()
+    const [provider] = filterProvidersForPolicy(registeredProviders, policy).sort((a, b) => b.weight - a.weight)
+    if (!provider) {
+      throw new Error(`No eligible AI providers: ${policy.reason || 'routing policy'} but no on-prem provider is configured`)
+    }
+    return provider.createModel()
+  }
+
+  const model = openai(modelId)
+  return process.env.MOCK_AI_RECORD_DIR ? withFixtureRecording(model, process.env.MOCK_AI_RECORD_DIR) : model
+}
+
+/**
+ * Create a provider entry for an OpenAI-compatible endpoint
+ * These calls never go through the Helicone proxy, so on-prem traffic stays on-prem
+ */
+export function createCustomProviderConfig(
+  definition: CustomProviderDefinition,
+  env: ProviderEnvironment = process.env
+): ProviderConfig {
+  const apiKey = definition.apiKey || (definition.apiKeyEnv ? env[definition.apiKeyEnv] : undefined)
+
+  const client = createOpenAI({
+    name: definition.name,
+    baseURL: definition.baseURL,
+    // Local servers usually ignore the key, but the SDK requires one
+    apiKey: apiKey || 'not-needed',
+    headers: definition.headers,
+    compatibility: 'compatible',
+    fetch: definition.queryParams ? withQueryParams(definition.queryParams) : undefined
+  })
+
+  return {
+    name: definition.name,
+    kind: 'openai-compatible',
+    model: definition.model,
+    timeout: definition.timeout,
+    weight: definition.weight,
+    onPrem: definition.onPrem,
+    createModel: () => client(definition.model)
+  }
+}
+
+function readCustomProviders(env: ProviderEnvironment): CustomProviderDefinition[] {
+  let raw: string | undefined
+  try {
+    raw = env.AI_PROVIDERS_FILE ? readFileSync(env.AI_PROVIDERS_FILE, 'utf-8') : env.AI_PROVIDERS
+  } catch (error) {
+    console.error(`❌ Failed to read AI_PROVIDERS_FILE ${env.AI_PROVIDERS_FILE}:`, error)
+    return []
+  }
+  if (!raw?.trim()) return []
+
+  let entries: unknown
+  try {
+    entries = JSON.parse(raw)
+  } catch (error) {
+    console.error('❌ AI provider configuration is not valid JSON:', error)
+    return []
+  }
+
+  if (!Array.isArray(entries)) {
+    console.error('❌ AI provider configuration must be a JSON array')
+    return []
+  }
+
+  // Skip invalid entries instead of failing startup; the built-in providers keep working
+  return entries.flatMap((entry, index) => {
+    const result = customProviderSchema.safeParse(entry)
+    if (!result.success) {
+      console.error(`❌ Ignoring AI provider #${index}:`, result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`))
+      return []
+    }
+    return [result.data]
+  })
+}
+
+function withQueryParams(queryParams: Record<string, string>): typeof fetch {
+  return (input, init) => {
+    const url = new URL(input instanceof Request ? input.url : input.toString())
+    Object.entries(queryParams).forEach(([key, value]) => url.searchParams.set(key, value))
+    return fetch(url, init)
+  }
+}
+
+// ============================================================================
+// Request routing
+// ============================================================================
+
+/**
+ * Provider restrictions for the current request
+ */
+export interface ProviderRoutingPolicy {
+  onPremOnly: boolean
+  reason?: string
+}
+
+const routingScope = new AsyncLocalStorage<ProviderRoutingPolicy>()
+
+/**
+ * Run a request handler in its own routing scope so restrictions never leak between requests
+ */
+export function withProviderRouting<T>(handler: () => Promise<T>): Promise<T> {
+  return routingScope.run({ onPremOnly: false }, handler)
+}
+
+/**
+ * Get the routing policy of the current request (unrestricted outside a routing scope)
+ */
+export function getProviderRoutingPolicy(): ProviderRoutingPolicy {
+  return routingScope.getStore() || { onPremOnly: false }
+}
+
+/**
+ * Restrict the rest of the current request to on-prem providers when the ticket matches ON_PREM_TICKET_PATTERNS
+ * Patterns are comma-separated ticket keys with "*" wildcards, e.g. "SEC-*,HR-*,PAY-42"
+ */
+export function applyTicketRoutingPolicy(ticketKey: string | undefined, requestId?: string): boolean {
+  if (!ticketKey || !matchesOnPremPattern(ticketKey)) {
+    return false
+  }
+
+  const policy = routingScope.getStore()
+  if (!policy) {
+    // Without a scope the restriction could not be enforced, so refuse instead of sending data off-prem
+    throw new Error(`Ticket ${ticketKey} requires an on-prem provider but no routing scope is active`)
+  }
+
+  policy.onPremOnly = true
+  policy.reason = `Ticket ${ticketKey} matches ON_PREM_TICKET_PATTERNS`
+  console.log(`🔒 ${requestId ? `[${requestId}] ` : ''}${policy.reason}; using on-prem providers only`)
+  return true
+}
+
+/**
+ * Keep only the providers the current policy allows
+ */
+export function filterProvidersForPolicy<T extends Pick<ProviderConfig, 'onPrem'>>(
+  providers: T[],
+  policy: ProviderRoutingPolicy = getProviderRoutingPolicy()
+): T[] {
+  return policy.onPremOnly ? providers.filter(provider => provider.onPrem) : providers
+}
+
+function matchesOnPremPattern(ticketKey: string): boolean {
+  const patterns = (process.env.ON_PREM_TICKET_PATTERNS || '')
+    .split(',')
+    .map(pattern => pattern.trim())
+    .filter(Boolean)
+
+  return patterns.some(pattern => {
+    const regex = new RegExp(`^${pattern.split('*').map(escapeRegExp).join('.*')}$`, 'i')
+    return regex.test(ticketKey)
+  })
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
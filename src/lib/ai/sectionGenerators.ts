@@ -4,9 +4,22 @@
  */
 
 import { generateTextWithFailover } from './providerFailover'
+import { withUsageSection, usageTracker } from '../usage/usageTracker'
+import { getBudgetWarnings } from '../usage/budgets'
+import { normalizeTicketForCache, type CacheDirectives, type ResponseCache } from '../cache/responseCache'
 import { z } from 'zod'
-import type { QACanvasDocument } from '../schemas/QACanvasDocument'
+import {
+  estimateWordCount,
+  type AcceptanceCriterion,
+  type DocumentCacheInfo,
+  type QACanvasDocument,
+  type ResponseCacheLookup,
+  type TestCase
+} from '../schemas/QACanvasDocument'
 import type { TicketAnalysisPayload } from '../schemas/TicketAnalysisPayload'
+import { getTestCaseTitle, linkTestCasesToCriteria } from '../analysis/traceabilityMatrix'
+import { applyCriteriaProvenance, extractAcceptanceCriteria, toAcceptanceCriterion } from '../analysis/acceptanceCriteriaExtractor'
+import { lintAcceptanceCriteria } from '../analysis/criteriaLinter'
 
 // Schemas for individual sections
 const ticketSummarySchema = z.object({
@@ -21,41 +34,77 @@ const acceptanceCriteriaSchema = z.array(z.object({
   description: z.string(),
   priority: z.enum(['must', 'should', 'could']),
   category: z.string(),
-  testable: z.boolean()
+  testable: z.boolean(),
+  source: z.enum(['ticket', 'ai']).optional()
 }))
 
-const testCasesSchema = z.array(z.object({
-  format: z.string(),
+const testCaseItemFields = {
   id: z.string(),
   category: z.string(),
   priority: z.enum(['high', 'medium', 'low']),
   estimatedTime: z.string().optional(),
-  testCase: z.union([
-    // Gherkin format
-    z.object({
+  coversCriteria: z.array(z.string()).optional()
+}
+
+// Discriminated by format so parsed test cases are document TestCases
+const testCaseItemSchema = z.discriminatedUnion('format', [
+  z.object({
+    ...testCaseItemFields,
+    format: z.literal('gherkin'),
+    testCase: z.object({
       scenario: z.string(),
       given: z.array(z.string()),
       when: z.array(z.string()),
       then: z.array(z.string()),
       tags: z.array(z.string())
-    }),
-    // Steps format
-    z.object({
+    })
+  }),
+  z.object({
+    ...testCaseItemFields,
+    format: z.literal('steps'),
+    testCase: z.object({
       title: z.string(),
       objective: z.string(),
+      preconditions: z.array(z.string()).default([]),
       steps: z.array(z.object({
+        stepNumber: z.number().optional(),
         action: z.string(),
         expectedResult: z.string()
-      }))
-    }),
-    // Table format
-    z.object({
+      })).transform(steps => steps.map((step, index) => ({ ...step, stepNumber: step.stepNumber ?? index + 1 }))),
+      postconditions: z.array(z.string()).default([])
+    })
+  }),
+  z.object({
+    ...testCaseItemFields,
+    format: z.literal('table'),
+    testCase: z.object({
       title: z.string(),
       description: z.string(),
-      expectedOutcome: z.string()
+      testData: z.array(z.record(z.string(), z.string())).default([]),
+      expectedOutcome: z.string(),
+      notes: z.string().default('')
     })
-  ])
-}))
+  })
+])
+
+const testCasesSchema = z.array(testCaseItemSchema)
+
+const endToEndPlanSchema = z.object({
+  scenarios: z.array(testCaseItemSchema.and(z.object({
+    spansTickets: z.array(z.string())
+  }))),
+  integrationRisks: z.array(z.object({
+    tickets: z.array(z.string()),
+    risk: z.string(),
+    severity: z.enum(['low', 'medium', 'high']),
+    mitigation: z.string()
+  })).default([])
+})
+
+/**
+ * End-to-end scenarios and integration risks generated for a set of related tickets
+ */
+export type EndToEndPlanResponse = z.infer<typeof endToEndPlanSchema>
 
 const configurationWarningsSchema = z.array(z.object({
   type: z.string(),
@@ -65,6 +114,38 @@ const configurationWarningsSchema = z.array(z.object({
   severity: z.enum(['low', 'medium', 'high'])
 }))
 
+/**
+ * Names of the document sections produced by the section generators
+ */
+export type DocumentSectionName = 'ticketSummary' | 'acceptanceCriteria' | 'testCases' | 'configurationWarnings'
+
+/**
+ * Version of each section's prompt, part of the response cache key
+ * Bump a section's version when its prompt or output handling changes so cached sections are regenerated
+ */
+export const SECTION_PROMPT_VERSIONS: Record<DocumentSectionName, number> = {
+  ticketSummary: 1,
+  acceptanceCriteria: 2,
+  testCases: 2,
+  configurationWarnings: 1
+}
+
+/**
+ * Optional hooks notified as each section generator starts and resolves
+ * The cache lookup is passed when sections go through the response cache
+ */
+export interface SectionGenerationCallbacks {
+  onSectionStart?: (section: DocumentSectionName) => void
+  onSectionComplete?: (section: DocumentSectionName, data: unknown, duration: number, cache?: ResponseCacheLookup) => void
+}
+
+/**
+ * Response cache used for the sections and the request's Cache-Control directives
+ */
+export interface SectionCacheOptions extends Partial<CacheDirectives> {
+  cache: ResponseCache
+}
+
 /**
  * Build base context shared across all section generators
  */
@@ -95,13 +176,69 @@ ${keyComments || 'No recent comments'}
 
 **CUSTOM FIELDS:**
 ${Object.entries(ticketJson.customFields).slice(0, 3).map(([key, value]) => `- ${key}: ${value}`).join('\n')}
-
+${ticketJson.issueLinks?.length || ticketJson.subtasks?.length ? `
+**LINKED ISSUES:**
+${[
+  ...(ticketJson.issueLinks || []).map((link: any) => `- ${link.type} ${link.issueKey}${link.summary ? `: ${link.summary}` : ''}`),
+  ...(ticketJson.subtasks || []).map((subtask: any) => `- subtask ${subtask.issueKey}: ${subtask.summary}`)
+].slice(0, 10).join('\n')}
+` : ''}
 **QA PROFILE:**
 - Format: ${qaProfile.testCaseFormat}
 - Active Categories: ${activeCategories}
 - Include Images: ${qaProfile.includeImages}`
 }
 
+/**
+ * Format and priority instructions shared by every prompt asking for test cases
+ */
+function buildTestCaseFormatInstructions(format: string): string {
+  return `**FORMAT REQUIREMENTS:**
+- Use ${format} format consistently
+- Each test case MUST include: format, id, category, priority, testCase object
+- The "format" field must be exactly: "${format}"
+- Include realistic test data and scenarios
+- Add relevant tags for organization
+
+**${format.toUpperCase()} FORMAT SPECIFICS:**
+${format === 'gherkin' ? `
+- scenario: Clear scenario name
+- given: Preconditions (array of strings)
+- when: Actions taken (array of strings)  
+- then: Expected outcomes (array of strings)
+- tags: Relevant tags like @functional, @ui, etc.
+` : format === 'steps' ? `
+- title: Test case title
+- objective: What this test validates
+- steps: Array of {action, expectedResult} objects
+` : `
+- title: Test case title
+- description: What is being tested
+- expectedOutcome: What should happen
+`}
+
+**PRIORITY GUIDELINES:**
+- high: Critical functionality that must work
+- medium: Important features
+- low: Edge cases and nice-to-have validation`
+}
+
+/**
+ * Extract the JSON payload from an AI response, stripping markdown code fences
+ */
+function parseJsonResponse(result: string | { text?: string }, label: string): unknown {
+  // Extract text from GenerateTextResult object
+  const responseText = typeof result === 'string' ? result : result.text
+
+  if (!responseText) {
+    throw new Error(`No text content in AI response for ${label}`)
+  }
+
+  return JSON.parse(responseText.trim()
+    .replace(/```json\s*/, '')
+    .replace(/```\s*$/, ''))
+}
+
 /**
  * Generate ticket summary section
  */
@@ -185,15 +322,23 @@ export async function generateAcceptanceCriteria(
   priority: 'must' | 'should' | 'could';
   category: string;
   testable: boolean;
+  source?: 'ticket' | 'ai';
 }>> {
   const startTime = Date.now()
   console.log(`📝 [${requestId}] Generating acceptance criteria...`)
 
   const baseContext = buildBaseContext(ticketJson, qaProfile)
+  const extracted = extractAcceptanceCriteria(ticketJson)
+  const authorCriteria = extracted.length > 0 ? `
+
+**AUTHOR-WRITTEN ACCEPTANCE CRITERIA (authoritative):**
+${extracted.map((criterion, index) => `${index + 1}. ${criterion.title ? `${criterion.title}: ` : ''}${criterion.text}`).join('\n')}
+
+These criteria were written by the ticket's author. Include every one of them first, in this order, keeping their meaning unchanged, with "source": "ticket". Only add criteria for gaps they leave, with "source": "ai".` : ''
   
-  const prompt = `${baseContext}
+  const prompt = `${baseContext}${authorCriteria}
 
-**TASK:** Generate ONLY acceptance criteria (3-5 criteria).
+**TASK:** Generate ONLY acceptance criteria (${extracted.length > 0 ? 'the author-written criteria plus up to 3 more' : '3-5 criteria'}).
 
 Based on the ticket analysis, create specific, testable acceptance criteria that define what "done" looks like.
 
@@ -223,6 +368,7 @@ Generate a JSON array of acceptance criteria objects with:
 - priority: "must", "should", or "could"
 - category: One of the active categories
 - testable: true (all criteria must be testable)
+- source: "ticket" for author-written criteria, "ai" for criteria you added
 
 Focus on what's actually being implemented based on the ticket context.`
 
@@ -245,26 +391,35 @@ Focus on what's actually being implemented based on the ticket context.`
       .replace(/```\s*$/, '')
     
     const parsed = JSON.parse(cleanedResult)
-    const validated = acceptanceCriteriaSchema.parse(parsed)
+    const validated = applyCriteriaProvenance(acceptanceCriteriaSchema.parse(parsed), extracted)
     
     const duration = Date.now() - startTime
-    console.log(`✅ [${requestId}] Acceptance criteria generated in ${duration}ms (${validated.length} criteria)`)
+    console.log(`✅ [${requestId}] Acceptance criteria generated in ${duration}ms (${validated.length} criteria, ${extracted.length} from the ticket)`)
     return validated
   } catch (error) {
     const duration = Date.now() - startTime
     console.error(`❌ [${requestId}] Acceptance criteria generation failed after ${duration}ms:`, error)
+
+    // The author's own criteria still make a usable section without AI
+    if (extracted.length > 0) {
+      console.log(`↩️ [${requestId}] Falling back to ${extracted.length} criteria from the ticket`)
+      return extracted.map((criterion, index) => toAcceptanceCriterion(criterion, `ac-${index + 1}`))
+    }
     throw error
   }
 }
 
 /**
  * Generate test cases section
+ * When acceptance criteria are already known, the model links each test case to them via coversCriteria
+ * Callers link the result with linkTestCasesToCriteria once the final criteria are available
  */
 export async function generateTestCases(
   ticketJson: any,
   qaProfile: any,
-  requestId: string
-): Promise<Array<any>> {
+  requestId: string,
+  acceptanceCriteria?: AcceptanceCriterion[]
+): Promise<TestCase[]> {
   const startTime = Date.now()
   console.log(`🧪 [${requestId}] Generating test cases...`)
 
@@ -290,35 +445,12 @@ Create comprehensive test cases that validate the acceptance criteria and cover:
 **TEST CATEGORIES:**
 Focus on these active categories: ${activeCategories}
 
-**FORMAT REQUIREMENTS:**
-- Use ${qaProfile.testCaseFormat} format consistently
-- Each test case MUST include: format, id, category, priority, testCase object
-- The "format" field must be exactly: "${qaProfile.testCaseFormat}"
-- Include realistic test data and scenarios
-- Add relevant tags for organization
-
-**${qaProfile.testCaseFormat.toUpperCase()} FORMAT SPECIFICS:**
-${qaProfile.testCaseFormat === 'gherkin' ? `
-- scenario: Clear scenario name
-- given: Preconditions (array of strings)
-- when: Actions taken (array of strings)  
-- then: Expected outcomes (array of strings)
-- tags: Relevant tags like @functional, @ui, etc.
-` : qaProfile.testCaseFormat === 'steps' ? `
-- title: Test case title
-- objective: What this test validates
-- steps: Array of {action, expectedResult} objects
-` : `
-- title: Test case title
-- description: What is being tested
-- expectedOutcome: What should happen
-`}
-
-**PRIORITY GUIDELINES:**
-- high: Critical functionality that must work
-- medium: Important features
-- low: Edge cases and nice-to-have validation
-
+${buildTestCaseFormatInstructions(qaProfile.testCaseFormat)}
+${acceptanceCriteria?.length ? `
+**ACCEPTANCE CRITERIA TRACEABILITY:**
+Each test case MUST include "coversCriteria": an array with the ids of the acceptance criteria it verifies.
+${acceptanceCriteria.map(criterion => `- ${criterion.id} (${criterion.priority}): ${criterion.title}`).join('\n')}
+` : ''}
 Generate a JSON array of test case objects that thoroughly validate the implementation.`
 
   try {
@@ -328,20 +460,8 @@ Generate a JSON array of test case objects that thoroughly validate the implemen
       maxTokens: 1200
     })
 
-    // Extract text from GenerateTextResult object
-    const responseText = typeof result === 'string' ? result : result.text
-    
-    if (!responseText) {
-      throw new Error('No text content in AI response for test cases')
-    }
-    
-    const cleanedResult = responseText.trim()
-      .replace(/```json\s*/, '')
-      .replace(/```\s*$/, '')
-    
-    const parsed = JSON.parse(cleanedResult)
-    const validated = testCasesSchema.parse(parsed)
-    
+    const validated = testCasesSchema.parse(parseJsonResponse(result, 'test cases'))
+
     const duration = Date.now() - startTime
     console.log(`✅ [${requestId}] Test cases generated in ${duration}ms (${validated.length} test cases)`)
     return validated
@@ -352,6 +472,61 @@ Generate a JSON array of test case objects that thoroughly validate the implemen
   }
 }
 
+/**
+ * Generate end-to-end scenarios spanning several related tickets, such as the stories of an epic
+ * Each ticket's existing test cases are listed so the scenarios cover the flows between stories instead of repeating them
+ */
+export async function generateEndToEndScenarios(
+  tickets: Array<{ ticketJson: any; document: QACanvasDocument }>,
+  qaProfile: any,
+  requestId: string
+): Promise<EndToEndPlanResponse> {
+  const startTime = Date.now()
+  console.log(`🔗 [${requestId}] Generating end-to-end scenarios for ${tickets.length} tickets...`)
+
+  const ticketContext = tickets.map(({ ticketJson, document }) => `### ${ticketJson.issueKey} (${ticketJson.issueType}): ${ticketJson.summary}
+Components: ${ticketJson.components?.length ? ticketJson.components.join(', ') : 'None'}
+Acceptance criteria:
+${document.acceptanceCriteria.map(criterion => `- ${ticketJson.issueKey}:${criterion.id} (${criterion.priority}): ${criterion.title}`).join('\n') || '- None'}
+Existing test cases:
+${document.testCases.map(testCase => `- ${getTestCaseTitle(testCase)}`).join('\n') || '- None'}`).join('\n\n')
+
+  const prompt = `**RELATED TICKETS:**
+${ticketContext}
+
+**TASK:** Generate ONLY end-to-end scenarios (3-6 scenarios) in ${qaProfile.testCaseFormat} format that exercise the tickets together as one release.
+
+**SCENARIO REQUIREMENTS:**
+- Every scenario MUST span at least two tickets and list their keys in "spansTickets"
+- Follow the user journey across the stories instead of repeating the existing per-ticket test cases
+- "coversCriteria" lists the verified criteria qualified with their ticket key, e.g. "${tickets[0]?.ticketJson.issueKey}:ac-1"
+
+${buildTestCaseFormatInstructions(qaProfile.testCaseFormat)}
+
+**INTEGRATION RISKS:**
+Also list the risks that only appear when the tickets ship together (shared data, ordering, contracts between components), each with the affected ticket keys, a severity (low, medium, high) and a mitigation.
+
+Respond with a JSON object: {"scenarios": [...test case objects with spansTickets], "integrationRisks": [{"tickets": [], "risk": "", "severity": "", "mitigation": ""}]}`
+
+  try {
+    const result = await generateTextWithFailover(prompt, {
+      system: `You are a senior QA engineer planning release testing across related tickets. Generate realistic ${qaProfile.testCaseFormat} end-to-end scenarios that connect the stories.`,
+      temperature: 0.3,
+      maxTokens: 1800
+    })
+
+    const validated = endToEndPlanSchema.parse(parseJsonResponse(result, 'end-to-end scenarios'))
+
+    const duration = Date.now() - startTime
+    console.log(`✅ [${requestId}] End-to-end scenarios generated in ${duration}ms (${validated.scenarios.length} scenarios)`)
+    return validated
+  } catch (error) {
+    const duration = Date.now() - startTime
+    console.error(`❌ [${requestId}] End-to-end scenario generation failed after ${duration}ms:`, error)
+    throw error
+  }
+}
+
 /**
  * Generate configuration warnings section
  */
@@ -435,18 +610,60 @@ Generate a JSON array of warning objects with type, title, message, recommendati
   }
 }
 
+/**
+ * Run a section generator and notify callbacks when it resolves
+ * Token usage of the generator's AI calls is attributed to the section; cached sections make no calls
+ */
+async function trackSection<T>(
+  section: DocumentSectionName,
+  generator: () => Promise<T>,
+  callbacks?: SectionGenerationCallbacks,
+  cacheOptions?: SectionCacheOptions & { input: Record<string, unknown>; shouldCache?: (value: T) => boolean }
+): Promise<T> {
+  const startTime = Date.now()
+  callbacks?.onSectionStart?.(section)
+
+  const { value, cache } = await withUsageSection(section, async () => {
+    if (!cacheOptions) return { value: await generator(), cache: undefined }
+
+    const input = { section, promptVersion: SECTION_PROMPT_VERSIONS[section], ...cacheOptions.input }
+    return cacheOptions.cache.getOrCompute('section', input, generator, cacheOptions)
+  })
+
+  callbacks?.onSectionComplete?.(section, value, Date.now() - startTime, cache)
+  return value
+}
+
+/**
+ * Per-section cache options for a ticket, or undefined entries when caching is off
+ * Sections are cached individually so a prompt version bump only regenerates that section
+ */
+function createSectionCache(ticketJson: any, qaProfile: any, cacheOptions?: SectionCacheOptions) {
+  const cacheInput = { ticket: normalizeTicketForCache(ticketJson), qaProfile }
+  const sectionCache = <T>(input: Record<string, unknown>, shouldCache?: (value: T) => boolean) =>
+    cacheOptions?.cache.enabled ? { ...cacheOptions, input, shouldCache } : undefined
+
+  return { sectionCache, cacheInput }
+}
+
 /**
  * Generate complete QA document using parallel section generation
+ * Callbacks fire per section as soon as each generator resolves
+ * With cacheOptions, unchanged sections are served from the response cache
  */
 export async function generateQADocumentBySections(
   ticketJson: any,
   qaProfile: any,
   assumptions: any[],
-  requestId: string
+  requestId: string,
+  callbacks?: SectionGenerationCallbacks,
+  cacheOptions?: SectionCacheOptions
 ): Promise<Omit<QACanvasDocument, 'metadata'>> {
   const startTime = Date.now()
   console.log(`🚀 [${requestId}] Starting parallel section generation...`)
 
+  const { sectionCache, cacheInput } = createSectionCache(ticketJson, qaProfile, cacheOptions)
+
   try {
     // Generate all sections in parallel for maximum performance
     const [
@@ -455,10 +672,18 @@ export async function generateQADocumentBySections(
       testCases,
       configurationWarnings
     ] = await Promise.all([
-      generateTicketSummary(ticketJson, qaProfile, requestId),
-      generateAcceptanceCriteria(ticketJson, qaProfile, requestId),
-      generateTestCases(ticketJson, qaProfile, requestId),
-      generateConfigurationWarnings(ticketJson, qaProfile, assumptions, requestId)
+      trackSection('ticketSummary', () => generateTicketSummary(ticketJson, qaProfile, requestId), callbacks, sectionCache(cacheInput)),
+      trackSection('acceptanceCriteria', () => generateAcceptanceCriteria(ticketJson, qaProfile, requestId), callbacks, sectionCache(
+        cacheInput,
+        // Criteria taken only from the ticket may be the fallback after a failed call, so they are not cached
+        (criteria: Array<{ source?: string }>) => criteria.some(criterion => criterion.source !== 'ticket')
+      )),
+      trackSection('testCases', () => generateTestCases(ticketJson, qaProfile, requestId), callbacks, sectionCache(cacheInput)),
+      trackSection('configurationWarnings', () => generateConfigurationWarnings(ticketJson, qaProfile, assumptions, requestId), callbacks, sectionCache(
+        { ...cacheInput, assumptions },
+        // An empty list is either free to regenerate (no assumptions) or a fallback after a failed call
+        (warnings: unknown[]) => warnings.length > 0
+      ))
     ])
 
     const totalTime = Date.now() - startTime
@@ -468,7 +693,8 @@ export async function generateQADocumentBySections(
     return {
       ticketSummary,
       acceptanceCriteria,
-      testCases,
+      // Sections are generated in parallel, so criteria links are inferred once both are available
+      testCases: linkTestCasesToCriteria(testCases, acceptanceCriteria),
       configurationWarnings
     }
   } catch (error) {
@@ -476,4 +702,100 @@ export async function generateQADocumentBySections(
     console.error(`❌ [${requestId}] Parallel section generation failed after ${totalTime}ms:`, error)
     throw error
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Attach generation metadata to the generated sections
+ */
+export function assembleQADocument(
+  sections: Omit<QACanvasDocument, 'metadata'>,
+  qaProfile: TicketAnalysisPayload['qaProfile'],
+  ticketJson: TicketAnalysisPayload['ticketJson'],
+  assumptions: any[],
+  generationTime: number,
+  cache?: DocumentCacheInfo
+): QACanvasDocument {
+  // Add metadata to complete the document structure (wordCount calculated after)
+  const document: QACanvasDocument = {
+    ...sections,
+    metadata: {
+      generatedAt: new Date().toISOString(),
+      qaProfile,
+      ticketId: ticketJson.issueKey,
+      documentVersion: '1.0',
+      aiModel: (() => {
+        const primaryProvider = process.env.PRIMARY_PROVIDER || 'openai';
+        return primaryProvider === 'openai'
+          ? (process.env.OPENAI_MODEL || 'gpt-4o-mini')
+          : (process.env.ANTHROPIC_MODEL || 'claude-3-5-haiku-20241022');
+      })(),
+      generationTime,
+      wordCount: 0, // Will be calculated below
+      regenerationReason: assumptions.length > 0 ? `Generated with ${assumptions.length} assumptions` : undefined,
+      usage: usageTracker.getRequestSummary(),
+      budgetWarnings: getBudgetWarnings(),
+      cache,
+      criteriaLint: lintAcceptanceCriteria(sections.acceptanceCriteria).summary
+    }
+  }
+
+  // Calculate word count now that we have the complete document
+  document.metadata.wordCount = estimateWordCount(document)
+  return document
+}
+
+/**
+ * Regenerate only the given sections in parallel, e.g. after the ticket changed
+ * Regenerated test cases are linked to the regenerated criteria, or to existingCriteria when those are kept
+ */
+export async function regenerateSections(
+  sections: DocumentSectionName[],
+  ticketJson: any,
+  qaProfile: any,
+  assumptions: any[],
+  existingCriteria: AcceptanceCriterion[],
+  requestId: string,
+  callbacks?: SectionGenerationCallbacks,
+  cacheOptions?: SectionCacheOptions
+): Promise<Partial<Omit<QACanvasDocument, 'metadata'>>> {
+  const startTime = Date.now()
+  console.log(`🔁 [${requestId}] Regenerating sections: ${sections.join(', ') || 'none'}`)
+
+  const { sectionCache, cacheInput } = createSectionCache(ticketJson, qaProfile, cacheOptions)
+  const includes = (section: DocumentSectionName) => sections.includes(section)
+
+  // Kept criteria are known up front and can go into the test case prompt; regenerated ones are linked afterwards
+  const knownCriteria = includes('acceptanceCriteria') ? undefined : existingCriteria
+
+  const [ticketSummary, acceptanceCriteria, testCases, configurationWarnings] = await Promise.all([
+    includes('ticketSummary')
+      ? trackSection('ticketSummary', () => generateTicketSummary(ticketJson, qaProfile, requestId), callbacks, sectionCache(cacheInput))
+      : undefined,
+    includes('acceptanceCriteria')
+      ? trackSection('acceptanceCriteria', () => generateAcceptanceCriteria(ticketJson, qaProfile, requestId), callbacks, sectionCache(
+        cacheInput,
+        (criteria: Array<{ source?: string }>) => criteria.some(criterion => criterion.source !== 'ticket')
+      ))
+      : undefined,
+    includes('testCases')
+      ? trackSection('testCases', () => generateTestCases(ticketJson, qaProfile, requestId, knownCriteria), callbacks, sectionCache(
+        knownCriteria ? { ...cacheInput, acceptanceCriteria: knownCriteria } : cacheInput
+      ))
+      : undefined,
+    includes('configurationWarnings')
+      ? trackSection('configurationWarnings', () => generateConfigurationWarnings(ticketJson, qaProfile, assumptions, requestId), callbacks, sectionCache(
+        { ...cacheInput, assumptions },
+        (warnings: unknown[]) => warnings.length > 0
+      ))
+      : undefined
+  ])
+
+  console.log(`🎯 [${requestId}] Section regeneration completed in ${Date.now() - startTime}ms`)
+
+  return {
+    ...(ticketSummary && { ticketSummary }),
+    ...(acceptanceCriteria && { acceptanceCriteria: acceptanceCriteria as AcceptanceCriterion[] }),
+    ...(testCases && { testCases: linkTestCasesToCriteria(testCases, acceptanceCriteria ?? existingCriteria) }),
+    ...(configurationWarnings && { configurationWarnings: configurationWarnings as QACanvasDocument['configurationWarnings'] })
+  }
+}
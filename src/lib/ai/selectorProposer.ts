@@ -0,0 +1,103 @@
+/**
+ * Selector Proposer
+ * Proposes CSS selectors for automation steps from the screenshots attached to the ticket
+ */
+
+import { z } from 'zod'
+import { generateTextWithImagesFailover } from './providerFailover'
+import { getAutomatableTestCases, type SelectorProposal } from '../export/automationExporter'
+import { extractBase64ImageData, prepareAttachmentImages, prepareCommentImages } from '../utils/imageProcessor'
+import type { QACanvasDocument } from '../schemas/QACanvasDocument'
+import type { JiraTicket } from '../schemas/JiraTicket'
+
+/**
+ * Schema for a selector proposed for a test case step
+ */
+export const selectorProposalSchema = z.object({
+  testCaseId: z.string(),
+  step: z.number().int().min(1),
+  selector: z.string().min(1),
+  expectedSelector: z.string().min(1).optional()
+})
+
+/**
+ * Screenshot sent to the AI, as base64 data or a data URL
+ */
+export interface Screenshot {
+  name: string
+  data: string
+  mimeType: string
+}
+
+/**
+ * Screenshots beyond this many are not sent, keeping the request small
+ */
+export const MAX_SCREENSHOTS = 5
+
+/**
+ * Collect the images attached to the ticket or embedded in its comments
+ * Only inline base64 images are kept; images given as URLs are skipped rather than fetched
+ */
+export function collectScreenshots(ticket: Pick<JiraTicket, 'attachments' | 'comments'>): Screenshot[] {
+  return [...prepareAttachmentImages(ticket.attachments), ...prepareCommentImages(ticket.comments)]
+    .filter(image => extractBase64ImageData(image.data) !== null)
+    .slice(0, MAX_SCREENSHOTS)
+    .map(image => ({ name: image.name, data: image.data, mimeType: image.mime }))
+}
+
+/**
+ * Ask the AI which elements on the screenshots each step acts on
+ * Proposals for unknown test cases or steps, and malformed proposals, are dropped
+ */
+export async function proposeSelectors(
+  document: QACanvasDocument,
+  screenshots: Screenshot[],
+  requestId: string
+): Promise<SelectorProposal[]> {
+  const testCases = getAutomatableTestCases(document)
+  if (screenshots.length === 0 || testCases.length === 0) {
+    return []
+  }
+
+  const startTime = Date.now()
+  console.log(`🎯 [${requestId}] Proposing selectors from ${screenshots.length} screenshots...`)
+
+  const prompt = `**TASK:** Propose CSS selectors for the UI elements used by these automated test steps, based on the attached screenshots (${screenshots.map(screenshot => screenshot.name).join(', ')}).
+
+**TEST STEPS:**
+${testCases.map(testCase => `${testCase.id}: ${testCase.title}
+${testCase.steps.map((testStep, index) => `  step ${index + 1}: ${testStep.action} -> expected: ${testStep.expectedResult.replace(/\n/g, '; ')}`).join('\n')}`).join('\n')}
+
+**RULES:**
+- Only propose a selector for an element you can see on a screenshot; skip the step otherwise
+- Prefer [data-testid], then #id, [name], [aria-label] and role attributes; avoid layout classes and nth-child
+- "selector" targets the element the step's action uses; "expectedSelector" the element showing the expected result
+
+Return ONLY a JSON array of {"testCaseId": string, "step": number, "selector": string, "expectedSelector"?: string} objects.`
+
+  try {
+    const result = await generateTextWithImagesFailover(
+      prompt,
+      screenshots.map(screenshot => ({ data: screenshot.data, mimeType: screenshot.mimeType })),
+      {
+        system: 'You are a senior test automation engineer who writes stable, maintainable locators.',
+        temperature: 0.2,
+        maxTokens: 1500
+      }
+    )
+
+    const parsed = JSON.parse(result.text.trim().replace(/```json\s*/, '').replace(/```\s*$/, ''))
+    const stepCounts = new Map(testCases.map(testCase => [testCase.id, testCase.steps.length]))
+    const proposals = (Array.isArray(parsed) ? parsed : [])
+      .map(item => selectorProposalSchema.safeParse(item))
+      .filter(parsedItem => parsedItem.success)
+      .map(parsedItem => parsedItem.data as SelectorProposal)
+      .filter(proposal => proposal.step <= (stepCounts.get(proposal.testCaseId) ?? 0))
+
+    console.log(`✅ [${requestId}] ${proposals.length} selectors proposed in ${Date.now() - startTime}ms`)
+    return proposals
+  } catch (error) {
+    console.error(`❌ [${requestId}] Selector proposal failed after ${Date.now() - startTime}ms:`, error)
+    throw error
+  }
+}
@@ -519,16 +519,48 @@ function findCriteriaWithoutTests(
   criteria: AcceptanceCriterion[],
   testCases: TestCase[]
 ): AcceptanceCriterion[] {
-  return criteria.filter(criterion => {
-    // Simple heuristic: check if any test case mentions keywords from the criterion title
-    const keywords = extractKeywords(criterion.title)
-    return !testCases.some(testCase => {
-      const testCaseText = getTestCaseText(testCase)
-      return keywords.some(keyword => 
-        keyword && testCaseText.toLowerCase().includes(keyword.toLowerCase())
-      )
-    })
-  })
+  return criteria.filter(criterion => 
+    !testCases.some(testCase => testCaseCoversCriterion(testCase, criterion))
+  )
+}
+
+/**
+ * Find the acceptance criteria a test case covers
+ * Explicit coversCriteria links win; the keyword heuristic is only used for unlinked test cases
+ */
+export function findCriteriaForTestCase<C extends Pick<AcceptanceCriterion, 'id' | 'title'>>(
+  testCase: TestCase,
+  criteria: C[]
+): C[] {
+  return criteria.filter(criterion => testCaseCoversCriterion(testCase, criterion))
+}
+
+/**
+ * Check whether a test case has explicit acceptance criteria links
+ */
+export function hasExplicitCriteriaLinks(testCase: TestCase): boolean {
+  return (testCase.coversCriteria?.length ?? 0) > 0
+}
+
+/**
+ * Check if a test case covers the criterion, by explicit link or by keyword match
+ */
+function testCaseCoversCriterion(testCase: TestCase, criterion: Pick<AcceptanceCriterion, 'id' | 'title'>): boolean {
+  if (hasExplicitCriteriaLinks(testCase)) {
+    return testCase.coversCriteria!.includes(criterion.id)
+  }
+  return testCaseMentionsCriterion(testCase, criterion)
+}
+
+/**
+ * Check if a test case mentions keywords from the criterion title
+ */
+function testCaseMentionsCriterion(testCase: TestCase, criterion: Pick<AcceptanceCriterion, 'title'>): boolean {
+  const keywords = extractKeywords(criterion.title)
+  const testCaseText = getTestCaseText(testCase).toLowerCase()
+  return keywords.some(keyword => 
+    keyword && testCaseText.includes(keyword.toLowerCase())
+  )
 }
 
 /**
@@ -558,12 +590,13 @@ function getTestCaseText(testCase: TestCase): string {
       ].join(' ')
     
     case 'steps':
+      // Freshly generated test cases may omit the optional-looking lists
       return [
         testCase.testCase.title,
         testCase.testCase.objective,
-        ...testCase.testCase.preconditions,
+        ...(testCase.testCase.preconditions || []),
         ...testCase.testCase.steps.map(step => `${step.action} ${step.expectedResult}`),
-        ...testCase.testCase.postconditions
+        ...(testCase.testCase.postconditions || [])
       ].join(' ')
     
     case 'table':
@@ -642,8 +675,9 @@ function hasEdgeCaseTests(testCases: TestCase[]): boolean {
 
 /**
  * Find vague terms in text that might need clarification
+ * Terms match whole words only, so "some" does not match "something"
  */
-function findVagueTerms(text: string): string[] {
+export function findVagueTerms(text: string): string[] {
   const vagueTerms = [
     'appropriate', 'reasonable', 'adequate', 'sufficient', 'suitable',
     'effective', 'efficient', 'optimal', 'proper', 'correct',
@@ -653,7 +687,7 @@ function findVagueTerms(text: string): string[] {
   ]
   
   return vagueTerms.filter(term => 
-    text.toLowerCase().includes(term.toLowerCase())
+    new RegExp(`\\b${term}\\b`, 'i').test(text)
   )
 }
 
@@ -905,9 +939,9 @@ export async function generateSuggestions(
     
     // Call AI function
     const { generateText } = await import('ai');
-    const { openai } = await import('@ai-sdk/openai');
+    const { resolveLanguageModel } = await import('./providerRegistry');
     const aiResponse = await generateText({
-      model: openai(process.env.AI_MODEL || 'o4-mini'),
+      model: resolveLanguageModel(process.env.AI_MODEL || 'o4-mini'),
       prompt,
       tools: {
         qaSuggestionTool: {
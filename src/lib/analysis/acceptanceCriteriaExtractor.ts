@@ -0,0 +1,223 @@
+/**
+ * Acceptance Criteria Extractor
+ * Finds the acceptance criteria authors already wrote in a ticket: "Acceptance Criteria" lists,
+ * Given/When/Then blocks and checklists in the description or in acceptance criteria custom fields
+ */
+
+import type { JiraTicket } from '../schemas/JiraTicket'
+import type { AcceptanceCriterion } from '../schemas/QACanvasDocument'
+
+/**
+ * A criterion written by the ticket's author
+ */
+export interface ExtractedCriterion {
+  text: string
+  title?: string // scenario name of Given/When/Then blocks
+  format: 'list' | 'gherkin' | 'checklist' | 'text'
+  location: string // "description" or "customFields.<name>"
+  checked?: boolean // state of checklist items
+}
+
+/**
+ * Custom fields holding acceptance criteria
+ */
+const CRITERIA_FIELD = /acceptance\s*criteri(a|on)|^a\.?c\.?s?$|definition\s*of\s*done/i
+
+/**
+ * Heading opening an acceptance criteria section; text after a colon is the first criterion
+ */
+const CRITERIA_HEADING = /^\s*(?:#{1,6}\s*|h[1-6]\.\s*)?[*_]*\s*(?:acceptance\s+criteri(?:a|on)|a\.?c\.?s?|definition\s+of\s+done|dod)\b\s*[*_]*(?:\s*:\s*[*_]*\s*(.*)|\s*)$/i
+
+/**
+ * Any other heading, which closes the section
+ */
+const HEADING = /^\s*(?:#{1,6}\s+\S|h[1-6]\.\s)|^\s*[*_]{1,2}[^*_]+[*_]{1,2}:?\s*$|^\s*[A-Z][^.!?:]{0,50}:\s*$/
+
+const CHECKLIST_ITEM = /^\s*(?:[-*•+]\s*)?\[( |x|X)\]\s+(.+)$/
+const LIST_ITEM = /^\s*(?:[-*•+]|\d{1,2}[.)]|[a-z][.)])\s+(.+)$/
+const GHERKIN_STEP = /^\s*(?:[-*•+]\s+)?(given|when|then|and|but)\b\s*(.*)$/i
+const SCENARIO = /^\s*(?:[-*•+]\s+)?scenario(?:\s+outline)?\s*:\s*(.+)$/i
+
+/**
+ * Keywords used to categorize criteria that the AI did not return
+ */
+const CATEGORY_KEYWORDS: Array<{ category: AcceptanceCriterion['category']; pattern: RegExp }> = [
+  { category: 'security', pattern: /\b(password|permission|authori[sz]|authenticat|log(?:s|ged)? ?in|sign(?:s|ed)? ?in|access|token|encrypt|role)\w*/i },
+  { category: 'accessibility', pattern: /\b(screen reader|aria|keyboard|contrast|wcag|accessib)\w*/i },
+  { category: 'performance', pattern: /\b(\d+\s*(ms|milliseconds?|seconds?)|load time|latency|throughput|concurrent)\b/i },
+  { category: 'api', pattern: /\b(api|endpoint|request|response|status code|http)\b/i },
+  { category: 'negative', pattern: /\b(error|invalid|reject|fail|not allowed|cannot|can't)\w*/i },
+  { category: 'ui', pattern: /\b(button|screen|page|display|shown?|visible|modal|field|label)s?\b/i }
+]
+
+/**
+ * Share of tokens two texts must have in common to describe the same criterion
+ */
+const MATCH_THRESHOLD = 0.6
+
+/**
+ * Extract the criteria written in the ticket, in the order they appear
+ * Criteria fields are read whole; in the description, "Acceptance Criteria" sections are read until the
+ * next heading, and Given/When/Then blocks and checklists are picked up anywhere
+ */
+export function extractAcceptanceCriteria(ticket: Pick<JiraTicket, 'description' | 'customFields'>): ExtractedCriterion[] {
+  const criteria: ExtractedCriterion[] = []
+
+  Object.entries(ticket.customFields || {}).forEach(([field, value]) => {
+    if (typeof value === 'string' && CRITERIA_FIELD.test(field)) {
+      criteria.push(...parseCriteriaBlock(value.split('\n'), `customFields.${field}`))
+    }
+  })
+
+  const lines = (ticket.description || '').split('\n')
+  let outside: string[] = []
+  for (let index = 0; index < lines.length; index++) {
+    const heading = lines[index].match(CRITERIA_HEADING)
+    if (!heading) {
+      outside.push(lines[index])
+      continue
+    }
+
+    criteria.push(...parseCriteriaBlock(outside, 'description', false))
+    outside = []
+    const section = heading[1]?.trim() ? [heading[1]] : []
+    while (index + 1 < lines.length && !HEADING.test(lines[index + 1]) && !CRITERIA_HEADING.test(lines[index + 1])) {
+      section.push(lines[++index])
+    }
+    criteria.push(...parseCriteriaBlock(section, 'description'))
+  }
+  criteria.push(...parseCriteriaBlock(outside, 'description', false))
+
+  const seen = new Set<string>()
+  return criteria.filter(criterion => {
+    const key = normalize(criterion.text)
+    if (!key || seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+/**
+ * Mark each generated criterion with its provenance and add the extracted criteria the AI left out
+ * A generated criterion is from the ticket when it restates an extracted one; missing extracted criteria
+ * are appended as "must" criteria so author-written requirements are never dropped
+ */
+export function applyCriteriaProvenance<T extends Omit<AcceptanceCriterion, 'category'> & { category: string }>(
+  generated: T[],
+  extracted: ExtractedCriterion[]
+): Array<(T & Pick<AcceptanceCriterion, 'source'>) | AcceptanceCriterion> {
+  const matched = new Set<ExtractedCriterion>()
+  const criteria: Array<(T & Pick<AcceptanceCriterion, 'source'>) | AcceptanceCriterion> = generated.map(criterion => {
+    const match = extracted.find(item => !matched.has(item) && matchesCriterion(criterion, item))
+    if (match) matched.add(match)
+    return { ...criterion, source: match ? 'ticket' : 'ai' }
+  })
+
+  const ids = new Set(criteria.map(criterion => criterion.id))
+  let next = criteria.length + 1
+  extracted.filter(item => !matched.has(item)).forEach(item => {
+    while (ids.has(`ac-${next}`)) next++
+    ids.add(`ac-${next}`)
+    criteria.push(toAcceptanceCriterion(item, `ac-${next}`))
+  })
+
+  return criteria
+}
+
+/**
+ * Build a criterion from an extracted one without AI, e.g. when criteria generation failed
+ */
+export function toAcceptanceCriterion(item: ExtractedCriterion, id: string): AcceptanceCriterion {
+  return {
+    id,
+    title: item.title || truncate(item.text.split(/(?<=[.!?])\s/)[0]),
+    description: item.text,
+    priority: 'must',
+    category: CATEGORY_KEYWORDS.find(({ pattern }) => pattern.test(item.text))?.category || 'functional',
+    testable: true,
+    source: 'ticket'
+  }
+}
+
+/**
+ * Whether a generated criterion restates an extracted one
+ */
+function matchesCriterion(criterion: { title: string; description: string }, item: ExtractedCriterion): boolean {
+  const generated = tokenize(`${criterion.title} ${criterion.description}`)
+  const written = tokenize(`${item.title || ''} ${item.text}`)
+  if (generated.size === 0 || written.size === 0) return false
+  const shared = [...written].filter(token => generated.has(token)).length
+  return shared / Math.min(generated.size, written.size) >= MATCH_THRESHOLD
+}
+
+/**
+ * Parse the lines of a criteria block
+ * Inside a criteria section every list item or, without list items, every line is a criterion;
+ * elsewhere (inSection false) only Given/When/Then blocks and checklist items are
+ */
+function parseCriteriaBlock(lines: string[], location: string, inSection = true): ExtractedCriterion[] {
+  const criteria: ExtractedCriterion[] = []
+  const rest: string[] = []
+
+  for (let index = 0; index < lines.length; index++) {
+    const steps: string[] = []
+    const scenario = lines[index].match(SCENARIO)
+    let cursor = scenario ? index + 1 : index
+    while (cursor < lines.length && (GHERKIN_STEP.test(lines[cursor]) || (steps.length > 0 && /^\s+\S/.test(lines[cursor]) && !LIST_ITEM.test(lines[cursor])))) {
+      const step = lines[cursor].match(GHERKIN_STEP)
+      if (step) {
+        steps.push(`${capitalize(step[1])} ${step[2].trim()}`)
+      } else {
+        steps[steps.length - 1] += ` ${lines[cursor].trim()}`
+      }
+      cursor++
+    }
+
+    if (steps.some(step => /^then\b/i.test(step))) {
+      criteria.push({ text: steps.join(' '), title: scenario?.[1].trim(), format: 'gherkin', location })
+      index = cursor - 1
+    } else {
+      rest.push(lines[index])
+    }
+  }
+
+  const hasListItems = rest.some(line => LIST_ITEM.test(line) || CHECKLIST_ITEM.test(line))
+  let current: ExtractedCriterion | undefined
+  for (const line of rest) {
+    const checklist = line.match(CHECKLIST_ITEM)
+    const listItem = checklist ? undefined : line.match(LIST_ITEM)
+
+    if (checklist) {
+      current = { text: checklist[2].trim(), format: 'checklist', location, checked: checklist[1] !== ' ' }
+      criteria.push(current)
+    } else if (listItem && inSection) {
+      current = { text: listItem[1].trim(), format: 'list', location }
+      criteria.push(current)
+    } else if (current && /^\s+\S/.test(line)) {
+      current.text += ` ${line.trim()}`
+    } else if (!hasListItems && inSection && line.trim()) {
+      criteria.push({ text: line.trim(), format: 'text', location })
+      current = undefined
+    } else {
+      current = undefined
+    }
+  }
+
+  return criteria
+}
+
+function tokenize(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(token => token.length > 2))
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()
+}
+
+function truncate(text: string, length = 80): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text
+}
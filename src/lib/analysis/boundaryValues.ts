@@ -0,0 +1,522 @@
+/**
+ * Boundary Value Generator
+ * Extracts constrained inputs (numeric ranges, lengths, dates, enumerations, required fields) from acceptance
+ * criteria and ticket text, and turns them into table test cases with equivalence classes and boundary values
+ */
+
+import type { AcceptanceCriterion, QACanvasDocument, TestCase } from '../schemas/QACanvasDocument'
+import type { JiraTicket } from '../schemas/JiraTicket'
+
+/**
+ * Kind of constraint on an input
+ * - range: numeric value or count between min and max
+ * - length: number of characters between min and max
+ * - date: date between minDate and maxDate
+ * - enum: one of a fixed set of values
+ * - required: must not be empty
+ */
+export type InputConstraintKind = 'range' | 'length' | 'date' | 'enum' | 'required'
+
+/**
+ * Date bound, either an absolute ISO date or a number of days from the test run
+ */
+export interface DateBound {
+  date?: string
+  offsetDays?: number
+}
+
+/**
+ * A constraint on an input found in the criteria or the ticket
+ * Bounds are inclusive; exclusive bounds ("less than 10") are converted using the value's precision
+ */
+export interface InputConstraint {
+  field: string
+  kind: InputConstraintKind
+  min?: number
+  max?: number
+  step?: number // smallest increment of the value, e.g. 0.01 for amounts with cents
+  unit?: string
+  minDate?: DateBound
+  maxDate?: DateBound
+  values?: string[]
+  criteriaIds: string[] // criteria stating the constraint; empty when it comes from the ticket only
+  sources: string[] // sentences stating the constraint
+}
+
+/**
+ * Constraints found in a document and the test cases derived from them
+ */
+export interface BoundaryTestGeneration {
+  constraints: InputConstraint[]
+  testCases: TestCase[]
+}
+
+/**
+ * Text to extract constraints from, with the criterion it belongs to
+ */
+interface ConstraintText {
+  text: string
+  criterion?: AcceptanceCriterion
+}
+
+/**
+ * A row of the generated table, before it is keyed by the field name
+ */
+interface PartitionRow {
+  value: string
+  partition: string
+  technique: 'Boundary value' | 'Equivalence class'
+  accepted: boolean
+  length?: number // characters the value stands for, when it is a length sample
+}
+
+/**
+ * Length samples longer than this are described ("a" × 20000) instead of written out
+ */
+const MAX_SAMPLE_LENGTH = 1000
+
+const NUMBER = '(-?\\d+(?:[.,]\\d+)?)'
+const ISO_DATE = '(\\d{4}-\\d{2}-\\d{2})'
+const WORD = '([a-zA-Z%$€£]+)?'
+
+const LENGTH_UNITS = /^(characters?|chars?|digits?|letters?|symbols?)$/i
+const VALUE_UNITS = /^(%|percent|seconds?|secs?|minutes?|mins?|hours?|hrs?|days?|weeks?|months?|years?|ms|milliseconds?|kb|mb|gb|tb|bytes?|px|usd|eur|gbp|\$|€|£|kg|g|km|m|cm|mm)$/i
+
+const MIN_INCLUSIVE = new RegExp(`\\b(?:at least|minimum(?: of)?|min\\.?|no (?:less|fewer) than|not (?:less|fewer) than)\\s+${NUMBER}\\s*${WORD}`, 'gi')
+const MIN_EXCLUSIVE = new RegExp(`\\b(?:more|greater|larger|higher) than\\s+${NUMBER}\\s*${WORD}`, 'gi')
+const MAX_INCLUSIVE = new RegExp(`\\b(?:at most|maximum(?: of)?|max\\.?|up to|no more than|not (?:more|greater) than|(?:not|never|cannot|can't) exceed|limited to)\\s+${NUMBER}\\s*${WORD}`, 'gi')
+const MAX_EXCLUSIVE = new RegExp(`\\b(?:less|fewer|lower|smaller) than\\s+${NUMBER}\\s*${WORD}`, 'gi')
+const BETWEEN = new RegExp(`\\b(?:between|from)\\s+${NUMBER}\\s*${WORD}\\s+(?:and|to)\\s+${NUMBER}\\s*${WORD}`, 'gi')
+const DASH_RANGE = new RegExp(`(?<![\\w.-])(\\d+(?:[.,]\\d+)?)\\s*[-–]\\s*(\\d+(?:[.,]\\d+)?)(?![\\w.-])\\s*${WORD}`, 'g')
+
+const DATE_BETWEEN = new RegExp(`\\bbetween\\s+${ISO_DATE}\\s+and\\s+${ISO_DATE}`, 'gi')
+const DATE_AFTER = new RegExp(`\\b(after|later than|from|on or after|no earlier than|not before)\\s+${ISO_DATE}`, 'gi')
+const DATE_BEFORE = new RegExp(`\\b(before|earlier than|until|up to|on or before|no later than|not after)\\s+${ISO_DATE}`, 'gi')
+const RELATIVE_DATES: Array<{ pattern: RegExp; minDate?: DateBound; maxDate?: DateBound }> = [
+  { pattern: /\b(?:not in the past|today or (?:later|in the future)|on or after today)\b/i, minDate: { offsetDays: 0 } },
+  { pattern: /\b(?:not in the future|today or (?:earlier|in the past)|on or before today)\b/i, maxDate: { offsetDays: 0 } },
+  { pattern: /\b(?:in the future|future date|after today|later than today)\b/i, minDate: { offsetDays: 1 } },
+  { pattern: /\b(?:in the past|past date|before today|earlier than today)\b/i, maxDate: { offsetDays: -1 } }
+]
+
+const ENUM_PATTERNS = [
+  /\bone of\s*[:(]?\s*([^.;()]+)/gi,
+  /\beither\s+([^.;,]+?\s+or\s+[^.;,\s]+(?:\s+[^.;,\s]+)?)/gi,
+  /\b(?:allowed|supported|valid|accepted|available|possible)\s+(values|options|types|formats|statuses|roles|methods|currencies|languages)\s*(?:are|is|include|:)\s*([^.;()]+)/gi
+]
+
+const REQUIRED = /\b(?:is|are)\s+(?:required|mandatory)\b|\b(?:must not|cannot|can't|may not) be (?:empty|blank|left (?:empty|blank))\b/gi
+const REQUIRED_LIST = /\b(?:required|mandatory) fields?\s*(?:are|:)\s*([^.;()]+)/gi
+
+/**
+ * Words between a field name and its constraint ("must be", "accepts values", "length")
+ */
+const FIELD_STOP_WORDS = new Set([
+  'must', 'should', 'shall', 'can', 'cannot', 'may', 'will', 'is', 'are', 'be', 'has', 'have', 'to', 'not', 'only',
+  'accept', 'accepts', 'allow', 'allows', 'contain', 'contains', 'value', 'values', 'limited', 'restricted', 'set',
+  'length', 'of', 'a', 'an', 'the', 'field', 'needs', 'need', 'between', 'from', 'with', 'take', 'takes', 'hold', 'holds',
+  'long', 'in', 'within', 'range', 'ranges', 'always'
+])
+
+/**
+ * Words that end a field name when reading backwards from the constraint
+ */
+const FIELD_BOUNDARY_WORDS = new Set(['and', 'or', 'if', 'when', 'while', 'where', 'then', 'that', 'which', 'so', 'but', 'given', 'user', 'users', 'customer', 'customers', 'system', 'they', 'it', 'we', 'i', 'for', 'on', 'at', 'by'])
+
+/**
+ * Extract the constrained inputs stated in the acceptance criteria and, optionally, the ticket
+ * Constraints on the same input are merged, e.g. a minimum and a maximum length stated in different criteria
+ */
+export function extractInputConstraints(
+  criteria: AcceptanceCriterion[],
+  ticket?: Pick<JiraTicket, 'summary' | 'description' | 'customFields'>
+): InputConstraint[] {
+  const texts: ConstraintText[] = criteria.map(criterion => ({ text: criterion.description, criterion }))
+  if (ticket) {
+    texts.push({ text: ticket.summary }, { text: ticket.description || '' })
+    Object.values(ticket.customFields || {}).forEach(value => {
+      if (typeof value === 'string') texts.push({ text: value })
+    })
+  }
+
+  const constraints: InputConstraint[] = []
+  texts.forEach(({ text, criterion }) => {
+    splitSentences(text).forEach(sentence => {
+      extractFromSentence(sentence).forEach(constraint => mergeConstraint(constraints, {
+        ...constraint,
+        criteriaIds: criterion ? [criterion.id] : [],
+        sources: [sentence]
+      }))
+    })
+  })
+
+  return constraints
+}
+
+/**
+ * Generate boundary value and equivalence class test cases for a document
+ * One table test case is generated per constrained input, covering every constraint on it
+ */
+export function generateBoundaryTestCases(
+  document: Pick<QACanvasDocument, 'acceptanceCriteria' | 'testCases'>,
+  ticket?: Pick<JiraTicket, 'summary' | 'description' | 'customFields'>
+): BoundaryTestGeneration {
+  const constraints = extractInputConstraints(document.acceptanceCriteria, ticket)
+  const ids = new Set(document.testCases.map(testCase => testCase.id))
+  const mustCriteria = new Set(document.acceptanceCriteria.filter(criterion => criterion.priority === 'must').map(criterion => criterion.id))
+
+  const fields = new Map<string, InputConstraint[]>()
+  constraints.forEach(constraint => {
+    const key = normalizeField(constraint.field)
+    fields.set(key, [...(fields.get(key) || []), constraint])
+  })
+
+  let next = 1
+  const testCases: TestCase[] = Array.from(fields.values()).map(fieldConstraints => {
+    while (ids.has(`tc-bv-${next}`)) next++
+    const id = `tc-bv-${next++}`
+    const field = fieldConstraints[0].field
+    const criteriaIds = Array.from(new Set(fieldConstraints.flatMap(constraint => constraint.criteriaIds)))
+    const rows = dedupeRows(fieldConstraints.flatMap(buildPartitionRows))
+    const hasLength = fieldConstraints.some(constraint => constraint.kind === 'length')
+
+    return {
+      format: 'table' as const,
+      id,
+      category: 'negative',
+      priority: criteriaIds.some(criterionId => mustCriteria.has(criterionId)) ? 'high' as const : 'medium' as const,
+      coversCriteria: criteriaIds,
+      testCase: {
+        title: `${field}: boundary values and equivalence classes`,
+        description: `Enter each value into ${field} (${fieldConstraints.map(describeConstraint).join('; ')}) and check whether it is accepted`,
+        testData: rows.map(row => ({
+          [field]: row.value,
+          ...(hasLength ? { Length: String(row.length ?? row.value.length) } : {}),
+          Partition: row.partition,
+          Technique: row.technique,
+          Expected: row.accepted ? 'Accepted' : 'Rejected'
+        })),
+        expectedOutcome: `Accepted values are saved without errors; rejected values show a validation error for ${field} and are not saved`,
+        notes: `Derived from: ${Array.from(new Set(fieldConstraints.flatMap(constraint => constraint.sources))).join(' | ')}`
+      }
+    }
+  })
+
+  return { constraints, testCases }
+}
+
+/**
+ * Find the constraints stated in a sentence
+ */
+function extractFromSentence(sentence: string): Array<Omit<InputConstraint, 'criteriaIds' | 'sources'>> {
+  const found: Array<Omit<InputConstraint, 'criteriaIds' | 'sources'>> = []
+  const consumed: Array<[number, number]> = []
+  const isConsumed = (index: number) => consumed.some(([start, end]) => index >= start && index < end)
+  const consume = (match: RegExpMatchArray) => consumed.push([match.index!, match.index! + match[0].length])
+
+  // Dates first, so ISO dates are not read as numeric ranges
+  // Dates that do not exist ("2024-13-45") are skipped but still consumed, so they are not read as numbers either
+  for (const match of sentence.matchAll(DATE_BETWEEN)) {
+    consume(match)
+    if (!isValidDate(match[1]) || !isValidDate(match[2])) continue
+    found.push({ field: fieldBefore(sentence, match.index!, 'Date'), kind: 'date', minDate: { date: match[1] }, maxDate: { date: match[2] } })
+  }
+  for (const match of sentence.matchAll(DATE_AFTER)) {
+    if (isConsumed(match.index!)) continue
+    consume(match)
+    if (!isValidDate(match[2])) continue
+    const exclusive = /^(after|later than)$/i.test(match[1])
+    found.push({ field: fieldBefore(sentence, match.index!, 'Date'), kind: 'date', minDate: { date: exclusive ? addDays(match[2], 1) : match[2] } })
+  }
+  for (const match of sentence.matchAll(DATE_BEFORE)) {
+    if (isConsumed(match.index!)) continue
+    consume(match)
+    if (!isValidDate(match[2])) continue
+    const exclusive = /^(before|earlier than)$/i.test(match[1])
+    found.push({ field: fieldBefore(sentence, match.index!, 'Date'), kind: 'date', maxDate: { date: exclusive ? addDays(match[2], -1) : match[2] } })
+  }
+  for (const { pattern, minDate, maxDate } of RELATIVE_DATES) {
+    const match = sentence.match(pattern)
+    if (match && !isConsumed(match.index!)) {
+      found.push({ field: fieldBefore(sentence, match.index!, 'Date'), kind: 'date', minDate, maxDate })
+      consume(match)
+    }
+  }
+
+  const numeric = (match: RegExpMatchArray, index: number, bounds: { min?: string; max?: string }, unitWord?: string, exclusive?: 'min' | 'max') => {
+    if (isConsumed(match.index!)) return
+    consume(match)
+    const step = precisionOf(bounds.min ?? bounds.max!)
+    const unit = unitWord && (LENGTH_UNITS.test(unitWord) || VALUE_UNITS.test(unitWord)) ? unitWord.toLowerCase() : undefined
+    const nounField = unitWord && !unit && /^[a-z]{3,}$/i.test(unitWord) && !FIELD_BOUNDARY_WORDS.has(unitWord.toLowerCase()) ? capitalize(unitWord) : undefined
+    let min = bounds.min !== undefined ? parseNumber(bounds.min) : undefined
+    let max = bounds.max !== undefined ? parseNumber(bounds.max) : undefined
+    if (exclusive === 'min' && min !== undefined) min = round(min + step, step)
+    if (exclusive === 'max' && max !== undefined) max = round(max - step, step)
+
+    found.push({
+      field: nounField || fieldBefore(sentence, index, 'Value'),
+      kind: unit && LENGTH_UNITS.test(unit) ? 'length' : 'range',
+      min,
+      max,
+      step,
+      unit: unit && !LENGTH_UNITS.test(unit) ? unit : undefined
+    })
+  }
+
+  for (const match of sentence.matchAll(BETWEEN)) numeric(match, match.index!, { min: match[1], max: match[3] }, match[4] || match[2])
+  for (const match of sentence.matchAll(DASH_RANGE)) {
+    if (match[3]) numeric(match, match.index!, { min: match[1], max: match[2] }, match[3])
+  }
+  for (const match of sentence.matchAll(MIN_INCLUSIVE)) numeric(match, match.index!, { min: match[1] }, match[2])
+  for (const match of sentence.matchAll(MIN_EXCLUSIVE)) numeric(match, match.index!, { min: match[1] }, match[2], 'min')
+  for (const match of sentence.matchAll(MAX_INCLUSIVE)) numeric(match, match.index!, { max: match[1] }, match[2])
+  for (const match of sentence.matchAll(MAX_EXCLUSIVE)) numeric(match, match.index!, { max: match[1] }, match[2], 'max')
+
+  // "at least 8 and at most 64 characters" only names the unit once
+  found.forEach(constraint => {
+    if (constraint.kind === 'range' && !constraint.unit && found.some(other => other.kind === 'length' && normalizeField(other.field) === normalizeField(constraint.field))) {
+      constraint.kind = 'length'
+    }
+  })
+
+  ENUM_PATTERNS.forEach((pattern, index) => {
+    for (const match of sentence.matchAll(pattern)) {
+      const list = index === 2 ? match[2] : match[1]
+      const values = parseList(list)
+      if (values.length < 2) continue
+      found.push({ field: fieldBefore(sentence, match.index!, index === 2 ? capitalize(match[1]) : 'Value'), kind: 'enum', values })
+    }
+  })
+
+  for (const match of sentence.matchAll(REQUIRED_LIST)) {
+    parseList(match[1]).forEach(field => found.push({ field: capitalize(field), kind: 'required' }))
+  }
+  for (const match of sentence.matchAll(REQUIRED)) {
+    fieldsBefore(sentence, match.index!).forEach(field => found.push({ field, kind: 'required' }))
+  }
+
+  return found
+}
+
+/**
+ * Add a constraint, merging it into an earlier one on the same input
+ */
+function mergeConstraint(constraints: InputConstraint[], constraint: InputConstraint): void {
+  const existing = constraints.find(item =>
+    item.kind === constraint.kind &&
+    normalizeField(item.field) === normalizeField(constraint.field) &&
+    (item.kind !== 'enum' || item.values!.join('|') === constraint.values!.join('|'))
+  )
+  if (!existing) {
+    constraints.push(constraint)
+    return
+  }
+
+  existing.min ??= constraint.min
+  existing.max ??= constraint.max
+  existing.step = Math.min(existing.step ?? 1, constraint.step ?? 1)
+  existing.unit ??= constraint.unit
+  existing.minDate ??= constraint.minDate
+  existing.maxDate ??= constraint.maxDate
+  existing.criteriaIds = Array.from(new Set([...existing.criteriaIds, ...constraint.criteriaIds]))
+  existing.sources = Array.from(new Set([...existing.sources, ...constraint.sources]))
+}
+
+/**
+ * Equivalence classes and boundary values of a constraint
+ */
+function buildPartitionRows(constraint: InputConstraint): PartitionRow[] {
+  const row = (value: string, partition: string, accepted: boolean, technique: PartitionRow['technique'] = 'Boundary value', length?: number): PartitionRow =>
+    ({ value, partition, technique, accepted, ...(length !== undefined ? { length } : {}) })
+
+  switch (constraint.kind) {
+    case 'range':
+    case 'length': {
+      const step = constraint.kind === 'length' ? 1 : constraint.step ?? 1
+      const boundary = (value: number, partition: string, accepted: boolean, technique?: PartitionRow['technique']) => constraint.kind === 'length'
+        ? row(sampleText(value), partition, accepted, technique, Math.max(0, value))
+        : row(formatNumber(value, step), partition, accepted, technique)
+      const { min, max } = constraint
+      const rows: PartitionRow[] = []
+      if (min !== undefined) {
+        if (constraint.kind === 'range' || min > 0) rows.push(boundary(round(min - step, step), 'Below minimum', false))
+        rows.push(boundary(min, 'Minimum', true), boundary(round(min + step, step), 'Just above minimum', true))
+      }
+      const typical = min !== undefined && max !== undefined
+        ? round(min + Math.floor((max - min) / 2 / step) * step, step)
+        : max !== undefined ? round(Math.floor(max / 2 / step) * step, step) : round(min! + 10 * step, step)
+      rows.push(boundary(typical, min !== undefined && max !== undefined ? 'Within range' : 'Typical valid value', true, 'Equivalence class'))
+      if (max !== undefined) {
+        rows.push(boundary(round(max - step, step), 'Just below maximum', true), boundary(max, 'Maximum', true), boundary(round(max + step, step), 'Above maximum', false))
+      }
+      return rows
+    }
+    case 'date': {
+      const { minDate, maxDate } = constraint
+      const rows: PartitionRow[] = []
+      if (minDate) {
+        rows.push(row(formatDate(minDate, -1), 'Day before earliest date', false), row(formatDate(minDate, 0), 'Earliest date', true), row(formatDate(minDate, 1), 'Day after earliest date', true))
+      }
+      if (maxDate) {
+        rows.push(row(formatDate(maxDate, -1), 'Day before latest date', true), row(formatDate(maxDate, 0), 'Latest date', true), row(formatDate(maxDate, 1), 'Day after latest date', false))
+      }
+      return rows
+    }
+    case 'enum':
+      return [
+        ...constraint.values!.map(value => row(value, `Allowed value "${value}"`, true, 'Equivalence class')),
+        row(`${constraint.values![0]}-invalid`, 'Value outside the allowed set', false, 'Equivalence class')
+      ]
+    case 'required':
+      return [
+        row(`Sample ${constraint.field.toLowerCase()}`, 'Value provided', true, 'Equivalence class'),
+        row('', 'Empty', false),
+        row('   ', 'Whitespace only', false, 'Equivalence class')
+      ]
+  }
+}
+
+function describeConstraint(constraint: InputConstraint): string {
+  const unit = constraint.kind === 'length' ? ' characters' : constraint.unit ? ` ${constraint.unit}` : ''
+  switch (constraint.kind) {
+    case 'range':
+    case 'length':
+      if (constraint.min !== undefined && constraint.max !== undefined) return `${constraint.min} to ${constraint.max}${unit}`
+      return constraint.min !== undefined ? `at least ${constraint.min}${unit}` : `at most ${constraint.max}${unit}`
+    case 'date':
+      return [
+        constraint.minDate && `on or after ${formatDate(constraint.minDate, 0)}`,
+        constraint.maxDate && `on or before ${formatDate(constraint.maxDate, 0)}`
+      ].filter(Boolean).join(' and ')
+    case 'enum':
+      return `one of ${constraint.values!.join(', ')}`
+    case 'required':
+      return 'required'
+  }
+}
+
+/**
+ * Read the input name before a constraint, e.g. "Password" in "Password must be at least 8 characters"
+ * Falls back to the subject of the sentence, e.g. "Username" in "Username is required and must be 3-20 characters"
+ */
+function fieldBefore(sentence: string, index: number, fallback: string): string {
+  const words = sentence.slice(0, index).replace(/^[\s\-*•\d.)]+/, '').split(/\s+/).filter(Boolean)
+  const isFieldWord = (word: string) => word.length > 0 && !FIELD_BOUNDARY_WORDS.has(word.toLowerCase()) && !FIELD_STOP_WORDS.has(word.toLowerCase())
+
+  const field: string[] = []
+  let end = words.length
+  while (end > 0 && FIELD_STOP_WORDS.has(stripPunctuation(words[end - 1]).toLowerCase())) end--
+  for (let position = end - 1; position >= 0 && field.length < 3; position--) {
+    const word = stripPunctuation(words[position])
+    if (!isFieldWord(word) || (field.length > 0 && /[,:;]$/.test(words[position]))) break
+    field.unshift(word)
+  }
+
+  // Nothing right before the constraint: use the subject at the start of the sentence
+  if (field.length === 0) {
+    const start = words.length > 0 && /^(the|a|an)$/i.test(words[0]) ? 1 : 0
+    for (let position = start; position < words.length && field.length < 3; position++) {
+      const word = stripPunctuation(words[position])
+      if (!isFieldWord(word)) break
+      field.push(word)
+      if (/[,:;]$/.test(words[position])) break
+    }
+  }
+
+  return field.length > 0 ? capitalize(field.join(' ')) : fallback
+}
+
+/**
+ * Read one or more input names before "is required" / "are required", e.g. "Name and email are required"
+ */
+function fieldsBefore(sentence: string, index: number): string[] {
+  const prefix = sentence.slice(0, index).replace(/^[\s\-*•\d.)]+/, '').replace(/\b(the|a|an)\s+/gi, '')
+  const list = prefix.split(/[;:]|\b(?:if|when|while|where|then)\b/i).pop() || ''
+  return parseList(list)
+    .map(item => fieldBefore(item, item.length, ''))
+    .filter(Boolean)
+}
+
+function parseList(list: string): string[] {
+  return list
+    .split(/\s*,\s*|\s+or\s+|\s+and\s+|\s*\/\s*/i)
+    .map(item => item.trim().replace(/^["'`“”‘’]+|["'`“”‘’.]+$/g, '').trim())
+    .filter(item => item.length > 0 && item.split(/\s+/).length <= 4)
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/\n+|(?<=[.!?])\s+(?=[A-Z"“])/)
+    .map(sentence => sentence.trim())
+    .filter(Boolean)
+}
+
+function dedupeRows(rows: PartitionRow[]): PartitionRow[] {
+  const seen = new Set<string>()
+  return rows.filter(row => {
+    if (seen.has(row.value)) return false
+    seen.add(row.value)
+    return true
+  })
+}
+
+function normalizeField(field: string): string {
+  return field.toLowerCase().replace(/[^a-z0-9]+/g, '').replace(/s$/, '')
+}
+
+function parseNumber(value: string): number {
+  return Number(value.replace(',', '.'))
+}
+
+function precisionOf(value: string): number {
+  const decimals = value.split(/[.,]/)[1]?.length || 0
+  return decimals > 0 ? Math.pow(10, -decimals) : 1
+}
+
+function round(value: number, step: number): number {
+  const decimals = Math.max(0, -Math.floor(Math.log10(step)))
+  return Number(value.toFixed(decimals))
+}
+
+function formatNumber(value: number, step: number): string {
+  return value.toFixed(Math.max(0, -Math.floor(Math.log10(step))))
+}
+
+function sampleText(length: number): string {
+  return length > MAX_SAMPLE_LENGTH ? `"a" × ${length}` : 'a'.repeat(Math.max(0, length))
+}
+
+/**
+ * Whether an ISO date exists on the calendar; "2024-02-30" does not
+ */
+function isValidDate(date: string): boolean {
+  const value = new Date(`${date}T00:00:00.000Z`)
+  return !Number.isNaN(value.getTime()) && value.toISOString().slice(0, 10) === date
+}
+
+function addDays(date: string, days: number): string {
+  const value = new Date(`${date}T00:00:00.000Z`)
+  value.setUTCDate(value.getUTCDate() + days)
+  return value.toISOString().slice(0, 10)
+}
+
+/**
+ * Format a date bound moved by some days; relative bounds stay relative ("today", "today + 2 days")
+ */
+function formatDate(bound: DateBound, days: number): string {
+  if (bound.date) return addDays(bound.date, days)
+  const offset = (bound.offsetDays ?? 0) + days
+  if (offset === 0) return 'today'
+  if (offset === 1) return 'tomorrow'
+  if (offset === -1) return 'yesterday'
+  return `today ${offset > 0 ? '+' : '-'} ${Math.abs(offset)} days`
+}
+
+function stripPunctuation(word: string): string {
+  return word.replace(/^["'`(“‘]+|["'`)”’.!?,:;]+$/g, '')
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
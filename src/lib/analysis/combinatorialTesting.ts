@@ -0,0 +1,370 @@
+/**
+ * Combinatorial Test Generator
+ * Builds a small set of configuration rows covering every pair (or every t-way combination) of parameter values,
+ * respecting constraints between parameters, and reports the coverage achieved
+ */
+
+import type { AcceptanceCriterion, QACanvasDocument, TestCase } from '../schemas/QACanvasDocument'
+import type { JiraTicket } from '../schemas/JiraTicket'
+import { extractInputConstraints } from './boundaryValues'
+
+/**
+ * A configuration option and the values to combine
+ */
+export interface CombinationParameter {
+  name: string
+  values: string[]
+  criteriaIds?: string[] // criteria listing the values, when extracted
+}
+
+/**
+ * Constraint between parameters, with values given as one value or a list of alternatives
+ * Without "then", the "when" combination is not allowed; with "then", rows matching "when" must also match "then"
+ * e.g. { when: { Browser: 'Safari' }, then: { OS: ['macOS', 'iOS'] } }
+ */
+export interface CombinationConstraint {
+  when: Record<string, string | string[]>
+  then?: Record<string, string | string[]>
+}
+
+export interface CombinationOptions {
+  strength?: number // 2 for pairwise; up to the number of parameters
+  constraints?: CombinationConstraint[]
+}
+
+/**
+ * How well the rows cover the t-way combinations
+ */
+export interface CombinationCoverage {
+  strength: number
+  parameters: number
+  rows: number
+  exhaustiveCombinations: number // rows needed to test every combination
+  totalTuples: number // t-way value combinations allowed by the constraints
+  coveredTuples: number
+  excludedTuples: number // t-way value combinations ruled out by the constraints
+  coveragePercent: number
+  reductionPercent: number // rows saved compared to exhaustive testing
+}
+
+export interface CombinationResult {
+  rows: Array<Record<string, string>>
+  coverage: CombinationCoverage
+}
+
+/**
+ * Raised when parameters or constraints cannot be combined, e.g. a constraint naming an unknown value
+ */
+export class CombinationInputError extends Error {
+  constructor(message: string, public issues: string[]) {
+    super(message)
+    this.name = 'CombinationInputError'
+  }
+}
+
+/**
+ * Upper bound on the t-way combinations to cover, which keeps n-wise requests on large inputs bounded
+ */
+export const MAX_COMBINATION_TUPLES = 100000
+
+/**
+ * Upper bound on the partial rows tried when completing one combination, which keeps contradictory constraints bounded
+ */
+const MAX_COMPLETION_STEPS = 1000
+
+/**
+ * A partial row: value index per parameter, -1 when unassigned
+ */
+type Assignment = number[]
+
+/**
+ * Generate rows covering every t-way combination of parameter values allowed by the constraints
+ * Rows are built greedily: each starts from the first uncovered combination and fills the remaining
+ * parameters with the value covering the most uncovered combinations, so the result is deterministic
+ * A combination is only counted as excluded when no choice of the remaining values gives an allowed row
+ */
+export function generateCombinations(parameters: CombinationParameter[], options: CombinationOptions = {}): CombinationResult {
+  const strength = options.strength ?? 2
+  const constraints = options.constraints ?? []
+  validateInput(parameters, strength, constraints)
+
+  const valueIndex = (parameter: number, value: string) => parameters[parameter].values.indexOf(value)
+  const compiled = constraints.map(constraint => ({
+    when: compileCondition(constraint.when),
+    then: constraint.then ? compileCondition(constraint.then) : undefined
+  }))
+
+  function compileCondition(condition: Record<string, string | string[]>): Array<[number, Set<number>]> {
+    return Object.entries(condition).map(([name, values]) => {
+      const parameter = parameters.findIndex(item => item.name === name)
+      return [parameter, new Set((Array.isArray(values) ? values : [values]).map(value => valueIndex(parameter, value)))]
+    })
+  }
+
+  // A partial row is allowed unless it already breaks a constraint whose parameters are all assigned
+  const isAllowed = (row: Assignment): boolean => compiled.every(({ when, then }) => {
+    if (!when.every(([parameter, values]) => row[parameter] !== -1 && values.has(row[parameter]))) return true
+    if (!then) return false
+    return then.every(([parameter, values]) => row[parameter] === -1 || values.has(row[parameter]))
+  })
+
+  // Counted before any parameter set is built; there are never more sets than combinations
+  const totalPossible = countTuples(parameters.map(parameter => parameter.values.length), strength)
+  if (totalPossible > MAX_COMBINATION_TUPLES) {
+    throw new CombinationInputError('Too many combinations to cover', [`${totalPossible} ${strength}-way combinations exceed the limit of ${MAX_COMBINATION_TUPLES}; lower the strength or the number of values`])
+  }
+  const parameterSets = combinationsOf(parameters.map((_, index) => index), strength)
+
+  // Every t-way combination, keyed by its parameters and values
+  const uncovered = new Map<string, Assignment>()
+  let excludedTuples = 0
+  parameterSets.forEach(set => {
+    valueCombinations(set.map(parameter => parameters[parameter].values.length)).forEach(values => {
+      const row: Assignment = parameters.map(() => -1)
+      set.forEach((parameter, position) => { row[parameter] = values[position] })
+      if (isAllowed(row)) {
+        uncovered.set(tupleKey(set, row), row)
+      } else {
+        excludedTuples++
+      }
+    })
+  })
+
+  const newlyCovered = (row: Assignment, parameter: number): number => parameterSets
+    .filter(set => set.includes(parameter) && set.every(item => row[item] !== -1))
+    .filter(set => uncovered.has(tupleKey(set, row)))
+    .length
+
+  // Fill the unassigned parameters, trying the value covering the most uncovered combinations first
+  // and backtracking when the constraints leave a later parameter without an allowed value
+  const completeRow = (row: Assignment, parameter: number, search: { steps: number }): boolean => {
+    if (parameter === parameters.length) return true
+    if (row[parameter] !== -1) return completeRow(row, parameter + 1, search)
+
+    if (++search.steps > MAX_COMPLETION_STEPS) {
+      throw new CombinationInputError('Constraints are too complex to satisfy', [`No allowed row found within ${MAX_COMPLETION_STEPS} steps; simplify the constraints`])
+    }
+
+    const candidates = parameters[parameter].values
+      .map((_, value) => {
+        row[parameter] = value
+        const candidate = isAllowed(row) ? { value, score: newlyCovered(row, parameter) } : undefined
+        row[parameter] = -1
+        return candidate
+      })
+      .filter((candidate): candidate is { value: number; score: number } => candidate !== undefined)
+      .sort((a, b) => b.score - a.score)
+
+    for (const { value } of candidates) {
+      row[parameter] = value
+      if (completeRow(row, parameter + 1, search)) return true
+    }
+    row[parameter] = -1
+    return false
+  }
+
+  const rows: Assignment[] = []
+  let coveredTuples = 0
+  while (uncovered.size > 0) {
+    const [seedKey, seed] = uncovered.entries().next().value as [string, Assignment]
+    const row = [...seed]
+
+    // The seed combination cannot be completed into an allowed row, so it is excluded as well
+    if (!completeRow(row, 0, { steps: 0 })) {
+      uncovered.delete(seedKey)
+      excludedTuples++
+      continue
+    }
+
+    parameterSets.forEach(set => {
+      if (uncovered.delete(tupleKey(set, row))) coveredTuples++
+    })
+    rows.push(row)
+  }
+
+  const totalTuples = totalPossible - excludedTuples
+  const exhaustiveCombinations = parameters.reduce((product, parameter) => product * parameter.values.length, 1)
+
+  return {
+    rows: rows.map(row => Object.fromEntries(parameters.map((parameter, index) => [parameter.name, parameter.values[row[index]]]))),
+    coverage: {
+      strength,
+      parameters: parameters.length,
+      rows: rows.length,
+      exhaustiveCombinations,
+      totalTuples,
+      coveredTuples,
+      excludedTuples,
+      coveragePercent: totalTuples > 0 ? Math.round((coveredTuples / totalTuples) * 1000) / 10 : 0,
+      reductionPercent: exhaustiveCombinations > 0 ? Math.round((1 - rows.length / exhaustiveCombinations) * 1000) / 10 : 0
+    }
+  }
+}
+
+/**
+ * Find configuration parameters in the criteria and ticket
+ * Allowed-value lists in the criteria ("one of Admin, Editor or Viewer") and "Name: value, value" lines
+ * in the ticket become parameters; feature flags mentioned in the ticket become on/off parameters
+ */
+export function extractCombinationParameters(
+  criteria: AcceptanceCriterion[],
+  ticket?: Pick<JiraTicket, 'summary' | 'description' | 'customFields'>
+): CombinationParameter[] {
+  const parameters: CombinationParameter[] = []
+  const add = (name: string, values: string[], criteriaIds: string[] = []) => {
+    const unique = Array.from(new Set(values))
+    if (unique.length < 2 || parameters.some(parameter => parameter.name.toLowerCase() === name.toLowerCase())) return
+    parameters.push({ name, values: unique, criteriaIds })
+  }
+
+  extractInputConstraints(criteria, ticket)
+    .filter(constraint => constraint.kind === 'enum')
+    .forEach(constraint => add(constraint.field, constraint.values!, constraint.criteriaIds))
+
+  if (ticket) {
+    const texts = [ticket.description || '', ...Object.values(ticket.customFields || {}).filter((value): value is string => typeof value === 'string')]
+    texts.forEach(text => {
+      for (const match of text.matchAll(/^[ \t]*(?:[-*•][ \t]+)?(?:[Ss]upported[ \t]+|[Aa]ll[ \t]+)?([A-Za-z][\w -]{0,30}?)[ \t]*[:=][ \t]+([^\n:]+)$/gm)) {
+        const values = match[2].split(/\s*[,;|/]\s*|\s+(?:and|or)\s+/).map(value => value.trim().replace(/^[`"']|[`"'.]$/g, '')).filter(Boolean)
+        if (values.length >= 2 && values.length <= 12 && values.every(value => value.split(/\s+/).length <= 3)) {
+          add(capitalize(match[1].trim()), values)
+        }
+      }
+      for (const match of text.matchAll(/\b(?:feature[ -]flag|flag|toggle)\s+[`"']?([\w.-]+[\w])[`"']?/gi)) {
+        add(match[1], ['on', 'off'])
+      }
+    })
+  }
+
+  return parameters
+}
+
+/**
+ * Build a table test case whose rows cover every t-way combination of the parameters
+ * Parameters are extracted from the document and ticket when none are supplied
+ */
+export function generateCombinatorialTestCase(input: {
+  parameters?: CombinationParameter[]
+  constraints?: CombinationConstraint[]
+  strength?: number
+  document?: Pick<QACanvasDocument, 'acceptanceCriteria' | 'testCases'>
+  ticket?: Pick<JiraTicket, 'summary' | 'description' | 'customFields'>
+  title?: string
+  expectedOutcome?: string
+}): { parameters: CombinationParameter[]; testCase: TestCase; coverage: CombinationCoverage } {
+  const parameters = input.parameters && input.parameters.length > 0
+    ? input.parameters
+    : extractCombinationParameters(input.document?.acceptanceCriteria || [], input.ticket)
+  const constraints = input.constraints || []
+  const { rows, coverage } = generateCombinations(parameters, { strength: input.strength, constraints })
+
+  const ids = new Set((input.document?.testCases || []).map(testCase => testCase.id))
+  let next = 1
+  while (ids.has(`tc-combo-${next}`)) next++
+
+  const names = parameters.map(parameter => parameter.name)
+  const technique = coverage.strength === 2 ? 'pairwise' : `${coverage.strength}-wise`
+  const coversCriteria = Array.from(new Set(parameters.flatMap(parameter => parameter.criteriaIds || [])))
+
+  const testCase: TestCase = {
+    format: 'table',
+    id: `tc-combo-${next}`,
+    category: 'functional',
+    priority: 'medium',
+    coversCriteria: coversCriteria.length > 0 ? coversCriteria : undefined,
+    testCase: {
+      title: input.title || `${names.join(' × ')}: ${technique} combinations`,
+      description: `Covers every ${coverage.strength}-way combination of ${names.join(', ')} in ${coverage.rows} rows instead of ${coverage.exhaustiveCombinations} exhaustive combinations`,
+      testData: rows.map((row, index) => ({ Case: String(index + 1), ...row })),
+      expectedOutcome: input.expectedOutcome || 'The feature behaves as specified in every configuration',
+      notes: constraints.length > 0 ? `Constraints: ${constraints.map(describeConstraint).join('; ')}` : ''
+    }
+  }
+
+  return { parameters, testCase, coverage }
+}
+
+function describeConstraint(constraint: CombinationConstraint): string {
+  const describe = (condition: Record<string, string | string[]>) => Object.entries(condition)
+    .map(([name, values]) => `${name} = ${Array.isArray(values) ? values.join(' or ') : values}`)
+    .join(' and ')
+  return constraint.then ? `if ${describe(constraint.when)} then ${describe(constraint.then)}` : `not ${describe(constraint.when)}`
+}
+
+function validateInput(parameters: CombinationParameter[], strength: number, constraints: CombinationConstraint[]): void {
+  const issues: string[] = []
+  if (parameters.length < 2) issues.push('At least two parameters are required')
+  if (!Number.isInteger(strength) || strength < 2 || strength > Math.max(2, parameters.length)) {
+    issues.push(`Strength must be an integer between 2 and the number of parameters (${parameters.length})`)
+  }
+
+  const names = new Set<string>()
+  parameters.forEach(parameter => {
+    if (names.has(parameter.name)) issues.push(`Parameter "${parameter.name}" is defined twice`)
+    names.add(parameter.name)
+    if (parameter.values.length === 0) issues.push(`Parameter "${parameter.name}" has no values`)
+    if (new Set(parameter.values).size !== parameter.values.length) issues.push(`Parameter "${parameter.name}" has duplicate values`)
+  })
+
+  constraints.forEach((constraint, index) => {
+    [...Object.entries(constraint.when), ...Object.entries(constraint.then || {})].forEach(([name, values]) => {
+      const parameter = parameters.find(item => item.name === name)
+      if (!parameter) {
+        issues.push(`Constraint ${index} refers to unknown parameter "${name}"`)
+        return
+      }
+      (Array.isArray(values) ? values : [values])
+        .filter(value => !parameter.values.includes(value))
+        .forEach(value => issues.push(`Constraint ${index} refers to unknown value "${value}" of "${name}"`))
+    })
+  })
+
+  if (issues.length > 0) {
+    throw new CombinationInputError('Invalid combination parameters', issues)
+  }
+}
+
+/**
+ * Number of t-way value combinations across all parameter sets of the given size, without enumerating the sets
+ * counts[k] is the number of k-way combinations among the parameters seen so far
+ */
+function countTuples(sizes: number[], strength: number): number {
+  const counts = [1, ...Array<number>(strength).fill(0)]
+  sizes.forEach(size => {
+    for (let k = strength; k > 0; k--) {
+      counts[k] += counts[k - 1] * size
+    }
+  })
+  return counts[strength]
+}
+
+/**
+ * All subsets of the given size, in order
+ */
+function combinationsOf(items: number[], size: number): number[][] {
+  if (size === 0) return [[]]
+  if (items.length < size) return []
+  const [first, ...rest] = items
+  return [
+    ...combinationsOf(rest, size - 1).map(subset => [first, ...subset]),
+    ...combinationsOf(rest, size)
+  ]
+}
+
+/**
+ * Every combination of value indexes for parameters with the given numbers of values
+ */
+function valueCombinations(sizes: number[]): number[][] {
+  return sizes.reduce<number[][]>(
+    (combinations, size) => combinations.flatMap(combination => Array.from({ length: size }, (_, value) => [...combination, value])),
+    [[]]
+  )
+}
+
+function tupleKey(set: number[], row: Assignment): string {
+  return set.map(parameter => `${parameter}=${row[parameter]}`).join('&')
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1)
+}
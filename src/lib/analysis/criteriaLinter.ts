@@ -0,0 +1,239 @@
+/**
+ * Acceptance Criteria Linter
+ * Scores acceptance criteria against testability rules and suggests rewrites for the findings
+ */
+
+import type { AcceptanceCriterion, CriteriaLintSummary } from '../schemas/QACanvasDocument'
+import { findVagueTerms } from '../ai/suggestionAlgorithms'
+
+/**
+ * Testability rules
+ * - vague_term: terms open to interpretation ("appropriate", "fast", "some")
+ * - untestable_term: subjective qualities with no pass/fail condition ("user-friendly", "intuitive")
+ * - missing_threshold: performance or limit requirements without a number
+ * - compound: several requirements in one criterion, or an ambiguous "and/or"
+ * - passive_without_actor: passive voice that does not say who or what acts
+ */
+export type CriteriaLintRule = 'vague_term' | 'untestable_term' | 'missing_threshold' | 'compound' | 'passive_without_actor'
+
+export type CriteriaLintSeverity = 'high' | 'medium' | 'low'
+
+/**
+ * A rule violation in a criterion
+ */
+export interface CriteriaLintFinding {
+  rule: CriteriaLintRule
+  severity: CriteriaLintSeverity
+  message: string
+  excerpt: string // offending words of the criterion
+  suggestion: string
+}
+
+/**
+ * Lint result of a single criterion
+ */
+export interface CriterionLintResult {
+  criterionId: string
+  title: string
+  score: number // 100 for a criterion without findings
+  findings: CriteriaLintFinding[]
+  suggestedRewrite?: string // description with placeholders for the values to fill in, or the split criteria
+}
+
+/**
+ * Lint results of a set of criteria
+ */
+export interface CriteriaLintReport {
+  criteria: CriterionLintResult[]
+  summary: CriteriaLintSummary
+}
+
+/**
+ * Score deducted per finding
+ */
+const SEVERITY_PENALTIES: Record<CriteriaLintSeverity, number> = { high: 30, medium: 15, low: 5 }
+
+/**
+ * Subjective terms that cannot be verified
+ */
+const UNTESTABLE_TERMS = [
+  'user-friendly', 'user friendly', 'intuitive', 'easy', 'easily', 'simple', 'seamless', 'seamlessly',
+  'robust', 'flexible', 'nice', 'clean', 'modern', 'smooth', 'smoothly', 'good', 'better', 'improved',
+  'best', 'beautiful', 'convenient', 'state of the art'
+]
+
+/**
+ * Placeholder replacing a vague term in the suggested rewrite, by term
+ */
+const VAGUE_TERM_PLACEHOLDERS: Record<string, string> = {
+  fast: 'within <N> seconds',
+  quick: 'within <N> seconds',
+  slow: 'after more than <N> seconds',
+  large: '<exact size>',
+  small: '<exact size>',
+  many: '<exact number>',
+  few: '<exact number>',
+  several: '<exact number>',
+  some: '<exact number of>',
+  most: '<N>% of',
+  various: '<listed>',
+  etc: '<remaining cases listed>',
+  'and so on': '<remaining cases listed>',
+  'and more': '<remaining cases listed>'
+}
+
+/**
+ * Words announcing a measurable requirement
+ */
+const THRESHOLD_WORDS = /\b(performance|response time|load time|latency|throughput|timeout|within|limit(?:ed)?|maximum|minimum|max|min|at least|at most|up to|no more than|concurrent|scal(?:e|es|able))\b/i
+
+/**
+ * A number, optionally with a unit
+ */
+const NUMBER = /\b\d+(?:[.,]\d+)?\b|\b(one|two|three|four|five|six|seven|eight|nine|ten|hundred|thousand)\b/i
+
+/**
+ * Clause stating a requirement of its own: it has a modal or "to be", or a subject followed by more words
+ */
+const REQUIREMENT_CLAUSE = /\b(must|should|shall|will|can(?:not)?|is|are)\b|^(?:the|a|an|each|every|all|no|it|they|this|users?|system)\s+\S+\s+\S+/i
+
+const PASSIVE_VOICE = /\b(?:is|are|was|were|be|been|being|gets?|got)\s+(?:\w+ly\s+)?(\w+ed|shown|sent|seen|done|made|known|written|taken|hidden|chosen|given|kept|set|read|paid)\b/i
+
+/**
+ * Lint the acceptance criteria of a document
+ */
+export function lintAcceptanceCriteria(criteria: AcceptanceCriterion[]): CriteriaLintReport {
+  const results = criteria.map(lintCriterion)
+  return { criteria: results, summary: summarizeLint(results) }
+}
+
+/**
+ * Lint a single criterion
+ */
+export function lintCriterion(criterion: AcceptanceCriterion): CriterionLintResult {
+  const text = criterion.description
+  const findings: CriteriaLintFinding[] = []
+
+  const untestable = findTerms(text, UNTESTABLE_TERMS)
+  untestable.forEach(term => findings.push({
+    rule: 'untestable_term',
+    severity: 'high',
+    message: `"${term}" is subjective and has no pass/fail condition`,
+    excerpt: term,
+    suggestion: `Replace "${term}" with an observable result, e.g. what the user sees or how many steps the task takes`
+  }))
+
+  // "at most" and "most recent" are precise, unlike "most users"
+  findVagueTerms(text.replace(/\b(at most|most recent(ly)?)\b/gi, '')).forEach(term => findings.push({
+    rule: 'vague_term',
+    severity: 'medium',
+    message: `"${term}" is open to interpretation`,
+    excerpt: term,
+    suggestion: VAGUE_TERM_PLACEHOLDERS[term]
+      ? `Replace "${term}" with a measurable value, e.g. "${VAGUE_TERM_PLACEHOLDERS[term]}"`
+      : `Replace "${term}" with the exact expected behaviour`
+  }))
+
+  const thresholdWord = text.match(THRESHOLD_WORDS)
+  if ((criterion.category === 'performance' || thresholdWord) && !NUMBER.test(text)) {
+    findings.push({
+      rule: 'missing_threshold',
+      severity: 'medium',
+      message: 'The criterion sets a limit or performance goal without a measurable value',
+      excerpt: thresholdWord?.[0] || criterion.title,
+      suggestion: 'Add a number with its unit, e.g. "within 2 seconds for 95% of requests" or "at most 5 attempts"'
+    })
+  }
+
+  const clauses = splitClauses(text)
+  const andOr = text.match(/\band\/or\b/i)
+  if (andOr || clauses.length > 1) {
+    findings.push({
+      rule: 'compound',
+      severity: andOr ? 'medium' : 'low',
+      message: andOr
+        ? '"and/or" leaves open whether one or both conditions must hold'
+        : `The criterion combines ${clauses.length} requirements that can pass or fail independently`,
+      excerpt: andOr?.[0] || clauses.map(clause => clause.split(/\s+/).slice(0, 4).join(' ')).join(' / '),
+      suggestion: andOr ? 'State whether both conditions or either one must hold' : 'Split it into one criterion per requirement'
+    })
+  }
+
+  const passive = text.match(PASSIVE_VOICE)
+  if (passive && !/\bby\s+(?:the\s+|a\s+|an\s+)?\w+/i.test(text.slice(passive.index))) {
+    findings.push({
+      rule: 'passive_without_actor',
+      severity: 'low',
+      message: `"${passive[0]}" does not say who or what performs the action`,
+      excerpt: passive[0],
+      suggestion: 'Name the actor, e.g. "the system", "the API" or "the user", as the subject'
+    })
+  }
+
+  const score = Math.max(0, 100 - findings.reduce((total, finding) => total + SEVERITY_PENALTIES[finding.severity], 0))
+
+  return {
+    criterionId: criterion.id,
+    title: criterion.title,
+    score,
+    findings,
+    suggestedRewrite: suggestRewrite(text, findings, clauses)
+  }
+}
+
+/**
+ * Summarize lint results, e.g. for the document metadata
+ */
+export function summarizeLint(results: CriterionLintResult[]): CriteriaLintSummary {
+  const findings = results.flatMap(result => result.findings)
+  const countOf = (severity: CriteriaLintSeverity) => findings.filter(finding => finding.severity === severity).length
+
+  return {
+    totalCriteria: results.length,
+    averageScore: results.length > 0
+      ? Math.round(results.reduce((total, result) => total + result.score, 0) / results.length)
+      : 100,
+    criteriaWithFindings: results.filter(result => result.findings.length > 0).map(result => result.criterionId),
+    findings: { high: countOf('high'), medium: countOf('medium'), low: countOf('low') }
+  }
+}
+
+/**
+ * Split a criterion into clauses joined by "and", "or" or semicolons that each state a requirement
+ * Only lower-case conjunctions split, so Given/When/Then "And" steps stay together
+ */
+function splitClauses(text: string): string[] {
+  const clauses = text.split(/\s*;\s*|,?\s+(?:and|or)\s+/)
+  const requirements = clauses.filter(clause => REQUIREMENT_CLAUSE.test(clause))
+  return requirements.length > 1 && requirements.length === clauses.length ? clauses.map(clause => clause.trim()) : []
+}
+
+/**
+ * Rewrite a criterion with placeholders for vague and untestable terms, or split compound criteria
+ */
+function suggestRewrite(text: string, findings: CriteriaLintFinding[], clauses: string[]): string | undefined {
+  if (findings.length === 0) return undefined
+
+  let rewrite = text
+  findings.forEach(finding => {
+    const pattern = new RegExp(`\\b${escapeRegExp(finding.excerpt)}\\b`, 'i')
+    if (finding.rule === 'vague_term') {
+      rewrite = rewrite.replace(pattern, VAGUE_TERM_PLACEHOLDERS[finding.excerpt.toLowerCase()] || '<exact expected behaviour>')
+    } else if (finding.rule === 'untestable_term') {
+      rewrite = rewrite.replace(pattern, '<observable result>')
+    }
+  })
+
+  if (clauses.length > 1 && rewrite === text) {
+    return clauses.map(clause => `- ${clause.charAt(0).toUpperCase()}${clause.slice(1)}`).join('\n')
+  }
+  return rewrite === text ? undefined : rewrite
+}
+
+function findTerms(text: string, terms: string[]): string[] {
+  return terms.filter(term => new RegExp(`\\b${escapeRegExp(term)}\\b`, 'i').test(text))
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
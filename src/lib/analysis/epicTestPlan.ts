@@ -0,0 +1,486 @@
+/**
+ * Epic Test Plan Service
+ * Consolidates the QA documents of an epic and its stories into one release-level test plan
+ */
+
+import type { JiraTicket } from '../schemas/JiraTicket'
+import type { QACanvasDocument, TestCase } from '../schemas/QACanvasDocument'
+import type { EndToEndPlanResponse } from '../ai/sectionGenerators'
+import { analyzeCoverageGaps } from '../ai/suggestionAlgorithms'
+import { getTestCaseTitle } from './traceabilityMatrix'
+
+/**
+ * A ticket of the release with the QA document generated for it
+ */
+export interface EpicTicket {
+  ticketJson: JiraTicket
+  document: QACanvasDocument
+}
+
+/**
+ * An end-to-end scenario exercising several tickets together
+ * coversCriteria holds criterion IDs qualified with their ticket key, e.g. "SHOP-2:ac-1"
+ */
+export type EndToEndScenario = TestCase & { spansTickets: string[] }
+
+/**
+ * Test cases of different tickets that verify the same thing
+ */
+export interface DuplicateTestCaseGroup {
+  title: string
+  testCases: Array<{ ticketKey: string; testCaseId: string; title: string }>
+  recommendation: string
+}
+
+/**
+ * A risk that only appears when the tickets ship together
+ */
+export interface IntegrationRisk {
+  id: string
+  tickets: string[]
+  risk: string
+  severity: 'high' | 'medium' | 'low'
+  mitigation: string
+  source: 'analysis' | 'ai'
+}
+
+/**
+ * Test data that more than one ticket needs, worth preparing once for the release
+ */
+export interface SharedTestDataNeed {
+  need: string
+  tickets: string[]
+  evidence: string[]
+}
+
+/**
+ * A step of the suggested execution order: testing a ticket or running an end-to-end scenario
+ */
+export interface ExecutionStep {
+  order: number
+  type: 'ticket' | 'scenario'
+  id: string
+  title: string
+  dependsOn: string[]
+  reason: string
+}
+
+/**
+ * Coverage of each ticket and of the release as a whole
+ */
+export interface EpicCoverage {
+  tickets: Array<{ ticketKey: string; coveragePercentage: number; gaps: string[] }>
+  coveredAreas: string[]
+  gaps: string[]
+  coveragePercentage: number
+}
+
+/**
+ * Release-level test plan for an epic and its stories
+ */
+export interface EpicTestPlan {
+  epicKey?: string
+  generatedAt: string
+  tickets: Array<{ ticketKey: string; summary: string; issueType: string; testCaseCount: number }>
+  scenarios: EndToEndScenario[]
+  duplicateTestCases: DuplicateTestCaseGroup[]
+  integrationRisks: IntegrationRisk[]
+  sharedTestData: SharedTestDataNeed[]
+  executionOrder: ExecutionStep[]
+  coverage: EpicCoverage
+}
+
+/**
+ * Token overlap above which two titles are treated as the same test
+ */
+const SIMILARITY_THRESHOLD = 0.6
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'are', 'can', 'should', 'when', 'into', 'user', 'users', 'verify', 'test', 'their'
+])
+
+const DEPENDENCY_PATTERN = /\b(depends on|dependent on|blocked by|requires|after)\s*$/i
+
+/**
+ * Test data recognised in the tickets' text
+ */
+const TEST_DATA_PATTERNS: Array<{ need: string; pattern: RegExp }> = [
+  { need: 'User accounts for every role under test', pattern: /\b(admin(istrator)?s?|guests?|customers?|roles?|permissions?|logged[- ]in)\b/i },
+  { need: 'Email addresses with inbox access', pattern: /\be-?mails?\b/i },
+  { need: 'Payment methods and test cards', pattern: /\b(payments?|credit cards?|checkout|invoices?|refunds?)\b/i },
+  { need: 'Files for upload and import', pattern: /\b(uploads?|attachments?|imports?|csv|files?)\b/i },
+  { need: 'Dates, time zones and expiry windows', pattern: /\b(dates?|time ?zones?|expir\w*|deadlines?|schedul\w*)\b/i },
+  { need: 'Locales, currencies and translations', pattern: /\b(locales?|languages?|translations?|currenc(y|ies))\b/i },
+  { need: 'Seeded records for search, filtering and pagination', pattern: /\b(search\w*|filter\w*|pagination|paginat\w*|sort\w*)\b/i }
+]
+
+/**
+ * Criterion categories whose changes interact across tickets
+ */
+const INTEGRATION_CATEGORIES: Record<string, string> = {
+  api: 'Add contract tests between the API consumers and providers of these tickets',
+  database: 'Apply the schema changes of all tickets together and test the migrations in release order',
+  security: 'Re-run the security checks of each ticket on the combined build'
+}
+
+/**
+ * Build the release-level test plan from the tickets, their documents and the generated end-to-end scenarios
+ */
+export function buildEpicTestPlan(
+  tickets: EpicTicket[],
+  generated: EndToEndPlanResponse,
+  epicKey?: string
+): EpicTestPlan {
+  const ticketKeys = tickets.map(ticket => ticket.ticketJson.issueKey)
+  const epic = epicKey ?? tickets.find(ticket => ticket.ticketJson.issueType.toLowerCase() === 'epic')?.ticketJson.issueKey
+  const dependencies = findTicketDependencies(tickets)
+  const scenarios = deduplicateScenarios(generated.scenarios, ticketKeys)
+
+  return {
+    epicKey: epic,
+    generatedAt: new Date().toISOString(),
+    tickets: tickets.map(({ ticketJson, document }) => ({
+      ticketKey: ticketJson.issueKey,
+      summary: ticketJson.summary,
+      issueType: ticketJson.issueType,
+      testCaseCount: document.testCases.length
+    })),
+    scenarios,
+    duplicateTestCases: findDuplicateTestCases(tickets),
+    integrationRisks: detectIntegrationRisks(tickets, dependencies, generated.integrationRisks),
+    sharedTestData: findSharedTestData(tickets),
+    executionOrder: suggestExecutionOrder(tickets, dependencies, scenarios, epic),
+    coverage: analyzeEpicCoverage(tickets, scenarios)
+  }
+}
+
+/**
+ * Keep the scenarios spanning at least two known tickets and merge the ones that test the same journey
+ */
+export function deduplicateScenarios(
+  scenarios: EndToEndPlanResponse['scenarios'],
+  ticketKeys: string[]
+): EndToEndScenario[] {
+  const kept: EndToEndScenario[] = []
+
+  for (const scenario of scenarios) {
+    const spansTickets = unique(scenario.spansTickets.filter(key => ticketKeys.includes(key)))
+    if (spansTickets.length < 2) continue
+
+    const candidate = { ...scenario, spansTickets } as EndToEndScenario
+    const duplicate = kept.find(existing => similarity(getTestCaseTitle(existing), getTestCaseTitle(candidate)) >= SIMILARITY_THRESHOLD)
+
+    if (duplicate) {
+      duplicate.spansTickets = unique([...duplicate.spansTickets, ...spansTickets])
+      duplicate.coversCriteria = unique([...(duplicate.coversCriteria || []), ...(candidate.coversCriteria || [])])
+      continue
+    }
+    kept.push(candidate)
+  }
+
+  return kept.map((scenario, index) => ({ ...scenario, id: `e2e-${index + 1}` }))
+}
+
+/**
+ * Group test cases of different tickets whose titles describe the same test
+ */
+export function findDuplicateTestCases(tickets: EpicTicket[]): DuplicateTestCaseGroup[] {
+  const entries = tickets.flatMap(({ ticketJson, document }) => document.testCases.map(testCase => ({
+    ticketKey: ticketJson.issueKey,
+    testCaseId: testCase.id,
+    title: getTestCaseTitle(testCase)
+  })))
+  const groups: Array<typeof entries> = []
+
+  for (const entry of entries) {
+    const group = groups.find(candidates => candidates.some(other =>
+      other.ticketKey !== entry.ticketKey && similarity(other.title, entry.title) >= SIMILARITY_THRESHOLD
+    ))
+    if (group) {
+      group.push(entry)
+    } else {
+      groups.push([entry])
+    }
+  }
+
+  return groups
+    .filter(group => new Set(group.map(entry => entry.ticketKey)).size > 1)
+    .map(group => ({
+      title: group[0].title,
+      testCases: group,
+      recommendation: `Run once per release and reuse the result for ${unique(group.map(entry => entry.ticketKey)).join(', ')}`
+    }))
+}
+
+/**
+ * Find the tickets each ticket depends on or mentions in its description and comments
+ * A key preceded by "depends on", "blocked by", "requires" or "after" is a dependency; any other mention is a reference
+ */
+export function findTicketDependencies(tickets: EpicTicket[]): Map<string, { dependsOn: string[]; references: string[] }> {
+  const ticketKeys = tickets.map(ticket => ticket.ticketJson.issueKey)
+  const dependencies = new Map<string, { dependsOn: string[]; references: string[] }>()
+
+  for (const { ticketJson } of tickets) {
+    const text = [ticketJson.description, ...ticketJson.comments.map(comment => comment.body)].join('\n')
+    const dependsOn: string[] = []
+    const references: string[] = []
+
+    for (const key of ticketKeys) {
+      if (key === ticketJson.issueKey) continue
+      const mentions = [...text.matchAll(new RegExp(`\\b${escapeRegExp(key)}\\b`, 'g'))]
+      if (mentions.length === 0) continue
+
+      if (mentions.some(mention => DEPENDENCY_PATTERN.test(text.slice(Math.max(0, mention.index! - 30), mention.index)))) {
+        dependsOn.push(key)
+      } else {
+        references.push(key)
+      }
+    }
+
+    dependencies.set(ticketJson.issueKey, { dependsOn, references })
+  }
+
+  return dependencies
+}
+
+/**
+ * Detect integration risks from shared components, ticket dependencies and criteria that touch the same layer
+ * Risks suggested by the AI are appended unless they repeat a detected one
+ */
+export function detectIntegrationRisks(
+  tickets: EpicTicket[],
+  dependencies: Map<string, { dependsOn: string[]; references: string[] }>,
+  aiRisks: EndToEndPlanResponse['integrationRisks'] = []
+): IntegrationRisk[] {
+  const ticketKeys = tickets.map(ticket => ticket.ticketJson.issueKey)
+  const risks: Array<Omit<IntegrationRisk, 'id'>> = []
+
+  const ticketsByComponent = new Map<string, string[]>()
+  for (const { ticketJson } of tickets) {
+    for (const component of ticketJson.components) {
+      ticketsByComponent.set(component, [...(ticketsByComponent.get(component) || []), ticketJson.issueKey])
+    }
+  }
+  ticketsByComponent.forEach((keys, component) => {
+    if (keys.length < 2) return
+    risks.push({
+      tickets: keys,
+      risk: `${keys.join(', ')} all change the ${component} component`,
+      severity: keys.length > 2 ? 'high' : 'medium',
+      mitigation: `Run the regression tests of each ticket against the combined ${component} build`,
+      source: 'analysis'
+    })
+  })
+
+  dependencies.forEach(({ dependsOn, references }, key) => {
+    dependsOn.forEach(dependency => risks.push({
+      tickets: [key, dependency],
+      risk: `${key} depends on ${dependency}`,
+      severity: 'high',
+      mitigation: `Test ${key} against the finished ${dependency} rather than a stub`,
+      source: 'analysis'
+    }))
+    references.forEach(reference => risks.push({
+      tickets: [key, reference],
+      risk: `${key} refers to ${reference}`,
+      severity: 'medium',
+      mitigation: `Verify the behaviour described in ${key} and ${reference} together`,
+      source: 'analysis'
+    }))
+  })
+
+  Object.entries(INTEGRATION_CATEGORIES).forEach(([category, mitigation]) => {
+    const keys = tickets
+      .filter(({ document }) => document.acceptanceCriteria.some(criterion => criterion.category === category))
+      .map(({ ticketJson }) => ticketJson.issueKey)
+    if (keys.length < 2) return
+    risks.push({
+      tickets: keys,
+      risk: `${keys.join(', ')} all have ${category} acceptance criteria`,
+      severity: 'medium',
+      mitigation,
+      source: 'analysis'
+    })
+  })
+
+  for (const aiRisk of aiRisks) {
+    const keys = unique(aiRisk.tickets.filter(key => ticketKeys.includes(key)))
+    if (risks.some(risk => similarity(risk.risk, aiRisk.risk) >= SIMILARITY_THRESHOLD)) continue
+    risks.push({ ...aiRisk, tickets: keys, source: 'ai' })
+  }
+
+  return risks.map((risk, index) => ({ id: `risk-${index + 1}`, ...risk }))
+}
+
+/**
+ * Find test data needed by more than one ticket, from the tickets' text and shared custom field values
+ */
+export function findSharedTestData(tickets: EpicTicket[]): SharedTestDataNeed[] {
+  const needs: SharedTestDataNeed[] = []
+
+  for (const { need, pattern } of TEST_DATA_PATTERNS) {
+    const matches = tickets.flatMap(({ ticketJson, document }) => {
+      const evidence = [
+        ticketJson.summary,
+        ...document.acceptanceCriteria.map(criterion => `${criterion.title}: ${criterion.description}`),
+        ...document.testCases.map(getTestCaseTitle),
+        ticketJson.description
+      ].find(text => pattern.test(text))
+      return evidence ? [{ ticketKey: ticketJson.issueKey, evidence: `${ticketJson.issueKey}: ${truncate(evidence)}` }] : []
+    })
+    if (matches.length < 2) continue
+    needs.push({ need, tickets: matches.map(match => match.ticketKey), evidence: matches.map(match => match.evidence) })
+  }
+
+  const ticketsByFieldValue = new Map<string, string[]>()
+  for (const { ticketJson } of tickets) {
+    Object.entries(ticketJson.customFields || {}).forEach(([field, value]) => {
+      if (typeof value !== 'string' || !value.trim()) return
+      const fieldValue = `${field}: ${value.trim()}`
+      ticketsByFieldValue.set(fieldValue, [...(ticketsByFieldValue.get(fieldValue) || []), ticketJson.issueKey])
+    })
+  }
+  ticketsByFieldValue.forEach((keys, fieldValue) => {
+    if (keys.length < 2) return
+    needs.push({ need: `Data matching ${fieldValue}`, tickets: keys, evidence: keys.map(key => `${key}: ${fieldValue}`) })
+  })
+
+  return needs
+}
+
+/**
+ * Order the tickets so dependencies are tested first, followed by the end-to-end scenarios and the epic itself
+ * Independent tickets are ordered by the number of tickets depending on them, then priority, then key
+ */
+export function suggestExecutionOrder(
+  tickets: EpicTicket[],
+  dependencies: Map<string, { dependsOn: string[]; references: string[] }>,
+  scenarios: EndToEndScenario[],
+  epicKey?: string
+): ExecutionStep[] {
+  const stories = tickets.filter(ticket => ticket.ticketJson.issueKey !== epicKey)
+  const storyKeys = stories.map(ticket => ticket.ticketJson.issueKey)
+  const dependsOn = (key: string) => (dependencies.get(key)?.dependsOn || []).filter(dependency => storyKeys.includes(dependency))
+  const dependents = (key: string) => storyKeys.filter(other => dependsOn(other).includes(key))
+  const rank = (ticket: EpicTicket) => [-dependents(ticket.ticketJson.issueKey).length, priorityRank(ticket.ticketJson.priority)]
+
+  const steps: Array<Omit<ExecutionStep, 'order'>> = []
+  const done = new Set<string>()
+  let remaining = [...stories]
+
+  while (remaining.length > 0) {
+    const ready = remaining.filter(ticket => dependsOn(ticket.ticketJson.issueKey).every(key => done.has(key)))
+    const circular = ready.length === 0
+    const next = (circular ? remaining : ready).sort((a, b) => {
+      const [aDependents, aPriority] = rank(a)
+      const [bDependents, bPriority] = rank(b)
+      return aDependents - bDependents || aPriority - bPriority || a.ticketJson.issueKey.localeCompare(b.ticketJson.issueKey)
+    })[0]
+    const key = next.ticketJson.issueKey
+    const blockers = dependsOn(key)
+    const blocked = dependents(key)
+
+    steps.push({
+      type: 'ticket',
+      id: key,
+      title: next.ticketJson.summary,
+      dependsOn: blockers,
+      reason: circular
+        ? `Circular dependency with ${blockers.filter(blocker => !done.has(blocker)).join(', ')}`
+        : blockers.length > 0
+          ? `Runs after ${blockers.join(', ')}`
+          : blocked.length > 0
+            ? `${blocked.join(', ')} depend on it`
+            : 'No dependencies on other tickets'
+    })
+    done.add(key)
+    remaining = remaining.filter(ticket => ticket !== next)
+  }
+
+  const priorityOrder = { high: 0, medium: 1, low: 2 }
+  ;[...scenarios]
+    .sort((a, b) => priorityOrder[a.priority] - priorityOrder[b.priority])
+    .forEach(scenario => steps.push({
+      type: 'scenario',
+      id: scenario.id,
+      title: getTestCaseTitle(scenario),
+      dependsOn: scenario.spansTickets,
+      reason: `Spans ${scenario.spansTickets.join(', ')}`
+    }))
+
+  const epic = tickets.find(ticket => ticket.ticketJson.issueKey === epicKey)
+  if (epic) {
+    steps.push({
+      type: 'ticket',
+      id: epic.ticketJson.issueKey,
+      title: epic.ticketJson.summary,
+      dependsOn: storyKeys,
+      reason: 'Epic acceptance once its stories and scenarios pass'
+    })
+  }
+
+  return steps.map((step, index) => ({ order: index + 1, ...step }))
+}
+
+/**
+ * Run the coverage gap analysis on each ticket and on the release as a whole
+ * The release view merges every ticket's criteria and test cases with the end-to-end scenarios
+ */
+export function analyzeEpicCoverage(tickets: EpicTicket[], scenarios: EndToEndScenario[] = []): EpicCoverage {
+  const perTicket = tickets.map(({ ticketJson, document }) => {
+    const { gaps, coveragePercentage } = analyzeCoverageGaps(document)
+    return { ticketKey: ticketJson.issueKey, coveragePercentage, gaps }
+  })
+
+  const release: QACanvasDocument = {
+    ...tickets[0].document,
+    acceptanceCriteria: tickets.flatMap(({ ticketJson, document }) => document.acceptanceCriteria.map(criterion => ({
+      ...criterion,
+      id: `${ticketJson.issueKey}:${criterion.id}`
+    }))),
+    testCases: [
+      ...tickets.flatMap(({ ticketJson, document }) => document.testCases.map(testCase => ({
+        ...testCase,
+        id: `${ticketJson.issueKey}:${testCase.id}`,
+        coversCriteria: testCase.coversCriteria?.map(criterionId => `${ticketJson.issueKey}:${criterionId}`)
+      }))),
+      ...scenarios
+    ]
+  }
+  const { gaps, coveredAreas, coveragePercentage } = analyzeCoverageGaps(release)
+
+  return { tickets: perTicket, coveredAreas, gaps, coveragePercentage }
+}
+
+function priorityRank(priority: string): number {
+  const value = priority.toLowerCase()
+  if (/highest|critical|blocker/.test(value)) return 0
+  if (/high/.test(value)) return 1
+  if (/lowest|trivial/.test(value)) return 4
+  if (/low/.test(value)) return 3
+  return 2
+}
+
+function similarity(a: string, b: string): number {
+  const tokensA = tokenize(a)
+  const tokensB = tokenize(b)
+  if (tokensA.size === 0 || tokensB.size === 0) return 0
+  const shared = [...tokensA].filter(token => tokensB.has(token)).length
+  return shared / (tokensA.size + tokensB.size - shared)
+}
+
+function tokenize(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(token => token.length > 2 && !STOP_WORDS.has(token)))
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)]
+}
+
+function truncate(text: string, length = 80): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
@@ -5,6 +5,7 @@
 
 import { JiraTicket } from '../schemas/JiraTicket'
 import { QAProfile } from '../schemas/QAProfile'
+import { UncertaintyType } from '../ai/uncertaintyHandler'
 
 /**
  * Ticket summary structure
@@ -26,6 +27,51 @@ export interface ConfigurationWarning {
   severity: 'high' | 'medium' | 'low'
 }
 
+/**
+ * Document assumptions made about the input before generation
+ * Shared by analysis and re-analysis so configuration warnings are based on the same checks
+ */
+export function collectAssumptions(qaProfile: QAProfile, ticketJson: JiraTicket): any[] {
+  const assumptions = []
+
+  // Check for potential configuration issues
+  if (!qaProfile.testCaseFormat) {
+    assumptions.push({
+      type: UncertaintyType.MISSING_CONTEXT,
+      description: 'No test case format specified, defaulting to Gherkin format',
+      alternatives: ['Step-by-step', 'Table format'],
+      confidence: 0.7,
+      impact: 'medium'
+    })
+  }
+
+  // Check for minimal ticket information
+  if (!ticketJson.description || ticketJson.description.trim().length < 50) {
+    assumptions.push({
+      type: UncertaintyType.MISSING_CONTEXT,
+      description: 'Limited ticket description provided, may affect quality of generated test cases',
+      confidence: 0.9,
+      impact: 'high'
+    })
+  }
+
+  // Check for potential conflicts in QA categories
+  const activeCategories = Object.entries(qaProfile.qaCategories)
+    .filter(([, active]) => active)
+    .map(([category]) => category)
+
+  if (activeCategories.includes('api') && !ticketJson.description.toLowerCase().includes('api')) {
+    assumptions.push({
+      type: UncertaintyType.CONFLICTING_REQUIREMENTS,
+      description: 'API testing category is enabled but ticket may not involve API functionality',
+      confidence: 0.6,
+      impact: 'medium'
+    })
+  }
+
+  return assumptions
+}
+
 /**
  * Analyze ticket content and extract problem, solution, and context
  */
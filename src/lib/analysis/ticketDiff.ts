@@ -0,0 +1,292 @@
+/**
+ * Ticket Diff Service
+ * Compares two snapshots of a Jira ticket and decides which document sections a change affects
+ */
+
+import type { JiraAttachment, JiraComment, JiraTicket } from '../schemas/JiraTicket'
+import type { DocumentSectionName } from '../ai/sectionGenerators'
+import { SECTION_DEPENDENCIES } from '../ai/intent/constants'
+
+/**
+ * Kinds of ticket changes detected between two snapshots
+ */
+export type TicketChangeType =
+  | 'summary_changed'
+  | 'description_edited'
+  | 'status_changed'
+  | 'priority_changed'
+  | 'issue_type_changed'
+  | 'assignee_changed'
+  | 'components_changed'
+  | 'custom_field_changed'
+  | 'comment_added'
+  | 'comment_edited'
+  | 'comment_removed'
+  | 'attachment_added'
+  | 'attachment_removed'
+
+/**
+ * A single change between two ticket snapshots
+ */
+export interface TicketChange {
+  type: TicketChangeType
+  field: string
+  description: string
+  before?: unknown
+  after?: unknown
+}
+
+/**
+ * Structured diff of two ticket snapshots
+ */
+export interface TicketDiff {
+  ticketId: string
+  previousScrapedAt: string
+  currentScrapedAt: string
+  hasChanges: boolean
+  changes: TicketChange[]
+}
+
+/**
+ * What re-analysis does with a section and why
+ */
+export interface SectionImpact {
+  section: DocumentSectionName
+  action: 'regenerate' | 'keep'
+  reasons: string[]
+  triggeredBy: TicketChangeType[]
+}
+
+/**
+ * Sections to regenerate for a diff, with the changes that regenerate nothing
+ */
+export interface ReanalysisPlan {
+  sections: SectionImpact[]
+  regenerate: DocumentSectionName[]
+  ignoredChanges: Array<{ type: TicketChangeType; description: string; reason: string }>
+}
+
+/**
+ * Inputs besides the diff that decide which sections are affected
+ */
+export interface ImpactOptions {
+  includeImages?: boolean
+  assumptionsChanged?: boolean
+}
+
+const DOCUMENT_SECTIONS: DocumentSectionName[] = ['ticketSummary', 'acceptanceCriteria', 'testCases', 'configurationWarnings']
+
+/**
+ * Sections each change type feeds into directly; dependent sections are added from SECTION_DEPENDENCIES
+ * Changes without sections (status, assignee) are reported but regenerate nothing
+ */
+const CHANGE_IMPACT: Record<TicketChangeType, { sections: DocumentSectionName[]; reason: string }> = {
+  summary_changed: { sections: ['ticketSummary', 'acceptanceCriteria'], reason: 'The ticket summary changed' },
+  description_edited: { sections: ['ticketSummary', 'acceptanceCriteria'], reason: 'The description was edited' },
+  status_changed: { sections: [], reason: 'Status changes do not change what needs testing' },
+  priority_changed: { sections: ['testCases'], reason: 'Test case priorities follow the ticket priority' },
+  issue_type_changed: { sections: ['ticketSummary', 'testCases'], reason: 'The issue type changed' },
+  assignee_changed: { sections: [], reason: 'Assignee changes do not change what needs testing' },
+  components_changed: { sections: ['ticketSummary'], reason: 'The affected components changed' },
+  custom_field_changed: { sections: ['acceptanceCriteria'], reason: 'Custom fields often carry requirements' },
+  comment_added: { sections: ['acceptanceCriteria'], reason: 'New comments may refine the requirements' },
+  comment_edited: { sections: ['acceptanceCriteria'], reason: 'Edited comments may change the requirements' },
+  comment_removed: { sections: ['acceptanceCriteria'], reason: 'Removed comments may drop requirements' },
+  attachment_added: { sections: ['testCases'], reason: 'New images may show behaviour to test' },
+  attachment_removed: { sections: ['testCases'], reason: 'Removed images may drop behaviour to test' }
+}
+
+/**
+ * Compare two snapshots of the same ticket
+ * Whitespace-only edits are ignored since re-scrapes often reflow text
+ */
+export function diffTickets(previous: JiraTicket, current: JiraTicket): TicketDiff {
+  const changes: TicketChange[] = []
+
+  const compareText = (type: TicketChangeType, field: 'summary' | 'description', label: string) => {
+    if (normalizeText(previous[field]) !== normalizeText(current[field])) {
+      changes.push({ type, field, description: `${label} changed`, before: previous[field], after: current[field] })
+    }
+  }
+  const compareValue = (type: TicketChangeType, field: 'status' | 'priority' | 'issueType' | 'assignee', label: string) => {
+    if ((previous[field] ?? '') !== (current[field] ?? '')) {
+      changes.push({
+        type,
+        field,
+        description: `${label} changed from "${previous[field] ?? 'none'}" to "${current[field] ?? 'none'}"`,
+        before: previous[field],
+        after: current[field]
+      })
+    }
+  }
+
+  compareText('summary_changed', 'summary', 'Summary')
+  compareText('description_edited', 'description', 'Description')
+  compareValue('status_changed', 'status', 'Status')
+  compareValue('priority_changed', 'priority', 'Priority')
+  compareValue('issue_type_changed', 'issueType', 'Issue type')
+  compareValue('assignee_changed', 'assignee', 'Assignee')
+
+  const addedComponents = current.components.filter(component => !previous.components.includes(component))
+  const removedComponents = previous.components.filter(component => !current.components.includes(component))
+  if (addedComponents.length > 0 || removedComponents.length > 0) {
+    changes.push({
+      type: 'components_changed',
+      field: 'components',
+      description: `Components changed (${[
+        addedComponents.length > 0 ? `added ${addedComponents.join(', ')}` : '',
+        removedComponents.length > 0 ? `removed ${removedComponents.join(', ')}` : ''
+      ].filter(Boolean).join('; ')})`,
+      before: previous.components,
+      after: current.components
+    })
+  }
+
+  const customFieldNames = new Set([...Object.keys(previous.customFields), ...Object.keys(current.customFields)])
+  customFieldNames.forEach(name => {
+    if (JSON.stringify(previous.customFields[name]) !== JSON.stringify(current.customFields[name])) {
+      changes.push({
+        type: 'custom_field_changed',
+        field: `customFields.${name}`,
+        description: `Custom field "${name}" changed`,
+        before: previous.customFields[name],
+        after: current.customFields[name]
+      })
+    }
+  })
+
+  changes.push(...diffComments(previous.comments, current.comments))
+  changes.push(...diffAttachments(previous.attachments, current.attachments))
+
+  return {
+    ticketId: current.issueKey,
+    previousScrapedAt: previous.scrapedAt,
+    currentScrapedAt: current.scrapedAt,
+    hasChanges: changes.length > 0,
+    changes
+  }
+}
+
+function diffComments(previous: JiraComment[], current: JiraComment[]): TicketChange[] {
+  const changes: TicketChange[] = []
+  const previousByKey = new Map(previous.map(comment => [getCommentKey(comment), comment]))
+  const currentKeys = new Set(current.map(getCommentKey))
+
+  current.forEach(comment => {
+    const before = previousByKey.get(getCommentKey(comment))
+    if (!before) {
+      changes.push({ type: 'comment_added', field: 'comments', description: `New comment by ${comment.author}`, after: comment.body })
+    } else if (normalizeText(before.body) !== normalizeText(comment.body)) {
+      changes.push({ type: 'comment_edited', field: 'comments', description: `Comment by ${comment.author} was edited`, before: before.body, after: comment.body })
+    }
+  })
+
+  previous
+    .filter(comment => !currentKeys.has(getCommentKey(comment)))
+    .forEach(comment => {
+      changes.push({ type: 'comment_removed', field: 'comments', description: `Comment by ${comment.author} was removed`, before: comment.body })
+    })
+
+  return changes
+}
+
+function diffAttachments(previous: JiraAttachment[], current: JiraAttachment[]): TicketChange[] {
+  // Blob URLs change per page load, so attachments are matched by name and size
+  const previousKeys = new Set(previous.map(getAttachmentKey))
+  const currentKeys = new Set(current.map(getAttachmentKey))
+
+  return [
+    ...current
+      .filter(attachment => !previousKeys.has(getAttachmentKey(attachment)))
+      .map((attachment): TicketChange => ({
+        type: 'attachment_added',
+        field: 'attachments',
+        description: `Attachment ${attachment.name} was added`,
+        after: { name: attachment.name, mime: attachment.mime, size: attachment.size }
+      })),
+    ...previous
+      .filter(attachment => !currentKeys.has(getAttachmentKey(attachment)))
+      .map((attachment): TicketChange => ({
+        type: 'attachment_removed',
+        field: 'attachments',
+        description: `Attachment ${attachment.name} was removed`,
+        before: { name: attachment.name, mime: attachment.mime, size: attachment.size }
+      }))
+  ]
+}
+
+/**
+ * Decide which sections to regenerate for a diff
+ * Directly affected sections are expanded through SECTION_DEPENDENCIES, e.g. new criteria also regenerate test cases
+ */
+export function planReanalysis(diff: TicketDiff, options: ImpactOptions = {}): ReanalysisPlan {
+  const impacts = new Map<DocumentSectionName, { reasons: string[]; triggeredBy: Set<TicketChangeType> }>()
+  const ignoredChanges: ReanalysisPlan['ignoredChanges'] = []
+  const touch = (section: DocumentSectionName, reason: string, triggeredBy: Iterable<TicketChangeType>) => {
+    const impact = impacts.get(section) || { reasons: [], triggeredBy: new Set<TicketChangeType>() }
+    if (!impact.reasons.includes(reason)) impact.reasons.push(reason)
+    for (const type of triggeredBy) impact.triggeredBy.add(type)
+    impacts.set(section, impact)
+  }
+
+  diff.changes.forEach(change => {
+    const rule = CHANGE_IMPACT[change.type]
+
+    // Attachments only reach the generators as images, and only when the profile includes them
+    if (change.type === 'attachment_added' || change.type === 'attachment_removed') {
+      const mime = ((change.after ?? change.before) as { mime?: string }).mime || ''
+      if (!options.includeImages || !mime.startsWith('image/')) {
+        ignoredChanges.push({ type: change.type, description: change.description, reason: 'Only images are analyzed, and only when the QA profile includes images' })
+        return
+      }
+    }
+
+    if (rule.sections.length === 0) {
+      ignoredChanges.push({ type: change.type, description: change.description, reason: rule.reason })
+      return
+    }
+    rule.sections.forEach(section => touch(section, `${rule.reason}: ${change.description}`, [change.type]))
+  })
+
+  if (options.assumptionsChanged) {
+    touch('configurationWarnings', 'The detected configuration assumptions changed', [])
+  }
+
+  // Follow dependencies breadth-first so each dependent section names the section it depends on
+  const queue = [...impacts.keys()]
+  while (queue.length > 0) {
+    const section = queue.shift()!
+    SECTION_DEPENDENCIES[section].forEach(dependency => {
+      const target = dependency.to as DocumentSectionName
+      if (!DOCUMENT_SECTIONS.includes(target)) return
+
+      if (!impacts.has(target)) queue.push(target)
+      touch(target, `Depends on ${section}: ${dependency.description}`, impacts.get(section)!.triggeredBy)
+    })
+  }
+
+  const sections = DOCUMENT_SECTIONS.map((section): SectionImpact => {
+    const impact = impacts.get(section)
+    return impact
+      ? { section, action: 'regenerate', reasons: impact.reasons, triggeredBy: [...impact.triggeredBy] }
+      : { section, action: 'keep', reasons: [diff.hasChanges ? 'Not affected by the ticket changes' : 'The ticket did not change'], triggeredBy: [] }
+  })
+
+  return {
+    sections,
+    regenerate: sections.filter(impact => impact.action === 'regenerate').map(impact => impact.section),
+    ignoredChanges
+  }
+}
+
+function getCommentKey(comment: JiraComment): string {
+  return `${comment.author}|${comment.created || comment.date}`
+}
+
+function getAttachmentKey(attachment: JiraAttachment): string {
+  return `${attachment.name}|${attachment.size}`
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
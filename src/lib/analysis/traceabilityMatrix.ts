@@ -0,0 +1,165 @@
+/**
+ * Traceability Matrix Service
+ * Maps acceptance criteria to the test cases that cover them and reports coverage gaps
+ */
+
+import type { AcceptanceCriterion, QACanvasDocument, TestCase } from '../schemas/QACanvasDocument'
+import { findCriteriaForTestCase, hasExplicitCriteriaLinks } from '../ai/suggestionAlgorithms'
+
+/**
+ * Coverage status of a single acceptance criterion
+ * - covered: at least one test case covers it
+ * - uncovered: testable but no test case covers it
+ * - not_testable: marked as not testable and no test case covers it
+ */
+export type CoverageStatus = 'covered' | 'uncovered' | 'not_testable'
+
+/**
+ * How a test case was linked to criteria
+ */
+export type CriteriaLinkSource = 'explicit' | 'inferred'
+
+/**
+ * Matrix row for an acceptance criterion
+ */
+export interface TraceabilityCriterionRow {
+  criterionId: string
+  title: string
+  priority: AcceptanceCriterion['priority']
+  category: AcceptanceCriterion['category']
+  testable: boolean
+  status: CoverageStatus
+  testCaseIds: string[]
+}
+
+/**
+ * Matrix column for a test case
+ */
+export interface TraceabilityTestCaseColumn {
+  testCaseId: string
+  title: string
+  priority: TestCase['priority']
+  category: string
+  linkSource: CriteriaLinkSource
+  criteriaIds: string[]
+  unknownCriteriaIds: string[]
+}
+
+/**
+ * Coverage totals for the matrix
+ */
+export interface TraceabilitySummary {
+  totalCriteria: number
+  coveredCriteria: number
+  uncoveredCriteria: number
+  notTestableCriteria: number
+  coveragePercent: number
+  uncoveredMustCriteria: string[]
+  testCasesWithoutCriteria: string[]
+}
+
+/**
+ * Criterion × test case traceability matrix
+ */
+export interface TraceabilityMatrix {
+  ticketId: string
+  documentVersion: string
+  criteria: TraceabilityCriterionRow[]
+  testCases: TraceabilityTestCaseColumn[]
+  summary: TraceabilitySummary
+}
+
+/**
+ * Build the traceability matrix for a document
+ */
+export function buildTraceabilityMatrix(document: QACanvasDocument): TraceabilityMatrix {
+  const criteriaIds = new Set(document.acceptanceCriteria.map(criterion => criterion.id))
+
+  const testCases: TraceabilityTestCaseColumn[] = document.testCases.map(testCase => ({
+    testCaseId: testCase.id,
+    title: getTestCaseTitle(testCase),
+    priority: testCase.priority,
+    category: testCase.category,
+    linkSource: hasExplicitCriteriaLinks(testCase) ? 'explicit' : 'inferred',
+    criteriaIds: findCriteriaForTestCase(testCase, document.acceptanceCriteria).map(criterion => criterion.id),
+    unknownCriteriaIds: (testCase.coversCriteria || []).filter(id => !criteriaIds.has(id))
+  }))
+
+  const criteria: TraceabilityCriterionRow[] = document.acceptanceCriteria.map(criterion => {
+    const testCaseIds = testCases
+      .filter(testCase => testCase.criteriaIds.includes(criterion.id))
+      .map(testCase => testCase.testCaseId)
+
+    return {
+      criterionId: criterion.id,
+      title: criterion.title,
+      priority: criterion.priority,
+      category: criterion.category,
+      testable: criterion.testable,
+      status: getCoverageStatus(criterion, testCaseIds),
+      testCaseIds
+    }
+  })
+
+  return {
+    ticketId: document.metadata.ticketId,
+    documentVersion: document.metadata.documentVersion,
+    criteria,
+    testCases,
+    summary: summarize(criteria, testCases)
+  }
+}
+
+/**
+ * Fill in coversCriteria for test cases that have no links yet and drop links to unknown criteria
+ * Used after generation so every test case carries explicit links
+ */
+export function linkTestCasesToCriteria<T extends TestCase>(testCases: T[], criteria: Array<Pick<AcceptanceCriterion, 'id' | 'title'>>): T[] {
+  const criteriaIds = new Set(criteria.map(criterion => criterion.id))
+
+  return testCases.map(testCase => {
+    const validLinks = (testCase.coversCriteria || []).filter(id => criteriaIds.has(id))
+    if (validLinks.length > 0) {
+      return { ...testCase, coversCriteria: validLinks }
+    }
+
+    const inferred = findCriteriaForTestCase({ ...testCase, coversCriteria: undefined }, criteria)
+    return { ...testCase, coversCriteria: inferred.map(criterion => criterion.id) }
+  })
+}
+
+function getCoverageStatus(criterion: AcceptanceCriterion, testCaseIds: string[]): CoverageStatus {
+  if (testCaseIds.length > 0) return 'covered'
+  return criterion.testable ? 'uncovered' : 'not_testable'
+}
+
+function summarize(
+  criteria: TraceabilityCriterionRow[],
+  testCases: TraceabilityTestCaseColumn[]
+): TraceabilitySummary {
+  const count = (status: CoverageStatus) => criteria.filter(row => row.status === status).length
+  const coveredCriteria = count('covered')
+  const notTestableCriteria = count('not_testable')
+  const measurable = criteria.length - notTestableCriteria
+
+  return {
+    totalCriteria: criteria.length,
+    coveredCriteria,
+    uncoveredCriteria: count('uncovered'),
+    notTestableCriteria,
+    coveragePercent: measurable > 0 ? Math.round((coveredCriteria / measurable) * 100) : 0,
+    uncoveredMustCriteria: criteria
+      .filter(row => row.priority === 'must' && row.status !== 'covered')
+      .map(row => row.criterionId),
+    testCasesWithoutCriteria: testCases
+      .filter(testCase => testCase.criteriaIds.length === 0)
+      .map(testCase => testCase.testCaseId)
+  }
+}
+
+/**
+ * Title of a test case in any format (the scenario name for Gherkin)
+ */
+export function getTestCaseTitle(testCase: TestCase): string {
+  return testCase.format === 'gherkin' ? testCase.testCase.scenario : testCase.testCase.title
+}
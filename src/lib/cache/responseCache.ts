@@ -0,0 +1,206 @@
+/**
+ * Response Cache
+ * Content-addressed cache for AI responses so unchanged tickets are not regenerated
+ */
+
+import { createHash } from 'crypto'
+import type { DocumentCacheInfo, ResponseCacheLookup } from '../schemas/QACanvasDocument'
+import { createResponseCacheStore, type ResponseCacheStore } from './responseCacheStore'
+
+/**
+ * Kinds of cached responses; each has its own TTL
+ */
+export type CacheNamespace = 'section' | 'suggestions'
+
+/**
+ * Time to live per namespace in seconds
+ */
+export type CacheTtls = Record<CacheNamespace, number>
+
+export const DEFAULT_CACHE_TTLS: CacheTtls = {
+  section: 24 * 60 * 60,
+  suggestions: 60 * 60
+}
+
+/**
+ * Read TTLs from RESPONSE_CACHE_TTL_SECONDS (sections) and RESPONSE_CACHE_SUGGESTIONS_TTL_SECONDS
+ */
+export function loadCacheTtls(env: Record<string, string | undefined> = process.env): CacheTtls {
+  const parse = (value: string | undefined, fallback: number) => {
+    const seconds = Number(value)
+    return value && Number.isFinite(seconds) && seconds > 0 ? seconds : fallback
+  }
+
+  return {
+    section: parse(env.RESPONSE_CACHE_TTL_SECONDS, DEFAULT_CACHE_TTLS.section),
+    suggestions: parse(env.RESPONSE_CACHE_SUGGESTIONS_TTL_SECONDS, DEFAULT_CACHE_TTLS.suggestions)
+  }
+}
+
+/**
+ * How a request wants the cache used
+ * bypass skips cached responses; store=false also keeps the fresh response out of the cache
+ */
+export interface CacheDirectives {
+  bypass: boolean
+  store: boolean
+}
+
+/**
+ * Minimal header access shared by NextRequest and test doubles
+ */
+interface HeaderSource {
+  get(name: string): string | null
+}
+
+/**
+ * Read Cache-Control (and the legacy Pragma) request headers
+ * `no-cache` regenerates and refreshes the cached response, `no-store` regenerates without caching
+ */
+export function getCacheDirectives(headers?: HeaderSource | null): CacheDirectives {
+  const directives = (headers?.get('cache-control') || '')
+    .split(',')
+    .map(directive => directive.trim().toLowerCase())
+  const noStore = directives.includes('no-store')
+  const noCache = noStore || directives.includes('no-cache') || headers?.get('pragma')?.toLowerCase() === 'no-cache'
+
+  return { bypass: noCache, store: !noStore }
+}
+
+/**
+ * JSON serialization with sorted object keys, so equal values always hash the same
+ */
+export function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null'
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => item === undefined ? 'null' : stableStringify(item)).join(',')}]`
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, item]) => item !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+  return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`
+}
+
+/**
+ * Cache key for a namespace and its inputs: "<namespace>:<sha256 of the canonical JSON>"
+ */
+export function hashCacheKey(namespace: CacheNamespace, input: unknown): string {
+  return `${namespace}:${createHash('sha256').update(stableStringify(input)).digest('hex')}`
+}
+
+/**
+ * Ticket fields that change on every scrape without changing the ticket's content
+ */
+const VOLATILE_TICKET_FIELDS = ['scrapedAt', 'processingComplete']
+
+/**
+ * Drop volatile ticket fields so a rescraped, unchanged ticket hashes the same
+ */
+export function normalizeTicketForCache(ticket: Record<string, unknown>): Record<string, unknown> {
+  const content = Object.fromEntries(Object.entries(ticket).filter(([key]) => !VOLATILE_TICKET_FIELDS.includes(key)))
+
+  if (Array.isArray(ticket.attachments)) {
+    // Attachment blob URLs are minted per page load; the data identifies the file
+    content.attachments = ticket.attachments.map(attachment => ({ ...attachment, url: undefined }))
+  }
+  return content
+}
+
+/**
+ * Options for a single cache lookup
+ */
+export interface CacheLookupOptions<T> extends Partial<CacheDirectives> {
+  shouldCache?: (value: T) => boolean // e.g. skip fallbacks returned after a swallowed AI error
+}
+
+/**
+ * Response cache service
+ * Storage errors are logged and treated as misses, so a broken cache never fails a request
+ */
+export class ResponseCache {
+  constructor(
+    private store: ResponseCacheStore | null,
+    private ttls: CacheTtls = loadCacheTtls()
+  ) {}
+
+  /**
+   * Whether a store is configured (RESPONSE_CACHE_STORE is not "none")
+   */
+  get enabled(): boolean {
+    return this.store !== null
+  }
+
+  /**
+   * Return the cached value for the inputs or compute and store it
+   * The lookup is undefined when caching is disabled
+   */
+  async getOrCompute<T>(
+    namespace: CacheNamespace,
+    input: unknown,
+    compute: () => Promise<T>,
+    options: CacheLookupOptions<T> = {}
+  ): Promise<{ value: T; cache?: ResponseCacheLookup }> {
+    const store = this.store
+    if (!store) {
+      return { value: await compute() }
+    }
+
+    const key = hashCacheKey(namespace, input)
+    const bypassed = options.bypass ?? false
+
+    if (!bypassed) {
+      const entry = await store.get<T>(key).catch(error => {
+        console.warn(`⚠️ Response cache read failed for ${key}:`, error)
+        return null
+      })
+      if (entry) {
+        return { value: entry.value, cache: { hit: true, bypassed, key, cachedAt: entry.createdAt, expiresAt: entry.expiresAt } }
+      }
+    }
+
+    const value = await compute()
+    if (options.store === false || (options.shouldCache && !options.shouldCache(value))) {
+      return { value, cache: { hit: false, bypassed, key } }
+    }
+
+    const now = Date.now()
+    const entry = {
+      value,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.ttls[namespace] * 1000).toISOString()
+    }
+    await store.set(key, entry).catch(error => {
+      console.warn(`⚠️ Response cache write failed for ${key}:`, error)
+    })
+
+    return { value, cache: { hit: false, bypassed, key, cachedAt: entry.createdAt, expiresAt: entry.expiresAt } }
+  }
+}
+
+/**
+ * Combine per-section lookups into document metadata, or undefined when caching is disabled
+ */
+export function summarizeSectionCache(
+  lookups: Partial<Record<string, ResponseCacheLookup>>,
+  directives: CacheDirectives
+): DocumentCacheInfo | undefined {
+  const sections = Object.fromEntries(
+    Object.entries(lookups).filter((entry): entry is [string, ResponseCacheLookup] => entry[1] !== undefined)
+  )
+  const results = Object.values(sections)
+  if (results.length === 0) return undefined
+
+  return {
+    hit: results.every(lookup => lookup.hit),
+    bypassed: directives.bypass,
+    sections
+  }
+}
+
+/**
+ * Shared cache configured through RESPONSE_CACHE_STORE
+ */
+export const responseCache = new ResponseCache(createResponseCacheStore())
@@ -0,0 +1,214 @@
+/**
+ * Response Cache Storage
+ * Pluggable persistence for cached AI responses keyed by content hash
+ */
+
+import { mkdirSync } from 'fs'
+import { mkdir, readFile, rename, unlink, writeFile } from 'fs/promises'
+import path from 'path'
+
+/**
+ * A cached response
+ */
+export interface CacheEntry<T = unknown> {
+  value: T
+  createdAt: string
+  expiresAt: string
+}
+
+/**
+ * Storage backend for cached responses
+ * Implementations must not return entries past their expiresAt
+ */
+export interface ResponseCacheStore {
+  get<T = unknown>(key: string): Promise<CacheEntry<T> | null>
+  set<T = unknown>(key: string, entry: CacheEntry<T>): Promise<void>
+  delete(key: string): Promise<void>
+  close?(): Promise<void>
+}
+
+function isExpired(entry: CacheEntry): boolean {
+  return Date.now() >= Date.parse(entry.expiresAt)
+}
+
+/**
+ * In-memory store evicting the least recently used entry beyond maxEntries
+ */
+export class InMemoryResponseCacheStore implements ResponseCacheStore {
+  private entries = new Map<string, CacheEntry>()
+
+  constructor(private maxEntries: number = 500) {}
+
+  async get<T = unknown>(key: string): Promise<CacheEntry<T> | null> {
+    const entry = this.entries.get(key)
+    if (!entry) return null
+
+    this.entries.delete(key)
+    if (isExpired(entry)) return null
+
+    // Re-insert so Map order tracks recency
+    this.entries.set(key, entry)
+    return structuredClone(entry) as CacheEntry<T>
+  }
+
+  async set<T = unknown>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.entries.delete(key)
+    this.entries.set(key, structuredClone(entry))
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value
+      if (oldestKey === undefined) break
+      this.entries.delete(oldestKey)
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+}
+
+/**
+ * File-based store writing one JSON file per key
+ * Expired files are removed when they are next read
+ */
+export class FileResponseCacheStore implements ResponseCacheStore {
+  constructor(private baseDir: string) {}
+
+  async get<T = unknown>(key: string): Promise<CacheEntry<T> | null> {
+    let content: string
+    try {
+      content = await readFile(this.getFilePath(key), 'utf-8')
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw error
+    }
+
+    const entry: CacheEntry<T> = JSON.parse(content)
+    if (isExpired(entry)) {
+      await this.delete(key)
+      return null
+    }
+    return entry
+  }
+
+  async set<T = unknown>(key: string, entry: CacheEntry<T>): Promise<void> {
+    await mkdir(this.baseDir, { recursive: true })
+
+    // Write to a temporary file first so concurrent readers never see a partial entry
+    const filePath = this.getFilePath(key)
+    const tempPath = `${filePath}.${process.pid}.tmp`
+    await writeFile(tempPath, JSON.stringify(entry), 'utf-8')
+    await rename(tempPath, filePath)
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await unlink(this.getFilePath(key))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error
+    }
+  }
+
+  private getFilePath(key: string): string {
+    return path.join(this.baseDir, `${encodeURIComponent(key).replace(/\./g, '%2E')}.json`)
+  }
+}
+
+/**
+ * Subset of node:sqlite's DatabaseSync used by the SQLite store
+ */
+interface SqliteDatabase {
+  exec(sql: string): void
+  prepare(sql: string): {
+    get(...params: unknown[]): unknown
+    run(...params: unknown[]): unknown
+  }
+  close(): void
+}
+
+/**
+ * SQLite store using the built-in node:sqlite module (Node.js 22.5+), so no native dependency is needed
+ * Expired rows are purged on write
+ */
+export class SqliteResponseCacheStore implements ResponseCacheStore {
+  private db: SqliteDatabase
+
+  constructor(filePath: string) {
+    const sqlite = process.getBuiltinModule?.('node:sqlite') as
+      { DatabaseSync: new (location: string) => SqliteDatabase } | undefined
+    if (!sqlite) {
+      throw new Error(`RESPONSE_CACHE_STORE=sqlite requires Node.js 22.5 or later (running ${process.version})`)
+    }
+
+    if (filePath !== ':memory:') {
+      // DatabaseSync cannot create missing directories
+      mkdirSync(path.dirname(filePath), { recursive: true })
+    }
+
+    this.db = new sqlite.DatabaseSync(filePath)
+    this.db.exec(`CREATE TABLE IF NOT EXISTS response_cache (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      expires_at INTEGER NOT NULL
+    )`)
+  }
+
+  async get<T = unknown>(key: string): Promise<CacheEntry<T> | null> {
+    const row = this.db.prepare('SELECT value, created_at, expires_at FROM response_cache WHERE key = ? AND expires_at > ?')
+      .get(key, Date.now()) as { value: string; created_at: string; expires_at: number } | undefined
+    if (!row) return null
+
+    return {
+      value: JSON.parse(row.value),
+      createdAt: row.created_at,
+      expiresAt: new Date(row.expires_at).toISOString()
+    }
+  }
+
+  async set<T = unknown>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.db.prepare('DELETE FROM response_cache WHERE expires_at <= ?').run(Date.now())
+    this.db.prepare('INSERT OR REPLACE INTO response_cache (key, value, created_at, expires_at) VALUES (?, ?, ?, ?)')
+      .run(key, JSON.stringify(entry.value), entry.createdAt, Date.parse(entry.expiresAt))
+  }
+
+  async delete(key: string): Promise<void> {
+    this.db.prepare('DELETE FROM response_cache WHERE key = ?').run(key)
+  }
+
+  async close(): Promise<void> {
+    this.db.close()
+  }
+}
+
+/**
+ * Create the store configured through RESPONSE_CACHE_STORE ("memory", "file", "sqlite" or "none")
+ * Defaults to the file store; caching is off when running tests so suites do not share responses
+ */
+export function createResponseCacheStore(): ResponseCacheStore | null {
+  const storeType = process.env.RESPONSE_CACHE_STORE ||
+    (process.env.NODE_ENV === 'test' ? 'none' : 'file')
+  const baseDir = process.env.RESPONSE_CACHE_DIR || path.join(process.cwd(), '.data', 'cache')
+
+  switch (storeType) {
+    case 'none':
+      return null
+
+    case 'memory':
+      return new InMemoryResponseCacheStore(Number(process.env.RESPONSE_CACHE_MAX_ENTRIES) || undefined)
+
+    case 'sqlite':
+      try {
+        return new SqliteResponseCacheStore(path.join(baseDir, 'response-cache.sqlite'))
+      } catch (error) {
+        console.warn('⚠️ SQLite response cache unavailable, falling back to file storage:', error instanceof Error ? error.message : error)
+        return new FileResponseCacheStore(baseDir)
+      }
+
+    default:
+      if (storeType !== 'file') {
+        console.warn(`⚠️ Unknown RESPONSE_CACHE_STORE "${storeType}", falling back to file storage`)
+      }
+      return new FileResponseCacheStore(baseDir)
+  }
+}
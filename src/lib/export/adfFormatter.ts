@@ -0,0 +1,264 @@
+/**
+ * Atlassian Document Format Formatter
+ * Renders a QA Canvas document as an ADF comment body for Jira (REST API v3)
+ */
+
+import type { AdfNode } from '../schemas/JiraRestIssue'
+import type { AcceptanceCriterion, QACanvasDocument, TestCase } from '../schemas/QACanvasDocument'
+import { buildTraceabilityMatrix, type TraceabilityMatrix } from '../analysis/traceabilityMatrix'
+import { renderScenarioBody, testCaseToScenario } from './gherkinExporter'
+
+/**
+ * Root node of an ADF document
+ */
+export interface AdfDocument extends AdfNode {
+  version: 1
+  type: 'doc'
+  content: AdfNode[]
+}
+
+/**
+ * Footer text that identifies comments holding a published QA plan, so a later publish can update them
+ */
+export const QA_PLAN_COMMENT_MARKER = 'Posted by QA Canvas'
+
+type Priority = AcceptanceCriterion['priority'] | TestCase['priority']
+
+/**
+ * ADF status lozenge colour per priority
+ */
+const STATUS_COLORS: Record<Priority, string> = {
+  must: 'red',
+  should: 'yellow',
+  could: 'blue',
+  high: 'red',
+  medium: 'yellow',
+  low: 'neutral'
+}
+
+const SUMMARY_FIELDS = [
+  ['problem', 'Problem'],
+  ['solution', 'Solution'],
+  ['context', 'Context']
+] as const
+
+/**
+ * Convert a document to an ADF comment body
+ * Acceptance criteria become a task list to tick off while testing; steps and table test cases become tables
+ * and gherkin test cases code blocks
+ */
+export function documentToAdf(document: QACanvasDocument): AdfDocument {
+  const matrix = buildTraceabilityMatrix(document)
+  const content: AdfNode[] = [
+    heading(2, `QA plan: ${document.metadata.ticketId}`),
+    paragraph([
+      ...labelled('Document version', document.metadata.documentVersion),
+      text(' · '),
+      ...labelled('Coverage', describeCoverage(matrix))
+    ])
+  ]
+
+  const summaryFields = SUMMARY_FIELDS.filter(([key]) => document.ticketSummary[key].trim())
+  if (summaryFields.length > 0) {
+    content.push(heading(3, 'Summary'))
+    summaryFields.forEach(([key, label]) => content.push(paragraph(labelled(label, document.ticketSummary[key].trim()))))
+  }
+
+  document.configurationWarnings.forEach(warning => {
+    content.push({
+      type: 'panel',
+      attrs: { panelType: warning.severity === 'low' ? 'info' : 'warning' },
+      content: [
+        paragraph(warning.title.trim() ? [text(warning.title.trim(), [{ type: 'strong' }])] : []),
+        paragraph(optionalText(warning.message.trim())),
+        paragraph([text(`Recommendation: ${warning.recommendation}`, [{ type: 'em' }])])
+      ]
+    })
+  })
+
+  if (document.acceptanceCriteria.length > 0) {
+    content.push(heading(3, 'Acceptance criteria'))
+    content.push({
+      type: 'taskList',
+      attrs: { localId: 'qa-canvas-criteria' },
+      content: document.acceptanceCriteria.map(criterion => ({
+        type: 'taskItem',
+        attrs: { localId: `qa-canvas-${criterion.id}`, state: 'TODO' },
+        content: [
+          text(`${criterion.id}: ${criterion.title}`, [{ type: 'strong' }]),
+          text(' '),
+          status(criterion.priority),
+          ...(criterion.description.trim() ? [text(` ${singleLine(criterion.description)}`)] : []),
+          ...(criterion.testable ? [] : [text(' (not testable)', [{ type: 'em' }])])
+        ]
+      }))
+    })
+  }
+
+  if (document.testCases.length > 0) {
+    content.push(heading(3, 'Test cases'))
+    document.testCases.forEach(testCase => {
+      content.push(heading(4, `${testCase.id}: ${getTestCaseTitle(testCase)}`))
+      content.push(renderFacts(testCase, matrix))
+      content.push(...renderTestCase(testCase, document))
+    })
+  }
+
+  content.push(
+    { type: 'rule' },
+    paragraph([text(`${QA_PLAN_COMMENT_MARKER} · generated ${document.metadata.generatedAt}`, [{ type: 'em' }])])
+  )
+
+  return { version: 1, type: 'doc', content }
+}
+
+function renderTestCase(testCase: TestCase, document: QACanvasDocument): AdfNode[] {
+  switch (testCase.format) {
+    case 'gherkin': {
+      const tags = testCase.testCase.tags.map(tag => (tag.startsWith('@') ? tag : `@${tag}`))
+      const lines = [
+        ...(tags.length > 0 ? [tags.join(' ')] : []),
+        `Scenario: ${testCase.testCase.scenario}`,
+        ...renderScenarioBody(testCaseToScenario(testCase, document, false)).map(line => (line ? `  ${line}` : line))
+      ]
+      return [{ type: 'codeBlock', attrs: { language: 'gherkin' }, content: [text(lines.join('\n'))] }]
+    }
+
+    case 'steps': {
+      const { objective, preconditions, steps, postconditions } = testCase.testCase
+      const sorted = steps.slice().sort((a, b) => a.stepNumber - b.stepNumber)
+      const hasNotes = sorted.some(step => step.notes)
+      const nodes: AdfNode[] = []
+
+      if (objective.trim()) {
+        nodes.push(paragraph(labelled('Objective', objective.trim())))
+      }
+      if (preconditions.length > 0) {
+        nodes.push(paragraph([text('Preconditions:', [{ type: 'strong' }])]), bulletList(preconditions))
+      }
+      nodes.push(table(
+        ['#', 'Action', 'Expected result', ...(hasNotes ? ['Notes'] : [])],
+        sorted.map(step => [
+          String(step.stepNumber),
+          step.action,
+          step.expectedResult,
+          ...(hasNotes ? [step.notes ?? ''] : [])
+        ])
+      ))
+      if (postconditions.length > 0) {
+        nodes.push(paragraph([text('Postconditions:', [{ type: 'strong' }])]), bulletList(postconditions))
+      }
+      return nodes
+    }
+
+    case 'table': {
+      const { description, testData, expectedOutcome, notes } = testCase.testCase
+      const columns = collectColumns(testData)
+      const nodes: AdfNode[] = []
+
+      if (description.trim()) {
+        nodes.push(paragraph([text(description.trim())]))
+      }
+      if (columns.length > 0) {
+        nodes.push(table(columns, testData.map(row => columns.map(column => row[column] ?? ''))))
+      }
+      nodes.push(paragraph(labelled('Expected outcome', expectedOutcome.trim())))
+      if (notes.trim()) {
+        nodes.push(paragraph(labelled('Notes', notes.trim())))
+      }
+      return nodes
+    }
+  }
+}
+
+function renderFacts(testCase: TestCase, matrix: TraceabilityMatrix): AdfNode {
+  const criteriaIds = matrix.testCases.find(column => column.testCaseId === testCase.id)?.criteriaIds ?? []
+
+  return paragraph([
+    text('Priority: ', [{ type: 'strong' }]),
+    status(testCase.priority),
+    text(' · '),
+    ...labelled('Category', testCase.category),
+    ...(testCase.estimatedTime ? [text(' · '), ...labelled('Estimated time', testCase.estimatedTime)] : []),
+    text(' · '),
+    ...labelled('Covers', criteriaIds.length > 0 ? criteriaIds.join(', ') : 'None')
+  ])
+}
+
+function heading(level: number, value: string): AdfNode {
+  return { type: 'heading', attrs: { level }, content: optionalText(singleLine(value)) }
+}
+
+function paragraph(content: AdfNode[]): AdfNode {
+  return content.length > 0 ? { type: 'paragraph', content } : { type: 'paragraph' }
+}
+
+/**
+ * ADF rejects empty text nodes, so callers spread the result instead of adding a node
+ */
+function optionalText(value: string): AdfNode[] {
+  return value ? [text(value)] : []
+}
+
+function text(value: string, marks?: AdfNode['marks']): AdfNode {
+  return marks ? { type: 'text', text: value, marks } : { type: 'text', text: value }
+}
+
+function labelled(label: string, value: string): AdfNode[] {
+  return [text(`${label}: `, [{ type: 'strong' }]), ...optionalText(value)]
+}
+
+function status(priority: Priority): AdfNode {
+  return { type: 'status', attrs: { text: priority.toUpperCase(), color: STATUS_COLORS[priority] } }
+}
+
+function bulletList(items: string[]): AdfNode {
+  return {
+    type: 'bulletList',
+    content: items.map(item => ({ type: 'listItem', content: [paragraph(optionalText(item.trim()))] }))
+  }
+}
+
+function table(headers: string[], rows: string[][]): AdfNode {
+  const cell = (type: 'tableHeader' | 'tableCell', value: string): AdfNode => ({
+    type,
+    attrs: {},
+    content: [paragraph(optionalText(singleLine(value)))]
+  })
+
+  return {
+    type: 'table',
+    attrs: { isNumberColumnEnabled: false, layout: 'default' },
+    content: [
+      { type: 'tableRow', content: headers.map(header => cell('tableHeader', header)) },
+      ...rows.map(row => ({ type: 'tableRow', content: row.map(value => cell('tableCell', value)) }))
+    ]
+  }
+}
+
+function describeCoverage(matrix: TraceabilityMatrix): string {
+  const { summary } = matrix
+  const testable = summary.totalCriteria - summary.notTestableCriteria
+  return `${summary.coveredCriteria}/${testable} testable criteria covered (${summary.coveragePercent}%)`
+}
+
+function getTestCaseTitle(testCase: TestCase): string {
+  return testCase.format === 'gherkin' ? testCase.testCase.scenario : testCase.testCase.title
+}
+
+/**
+ * Collect all column names across table rows, preserving first-seen order
+ */
+function collectColumns(rows: Array<Record<string, string>>): string[] {
+  const columns: string[] = []
+  rows.forEach(row => Object.keys(row).forEach(column => {
+    if (!columns.includes(column)) {
+      columns.push(column)
+    }
+  }))
+  return columns
+}
+
+function singleLine(value: string): string {
+  return value.replace(/\s*\r?\n\s*/g, ' ').trim()
+}
@@ -0,0 +1,272 @@
+/**
+ * Automation Skeleton Exporter
+ * Turns steps and gherkin test cases into Playwright or Cypress spec files with TODO locators to fill in
+ */
+
+import type { QACanvasDocument } from '../schemas/QACanvasDocument'
+import { normalizeTestCase, type ManualTestCase } from './manualTestCase'
+import { getSummaryHeadline } from './summaryHeadline'
+
+export type AutomationFramework = 'playwright' | 'cypress'
+
+/**
+ * CSS selector proposed for a step, e.g. from a screenshot
+ */
+export interface SelectorProposal {
+  testCaseId: string
+  step: number // 1-based step number within the test case
+  selector: string // element the step's action targets
+  expectedSelector?: string // element showing the step's expected result
+}
+
+/**
+ * Options for Playwright and Cypress export
+ */
+export interface AutomationExportOptions {
+  baseUrl?: string // visited before each test
+  ticketBaseUrl?: string // e.g. "https://acme.atlassian.net/browse/", links the ticket in the header
+  selectors?: SelectorProposal[]
+}
+
+/**
+ * What a step does, derived from the verb its action starts with
+ */
+type StepAction = 'visit' | 'click' | 'fill' | 'select' | 'check' | 'uncheck' | 'hover' | 'upload' | 'other'
+
+const ACTION_VERBS: Array<[StepAction, string[]]> = [
+  ['visit', ['navigate', 'go', 'open', 'visit', 'load', 'browse']],
+  ['uncheck', ['uncheck', 'untick', 'deselect']],
+  ['check', ['check', 'tick']],
+  ['fill', ['enter', 'type', 'fill', 'input', 'provide', 'set', 'change', 'update', 'write']],
+  ['select', ['select', 'choose', 'pick']],
+  ['upload', ['upload', 'attach']],
+  ['hover', ['hover']],
+  ['click', ['click', 'press', 'tap', 'submit', 'toggle', 'expand', 'collapse', 'close', 'confirm', 'cancel', 'save', 'delete', 'remove', 'add']]
+]
+
+const TODO_SELECTOR = 'TODO'
+const TODO_VALUE = '<TODO: value>'
+const VALUE_ACTIONS: StepAction[] = ['fill', 'select', 'upload']
+const INDENT = '  '
+
+/**
+ * Export a QA Canvas document as a Playwright spec file
+ */
+export function exportToPlaywright(document: QACanvasDocument, options: AutomationExportOptions = {}): string {
+  return renderSpec(document, 'playwright', options)
+}
+
+/**
+ * Export a QA Canvas document as a Cypress spec file
+ */
+export function exportToCypress(document: QACanvasDocument, options: AutomationExportOptions = {}): string {
+  return renderSpec(document, 'cypress', options)
+}
+
+/**
+ * Get a file name for the exported spec
+ */
+export function getAutomationFileName(document: QACanvasDocument, framework: AutomationFramework): string {
+  const safeId = document.metadata.ticketId.replace(/[^\w.-]+/g, '_') || 'qa-canvas'
+  return framework === 'playwright' ? `${safeId}.spec.ts` : `${safeId}.cy.ts`
+}
+
+/**
+ * Steps and gherkin test cases that can be turned into automated tests; table test cases are data-driven and left out
+ */
+export function getAutomatableTestCases(document: QACanvasDocument): ManualTestCase[] {
+  return document.testCases
+    .filter(testCase => testCase.format !== 'table')
+    .map(testCase => normalizeTestCase(testCase, document))
+}
+
+function renderSpec(document: QACanvasDocument, framework: AutomationFramework, options: AutomationExportOptions): string {
+  const { ticketId } = document.metadata
+  const testCases = getAutomatableTestCases(document)
+  const skipped = document.testCases.filter(testCase => testCase.format === 'table').map(testCase => testCase.id)
+  const suiteName = buildSuiteName(document)
+
+  const header = [
+    `${framework === 'playwright' ? 'Playwright' : 'Cypress'} tests for ${suiteName}`,
+    `Ticket: ${options.ticketBaseUrl ? `${options.ticketBaseUrl.replace(/\/?$/, '/')}${ticketId}` : ticketId}`,
+    'Generated from the QA Canvas: replace the TODO locators and values before running',
+    ...(skipped.length > 0 ? [`Table test cases not included (automate them as data-driven tests): ${skipped.join(', ')}`] : [])
+  ]
+
+  const lines = ['/**', ...header.map(line => ` * ${toComment(line)}`), ' */']
+  lines.push(framework === 'playwright' ? "import { test, expect } from '@playwright/test'" : '/// <reference types="cypress" />')
+  lines.push('')
+  lines.push(`${framework === 'playwright' ? 'test.describe' : 'describe'}(${quote(suiteName)}, () => {`)
+
+  const blocks = testCases.map(testCase => renderTest(testCase, framework, options.selectors || []))
+  if (options.baseUrl) {
+    blocks.unshift([
+      framework === 'playwright' ? 'test.beforeEach(async ({ page }) => {' : 'beforeEach(() => {',
+      `${INDENT}${framework === 'playwright' ? `await page.goto(${quote(options.baseUrl)})` : `cy.visit(${quote(options.baseUrl)})`}`,
+      '})'
+    ])
+  }
+
+  blocks.forEach((block, index) => {
+    if (index > 0) lines.push('')
+    lines.push(...block.map(line => (line ? `${INDENT}${line}` : line)))
+  })
+
+  lines.push('})')
+  return `${lines.join('\n')}\n`
+}
+
+function renderTest(testCase: ManualTestCase, framework: AutomationFramework, selectors: SelectorProposal[]): string[] {
+  const title = quote(`${testCase.id}: ${testCase.title}`)
+  const tags = buildTags(testCase).map(quote).join(', ')
+  const lines = framework === 'playwright'
+    ? [`test(${title}, { tag: [${tags}] }, async ({ page }) => {`]
+    : [`it(${title}, { tags: [${tags}] }, () => {`]
+
+  const body: string[] = []
+  if (testCase.objective && testCase.objective !== testCase.title) {
+    body.push(`// Objective: ${toComment(testCase.objective)}`)
+  }
+  testCase.preconditions.forEach(precondition => body.push(`// Precondition: ${toComment(precondition)}`))
+  if (body.length > 0) body.push('')
+
+  testCase.steps.forEach((testStep, index) => {
+    const proposal = selectors.find(item => item.testCaseId === testCase.id && item.step === index + 1)
+    const stepTitle = `${index + 1}. ${testStep.action}`
+    const stepLines = [
+      ...renderAction(testStep.action, testStep.data, proposal?.selector, framework),
+      ...renderExpectations(testStep.expectedResult, proposal?.expectedSelector, framework)
+    ]
+
+    if (framework === 'playwright') {
+      body.push(`await test.step(${quote(stepTitle)}, async () => {`)
+      body.push(...stepLines.map(line => `${INDENT}${line}`))
+      body.push('})')
+    } else {
+      if (index > 0) body.push('')
+      body.push(`cy.log(${quote(stepTitle)})`)
+      body.push(...stepLines)
+    }
+  })
+
+  lines.push(...body.map(line => (line ? `${INDENT}${line}` : line)))
+  lines.push('})')
+  return lines
+}
+
+function renderAction(action: string, data: string | undefined, selector: string | undefined, framework: AutomationFramework): string[] {
+  const kind = classifyAction(action)
+  const quotedValue = findQuotedValue(action)
+  const value = quote(quotedValue || TODO_VALUE)
+  const lines = data ? [`// Data: ${toComment(data)}`] : []
+  const target = framework === 'playwright'
+    ? `page.locator(${quote(selector || TODO_SELECTOR)})`
+    : `cy.get(${quote(selector || TODO_SELECTOR)})`
+
+  if (kind === 'visit') {
+    const url = quote(action.match(/\bhttps?:\/\/\S+|(?:^|\s)(\/[\w/.-]*)/)?.[0].trim() || '/')
+    return [...lines, framework === 'playwright' ? `await page.goto(${url})` : `cy.visit(${url})`]
+  }
+
+  if (kind === 'other') {
+    return [...lines, `// TODO: ${toComment(action)}${selector ? ` using ${target}` : ''}`]
+  }
+
+  if (!selector) {
+    lines.push(`// TODO: locator for: ${toComment(action)}`)
+  }
+  if (!quotedValue && VALUE_ACTIONS.includes(kind)) {
+    lines.push(`// TODO: value for: ${toComment(action)}`)
+  }
+
+  const playwrightCalls: Record<Exclude<StepAction, 'visit' | 'other'>, string> = {
+    click: 'click()',
+    fill: `fill(${value})`,
+    select: `selectOption(${value})`,
+    check: 'check()',
+    uncheck: 'uncheck()',
+    hover: 'hover()',
+    upload: `setInputFiles(${value})`
+  }
+  const cypressCalls: Record<Exclude<StepAction, 'visit' | 'other'>, string> = {
+    click: 'click()',
+    fill: `clear().type(${value})`,
+    select: `select(${value})`,
+    check: 'check()',
+    uncheck: 'uncheck()',
+    hover: "trigger('mouseover')",
+    upload: `selectFile(${value})`
+  }
+
+  lines.push(framework === 'playwright'
+    ? `await ${target}.${playwrightCalls[kind]}`
+    : `${target}.${cypressCalls[kind]}`)
+  return lines
+}
+
+/**
+ * Assert each expected result; quoted text is asserted directly, anything else needs a locator
+ */
+function renderExpectations(expectedResult: string, selector: string | undefined, framework: AutomationFramework): string[] {
+  return expectedResult.split('\n').filter(Boolean).flatMap(expected => {
+    const text = findQuotedValue(expected)
+    const lines = [`// Expected: ${toComment(expected)}`]
+
+    if (selector) {
+      lines.push(framework === 'playwright'
+        ? `await expect(page.locator(${quote(selector)})).toBeVisible()`
+        : `cy.get(${quote(selector)}).should('be.visible')`)
+    } else if (text) {
+      lines.push(framework === 'playwright'
+        ? `await expect(page.getByText(${quote(text)})).toBeVisible()`
+        : `cy.contains(${quote(text)}).should('be.visible')`)
+    } else {
+      lines.push('// TODO: locator for the expected result')
+      lines.push(framework === 'playwright'
+        ? `await expect(page.locator(${quote(TODO_SELECTOR)})).toBeVisible()`
+        : `cy.get(${quote(TODO_SELECTOR)}).should('be.visible')`)
+    }
+
+    return lines
+  })
+}
+
+function classifyAction(action: string): StepAction {
+  const firstWord = action.toLowerCase().replace(/^(?:the\s+)?(?:user|customer|admin|i)\s+/, '').split(/\s+/)[0]
+  const match = ACTION_VERBS.find(([, verbs]) => verbs.some(verb => firstWord === verb || firstWord === `${verb}s` || firstWord === `${verb}es`))
+  return match ? match[0] : 'other'
+}
+
+/**
+ * Tags from category, priority, covered criteria and gherkin tags
+ */
+function buildTags(testCase: ManualTestCase): string[] {
+  return Array.from(new Set([
+    testCase.category,
+    `priority-${testCase.priority}`,
+    ...testCase.labels
+  ].map(label => `@${label.replace(/[^\w.:-]/g, '')}`)))
+}
+
+function buildSuiteName(document: QACanvasDocument): string {
+  const headline = getSummaryHeadline(document)
+  return headline ? `${document.metadata.ticketId} - ${headline}` : document.metadata.ticketId
+}
+
+function findQuotedValue(text: string): string | undefined {
+  return text.match(/"([^"]+)"|“([^”]+)”|'([^']+)'(?!\w)/)?.slice(1).find(Boolean)
+}
+
+/**
+ * Single-quoted JavaScript string literal
+ */
+function quote(text: string): string {
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\r?\n/g, '\\n')}'`
+}
+
+/**
+ * Collapse whitespace and keep comments from being closed early
+ */
+function toComment(text: string): string {
+  return text.replace(/\s+/g, ' ').replace(/\*\//g, '* /').trim()
+}
@@ -0,0 +1,29 @@
+/**
+ * CSV Utilities
+ * RFC 4180 serialization shared by the CSV-based exporters
+ */
+
+export type CsvRow = Record<string, string | number | undefined>
+
+const CSV_LINE_BREAK = '\r\n'
+
+/**
+ * Serialize rows into CSV using the given column order
+ */
+export function toCsv(columns: string[], rows: CsvRow[]): string {
+  const lines = [
+    columns.map(escapeCsvValue).join(','),
+    ...rows.map(row => columns.map(column => escapeCsvValue(row[column])).join(','))
+  ]
+  return `${lines.join(CSV_LINE_BREAK)}${CSV_LINE_BREAK}`
+}
+
+/**
+ * Quote a value when it contains separators, quotes or line breaks
+ */
+export function escapeCsvValue(value: string | number | undefined): string {
+  if (value === undefined || value === null) return ''
+
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
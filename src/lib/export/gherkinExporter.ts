@@ -0,0 +1,387 @@
+/**
+ * Gherkin Feature Exporter
+ * Converts QA Canvas documents into runnable Cucumber .feature files
+ */
+
+import type { QACanvasDocument, TestCase } from '../schemas/QACanvasDocument'
+import { findCriteriaForTestCase } from '../ai/suggestionAlgorithms'
+import { getSummaryHeadline } from './summaryHeadline'
+
+/**
+ * Options for Gherkin export
+ */
+export interface GherkinExportOptions {
+  featureName?: string
+  includeBackground?: boolean
+  includeCriteriaTags?: boolean
+}
+
+/**
+ * Gherkin step keyword type (And is derived while rendering)
+ */
+type GherkinStepType = 'given' | 'when' | 'then'
+
+interface GherkinStep {
+  type: GherkinStepType
+  text: string
+}
+
+/**
+ * Intermediate scenario representation shared by all test case formats
+ */
+export interface GherkinScenario {
+  name: string
+  description?: string
+  tags: string[]
+  steps: GherkinStep[]
+  examples?: {
+    headers: string[]
+    rows: string[][]
+  }
+}
+
+const INDENT = '  '
+
+const STEP_KEYWORDS: Record<GherkinStepType, string> = {
+  given: 'Given',
+  when: 'When',
+  then: 'Then'
+}
+
+/**
+ * Default export options
+ */
+const defaultOptions: Required<Omit<GherkinExportOptions, 'featureName'>> = {
+  includeBackground: true,
+  includeCriteriaTags: true
+}
+
+/**
+ * Export a QA Canvas document as a Gherkin .feature file
+ */
+export function exportToGherkin(
+  document: QACanvasDocument,
+  options: GherkinExportOptions = {}
+): string {
+  const mergedOptions = { ...defaultOptions, ...options }
+  const ticketTag = toTag(document.metadata.ticketId)
+
+  let scenarios = document.testCases.map(testCase =>
+    testCaseToScenario(testCase, document, mergedOptions.includeCriteriaTags)
+  )
+
+  let background: GherkinStep[] = []
+  if (mergedOptions.includeBackground) {
+    background = extractSharedGivens(scenarios)
+    scenarios = scenarios.map(scenario => ({
+      ...scenario,
+      steps: scenario.steps.slice(background.length)
+    }))
+  }
+
+  const lines: string[] = []
+  lines.push(ticketTag)
+  lines.push(`Feature: ${sanitizeLine(options.featureName || buildFeatureName(document))}`)
+  lines.push(...buildFeatureDescription(document).map(line => `${INDENT}${line}`))
+
+  if (background.length > 0) {
+    lines.push('')
+    lines.push(`${INDENT}Background:`)
+    lines.push(...renderSteps(background).map(line => `${INDENT}${INDENT}${line}`))
+  }
+
+  scenarios.forEach(scenario => {
+    lines.push('')
+    lines.push(...renderScenario(scenario).map(line => `${INDENT}${line}`))
+  })
+
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * Get a file name for the exported feature
+ */
+export function getFeatureFileName(document: QACanvasDocument): string {
+  const safeId = document.metadata.ticketId.replace(/[^\w.-]+/g, '_') || 'qa-canvas'
+  return `${safeId}.feature`
+}
+
+/**
+ * Convert a single test case into a Gherkin scenario
+ */
+export function testCaseToScenario(
+  testCase: TestCase,
+  document: QACanvasDocument,
+  includeCriteriaTags: boolean = true
+): GherkinScenario {
+  const tags = buildScenarioTags(testCase, document, includeCriteriaTags)
+
+  switch (testCase.format) {
+    case 'gherkin': {
+      const { scenario, given, when, then } = testCase.testCase
+      return {
+        name: scenario,
+        tags: uniqueTags([...tags, ...testCase.testCase.tags.map(toTag)]),
+        steps: [
+          ...given.map(text => step('given', text)),
+          ...when.map(text => step('when', text)),
+          ...then.map(text => step('then', text))
+        ]
+      }
+    }
+
+    case 'steps': {
+      const { title, objective, preconditions, steps, postconditions } = testCase.testCase
+      const scenarioSteps: GherkinStep[] = preconditions.map(text => step('given', text))
+
+      steps
+        .slice()
+        .sort((a, b) => a.stepNumber - b.stepNumber)
+        .forEach(testStep => {
+          scenarioSteps.push(step('when', testStep.action))
+          scenarioSteps.push(step('then', testStep.expectedResult))
+        })
+
+      postconditions.forEach(text => scenarioSteps.push(step('then', text)))
+
+      return {
+        name: title,
+        description: objective,
+        tags,
+        steps: scenarioSteps
+      }
+    }
+
+    case 'table': {
+      const { title, description, testData, expectedOutcome, notes } = testCase.testCase
+      const headers = collectColumns(testData)
+      const inputColumns = headers.filter(header => !isExpectationColumn(header))
+      const expectationColumns = headers.filter(isExpectationColumn)
+
+      const scenarioSteps: GherkinStep[] = [
+        ...inputColumns.map(column => step('given', `the ${column} is "<${column}>"`)),
+        step('when', description),
+        ...expectationColumns.map(column => step('then', `the result should be "<${column}>"`)),
+        step('then', expectedOutcome)
+      ]
+
+      // A Scenario Outline without example rows is not runnable
+      if (headers.length === 0) {
+        return {
+          name: title,
+          description: notes || undefined,
+          tags,
+          steps: scenarioSteps
+        }
+      }
+
+      return {
+        name: title,
+        description: notes || undefined,
+        tags,
+        steps: scenarioSteps,
+        examples: {
+          headers,
+          rows: testData.map(row => headers.map(header => row[header] ?? ''))
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Build tags for a scenario: ticket key, priority, category and covered criteria
+ */
+function buildScenarioTags(
+  testCase: TestCase,
+  document: QACanvasDocument,
+  includeCriteriaTags: boolean
+): string[] {
+  const tags = [
+    toTag(document.metadata.ticketId),
+    toTag(testCase.id),
+    toTag(`priority-${testCase.priority}`),
+    toTag(testCase.category)
+  ]
+
+  if (includeCriteriaTags) {
+    findCriteriaForTestCase(testCase, document.acceptanceCriteria)
+      .forEach(criterion => tags.push(toTag(criterion.id)))
+  }
+
+  return uniqueTags(tags)
+}
+
+/**
+ * Find the leading Given steps shared by every scenario
+ * Only applies when there are at least two scenarios
+ */
+function extractSharedGivens(scenarios: GherkinScenario[]): GherkinStep[] {
+  if (scenarios.length < 2) {
+    return []
+  }
+
+  const [first, ...rest] = scenarios
+  const shared: GherkinStep[] = []
+
+  for (let i = 0; i < first.steps.length; i++) {
+    const candidate = first.steps[i]
+    if (candidate.type !== 'given') break
+
+    const allShare = rest.every(scenario => {
+      const other = scenario.steps[i]
+      return other && other.type === 'given' && normalizeText(other.text) === normalizeText(candidate.text)
+    })
+    if (!allShare) break
+
+    shared.push(candidate)
+  }
+
+  // Keep at least one step in every scenario after moving givens to the background
+  const minimumRemaining = Math.min(...scenarios.map(scenario => scenario.steps.length - shared.length))
+  return minimumRemaining > 0 ? shared : shared.slice(0, shared.length + minimumRemaining - 1)
+}
+
+/**
+ * Render a scenario (or scenario outline) without indentation
+ */
+function renderScenario(scenario: GherkinScenario): string[] {
+  const lines: string[] = []
+
+  if (scenario.tags.length > 0) {
+    lines.push(scenario.tags.join(' '))
+  }
+
+  lines.push(`${scenario.examples ? 'Scenario Outline' : 'Scenario'}: ${sanitizeLine(scenario.name)}`)
+
+  if (scenario.description) {
+    lines.push(`${INDENT}${sanitizeLine(scenario.description)}`)
+    lines.push('')
+  }
+
+  lines.push(...renderScenarioBody(scenario).map(line => (line ? `${INDENT}${line}` : line)))
+
+  return lines
+}
+
+/**
+ * Render the steps and examples of a scenario without its header
+ * Used by tools that store the scenario definition separately (e.g. Xray)
+ */
+export function renderScenarioBody(scenario: GherkinScenario): string[] {
+  const lines = renderSteps(scenario.steps)
+
+  if (scenario.examples) {
+    lines.push('')
+    lines.push('Examples:')
+    lines.push(`${INDENT}${renderTableRow(scenario.examples.headers)}`)
+    scenario.examples.rows.forEach(row => {
+      lines.push(`${INDENT}${renderTableRow(row)}`)
+    })
+  }
+
+  return lines
+}
+
+/**
+ * Render steps using And for consecutive steps of the same type
+ */
+function renderSteps(steps: GherkinStep[]): string[] {
+  let previousType: GherkinStepType | null = null
+
+  return steps.map(current => {
+    const keyword = current.type === previousType ? 'And' : STEP_KEYWORDS[current.type]
+    previousType = current.type
+    return `${keyword} ${current.text}`
+  })
+}
+
+/**
+ * Render a Gherkin data table row
+ */
+function renderTableRow(cells: string[]): string {
+  const escaped = cells.map(cell =>
+    sanitizeLine(String(cell))
+      .replace(/\\/g, '\\\\')
+      .replace(/\|/g, '\\|')
+  )
+  return `| ${escaped.join(' | ')} |`
+}
+
+/**
+ * Create a step, stripping any Gherkin keyword the AI already included
+ */
+function step(type: GherkinStepType, text: string): GherkinStep {
+  const cleaned = sanitizeLine(text).replace(/^(given|when|then|and|but)\s+/i, '')
+  return { type, text: cleaned || '(no description)' }
+}
+
+/**
+ * Collect all column names across table rows, preserving first-seen order
+ */
+function collectColumns(rows: Array<Record<string, string>>): string[] {
+  const columns: string[] = []
+  rows.forEach(row => {
+    Object.keys(row).forEach(key => {
+      if (!columns.includes(key)) {
+        columns.push(key)
+      }
+    })
+  })
+  return columns
+}
+
+/**
+ * Columns that describe expected output rather than input
+ */
+function isExpectationColumn(column: string): boolean {
+  return /^(expected|result|outcome)/i.test(column.trim())
+}
+
+/**
+ * Build a feature name from the document metadata and summary
+ */
+function buildFeatureName(document: QACanvasDocument): string {
+  const headline = getSummaryHeadline(document)
+
+  return headline
+    ? `${document.metadata.ticketId} - ${headline}`
+    : document.metadata.ticketId
+}
+
+/**
+ * Build the free-form feature description from the ticket summary
+ */
+function buildFeatureDescription(document: QACanvasDocument): string[] {
+  const { problem, solution, context } = document.ticketSummary
+  const lines: string[] = []
+
+  if (problem) lines.push(`Problem: ${sanitizeLine(problem)}`)
+  if (solution) lines.push(`Solution: ${sanitizeLine(solution)}`)
+  if (context) lines.push(`Context: ${sanitizeLine(context)}`)
+
+  return lines
+}
+
+/**
+ * Convert arbitrary text into a valid Gherkin tag
+ */
+function toTag(value: string): string {
+  const cleaned = value.trim().replace(/^@+/, '').replace(/\s+/g, '-').replace(/[^\w.:-]/g, '')
+  return `@${cleaned || 'untagged'}`
+}
+
+function uniqueTags(tags: string[]): string[] {
+  return Array.from(new Set(tags))
+}
+
+/**
+ * Collapse whitespace and newlines so text fits on a single Gherkin line
+ */
+function sanitizeLine(text: string): string {
+  return (text || '').replace(/\s+/g, ' ').trim()
+}
+
+function normalizeText(text: string): string {
+  return sanitizeLine(text).toLowerCase()
+}
@@ -0,0 +1,158 @@
+/**
+ * Export System - Main exports
+ * Registry of export targets used by the /api/export route
+ */
+
+import type { QACanvasDocument } from '../schemas/QACanvasDocument'
+import { exportToGherkin, getFeatureFileName, type GherkinExportOptions } from './gherkinExporter'
+import { exportToTestRail, getTestRailFileName, type TestRailExportOptions } from './testRailExporter'
+import { exportToXray, getXrayFileName, type XrayExportOptions } from './xrayExporter'
+import { exportToZephyr, getZephyrFileName, type ZephyrExportOptions } from './zephyrExporter'
+import {
+  exportToCypress,
+  exportToPlaywright,
+  getAutomationFileName,
+  type AutomationExportOptions
+} from './automationExporter'
+import { exportToHttpFile, exportToPostman, getPostmanFileName, type PostmanExportOptions } from './postmanExporter'
+import {
+  exportTraceabilityCsv,
+  exportTraceabilityJson,
+  exportTraceabilityMarkdown,
+  getTraceabilityFileName
+} from './traceabilityExporter'
+
+/**
+ * Supported export targets
+ */
+export const EXPORT_TARGETS = [
+  'gherkin',
+  'testrail',
+  'xray',
+  'zephyr',
+  'traceability-json',
+  'traceability-csv',
+  'traceability-markdown',
+  'playwright',
+  'cypress',
+  'postman',
+  'http'
+] as const
+
+export type ExportTarget = typeof EXPORT_TARGETS[number]
+
+/**
+ * Union of options accepted by all exporters; each exporter reads only its own keys
+ */
+export type ExportOptions = GherkinExportOptions & TestRailExportOptions & XrayExportOptions & ZephyrExportOptions & AutomationExportOptions & PostmanExportOptions
+
+/**
+ * Rendered export ready to be sent as a file download
+ */
+export interface ExportResult {
+  content: string
+  contentType: string
+  fileName: string
+}
+
+interface ExportTargetHandler {
+  contentType: string
+  render: (document: QACanvasDocument, options: ExportOptions) => string
+  getFileName: (document: QACanvasDocument) => string
+}
+
+const exportTargets: Record<ExportTarget, ExportTargetHandler> = {
+  gherkin: {
+    contentType: 'text/plain; charset=utf-8',
+    render: exportToGherkin,
+    getFileName: getFeatureFileName
+  },
+  testrail: {
+    contentType: 'text/csv; charset=utf-8',
+    render: exportToTestRail,
+    getFileName: getTestRailFileName
+  },
+  xray: {
+    contentType: 'application/json; charset=utf-8',
+    render: (document, options) => JSON.stringify(exportToXray(document, options), null, 2),
+    getFileName: getXrayFileName
+  },
+  zephyr: {
+    contentType: 'text/csv; charset=utf-8',
+    render: exportToZephyr,
+    getFileName: getZephyrFileName
+  },
+  'traceability-json': {
+    contentType: 'application/json; charset=utf-8',
+    render: exportTraceabilityJson,
+    getFileName: document => getTraceabilityFileName(document, 'json')
+  },
+  'traceability-csv': {
+    contentType: 'text/csv; charset=utf-8',
+    render: exportTraceabilityCsv,
+    getFileName: document => getTraceabilityFileName(document, 'csv')
+  },
+  'traceability-markdown': {
+    contentType: 'text/markdown; charset=utf-8',
+    render: exportTraceabilityMarkdown,
+    getFileName: document => getTraceabilityFileName(document, 'md')
+  },
+  playwright: {
+    contentType: 'text/plain; charset=utf-8',
+    render: exportToPlaywright,
+    getFileName: document => getAutomationFileName(document, 'playwright')
+  },
+  cypress: {
+    contentType: 'text/plain; charset=utf-8',
+    render: exportToCypress,
+    getFileName: document => getAutomationFileName(document, 'cypress')
+  },
+  postman: {
+    contentType: 'application/json; charset=utf-8',
+    render: exportToPostman,
+    getFileName: document => getPostmanFileName(document, 'postman')
+  },
+  http: {
+    contentType: 'text/plain; charset=utf-8',
+    render: exportToHttpFile,
+    getFileName: document => getPostmanFileName(document, 'http')
+  }
+}
+
+/**
+ * Render a document for the given export target
+ */
+export function exportDocument(
+  document: QACanvasDocument,
+  target: ExportTarget,
+  options: ExportOptions = {}
+): ExportResult {
+  const handler = exportTargets[target]
+
+  return {
+    content: handler.render(document, options),
+    contentType: handler.contentType,
+    fileName: handler.getFileName(document)
+  }
+}
+
+export { exportToGherkin, getFeatureFileName, testCaseToScenario } from './gherkinExporter'
+export { exportToTestRail } from './testRailExporter'
+export { exportToXray } from './xrayExporter'
+export { exportToZephyr } from './zephyrExporter'
+export { normalizeTestCase, normalizeTestCases, parseEstimatedMinutes } from './manualTestCase'
+export { exportTraceabilityCsv, exportTraceabilityJson, exportTraceabilityMarkdown } from './traceabilityExporter'
+export { exportToCypress, exportToPlaywright, getAutomatableTestCases, getAutomationFileName } from './automationExporter'
+export { buildApiRequestPlan, exportToHttpFile, exportToPostman } from './postmanExporter'
+export { documentToAdf, QA_PLAN_COMMENT_MARKER } from './adfFormatter'
+export { renderConfluenceReport, renderHtmlReport, renderMarkdownReport, renderReport, REPORT_FORMATS } from './reportRenderer'
+
+export type { GherkinExportOptions, GherkinScenario } from './gherkinExporter'
+export type { TestRailExportOptions } from './testRailExporter'
+export type { XrayExportOptions, XrayTest } from './xrayExporter'
+export type { ZephyrExportOptions } from './zephyrExporter'
+export type { ManualTestCase, ManualTestStep } from './manualTestCase'
+export type { AutomationExportOptions, AutomationFramework, SelectorProposal } from './automationExporter'
+export type { ApiRequestFolder, ApiRequestStub, PostmanExportOptions } from './postmanExporter'
+export type { AdfDocument } from './adfFormatter'
+export type { RenderedReport, ReportFormat, ReportOptions } from './reportRenderer'
@@ -0,0 +1,212 @@
+/**
+ * Manual Test Case Normalizer
+ * Flattens gherkin, steps and table test cases into a single step-based shape for test management tools
+ */
+
+import type { QACanvasDocument, TestCase } from '../schemas/QACanvasDocument'
+import { findCriteriaForTestCase } from '../ai/suggestionAlgorithms'
+
+/**
+ * A single manual step with optional test data
+ */
+export interface ManualTestStep {
+  action: string
+  data?: string
+  expectedResult: string
+}
+
+/**
+ * Tool-agnostic representation of a test case
+ */
+export interface ManualTestCase {
+  id: string
+  title: string
+  objective: string
+  format: TestCase['format']
+  category: string
+  priority: TestCase['priority']
+  estimatedTime?: string
+  estimatedMinutes?: number
+  preconditions: string[]
+  steps: ManualTestStep[]
+  ticketId: string
+  criteriaIds: string[]
+  labels: string[]
+}
+
+/**
+ * Normalize every test case in a document
+ */
+export function normalizeTestCases(document: QACanvasDocument): ManualTestCase[] {
+  return document.testCases.map(testCase => normalizeTestCase(testCase, document))
+}
+
+/**
+ * Normalize a single test case into manual steps
+ */
+export function normalizeTestCase(testCase: TestCase, document: QACanvasDocument): ManualTestCase {
+  const criteriaIds = findCriteriaForTestCase(testCase, document.acceptanceCriteria)
+    .map(criterion => criterion.id)
+
+  const base = {
+    id: testCase.id,
+    format: testCase.format,
+    category: testCase.category,
+    priority: testCase.priority,
+    estimatedTime: testCase.estimatedTime,
+    estimatedMinutes: parseEstimatedMinutes(testCase.estimatedTime),
+    ticketId: document.metadata.ticketId,
+    criteriaIds
+  }
+
+  switch (testCase.format) {
+    case 'gherkin': {
+      const { scenario, given, when, then, tags } = testCase.testCase
+      return {
+        ...base,
+        title: scenario,
+        objective: scenario,
+        preconditions: given.map(cleanText).filter(Boolean),
+        steps: pairActionsWithResults(when, then),
+        labels: buildLabels(testCase, criteriaIds, tags)
+      }
+    }
+
+    case 'steps': {
+      const { title, objective, preconditions, steps, postconditions } = testCase.testCase
+      const manualSteps: ManualTestStep[] = steps
+        .slice()
+        .sort((a, b) => a.stepNumber - b.stepNumber)
+        .map(testStep => ({
+          action: cleanText(testStep.action),
+          data: testStep.notes ? cleanText(testStep.notes) : undefined,
+          expectedResult: cleanText(testStep.expectedResult)
+        }))
+
+      // Postconditions are verified after the last step
+      if (postconditions.length > 0 && manualSteps.length > 0) {
+        const last = manualSteps[manualSteps.length - 1]
+        last.expectedResult = joinLines([last.expectedResult, ...postconditions.map(cleanText)])
+      }
+
+      return {
+        ...base,
+        title,
+        objective,
+        preconditions: preconditions.map(cleanText).filter(Boolean),
+        steps: manualSteps,
+        labels: buildLabels(testCase, criteriaIds)
+      }
+    }
+
+    case 'table': {
+      const { title, description, testData, expectedOutcome, notes } = testCase.testCase
+      const action = cleanText(description) || title
+
+      // One step per data row; rows without their own expectation fall back to the shared outcome
+      const manualSteps: ManualTestStep[] = testData.map(row => {
+        const inputs = Object.entries(row).filter(([column]) => !isExpectationColumn(column))
+        const expectations = Object.entries(row).filter(([column]) => isExpectationColumn(column))
+
+        return {
+          action,
+          data: inputs.map(([column, value]) => `${column}: ${value}`).join(', ') || undefined,
+          expectedResult: expectations.length > 0
+            ? expectations.map(([, value]) => cleanText(value)).join('; ')
+            : cleanText(expectedOutcome)
+        }
+      })
+
+      if (manualSteps.length === 0) {
+        manualSteps.push({ action, expectedResult: cleanText(expectedOutcome) })
+      }
+
+      return {
+        ...base,
+        title,
+        objective: joinLines([cleanText(description), cleanText(notes)]),
+        preconditions: [],
+        steps: manualSteps,
+        labels: buildLabels(testCase, criteriaIds)
+      }
+    }
+  }
+}
+
+/**
+ * Parse free-form estimates such as "5 minutes", "1h 30m" or "2 hours" into minutes
+ */
+export function parseEstimatedMinutes(estimate?: string): number | undefined {
+  if (!estimate) return undefined
+
+  const text = estimate.toLowerCase()
+  let minutes = 0
+  let matched = false
+
+  const hours = text.match(/(\d+(?:\.\d+)?)\s*(h|hr|hrs|hour|hours)\b/)
+  if (hours) {
+    minutes += parseFloat(hours[1]) * 60
+    matched = true
+  }
+
+  const mins = text.match(/(\d+(?:\.\d+)?)\s*(m|min|mins|minute|minutes)\b/)
+  if (mins) {
+    minutes += parseFloat(mins[1])
+    matched = true
+  }
+
+  // A bare number is treated as minutes
+  if (!matched) {
+    const bare = text.match(/^\s*(\d+(?:\.\d+)?)\s*$/)
+    if (!bare) return undefined
+    minutes = parseFloat(bare[1])
+  }
+
+  return minutes > 0 ? Math.round(minutes) : undefined
+}
+
+/**
+ * Pair When actions with Then results; extra results are attached to the last step
+ */
+function pairActionsWithResults(actions: string[], results: string[]): ManualTestStep[] {
+  const cleanActions = actions.map(cleanText).filter(Boolean)
+  const cleanResults = results.map(cleanText).filter(Boolean)
+
+  if (cleanActions.length === 0) {
+    return [{ action: 'Execute the scenario', expectedResult: joinLines(cleanResults) }]
+  }
+
+  return cleanActions.map((action, index) => {
+    const isLast = index === cleanActions.length - 1
+    const expected = isLast ? cleanResults.slice(index) : cleanResults.slice(index, index + 1)
+    return { action, expectedResult: joinLines(expected) }
+  })
+}
+
+/**
+ * Labels shared by all tools: category plus covered criteria
+ */
+function buildLabels(testCase: TestCase, criteriaIds: string[], extraTags: string[] = []): string[] {
+  const labels = [testCase.category, ...criteriaIds, ...extraTags]
+    .map(label => label.trim().replace(/^@+/, '').replace(/\s+/g, '-'))
+    .filter(Boolean)
+  return Array.from(new Set(labels))
+}
+
+/**
+ * Columns that describe expected output rather than input
+ */
+function isExpectationColumn(column: string): boolean {
+  return /^(expected|result|outcome)/i.test(column.trim())
+}
+
+/**
+ * Strip Gherkin keywords the AI sometimes includes and collapse whitespace
+ */
+function cleanText(text: string): string {
+  return (text || '').replace(/\s+/g, ' ').trim().replace(/^(given|when|then|and|but)\s+/i, '')
+}
+
+function joinLines(lines: string[]): string {
+  return lines.filter(Boolean).join('\n')
+}
@@ -0,0 +1,366 @@
+/**
+ * Postman and HTTP File Exporter
+ * Turns API test cases and criteria into a Postman v2.1 collection or a .http file with request stubs and assertions
+ */
+
+import type { AcceptanceCriterion, QACanvasDocument } from '../schemas/QACanvasDocument'
+import { findCriteriaForTestCase } from '../ai/suggestionAlgorithms'
+import { normalizeTestCase, type ManualTestCase } from './manualTestCase'
+import { getSummaryHeadline } from './summaryHeadline'
+
+/**
+ * Options for Postman and .http export
+ */
+export interface PostmanExportOptions {
+  baseUrl?: string // value of the {{baseUrl}} variable
+}
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS'
+
+/**
+ * Expected status: an exact code or a class such as 2xx
+ */
+export type ExpectedStatus = number | '2xx' | '4xx'
+
+/**
+ * Request stub for one API test case, or for one step calling its own endpoint
+ */
+export interface ApiRequestStub {
+  name: string
+  description: string
+  method: HttpMethod
+  path: string // relative to {{baseUrl}}, path variables as :name
+  body?: string
+  expectedStatus: ExpectedStatus
+  expectedFields: Array<{ path: string; value?: string }>
+  expectations: string[] // expected results, kept as comments
+}
+
+/**
+ * Requests grouped by the acceptance criterion they verify
+ */
+export interface ApiRequestFolder {
+  name: string
+  description: string
+  criterionId?: string
+  requests: ApiRequestStub[]
+}
+
+const POSTMAN_SCHEMA = 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json'
+const DEFAULT_BASE_URL = 'http://localhost:3000'
+const UNLINKED_FOLDER = 'Test cases without criteria'
+
+const EXPLICIT_REQUEST = /\b(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)\s+((?:https?:\/\/[^\s/]+)?\/[^\s"'`,;)]*)/
+const PATH_ONLY = /(?:^|[\s("'`])(\/(?:api|v\d+)\/[^\s"'`,;)]*)/i
+
+const METHOD_VERBS: Array<[HttpMethod, RegExp]> = [
+  ['DELETE', /\b(delete|deletes|deleting|remove|removes|removing)\b/i],
+  ['PATCH', /\b(partially update|patch|patches)\b/i],
+  ['PUT', /\b(update|updates|updating|replace|replaces|edit|edits|change|changes)\b/i],
+  ['POST', /\b(create|creates|creating|add|adds|submit|submits|post|posts|register|registers|send|sends|upload|uploads)\b/i]
+]
+
+const STATUS_PHRASES: Array<[number, RegExp]> = [
+  [201, /\bcreated\b/i],
+  [204, /\bno content\b/i],
+  [400, /\b(bad request|validation error|invalid request)\b/i],
+  [401, /\b(unauthori[sz]ed|unauthenticated)\b/i],
+  [403, /\bforbidden\b/i],
+  [404, /\bnot found\b/i],
+  [409, /\bconflict\b/i],
+  [422, /\bunprocessable\b/i],
+  [429, /\btoo many requests\b/i]
+]
+
+/**
+ * Build the request stubs for the API test cases and criteria, one folder per acceptance criterion
+ * API criteria without API test cases get a single stub from the criterion text
+ */
+export function buildApiRequestPlan(document: QACanvasDocument): ApiRequestFolder[] {
+  const apiTestCases = document.testCases.filter(testCase => testCase.category.toLowerCase() === 'api')
+  const endpoints = findEndpoints([
+    document.ticketSummary.solution,
+    document.ticketSummary.context,
+    ...document.acceptanceCriteria.map(criterion => criterion.description),
+    ...apiTestCases.map(testCase => getManualText(normalizeTestCase(testCase, document)))
+  ].join('\n'))
+
+  const folders = new Map<string, ApiRequestFolder>()
+  const folderFor = (criterion?: AcceptanceCriterion): ApiRequestFolder => {
+    const key = criterion?.id || UNLINKED_FOLDER
+    if (!folders.has(key)) {
+      folders.set(key, {
+        name: criterion ? `${criterion.id}: ${criterion.title}` : UNLINKED_FOLDER,
+        description: criterion ? `${criterion.description} (${criterion.priority})` : 'API test cases not linked to an acceptance criterion',
+        criterionId: criterion?.id,
+        requests: []
+      })
+    }
+    return folders.get(key)!
+  }
+
+  // Create the folders in criteria order, then add each test case to the first criterion it covers
+  const covering = apiTestCases.map(testCase => findCriteriaForTestCase(testCase, document.acceptanceCriteria))
+  document.acceptanceCriteria
+    .filter(criterion => criterion.category === 'api' || covering.some(criteria => criteria.includes(criterion)))
+    .forEach(criterion => folderFor(criterion))
+
+  apiTestCases.forEach((testCase, index) => {
+    const manual = normalizeTestCase(testCase, document)
+    folderFor(covering[index][0]).requests.push(...testCaseToRequests(manual, endpoints))
+  })
+
+  document.acceptanceCriteria
+    .filter(criterion => criterion.category === 'api' && folders.get(criterion.id)!.requests.length === 0)
+    .forEach(criterion => {
+      const text = `${criterion.title}\n${criterion.description}`
+      folderFor(criterion).requests.push(buildRequest(`${criterion.id}: ${criterion.title} (stub)`, criterion.description, text, endpoints, [criterion.description], false))
+    })
+
+  return Array.from(folders.values()).filter(folder => folder.requests.length > 0)
+}
+
+/**
+ * Export the API test cases as a Postman v2.1 collection
+ */
+export function exportToPostman(document: QACanvasDocument, options: PostmanExportOptions = {}): string {
+  const { ticketId } = document.metadata
+  const folders = buildApiRequestPlan(document)
+
+  const collection = {
+    info: {
+      name: buildCollectionName(document),
+      description: `API tests for ${ticketId}, generated from the QA Canvas. Fill in the request bodies and review the assertions before running.`,
+      schema: POSTMAN_SCHEMA
+    },
+    item: folders.map(folder => ({
+      name: folder.name,
+      description: folder.description,
+      item: folder.requests.map(toPostmanItem)
+    })),
+    variable: [{ key: 'baseUrl', value: options.baseUrl || DEFAULT_BASE_URL, type: 'string' }]
+  }
+
+  return JSON.stringify(collection, null, 2)
+}
+
+/**
+ * Export the API test cases as a .http file with JetBrains HTTP Client response handlers
+ */
+export function exportToHttpFile(document: QACanvasDocument, options: PostmanExportOptions = {}): string {
+  const lines = [
+    `# ${buildCollectionName(document)}`,
+    `# API tests for ${document.metadata.ticketId}, generated from the QA Canvas`,
+    '',
+    `@baseUrl = ${options.baseUrl || DEFAULT_BASE_URL}`
+  ]
+
+  buildApiRequestPlan(document).forEach(folder => {
+    folder.requests.forEach(request => {
+      lines.push('', `### ${singleLine(request.name)}`)
+      lines.push(`# ${singleLine(folder.name)}`)
+      request.expectations.forEach(expectation => lines.push(`# Expected: ${singleLine(expectation)}`))
+      lines.push(`${request.method} {{baseUrl}}${request.path.replace(/:(\w+)/g, '{{$1}}')}`)
+
+      if (request.body !== undefined) {
+        lines.push('Content-Type: application/json', '', request.body)
+      }
+
+      lines.push('', '> {%', ...buildHttpClientTests(request).map(line => `  ${line}`), '%}')
+    })
+  })
+
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * Get a file name for a Postman or .http export
+ */
+export function getPostmanFileName(document: QACanvasDocument, format: 'postman' | 'http'): string {
+  const safeId = document.metadata.ticketId.replace(/[^\w.-]+/g, '_') || 'qa-canvas'
+  return format === 'postman' ? `${safeId}.postman_collection.json` : `${safeId}.http`
+}
+
+/**
+ * One request per test case; steps naming their own endpoints become separate requests
+ */
+function testCaseToRequests(testCase: ManualTestCase, endpoints: Endpoint[]): ApiRequestStub[] {
+  const name = `${testCase.id}: ${testCase.title}`
+  const negative = testCase.category.toLowerCase() === 'negative' || /\b(invalid|unauthori[sz]ed|reject|error|fail)/i.test(testCase.title)
+  const explicitSteps = testCase.steps.filter(testStep => EXPLICIT_REQUEST.test(testStep.action))
+
+  if (explicitSteps.length >= 2) {
+    return explicitSteps.map(testStep => buildRequest(
+      `${name} (step ${testCase.steps.indexOf(testStep) + 1})`,
+      testStep.action,
+      testStep.action,
+      endpoints,
+      testStep.expectedResult.split('\n').filter(Boolean),
+      negative
+    ))
+  }
+
+  return [buildRequest(
+    name,
+    testCase.objective,
+    getManualText(testCase),
+    endpoints,
+    testCase.steps.flatMap(testStep => testStep.expectedResult.split('\n')).filter(Boolean),
+    negative
+  )]
+}
+
+/**
+ * Method and path of a request; without them in its own text, an endpoint named elsewhere in the document is used
+ */
+function buildRequest(name: string, description: string, text: string, endpoints: Endpoint[], expectations: string[], negative: boolean): ApiRequestStub {
+  const [explicit] = findEndpoints(text)
+  const method = explicit?.method || METHOD_VERBS.find(([, pattern]) => pattern.test(text))?.[0] || 'GET'
+  const path = explicit?.path
+    || (text.match(PATH_ONLY) ? normalizePath(text.match(PATH_ONLY)![1]) : undefined)
+    || endpoints.find(endpoint => endpoint.method === method)?.path
+    || '/TODO'
+  const expectationText = expectations.join('\n')
+
+  return {
+    name,
+    description,
+    method,
+    path,
+    body: ['POST', 'PUT', 'PATCH'].includes(method) ? findJsonBody(`${text}\n${expectationText}`) || '{}' : undefined,
+    expectedStatus: findExpectedStatus(expectationText) || (negative ? '4xx' : '2xx'),
+    expectedFields: findExpectedFields(expectationText),
+    expectations
+  }
+}
+
+interface Endpoint {
+  method: HttpMethod
+  path: string
+}
+
+function findEndpoints(text: string): Endpoint[] {
+  return Array.from(text.matchAll(new RegExp(EXPLICIT_REQUEST.source, 'g')))
+    .map(match => ({ method: match[1] as HttpMethod, path: normalizePath(match[2]) }))
+}
+
+/**
+ * Strip the host and trailing punctuation, and write path variables as :name
+ */
+function normalizePath(path: string): string {
+  return path.replace(/^https?:\/\/[^/]+/, '').replace(/\{(\w+)\}/g, ':$1').replace(/[.:]$/, '')
+}
+
+function getManualText(testCase: ManualTestCase): string {
+  return [testCase.title, ...testCase.preconditions, ...testCase.steps.map(testStep => testStep.action)].join('\n')
+}
+
+function findExpectedStatus(text: string): number | undefined {
+  const code = text.match(/\b(?:status(?: code)?|http|returns?|responds? with|response(?: is)?)\s*(?:of|is|=|:)?\s*([1-5]\d\d)\b/i)
+    || text.match(/\b([1-5]\d\d)\s+(?:ok|created|accepted|no content|bad request|unauthorized|forbidden|not found|conflict|unprocessable)/i)
+  if (code) return Number(code[1])
+  return STATUS_PHRASES.find(([, pattern]) => pattern.test(text))?.[0]
+}
+
+/**
+ * Field names in backticks, or quoted next to "field", "property" or "key", with an optional expected value
+ */
+function findExpectedFields(text: string): Array<{ path: string; value?: string }> {
+  const fields: Array<{ path: string; value?: string }> = []
+  const add = (path: string, value?: string) => {
+    if (!fields.some(field => field.path === path)) fields.push(value === undefined ? { path } : { path, value })
+  }
+
+  for (const match of text.matchAll(/`([A-Za-z_][\w.]*)`(?:\s+(?:is|equals|=|of)\s+["'`]([^"'`]*)["'`])?/g)) {
+    add(match[1], match[2])
+  }
+  for (const match of text.matchAll(/"([A-Za-z_][\w.]*)"\s+(?:field|property|key|attribute)\b|\b(?:field|property|key|attribute)s?\s+"([A-Za-z_][\w.]*)"/gi)) {
+    add(match[1] || match[2])
+  }
+
+  return fields
+}
+
+function findJsonBody(text: string): string | undefined {
+  const start = text.indexOf('{')
+  const end = text.lastIndexOf('}')
+  if (start === -1 || end <= start) return undefined
+
+  try {
+    return JSON.stringify(JSON.parse(text.substring(start, end + 1)), null, 2)
+  } catch {
+    return undefined
+  }
+}
+
+function toPostmanItem(request: ApiRequestStub) {
+  const [pathname, query] = request.path.split('?')
+  const segments = pathname.split('/').filter(Boolean)
+  const variables = segments.filter(segment => segment.startsWith(':')).map(segment => ({ key: segment.slice(1), value: '' }))
+
+  return {
+    name: request.name,
+    request: {
+      method: request.method,
+      header: request.body !== undefined ? [{ key: 'Content-Type', value: 'application/json' }] : [],
+      url: {
+        raw: `{{baseUrl}}${request.path}`,
+        host: ['{{baseUrl}}'],
+        path: segments,
+        ...(query ? { query: query.split('&').map(pair => ({ key: pair.split('=')[0], value: pair.split('=')[1] ?? '' })) } : {}),
+        ...(variables.length > 0 ? { variable: variables } : {})
+      },
+      ...(request.body !== undefined ? { body: { mode: 'raw', raw: request.body, options: { raw: { language: 'json' } } } } : {}),
+      description: request.description
+    },
+    event: [{
+      listen: 'test',
+      script: { type: 'text/javascript', exec: buildPostmanTests(request) }
+    }]
+  }
+}
+
+function buildPostmanTests(request: ApiRequestStub): string[] {
+  const lines = request.expectations.map(expectation => `// Expected: ${singleLine(expectation)}`)
+  const { expectedStatus } = request
+
+  if (typeof expectedStatus === 'number') {
+    lines.push(`pm.test(${JSON.stringify(`Status code is ${expectedStatus}`)}, function () {`, `    pm.response.to.have.status(${expectedStatus});`, '});')
+  } else {
+    const [min, max] = expectedStatus === '2xx' ? [200, 299] : [400, 499]
+    lines.push(`pm.test(${JSON.stringify(`Status code is ${expectedStatus}`)}, function () {`, `    pm.expect(pm.response.code).to.be.within(${min}, ${max});`, '});')
+  }
+
+  request.expectedFields.forEach(field => {
+    const assertion = field.value === undefined
+      ? `pm.expect(pm.response.json()).to.have.nested.property(${JSON.stringify(field.path)});`
+      : `pm.expect(pm.response.json()).to.have.nested.property(${JSON.stringify(field.path)}, ${JSON.stringify(field.value)});`
+    lines.push(`pm.test(${JSON.stringify(`Response has ${field.path}`)}, function () {`, `    ${assertion}`, '});')
+  })
+
+  return lines
+}
+
+function buildHttpClientTests(request: ApiRequestStub): string[] {
+  const { expectedStatus } = request
+  const lines = typeof expectedStatus === 'number'
+    ? [`client.test(${JSON.stringify(`Status code is ${expectedStatus}`)}, function () {`, `  client.assert(response.status === ${expectedStatus}, ${JSON.stringify(`Expected status ${expectedStatus}`)});`, '});']
+    : [`client.test(${JSON.stringify(`Status code is ${expectedStatus}`)}, function () {`, `  client.assert(response.status >= ${expectedStatus === '2xx' ? 200 : 400} && response.status < ${expectedStatus === '2xx' ? 300 : 500}, ${JSON.stringify(`Expected a ${expectedStatus} status`)});`, '});']
+
+  request.expectedFields.forEach(field => {
+    const accessor = `response.body${field.path.split('.').map(part => `?.[${JSON.stringify(part)}]`).join('')}`
+    const condition = field.value === undefined ? `${accessor} !== undefined` : `String(${accessor}) === ${JSON.stringify(field.value)}`
+    lines.push(`client.test(${JSON.stringify(`Response has ${field.path}`)}, function () {`, `  client.assert(${condition}, ${JSON.stringify(`Expected ${field.path} in the response`)});`, '});')
+  })
+
+  return lines
+}
+
+function buildCollectionName(document: QACanvasDocument): string {
+  const headline = getSummaryHeadline(document)
+  return headline ? `${document.metadata.ticketId} - ${headline} (API)` : `${document.metadata.ticketId} (API)`
+}
+
+function singleLine(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
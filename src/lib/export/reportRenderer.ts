@@ -0,0 +1,671 @@
+/**
+ * Report Renderer
+ * Renders a QA Canvas document as a readable report for PR descriptions, print and Confluence pages
+ */
+
+import type { AcceptanceCriterion, ConfigurationWarning, QACanvasDocument, TestCase } from '../schemas/QACanvasDocument'
+import { buildTraceabilityMatrix, getTestCaseTitle, type TraceabilityMatrix } from '../analysis/traceabilityMatrix'
+import { renderScenarioBody, testCaseToScenario } from './gherkinExporter'
+import { getSummaryHeadline } from './summaryHeadline'
+
+/**
+ * Supported report formats
+ */
+export const REPORT_FORMATS = ['markdown', 'html', 'confluence'] as const
+
+export type ReportFormat = typeof REPORT_FORMATS[number]
+
+/**
+ * Options for report rendering
+ */
+export interface ReportOptions {
+  ticketBaseUrl?: string // e.g. "https://acme.atlassian.net/browse/", links the ticket in the header
+}
+
+/**
+ * Rendered report ready to be sent as a file download
+ */
+export interface RenderedReport {
+  content: string
+  contentType: string
+  fileName: string
+}
+
+type Priority = AcceptanceCriterion['priority'] | TestCase['priority']
+
+/**
+ * Confluence status macro colour per priority and warning severity
+ */
+const STATUS_COLOURS: Record<Priority | ConfigurationWarning['severity'], string> = {
+  must: 'Red',
+  should: 'Yellow',
+  could: 'Blue',
+  high: 'Red',
+  medium: 'Yellow',
+  low: 'Grey'
+}
+
+const SUMMARY_FIELDS = [
+  ['problem', 'Problem'],
+  ['solution', 'Solution'],
+  ['context', 'Context']
+] as const
+
+const REPORT_STYLES = `
+    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; color: #1f2328; line-height: 1.5; max-width: 960px; margin: 2rem auto; padding: 0 1rem; }
+    h1 { border-bottom: 1px solid #d0d7de; padding-bottom: 0.3rem; }
+    h2 { margin-top: 2rem; border-bottom: 1px solid #d0d7de; padding-bottom: 0.2rem; }
+    table { border-collapse: collapse; width: 100%; margin: 0.75rem 0; }
+    th, td { border: 1px solid #d0d7de; padding: 0.35rem 0.6rem; text-align: left; vertical-align: top; }
+    th { background: #f6f8fa; }
+    pre { background: #f6f8fa; padding: 0.75rem; overflow-x: auto; }
+    .meta { color: #59636e; }
+    .badge { display: inline-block; border-radius: 3px; padding: 0 0.4rem; font-size: 0.8rem; font-weight: 600; text-transform: uppercase; }
+    .badge-red { background: #ffebe9; color: #a40e26; }
+    .badge-yellow { background: #fff8c5; color: #7d4e00; }
+    .badge-blue { background: #ddf4ff; color: #0550ae; }
+    .badge-grey { background: #eaeef2; color: #424a53; }
+    .warning { border-left: 4px solid #d4a72c; background: #fff8c5; padding: 0.5rem 0.75rem; margin: 0.5rem 0; }
+    .test-case { margin-top: 1.5rem; }
+    @media print {
+      @page { margin: 1.5cm; }
+      body { max-width: none; margin: 0; padding: 0; font-size: 10pt; }
+      a { color: inherit; text-decoration: none; }
+      h2 { break-after: avoid; }
+      .test-case, tr { break-inside: avoid; }
+      thead { display: table-header-group; }
+      .badge, th, pre, .warning { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+    }
+`
+
+/**
+ * Render a document in the given report format
+ */
+export function renderReport(
+  document: QACanvasDocument,
+  format: ReportFormat,
+  options: ReportOptions = {}
+): RenderedReport {
+  switch (format) {
+    case 'markdown':
+      return {
+        content: renderMarkdownReport(document, options),
+        contentType: 'text/markdown; charset=utf-8',
+        fileName: getReportFileName(document, 'md')
+      }
+    case 'html':
+      return {
+        content: renderHtmlReport(document, options),
+        contentType: 'text/html; charset=utf-8',
+        fileName: getReportFileName(document, 'html')
+      }
+    case 'confluence':
+      return {
+        content: renderConfluenceReport(document, options),
+        contentType: 'application/xhtml+xml; charset=utf-8',
+        fileName: getReportFileName(document, 'xhtml')
+      }
+  }
+}
+
+/**
+ * Render a document as GitHub-flavored Markdown
+ */
+export function renderMarkdownReport(document: QACanvasDocument, options: ReportOptions = {}): string {
+  const matrix = buildTraceabilityMatrix(document)
+  const ticketUrl = getTicketUrl(document, options)
+  const ticketId = document.metadata.ticketId
+  const lines = [
+    `# ${buildReportTitle(document)}`,
+    '',
+    `- **Ticket:** ${ticketUrl ? `[${ticketId}](${ticketUrl})` : ticketId}`,
+    `- **Document version:** ${document.metadata.documentVersion}`,
+    `- **Generated:** ${document.metadata.generatedAt}`,
+    `- **Coverage:** ${describeCoverage(matrix)}`
+  ]
+
+  const summaryFields = SUMMARY_FIELDS.filter(([key]) => document.ticketSummary[key].trim())
+  if (summaryFields.length > 0) {
+    lines.push('', '## Summary')
+    summaryFields.forEach(([key, label]) => lines.push('', `**${label}:** ${toMarkdownParagraph(document.ticketSummary[key])}`))
+  }
+
+  if (document.configurationWarnings.length > 0) {
+    lines.push('', '## Configuration Warnings', '')
+    document.configurationWarnings.forEach(warning => {
+      lines.push(`- **${warning.severity.toUpperCase()}** ${toMarkdownParagraph(warning.title)}: ${toMarkdownParagraph(warning.message)} _Recommendation: ${toMarkdownParagraph(warning.recommendation)}_`)
+    })
+  }
+
+  if (document.acceptanceCriteria.length > 0) {
+    lines.push('', '## Acceptance Criteria', '')
+    lines.push(...renderMarkdownTable(
+      ['ID', 'Criterion', 'Priority', 'Category', 'Testable', 'Coverage'],
+      document.acceptanceCriteria.map(criterion => [
+        criterion.id,
+        `**${escapeMarkdownCell(criterion.title)}** ${escapeMarkdownCell(criterion.description)}`,
+        criterion.priority,
+        criterion.category,
+        criterion.testable ? 'Yes' : 'No',
+        getCoverageStatus(matrix, criterion.id)
+      ])
+    ))
+  }
+
+  if (document.testCases.length > 0) {
+    lines.push('', '## Test Cases')
+    document.testCases.forEach(testCase => {
+      lines.push('', `### ${testCase.id}: ${toMarkdownParagraph(getTestCaseTitle(testCase))}`, '')
+      lines.push(buildTestCaseFacts(testCase, matrix).map(([label, value]) => `**${label}:** ${value}`).join(' · '))
+      lines.push(...renderMarkdownTestCase(testCase, document))
+    })
+  }
+
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * Render a document as a standalone HTML page with print styles
+ */
+export function renderHtmlReport(document: QACanvasDocument, options: ReportOptions = {}): string {
+  const matrix = buildTraceabilityMatrix(document)
+  const ticketUrl = getTicketUrl(document, options)
+  const ticketId = escapeHtml(document.metadata.ticketId)
+  const title = escapeHtml(buildReportTitle(document))
+  const body = [
+    `<h1>${title}</h1>`,
+    '<ul class="meta">',
+    `  <li><strong>Ticket:</strong> ${ticketUrl ? `<a href="${escapeHtml(ticketUrl)}">${ticketId}</a>` : ticketId}</li>`,
+    `  <li><strong>Document version:</strong> ${escapeHtml(document.metadata.documentVersion)}</li>`,
+    `  <li><strong>Generated:</strong> ${escapeHtml(document.metadata.generatedAt)}</li>`,
+    `  <li><strong>Coverage:</strong> ${escapeHtml(describeCoverage(matrix))}</li>`,
+    '</ul>'
+  ]
+
+  const summaryFields = SUMMARY_FIELDS.filter(([key]) => document.ticketSummary[key].trim())
+  if (summaryFields.length > 0) {
+    body.push('<h2>Summary</h2>')
+    summaryFields.forEach(([key, label]) => body.push(`<p><strong>${label}:</strong> ${toHtmlText(document.ticketSummary[key])}</p>`))
+  }
+
+  if (document.configurationWarnings.length > 0) {
+    body.push('<h2>Configuration Warnings</h2>')
+    document.configurationWarnings.forEach(warning => {
+      body.push(
+        '<div class="warning">',
+        `  <p>${renderBadge(warning.severity)} <strong>${escapeHtml(warning.title)}</strong></p>`,
+        `  <p>${toHtmlText(warning.message)}</p>`,
+        `  <p><em>Recommendation: ${toHtmlText(warning.recommendation)}</em></p>`,
+        '</div>'
+      )
+    })
+  }
+
+  if (document.acceptanceCriteria.length > 0) {
+    body.push('<h2>Acceptance Criteria</h2>')
+    body.push(...renderHtmlTable(
+      ['ID', 'Criterion', 'Priority', 'Category', 'Testable', 'Coverage'],
+      document.acceptanceCriteria.map(criterion => [
+        escapeHtml(criterion.id),
+        `<strong>${escapeHtml(criterion.title)}</strong><br>${toHtmlText(criterion.description)}`,
+        renderBadge(criterion.priority),
+        escapeHtml(criterion.category),
+        criterion.testable ? 'Yes' : 'No',
+        getCoverageStatus(matrix, criterion.id)
+      ])
+    ))
+  }
+
+  if (document.testCases.length > 0) {
+    body.push('<h2>Test Cases</h2>')
+    document.testCases.forEach(testCase => {
+      body.push(
+        '<section class="test-case">',
+        `  <h3>${escapeHtml(testCase.id)}: ${escapeHtml(getTestCaseTitle(testCase))}</h3>`,
+        `  <p class="meta">${renderHtmlFacts(testCase, matrix, renderBadge)}</p>`,
+        ...renderHtmlTestCase(testCase, document).map(line => `  ${line}`),
+        '</section>'
+      )
+    })
+  }
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '  <meta charset="utf-8">',
+    '  <meta name="viewport" content="width=device-width, initial-scale=1">',
+    `  <title>${title}</title>`,
+    `  <style>${REPORT_STYLES}  </style>`,
+    '</head>',
+    '<body>',
+    ...body.map(line => `  ${line}`),
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n')
+}
+
+/**
+ * Render a document in Confluence storage format (XHTML with Confluence macros)
+ * Priorities become status macros and the steps of each test case are folded into an expand macro
+ */
+export function renderConfluenceReport(document: QACanvasDocument, options: ReportOptions = {}): string {
+  const matrix = buildTraceabilityMatrix(document)
+  const ticketUrl = getTicketUrl(document, options)
+  const ticketId = escapeHtml(document.metadata.ticketId)
+  const body = [
+    '<p>',
+    `<strong>Ticket:</strong> ${ticketUrl ? `<a href="${escapeHtml(ticketUrl)}">${ticketId}</a>` : ticketId}<br/>`,
+    `<strong>Document version:</strong> ${escapeHtml(document.metadata.documentVersion)}<br/>`,
+    `<strong>Generated:</strong> ${escapeHtml(document.metadata.generatedAt)}<br/>`,
+    `<strong>Coverage:</strong> ${escapeHtml(describeCoverage(matrix))}`,
+    '</p>'
+  ]
+
+  const summaryFields = SUMMARY_FIELDS.filter(([key]) => document.ticketSummary[key].trim())
+  if (summaryFields.length > 0) {
+    body.push('<h2>Summary</h2>')
+    summaryFields.forEach(([key, label]) => body.push(`<p><strong>${label}:</strong> ${toXhtmlText(document.ticketSummary[key])}</p>`))
+  }
+
+  if (document.configurationWarnings.length > 0) {
+    body.push('<h2>Configuration Warnings</h2>')
+    document.configurationWarnings.forEach(warning => {
+      body.push(
+        `<ac:structured-macro ac:name="${warning.severity === 'low' ? 'info' : 'warning'}">`,
+        `<ac:parameter ac:name="title">${escapeHtml(warning.title)}</ac:parameter>`,
+        '<ac:rich-text-body>',
+        `<p>${renderStatusMacro(warning.severity)} ${toXhtmlText(warning.message)}</p>`,
+        `<p><em>Recommendation: ${toXhtmlText(warning.recommendation)}</em></p>`,
+        '</ac:rich-text-body>',
+        '</ac:structured-macro>'
+      )
+    })
+  }
+
+  if (document.acceptanceCriteria.length > 0) {
+    body.push('<h2>Acceptance Criteria</h2>')
+    body.push(...renderXhtmlTable(
+      ['ID', 'Criterion', 'Priority', 'Category', 'Testable', 'Coverage'],
+      document.acceptanceCriteria.map(criterion => [
+        escapeHtml(criterion.id),
+        `<strong>${escapeHtml(criterion.title)}</strong><br/>${toXhtmlText(criterion.description)}`,
+        renderStatusMacro(criterion.priority),
+        escapeHtml(criterion.category),
+        criterion.testable ? 'Yes' : 'No',
+        getCoverageStatus(matrix, criterion.id)
+      ])
+    ))
+  }
+
+  if (document.testCases.length > 0) {
+    body.push('<h2>Test Cases</h2>')
+    document.testCases.forEach(testCase => {
+      body.push(
+        `<h3>${escapeHtml(testCase.id)}: ${escapeHtml(getTestCaseTitle(testCase))}</h3>`,
+        `<p>${renderHtmlFacts(testCase, matrix, renderStatusMacro)}</p>`,
+        ...renderConfluenceTestCase(testCase, document)
+      )
+    })
+  }
+
+  return `${body.join('\n')}\n`
+}
+
+/**
+ * Get a file name for a report
+ */
+export function getReportFileName(document: QACanvasDocument, extension: 'md' | 'html' | 'xhtml'): string {
+  const safeId = document.metadata.ticketId.replace(/[^\w.-]+/g, '_') || 'qa-canvas'
+  return `${safeId}-qa-report.${extension}`
+}
+
+function renderMarkdownTestCase(testCase: TestCase, document: QACanvasDocument): string[] {
+  const lines: string[] = []
+
+  switch (testCase.format) {
+    case 'gherkin': {
+      lines.push('', '```gherkin', ...renderGherkinScenario(testCase, document), '```')
+      break
+    }
+
+    case 'steps': {
+      const { objective, preconditions, postconditions } = testCase.testCase
+      const steps = getSortedSteps(testCase)
+      const hasNotes = steps.some(step => step.notes)
+
+      if (objective.trim()) {
+        lines.push('', `**Objective:** ${toMarkdownParagraph(objective)}`)
+      }
+      if (preconditions.length > 0) {
+        lines.push('', '**Preconditions:**', '', ...preconditions.map(text => `- ${toMarkdownParagraph(text)}`))
+      }
+      lines.push('', ...renderMarkdownTable(
+        ['#', 'Action', 'Expected Result', ...(hasNotes ? ['Notes'] : [])],
+        steps.map(step => [
+          String(step.stepNumber),
+          escapeMarkdownCell(step.action),
+          escapeMarkdownCell(step.expectedResult),
+          ...(hasNotes ? [escapeMarkdownCell(step.notes ?? '')] : [])
+        ])
+      ))
+      if (postconditions.length > 0) {
+        lines.push('', '**Postconditions:**', '', ...postconditions.map(text => `- ${toMarkdownParagraph(text)}`))
+      }
+      break
+    }
+
+    case 'table': {
+      const { description, testData, expectedOutcome, notes } = testCase.testCase
+      const columns = collectColumns(testData)
+
+      if (description.trim()) {
+        lines.push('', toMarkdownParagraph(description))
+      }
+      if (columns.length > 0) {
+        lines.push('', ...renderMarkdownTable(
+          columns.map(escapeMarkdownCell),
+          testData.map(row => columns.map(column => escapeMarkdownCell(row[column] ?? '')))
+        ))
+      }
+      lines.push('', `**Expected outcome:** ${toMarkdownParagraph(expectedOutcome)}`)
+      if (notes.trim()) {
+        lines.push('', `**Notes:** ${toMarkdownParagraph(notes)}`)
+      }
+      break
+    }
+  }
+
+  return lines
+}
+
+function renderHtmlTestCase(testCase: TestCase, document: QACanvasDocument): string[] {
+  const lines: string[] = []
+
+  switch (testCase.format) {
+    case 'gherkin': {
+      const gherkin = renderGherkinScenario(testCase, document)
+      lines.push(`<pre><code class="language-gherkin">${escapeHtml(gherkin.join('\n'))}</code></pre>`)
+      break
+    }
+
+    case 'steps': {
+      const { objective, preconditions, postconditions } = testCase.testCase
+
+      if (objective.trim()) {
+        lines.push(`<p><strong>Objective:</strong> ${toHtmlText(objective)}</p>`)
+      }
+      if (preconditions.length > 0) {
+        lines.push('<p><strong>Preconditions:</strong></p>', ...renderHtmlList(preconditions))
+      }
+      lines.push(...renderHtmlTable(...buildStepsTable(testCase, toHtmlText)))
+      if (postconditions.length > 0) {
+        lines.push('<p><strong>Postconditions:</strong></p>', ...renderHtmlList(postconditions))
+      }
+      break
+    }
+
+    case 'table': {
+      lines.push(...renderTableTestCase(testCase, renderHtmlTable, toHtmlText))
+      break
+    }
+  }
+
+  return lines
+}
+
+function renderConfluenceTestCase(testCase: TestCase, document: QACanvasDocument): string[] {
+  switch (testCase.format) {
+    case 'gherkin': {
+      const gherkin = renderGherkinScenario(testCase, document)
+      return renderExpandMacro('Scenario', [
+        '<ac:structured-macro ac:name="code">',
+        '<ac:parameter ac:name="language">none</ac:parameter>',
+        `<ac:plain-text-body>${toCdata(gherkin.join('\n'))}</ac:plain-text-body>`,
+        '</ac:structured-macro>'
+      ])
+    }
+
+    case 'steps': {
+      const { objective, preconditions, postconditions } = testCase.testCase
+      const lines: string[] = []
+
+      if (objective.trim()) {
+        lines.push(`<p><strong>Objective:</strong> ${toXhtmlText(objective)}</p>`)
+      }
+      if (preconditions.length > 0) {
+        lines.push('<p><strong>Preconditions:</strong></p>', ...renderXhtmlList(preconditions))
+      }
+      lines.push(...renderExpandMacro(`Steps (${testCase.testCase.steps.length})`, renderXhtmlTable(...buildStepsTable(testCase, toXhtmlText))))
+      if (postconditions.length > 0) {
+        lines.push('<p><strong>Postconditions:</strong></p>', ...renderXhtmlList(postconditions))
+      }
+      return lines
+    }
+
+    case 'table':
+      return renderTableTestCase(testCase, renderXhtmlTable, toXhtmlText)
+  }
+}
+
+/**
+ * Render a table test case as HTML; the HTML report and Confluence differ only in table markup and line breaks
+ */
+function renderTableTestCase(
+  testCase: Extract<TestCase, { format: 'table' }>,
+  renderTable: (headers: string[], rows: string[][]) => string[],
+  toText: (text: string) => string
+): string[] {
+  const { description, testData, expectedOutcome, notes } = testCase.testCase
+  const columns = collectColumns(testData)
+  const lines: string[] = []
+
+  if (description.trim()) {
+    lines.push(`<p>${toText(description)}</p>`)
+  }
+  if (columns.length > 0) {
+    lines.push(...renderTable(
+      columns.map(escapeHtml),
+      testData.map(row => columns.map(column => toText(row[column] ?? '')))
+    ))
+  }
+  lines.push(`<p><strong>Expected outcome:</strong> ${toText(expectedOutcome)}</p>`)
+  if (notes.trim()) {
+    lines.push(`<p><strong>Notes:</strong> ${toText(notes)}</p>`)
+  }
+
+  return lines
+}
+
+function buildStepsTable(
+  testCase: Extract<TestCase, { format: 'steps' }>,
+  toText: (text: string) => string
+): [string[], string[][]] {
+  const steps = getSortedSteps(testCase)
+  const hasNotes = steps.some(step => step.notes)
+
+  return [
+    ['#', 'Action', 'Expected Result', ...(hasNotes ? ['Notes'] : [])],
+    steps.map(step => [
+      String(step.stepNumber),
+      toText(step.action),
+      toText(step.expectedResult),
+      ...(hasNotes ? [toText(step.notes ?? '')] : [])
+    ])
+  ]
+}
+
+/**
+ * Priority, category, estimate and covered criteria of a test case, as label/value pairs
+ */
+function buildTestCaseFacts(testCase: TestCase, matrix: TraceabilityMatrix): Array<[string, string]> {
+  const criteriaIds = matrix.testCases.find(column => column.testCaseId === testCase.id)?.criteriaIds ?? []
+  const facts: Array<[string, string]> = [
+    ['Priority', testCase.priority],
+    ['Category', testCase.category]
+  ]
+
+  if (testCase.estimatedTime) {
+    facts.push(['Estimated time', testCase.estimatedTime])
+  }
+  facts.push(['Covers', criteriaIds.length > 0 ? criteriaIds.join(', ') : 'None'])
+
+  return facts
+}
+
+function renderHtmlFacts(
+  testCase: TestCase,
+  matrix: TraceabilityMatrix,
+  renderPriority: (priority: Priority) => string
+): string {
+  return buildTestCaseFacts(testCase, matrix)
+    .map(([label, value]) => `<strong>${label}:</strong> ${label === 'Priority' ? renderPriority(testCase.priority) : escapeHtml(value)}`)
+    .join(' · ')
+}
+
+/**
+ * Render a gherkin test case with its own tags; steps reuse the .feature export's keyword handling
+ */
+function renderGherkinScenario(testCase: Extract<TestCase, { format: 'gherkin' }>, document: QACanvasDocument): string[] {
+  const tags = testCase.testCase.tags.map(tag => (tag.startsWith('@') ? tag : `@${tag}`))
+  return [
+    ...(tags.length > 0 ? [tags.join(' ')] : []),
+    `Scenario: ${testCase.testCase.scenario}`,
+    ...renderScenarioBody(testCaseToScenario(testCase, document, false)).map(line => (line ? `  ${line}` : line))
+  ]
+}
+
+function renderMarkdownTable(headers: string[], rows: string[][]): string[] {
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map(cells => `| ${cells.join(' | ')} |`)
+  ]
+}
+
+function renderHtmlTable(headers: string[], rows: string[][]): string[] {
+  return [
+    '<table>',
+    `  <thead><tr>${headers.map(header => `<th>${header}</th>`).join('')}</tr></thead>`,
+    '  <tbody>',
+    ...rows.map(cells => `    <tr>${cells.map(cell => `<td>${cell}</td>`).join('')}</tr>`),
+    '  </tbody>',
+    '</table>'
+  ]
+}
+
+function renderXhtmlTable(headers: string[], rows: string[][]): string[] {
+  return [
+    '<table>',
+    '<tbody>',
+    `<tr>${headers.map(header => `<th>${header}</th>`).join('')}</tr>`,
+    ...rows.map(cells => `<tr>${cells.map(cell => `<td>${cell}</td>`).join('')}</tr>`),
+    '</tbody>',
+    '</table>'
+  ]
+}
+
+function renderHtmlList(items: string[]): string[] {
+  return ['<ul>', ...items.map(item => `  <li>${toHtmlText(item)}</li>`), '</ul>']
+}
+
+function renderXhtmlList(items: string[]): string[] {
+  return ['<ul>', ...items.map(item => `<li>${toXhtmlText(item)}</li>`), '</ul>']
+}
+
+function renderBadge(value: Priority | ConfigurationWarning['severity']): string {
+  return `<span class="badge badge-${STATUS_COLOURS[value].toLowerCase()}">${value}</span>`
+}
+
+function renderStatusMacro(value: Priority | ConfigurationWarning['severity']): string {
+  return [
+    '<ac:structured-macro ac:name="status">',
+    `<ac:parameter ac:name="colour">${STATUS_COLOURS[value]}</ac:parameter>`,
+    `<ac:parameter ac:name="title">${value.toUpperCase()}</ac:parameter>`,
+    '</ac:structured-macro>'
+  ].join('')
+}
+
+function renderExpandMacro(title: string, content: string[]): string[] {
+  return [
+    '<ac:structured-macro ac:name="expand">',
+    `<ac:parameter ac:name="title">${escapeHtml(title)}</ac:parameter>`,
+    '<ac:rich-text-body>',
+    ...content,
+    '</ac:rich-text-body>',
+    '</ac:structured-macro>'
+  ]
+}
+
+function buildReportTitle(document: QACanvasDocument): string {
+  const headline = getSummaryHeadline(document)
+  return headline ? `QA Plan: ${document.metadata.ticketId} - ${headline}` : `QA Plan: ${document.metadata.ticketId}`
+}
+
+function getTicketUrl(document: QACanvasDocument, options: ReportOptions): string | undefined {
+  return options.ticketBaseUrl ? `${options.ticketBaseUrl.replace(/\/?$/, '/')}${encodeURIComponent(document.metadata.ticketId)}` : undefined
+}
+
+function describeCoverage(matrix: TraceabilityMatrix): string {
+  const { summary } = matrix
+  const testable = summary.totalCriteria - summary.notTestableCriteria
+  return `${summary.coveredCriteria}/${testable} testable criteria covered (${summary.coveragePercent}%)`
+}
+
+function getCoverageStatus(matrix: TraceabilityMatrix, criterionId: string): string {
+  const status = matrix.criteria.find(row => row.criterionId === criterionId)?.status ?? 'uncovered'
+  return status.replace('_', ' ')
+}
+
+function getSortedSteps(testCase: Extract<TestCase, { format: 'steps' }>) {
+  return testCase.testCase.steps.slice().sort((a, b) => a.stepNumber - b.stepNumber)
+}
+
+/**
+ * Collect all column names across table rows, preserving first-seen order
+ */
+function collectColumns(rows: Array<Record<string, string>>): string[] {
+  const columns: string[] = []
+  rows.forEach(row => Object.keys(row).forEach(column => {
+    if (!columns.includes(column)) {
+      columns.push(column)
+    }
+  }))
+  return columns
+}
+
+/**
+ * Collapse text to one line and escape "<" so GitHub does not treat it as an HTML tag
+ */
+function toMarkdownParagraph(text: string): string {
+  return text.replace(/\s*\r?\n\s*/g, ' ').trim().replace(/</g, '&lt;')
+}
+
+function escapeMarkdownCell(text: string): string {
+  return toMarkdownParagraph(text).replace(/\|/g, '\\|')
+}
+
+function toHtmlText(text: string): string {
+  return escapeHtml(text.trim()).replace(/\r?\n/g, '<br>')
+}
+
+function toXhtmlText(text: string): string {
+  return escapeHtml(text.trim()).replace(/\r?\n/g, '<br/>')
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Wrap text in a CDATA section, splitting any "]]>" so it cannot end the section early
+ */
+function toCdata(text: string): string {
+  return `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`
+}
@@ -0,0 +1,19 @@
+/**
+ * Summary Headline
+ * Short ticket description shared by the exporters' feature, suite, collection and report titles
+ */
+
+import type { QACanvasDocument } from '../schemas/QACanvasDocument'
+
+const MAX_HEADLINE_LENGTH = 80
+
+/**
+ * First sentence of the solution (or problem) on one line, truncated to 80 characters; empty when there is no summary
+ */
+export function getSummaryHeadline(document: QACanvasDocument): string {
+  const source = document.ticketSummary.solution || document.ticketSummary.problem
+  const firstSentence = (source || '').replace(/\s+/g, ' ').trim().split(/[.!?](\s|$)/)[0]
+  return firstSentence.length > MAX_HEADLINE_LENGTH
+    ? `${firstSentence.substring(0, MAX_HEADLINE_LENGTH - 3)}...`
+    : firstSentence
+}
@@ -0,0 +1,121 @@
+/**
+ * TestRail CSV Exporter
+ * Produces a CSV for the TestRail importer using the "Test Case (Steps)" template
+ */
+
+import type { QACanvasDocument } from '../schemas/QACanvasDocument'
+import { normalizeTestCases, type ManualTestCase } from './manualTestCase'
+import { toCsv, type CsvRow } from './csv'
+
+/**
+ * Options for TestRail export
+ */
+export interface TestRailExportOptions {
+  section?: string
+}
+
+/**
+ * Column order expected by the TestRail CSV import mapping
+ * Follow-up rows only fill the step columns, which TestRail merges into the previous case
+ */
+export const TESTRAIL_COLUMNS = [
+  'Title',
+  'Section',
+  'Template',
+  'Type',
+  'Priority',
+  'Estimate',
+  'References',
+  'Acceptance Criteria',
+  'Preconditions',
+  'Steps (Step)',
+  'Steps (Expected Result)'
+]
+
+const PRIORITY_MAP: Record<ManualTestCase['priority'], string> = {
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low'
+}
+
+/**
+ * QA categories mapped to TestRail's default case types
+ */
+const TYPE_MAP: Record<string, string> = {
+  functional: 'Functional',
+  ui: 'Functional',
+  ux: 'Usability',
+  negative: 'Destructive',
+  api: 'Functional',
+  database: 'Functional',
+  performance: 'Performance',
+  security: 'Security',
+  mobile: 'Compatibility',
+  accessibility: 'Accessibility',
+  regression: 'Regression',
+  smoke: 'Smoke & Sanity'
+}
+
+/**
+ * Export a QA Canvas document as TestRail CSV
+ */
+export function exportToTestRail(
+  document: QACanvasDocument,
+  options: TestRailExportOptions = {}
+): string {
+  const section = options.section || document.metadata.ticketId
+  const rows: CsvRow[] = []
+
+  normalizeTestCases(document).forEach(testCase => {
+    const [firstStep, ...remainingSteps] = testCase.steps
+
+    rows.push({
+      'Title': testCase.title,
+      'Section': section,
+      'Template': 'Test Case (Steps)',
+      'Type': TYPE_MAP[testCase.category.toLowerCase()] || 'Other',
+      'Priority': PRIORITY_MAP[testCase.priority],
+      'Estimate': formatEstimate(testCase.estimatedMinutes),
+      'References': testCase.ticketId,
+      'Acceptance Criteria': testCase.criteriaIds.join(', '),
+      'Preconditions': testCase.preconditions.join('\n'),
+      'Steps (Step)': firstStep ? formatStepAction(firstStep.action, firstStep.data) : '',
+      'Steps (Expected Result)': firstStep?.expectedResult
+    })
+
+    remainingSteps.forEach(testStep => {
+      rows.push({
+        'Steps (Step)': formatStepAction(testStep.action, testStep.data),
+        'Steps (Expected Result)': testStep.expectedResult
+      })
+    })
+  })
+
+  return toCsv(TESTRAIL_COLUMNS, rows)
+}
+
+/**
+ * Get a file name for the TestRail CSV
+ */
+export function getTestRailFileName(document: QACanvasDocument): string {
+  const safeId = document.metadata.ticketId.replace(/[^\w.-]+/g, '_') || 'qa-canvas'
+  return `${safeId}-testrail.csv`
+}
+
+/**
+ * TestRail estimates use the "1h 30m" timespan format
+ */
+function formatEstimate(minutes?: number): string {
+  if (!minutes) return ''
+
+  const hours = Math.floor(minutes / 60)
+  const remainder = minutes % 60
+  return [hours ? `${hours}h` : '', remainder ? `${remainder}m` : ''].filter(Boolean).join(' ')
+}
+
+/**
+ * TestRail has no separate data column for steps, so data is appended to the action
+ */
+function formatStepAction(action: string, data?: string): string {
+  return data ? `${action}\nData: ${data}` : action
+}
@@ -0,0 +1,119 @@
+/**
+ * Traceability Matrix Exporter
+ * Renders the criterion × test case matrix as JSON, CSV or Markdown for audits
+ */
+
+import type { QACanvasDocument } from '../schemas/QACanvasDocument'
+import { buildTraceabilityMatrix, type TraceabilityMatrix } from '../analysis/traceabilityMatrix'
+import { toCsv, type CsvRow } from './csv'
+
+/**
+ * Fixed leading columns; one column per test case follows
+ */
+export const TRACEABILITY_COLUMNS = ['Criterion ID', 'Criterion', 'Priority', 'Category', 'Testable', 'Status', 'Test Cases']
+
+const COVERED_MARK = 'X'
+
+/**
+ * Export the traceability matrix as JSON
+ */
+export function exportTraceabilityJson(document: QACanvasDocument): string {
+  return JSON.stringify(buildTraceabilityMatrix(document), null, 2)
+}
+
+/**
+ * Export the traceability matrix as CSV with one mark column per test case
+ */
+export function exportTraceabilityCsv(document: QACanvasDocument): string {
+  const matrix = buildTraceabilityMatrix(document)
+  const testCaseIds = matrix.testCases.map(testCase => testCase.testCaseId)
+
+  const rows: CsvRow[] = matrix.criteria.map(row => {
+    const csvRow: CsvRow = {
+      'Criterion ID': row.criterionId,
+      'Criterion': row.title,
+      'Priority': row.priority,
+      'Category': row.category,
+      'Testable': row.testable ? 'Yes' : 'No',
+      'Status': row.status,
+      'Test Cases': row.testCaseIds.join(', ')
+    }
+    testCaseIds.forEach(id => {
+      csvRow[id] = row.testCaseIds.includes(id) ? COVERED_MARK : ''
+    })
+    return csvRow
+  })
+
+  return toCsv([...TRACEABILITY_COLUMNS, ...testCaseIds], rows)
+}
+
+/**
+ * Export the traceability matrix as a Markdown report
+ */
+export function exportTraceabilityMarkdown(document: QACanvasDocument): string {
+  const matrix = buildTraceabilityMatrix(document)
+  const lines = [
+    `# Traceability Matrix: ${matrix.ticketId}`,
+    '',
+    ...renderSummary(matrix),
+    '',
+    ...renderMatrixTable(matrix)
+  ]
+
+  const unlinked = matrix.testCases.filter(testCase => testCase.criteriaIds.length === 0)
+  if (unlinked.length > 0) {
+    lines.push('', '## Test Cases Without Criteria', '')
+    unlinked.forEach(testCase => lines.push(`- **${testCase.testCaseId}**: ${escapeMarkdown(testCase.title)}`))
+  }
+
+  const dangling = matrix.testCases.filter(testCase => testCase.unknownCriteriaIds.length > 0)
+  if (dangling.length > 0) {
+    lines.push('', '## Links To Unknown Criteria', '')
+    dangling.forEach(testCase => lines.push(`- **${testCase.testCaseId}**: ${testCase.unknownCriteriaIds.join(', ')}`))
+  }
+
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * Get a file name for a traceability export
+ */
+export function getTraceabilityFileName(document: QACanvasDocument, extension: 'json' | 'csv' | 'md'): string {
+  const safeId = document.metadata.ticketId.replace(/[^\w.-]+/g, '_') || 'qa-canvas'
+  return `${safeId}-traceability.${extension}`
+}
+
+function renderSummary(matrix: TraceabilityMatrix): string[] {
+  const { summary } = matrix
+  const testable = summary.totalCriteria - summary.notTestableCriteria
+
+  return [
+    `- **Document version:** ${matrix.documentVersion}`,
+    `- **Coverage:** ${summary.coveredCriteria}/${testable} testable criteria covered (${summary.coveragePercent}%)`,
+    `- **Uncovered must criteria:** ${summary.uncoveredMustCriteria.length > 0 ? summary.uncoveredMustCriteria.join(', ') : 'None'}`,
+    `- **Not testable:** ${summary.notTestableCriteria}`
+  ]
+}
+
+function renderMatrixTable(matrix: TraceabilityMatrix): string[] {
+  const testCaseIds = matrix.testCases.map(testCase => testCase.testCaseId)
+  const header = ['Criterion', 'Priority', 'Status', ...testCaseIds]
+
+  return [
+    `| ${header.map(escapeMarkdown).join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...matrix.criteria.map(row => {
+      const cells = [
+        `${row.criterionId}: ${row.title}`,
+        row.priority,
+        row.status === 'uncovered' && row.priority === 'must' ? '**uncovered**' : row.status,
+        ...testCaseIds.map(id => row.testCaseIds.includes(id) ? COVERED_MARK : '')
+      ]
+      return `| ${cells.map(escapeMarkdown).join(' | ')} |`
+    })
+  ]
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ')
+}
@@ -0,0 +1,161 @@
+/**
+ * Xray JSON Exporter
+ * Produces Xray test import JSON with Manual tests (step by step) and Cucumber tests (gherkin definition)
+ */
+
+import type { QACanvasDocument, TestCase } from '../schemas/QACanvasDocument'
+import { normalizeTestCase, type ManualTestCase } from './manualTestCase'
+import { testCaseToScenario, renderScenarioBody } from './gherkinExporter'
+
+/**
+ * Options for Xray export
+ */
+export interface XrayExportOptions {
+  projectKey?: string
+  cucumberForGherkin?: boolean
+}
+
+/**
+ * Xray test issue as accepted by the bulk test import endpoint
+ */
+export interface XrayTest {
+  testtype: 'Manual' | 'Cucumber'
+  fields: {
+    summary: string
+    project: { key: string }
+    description?: string
+    priority: { name: string }
+    labels: string[]
+    timetracking?: { originalEstimate: string }
+  }
+  update: {
+    issuelinks: Array<{
+      add: {
+        type: { name: string }
+        outwardIssue: { key: string }
+      }
+    }>
+  }
+  steps?: Array<{
+    action: string
+    data: string
+    result: string
+  }>
+  gherkin_def?: string
+}
+
+const PRIORITY_MAP: Record<ManualTestCase['priority'], string> = {
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low'
+}
+
+/**
+ * Export a QA Canvas document as an array of Xray tests
+ */
+export function exportToXray(
+  document: QACanvasDocument,
+  options: XrayExportOptions = {}
+): XrayTest[] {
+  const projectKey = options.projectKey || getProjectKey(document.metadata.ticketId)
+  const cucumberForGherkin = options.cucumberForGherkin ?? true
+
+  return document.testCases.map(testCase => {
+    const manual = normalizeTestCase(testCase, document)
+    const base = buildBaseTest(manual, projectKey)
+
+    if (testCase.format === 'gherkin' && cucumberForGherkin) {
+      return {
+        ...base,
+        testtype: 'Cucumber' as const,
+        gherkin_def: buildGherkinDefinition(testCase, document)
+      }
+    }
+
+    return {
+      ...base,
+      testtype: 'Manual' as const,
+      steps: manual.steps.map(testStep => ({
+        action: testStep.action,
+        data: testStep.data || '',
+        result: testStep.expectedResult
+      }))
+    }
+  })
+}
+
+/**
+ * Get a file name for the Xray JSON
+ */
+export function getXrayFileName(document: QACanvasDocument): string {
+  const safeId = document.metadata.ticketId.replace(/[^\w.-]+/g, '_') || 'qa-canvas'
+  return `${safeId}-xray.json`
+}
+
+/**
+ * Fields shared by Manual and Cucumber tests
+ */
+function buildBaseTest(manual: ManualTestCase, projectKey: string): Omit<XrayTest, 'testtype'> {
+  const fields: XrayTest['fields'] = {
+    summary: manual.title,
+    project: { key: projectKey },
+    description: buildDescription(manual),
+    priority: { name: PRIORITY_MAP[manual.priority] },
+    labels: manual.labels
+  }
+
+  if (manual.estimatedMinutes) {
+    fields.timetracking = { originalEstimate: `${manual.estimatedMinutes}m` }
+  }
+
+  return {
+    fields,
+    update: {
+      issuelinks: [
+        {
+          add: {
+            type: { name: 'Test' },
+            outwardIssue: { key: manual.ticketId }
+          }
+        }
+      ]
+    }
+  }
+}
+
+/**
+ * Build the test description with objective, preconditions and covered criteria
+ */
+function buildDescription(manual: ManualTestCase): string {
+  const sections: string[] = []
+
+  if (manual.objective && manual.objective !== manual.title) {
+    sections.push(manual.objective)
+  }
+
+  if (manual.preconditions.length > 0) {
+    sections.push(`Preconditions:\n${manual.preconditions.map(item => `* ${item}`).join('\n')}`)
+  }
+
+  if (manual.criteriaIds.length > 0) {
+    sections.push(`Covers acceptance criteria: ${manual.criteriaIds.join(', ')}`)
+  }
+
+  return sections.join('\n\n')
+}
+
+/**
+ * Cucumber tests store only the scenario steps; Xray adds the Scenario line itself
+ */
+function buildGherkinDefinition(testCase: TestCase, document: QACanvasDocument): string {
+  const scenario = testCaseToScenario(testCase, document, false)
+  return renderScenarioBody(scenario).join('\n')
+}
+
+/**
+ * Derive the Jira project key from an issue key such as "EN-8775"
+ */
+function getProjectKey(ticketId: string): string {
+  const match = ticketId.match(/^([A-Z][A-Z0-9_]*)-\d+$/i)
+  return match ? match[1].toUpperCase() : ticketId
+}
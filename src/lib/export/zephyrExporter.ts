@@ -0,0 +1,106 @@
+/**
+ * Zephyr Scale CSV Exporter
+ * Produces a CSV for the Zephyr Scale test case importer with step-by-step scripts
+ */
+
+import type { QACanvasDocument } from '../schemas/QACanvasDocument'
+import { normalizeTestCases, type ManualTestCase } from './manualTestCase'
+import { toCsv, type CsvRow } from './csv'
+
+/**
+ * Options for Zephyr Scale export
+ */
+export interface ZephyrExportOptions {
+  folder?: string
+  status?: string
+}
+
+/**
+ * Column order expected by the Zephyr Scale CSV import mapping
+ * Follow-up rows only fill the step columns and belong to the previous test case
+ */
+export const ZEPHYR_COLUMNS = [
+  'Name',
+  'Objective',
+  'Precondition',
+  'Folder',
+  'Status',
+  'Priority',
+  'Component',
+  'Labels',
+  'Estimated Time',
+  'Coverage (Issues)',
+  'Test Script (Step-by-Step) - Step',
+  'Test Script (Step-by-Step) - Test Data',
+  'Test Script (Step-by-Step) - Expected Result'
+]
+
+/**
+ * Zephyr Scale's default priorities are High, Normal and Low
+ */
+const PRIORITY_MAP: Record<ManualTestCase['priority'], string> = {
+  high: 'High',
+  medium: 'Normal',
+  low: 'Low'
+}
+
+/**
+ * Export a QA Canvas document as Zephyr Scale CSV
+ */
+export function exportToZephyr(
+  document: QACanvasDocument,
+  options: ZephyrExportOptions = {}
+): string {
+  const folder = options.folder || `/${document.metadata.ticketId}`
+  const status = options.status || 'Draft'
+  const rows: CsvRow[] = []
+
+  normalizeTestCases(document).forEach(testCase => {
+    const [firstStep, ...remainingSteps] = testCase.steps
+
+    rows.push({
+      'Name': testCase.title,
+      'Objective': testCase.objective,
+      'Precondition': testCase.preconditions.join('\n'),
+      'Folder': folder,
+      'Status': status,
+      'Priority': PRIORITY_MAP[testCase.priority],
+      'Component': testCase.category,
+      'Labels': testCase.labels.join(','),
+      'Estimated Time': formatEstimate(testCase.estimatedMinutes),
+      'Coverage (Issues)': testCase.ticketId,
+      'Test Script (Step-by-Step) - Step': firstStep?.action,
+      'Test Script (Step-by-Step) - Test Data': firstStep?.data,
+      'Test Script (Step-by-Step) - Expected Result': firstStep?.expectedResult
+    })
+
+    remainingSteps.forEach(testStep => {
+      rows.push({
+        'Test Script (Step-by-Step) - Step': testStep.action,
+        'Test Script (Step-by-Step) - Test Data': testStep.data,
+        'Test Script (Step-by-Step) - Expected Result': testStep.expectedResult
+      })
+    })
+  })
+
+  return toCsv(ZEPHYR_COLUMNS, rows)
+}
+
+/**
+ * Get a file name for the Zephyr Scale CSV
+ */
+export function getZephyrFileName(document: QACanvasDocument): string {
+  const safeId = document.metadata.ticketId.replace(/[^\w.-]+/g, '_') || 'qa-canvas'
+  return `${safeId}-zephyr.csv`
+}
+
+/**
+ * Zephyr Scale estimates use the "hh:mm" format
+ */
+function formatEstimate(minutes?: number): string {
+  if (!minutes) return ''
+
+  const hours = Math.floor(minutes / 60)
+  const remainder = minutes % 60
+  return `${String(hours).padStart(2, '0')}:${String(remainder).padStart(2, '0')}`
+}
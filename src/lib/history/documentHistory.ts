@@ -0,0 +1,215 @@
+/**
+ * Document History Service
+ * Records every QA Canvas document version per ticket and supports listing, diffing and restoring
+ */
+
+import { qaCanvasDocumentSchema, type QACanvasDocument } from '../schemas/QACanvasDocument'
+import { trackDocumentChanges, incrementVersion, type DocumentChange } from '../ai/documentRegenerator'
+import {
+  createDocumentHistoryStore,
+  type DocumentHistoryStore,
+  type DocumentVersionRecord,
+  type DocumentVersionSource
+} from './documentHistoryStore'
+
+/**
+ * Version listing entry without the full document body
+ */
+export interface DocumentVersionSummary {
+  ticketId: string
+  version: number
+  documentVersion: string
+  source: DocumentVersionSource
+  createdAt: string
+  requestId?: string
+  restoredFrom?: number
+  regenerationReason?: string
+  acceptanceCriteriaCount: number
+  testCaseCount: number
+}
+
+/**
+ * Result of comparing two stored versions
+ */
+export interface DocumentVersionDiff {
+  ticketId: string
+  from: DocumentVersionSummary
+  to: DocumentVersionSummary
+  changes: DocumentChange[]
+}
+
+/**
+ * Options attached to a recorded version
+ */
+export interface RecordVersionOptions {
+  requestId?: string
+  restoredFrom?: number
+}
+
+/**
+ * Document history service
+ */
+export class DocumentHistory {
+  // Serializes writes per ticket so version numbers are never reused
+  private pendingWrites = new Map<string, Promise<unknown>>()
+
+  constructor(private store: DocumentHistoryStore) {}
+
+  /**
+   * Store a document as the new head for its ticket
+   * The document version is bumped from the previous head so versions stay monotonic
+   */
+  async recordVersion(
+    document: QACanvasDocument,
+    source: DocumentVersionSource,
+    options: RecordVersionOptions = {}
+  ): Promise<DocumentVersionRecord> {
+    const ticketId = document.metadata.ticketId
+
+    return this.withTicketLock(ticketId, async () => {
+      const versions = await this.store.list(ticketId)
+      const head = versions[versions.length - 1]
+
+      const storedDocument: QACanvasDocument = structuredClone(document)
+      if (head) {
+        storedDocument.metadata.previousVersion = head.documentVersion
+        storedDocument.metadata.documentVersion = incrementVersion(head.documentVersion)
+      }
+
+      const record: DocumentVersionRecord = {
+        ticketId,
+        version: (head?.version || 0) + 1,
+        documentVersion: storedDocument.metadata.documentVersion,
+        source,
+        createdAt: new Date().toISOString(),
+        requestId: options.requestId,
+        restoredFrom: options.restoredFrom,
+        document: storedDocument
+      }
+
+      await this.store.save(record)
+      return record
+    })
+  }
+
+  /**
+   * Validate and record a generated document without failing the calling request
+   * Returns null when the document is invalid or the store is unavailable
+   */
+  async tryRecordVersion(
+    document: unknown,
+    source: DocumentVersionSource,
+    options: RecordVersionOptions = {}
+  ): Promise<DocumentVersionRecord | null> {
+    const validation = qaCanvasDocumentSchema.safeParse(document)
+    if (!validation.success) {
+      console.warn(`⚠️ [${options.requestId}] Skipping history for invalid ${source} document:`, validation.error.issues.length, 'issues')
+      return null
+    }
+
+    try {
+      const record = await this.recordVersion(validation.data, source, options)
+      console.log(`🗂️ [${options.requestId}] Stored ${record.ticketId} version ${record.version} (${record.documentVersion})`)
+      return record
+    } catch (error) {
+      console.error(`❌ [${options.requestId}] Failed to store document history:`, error)
+      return null
+    }
+  }
+
+  /**
+   * List all versions of a ticket, oldest first
+   */
+  async listVersions(ticketId: string): Promise<DocumentVersionSummary[]> {
+    const versions = await this.store.list(ticketId)
+    return versions.map(toSummary)
+  }
+
+  /**
+   * Get a single version, or the latest one when no version is given
+   */
+  async getVersion(ticketId: string, version?: number): Promise<DocumentVersionRecord | null> {
+    if (version === undefined) {
+      const versions = await this.store.list(ticketId)
+      return versions[versions.length - 1] || null
+    }
+    return this.store.get(ticketId, version)
+  }
+
+  /**
+   * Compare two versions using the document change tracker
+   * Returns null when either version does not exist
+   */
+  async diffVersions(ticketId: string, fromVersion: number, toVersion: number): Promise<DocumentVersionDiff | null> {
+    const [from, to] = await Promise.all([
+      this.store.get(ticketId, fromVersion),
+      this.store.get(ticketId, toVersion)
+    ])
+
+    if (!from || !to) {
+      return null
+    }
+
+    return {
+      ticketId,
+      from: toSummary(from),
+      to: toSummary(to),
+      changes: trackDocumentChanges(from.document, to.document)
+    }
+  }
+
+  /**
+   * Restore an older version by recording a copy of it as the new head
+   * Returns null when the version does not exist
+   */
+  async restoreVersion(ticketId: string, version: number, requestId?: string): Promise<DocumentVersionRecord | null> {
+    const target = await this.store.get(ticketId, version)
+    if (!target) {
+      return null
+    }
+
+    const document = structuredClone(target.document)
+    document.metadata.regenerationReason = `Restored from version ${version}`
+
+    return this.recordVersion(document, 'restore', { requestId, restoredFrom: version })
+  }
+
+  private async withTicketLock<T>(ticketId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.pendingWrites.get(ticketId) || Promise.resolve()
+    const next = previous.catch(() => undefined).then(task)
+    this.pendingWrites.set(ticketId, next)
+
+    try {
+      return await next
+    } finally {
+      if (this.pendingWrites.get(ticketId) === next) {
+        this.pendingWrites.delete(ticketId)
+      }
+    }
+  }
+}
+
+/**
+ * Build a listing entry from a stored record
+ */
+function toSummary(record: DocumentVersionRecord): DocumentVersionSummary {
+  return {
+    ticketId: record.ticketId,
+    version: record.version,
+    documentVersion: record.documentVersion,
+    source: record.source,
+    createdAt: record.createdAt,
+    requestId: record.requestId,
+    restoredFrom: record.restoredFrom,
+    regenerationReason: record.document.metadata.regenerationReason,
+    acceptanceCriteriaCount: record.document.acceptanceCriteria.length,
+    testCaseCount: record.document.testCases.length
+  }
+}
+
+/**
+ * Shared history instance backed by the configured store
+ */
+export const documentHistory = new DocumentHistory(createDocumentHistoryStore())
+
+export type { DocumentHistoryStore, DocumentVersionRecord, DocumentVersionSource } from './documentHistoryStore'
@@ -0,0 +1,137 @@
+/**
+ * Document History Storage
+ * Pluggable persistence for QA Canvas document versions keyed by ticket ID
+ */
+
+import { mkdir, readdir, readFile, rename, writeFile } from 'fs/promises'
+import path from 'path'
+import type { QACanvasDocument } from '../schemas/QACanvasDocument'
+
+/**
+ * Where a stored version came from
+ */
+export type DocumentVersionSource = 'analyze-ticket' | 'reanalyze-ticket' | 'update-canvas' | 'jobs' | 'restore'
+
+/**
+ * A stored document version
+ */
+export interface DocumentVersionRecord {
+  ticketId: string
+  version: number
+  documentVersion: string
+  source: DocumentVersionSource
+  createdAt: string
+  requestId?: string
+  restoredFrom?: number
+  document: QACanvasDocument
+}
+
+/**
+ * Storage backend for document versions
+ * Versions are numbered from 1 per ticket and never rewritten
+ */
+export interface DocumentHistoryStore {
+  save(record: DocumentVersionRecord): Promise<void>
+  list(ticketId: string): Promise<DocumentVersionRecord[]>
+  get(ticketId: string, version: number): Promise<DocumentVersionRecord | null>
+}
+
+/**
+ * In-memory store, used in tests and when persistence is disabled
+ */
+export class InMemoryDocumentHistoryStore implements DocumentHistoryStore {
+  private records = new Map<string, DocumentVersionRecord[]>()
+
+  async save(record: DocumentVersionRecord): Promise<void> {
+    const versions = this.records.get(record.ticketId) || []
+    versions.push(structuredClone(record))
+    this.records.set(record.ticketId, versions)
+  }
+
+  async list(ticketId: string): Promise<DocumentVersionRecord[]> {
+    return (this.records.get(ticketId) || []).map(record => structuredClone(record))
+  }
+
+  async get(ticketId: string, version: number): Promise<DocumentVersionRecord | null> {
+    const record = (this.records.get(ticketId) || []).find(item => item.version === version)
+    return record ? structuredClone(record) : null
+  }
+}
+
+/**
+ * File-based store writing one JSON file per version:
+ * <baseDir>/<ticketId>/<version>.json
+ */
+export class FileDocumentHistoryStore implements DocumentHistoryStore {
+  constructor(private baseDir: string) {}
+
+  async save(record: DocumentVersionRecord): Promise<void> {
+    const ticketDir = this.getTicketDir(record.ticketId)
+    await mkdir(ticketDir, { recursive: true })
+
+    // Write to a temporary file first so readers never see a partial version
+    const filePath = path.join(ticketDir, getVersionFileName(record.version))
+    const tempPath = `${filePath}.tmp`
+    await writeFile(tempPath, JSON.stringify(record, null, 2), 'utf-8')
+    await rename(tempPath, filePath)
+  }
+
+  async list(ticketId: string): Promise<DocumentVersionRecord[]> {
+    let files: string[]
+    try {
+      files = await readdir(this.getTicketDir(ticketId))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+      throw error
+    }
+
+    const versionFiles = files.filter(file => /^\d+\.json$/.test(file)).sort()
+    return Promise.all(versionFiles.map(file => this.readRecord(ticketId, file)))
+  }
+
+  async get(ticketId: string, version: number): Promise<DocumentVersionRecord | null> {
+    try {
+      return await this.readRecord(ticketId, getVersionFileName(version))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw error
+    }
+  }
+
+  private async readRecord(ticketId: string, fileName: string): Promise<DocumentVersionRecord> {
+    const content = await readFile(path.join(this.getTicketDir(ticketId), fileName), 'utf-8')
+    return JSON.parse(content)
+  }
+
+  private getTicketDir(ticketId: string): string {
+    // Ticket keys are user input; encode dots too so ".." cannot leave the base directory
+    return path.join(this.baseDir, encodeURIComponent(ticketId).replace(/\./g, '%2E'))
+  }
+}
+
+/**
+ * Zero-padded file names keep lexical and numeric order aligned
+ */
+function getVersionFileName(version: number): string {
+  return `${String(version).padStart(6, '0')}.json`
+}
+
+/**
+ * Create the store configured through DOCUMENT_HISTORY_STORE ("file" or "memory")
+ * Defaults to the file store, or memory when running tests
+ */
+export function createDocumentHistoryStore(): DocumentHistoryStore {
+  const storeType = process.env.DOCUMENT_HISTORY_STORE ||
+    (process.env.NODE_ENV === 'test' ? 'memory' : 'file')
+
+  if (storeType === 'memory') {
+    return new InMemoryDocumentHistoryStore()
+  }
+
+  if (storeType !== 'file') {
+    console.warn(`⚠️ Unknown DOCUMENT_HISTORY_STORE "${storeType}", falling back to file storage`)
+  }
+
+  const baseDir = process.env.DOCUMENT_HISTORY_DIR || path.join(process.cwd(), '.data', 'history')
+  return new FileDocumentHistoryStore(baseDir)
+}
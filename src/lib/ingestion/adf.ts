@@ -0,0 +1,135 @@
+/**
+ * Atlassian Document Format Conversion
+ * Turns ADF rich text (Jira REST API v3) into the plain text the section generators expect
+ */
+
+import type { AdfNode, JiraRichText } from '../schemas/JiraRestIssue'
+import { collectUrls } from './html'
+
+/**
+ * Block nodes whose children are separated by a blank line, like paragraphs in a document
+ */
+const SPACED_CONTAINERS = new Set(['doc', 'blockquote', 'panel', 'expand', 'nestedExpand', 'layoutSection', 'layoutColumn'])
+
+/**
+ * Convert rich text to plain text
+ * Lists become "- " / "1. " bullets, task lists "- [ ]" / "- [x]" checkboxes and tables " | "-separated rows;
+ * wiki markup strings (REST API v2) are returned as they are
+ */
+export function adfToPlainText(document: JiraRichText | null | undefined): string {
+  if (!document) return ''
+  if (typeof document === 'string') return document.trim()
+  return renderBlock(document).join('\n').replace(/\n{3,}/g, '\n\n').trim()
+}
+
+/**
+ * Collect the URLs linked from rich text: link marks and smart link cards, or bare URLs in wiki markup
+ */
+export function collectAdfLinks(document: JiraRichText | null | undefined): string[] {
+  if (!document) return []
+  if (typeof document === 'string') return collectUrls(document)
+
+  const links: string[] = []
+  const visit = (node: AdfNode) => {
+    node.marks?.forEach(mark => {
+      if (mark.type === 'link' && typeof mark.attrs?.href === 'string') links.push(mark.attrs.href)
+    })
+    if (['inlineCard', 'blockCard', 'embedCard'].includes(node.type) && typeof node.attrs?.url === 'string') {
+      links.push(node.attrs.url)
+    }
+    node.content?.forEach(visit)
+  }
+  visit(document)
+
+  return [...new Set(links)]
+}
+
+function renderBlock(node: AdfNode): string[] {
+  switch (node.type) {
+    case 'paragraph':
+    case 'heading':
+      return splitLines(renderInline(node.content))
+    case 'bulletList':
+      return (node.content || []).flatMap(item => prefixLines(renderBlocks(item.content), '- '))
+    case 'orderedList': {
+      const start = typeof node.attrs?.order === 'number' ? node.attrs.order : 1
+      return (node.content || []).flatMap((item, index) => prefixLines(renderBlocks(item.content), `${start + index}. `))
+    }
+    case 'taskList':
+      return (node.content || []).flatMap(item => item.type === 'taskItem'
+        ? prefixLines(splitLines(renderInline(item.content)), item.attrs?.state === 'DONE' ? '- [x] ' : '- [ ] ')
+        : renderBlock(item))
+    case 'decisionList':
+      return (node.content || []).flatMap(item => prefixLines(splitLines(renderInline(item.content)), '- '))
+    case 'codeBlock':
+      return splitLines(renderInline(node.content)).map(line => `    ${line}`)
+    case 'table':
+      return (node.content || []).map(row => (row.content || []).map(cell => renderBlocks(cell.content).join(' ')).join(' | '))
+    case 'mediaSingle':
+    case 'mediaGroup':
+      return renderBlocks(node.content)
+    case 'media':
+      return [`[Attachment: ${stringAttr(node.attrs, 'alt') || stringAttr(node.attrs, 'id') || 'file'}]`]
+    case 'rule':
+      return []
+  }
+
+  if (SPACED_CONTAINERS.has(node.type)) {
+    const title = stringAttr(node.attrs, 'title')
+    return [...(title ? [title] : []), ...(node.content || []).flatMap((child, index) => index > 0 ? ['', ...renderBlock(child)] : renderBlock(child))]
+  }
+
+  return node.content?.some(child => child.type === 'text') ? splitLines(renderInline(node.content)) : renderBlocks(node.content)
+}
+
+function renderBlocks(nodes: AdfNode[] = []): string[] {
+  return nodes.flatMap(renderBlock)
+}
+
+function renderInline(nodes: AdfNode[] = []): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text': {
+        const href = stringAttr(node.marks?.find(mark => mark.type === 'link')?.attrs, 'href')
+        return href && href !== node.text ? `${node.text} (${href})` : node.text || ''
+      }
+      case 'hardBreak':
+        return '\n'
+      case 'mention':
+      case 'emoji':
+      case 'status':
+        return stringAttr(node.attrs, 'text') || stringAttr(node.attrs, 'shortName')
+      case 'inlineCard':
+        return stringAttr(node.attrs, 'url')
+      case 'date':
+        return formatDate(node.attrs?.timestamp)
+      default:
+        return node.text || renderInline(node.content)
+    }
+  }).join('')
+}
+
+/**
+ * String attribute of a node or mark; empty when missing or not a string
+ */
+function stringAttr(attrs: Record<string, unknown> | undefined, name: string): string {
+  const value = attrs?.[name]
+  return typeof value === 'string' ? value : ''
+}
+
+/**
+ * Date nodes hold a millisecond timestamp; anything that is not a valid one is shown as given
+ */
+function formatDate(timestamp: unknown): string {
+  if (timestamp === undefined || timestamp === null || timestamp === '') return ''
+  const value = new Date(Number(timestamp))
+  return Number.isFinite(Number(timestamp)) && !Number.isNaN(value.getTime()) ? value.toISOString().slice(0, 10) : String(timestamp)
+}
+
+function splitLines(text: string): string[] {
+  return text.trim() ? text.split('\n').map(line => line.trimEnd()) : []
+}
+
+function prefixLines(lines: string[], marker: string): string[] {
+  return lines.map((line, index) => (index === 0 ? marker : ' '.repeat(marker.length)) + line)
+}
@@ -0,0 +1,149 @@
+/**
+ * Azure DevOps Work Item Ingestion
+ * Normalizes Azure DevOps REST API work items into the JiraTicket shape
+ */
+
+import type { JiraIssueLink, JiraTicket } from '../schemas/JiraTicket'
+import {
+  azureDevOpsWorkItemSchema,
+  type AzureDevOpsIdentity,
+  type AzureDevOpsWorkItem
+} from '../schemas/TicketSources'
+import { collectHtmlLinks, htmlToPlainText } from './html'
+import { guessMimeType } from './mimeTypes'
+import type { TicketNormalizeOptions, TicketSourceAdapter } from './types'
+
+/**
+ * Names of the 1-4 priority values (1 is the highest)
+ */
+const PRIORITY_NAMES: Record<number, string> = {
+  1: 'Critical',
+  2: 'High',
+  3: 'Medium',
+  4: 'Low'
+}
+
+/**
+ * Well-known fields copied into customFields, with the label used there; HTML values become plain text
+ * Fields of custom processes ("Custom.*") are copied too, labelled with their reference name
+ */
+const COPIED_FIELDS: Record<string, string> = {
+  'Microsoft.VSTS.Common.AcceptanceCriteria': 'Acceptance Criteria',
+  'Microsoft.VSTS.Common.Severity': 'Severity',
+  'Microsoft.VSTS.Scheduling.StoryPoints': 'Story Points',
+  'Microsoft.VSTS.Scheduling.Effort': 'Effort',
+  'Microsoft.VSTS.Build.FoundIn': 'Found in build',
+  'System.IterationPath': 'Iteration',
+  'System.Tags': 'Tags'
+}
+
+/**
+ * Link names of work item relations, read from this work item's side
+ */
+const RELATION_TYPES: Record<string, string> = {
+  'System.LinkTypes.Hierarchy-Forward': 'parent of',
+  'System.LinkTypes.Hierarchy-Reverse': 'child of',
+  'System.LinkTypes.Related': 'relates to',
+  'System.LinkTypes.Dependency-Forward': 'predecessor of',
+  'System.LinkTypes.Dependency-Reverse': 'successor of',
+  'System.LinkTypes.Duplicate-Forward': 'duplicated by',
+  'System.LinkTypes.Duplicate-Reverse': 'duplicates'
+}
+
+/**
+ * Whether a value looks like an Azure DevOps work item
+ */
+export function isAzureDevOpsWorkItem(value: Record<string, unknown>): boolean {
+  return typeof value.id === 'number' && !!value.fields && typeof value.fields === 'object' && 'System.Title' in value.fields
+}
+
+/**
+ * Convert an Azure DevOps work item into a JiraTicket
+ * The key is "ADO-<id>"; the HTML description and, for bugs, the repro steps become the description,
+ * the last area path segment the component, and attached files metadata-only attachments
+ */
+export function normalizeAzureDevOpsWorkItem(workItem: AzureDevOpsWorkItem, options: TicketNormalizeOptions = {}): JiraTicket {
+  const { fields } = workItem
+  const description = htmlToPlainText(fields['System.Description'])
+  const reproSteps = htmlToPlainText(fields['Microsoft.VSTS.TCM.ReproSteps'])
+  const priority = fields['Microsoft.VSTS.Common.Priority']
+  const areaPath = fields['System.AreaPath']?.split('\\') || []
+
+  return {
+    issueKey: getWorkItemKey(workItem.id),
+    summary: fields['System.Title'],
+    description: [description, reproSteps && `Repro steps:\n${reproSteps}`].filter(Boolean).join('\n\n'),
+    status: fields['System.State'],
+    priority: priority ? PRIORITY_NAMES[priority] || `Priority ${priority}` : 'None',
+    issueType: fields['System.WorkItemType'],
+    assignee: getDisplayName(fields['System.AssignedTo']),
+    reporter: getDisplayName(fields['System.CreatedBy']) || 'Unknown',
+    comments: workItem.comments.map(comment => ({
+      author: getDisplayName(comment.createdBy) || 'Unknown',
+      body: htmlToPlainText(comment.text),
+      created: comment.createdDate,
+      updated: comment.modifiedDate,
+      images: [],
+      links: collectHtmlLinks(comment.text)
+    })),
+    attachments: workItem.relations
+      .filter(relation => relation.rel === 'AttachedFile')
+      .map(relation => {
+        const name = relation.attributes.name || relation.url.split('/').pop() || 'attachment'
+        return { data: '', mime: guessMimeType(name), name, size: relation.attributes.resourceSize || 0, tooBig: false, url: relation.url }
+      }),
+    components: areaPath.length > 1 ? [areaPath[areaPath.length - 1]] : [],
+    customFields: normalizeCustomFields(workItem),
+    issueLinks: workItem.relations.flatMap(normalizeRelation),
+    source: 'azure-devops',
+    scrapedAt: options.fetchedAt || new Date().toISOString()
+  }
+}
+
+/**
+ * Ticket source adapter for Azure DevOps work items
+ */
+export const azureDevOpsWorkItemAdapter: TicketSourceAdapter<AzureDevOpsWorkItem> = {
+  source: 'azure-devops',
+  schema: azureDevOpsWorkItemSchema,
+  detect: isAzureDevOpsWorkItem,
+  normalize: normalizeAzureDevOpsWorkItem
+}
+
+function getWorkItemKey(id: number | string): string {
+  return `ADO-${id}`
+}
+
+/**
+ * Display name of an identity object, or of a "Name <email>" string
+ */
+function getDisplayName(identity: AzureDevOpsIdentity | null | undefined): string | undefined {
+  if (!identity) return undefined
+  if (typeof identity === 'string') return identity.replace(/\s*<[^>]*>\s*$/, '').trim() || undefined
+  return identity.displayName
+}
+
+function normalizeRelation(relation: AzureDevOpsWorkItem['relations'][number]): JiraIssueLink[] {
+  if (!relation.rel.startsWith('System.LinkTypes.')) return []
+  const id = relation.url.match(/\/workItems\/(\d+)$/i)?.[1]
+  if (!id) return []
+
+  return [{
+    type: RELATION_TYPES[relation.rel] || relation.attributes.name?.toLowerCase() || relation.rel,
+    issueKey: getWorkItemKey(id)
+  }]
+}
+
+function normalizeCustomFields(workItem: AzureDevOpsWorkItem): Record<string, string> {
+  const customFields: Record<string, string> = {}
+  const areaPath = workItem.fields['System.AreaPath']
+  if (areaPath) customFields.Area = areaPath
+
+  Object.entries(workItem.fields as Record<string, unknown>).forEach(([field, value]) => {
+    const label = COPIED_FIELDS[field] || (field.startsWith('Custom.') ? field.slice('Custom.'.length) : undefined)
+    if (!label || value === null || value === undefined) return
+    const text = typeof value === 'string' ? htmlToPlainText(value) : typeof value === 'object' ? getDisplayName(value as AzureDevOpsIdentity) : String(value)
+    if (text) customFields[label] = text
+  })
+  return customFields
+}
@@ -0,0 +1,93 @@
+/**
+ * GitHub Issue Ingestion
+ * Normalizes GitHub REST API issues into the JiraTicket shape
+ */
+
+import type { JiraTicket } from '../schemas/JiraTicket'
+import { githubIssueSchema, type GitHubIssue } from '../schemas/TicketSources'
+import { collectUrls } from './html'
+import type { TicketNormalizeOptions, TicketSourceAdapter } from './types'
+
+/**
+ * Labels read as the issue type when the repository has no issue types
+ */
+const TYPE_LABELS: Record<string, string> = {
+  bug: 'Bug',
+  enhancement: 'Feature',
+  feature: 'Feature',
+  task: 'Task',
+  documentation: 'Documentation'
+}
+
+const PRIORITY_LABEL = /^(?:priority|prio)(?:\s*[:/-]\s*|\s+)(.+)$|^(p[0-4])$/i
+const COMPONENT_LABEL = /^(?:area|component)\s*[:/]\s*(.+)$/i
+
+/**
+ * Whether a value looks like a GitHub issue
+ */
+export function isGitHubIssue(value: Record<string, unknown>): boolean {
+  return typeof value.number === 'number' && typeof value.title === 'string' && typeof value.html_url === 'string'
+}
+
+/**
+ * Convert a GitHub issue into a JiraTicket
+ * The key is "<repo>-<number>"; priority comes from "priority: x" or "P0"-"P3" labels, the issue type
+ * from the organization issue type or well-known labels, and components from "area:" / "component:" labels
+ */
+export function normalizeGitHubIssue(issue: GitHubIssue, options: TicketNormalizeOptions = {}): JiraTicket {
+  const repository = getRepository(issue)
+  const labels = issue.labels.map(label => typeof label === 'string' ? label : label.name)
+  const priorityLabel = labels.find(label => PRIORITY_LABEL.test(label))
+  const componentLabels = labels.filter(label => COMPONENT_LABEL.test(label))
+  const otherLabels = labels.filter(label => label !== priorityLabel && !componentLabels.includes(label))
+
+  const customFields: Record<string, string> = {}
+  if (repository) customFields.Repository = repository
+  if (otherLabels.length > 0) customFields.Labels = otherLabels.join(', ')
+  if (issue.milestone) customFields.Milestone = issue.milestone.title
+
+  return {
+    issueKey: `${repository?.split('/').pop() || 'issue'}-${issue.number}`,
+    summary: issue.title,
+    description: issue.body?.trim() || '',
+    status: issue.state === 'closed' ? (issue.state_reason === 'not_planned' ? 'Closed (not planned)' : 'Closed') : 'Open',
+    priority: priorityLabel ? formatPriority(priorityLabel) : 'None',
+    issueType: issue.type?.name || labels.map(label => TYPE_LABELS[label.toLowerCase()]).find(Boolean) || 'Issue',
+    assignee: issue.assignee?.login,
+    reporter: issue.user?.login || 'ghost',
+    comments: (Array.isArray(issue.comments) ? issue.comments : []).map(comment => ({
+      author: comment.user?.login || 'ghost',
+      body: comment.body?.trim() || '',
+      created: comment.created_at,
+      updated: comment.updated_at,
+      images: [],
+      links: collectUrls(comment.body)
+    })),
+    attachments: [],
+    components: componentLabels.map(label => label.match(COMPONENT_LABEL)![1].trim()),
+    customFields,
+    source: 'github',
+    scrapedAt: options.fetchedAt || new Date().toISOString()
+  }
+}
+
+/**
+ * Ticket source adapter for GitHub issues
+ */
+export const githubIssueAdapter: TicketSourceAdapter<GitHubIssue> = {
+  source: 'github',
+  schema: githubIssueSchema,
+  detect: isGitHubIssue,
+  normalize: normalizeGitHubIssue
+}
+
+function getRepository(issue: GitHubIssue): string | undefined {
+  const fromApiUrl = issue.repository_url?.match(/\/repos\/([^/]+\/[^/]+)$/)?.[1]
+  return fromApiUrl || issue.html_url.match(/github\.com\/([^/]+\/[^/]+)\/issues\//)?.[1]
+}
+
+function formatPriority(label: string): string {
+  const [, named, short] = label.match(PRIORITY_LABEL)!
+  const value = (named || short).trim()
+  return short ? value.toUpperCase() : value.charAt(0).toUpperCase() + value.slice(1)
+}
@@ -0,0 +1,76 @@
+/**
+ * HTML Conversion
+ * Turns the HTML rich text of work item trackers (e.g. Azure DevOps) into plain text
+ */
+
+const ENTITIES: Record<string, string> = {
+  nbsp: ' ',
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'"
+}
+
+/**
+ * Convert HTML to plain text
+ * Block elements become lines, list items "- " bullets, table cells " | "-separated rows
+ * and links "text (href)"; other tags are dropped
+ */
+export function htmlToPlainText(html: string | null | undefined): string {
+  if (!html) return ''
+
+  const text = html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<a\b[^>]*href=["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi, (_, href: string, label: string) => {
+      const labelText = stripTags(label).trim()
+      return labelText && labelText !== href ? `${labelText} (${href})` : href
+    })
+    .replace(/<img\b[^>]*>/gi, tag => {
+      const alt = tag.match(/\balt=["']([^"']*)["']/i)?.[1]
+      return `[Image${alt ? `: ${alt}` : ''}]`
+    })
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li\b[^>]*>\s*(<(p|div)\b[^>]*>)?/gi, '\n- ')
+    .replace(/(<\/(p|div)>\s*)?<\/li>/gi, '')
+    .replace(/<\/t[dh]>\s*(?=<t[dh]\b)/gi, ' | ')
+    .replace(/<\/(p|div|h[1-6]|tr|ul|ol|table|blockquote|pre)>/gi, '\n')
+    .replace(/<(p|div|h[1-6]|ul|ol|table|blockquote|pre)\b[^>]*>/gi, '\n')
+
+  return decodeEntities(stripTags(text))
+    .split('\n')
+    .map(line => line.replace(/[ \t]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+/**
+ * Collect the link targets of an HTML fragment
+ */
+export function collectHtmlLinks(html: string | null | undefined): string[] {
+  if (!html) return []
+  return [...new Set([...html.matchAll(/<a\b[^>]*href=["']([^"']+)["']/gi)].map(match => decodeEntities(match[1])))]
+}
+
+/**
+ * Collect the http(s) URLs mentioned in plain text, markdown or wiki markup
+ */
+export function collectUrls(text: string | null | undefined): string[] {
+  if (!text) return []
+  return [...new Set(text.match(/https?:\/\/[^\s|\])>"']+/g) || [])]
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]+>/g, '')
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (entity, code: string) => {
+    if (code.startsWith('#')) {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+      return Number.isNaN(value) ? entity : String.fromCodePoint(value)
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity
+  })
+}
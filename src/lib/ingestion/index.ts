@@ -0,0 +1,87 @@
+/**
+ * Ticket Ingestion - Main exports
+ * Registry of work item trackers accepted wherever a JiraTicket is expected
+ */
+
+import { z } from 'zod'
+import { jiraTicketSchema, ticketSourceSchema, type JiraTicket, type TicketSource } from '../schemas/JiraTicket'
+import type { JiraRestIssue } from '../schemas/JiraRestIssue'
+import type { AzureDevOpsWorkItem, GitHubIssue, LinearIssue } from '../schemas/TicketSources'
+import { jiraRestIssueAdapter } from './jiraRestIssue'
+import { githubIssueAdapter } from './githubIssue'
+import { azureDevOpsWorkItemAdapter } from './azureDevOpsWorkItem'
+import { linearIssueAdapter } from './linearIssue'
+import type { TicketNormalizeOptions, TicketSourceAdapter } from './types'
+
+/**
+ * Supported ticket sources, in detection order
+ */
+export const TICKET_SOURCES = ticketSourceSchema.options
+
+/**
+ * Raw work item type of each tracker
+ */
+interface TicketSourceItems {
+  jira: JiraRestIssue
+  github: GitHubIssue
+  'azure-devops': AzureDevOpsWorkItem
+  linear: LinearIssue
+}
+
+const ticketSourceAdapters: { [Source in TicketSource]: TicketSourceAdapter<TicketSourceItems[Source]> } = {
+  jira: jiraRestIssueAdapter,
+  github: githubIssueAdapter,
+  'azure-devops': azureDevOpsWorkItemAdapter,
+  linear: linearIssueAdapter
+}
+
+/**
+ * Adapter of a tracker, typed so its schema output is accepted by its normalize
+ */
+function getTicketSourceAdapter<Source extends TicketSource>(source: Source): TicketSourceAdapter<TicketSourceItems[Source]> {
+  return ticketSourceAdapters[source]
+}
+
+/**
+ * Detect the tracker a raw work item comes from
+ * Returns undefined for tickets already in the JiraTicket shape (scraped by the Chrome extension)
+ */
+export function detectTicketSource(value: unknown): TicketSource | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value) || 'issueKey' in value) return undefined
+  return TICKET_SOURCES.find(source => ticketSourceAdapters[source].detect(value as Record<string, unknown>))
+}
+
+/**
+ * Validate a raw work item of the given tracker and convert it into a JiraTicket
+ * Throws a ZodError when the work item does not match the tracker's schema
+ */
+export function normalizeTicket(value: unknown, source: TicketSource, options: TicketNormalizeOptions = {}): JiraTicket {
+  const adapter = getTicketSourceAdapter(source)
+  return adapter.normalize(adapter.schema.parse(value), options)
+}
+
+/**
+ * Ticket schema accepting a scraped ticket or a raw work item of any supported tracker, normalized into a JiraTicket
+ * Validation errors of a raw work item are reported against its own fields (e.g. "ticketJson.fields.status")
+ */
+export const ticketInputSchema = z.preprocess((value, ctx) => {
+  const source = detectTicketSource(value)
+  if (!source) return value
+
+  const adapter = getTicketSourceAdapter(source)
+  const result = adapter.schema.safeParse(value)
+  if (!result.success) {
+    result.error.issues.forEach(issue => ctx.addIssue({ ...issue, fatal: true }))
+    return z.NEVER
+  }
+  return adapter.normalize(result.data)
+}, jiraTicketSchema)
+
+export { adfToPlainText, collectAdfLinks } from './adf'
+export { htmlToPlainText, collectHtmlLinks, collectUrls } from './html'
+export { jiraRestIssueAdapter, normalizeJiraRestIssue } from './jiraRestIssue'
+export { githubIssueAdapter, normalizeGitHubIssue } from './githubIssue'
+export { azureDevOpsWorkItemAdapter, normalizeAzureDevOpsWorkItem } from './azureDevOpsWorkItem'
+export { linearIssueAdapter, normalizeLinearIssue } from './linearIssue'
+
+export type { TicketNormalizeOptions, TicketSourceAdapter } from './types'
@@ -0,0 +1,142 @@
+/**
+ * Jira REST Issue Ingestion
+ * Normalizes raw Jira Cloud REST issues into the JiraTicket shape scraped by the Chrome extension
+ */
+
+import type { JiraIssueLink, JiraTicket } from '../schemas/JiraTicket'
+import { jiraRestIssueSchema, type AdfNode, type JiraRestIssue } from '../schemas/JiraRestIssue'
+import { adfToPlainText, collectAdfLinks } from './adf'
+import type { TicketNormalizeOptions, TicketSourceAdapter } from './types'
+
+/**
+ * System fields copied into customFields, with the label used there
+ */
+const COPIED_SYSTEM_FIELDS: Record<string, string> = {
+  labels: 'Labels',
+  fixVersions: 'Fix versions',
+  duedate: 'Due date'
+}
+
+/**
+ * Whether a value looks like a REST issue ({ key, fields }) rather than a scraped ticket
+ */
+export function isJiraRestIssue(value: unknown): boolean {
+  if (!value || typeof value !== 'object') return false
+  const candidate = value as Record<string, unknown>
+  return typeof candidate.key === 'string' && !!candidate.fields && typeof candidate.fields === 'object' && !('issueKey' in candidate)
+}
+
+/**
+ * Convert a REST issue into a JiraTicket
+ * ADF description and comment bodies become plain text, custom fields are labelled with their
+ * display names when the issue was fetched with expand=names, and attachments carry metadata
+ * and their download URL only (no data, so they are not sent to the AI as images)
+ */
+export function normalizeJiraRestIssue(issue: JiraRestIssue, options: TicketNormalizeOptions = {}): JiraTicket {
+  const { fields } = issue
+
+  return {
+    issueKey: issue.key,
+    summary: fields.summary,
+    description: adfToPlainText(fields.description),
+    status: fields.status.name,
+    priority: fields.priority?.name || 'None',
+    issueType: fields.issuetype.name,
+    assignee: fields.assignee?.displayName || undefined,
+    reporter: fields.reporter?.displayName || 'Unknown',
+    comments: (fields.comment?.comments || []).map(comment => ({
+      author: comment.author?.displayName || 'Unknown',
+      body: adfToPlainText(comment.body),
+      created: comment.created,
+      updated: comment.updated,
+      images: [],
+      links: collectAdfLinks(comment.body)
+    })),
+    attachments: fields.attachment.map(attachment => ({
+      data: '',
+      mime: attachment.mimeType,
+      name: attachment.filename,
+      size: attachment.size,
+      tooBig: false,
+      url: attachment.content
+    })),
+    components: fields.components.map(component => component.name),
+    customFields: normalizeCustomFields(issue),
+    issueLinks: fields.issuelinks.flatMap(normalizeIssueLink),
+    subtasks: fields.subtasks.map(subtask => ({
+      issueKey: subtask.key,
+      summary: subtask.fields.summary || '',
+      status: subtask.fields.status?.name
+    })),
+    source: 'jira',
+    scrapedAt: options.fetchedAt || new Date().toISOString()
+  }
+}
+
+/**
+ * Ticket source adapter for Jira Cloud REST issues
+ */
+export const jiraRestIssueAdapter: TicketSourceAdapter<JiraRestIssue> = {
+  source: 'jira',
+  schema: jiraRestIssueSchema,
+  detect: isJiraRestIssue,
+  normalize: normalizeJiraRestIssue
+}
+
+function normalizeIssueLink(link: JiraRestIssue['fields']['issuelinks'][number]): JiraIssueLink[] {
+  const linked = link.outwardIssue
+    ? { type: link.type.outward, issue: link.outwardIssue }
+    : link.inwardIssue
+      ? { type: link.type.inward, issue: link.inwardIssue }
+      : undefined
+  if (!linked) return []
+
+  return [{
+    type: linked.type,
+    issueKey: linked.issue.key,
+    summary: linked.issue.fields.summary,
+    status: linked.issue.fields.status?.name
+  }]
+}
+
+function normalizeCustomFields(issue: JiraRestIssue): Record<string, string> {
+  const customFields: Record<string, string> = {}
+  const fields = issue.fields as Record<string, unknown>
+
+  Object.entries(fields).forEach(([id, value]) => {
+    const label = id.startsWith('customfield_') ? issue.names?.[id] || id : COPIED_SYSTEM_FIELDS[id]
+    if (!label) return
+    const text = normalizeFieldValue(value)
+    if (text) customFields[label] = text
+  })
+
+  if (issue.fields.parent) {
+    const { key, fields: parentFields } = issue.fields.parent
+    customFields.Parent = parentFields.summary ? `${key}: ${parentFields.summary}` : key
+  }
+  return customFields
+}
+
+/**
+ * Flatten a field value into text: ADF documents, select options, users, sprints and arrays of them
+ */
+function normalizeFieldValue(value: unknown): string | undefined {
+  if (value === null || value === undefined) return undefined
+  if (typeof value === 'string') return value.trim() || undefined
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value)
+  if (Array.isArray(value)) {
+    const items = value.map(normalizeFieldValue).filter((item): item is string => !!item)
+    return items.length > 0 ? items.join(', ') : undefined
+  }
+  if (typeof value === 'object') {
+    const record = value as Record<string, unknown>
+    if (record.type === 'doc') return adfToPlainText(record as unknown as AdfNode) || undefined
+    const text = record.value ?? record.name ?? record.displayName ?? record.key
+    if (text !== undefined) {
+      const child = record.child ? normalizeFieldValue(record.child) : undefined
+      return [normalizeFieldValue(text), child].filter(Boolean).join(' - ') || undefined
+    }
+    return JSON.stringify(value)
+  }
+  return undefined
+}
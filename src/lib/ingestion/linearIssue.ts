@@ -0,0 +1,118 @@
+/**
+ * Linear Issue Ingestion
+ * Normalizes Linear GraphQL and webhook issues into the JiraTicket shape
+ */
+
+import type { JiraTicket } from '../schemas/JiraTicket'
+import { linearIssueSchema, type LinearIssue } from '../schemas/TicketSources'
+import { collectUrls } from './html'
+import { guessMimeType } from './mimeTypes'
+import type { TicketNormalizeOptions, TicketSourceAdapter } from './types'
+
+/**
+ * Names of Linear's numeric priorities, used when priorityLabel is missing
+ */
+const PRIORITY_NAMES: Record<number, string> = {
+  0: 'None',
+  1: 'Urgent',
+  2: 'High',
+  3: 'Medium',
+  4: 'Low'
+}
+
+/**
+ * Labels read as the issue type, as Linear issues have none
+ */
+const TYPE_LABELS: Record<string, string> = {
+  bug: 'Bug',
+  feature: 'Feature',
+  improvement: 'Improvement',
+  task: 'Task'
+}
+
+/**
+ * Link names of issue relations, read from this issue's side
+ */
+const RELATION_TYPES: Record<string, string> = {
+  blocks: 'blocks',
+  duplicate: 'duplicates',
+  related: 'relates to'
+}
+
+/**
+ * Whether a value looks like a Linear issue
+ */
+export function isLinearIssue(value: Record<string, unknown>): boolean {
+  return typeof value.identifier === 'string' && typeof value.title === 'string' && !!value.state && typeof value.state === 'object'
+}
+
+/**
+ * Convert a Linear issue into a JiraTicket
+ * The identifier is the key, the team the component and sub-issues the subtasks;
+ * attachments are link previews, kept as metadata-only attachments
+ */
+export function normalizeLinearIssue(issue: LinearIssue, options: TicketNormalizeOptions = {}): JiraTicket {
+  const labels = issue.labels.map(label => label.name)
+  const typeLabel = labels.find(label => TYPE_LABELS[label.toLowerCase()])
+
+  const customFields: Record<string, string> = {}
+  const otherLabels = labels.filter(label => label !== typeLabel)
+  if (otherLabels.length > 0) customFields.Labels = otherLabels.join(', ')
+  if (issue.project) customFields.Project = issue.project.name
+  if (issue.cycle) customFields.Cycle = issue.cycle.name || `Cycle ${issue.cycle.number}`
+  if (typeof issue.estimate === 'number') customFields.Estimate = String(issue.estimate)
+  if (issue.dueDate) customFields['Due date'] = issue.dueDate
+  if (issue.parent) customFields.Parent = issue.parent.title ? `${issue.parent.identifier}: ${issue.parent.title}` : issue.parent.identifier
+
+  return {
+    issueKey: issue.identifier,
+    summary: issue.title,
+    description: issue.description?.trim() || '',
+    status: issue.state.name,
+    priority: issue.priorityLabel || PRIORITY_NAMES[issue.priority ?? 0] || 'None',
+    issueType: typeLabel ? TYPE_LABELS[typeLabel.toLowerCase()] : 'Issue',
+    assignee: issue.assignee?.displayName || issue.assignee?.name,
+    reporter: issue.creator?.displayName || issue.creator?.name || 'Unknown',
+    comments: issue.comments.map(comment => ({
+      author: comment.user?.displayName || comment.user?.name || 'Unknown',
+      body: comment.body.trim(),
+      created: comment.createdAt,
+      updated: comment.updatedAt,
+      images: [],
+      links: collectUrls(comment.body)
+    })),
+    attachments: issue.attachments.map(attachment => ({
+      data: '',
+      mime: guessMimeType(attachment.url),
+      name: attachment.title,
+      size: 0,
+      tooBig: false,
+      url: attachment.url
+    })),
+    components: issue.team ? [issue.team.name] : [],
+    customFields,
+    issueLinks: issue.relations.map(relation => ({
+      type: RELATION_TYPES[relation.type] || relation.type,
+      issueKey: relation.relatedIssue.identifier,
+      summary: relation.relatedIssue.title,
+      status: relation.relatedIssue.state?.name
+    })),
+    subtasks: issue.children.map(child => ({
+      issueKey: child.identifier,
+      summary: child.title || '',
+      status: child.state?.name
+    })),
+    source: 'linear',
+    scrapedAt: options.fetchedAt || new Date().toISOString()
+  }
+}
+
+/**
+ * Ticket source adapter for Linear issues
+ */
+export const linearIssueAdapter: TicketSourceAdapter<LinearIssue> = {
+  source: 'linear',
+  schema: linearIssueSchema,
+  detect: isLinearIssue,
+  normalize: normalizeLinearIssue
+}
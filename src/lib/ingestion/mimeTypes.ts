@@ -0,0 +1,26 @@
+/**
+ * MIME types by file extension, for trackers that list attachments without one
+ */
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  log: 'text/plain',
+  csv: 'text/csv',
+  json: 'application/json',
+  zip: 'application/zip',
+  mp4: 'video/mp4'
+}
+
+/**
+ * Guess the MIME type of an attachment from its file name or URL
+ */
+export function guessMimeType(fileName: string): string {
+  const extension = fileName.split(/[?#]/)[0].split('.').pop()?.toLowerCase() || ''
+  return MIME_TYPES[extension] || 'application/octet-stream'
+}
@@ -0,0 +1,25 @@
+/**
+ * Ticket Ingestion Types
+ * Contract implemented by every work item tracker adapter
+ */
+
+import type { z } from 'zod'
+import type { JiraTicket, TicketSource } from '../schemas/JiraTicket'
+
+/**
+ * Options for normalizing a work item
+ */
+export interface TicketNormalizeOptions {
+  fetchedAt?: string // stored as scrapedAt; defaults to now
+}
+
+/**
+ * Adapter mapping a tracker's raw work item JSON into a JiraTicket
+ * so analyze-ticket and the section generators work unchanged
+ */
+export interface TicketSourceAdapter<T> {
+  source: TicketSource
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+  detect: (value: Record<string, unknown>) => boolean // whether a payload looks like this tracker's work item
+  normalize: (item: T, options?: TicketNormalizeOptions) => JiraTicket
+}
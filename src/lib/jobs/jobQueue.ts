@@ -0,0 +1,391 @@
+/**
+ * Analysis Job Queue
+ * Runs batches of ticket analyses in the background with bounded concurrency, retries and cancellation
+ */
+
+import { v4 as uuidv4 } from 'uuid'
+import type { TicketAnalysisPayload } from '../schemas/TicketAnalysisPayload'
+import type { QACanvasDocument, ResponseCacheLookup } from '../schemas/QACanvasDocument'
+import { assembleQADocument, generateQADocumentBySections } from '../ai/sectionGenerators'
+import { getProviderHealthStatus } from '../ai/providerFailover'
+import { withProviderRouting, applyTicketRoutingPolicy } from '../ai/providerRegistry'
+import { collectAssumptions } from '../analysis/ticketAnalyzer'
+import { documentHistory } from '../history/documentHistory'
+import { withUsageTracking, attributeUsage } from '../usage/usageTracker'
+import { budgetGuard, BudgetExceededError } from '../usage/budgets'
+import { responseCache, summarizeSectionCache } from '../cache/responseCache'
+import {
+  createJobStore,
+  type AnalysisJob,
+  type JobStore,
+  type JobTicket,
+  type TicketAnalysisResult
+} from './jobStore'
+
+/**
+ * Identifies the attempt a ticket analysis belongs to
+ */
+export interface TicketAnalysisContext {
+  jobId: string
+  requestId: string
+  team?: string
+  attempt: number
+}
+
+/**
+ * Turns one payload into a document; the default runs the analyze-ticket pipeline
+ */
+export type TicketAnalyzer = (payload: TicketAnalysisPayload, context: TicketAnalysisContext) => Promise<QACanvasDocument>
+
+/**
+ * Queue tuning
+ */
+export interface JobQueueOptions {
+  concurrency: number
+  maxRetries: number
+  retryDelayMs: number // doubled after every failed attempt
+  circuitPollMs: number
+  providersAvailable: () => boolean
+}
+
+/**
+ * Options for a submitted job
+ */
+export interface SubmitJobOptions {
+  team?: string
+  maxRetries?: number
+}
+
+interface QueuedTicket {
+  job: AnalysisJob
+  ticket: JobTicket
+  payload: TicketAnalysisPayload
+}
+
+/**
+ * Read JOB_CONCURRENCY, JOB_MAX_RETRIES, JOB_RETRY_DELAY_MS and JOB_CIRCUIT_POLL_MS
+ */
+export function loadJobQueueOptions(env: Record<string, string | undefined> = process.env): Omit<JobQueueOptions, 'providersAvailable'> {
+  const parse = (value: string | undefined, fallback: number, min: number) => {
+    const number = Number(value)
+    return value && Number.isInteger(number) && number >= min ? number : fallback
+  }
+
+  return {
+    concurrency: parse(env.JOB_CONCURRENCY, 3, 1),
+    maxRetries: parse(env.JOB_MAX_RETRIES, 2, 0),
+    retryDelayMs: parse(env.JOB_RETRY_DELAY_MS, 5000, 0),
+    circuitPollMs: parse(env.JOB_CIRCUIT_POLL_MS, 5000, 1)
+  }
+}
+
+/**
+ * Whether any provider circuit is closed; with every circuit open each attempt would fail immediately
+ */
+export function hasAvailableProvider(): boolean {
+  const statuses = Object.values(getProviderHealthStatus())
+  return statuses.length === 0 || statuses.some(status => !status.circuitOpen)
+}
+
+/**
+ * In-process worker queue shared by all jobs
+ * Tickets run in submission order with at most `concurrency` analyses in flight; payloads are only held in memory,
+ * so jobs interrupted by a restart keep their last persisted state
+ */
+export class AnalysisJobQueue {
+  private jobs = new Map<string, AnalysisJob>()
+  private cancelledJobs = new Set<string>()
+  private pending: QueuedTicket[] = []
+  private active = 0
+  private circuitTimer: ReturnType<typeof setTimeout> | null = null
+  private waiters = new Map<string, Array<(job: AnalysisJob) => void>>()
+  // Serializes job writes so an older snapshot never overwrites a newer one
+  private writes: Promise<unknown> = Promise.resolve()
+  private options: JobQueueOptions
+
+  constructor(
+    private store: JobStore,
+    private analyze: TicketAnalyzer = analyzeTicketPayload,
+    options: Partial<JobQueueOptions> = {}
+  ) {
+    this.options = { ...loadJobQueueOptions(), providersAvailable: hasAvailableProvider, ...options }
+  }
+
+  /**
+   * Queue a job analyzing every payload and return it immediately
+   */
+  async submit(payloads: TicketAnalysisPayload[], options: SubmitJobOptions = {}): Promise<AnalysisJob> {
+    const tickets: JobTicket[] = payloads.map(payload => ({ ticketKey: payload.ticketJson.issueKey, status: 'queued', attempts: 0 }))
+    const job: AnalysisJob = {
+      id: uuidv4(),
+      status: 'queued',
+      createdAt: new Date().toISOString(),
+      team: options.team,
+      maxRetries: options.maxRetries ?? this.options.maxRetries,
+      waitingForProviders: false,
+      progress: summarizeProgress(tickets),
+      tickets
+    }
+
+    this.jobs.set(job.id, job)
+    await this.persist(job)
+    payloads.forEach((payload, index) => this.pending.push({ job, ticket: job.tickets[index], payload }))
+    console.log(`📦 Job ${job.id} queued with ${payloads.length} tickets`)
+
+    this.pump()
+    return structuredClone(job)
+  }
+
+  /**
+   * Current state of a job, including jobs finished before a restart
+   */
+  async getJob(jobId: string): Promise<AnalysisJob | null> {
+    const job = this.jobs.get(jobId)
+    return job ? structuredClone(job) : this.store.getJob(jobId)
+  }
+
+  /**
+   * All known jobs, newest first
+   */
+  async listJobs(): Promise<AnalysisJob[]> {
+    const stored = await this.store.listJobs()
+    const jobs = new Map(stored.map(job => [job.id, job]))
+    this.jobs.forEach(job => jobs.set(job.id, structuredClone(job)))
+    return [...jobs.values()].sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  }
+
+  /**
+   * Latest document generated for a ticket key by any job
+   */
+  async getResult(ticketKey: string): Promise<TicketAnalysisResult | null> {
+    return this.store.getResult(ticketKey)
+  }
+
+  /**
+   * Cancel the job's queued and retrying tickets; analyses already running finish and keep their results
+   * Returns null for unknown jobs
+   */
+  async cancel(jobId: string): Promise<AnalysisJob | null> {
+    const job = this.jobs.get(jobId)
+    if (!job || job.finishedAt || this.cancelledJobs.has(jobId)) {
+      return this.getJob(jobId)
+    }
+
+    this.cancelledJobs.add(jobId)
+    this.pending = this.pending.filter(queued => queued.job !== job)
+    const finishedAt = new Date().toISOString()
+    job.tickets
+      .filter(ticket => ticket.status === 'queued' || ticket.status === 'retrying')
+      .forEach(ticket => {
+        ticket.status = 'cancelled'
+        ticket.finishedAt = finishedAt
+        delete ticket.nextAttemptAt
+      })
+    console.log(`🛑 Job ${jobId} cancelled`)
+
+    this.settle(job)
+    await this.persist(job)
+    return structuredClone(job)
+  }
+
+  /**
+   * Resolve once every ticket of the job has finished
+   */
+  async waitForJob(jobId: string): Promise<AnalysisJob | null> {
+    const job = this.jobs.get(jobId)
+    if (!job || job.finishedAt) {
+      return this.getJob(jobId)
+    }
+
+    return new Promise(resolve => {
+      this.waiters.set(jobId, [...(this.waiters.get(jobId) || []), resolve])
+    })
+  }
+
+  private pump(): void {
+    while (this.active < this.options.concurrency && this.pending.length > 0) {
+      if (!this.options.providersAvailable()) {
+        this.pauseForProviders()
+        return
+      }
+
+      const queued = this.pending.shift()!
+      this.active++
+      void this.run(queued).finally(() => {
+        this.active--
+        this.pump()
+      })
+    }
+  }
+
+  private pauseForProviders(): void {
+    if (this.circuitTimer) return
+
+    new Set(this.pending.map(queued => queued.job)).forEach(job => {
+      job.waitingForProviders = true
+      void this.persist(job)
+    })
+    console.warn(`⏸️ All AI provider circuits are open; holding ${this.pending.length} queued tickets`)
+
+    this.circuitTimer = setTimeout(() => {
+      this.circuitTimer = null
+      this.pump()
+    }, this.options.circuitPollMs)
+    this.circuitTimer.unref?.()
+  }
+
+  private async run({ job, ticket, payload }: QueuedTicket): Promise<void> {
+    if (ticket.status === 'cancelled') return
+
+    const requestId = uuidv4()
+    const startedAt = new Date().toISOString()
+    job.startedAt ??= startedAt
+    job.waitingForProviders = false
+    ticket.startedAt ??= startedAt
+    ticket.status = 'running'
+    ticket.attempts++
+    delete ticket.nextAttemptAt
+    this.settle(job)
+    await this.persist(job)
+
+    try {
+      const document = await this.analyze(payload, { jobId: job.id, requestId, team: job.team, attempt: ticket.attempts })
+      const finishedAt = new Date().toISOString()
+
+      ticket.status = 'succeeded'
+      ticket.finishedAt = finishedAt
+      ticket.documentVersion = document.metadata.documentVersion
+      delete ticket.error
+      await this.store.saveResult({ ticketKey: ticket.ticketKey, jobId: job.id, attempts: ticket.attempts, completedAt: finishedAt, document })
+        .catch(error => console.error(`❌ [${requestId}] Failed to store job result for ${ticket.ticketKey}:`, error))
+      console.log(`✅ [${requestId}] Job ${job.id}: ${ticket.ticketKey} analyzed on attempt ${ticket.attempts}`)
+    } catch (error) {
+      ticket.error = error instanceof Error ? error.message : String(error)
+
+      if (isRetryable(error) && ticket.attempts <= job.maxRetries && !this.cancelledJobs.has(job.id)) {
+        const delay = this.options.retryDelayMs * 2 ** (ticket.attempts - 1)
+        ticket.status = 'retrying'
+        ticket.nextAttemptAt = new Date(Date.now() + delay).toISOString()
+        console.warn(`🔁 [${requestId}] Job ${job.id}: ${ticket.ticketKey} failed on attempt ${ticket.attempts}, retrying in ${delay}ms:`, ticket.error)
+
+        setTimeout(() => {
+          // Cancelled while waiting for the retry
+          if (ticket.status !== 'retrying') return
+          this.pending.push({ job, ticket, payload })
+          this.pump()
+        }, delay).unref?.()
+      } else {
+        ticket.status = 'failed'
+        ticket.finishedAt = new Date().toISOString()
+        console.error(`❌ [${requestId}] Job ${job.id}: ${ticket.ticketKey} failed after ${ticket.attempts} attempts:`, ticket.error)
+      }
+    }
+
+    this.settle(job)
+    await this.persist(job)
+  }
+
+  /**
+   * Recompute progress and status, and wake waiters once the last ticket finished
+   */
+  private settle(job: AnalysisJob): void {
+    job.progress = summarizeProgress(job.tickets)
+    const { queued, running, retrying, succeeded, total } = job.progress
+    const finished = queued + running + retrying === 0
+
+    if (this.cancelledJobs.has(job.id)) {
+      job.status = 'cancelled'
+    } else if (finished) {
+      job.status = succeeded > 0 || total === 0 ? 'completed' : 'failed'
+    } else {
+      job.status = job.startedAt ? 'running' : 'queued'
+    }
+
+    if (finished && !job.finishedAt) {
+      job.finishedAt = new Date().toISOString()
+      job.waitingForProviders = false
+      console.log(`🏁 Job ${job.id} ${job.status}: ${succeeded}/${total} tickets analyzed`)
+
+      const waiters = this.waiters.get(job.id) || []
+      this.waiters.delete(job.id)
+      waiters.forEach(resolve => resolve(structuredClone(job)))
+    }
+  }
+
+  private persist(job: AnalysisJob): Promise<unknown> {
+    const snapshot = structuredClone(job)
+    this.writes = this.writes
+      .then(() => this.store.saveJob(snapshot))
+      .catch(error => console.error(`❌ Failed to store job ${job.id}:`, error))
+    return this.writes
+  }
+}
+
+function summarizeProgress(tickets: JobTicket[]): AnalysisJob['progress'] {
+  const count = (status: JobTicket['status']) => tickets.filter(ticket => ticket.status === status).length
+  const succeeded = count('succeeded')
+  const failed = count('failed')
+  const cancelled = count('cancelled')
+
+  return {
+    total: tickets.length,
+    queued: count('queued'),
+    running: count('running'),
+    retrying: count('retrying'),
+    succeeded,
+    failed,
+    cancelled,
+    percent: tickets.length === 0 ? 100 : Math.round(((succeeded + failed + cancelled) / tickets.length) * 100)
+  }
+}
+
+/**
+ * Budget stops would fail again on every retry until the budget resets
+ */
+function isRetryable(error: unknown): boolean {
+  return !(error instanceof BudgetExceededError)
+}
+
+/**
+ * Analyze one ticket the way /api/analyze-ticket does, in its own usage and routing scope
+ * The document is recorded in the document history with source "jobs"
+ */
+export async function analyzeTicketPayload(
+  { qaProfile, ticketJson }: TicketAnalysisPayload,
+  { requestId, team }: TicketAnalysisContext
+): Promise<QACanvasDocument> {
+  return withUsageTracking('jobs', () => withProviderRouting(async () => {
+    applyTicketRoutingPolicy(ticketJson.issueKey, requestId)
+    attributeUsage({ requestId, ticketId: ticketJson.issueKey, team })
+    await budgetGuard.enforce()
+
+    const assumptions = collectAssumptions(qaProfile, ticketJson)
+    const cacheDirectives = { bypass: false, store: true }
+    const cacheLookups: Record<string, ResponseCacheLookup | undefined> = {}
+    const generationStartTime = Date.now()
+    const sections = await generateQADocumentBySections(
+      ticketJson,
+      qaProfile,
+      assumptions,
+      requestId,
+      { onSectionComplete: (section, _data, _duration, cache) => { cacheLookups[section] = cache } },
+      { cache: responseCache, ...cacheDirectives }
+    )
+
+    const document = assembleQADocument(
+      sections,
+      qaProfile,
+      ticketJson,
+      assumptions,
+      Date.now() - generationStartTime,
+      summarizeSectionCache(cacheLookups, cacheDirectives)
+    )
+    const historyRecord = await documentHistory.tryRecordVersion(document, 'jobs', { requestId })
+    return historyRecord?.document || document
+  }))
+}
+
+/**
+ * Shared queue configured through JOB_STORE and the JOB_* tuning variables
+ */
+export const analysisJobQueue = new AnalysisJobQueue(createJobStore())
@@ -0,0 +1,201 @@
+/**
+ * Analysis Job Storage
+ * Pluggable persistence for batch analysis jobs and their per-ticket results
+ */
+
+import { mkdir, readdir, readFile, rename, writeFile } from 'fs/promises'
+import path from 'path'
+import type { QACanvasDocument } from '../schemas/QACanvasDocument'
+
+/**
+ * Lifecycle of a job; a job completes once every ticket succeeded, failed or was cancelled
+ */
+export type AnalysisJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+
+/**
+ * Lifecycle of a single ticket within a job
+ */
+export type JobTicketStatus = 'queued' | 'running' | 'retrying' | 'succeeded' | 'failed' | 'cancelled'
+
+/**
+ * Progress of one ticket within a job
+ */
+export interface JobTicket {
+  ticketKey: string
+  status: JobTicketStatus
+  attempts: number
+  startedAt?: string
+  finishedAt?: string
+  nextAttemptAt?: string
+  error?: string
+  documentVersion?: string
+}
+
+/**
+ * Ticket counts per status
+ */
+export interface JobProgress {
+  total: number
+  queued: number
+  running: number
+  retrying: number
+  succeeded: number
+  failed: number
+  cancelled: number
+  percent: number
+}
+
+/**
+ * A batch of ticket analyses
+ */
+export interface AnalysisJob {
+  id: string
+  status: AnalysisJobStatus
+  createdAt: string
+  startedAt?: string
+  finishedAt?: string
+  team?: string
+  maxRetries: number
+  waitingForProviders: boolean
+  progress: JobProgress
+  tickets: JobTicket[]
+}
+
+/**
+ * Latest document generated for a ticket key by a job
+ * Failures are only recorded on the job, so a failed run never replaces an earlier document
+ */
+export interface TicketAnalysisResult {
+  ticketKey: string
+  jobId: string
+  attempts: number
+  completedAt: string
+  document: QACanvasDocument
+}
+
+/**
+ * Storage backend for jobs and results
+ * Results are keyed by ticket key, so a later job replaces the result of an earlier one
+ */
+export interface JobStore {
+  saveJob(job: AnalysisJob): Promise<void>
+  getJob(jobId: string): Promise<AnalysisJob | null>
+  listJobs(): Promise<AnalysisJob[]>
+  saveResult(result: TicketAnalysisResult): Promise<void>
+  getResult(ticketKey: string): Promise<TicketAnalysisResult | null>
+}
+
+/**
+ * In-memory store, used in tests and when persistence is disabled
+ */
+export class InMemoryJobStore implements JobStore {
+  private jobs = new Map<string, AnalysisJob>()
+  private results = new Map<string, TicketAnalysisResult>()
+
+  async saveJob(job: AnalysisJob): Promise<void> {
+    this.jobs.set(job.id, structuredClone(job))
+  }
+
+  async getJob(jobId: string): Promise<AnalysisJob | null> {
+    const job = this.jobs.get(jobId)
+    return job ? structuredClone(job) : null
+  }
+
+  async listJobs(): Promise<AnalysisJob[]> {
+    return [...this.jobs.values()].map(job => structuredClone(job))
+  }
+
+  async saveResult(result: TicketAnalysisResult): Promise<void> {
+    this.results.set(result.ticketKey, structuredClone(result))
+  }
+
+  async getResult(ticketKey: string): Promise<TicketAnalysisResult | null> {
+    const result = this.results.get(ticketKey)
+    return result ? structuredClone(result) : null
+  }
+}
+
+/**
+ * File-based store writing one JSON file per job and per ticket result:
+ * <baseDir>/jobs/<jobId>.json and <baseDir>/results/<ticketKey>.json
+ */
+export class FileJobStore implements JobStore {
+  constructor(private baseDir: string) {}
+
+  async saveJob(job: AnalysisJob): Promise<void> {
+    await this.writeJson(path.join(this.baseDir, 'jobs'), job.id, job)
+  }
+
+  async getJob(jobId: string): Promise<AnalysisJob | null> {
+    return this.readJson(path.join(this.baseDir, 'jobs'), jobId)
+  }
+
+  async listJobs(): Promise<AnalysisJob[]> {
+    const jobsDir = path.join(this.baseDir, 'jobs')
+    let files: string[]
+    try {
+      files = await readdir(jobsDir)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+      throw error
+    }
+
+    return Promise.all(files
+      .filter(file => file.endsWith('.json'))
+      .map(async file => JSON.parse(await readFile(path.join(jobsDir, file), 'utf-8')) as AnalysisJob))
+  }
+
+  async saveResult(result: TicketAnalysisResult): Promise<void> {
+    await this.writeJson(path.join(this.baseDir, 'results'), result.ticketKey, result)
+  }
+
+  async getResult(ticketKey: string): Promise<TicketAnalysisResult | null> {
+    return this.readJson(path.join(this.baseDir, 'results'), ticketKey)
+  }
+
+  private async writeJson(dir: string, key: string, value: unknown): Promise<void> {
+    await mkdir(dir, { recursive: true })
+
+    // Write to a temporary file first so pollers never see a partial file
+    const filePath = getFilePath(dir, key)
+    const tempPath = `${filePath}.tmp`
+    await writeFile(tempPath, JSON.stringify(value, null, 2), 'utf-8')
+    await rename(tempPath, filePath)
+  }
+
+  private async readJson<T>(dir: string, key: string): Promise<T | null> {
+    try {
+      return JSON.parse(await readFile(getFilePath(dir, key), 'utf-8'))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw error
+    }
+  }
+}
+
+/**
+ * Ticket keys and job IDs are user input; encode dots too so ".." cannot leave the base directory
+ */
+function getFilePath(dir: string, key: string): string {
+  return path.join(dir, `${encodeURIComponent(key).replace(/\./g, '%2E')}.json`)
+}
+
+/**
+ * Create the store configured through JOB_STORE ("file" or "memory")
+ * Defaults to the file store, or memory when running tests
+ */
+export function createJobStore(): JobStore {
+  const storeType = process.env.JOB_STORE ||
+    (process.env.NODE_ENV === 'test' ? 'memory' : 'file')
+
+  if (storeType === 'memory') {
+    return new InMemoryJobStore()
+  }
+
+  if (storeType !== 'file') {
+    console.warn(`⚠️ Unknown JOB_STORE "${storeType}", falling back to file storage`)
+  }
+
+  const baseDir = process.env.JOBS_DIR || path.join(process.cwd(), '.data', 'jobs')
+  return new FileJobStore(baseDir)
+}
@@ -0,0 +1,198 @@
+/**
+ * Jira Publisher
+ * Posts a QA Canvas document to its Jira ticket as an ADF comment, updating the previously posted plan when there is one
+ */
+
+import type { QACanvasDocument } from '../schemas/QACanvasDocument'
+import { documentToAdf, QA_PLAN_COMMENT_MARKER, type AdfDocument } from '../export/adfFormatter'
+import { adfToPlainText } from '../ingestion/adf'
+import type { JiraRichText } from '../schemas/JiraRestIssue'
+
+/**
+ * Connection settings for the Jira REST API v3
+ * Jira Cloud uses email + API token (basic auth); Data Center personal access tokens are sent as bearer tokens
+ */
+export interface JiraPublisherConfig {
+  baseUrl: string
+  email?: string
+  apiToken?: string
+  accessToken?: string
+  timeoutMs: number
+}
+
+/**
+ * Options for a single publish
+ */
+export interface PublishPlanOptions {
+  issueKey?: string // defaults to the document's ticket
+  commentId?: string // update this comment instead of looking for the previous plan
+  updateExisting?: boolean // look for the previous plan comment and update it (default: true)
+}
+
+/**
+ * Outcome of a publish
+ */
+export interface PublishedPlan {
+  issueKey: string
+  commentId: string
+  action: 'created' | 'updated'
+  url: string
+}
+
+interface JiraComment {
+  id: string
+  body?: JiraRichText
+}
+
+interface JiraCommentPage {
+  comments?: JiraComment[]
+  startAt?: number
+  maxResults?: number
+  total?: number
+}
+
+const COMMENT_PAGE_SIZE = 100
+
+/**
+ * Jira answered with an error status or could not be reached
+ */
+export class JiraPublishError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message)
+    this.name = 'JiraPublishError'
+  }
+}
+
+/**
+ * Read JIRA_BASE_URL, JIRA_EMAIL, JIRA_API_TOKEN, JIRA_ACCESS_TOKEN and JIRA_TIMEOUT_MS
+ * Returns null when no base URL is configured
+ */
+export function loadJiraPublisherConfig(env: Record<string, string | undefined> = process.env): JiraPublisherConfig | null {
+  const baseUrl = env.JIRA_BASE_URL?.trim()
+  if (!baseUrl) return null
+
+  const timeoutMs = Number(env.JIRA_TIMEOUT_MS)
+
+  return {
+    baseUrl: baseUrl.replace(/\/+$/, ''),
+    email: env.JIRA_EMAIL || undefined,
+    apiToken: env.JIRA_API_TOKEN || undefined,
+    accessToken: env.JIRA_ACCESS_TOKEN || undefined,
+    timeoutMs: Number.isInteger(timeoutMs) && timeoutMs > 0 ? timeoutMs : 10000
+  }
+}
+
+/**
+ * Jira REST client limited to the comment calls needed to publish a plan
+ */
+export class JiraPublisher {
+  constructor(
+    private config: JiraPublisherConfig,
+    private fetchImpl: typeof fetch = fetch
+  ) {}
+
+  /**
+   * Post the document as a comment, or update the given or previously posted plan comment
+   */
+  async publishPlan(document: QACanvasDocument, options: PublishPlanOptions = {}): Promise<PublishedPlan> {
+    const issueKey = options.issueKey || document.metadata.ticketId
+    const body = documentToAdf(document)
+
+    const existingId = options.commentId ??
+      (options.updateExisting === false ? null : await this.findPlanComment(issueKey))
+
+    if (existingId) {
+      const comment = await this.request<JiraComment>('PUT', `${this.commentsPath(issueKey)}/${encodeURIComponent(existingId)}`, { body })
+      return this.toResult(issueKey, comment.id || existingId, 'updated')
+    }
+
+    const comment = await this.request<JiraComment>('POST', this.commentsPath(issueKey), { body })
+    return this.toResult(issueKey, comment.id, 'created')
+  }
+
+  /**
+   * Find the most recent comment holding a published plan; null when there is none
+   */
+  async findPlanComment(issueKey: string): Promise<string | null> {
+    let startAt = 0
+
+    for (;;) {
+      const page = await this.request<JiraCommentPage>(
+        'GET',
+        `${this.commentsPath(issueKey)}?startAt=${startAt}&maxResults=${COMMENT_PAGE_SIZE}&orderBy=-created`
+      )
+      const comments = page.comments ?? []
+
+      const match = comments.find(comment => adfToPlainText(comment.body).includes(QA_PLAN_COMMENT_MARKER))
+      if (match) return match.id
+
+      startAt += comments.length
+      if (comments.length === 0 || startAt >= (page.total ?? 0)) return null
+    }
+  }
+
+  private commentsPath(issueKey: string): string {
+    return `/rest/api/3/issue/${encodeURIComponent(issueKey)}/comment`
+  }
+
+  private toResult(issueKey: string, commentId: string, action: PublishedPlan['action']): PublishedPlan {
+    return {
+      issueKey,
+      commentId,
+      action,
+      url: `${this.config.baseUrl}/browse/${encodeURIComponent(issueKey)}?focusedCommentId=${encodeURIComponent(commentId)}`
+    }
+  }
+
+  private async request<T>(method: string, path: string, payload?: { body: AdfDocument }): Promise<T> {
+    let response: Response
+    try {
+      response = await this.fetchImpl(`${this.config.baseUrl}${path}`, {
+        method,
+        headers: {
+          'Accept': 'application/json',
+          ...(payload ? { 'Content-Type': 'application/json' } : {}),
+          ...this.authorizationHeader()
+        },
+        body: payload ? JSON.stringify(payload) : undefined,
+        signal: AbortSignal.timeout(this.config.timeoutMs)
+      })
+    } catch (error) {
+      throw new JiraPublishError(`Jira request ${method} ${path} failed: ${error instanceof Error ? error.message : String(error)}`)
+    }
+
+    const text = await response.text()
+    if (!response.ok) {
+      throw new JiraPublishError(`Jira responded ${response.status} to ${method} ${path}${describeJiraError(text)}`, response.status)
+    }
+
+    try {
+      return (text ? JSON.parse(text) : {}) as T
+    } catch {
+      throw new JiraPublishError(`Jira returned invalid JSON for ${method} ${path}`, response.status)
+    }
+  }
+
+  private authorizationHeader(): Record<string, string> {
+    if (this.config.accessToken) {
+      return { 'Authorization': `Bearer ${this.config.accessToken}` }
+    }
+    if (this.config.email && this.config.apiToken) {
+      return { 'Authorization': `Basic ${Buffer.from(`${this.config.email}:${this.config.apiToken}`).toString('base64')}` }
+    }
+    return {}
+  }
+}
+
+/**
+ * Jira error bodies look like { errorMessages: string[], errors: Record<string, string> }
+ */
+function describeJiraError(text: string): string {
+  try {
+    const parsed = JSON.parse(text) as { errorMessages?: string[]; errors?: Record<string, string> }
+    const messages = [...(parsed.errorMessages ?? []), ...Object.values(parsed.errors ?? {})]
+    return messages.length > 0 ? `: ${messages.join('; ')}` : ''
+  } catch {
+    return ''
+  }
+}
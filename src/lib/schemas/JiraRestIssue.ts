@@ -0,0 +1,126 @@
+import { z } from 'zod'
+import {
+  jiraIssueTypeSchema,
+  jiraPrioritySchema,
+  jiraStatusSchema,
+  jiraUserSchema
+} from './JiraTicket'
+
+/**
+ * Atlassian Document Format node
+ */
+export interface AdfNode {
+  type: string
+  text?: string
+  attrs?: Record<string, unknown>
+  marks?: Array<{ type: string; attrs?: Record<string, unknown> }>
+  content?: AdfNode[]
+}
+
+/**
+ * Schema for an Atlassian Document Format node
+ * Only the fields used to extract text are declared; everything else is kept
+ */
+export const adfNodeSchema: z.ZodType<AdfNode> = z.lazy(() => z.object({
+  type: z.string().describe('Node type (e.g., "doc", "paragraph", "text", "bulletList")'),
+  text: z.string().optional().describe('Text of "text" nodes'),
+  attrs: z.record(z.string(), z.unknown()).optional().describe('Node attributes (e.g., heading level, link href)'),
+  marks: z.array(z.object({
+    type: z.string(),
+    attrs: z.record(z.string(), z.unknown()).optional()
+  }).passthrough()).optional().describe('Text formatting and links'),
+  content: z.array(adfNodeSchema).optional().describe('Child nodes')
+}).passthrough())
+
+/**
+ * Rich text field: ADF document in REST API v3, wiki markup string in v2
+ */
+export const jiraRichTextSchema = z.union([z.string(), adfNodeSchema])
+
+/**
+ * Schema for Jira REST issue status (status category as returned by the API)
+ */
+export const jiraRestStatusSchema = jiraStatusSchema.omit({ category: true }).extend({
+  statusCategory: z.object({
+    key: z.string().describe('Status category key (e.g., "new", "indeterminate", "done")'),
+    name: z.string().optional()
+  }).passthrough().optional()
+}).passthrough()
+
+/**
+ * Schema for a linked issue or subtask as embedded in another issue
+ */
+export const jiraRestIssueReferenceSchema = z.object({
+  key: z.string().describe('Linked issue key'),
+  fields: z.object({
+    summary: z.string().optional(),
+    status: jiraRestStatusSchema.optional(),
+    issuetype: jiraIssueTypeSchema.partial({ subtask: true }).passthrough().optional()
+  }).passthrough().default({})
+}).passthrough()
+
+/**
+ * Schema for Jira REST issue links
+ */
+export const jiraRestIssueLinkSchema = z.object({
+  type: z.object({
+    name: z.string().describe('Link type name (e.g., "Blocks")'),
+    inward: z.string().describe('Description from the inward issue (e.g., "is blocked by")'),
+    outward: z.string().describe('Description from the outward issue (e.g., "blocks")')
+  }).passthrough(),
+  inwardIssue: jiraRestIssueReferenceSchema.optional(),
+  outwardIssue: jiraRestIssueReferenceSchema.optional()
+}).passthrough()
+
+/**
+ * Schema for Jira REST comments
+ */
+export const jiraRestCommentSchema = z.object({
+  author: jiraUserSchema.passthrough().partial().optional(),
+  body: jiraRichTextSchema.describe('Comment body'),
+  created: z.string().describe('Creation timestamp'),
+  updated: z.string().optional().describe('Update timestamp')
+}).passthrough()
+
+/**
+ * Schema for Jira REST attachment metadata (the content itself is not included)
+ */
+export const jiraRestAttachmentSchema = z.object({
+  filename: z.string(),
+  mimeType: z.string().default('application/octet-stream'),
+  size: z.number().default(0),
+  content: z.string().default('').describe('Download URL of the attachment')
+}).passthrough()
+
+/**
+ * Raw issue returned by the Jira Cloud REST API (GET /rest/api/3/issue/{key})
+ * Request it with `expand=names` to label custom fields with their display names
+ */
+export const jiraRestIssueSchema = z.object({
+  key: z.string().describe('Jira ticket key (e.g., "EN-8775")'),
+  names: z.record(z.string(), z.string()).optional().describe('Display names of the fields, from expand=names'),
+  fields: z.object({
+    summary: z.string(),
+    description: jiraRichTextSchema.nullable().optional(),
+    status: jiraRestStatusSchema,
+    priority: jiraPrioritySchema.partial({ id: true }).passthrough().nullable().optional(),
+    issuetype: jiraIssueTypeSchema.partial({ subtask: true }).passthrough(),
+    assignee: jiraUserSchema.passthrough().partial().nullable().optional(),
+    reporter: jiraUserSchema.passthrough().partial().nullable().optional(),
+    components: z.array(z.object({ name: z.string() }).passthrough()).default([]),
+    comment: z.object({
+      comments: z.array(jiraRestCommentSchema).default([])
+    }).passthrough().optional(),
+    attachment: z.array(jiraRestAttachmentSchema).default([]),
+    issuelinks: z.array(jiraRestIssueLinkSchema).default([]),
+    subtasks: z.array(jiraRestIssueReferenceSchema).default([]),
+    parent: jiraRestIssueReferenceSchema.optional()
+  }).passthrough()
+})
+
+// Type exports for TypeScript usage
+export type JiraRichText = z.infer<typeof jiraRichTextSchema>
+export type JiraRestIssueReference = z.infer<typeof jiraRestIssueReferenceSchema>
+export type JiraRestIssueLink = z.infer<typeof jiraRestIssueLinkSchema>
+export type JiraRestComment = z.infer<typeof jiraRestCommentSchema>
+export type JiraRestIssue = z.infer<typeof jiraRestIssueSchema>
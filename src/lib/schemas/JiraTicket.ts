@@ -42,6 +42,25 @@ export const jiraAttachmentSchema = z.object({
   url: z.string().describe('Blob URL for the attachment')
 })
 
+/**
+ * Schema for links from the ticket to other issues
+ */
+export const jiraIssueLinkSchema = z.object({
+  type: z.string().describe('Relationship from this ticket (e.g., "blocks", "is blocked by")'),
+  issueKey: z.string().describe('Key of the linked issue'),
+  summary: z.string().optional().describe('Summary of the linked issue'),
+  status: z.string().optional().describe('Status of the linked issue')
+})
+
+/**
+ * Schema for subtasks of the ticket
+ */
+export const jiraSubtaskSchema = z.object({
+  issueKey: z.string().describe('Subtask key'),
+  summary: z.string().describe('Subtask summary'),
+  status: z.string().optional().describe('Subtask status')
+})
+
 /**
  * Schema for Jira ticket status
  */
@@ -75,6 +94,11 @@ export const jiraUserSchema = z.object({
   accountId: z.string().describe('Jira account ID')
 })
 
+/**
+ * Schema for the tracker a ticket was ingested from
+ */
+export const ticketSourceSchema = z.enum(['jira', 'github', 'azure-devops', 'linear'])
+
 /**
  * Complete Jira ticket schema (updated to match real Chrome extension data)
  * Represents the scraped data from a Jira ticket page
@@ -101,9 +125,12 @@ export const jiraTicketSchema = z.object({
   // Real data specific fields
   components: z.array(z.string()).default([]).describe('Jira components (e.g., ["Accounts Receivable"])'),
   customFields: z.record(z.string(), z.any()).describe('Custom fields from Jira'),
+  issueLinks: z.array(jiraIssueLinkSchema).optional().describe('Links to other issues (Jira REST ingestion only)'),
+  subtasks: z.array(jiraSubtaskSchema).optional().describe('Subtasks of the ticket (Jira REST ingestion only)'),
   processingComplete: z.boolean().optional().describe('Whether processing is complete'),
   
   // Metadata about the scraping
+  source: ticketSourceSchema.optional().describe('Tracker the ticket was ingested from; omitted for tickets scraped by the Chrome extension'),
   scrapedAt: z.string().describe('Timestamp when data was scraped')
 })
 
@@ -111,6 +138,9 @@ export const jiraTicketSchema = z.object({
 export type CommentImage = z.infer<typeof commentImageSchema>
 export type JiraComment = z.infer<typeof jiraCommentSchema>
 export type JiraAttachment = z.infer<typeof jiraAttachmentSchema>
+export type JiraIssueLink = z.infer<typeof jiraIssueLinkSchema>
+export type JiraSubtask = z.infer<typeof jiraSubtaskSchema>
+export type TicketSource = z.infer<typeof ticketSourceSchema>
 export type JiraStatus = z.infer<typeof jiraStatusSchema>
 export type JiraPriority = z.infer<typeof jiraPrioritySchema>
 export type JiraIssueType = z.infer<typeof jiraIssueTypeSchema>
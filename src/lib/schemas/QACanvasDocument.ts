@@ -32,7 +32,8 @@ export const acceptanceCriterionSchema = z.object({
   description: z.string().describe('Detailed description of what must be satisfied'),
   priority: z.enum(['must', 'should', 'could']).describe('MoSCoW priority level - always specify one of: must, should, could'),
   category: z.enum(['functional', 'ui', 'ux', 'performance', 'security', 'accessibility', 'api', 'database', 'negative', 'mobile']).describe('Category of the acceptance criterion'),
-  testable: z.boolean().describe('Whether this criterion can be directly tested - always specify true or false')
+  testable: z.boolean().describe('Whether this criterion can be directly tested - always specify true or false'),
+  source: z.enum(['ticket', 'ai']).optional().describe('Whether the criterion was written in the ticket or added by the AI')
 })
 
 /**
@@ -88,6 +89,7 @@ export const testCaseSchema = z.discriminatedUnion('format', [
     category: z.string().describe('Test category (functional, ui, negative, etc.)'),
     priority: z.enum(['high', 'medium', 'low']).default('medium').describe('Test case priority'),
     estimatedTime: z.string().optional().describe('Estimated execution time'),
+    coversCriteria: z.array(z.string()).optional().describe('IDs of the acceptance criteria this test case verifies'),
     testCase: gherkinTestCaseSchema
   }),
   z.object({
@@ -96,6 +98,7 @@ export const testCaseSchema = z.discriminatedUnion('format', [
     category: z.string().describe('Test category (functional, ui, negative, etc.)'),
     priority: z.enum(['high', 'medium', 'low']).default('medium').describe('Test case priority'),
     estimatedTime: z.string().optional().describe('Estimated execution time'),
+    coversCriteria: z.array(z.string()).optional().describe('IDs of the acceptance criteria this test case verifies'),
     testCase: stepsTestCaseSchema
   }),
   z.object({
@@ -104,10 +107,73 @@ export const testCaseSchema = z.discriminatedUnion('format', [
     category: z.string().describe('Test category (functional, ui, negative, etc.)'),
     priority: z.enum(['high', 'medium', 'low']).default('medium').describe('Test case priority'),
     estimatedTime: z.string().optional().describe('Estimated execution time'),
+    coversCriteria: z.array(z.string()).optional().describe('IDs of the acceptance criteria this test case verifies'),
     testCase: tableTestCaseSchema
   })
 ])
 
+/**
+ * Schema for the token usage of one section/model combination
+ */
+export const usageBreakdownEntrySchema = z.object({
+  section: z.string().optional().describe('Document section the calls generated'),
+  provider: z.string().describe('Provider that served the calls'),
+  model: z.string().describe('Model that served the calls'),
+  calls: z.number().describe('Number of AI calls'),
+  promptTokens: z.number().describe('Input tokens'),
+  completionTokens: z.number().describe('Output tokens'),
+  totalTokens: z.number().describe('Input plus output tokens'),
+  cost: z.number().nullable().describe('Estimated cost in USD, null when the model has no known price')
+})
+
+/**
+ * Schema for the token usage and estimated cost of generating a document
+ */
+export const usageSummarySchema = z.object({
+  calls: z.number().describe('Number of AI calls'),
+  promptTokens: z.number().describe('Input tokens across all calls'),
+  completionTokens: z.number().describe('Output tokens across all calls'),
+  totalTokens: z.number().describe('Input plus output tokens across all calls'),
+  estimatedCost: z.number().describe('Estimated cost of the priced calls'),
+  unpricedCalls: z.number().describe('Calls to models without a known price, excluded from estimatedCost'),
+  currency: z.literal('USD'),
+  breakdown: z.array(usageBreakdownEntrySchema).describe('Usage per section and model')
+})
+
+/**
+ * Schema for one response cache lookup
+ */
+export const responseCacheLookupSchema = z.object({
+  hit: z.boolean().describe('True when the response was served from the cache'),
+  bypassed: z.boolean().describe('True when the request asked for a fresh response (Cache-Control: no-cache)'),
+  key: z.string().describe('Content hash the response is cached under'),
+  cachedAt: z.string().optional().describe('When the cached response was generated'),
+  expiresAt: z.string().optional().describe('When the cached response expires')
+})
+
+/**
+ * Schema for the cache lookups of the sections of a document
+ */
+export const documentCacheInfoSchema = z.object({
+  hit: z.boolean().describe('True when every section was served from the cache'),
+  bypassed: z.boolean().describe('True when the request asked for fresh sections'),
+  sections: z.record(z.string(), responseCacheLookupSchema).describe('Cache lookup per section')
+})
+
+/**
+ * Schema for the quality lint summary of the acceptance criteria
+ */
+export const criteriaLintSummarySchema = z.object({
+  totalCriteria: z.number().describe('Number of linted criteria'),
+  averageScore: z.number().describe('Average testability score from 0 to 100'),
+  criteriaWithFindings: z.array(z.string()).describe('IDs of criteria with at least one finding'),
+  findings: z.object({
+    high: z.number(),
+    medium: z.number(),
+    low: z.number()
+  }).describe('Number of findings per severity')
+})
+
 /**
  * Schema for document metadata
  */
@@ -121,7 +187,11 @@ export const documentMetadataSchema = z.object({
   wordCount: z.number().optional().describe('Approximate word count of generated content'),
   previousVersion: z.string().optional().describe('Previous document version (for regenerated documents)'),
   regenerationReason: z.string().optional().describe('Reason for document regeneration'),
-  regenerationTime: z.number().optional().describe('Time taken to regenerate document in milliseconds')
+  regenerationTime: z.number().optional().describe('Time taken to regenerate document in milliseconds'),
+  usage: usageSummarySchema.optional().describe('Token usage and estimated cost of the AI calls that produced this document'),
+  budgetWarnings: z.array(configurationWarningSchema).optional().describe('Notices about the team nearing its AI spend budget'),
+  cache: documentCacheInfoSchema.optional().describe('Which sections were served from the response cache'),
+  criteriaLint: criteriaLintSummarySchema.optional().describe('Testability lint summary of the acceptance criteria')
 })
 
 /**
@@ -148,6 +218,11 @@ export type GherkinTestCase = z.infer<typeof gherkinTestCaseSchema>
 export type StepsTestCase = z.infer<typeof stepsTestCaseSchema>
 export type TableTestCase = z.infer<typeof tableTestCaseSchema>
 export type TestCase = z.infer<typeof testCaseSchema>
+export type UsageBreakdownEntry = z.infer<typeof usageBreakdownEntrySchema>
+export type UsageSummary = z.infer<typeof usageSummarySchema>
+export type ResponseCacheLookup = z.infer<typeof responseCacheLookupSchema>
+export type DocumentCacheInfo = z.infer<typeof documentCacheInfoSchema>
+export type CriteriaLintSummary = z.infer<typeof criteriaLintSummarySchema>
 export type DocumentMetadata = z.infer<typeof documentMetadataSchema>
 export type QACanvasDocument = z.infer<typeof qaCanvasDocumentSchema>
 
@@ -183,4 +258,59 @@ export function createMinimalQACanvasDocument(
       documentVersion: '1.0'
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Helper function to estimate word count in the generated document
+ */
+export function estimateWordCount(document: QACanvasDocument): number {
+  let wordCount = 0
+
+  // Count words in ticket summary
+  wordCount += countWords(document.ticketSummary.problem)
+  wordCount += countWords(document.ticketSummary.solution)
+  wordCount += countWords(document.ticketSummary.context)
+
+  // Count words in configuration warnings
+  document.configurationWarnings.forEach(warning => {
+    wordCount += countWords(warning.message)
+    wordCount += countWords(warning.recommendation)
+  })
+
+  // Count words in acceptance criteria
+  document.acceptanceCriteria.forEach(criterion => {
+    wordCount += countWords(criterion.title)
+    wordCount += countWords(criterion.description)
+  })
+
+  // Count words in test cases
+  document.testCases.forEach(testCase => {
+    if (testCase.format === 'gherkin') {
+      wordCount += countWords(testCase.testCase.scenario)
+      testCase.testCase.given.forEach(given => wordCount += countWords(given))
+      testCase.testCase.when.forEach(when => wordCount += countWords(when))
+      testCase.testCase.then.forEach(then => wordCount += countWords(then))
+    } else if (testCase.format === 'steps') {
+      wordCount += countWords(testCase.testCase.title)
+      wordCount += countWords(testCase.testCase.objective)
+      testCase.testCase.steps.forEach(step => {
+        wordCount += countWords(step.action)
+        wordCount += countWords(step.expectedResult)
+      })
+    } else if (testCase.format === 'table') {
+      wordCount += countWords(testCase.testCase.title)
+      wordCount += countWords(testCase.testCase.description)
+      wordCount += countWords(testCase.testCase.expectedOutcome)
+    }
+  })
+
+  return wordCount
+}
+
+/**
+ * Helper function to count words in a string
+ */
+function countWords(text: string | undefined | null): number {
+  if (!text) return 0
+  return text.trim().split(/\s+/).filter(word => word.length > 0).length
+}
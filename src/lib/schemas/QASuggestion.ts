@@ -1,5 +1,6 @@
 import { z } from 'zod'
 import { tool } from 'ai'
+import { configurationWarningSchema, responseCacheLookupSchema } from './QACanvasDocument'
 
 /**
  * Schema for QA suggestion types
@@ -51,7 +52,9 @@ export const qaSuggestionsResponseSchema = z.object({
   suggestions: z.array(qaSuggestionSchema).describe('Array of QA suggestions'),
   totalCount: z.number().describe('Total number of suggestions generated'),
   generatedAt: z.string().describe('ISO timestamp when suggestions were generated'),
-  contextSummary: z.string().describe('Brief summary of the document context used for generating suggestions')
+  contextSummary: z.string().describe('Brief summary of the document context used for generating suggestions'),
+  budgetWarnings: z.array(configurationWarningSchema).optional().describe('Notices about the team nearing its AI spend budget'),
+  cache: responseCacheLookupSchema.optional().describe('Whether the suggestions were served from the response cache')
 })
 
 /**
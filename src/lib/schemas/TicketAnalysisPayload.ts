@@ -1,14 +1,15 @@
 import { z } from 'zod'
 import { qaProfileSchema } from './QAProfile'
-import { jiraTicketSchema } from './JiraTicket'
+import { ticketInputSchema } from '../ingestion'
 
 /**
  * Schema for the payload sent to /api/analyze-ticket endpoint
  * Combines QA profile preferences with Jira ticket data
+ * ticketJson may also be a raw Jira, GitHub, Azure DevOps or Linear work item, which is normalized into a JiraTicket
  */
 export const ticketAnalysisPayloadSchema = z.object({
   qaProfile: qaProfileSchema.describe('User QA preferences and configuration'),
-  ticketJson: jiraTicketSchema.describe('Complete Jira ticket data scraped from the page')
+  ticketJson: ticketInputSchema.describe('Complete Jira ticket data scraped from the page, or a raw work item of a supported tracker')
 })
 
 /**
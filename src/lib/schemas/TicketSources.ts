@@ -0,0 +1,164 @@
+import { z } from 'zod'
+
+/**
+ * GraphQL connection ({ nodes: [...] }) or plain array, as Linear returns lists depending on the API used
+ */
+const connection = <T extends z.ZodTypeAny>(schema: T) => z.union([
+  z.array(schema),
+  z.object({ nodes: z.array(schema) }).passthrough().transform(value => value.nodes)
+])
+
+/**
+ * Schema for GitHub users as embedded in issues and comments
+ */
+export const githubUserSchema = z.object({
+  login: z.string().describe('GitHub username')
+}).passthrough()
+
+/**
+ * Schema for GitHub issue comments (GET /repos/{owner}/{repo}/issues/{number}/comments)
+ */
+export const githubCommentSchema = z.object({
+  user: githubUserSchema.nullable().optional(),
+  body: z.string().nullable().default(''),
+  created_at: z.string(),
+  updated_at: z.string().optional()
+}).passthrough()
+
+/**
+ * Issue returned by the GitHub REST API (GET /repos/{owner}/{repo}/issues/{number})
+ * `comments` is a count in the API response; replace it with the comment list to include them
+ */
+export const githubIssueSchema = z.object({
+  number: z.number().describe('Issue number within the repository'),
+  title: z.string(),
+  body: z.string().nullable().optional().describe('Markdown body'),
+  state: z.string().describe('"open" or "closed"'),
+  state_reason: z.string().nullable().optional().describe('"completed", "not_planned" or "reopened"'),
+  html_url: z.string(),
+  repository_url: z.string().optional().describe('API URL of the repository, e.g. https://api.github.com/repos/owner/repo'),
+  user: githubUserSchema.nullable().optional(),
+  assignee: githubUserSchema.nullable().optional(),
+  labels: z.array(z.union([z.string(), z.object({ name: z.string() }).passthrough()])).default([]),
+  milestone: z.object({ title: z.string() }).passthrough().nullable().optional(),
+  type: z.object({ name: z.string() }).passthrough().nullable().optional().describe('Organization issue type'),
+  comments: z.union([z.number(), z.array(githubCommentSchema)]).optional(),
+  created_at: z.string().optional(),
+  updated_at: z.string().optional()
+}).passthrough()
+
+/**
+ * Azure DevOps identity: an object in the REST API, a "Name <email>" string in some exports
+ */
+export const azureDevOpsIdentitySchema = z.union([
+  z.string(),
+  z.object({ displayName: z.string(), uniqueName: z.string().optional() }).passthrough()
+])
+
+/**
+ * Schema for Azure DevOps work item comments (GET .../workItems/{id}/comments)
+ */
+export const azureDevOpsCommentSchema = z.object({
+  text: z.string().describe('HTML comment body'),
+  createdBy: azureDevOpsIdentitySchema.optional(),
+  createdDate: z.string(),
+  modifiedDate: z.string().optional()
+}).passthrough()
+
+/**
+ * Schema for Azure DevOps work item relations (links to work items, attachments and hyperlinks)
+ */
+export const azureDevOpsRelationSchema = z.object({
+  rel: z.string().describe('Relation type, e.g. "AttachedFile" or "System.LinkTypes.Hierarchy-Forward"'),
+  url: z.string(),
+  attributes: z.object({
+    name: z.string().optional(),
+    resourceSize: z.number().optional(),
+    comment: z.string().optional()
+  }).passthrough().default({})
+}).passthrough()
+
+/**
+ * Work item returned by the Azure DevOps REST API (GET _apis/wit/workitems/{id}?$expand=all)
+ * Fields are keyed by reference name (e.g. "System.Title"); description and repro steps are HTML.
+ * `comments` is not part of the API response; add the comment list to include them
+ */
+export const azureDevOpsWorkItemSchema = z.object({
+  id: z.number(),
+  rev: z.number().optional(),
+  fields: z.object({
+    'System.Title': z.string(),
+    'System.WorkItemType': z.string(),
+    'System.State': z.string(),
+    'System.TeamProject': z.string().optional(),
+    'System.Description': z.string().nullable().optional(),
+    'Microsoft.VSTS.TCM.ReproSteps': z.string().nullable().optional(),
+    'Microsoft.VSTS.Common.Priority': z.number().nullable().optional(),
+    'Microsoft.VSTS.Common.Severity': z.string().nullable().optional(),
+    'System.AssignedTo': azureDevOpsIdentitySchema.nullable().optional(),
+    'System.CreatedBy': azureDevOpsIdentitySchema.nullable().optional(),
+    'System.AreaPath': z.string().optional(),
+    'System.Tags': z.string().nullable().optional()
+  }).passthrough(),
+  relations: z.array(azureDevOpsRelationSchema).default([]),
+  comments: z.array(azureDevOpsCommentSchema).default([]),
+  _links: z.object({ html: z.object({ href: z.string() }).passthrough().optional() }).passthrough().optional()
+}).passthrough()
+
+/**
+ * Schema for Linear users
+ */
+export const linearUserSchema = z.object({
+  name: z.string(),
+  displayName: z.string().optional()
+}).passthrough()
+
+/**
+ * Schema for Linear issues referenced from another issue
+ */
+export const linearIssueReferenceSchema = z.object({
+  identifier: z.string(),
+  title: z.string().optional(),
+  state: z.object({ name: z.string() }).passthrough().optional()
+}).passthrough()
+
+/**
+ * Issue returned by the Linear GraphQL API or its webhooks
+ * Lists may be GraphQL connections ({ nodes }) or plain arrays
+ */
+export const linearIssueSchema = z.object({
+  identifier: z.string().describe('Issue identifier, e.g. "ENG-123"'),
+  title: z.string(),
+  description: z.string().nullable().optional().describe('Markdown description'),
+  state: z.object({ name: z.string(), type: z.string().optional() }).passthrough(),
+  priority: z.number().optional().describe('0 = none, 1 = urgent, 2 = high, 3 = medium, 4 = low'),
+  priorityLabel: z.string().optional(),
+  url: z.string().optional(),
+  assignee: linearUserSchema.nullable().optional(),
+  creator: linearUserSchema.nullable().optional(),
+  team: z.object({ key: z.string().optional(), name: z.string() }).passthrough().optional(),
+  project: z.object({ name: z.string() }).passthrough().nullable().optional(),
+  cycle: z.object({ name: z.string().nullable().optional(), number: z.number().optional() }).passthrough().nullable().optional(),
+  estimate: z.number().nullable().optional(),
+  dueDate: z.string().nullable().optional(),
+  labels: connection(z.object({ name: z.string() }).passthrough()).default([]),
+  comments: connection(z.object({
+    body: z.string(),
+    user: linearUserSchema.nullable().optional(),
+    createdAt: z.string(),
+    updatedAt: z.string().optional()
+  }).passthrough()).default([]),
+  attachments: connection(z.object({ title: z.string(), url: z.string() }).passthrough()).default([]),
+  parent: linearIssueReferenceSchema.nullable().optional(),
+  children: connection(linearIssueReferenceSchema).default([]),
+  relations: connection(z.object({
+    type: z.string().describe('"blocks", "duplicate" or "related"'),
+    relatedIssue: linearIssueReferenceSchema
+  }).passthrough()).default([])
+}).passthrough()
+
+// Type exports for TypeScript usage
+export type GitHubIssue = z.infer<typeof githubIssueSchema>
+export type AzureDevOpsIdentity = z.infer<typeof azureDevOpsIdentitySchema>
+export type AzureDevOpsWorkItem = z.infer<typeof azureDevOpsWorkItemSchema>
+export type LinearIssue = z.infer<typeof linearIssueSchema>
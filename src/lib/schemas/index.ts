@@ -3,4 +3,6 @@ export * from './QAProfile'
 export * from './JiraTicket'
 export * from './TicketAnalysisPayload'
 export * from './QACanvasDocument'
-export * from './QASuggestion'
\ No newline at end of file
+export * from './QASuggestion'
+export * from './JiraRestIssue'
+export * from './TicketSources'
\ No newline at end of file
@@ -0,0 +1,275 @@
+/**
+ * AI Spend Budgets
+ * Per-team daily and monthly spend limits enforced before every AI call
+ */
+
+import { readFileSync } from 'fs'
+import { z } from 'zod'
+import type { ConfigurationWarning } from '../schemas/QACanvasDocument'
+import { roundCost } from './modelPricing'
+import {
+  usageTracker,
+  addUsageNotice,
+  getUsageAttribution,
+  getUsageNotices,
+  type UsageRecord,
+  type UsageTracker
+} from './usageTracker'
+
+/**
+ * Budget periods, both in UTC
+ */
+export type BudgetPeriod = 'daily' | 'monthly'
+
+/**
+ * Schema for a team budget
+ * The team named "default" applies to callers that match no other team
+ */
+export const teamBudgetSchema = z.object({
+  team: z.string().min(1),
+  apiKeys: z.array(z.string().min(1)).default([]).describe('API keys (X-API-Key or Bearer token) identifying the team'),
+  daily: z.number().positive().optional().describe('Daily limit in USD'),
+  monthly: z.number().positive().optional().describe('Monthly limit in USD'),
+  warnAt: z.number().gt(0).max(1).default(0.8).describe('Fraction of a limit that triggers a soft warning')
+}).refine(budget => budget.daily !== undefined || budget.monthly !== undefined, 'A budget needs a daily or monthly limit')
+
+export type TeamBudget = z.infer<typeof teamBudgetSchema>
+
+/**
+ * Team used when a budget named "default" exists and the caller matches no other team
+ */
+export const DEFAULT_BUDGET_TEAM = 'default'
+
+/**
+ * Thrown when a team has spent its budget for the period; mapped to BUDGET_EXCEEDED by handleAIError
+ */
+export class BudgetExceededError extends Error {
+  constructor(
+    public readonly team: string,
+    public readonly period: BudgetPeriod,
+    public readonly limit: number,
+    public readonly spent: number,
+    public readonly resetAt: Date
+  ) {
+    super(`AI budget exceeded: team ${team} spent $${spent} of its ${period} limit of $${limit}`)
+    this.name = 'BudgetExceededError'
+  }
+}
+
+/**
+ * Read budgets from AI_BUDGETS (JSON array) or AI_BUDGETS_FILE
+ * Invalid entries are skipped so a typo cannot take the API down
+ */
+export function loadBudgets(env: Record<string, string | undefined> = process.env): TeamBudget[] {
+  let raw: string | undefined
+  try {
+    raw = env.AI_BUDGETS_FILE ? readFileSync(env.AI_BUDGETS_FILE, 'utf-8') : env.AI_BUDGETS
+  } catch (error) {
+    console.error(`❌ Failed to read AI_BUDGETS_FILE ${env.AI_BUDGETS_FILE}:`, error)
+    return []
+  }
+  if (!raw?.trim()) return []
+
+  let entries: unknown
+  try {
+    entries = JSON.parse(raw)
+  } catch (error) {
+    console.error('❌ AI budget configuration is not valid JSON:', error)
+    return []
+  }
+
+  if (!Array.isArray(entries)) {
+    console.error('❌ AI budget configuration must be a JSON array')
+    return []
+  }
+
+  return entries.flatMap((entry, index) => {
+    const result = teamBudgetSchema.safeParse(entry)
+    if (!result.success) {
+      console.error(`❌ Ignoring AI budget #${index}:`, result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`))
+      return []
+    }
+    return [result.data]
+  })
+}
+
+/**
+ * Minimal header access shared by NextRequest and test doubles
+ */
+interface HeaderSource {
+  get(name: string): string | null
+}
+
+interface TeamSpend {
+  loadedAt: string // Stored records before this instant are counted by the load, later ones by the listener
+  day: string
+  month: string
+  daily: number
+  monthly: number
+}
+
+/**
+ * Budget guard
+ * Spend per team is loaded from stored usage once per process and then kept current from recorded calls
+ */
+export class BudgetGuard {
+  private spend = new Map<string, Promise<TeamSpend>>()
+
+  constructor(
+    private tracker: UsageTracker,
+    private budgets: TeamBudget[] = loadBudgets()
+  ) {
+    tracker.subscribe(record => this.addSpend(record))
+  }
+
+  /**
+   * Whether any budget is configured
+   */
+  get enabled(): boolean {
+    return this.budgets.length > 0
+  }
+
+  /**
+   * Identify the calling team from its API key or X-Team-Id header
+   * Falls back to the "default" budget, or undefined when budgets do not apply
+   */
+  resolveTeam(headers?: HeaderSource | null): string | undefined {
+    if (!this.enabled) return undefined
+
+    const apiKey = headers?.get('x-api-key') || headers?.get('authorization')?.replace(/^Bearer\s+/i, '')
+    const byKey = apiKey ? this.budgets.find(budget => budget.apiKeys.includes(apiKey)) : undefined
+    if (byKey) return byKey.team
+
+    // Teams with API keys must authenticate with one; a bare header cannot claim their budget
+    const teamHeader = headers?.get('x-team-id')
+    const byHeader = this.budgets.find(budget => budget.team === teamHeader && budget.apiKeys.length === 0)
+    if (byHeader) return byHeader.team
+
+    return this.budgets.some(budget => budget.team === DEFAULT_BUDGET_TEAM) ? DEFAULT_BUDGET_TEAM : undefined
+  }
+
+  /**
+   * Check the current request's team before an AI call
+   * Throws BudgetExceededError at a hard limit and adds a warning notice past the soft threshold
+   */
+  async enforce(): Promise<void> {
+    const team = getUsageAttribution()?.team
+    const budget = team ? this.budgets.find(candidate => candidate.team === team) : undefined
+    if (!team || !budget) return
+
+    const spend = await this.getSpend(team)
+    const now = new Date()
+
+    for (const period of ['daily', 'monthly'] as const) {
+      const limit = budget[period]
+      if (limit === undefined) continue
+
+      const spent = roundCost(spend[period])
+      if (spent >= limit) {
+        console.warn(`💸 Team ${team} exceeded its ${period} AI budget ($${spent} of $${limit})`)
+        throw new BudgetExceededError(team, period, limit, spent, getPeriodReset(period, now))
+      }
+
+      if (spent >= limit * budget.warnAt) {
+        addUsageNotice(createBudgetWarning(team, period, limit, spent))
+      }
+    }
+  }
+
+  /**
+   * Current spend of a team in USD
+   */
+  async getTeamSpend(team: string): Promise<{ daily: number; monthly: number }> {
+    const { daily, monthly } = await this.getSpend(team)
+    return { daily: roundCost(daily), monthly: roundCost(monthly) }
+  }
+
+  private getSpend(team: string): Promise<TeamSpend> {
+    const now = new Date()
+    const cached = this.spend.get(team)
+    if (cached) {
+      return cached.then(spend => rollPeriods(spend, now))
+    }
+
+    const loadedAt = now.toISOString()
+    const month = loadedAt.slice(0, 7)
+    const loading = this.tracker.list({ from: `${month}-01` }).then(records => {
+      const spend: TeamSpend = { loadedAt, day: loadedAt.slice(0, 10), month, daily: 0, monthly: 0 }
+      records
+        .filter(record => record.team === team && record.timestamp < loadedAt)
+        .forEach(record => addRecord(spend, record))
+      return spend
+    })
+
+    // Drop a failed load so the next call retries instead of caching the error
+    loading.catch(() => this.spend.delete(team))
+    this.spend.set(team, loading)
+    return loading
+  }
+
+  private addSpend(record: UsageRecord): void {
+    const cached = record.team ? this.spend.get(record.team) : undefined
+    cached?.then(spend => {
+      if (record.timestamp >= spend.loadedAt) {
+        addRecord(rollPeriods(spend, new Date(record.timestamp)), record)
+      }
+    }).catch(() => {})
+  }
+}
+
+function addRecord(spend: TeamSpend, record: UsageRecord): void {
+  if (!record.cost) return
+  if (record.timestamp.startsWith(spend.month)) spend.monthly += record.cost
+  if (record.timestamp.startsWith(spend.day)) spend.daily += record.cost
+}
+
+/**
+ * Reset counters that belong to a finished day or month
+ */
+function rollPeriods(spend: TeamSpend, now: Date): TeamSpend {
+  const day = now.toISOString().slice(0, 10)
+  const month = now.toISOString().slice(0, 7)
+
+  if (month > spend.month) {
+    spend.month = month
+    spend.monthly = 0
+  }
+  if (day > spend.day) {
+    spend.day = day
+    spend.daily = 0
+  }
+  return spend
+}
+
+function getPeriodReset(period: BudgetPeriod, now: Date): Date {
+  return period === 'daily'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+}
+
+function createBudgetWarning(team: string, period: BudgetPeriod, limit: number, spent: number): ConfigurationWarning {
+  const percent = Math.round((spent / limit) * 100)
+  return {
+    type: 'recommendation',
+    title: `AI ${period} budget ${percent}% used`,
+    message: `Team ${team} has spent $${spent} of its ${period} AI budget of $${limit}. Requests will be refused once the limit is reached.`,
+    recommendation: period === 'daily'
+      ? 'Reduce automatic refreshes or wait until the budget resets at midnight UTC'
+      : 'Ask an administrator to raise the monthly budget or reduce usage until the next month',
+    severity: percent >= 95 ? 'high' : 'medium'
+  }
+}
+
+/**
+ * Budget warnings raised during the current request, or undefined when there are none
+ * Undefined keeps the field out of JSON responses
+ */
+export function getBudgetWarnings(): ConfigurationWarning[] | undefined {
+  const warnings = getUsageNotices()
+  return warnings.length > 0 ? warnings : undefined
+}
+
+/**
+ * Shared guard configured from AI_BUDGETS
+ */
+export const budgetGuard = new BudgetGuard(usageTracker)
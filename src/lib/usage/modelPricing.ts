@@ -0,0 +1,93 @@
+/**
+ * Model Pricing
+ * Per-token prices used to estimate the cost of AI calls
+ */
+
+import { z } from 'zod'
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPrice {
+  inputPerMillion: number
+  outputPerMillion: number
+}
+
+/**
+ * Schema for MODEL_PRICING overrides, keyed by model id
+ */
+export const modelPricingSchema = z.record(z.string(), z.object({
+  inputPerMillion: z.number().nonnegative(),
+  outputPerMillion: z.number().nonnegative()
+}))
+
+/**
+ * List prices of the models the app ships with
+ * Keys are matched against model ids as prefixes, so dated snapshots share a price
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'gpt-4.1-mini': { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  'gpt-4.1': { inputPerMillion: 2, outputPerMillion: 8 },
+  'o4-mini': { inputPerMillion: 1.1, outputPerMillion: 4.4 },
+  'claude-3-5-haiku': { inputPerMillion: 0.8, outputPerMillion: 4 },
+  'claude-3-5-sonnet': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-7-sonnet': { inputPerMillion: 3, outputPerMillion: 15 },
+  'mock-qa-model': { inputPerMillion: 0, outputPerMillion: 0 }
+}
+
+/**
+ * Read MODEL_PRICING (JSON object of model id → price) on top of the defaults
+ * Models without a price (e.g. self-hosted ones) are reported as unpriced
+ */
+export function loadModelPrices(env: Record<string, string | undefined> = process.env): Record<string, ModelPrice> {
+  if (!env.MODEL_PRICING?.trim()) {
+    return DEFAULT_MODEL_PRICES
+  }
+
+  try {
+    const result = modelPricingSchema.safeParse(JSON.parse(env.MODEL_PRICING))
+    if (result.success) {
+      return { ...DEFAULT_MODEL_PRICES, ...result.data }
+    }
+    console.error('❌ Ignoring invalid MODEL_PRICING:', result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`))
+  } catch (error) {
+    console.error('❌ MODEL_PRICING is not valid JSON:', error)
+  }
+  return DEFAULT_MODEL_PRICES
+}
+
+/**
+ * Find the price for a model id; the longest matching key wins ("gpt-4o-mini" before "gpt-4o")
+ */
+export function getModelPrice(model: string, prices: Record<string, ModelPrice> = loadModelPrices()): ModelPrice | null {
+  const key = Object.keys(prices)
+    .filter(candidate => model === candidate || model.startsWith(candidate))
+    .sort((a, b) => b.length - a.length)[0]
+
+  return key ? prices[key] : null
+}
+
+/**
+ * Estimate the cost of a call in USD, or null when the model has no known price
+ */
+export function estimateCost(
+  model: string,
+  promptTokens: number,
+  completionTokens: number,
+  prices?: Record<string, ModelPrice>
+): number | null {
+  const price = getModelPrice(model, prices)
+  if (!price) return null
+
+  const cost = (promptTokens * price.inputPerMillion + completionTokens * price.outputPerMillion) / 1_000_000
+  return roundCost(cost)
+}
+
+/**
+ * Round to a millionth of a dollar so sums stay readable
+ */
+export function roundCost(cost: number): number {
+  return Math.round(cost * 1_000_000) / 1_000_000
+}
@@ -0,0 +1,142 @@
+/**
+ * Usage Storage
+ * Pluggable persistence for token usage records of AI calls
+ */
+
+import { appendFile, mkdir, readdir, readFile } from 'fs/promises'
+import path from 'path'
+
+/**
+ * AI SDK call that produced a usage record
+ */
+export type UsageOperation = 'generateText' | 'generateObject' | 'streamText'
+
+/**
+ * Token usage of a single AI call
+ */
+export interface UsageRecord {
+  timestamp: string
+  requestId?: string
+  endpoint?: string
+  ticketId?: string
+  team?: string
+  section?: string
+  operation: UsageOperation
+  provider: string
+  model: string
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  cost: number | null // USD, null when the model has no known price
+}
+
+/**
+ * Time range for reading records; bounds are inclusive ISO timestamps or dates
+ */
+export interface UsageQuery {
+  from?: string
+  to?: string
+}
+
+/**
+ * Storage backend for usage records
+ * Records are append-only
+ */
+export interface UsageStore {
+  append(record: UsageRecord): Promise<void>
+  list(query?: UsageQuery): Promise<UsageRecord[]>
+}
+
+/**
+ * In-memory store, used in tests and when persistence is disabled
+ */
+export class InMemoryUsageStore implements UsageStore {
+  private records: UsageRecord[] = []
+
+  async append(record: UsageRecord): Promise<void> {
+    this.records.push({ ...record })
+  }
+
+  async list(query: UsageQuery = {}): Promise<UsageRecord[]> {
+    return this.records.filter(record => isInRange(record, query)).map(record => ({ ...record }))
+  }
+}
+
+/**
+ * File-based store appending one JSON line per call to a file per UTC day:
+ * <baseDir>/<YYYY-MM-DD>.jsonl
+ */
+export class FileUsageStore implements UsageStore {
+  constructor(private baseDir: string) {}
+
+  async append(record: UsageRecord): Promise<void> {
+    await mkdir(this.baseDir, { recursive: true })
+    await appendFile(path.join(this.baseDir, `${record.timestamp.slice(0, 10)}.jsonl`), `${JSON.stringify(record)}\n`, 'utf-8')
+  }
+
+  async list(query: UsageQuery = {}): Promise<UsageRecord[]> {
+    let files: string[]
+    try {
+      files = await readdir(this.baseDir)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return []
+      throw error
+    }
+
+    // Skip whole days outside the range before reading them
+    const dayFiles = files
+      .filter(file => /^\d{4}-\d{2}-\d{2}\.jsonl$/.test(file))
+      .filter(file => {
+        const day = file.slice(0, 10)
+        return (!query.from || day >= query.from.slice(0, 10)) && (!query.to || day <= query.to.slice(0, 10))
+      })
+      .sort()
+
+    const records: UsageRecord[] = []
+    for (const file of dayFiles) {
+      const content = await readFile(path.join(this.baseDir, file), 'utf-8')
+      content.split('\n').filter(line => line.trim()).forEach(line => {
+        try {
+          records.push(JSON.parse(line))
+        } catch {
+          // A crash mid-append can leave a truncated last line
+          console.warn(`⚠️ Skipping unreadable usage record in ${file}`)
+        }
+      })
+    }
+
+    return records.filter(record => isInRange(record, query))
+  }
+}
+
+/**
+ * Date-only bounds cover the whole day
+ */
+function isInRange(record: UsageRecord, query: UsageQuery): boolean {
+  if (query.from && record.timestamp < query.from) return false
+  if (query.to) {
+    const to = /^\d{4}-\d{2}-\d{2}$/.test(query.to) ? `${query.to}T23:59:59.999Z` : query.to
+    if (record.timestamp > to) return false
+  }
+  return true
+}
+
+/**
+ * Create the store configured through USAGE_STORE ("file" or "memory")
+ * Defaults to the file store, or memory when running tests
+ */
+export function createUsageStore(): UsageStore {
+  const storeType = process.env.USAGE_STORE ||
+    (process.env.NODE_ENV === 'test' ? 'memory' : 'file')
+
+  if (storeType === 'memory') {
+    return new InMemoryUsageStore()
+  }
+
+  if (storeType !== 'file') {
+    console.warn(`⚠️ Unknown USAGE_STORE "${storeType}", falling back to file storage`)
+  }
+
+  const baseDir = process.env.USAGE_DIR || path.join(process.cwd(), '.data', 'usage')
+  return new FileUsageStore(baseDir)
+}
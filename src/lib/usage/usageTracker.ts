@@ -0,0 +1,355 @@
+/**
+ * Usage Tracker
+ * Attributes token usage of AI calls to requests, tickets and sections and aggregates cost reports
+ */
+
+import { AsyncLocalStorage } from 'async_hooks'
+import type { ConfigurationWarning, UsageBreakdownEntry, UsageSummary } from '../schemas/QACanvasDocument'
+import { estimateCost, roundCost } from './modelPricing'
+import {
+  createUsageStore,
+  type UsageOperation,
+  type UsageQuery,
+  type UsageRecord,
+  type UsageStore
+} from './usageStore'
+
+/**
+ * Token counts as reported by the AI SDK
+ */
+export interface LanguageModelUsage {
+  promptTokens?: number
+  completionTokens?: number
+  totalTokens?: number
+}
+
+/**
+ * An AI call to record
+ */
+export interface UsageCall {
+  operation: UsageOperation
+  provider: string
+  model: string
+  usage: LanguageModelUsage | PromiseLike<LanguageModelUsage> | undefined
+}
+
+/**
+ * Dimensions the usage report can be grouped by
+ */
+export const USAGE_REPORT_GROUPS = ['day', 'ticket', 'team', 'endpoint', 'model', 'section'] as const
+export type UsageReportGroup = typeof USAGE_REPORT_GROUPS[number]
+
+/**
+ * Token and cost totals of a set of calls
+ */
+export interface UsageTotals {
+  calls: number
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  estimatedCost: number
+  unpricedCalls: number
+}
+
+/**
+ * Aggregated usage report
+ */
+export interface UsageReport {
+  groupBy: UsageReportGroup
+  from?: string
+  to?: string
+  currency: 'USD'
+  totals: UsageTotals
+  groups: Array<UsageTotals & { key: string }>
+}
+
+/**
+ * Filters for a usage report
+ */
+export interface UsageReportQuery extends UsageQuery {
+  groupBy: UsageReportGroup
+  ticketId?: string
+  team?: string
+  endpoint?: string
+}
+
+/**
+ * Who the calls of the current request are attributed to
+ */
+export interface UsageAttribution {
+  endpoint: string
+  requestId?: string
+  ticketId?: string
+  team?: string
+  section?: string
+}
+
+interface UsageScope extends UsageAttribution {
+  records: UsageRecord[]
+  notices: ConfigurationWarning[]
+}
+
+/**
+ * Called for every recorded call, e.g. to keep budget totals current
+ */
+export type UsageListener = (record: UsageRecord) => void
+
+const usageScope = new AsyncLocalStorage<UsageScope>()
+
+/**
+ * Run a request handler in its own usage scope so calls are attributed to the endpoint
+ */
+export function withUsageTracking<T>(endpoint: string, handler: () => Promise<T>): Promise<T> {
+  return usageScope.run({ endpoint, records: [], notices: [] }, handler)
+}
+
+/**
+ * Attribute the rest of the current request to a request ID, ticket and team
+ */
+export function attributeUsage(attribution: { requestId?: string; ticketId?: string; team?: string }): void {
+  const scope = usageScope.getStore()
+  if (!scope) return
+
+  scope.requestId = attribution.requestId ?? scope.requestId
+  scope.ticketId = attribution.ticketId ?? scope.ticketId
+  scope.team = attribution.team ?? scope.team
+}
+
+/**
+ * Attribution of the current request (undefined outside a usage scope)
+ */
+export function getUsageAttribution(): UsageAttribution | undefined {
+  const scope = usageScope.getStore()
+  return scope && {
+    endpoint: scope.endpoint,
+    requestId: scope.requestId,
+    ticketId: scope.ticketId,
+    team: scope.team,
+    section: scope.section
+  }
+}
+
+/**
+ * Attach a notice (e.g. a budget warning) to the current request; duplicates by title are dropped
+ */
+export function addUsageNotice(notice: ConfigurationWarning): void {
+  const scope = usageScope.getStore()
+  if (scope && !scope.notices.some(existing => existing.title === notice.title)) {
+    scope.notices.push(notice)
+  }
+}
+
+/**
+ * Notices raised during the current request
+ */
+export function getUsageNotices(): ConfigurationWarning[] {
+  return [...(usageScope.getStore()?.notices || [])]
+}
+
+/**
+ * Attribute calls made by a generator to a document section
+ * Sections share the request's record list, so parallel generators still add up in one summary
+ */
+export function withUsageSection<T>(section: string, generator: () => Promise<T>): Promise<T> {
+  const scope = usageScope.getStore()
+  return scope ? usageScope.run({ ...scope, section }, generator) : generator()
+}
+
+/**
+ * Usage tracker service
+ */
+export class UsageTracker {
+  private listeners: UsageListener[] = []
+
+  constructor(private store: UsageStore) {}
+
+  /**
+   * Register a listener for recorded calls
+   */
+  subscribe(listener: UsageListener): () => void {
+    this.listeners.push(listener)
+    return () => {
+      this.listeners = this.listeners.filter(candidate => candidate !== listener)
+    }
+  }
+
+  /**
+   * Read stored usage records
+   */
+  list(query?: UsageQuery): Promise<UsageRecord[]> {
+    return this.store.list(query)
+  }
+
+  /**
+   * Record an AI call; streamed calls pass the usage promise and are recorded once it settles
+   * Recording never throws, so accounting problems cannot fail a request
+   */
+  record(call: UsageCall): void {
+    const scope = usageScope.getStore()
+    const usage = call.usage
+    if (!usage) return
+
+    if (isPromiseLike(usage)) {
+      Promise.resolve(usage)
+        .then(resolved => this.persist(call, resolved, scope))
+        .catch(() => {
+          // Failed streams have no usage; the error reaches the caller through the stream itself
+        })
+      return
+    }
+
+    this.persist(call, usage, scope)
+  }
+
+  /**
+   * Summary of the calls recorded so far in the current request
+   */
+  getRequestSummary(): UsageSummary | undefined {
+    const scope = usageScope.getStore()
+    return scope && scope.records.length > 0 ? summarizeUsage(scope.records) : undefined
+  }
+
+  /**
+   * Aggregate stored usage by day, ticket, team, endpoint, model or section
+   */
+  async getReport(query: UsageReportQuery): Promise<UsageReport> {
+    const records = (await this.store.list({ from: query.from, to: query.to }))
+      .filter(record => !query.ticketId || record.ticketId === query.ticketId)
+      .filter(record => !query.team || record.team === query.team)
+      .filter(record => !query.endpoint || record.endpoint === query.endpoint)
+
+    const grouped = new Map<string, UsageRecord[]>()
+    records.forEach(record => {
+      const key = getGroupKey(record, query.groupBy)
+      grouped.set(key, [...(grouped.get(key) || []), record])
+    })
+
+    const groups = Array.from(grouped.entries())
+      .map(([key, groupRecords]) => ({ key, ...sumUsage(groupRecords) }))
+      // Days read chronologically; other groupings put the most expensive first
+      .sort((a, b) => query.groupBy === 'day'
+        ? a.key.localeCompare(b.key)
+        : b.estimatedCost - a.estimatedCost || b.totalTokens - a.totalTokens)
+
+    return {
+      groupBy: query.groupBy,
+      from: query.from,
+      to: query.to,
+      currency: 'USD',
+      totals: sumUsage(records),
+      groups
+    }
+  }
+
+  private persist(call: UsageCall, usage: LanguageModelUsage, scope: UsageScope | undefined): void {
+    const promptTokens = toTokenCount(usage.promptTokens)
+    const completionTokens = toTokenCount(usage.completionTokens)
+
+    const record: UsageRecord = {
+      timestamp: new Date().toISOString(),
+      requestId: scope?.requestId,
+      endpoint: scope?.endpoint,
+      ticketId: scope?.ticketId,
+      team: scope?.team,
+      section: scope?.section,
+      operation: call.operation,
+      provider: call.provider,
+      model: call.model,
+      promptTokens,
+      completionTokens,
+      totalTokens: toTokenCount(usage.totalTokens) || promptTokens + completionTokens,
+      cost: estimateCost(call.model, promptTokens, completionTokens)
+    }
+
+    scope?.records.push(record)
+    this.listeners.forEach(listener => listener(record))
+    this.store.append(record).catch(error => {
+      console.error('❌ Failed to store usage record:', error)
+    })
+  }
+}
+
+/**
+ * Build the per-document usage summary, broken down by section and model
+ */
+export function summarizeUsage(records: UsageRecord[]): UsageSummary {
+  const entries = new Map<string, UsageBreakdownEntry>()
+
+  records.forEach(record => {
+    const key = [record.section || '', record.provider, record.model].join('|')
+    const entry = entries.get(key) || {
+      section: record.section,
+      provider: record.provider,
+      model: record.model,
+      calls: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0,
+      cost: 0
+    }
+
+    entry.calls++
+    entry.promptTokens += record.promptTokens
+    entry.completionTokens += record.completionTokens
+    entry.totalTokens += record.totalTokens
+    // One unpriced call makes the entry's cost unknown
+    entry.cost = entry.cost === null || record.cost === null ? null : roundCost(entry.cost + record.cost)
+    entries.set(key, entry)
+  })
+
+  const { calls, promptTokens, completionTokens, totalTokens, estimatedCost, unpricedCalls } = sumUsage(records)
+  return {
+    calls,
+    promptTokens,
+    completionTokens,
+    totalTokens,
+    estimatedCost,
+    unpricedCalls,
+    currency: 'USD',
+    breakdown: Array.from(entries.values())
+  }
+}
+
+function sumUsage(records: UsageRecord[]): UsageTotals {
+  return records.reduce<UsageTotals>((totals, record) => ({
+    calls: totals.calls + 1,
+    promptTokens: totals.promptTokens + record.promptTokens,
+    completionTokens: totals.completionTokens + record.completionTokens,
+    totalTokens: totals.totalTokens + record.totalTokens,
+    estimatedCost: roundCost(totals.estimatedCost + (record.cost ?? 0)),
+    unpricedCalls: totals.unpricedCalls + (record.cost === null ? 1 : 0)
+  }), { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, estimatedCost: 0, unpricedCalls: 0 })
+}
+
+function getGroupKey(record: UsageRecord, groupBy: UsageReportGroup): string {
+  switch (groupBy) {
+    case 'day':
+      return record.timestamp.slice(0, 10)
+    case 'ticket':
+      return record.ticketId || 'unknown'
+    case 'team':
+      return record.team || 'unknown'
+    case 'endpoint':
+      return record.endpoint || 'unknown'
+    case 'model':
+      return `${record.provider}/${record.model}`
+    case 'section':
+      return record.section || 'unknown'
+  }
+}
+
+function toTokenCount(value: number | undefined): number {
+  // Providers that do not report usage yield NaN through the AI SDK
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0
+}
+
+function isPromiseLike<T>(value: T | PromiseLike<T>): value is PromiseLike<T> {
+  return typeof (value as PromiseLike<T>)?.then === 'function'
+}
+
+/**
+ * Shared tracker backed by the configured store
+ */
+export const usageTracker = new UsageTracker(createUsageStore())
+
+export type { UsageOperation, UsageRecord, UsageStore } from './usageStore'
@@ -334,4 +334,17 @@ export function prepareCommentImages(
   }
 
   return commentImages
-}
\ No newline at end of file
+}
+/**
+ * Extract the base64 payload from base64 image data or a base64 data URL
+ * Returns null for anything else (remote URLs included), so callers never hand a fetchable URL to an AI provider
+ */
+export function extractBase64ImageData(data: string): string | null {
+  const dataUrl = data.match(/^data:image\/[\w.+-]+;base64,([\s\S]*)$/)
+  if (data.startsWith('data:') && !dataUrl) {
+    return null
+  }
+
+  const payload = (dataUrl ? dataUrl[1] : data).replace(/\s+/g, '')
+  return /^[A-Za-z0-9+/]+={0,2}$/.test(payload) ? payload : null
+}
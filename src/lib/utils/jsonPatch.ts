@@ -0,0 +1,190 @@
+/**
+ * JSON Patch (RFC 6902)
+ * Applies add/remove/replace/move/copy/test operations addressed by JSON Pointers (RFC 6901)
+ */
+
+import { z } from 'zod'
+
+export const jsonPatchOperationSchema = z.discriminatedUnion('op', [
+  z.object({ op: z.literal('add'), path: z.string(), value: z.unknown() }),
+  z.object({ op: z.literal('remove'), path: z.string() }),
+  z.object({ op: z.literal('replace'), path: z.string(), value: z.unknown() }),
+  z.object({ op: z.literal('move'), from: z.string(), path: z.string() }),
+  z.object({ op: z.literal('copy'), from: z.string(), path: z.string() }),
+  z.object({ op: z.literal('test'), path: z.string(), value: z.unknown() })
+])
+
+export const jsonPatchSchema = z.array(jsonPatchOperationSchema)
+
+export type JsonPatchOperation = z.infer<typeof jsonPatchOperationSchema>
+export type JsonPatch = z.infer<typeof jsonPatchSchema>
+
+/**
+ * Raised when an operation cannot be applied; index points at the failing operation
+ */
+export class JsonPatchError extends Error {
+  constructor(message: string, public index: number, public operation: JsonPatchOperation) {
+    super(message)
+    this.name = 'JsonPatchError'
+  }
+}
+
+type Container = Record<string, unknown> | unknown[]
+
+/**
+ * Split a JSON Pointer into unescaped reference tokens
+ */
+export function parsePointer(pointer: string): string[] {
+  if (pointer === '') return []
+  if (!pointer.startsWith('/')) {
+    throw new Error(`Invalid JSON Pointer "${pointer}": must be empty or start with "/"`)
+  }
+
+  return pointer.slice(1).split('/').map(token => {
+    const unescaped = token.replace(/~1/g, '/').replace(/~0/g, '~')
+    if (unescaped === '__proto__') {
+      throw new Error(`Invalid JSON Pointer "${pointer}": "__proto__" is not allowed`)
+    }
+    return unescaped
+  })
+}
+
+/**
+ * Apply a patch to a copy of the document; the input is never mutated
+ * Operations are atomic: if any operation fails, a JsonPatchError is thrown and nothing is returned
+ */
+export function applyPatch<T>(document: T, patch: JsonPatch): T {
+  let result: unknown = structuredClone(document)
+
+  patch.forEach((operation, index) => {
+    try {
+      result = applyOperation(result, operation)
+    } catch (error) {
+      if (error instanceof JsonPatchError) throw error
+      throw new JsonPatchError(
+        `Operation ${index} (${operation.op} ${operation.path}) failed: ${error instanceof Error ? error.message : String(error)}`,
+        index,
+        operation
+      )
+    }
+  })
+
+  return result as T
+}
+
+function applyOperation(document: unknown, operation: JsonPatchOperation): unknown {
+  const tokens = parsePointer(operation.path)
+
+  switch (operation.op) {
+    case 'add':
+      return addValue(document, tokens, structuredClone(operation.value))
+
+    case 'remove':
+      return removeValue(document, tokens)
+
+    case 'replace':
+      getValue(document, tokens)
+      return addValue(removeValue(document, tokens), tokens, structuredClone(operation.value))
+
+    case 'move': {
+      const fromTokens = parsePointer(operation.from)
+      if (operation.path !== operation.from && operation.path.startsWith(`${operation.from}/`)) {
+        throw new Error('cannot move a value into one of its children')
+      }
+      const value = getValue(document, fromTokens)
+      return addValue(removeValue(document, fromTokens), tokens, value)
+    }
+
+    case 'copy': {
+      const value = getValue(document, parsePointer(operation.from))
+      return addValue(document, tokens, structuredClone(value))
+    }
+
+    case 'test':
+      if (!deepEqual(getValue(document, tokens), operation.value)) {
+        throw new Error('test failed: value does not match')
+      }
+      return document
+  }
+}
+
+function getValue(document: unknown, tokens: string[]): unknown {
+  let current = document
+  for (const token of tokens) {
+    const container = asContainer(current)
+    if (Array.isArray(container)) {
+      current = container[parseIndex(token, container.length - 1)]
+    } else {
+      if (!Object.prototype.hasOwnProperty.call(container, token)) {
+        throw new Error(`path segment "${token}" does not exist`)
+      }
+      current = container[token]
+    }
+  }
+  return current
+}
+
+function addValue(document: unknown, tokens: string[], value: unknown): unknown {
+  if (tokens.length === 0) return value
+
+  const parent = asContainer(getValue(document, tokens.slice(0, -1)))
+  const key = tokens[tokens.length - 1]
+
+  if (Array.isArray(parent)) {
+    const index = key === '-' ? parent.length : parseIndex(key, parent.length)
+    parent.splice(index, 0, value)
+  } else {
+    parent[key] = value
+  }
+  return document
+}
+
+function removeValue(document: unknown, tokens: string[]): unknown {
+  if (tokens.length === 0) return undefined
+
+  const parent = asContainer(getValue(document, tokens.slice(0, -1)))
+  const key = tokens[tokens.length - 1]
+
+  if (Array.isArray(parent)) {
+    parent.splice(parseIndex(key, parent.length - 1), 1)
+  } else {
+    if (!Object.prototype.hasOwnProperty.call(parent, key)) {
+      throw new Error(`path segment "${key}" does not exist`)
+    }
+    delete parent[key]
+  }
+  return document
+}
+
+function asContainer(value: unknown): Container {
+  if (value === null || typeof value !== 'object') {
+    throw new Error('path traverses a non-container value')
+  }
+  return value as Container
+}
+
+function parseIndex(token: string, max: number): number {
+  if (!/^(0|[1-9][0-9]*)$/.test(token)) {
+    throw new Error(`"${token}" is not a valid array index`)
+  }
+  const index = Number(token)
+  if (index > max) {
+    throw new Error(`array index ${index} is out of bounds`)
+  }
+  return index
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') return false
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+
+  const aKeys = Object.keys(a)
+  const bKeys = Object.keys(b)
+  if (aKeys.length !== bKeys.length) return false
+
+  return aKeys.every(key =>
+    Object.prototype.hasOwnProperty.call(b, key) &&
+    deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+  )
+}
@@ -0,0 +1,265 @@
+/**
+ * Minimal Redis Protocol (RESP) Client
+ * Speaks RESP2 over a single TCP connection; enough for key/value storage without extra dependencies
+ */
+
+import net from 'net'
+
+export type RespValue = string | number | null | RespValue[]
+
+/**
+ * Error reply returned by the server (e.g. "-ERR unknown command")
+ */
+export class RespError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RespError'
+  }
+}
+
+interface PendingReply {
+  resolve: (value: RespValue) => void
+  reject: (error: Error) => void
+  timer: NodeJS.Timeout
+}
+
+/**
+ * Connection options parsed from a redis:// URL
+ */
+export interface RespClientOptions {
+  host: string
+  port: number
+  password?: string
+  username?: string
+  db?: number
+  connectTimeout?: number
+  commandTimeout?: number
+}
+
+/**
+ * Parse redis://[user[:password]@]host[:port][/db]
+ */
+export function parseRedisUrl(url: string): RespClientOptions {
+  const parsed = new URL(url)
+  const db = parsed.pathname.replace('/', '')
+
+  return {
+    host: parsed.hostname || '127.0.0.1',
+    port: Number(parsed.port) || 6379,
+    username: parsed.username ? decodeURIComponent(parsed.username) : undefined,
+    password: parsed.password ? decodeURIComponent(parsed.password) : undefined,
+    db: db ? Number(db) : undefined
+  }
+}
+
+/**
+ * RESP client with lazy connection and pipelined replies
+ */
+export class RespClient {
+  private socket: net.Socket | null = null
+  private connecting: Promise<void> | null = null
+  private buffer = Buffer.alloc(0)
+  private pending: PendingReply[] = []
+
+  constructor(private options: RespClientOptions) {}
+
+  /**
+   * Send a command and wait for its reply
+   */
+  async command(args: Array<string | number>): Promise<RespValue> {
+    await this.connect()
+    return this.send(args)
+  }
+
+  /**
+   * Close the connection; pending commands are rejected
+   */
+  async quit(): Promise<void> {
+    const socket = this.socket
+    if (!socket) return
+
+    this.socket = null
+    this.connecting = null
+    await new Promise<void>(resolve => socket.end(resolve))
+    this.failPending(new Error('Connection closed'))
+  }
+
+  private async connect(): Promise<void> {
+    if (this.socket) return
+    if (!this.connecting) {
+      this.connecting = this.openConnection().catch(error => {
+        this.connecting = null
+        throw error
+      })
+    }
+    return this.connecting
+  }
+
+  private async openConnection(): Promise<void> {
+    const { host, port, connectTimeout = 5000 } = this.options
+
+    const socket = await new Promise<net.Socket>((resolve, reject) => {
+      const connection = net.createConnection({ host, port })
+      const timer = setTimeout(() => {
+        connection.destroy()
+        reject(new Error(`Redis connection to ${host}:${port} timed out`))
+      }, connectTimeout)
+
+      connection.once('connect', () => {
+        clearTimeout(timer)
+        resolve(connection)
+      })
+      connection.once('error', error => {
+        clearTimeout(timer)
+        reject(error)
+      })
+    })
+
+    this.buffer = Buffer.alloc(0)
+    socket.on('data', chunk => this.onData(chunk))
+    // Events of a connection that was already replaced must not fail the commands of the new one
+    socket.on('error', error => {
+      if (this.socket === socket) this.failPending(error)
+    })
+    socket.on('close', () => {
+      if (this.socket !== socket) return
+      this.socket = null
+      this.connecting = null
+      this.failPending(new Error('Connection closed'))
+    })
+    this.socket = socket
+
+    if (this.options.password) {
+      await this.send(this.options.username
+        ? ['AUTH', this.options.username, this.options.password]
+        : ['AUTH', this.options.password])
+    }
+    if (this.options.db !== undefined) {
+      await this.send(['SELECT', this.options.db])
+    }
+  }
+
+  private send(args: Array<string | number>): Promise<RespValue> {
+    const socket = this.socket
+    if (!socket) {
+      return Promise.reject(new Error('Redis connection is not open'))
+    }
+
+    const { commandTimeout = 5000 } = this.options
+    return new Promise((resolve, reject) => {
+      // Replies are matched by order, so a late reply would answer the wrong command; drop the connection instead
+      const timer = setTimeout(() => {
+        this.abort(socket, new Error(`Redis command ${args[0]} timed out after ${commandTimeout}ms`))
+      }, commandTimeout)
+
+      this.pending.push({ resolve, reject, timer })
+      socket.write(encodeCommand(args))
+    })
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk])
+
+    while (this.pending.length > 0) {
+      let parsed: ReturnType<typeof parseReply>
+      try {
+        parsed = parseReply(this.buffer, 0)
+      } catch (error) {
+        // The stream cannot be resynchronised after a malformed reply
+        this.abort(this.socket, error as Error)
+        return
+      }
+      if (!parsed) break
+
+      this.buffer = this.buffer.subarray(parsed.offset)
+      const reply = this.pending.shift()!
+      clearTimeout(reply.timer)
+      if (parsed.value instanceof RespError) {
+        reply.reject(parsed.value)
+      } else {
+        reply.resolve(parsed.value)
+      }
+    }
+  }
+
+  /**
+   * Reject pending commands with the error and destroy the connection; the next command reconnects
+   */
+  private abort(socket: net.Socket | null, error: Error): void {
+    if (socket && this.socket === socket) {
+      this.socket = null
+      this.connecting = null
+    }
+    this.buffer = Buffer.alloc(0)
+    this.failPending(error)
+    socket?.destroy()
+  }
+
+  private failPending(error: Error): void {
+    const pending = this.pending
+    this.pending = []
+    pending.forEach(reply => {
+      clearTimeout(reply.timer)
+      reply.reject(error)
+    })
+  }
+}
+
+/**
+ * Encode a command as a RESP array of bulk strings
+ */
+export function encodeCommand(args: Array<string | number>): Buffer {
+  const parts = [`*${args.length}\r\n`]
+  args.forEach(arg => {
+    const value = String(arg)
+    parts.push(`$${Buffer.byteLength(value)}\r\n${value}\r\n`)
+  })
+  return Buffer.from(parts.join(''))
+}
+
+/**
+ * Parse one reply starting at offset; returns null when more data is needed
+ */
+export function parseReply(
+  buffer: Buffer,
+  offset: number
+): { value: RespValue | RespError; offset: number } | null {
+  const lineEnd = buffer.indexOf('\r\n', offset)
+  if (lineEnd === -1) return null
+
+  const type = String.fromCharCode(buffer[offset])
+  const line = buffer.toString('utf-8', offset + 1, lineEnd)
+  const next = lineEnd + 2
+
+  switch (type) {
+    case '+':
+      return { value: line, offset: next }
+    case '-':
+      return { value: new RespError(line), offset: next }
+    case ':':
+      return { value: Number(line), offset: next }
+    case '$': {
+      const length = Number(line)
+      if (length === -1) return { value: null, offset: next }
+      if (buffer.length < next + length + 2) return null
+      return { value: buffer.toString('utf-8', next, next + length), offset: next + length + 2 }
+    }
+    case '*': {
+      const count = Number(line)
+      if (count === -1) return { value: null, offset: next }
+
+      const items: RespValue[] = []
+      let position = next
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position)
+        if (!item) return null
+        if (item.value instanceof RespError) return item
+        items.push(item.value)
+        position = item.offset
+      }
+      return { value: items, offset: position }
+    }
+    default:
+      throw new RespError(`Unexpected RESP reply type "${type}"`)
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Server-Sent Events Utilities
+ * Helpers for streaming incremental results to the Chrome extension
+ */
+
+/**
+ * Function used by stream producers to emit a named event
+ */
+export type SSESend = (event: string, data: unknown) => void
+
+/**
+ * Headers required for an SSE response (CORS included)
+ */
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  'Connection': 'keep-alive',
+  'X-Accel-Buffering': 'no',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, Accept',
+}
+
+/**
+ * Check whether the client asked for an event stream via the Accept header
+ */
+export function acceptsEventStream(request: { headers?: Headers }): boolean {
+  const accept = request.headers?.get?.('accept') || ''
+  return accept.toLowerCase().includes('text/event-stream')
+}
+
+/**
+ * Serialize a single SSE event frame
+ */
+export function formatSSEEvent(event: string, data: unknown, id?: string | number): string {
+  const payload = JSON.stringify(data ?? null)
+  const lines = id !== undefined ? [`id: ${id}`] : []
+  lines.push(`event: ${event}`)
+  payload.split('\n').forEach(line => lines.push(`data: ${line}`))
+  return `${lines.join('\n')}\n\n`
+}
+
+/**
+ * Create a ReadableStream that runs the producer and closes when it settles
+ * Events sent after the client disconnects are silently dropped
+ */
+export function createSSEStream(producer: (send: SSESend) => Promise<void>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  let closed = false
+  let eventId = 0
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: SSESend = (event, data) => {
+        if (closed) return
+        try {
+          controller.enqueue(encoder.encode(formatSSEEvent(event, data, eventId++)))
+        } catch {
+          closed = true
+        }
+      }
+
+      try {
+        await producer(send)
+      } finally {
+        if (!closed) {
+          closed = true
+          controller.close()
+        }
+      }
+    },
+    cancel() {
+      closed = true
+    }
+  })
+}